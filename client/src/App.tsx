@@ -36,6 +36,10 @@ import Anywho from "./pages/Anywho";
 import AnywhoSearch from "./pages/AnywhoSearch";
 import AnywhoTask from "./pages/AnywhoTask";
 import AnywhoHistory from "./pages/AnywhoHistory";
+import WaterfallSearch from "./pages/WaterfallSearch";
+import WaterfallTask from "./pages/WaterfallTask";
+import PhoneLookup from "./pages/PhoneLookup";
+import PhoneLookupTask from "./pages/PhoneLookupTask";
 import AgentCenter from "./pages/AgentCenter";
 import AgentApply from "./pages/AgentApply";
 import AgentPortal from "./pages/AgentPortal";
@@ -72,6 +76,10 @@ function Router() {
       <Route path="/anywho" component={AnywhoSearch} />
       <Route path="/anywho/task/:taskId" component={AnywhoTask} />
       <Route path="/anywho/history" component={AnywhoHistory} />
+      <Route path="/waterfall" component={WaterfallSearch} />
+      <Route path="/waterfall/task/:taskId" component={WaterfallTask} />
+      <Route path="/phone-lookup" component={PhoneLookup} />
+      <Route path="/phone-lookup/task/:taskId" component={PhoneLookupTask} />
       {/* 代理系统路由 */}
       <Route path="/apply-agent" component={AgentApply} />
       <Route path="/agent-portal/login" component={AgentLogin} />
@@ -0,0 +1,201 @@
+/**
+ * 开放 API 密钥管理卡片（账户设置页）
+ * 创建、重命名、吊销 REST API 密钥，明文只在创建后显示一次
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Code, Copy, Loader2, Plus, Pencil, Trash2, Check, X } from "lucide-react";
+
+const formatTime = (value: string | Date | null | undefined) => {
+  if (!value) return "从未使用";
+  return new Date(value).toLocaleString("zh-CN");
+};
+
+export default function ApiKeysCard() {
+  const utils = trpc.useUtils();
+  const [newKeyName, setNewKeyName] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const { data: keys, isLoading } = trpc.apiKeys.list.useQuery();
+
+  const createMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: (data) => {
+      setCreatedKey(data.plainKey);
+      setNewKeyName("");
+      utils.apiKeys.list.invalidate();
+      toast.success("密钥已创建，请立即复制保存");
+    },
+    onError: (error) => {
+      toast.error("创建失败", { description: error.message });
+    },
+  });
+
+  const renameMutation = trpc.apiKeys.rename.useMutation({
+    onSuccess: () => {
+      setEditingId(null);
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("重命名失败", { description: error.message });
+    },
+  });
+
+  const revokeMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("吊销失败", { description: error.message });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!newKeyName.trim()) {
+      toast.error("请输入密钥名称");
+      return;
+    }
+    createMutation.mutate({ name: newKeyName.trim() });
+  };
+
+  const handleRevoke = (id: number, name: string) => {
+    if (!confirm(`确定吊销密钥「${name}」吗？使用该密钥的系统将立即无法访问。`)) return;
+    revokeMutation.mutate({ id });
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success("已复制到剪贴板");
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Code className="w-5 h-5 text-green-400" />
+          API 密钥
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          通过 REST API (/api/v1) 提交搜索、查询任务，扣费规则与网页端一致
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="密钥名称，如 CRM 自动化"
+            value={newKeyName}
+            maxLength={100}
+            onChange={(e) => setNewKeyName(e.target.value)}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            创建密钥
+          </Button>
+        </div>
+
+        {createdKey && (
+          <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/30 space-y-2">
+            <p className="text-sm text-green-400">请立即复制保存，关闭后将无法再次查看完整密钥</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-white break-all">{createdKey}</code>
+              <Button variant="ghost" size="icon" onClick={copyKey}>
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setCreatedKey(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : keys && keys.length > 0 ? (
+          <div className="space-y-2">
+            {keys.map(key => (
+              <div key={key.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                <div className="flex-1 min-w-0">
+                  {editingId === key.id ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={editingName}
+                        maxLength={100}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        className="h-8 bg-slate-800/50 border-slate-700 text-white"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => renameMutation.mutate({ id: key.id, name: editingName.trim() })}
+                        disabled={!editingName.trim() || renameMutation.isPending}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-white truncate">{key.name}</p>
+                  )}
+                  <p className="text-xs text-slate-500 font-mono">
+                    {key.keyPrefix}… · 每分钟 {key.rateLimitPerMinute} 次 · 最近使用 {formatTime(key.lastUsedAt)}
+                  </p>
+                </div>
+                {key.revokedAt ? (
+                  <Badge variant="secondary">已吊销</Badge>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setEditingId(key.id);
+                        setEditingName(key.name);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevoke(key.id, key.name)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 text-center py-4">暂无 API 密钥</p>
+        )}
+
+        <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30 text-xs text-slate-400 space-y-1">
+          <p>请求头：<code className="text-slate-300">Authorization: Bearer &lt;密钥&gt;</code></p>
+          <p><code className="text-slate-300">POST /api/v1/tps/search</code> 提交 TPS 搜索</p>
+          <p><code className="text-slate-300">GET /api/v1/tasks/:id</code> 查询任务状态</p>
+          <p><code className="text-slate-300">GET /api/v1/tasks/:id/results?page=1&amp;pageSize=50</code> 获取结果</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
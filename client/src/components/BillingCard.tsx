@@ -0,0 +1,165 @@
+/**
+ * 账单卡片（账户设置页）
+ * 下载月结单和充值收据（PDF / HTML），邮件服务已配置时可发送到账户邮箱
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { downloadBillingDocument } from "@/lib/download";
+import { toast } from "sonner";
+import { Receipt, FileDown, FileText, Mail, Loader2 } from "lucide-react";
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export default function BillingCard() {
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: overview } = trpc.billing.overview.useQuery();
+  const { data: ordersData } = trpc.recharge.history.useQuery({ page: 1, limit: 20 });
+
+  const months = overview?.months.length ? overview.months : [currentMonth()];
+  const month = selectedMonth ?? months[0];
+  const paidOrders = (ordersData?.orders ?? []).filter(order => order.status === "paid").slice(0, 5);
+  const emailAvailable = !!overview?.emailAvailable;
+
+  const emailStatementMutation = trpc.billing.emailStatement.useMutation({
+    onSuccess: () => toast.success("月结单已发送到您的邮箱"),
+    onError: (error) => toast.error("发送失败", { description: error.message }),
+  });
+
+  const emailReceiptMutation = trpc.billing.emailReceipt.useMutation({
+    onSuccess: () => toast.success("收据已发送到您的邮箱"),
+    onError: (error) => toast.error("发送失败", { description: error.message }),
+  });
+
+  const handleDownload = async (kind: "receipts" | "statements", id: string) => {
+    setDownloading(`${kind}:${id}`);
+    try {
+      await downloadBillingDocument(kind, id, "pdf");
+    } catch (error: any) {
+      toast.error(error.message || "下载失败");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-emerald-400" />
+          账单与收据
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          月结单按类型汇总积分变动，并列出各数据源的搜索消费；收据包含链上交易哈希，可用于财务入账
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* 月结单 */}
+        <div className="space-y-2">
+          <p className="text-sm text-slate-300">月结单</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={month} onValueChange={setSelectedMonth}>
+              <SelectTrigger className="w-36 bg-slate-800/50 border-slate-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {months.map(m => (
+                  <SelectItem key={m} value={m}>{m}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownload("statements", month)}
+              disabled={downloading === `statements:${month}`}
+              className="border-slate-700 text-slate-300"
+            >
+              {downloading === `statements:${month}`
+                ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                : <FileDown className="w-4 h-4 mr-1" />}
+              PDF
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadBillingDocument("statements", month, "html")}
+              className="border-slate-700 text-slate-300"
+            >
+              <FileText className="w-4 h-4 mr-1" />
+              HTML
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => emailStatementMutation.mutate({ month })}
+              disabled={!emailAvailable || emailStatementMutation.isPending}
+              title={emailAvailable ? undefined : "邮件服务未配置"}
+              className="border-slate-700 text-slate-300"
+            >
+              <Mail className="w-4 h-4 mr-1" />
+              发送到邮箱
+            </Button>
+          </div>
+        </div>
+
+        {/* 充值收据 */}
+        <div className="space-y-2">
+          <p className="text-sm text-slate-300">最近的充值收据</p>
+          {paidOrders.length > 0 ? (
+            <div className="space-y-2">
+              {paidOrders.map(order => (
+                <div key={order.orderId} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white font-mono truncate">{order.orderId}</p>
+                    <p className="text-xs text-slate-500">
+                      {order.amount} USDT · {order.network} · {order.paidAt ? new Date(order.paidAt).toLocaleString("zh-CN") : "-"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="下载 PDF"
+                    onClick={() => handleDownload("receipts", order.orderId)}
+                    disabled={downloading === `receipts:${order.orderId}`}
+                  >
+                    <FileDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="查看 HTML"
+                    onClick={() => downloadBillingDocument("receipts", order.orderId, "html")}
+                  >
+                    <FileText className="w-4 h-4" />
+                  </Button>
+                  {emailAvailable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="发送到邮箱"
+                      onClick={() => emailReceiptMutation.mutate({ orderId: order.orderId })}
+                      disabled={emailReceiptMutation.isPending}
+                    >
+                      <Mail className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">暂无已到账的充值订单</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,323 @@
+/**
+ * 批量上传名单（TPS / SPF / Anywho 搜索页共用）
+ *
+ * 解析 CSV / XLSX，映射姓名、城市、州、邮编列，校验并去重后每行生成一组「姓名 + 地点」，
+ * 提交时以 pairs 模式逐组搜索（不做姓名 × 地点的笛卡尔积）
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import { toast } from "sonner";
+import { FileSpreadsheet, Loader2, Upload, X } from "lucide-react";
+
+/** 与服务端 peopleSearch/input.ts 的 MAX_SEARCH_PAIRS 一致 */
+export const MAX_BULK_ROWS = 2000;
+
+export interface BulkSearchRow {
+  name: string;
+  location: string;
+}
+
+type MappedField = "name" | "city" | "state" | "zip";
+
+const FIELD_LABELS: Record<MappedField, string> = {
+  name: "姓名",
+  city: "城市",
+  state: "州",
+  zip: "邮编",
+};
+
+// 按表头自动识别列
+const FIELD_PATTERNS: Record<MappedField, RegExp> = {
+  name: /^(full[\s_]*)?name$|姓名|contact/i,
+  city: /city|城市/i,
+  state: /^state$|^st$|province|州/i,
+  zip: /zip|postal|邮编/i,
+};
+
+const NONE = "none";
+const PREVIEW_ROWS = 10;
+
+function guessMapping(header: string[]): Record<MappedField, number> {
+  const mapping: Record<MappedField, number> = { name: -1, city: -1, state: -1, zip: -1 };
+  (Object.keys(FIELD_PATTERNS) as MappedField[]).forEach(field => {
+    mapping[field] = header.findIndex(cell => FIELD_PATTERNS[field].test(cell.trim()));
+  });
+  return mapping;
+}
+
+/**
+ * 单行生成搜索地点：邮编优先，其次「城市, 州」，再次州或城市
+ */
+function buildLocation(city: string, state: string, zip: string): string {
+  // Excel 会把 02134 存成数字 2134
+  const digits = zip.replace(/\s/g, "");
+  const normalizedZip = /^\d{3,4}$/.test(digits) ? digits.padStart(5, "0") : digits;
+  if (/^\d{5}(-\d{4})?$/.test(normalizedZip)) {
+    return normalizedZip;
+  }
+  if (city && state) return `${city}, ${state}`;
+  return state || city;
+}
+
+interface BulkUploadPanelProps {
+  onRowsChange: (rows: BulkSearchRow[]) => void;
+  /** 服务端 estimateCost 返回的预估（pairs 模式） */
+  estimate?: { subTaskCount: number; estimatedCost: number };
+  estimating?: boolean;
+  credits?: number;
+}
+
+export function BulkUploadPanel({ onRowsChange, estimate, estimating, credits }: BulkUploadPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<MappedField, number>>({ name: -1, city: -1, state: -1, zip: -1 });
+  const [parsing, setParsing] = useState(false);
+
+  const columnCount = table.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && table[0]?.[i]?.trim() ? table[0][i].trim() : `第 ${i + 1} 列`
+  );
+
+  // 校验、去重
+  const parsed = useMemo(() => {
+    const rows: BulkSearchRow[] = [];
+    let invalid = 0;
+    let duplicates = 0;
+    let withoutLocation = 0;
+    const seen = new Set<string>();
+    const cell = (row: string[], field: MappedField) =>
+      mapping[field] >= 0 ? (row[mapping[field]] ?? "").trim().replace(/\s+/g, " ") : "";
+
+    if (mapping.name < 0) {
+      return { rows, invalid, duplicates, withoutLocation };
+    }
+
+    for (const row of hasHeader ? table.slice(1) : table) {
+      const name = cell(row, "name");
+      if (!/[a-z]/i.test(name) || name.length > 100) {
+        invalid++;
+        continue;
+      }
+      const location = buildLocation(cell(row, "city"), cell(row, "state"), cell(row, "zip"));
+      const key = `${name.toLowerCase()}|${location.toLowerCase()}`;
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      if (!location) withoutLocation++;
+      rows.push({ name, location });
+    }
+
+    return { rows, invalid, duplicates, withoutLocation };
+  }, [table, hasHeader, mapping]);
+
+  const tooMany = parsed.rows.length > MAX_BULK_ROWS;
+
+  useEffect(() => {
+    onRowsChange(tooMany ? [] : parsed.rows);
+  }, [parsed, tooMany, onRowsChange]);
+
+  const handleFile = async (file: File) => {
+    setParsing(true);
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length === 0) {
+        toast.error("文件中没有数据");
+        return;
+      }
+      setFileName(file.name);
+      setTable(rows);
+      setHasHeader(true);
+      setMapping(guessMapping(rows[0]));
+    } catch (error: any) {
+      toast.error("文件解析失败", { description: error.message });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const clearFile = () => {
+    setFileName("");
+    setTable([]);
+    setMapping({ name: -1, city: -1, state: -1, zip: -1 });
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,.xlsx"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+
+      {!fileName ? (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={parsing}
+          className="w-full rounded-lg border-2 border-dashed border-slate-700 hover:border-amber-500/50 p-8 text-center transition-colors"
+        >
+          {parsing ? (
+            <Loader2 className="h-8 w-8 mx-auto mb-2 animate-spin text-muted-foreground" />
+          ) : (
+            <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          )}
+          <p className="font-medium">上传 CSV 或 XLSX 名单</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            每行一个人，包含姓名列及城市 / 州 / 邮编列，最多 {MAX_BULK_ROWS} 行
+          </p>
+        </button>
+      ) : (
+        <>
+          <div className="flex items-center justify-between rounded-lg bg-slate-800/50 p-3">
+            <div className="flex items-center gap-2 text-sm">
+              <FileSpreadsheet className="h-4 w-4 text-green-400" />
+              <span className="font-medium">{fileName}</span>
+              <span className="text-muted-foreground">{hasHeader ? table.length - 1 : table.length} 行</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={clearFile}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="bulk-has-header" checked={hasHeader} onCheckedChange={setHasHeader} />
+            <Label htmlFor="bulk-has-header">第一行是表头</Label>
+          </div>
+
+          {/* 列映射 */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {(Object.keys(FIELD_LABELS) as MappedField[]).map(field => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">
+                  {FIELD_LABELS[field]}
+                  {field === "name" && <span className="text-red-400"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field] >= 0 ? String(mapping[field]) : NONE}
+                  onValueChange={(v) => setMapping(m => ({ ...m, [field]: v === NONE ? -1 : parseInt(v, 10) }))}
+                >
+                  <SelectTrigger className="bg-slate-800/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>不使用</SelectItem>
+                    {columnLabels.map((label, index) => (
+                      <SelectItem key={index} value={String(index)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {mapping.name < 0 ? (
+            <p className="text-sm text-amber-400">请选择姓名所在的列</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="border-green-500/50 text-green-400">
+                  有效 {parsed.rows.length} 行
+                </Badge>
+                {parsed.duplicates > 0 && (
+                  <Badge variant="outline" className="border-slate-500/50">已去重 {parsed.duplicates} 行</Badge>
+                )}
+                {parsed.invalid > 0 && (
+                  <Badge variant="outline" className="border-red-500/50 text-red-400">无效姓名 {parsed.invalid} 行</Badge>
+                )}
+                {parsed.withoutLocation > 0 && (
+                  <Badge variant="outline" className="border-amber-500/50 text-amber-400">
+                    {parsed.withoutLocation} 行无地点，仅按姓名搜索
+                  </Badge>
+                )}
+              </div>
+
+              {tooMany && (
+                <p className="text-sm text-red-400">
+                  有效行数超过上限 {MAX_BULK_ROWS} 行，请拆分文件后分批上传
+                </p>
+              )}
+
+              {parsed.rows.length > 0 && (
+                <div className="rounded-lg border border-slate-700">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">#</TableHead>
+                        <TableHead>姓名</TableHead>
+                        <TableHead>地点</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {parsed.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                          <TableCell>{row.name}</TableCell>
+                          <TableCell>{row.location || <span className="text-muted-foreground">-</span>}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {parsed.rows.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground p-2 text-center">
+                      仅预览前 {PREVIEW_ROWS} 行，共 {parsed.rows.length} 行
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {!tooMany && parsed.rows.length > 0 && (
+                <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg text-sm text-blue-400">
+                  {estimating || !estimate ? (
+                    <span className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      正在计算预估消耗...
+                    </span>
+                  ) : (
+                    <>
+                      <p>将逐组搜索 {estimate.subTaskCount} 组「姓名 + 地点」，预估最多消耗 {estimate.estimatedCost.toFixed(1)} 积分</p>
+                      {credits !== undefined && estimate.estimatedCost > credits && (
+                        <p className="text-amber-400 mt-1">
+                          预估消耗超过当前余额，积分用完后任务自动停止，已获取的结果会保留
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
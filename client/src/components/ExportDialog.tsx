@@ -0,0 +1,385 @@
+/**
+ * 导出对话框
+ * 选择导出列及顺序（或 CRM / 外呼系统导入模板）、表头语言、电话格式和文件格式，可保存为导出预设
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { downloadTaskExport, type ExportOptions, type ExportSource } from "@/lib/download";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Download, Loader2, Save, Trash2 } from "lucide-react";
+
+const FORMAT_OPTIONS: Array<{ value: ExportOptions["format"]; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+  { value: "jsonl", label: "JSON Lines" },
+];
+
+const LANGUAGE_OPTIONS: Array<{ value: ExportOptions["language"]; label: string }> = [
+  { value: "zh", label: "中文表头" },
+  { value: "en", label: "English headers" },
+];
+
+const PHONE_OPTIONS: Array<{ value: ExportOptions["phoneFormat"]; label: string }> = [
+  { value: "digits", label: "14102797891" },
+  { value: "e164", label: "+14102797891 (E.164)" },
+  { value: "dashed", label: "410-279-7891" },
+];
+
+// 不使用模板时 Select 的取值
+const CUSTOM_LAYOUT = "custom";
+
+interface ExportDialogProps {
+  source: ExportSource;
+  taskId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ExportDialog({ source, taskId, open, onOpenChange }: ExportDialogProps) {
+  const utils = trpc.useUtils();
+  const [format, setFormat] = useState<ExportOptions["format"]>("csv");
+  const [language, setLanguage] = useState<ExportOptions["language"]>("zh");
+  const [phoneFormat, setPhoneFormat] = useState<ExportOptions["phoneFormat"]>("digits");
+  const [template, setTemplate] = useState<ExportOptions["template"]>(undefined);
+  // 已选列（有序）
+  const [selected, setSelected] = useState<string[] | null>(null);
+  const [presetId, setPresetId] = useState<string>("");
+  const [presetName, setPresetName] = useState("");
+
+  const { data: columns, isLoading: columnsLoading } = trpc.exports.columns.useQuery(
+    { source },
+    { enabled: open, staleTime: Infinity }
+  );
+  const { data: templates } = trpc.exports.templates.useQuery(undefined, { enabled: open, staleTime: Infinity });
+  const { data: presets } = trpc.exports.presets.useQuery({ source }, { enabled: open });
+  const activeTemplate = templates?.find(t => t.id === template);
+
+  // 首次加载列后默认选中数据源的默认列
+  useEffect(() => {
+    if (columns && selected === null) {
+      setSelected(columns.filter(c => c.default).map(c => c.key));
+    }
+  }, [columns, selected]);
+
+  // 已选列按所选顺序在前，未选列保持原顺序在后
+  const orderedColumns = useMemo(() => {
+    if (!columns) return [];
+    const chosen = selected ?? [];
+    const byKey = new Map(columns.map(c => [c.key, c]));
+    return [
+      ...chosen.map(key => byKey.get(key)).filter((c): c is NonNullable<typeof c> => !!c),
+      ...columns.filter(c => !chosen.includes(c.key)),
+    ];
+  }, [columns, selected]);
+
+  const options: ExportOptions = template
+    ? { format, language, phoneFormat, template }
+    : { format, language, phoneFormat, columns: selected ?? undefined };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const current = prev ?? [];
+      return checked ? [...current, key] : current.filter(k => k !== key);
+    });
+  };
+
+  const moveColumn = (key: string, offset: number) => {
+    setSelected(prev => {
+      const current = [...(prev ?? [])];
+      const from = current.indexOf(key);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= current.length) return prev;
+      [current[from], current[to]] = [current[to], current[from]];
+      return current;
+    });
+  };
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets?.find(p => p.id.toString() === id);
+    if (!preset) return;
+    setFormat(preset.options.format);
+    setLanguage(preset.options.language);
+    setPhoneFormat(preset.options.phoneFormat);
+    setTemplate(preset.options.template);
+    setSelected(preset.options.columns?.length
+      ? preset.options.columns
+      : (columns ?? []).filter(c => c.default).map(c => c.key));
+    setPresetName(preset.name);
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: () => downloadTaskExport(source, taskId, options),
+    onSuccess: () => {
+      toast.success("导出成功");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error("导出失败", { description: error.message });
+    },
+  });
+
+  const savePresetMutation = trpc.exports.savePreset.useMutation({
+    onSuccess: () => {
+      toast.success("导出预设已保存");
+      utils.exports.presets.invalidate({ source });
+    },
+    onError: (error) => {
+      toast.error("保存预设失败", { description: error.message });
+    },
+  });
+
+  const deletePresetMutation = trpc.exports.deletePreset.useMutation({
+    onSuccess: () => {
+      toast.success("导出预设已删除");
+      setPresetId("");
+      setPresetName("");
+      utils.exports.presets.invalidate({ source });
+    },
+    onError: (error) => {
+      toast.error("删除预设失败", { description: error.message });
+    },
+  });
+
+  const selectedCount = selected?.length ?? 0;
+  const canExport = !!template || selectedCount > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Download className="h-5 w-5 text-cyan-400" />
+            导出结果
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            选择导出的列、顺序和文件格式
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* 导出预设 */}
+          <div className="flex items-center gap-2">
+            <Select value={presetId} onValueChange={applyPreset}>
+              <SelectTrigger className="flex-1 bg-slate-800 border-slate-700 text-white">
+                <SelectValue placeholder={presets?.length ? "选择导出预设" : "暂无导出预设"} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets?.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id.toString()}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!presetId || deletePresetMutation.isPending}
+              onClick={() => deletePresetMutation.mutate({ id: Number(presetId) })}
+              className="border-slate-700 text-slate-400 hover:text-red-400"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-slate-400 text-xs">列布局</Label>
+            <Select
+              value={template ?? CUSTOM_LAYOUT}
+              onValueChange={v => setTemplate(v === CUSTOM_LAYOUT ? undefined : v as ExportOptions["template"])}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_LAYOUT}>自定义列</SelectItem>
+                {templates?.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-slate-400 text-xs">文件格式</Label>
+              <Select value={format} onValueChange={v => setFormat(v as ExportOptions["format"])}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-slate-400 text-xs">表头语言</Label>
+              <Select
+                value={language}
+                onValueChange={v => setLanguage(v as ExportOptions["language"])}
+                disabled={!!template}
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-slate-400 text-xs">电话格式</Label>
+              <Select value={phoneFormat} onValueChange={v => setPhoneFormat(v as ExportOptions["phoneFormat"])}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHONE_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* 模板列预览 */}
+          {activeTemplate && (
+            <div className="space-y-1">
+              <Label className="text-slate-400 text-xs">{activeTemplate.description}</Label>
+              <div className="rounded-md border border-slate-700 bg-slate-800/50 p-3 flex flex-wrap gap-1">
+                {activeTemplate.headers.map(header => (
+                  <span key={header} className="px-2 py-0.5 rounded bg-slate-700 text-xs text-slate-200">{header}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 列选择与排序 */}
+          <div className={template ? "hidden" : "space-y-1"}>
+            <div className="flex items-center justify-between">
+              <Label className="text-slate-400 text-xs">导出列（已选 {selectedCount} 列）</Label>
+              <button
+                type="button"
+                className="text-xs text-cyan-400 hover:underline"
+                onClick={() => setSelected((columns ?? []).filter(c => c.default).map(c => c.key))}
+              >
+                恢复默认
+              </button>
+            </div>
+            <ScrollArea className="h-64 rounded-md border border-slate-700 bg-slate-800/50">
+              {columnsLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+                </div>
+              ) : (
+                <div className="p-2 space-y-1">
+                  {orderedColumns.map(column => {
+                    const position = selected?.indexOf(column.key) ?? -1;
+                    const checked = position >= 0;
+                    return (
+                      <div key={column.key} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-700/50">
+                        <Checkbox
+                          id={`export-column-${column.key}`}
+                          checked={checked}
+                          onCheckedChange={value => toggleColumn(column.key, value === true)}
+                        />
+                        <label htmlFor={`export-column-${column.key}`} className="flex-1 text-sm text-white cursor-pointer">
+                          {language === "en" ? column.en : column.zh}
+                          <span className="ml-2 text-xs text-slate-500">{language === "en" ? column.zh : column.en}</span>
+                        </label>
+                        {checked && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-slate-400"
+                              disabled={position === 0}
+                              onClick={() => moveColumn(column.key, -1)}
+                            >
+                              <ArrowUp className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-slate-400"
+                              disabled={position === selectedCount - 1}
+                              onClick={() => moveColumn(column.key, 1)}
+                            >
+                              <ArrowDown className="h-3 w-3" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* 保存为预设 */}
+          <div className="flex items-center gap-2">
+            <Input
+              value={presetName}
+              onChange={e => setPresetName(e.target.value)}
+              placeholder="预设名称（同名覆盖）"
+              maxLength={50}
+              className="bg-slate-800 border-slate-700 text-white"
+            />
+            <Button
+              variant="outline"
+              disabled={!presetName.trim() || !canExport || savePresetMutation.isPending}
+              onClick={() => savePresetMutation.mutate({ source, name: presetName.trim(), options })}
+              className="border-slate-700 text-slate-300"
+            >
+              {savePresetMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              保存预设
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-slate-700 text-slate-400 hover:bg-slate-800"
+          >
+            取消
+          </Button>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || !canExport}
+            className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700"
+          >
+            {exportMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                导出中...
+              </>
+            ) : (
+              <>
+                <Download className="mr-2 h-4 w-4" />
+                导出
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * 登录设备管理卡片（账户设置页）
+ * 列出当前账号的在线会话，可重命名设备或下线其他会话
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { MonitorSmartphone, Loader2, Pencil, LogOut, Check, X } from "lucide-react";
+
+const formatTime = (value: string | Date | null | undefined) => {
+  if (!value) return "未知";
+  return new Date(value).toLocaleString("zh-CN");
+};
+
+export default function SessionsCard() {
+  const utils = trpc.useUtils();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const { data, isLoading } = trpc.sessions.list.useQuery();
+  const sessions = data?.sessions ?? [];
+  const otherCount = sessions.filter(s => !s.current).length;
+
+  const renameMutation = trpc.sessions.rename.useMutation({
+    onSuccess: () => {
+      setEditingId(null);
+      utils.sessions.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("重命名失败", { description: error.message });
+    },
+  });
+
+  const revokeMutation = trpc.sessions.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("该设备已下线");
+      utils.sessions.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("下线失败", { description: error.message });
+    },
+  });
+
+  const revokeOthersMutation = trpc.sessions.revokeOthers.useMutation({
+    onSuccess: (result) => {
+      toast.success(`已下线 ${result.count} 个会话`);
+      utils.sessions.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("下线失败", { description: error.message });
+    },
+  });
+
+  const handleRevoke = (sessionId: string, name: string) => {
+    if (!confirm(`确定下线「${name}」吗？该设备需要重新登录。`)) return;
+    revokeMutation.mutate({ sessionId });
+  };
+
+  const handleRevokeOthers = () => {
+    if (!confirm("确定下线除本设备外的所有会话吗？")) return;
+    revokeOthersMutation.mutate();
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5 text-sky-400" />
+          登录设备
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          同一账号最多同时在 {data?.maxSessions ?? "-"} 台设备登录，超出时需要下线最早的会话
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : sessions.length > 0 ? (
+          <div className="space-y-2">
+            {sessions.map(session => (
+              <div key={session.sessionId} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                <div className="flex-1 min-w-0">
+                  {editingId === session.sessionId ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={editingName}
+                        maxLength={100}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        className="h-8 bg-slate-800/50 border-slate-700 text-white"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => renameMutation.mutate({ sessionId: session.sessionId, deviceName: editingName.trim() })}
+                        disabled={!editingName.trim() || renameMutation.isPending}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-white truncate flex items-center gap-2">
+                      {session.deviceName}
+                      {session.current && <Badge variant="secondary">本设备</Badge>}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500 truncate" title={session.userAgent || undefined}>
+                    IP {session.ipAddress || "未知"} · 登录于 {formatTime(session.createdAt)} · 最近活跃 {formatTime(session.lastSeenAt)}
+                  </p>
+                </div>
+                {editingId !== session.sessionId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditingId(session.sessionId);
+                      setEditingName(session.deviceName);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                )}
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(session.sessionId, session.deviceName)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <LogOut className="w-4 h-4 text-red-400" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 text-center py-4">暂无在线会话</p>
+        )}
+
+        {otherCount > 0 && (
+          <Button
+            variant="outline"
+            className="w-full border-slate-700 text-slate-300"
+            onClick={handleRevokeOthers}
+            disabled={revokeOthersMutation.isPending}
+          >
+            {revokeOthersMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="w-4 h-4 mr-2" />
+            )}
+            下线其他 {otherCount} 个会话
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * 团队空间卡片（账户设置页）
+ * 创建团队、邀请成员、管理角色与每月积分上限、向团队积分池转入积分
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Users, Loader2, Plus, Trash2, Check, X, Coins, LogOut, Mail } from "lucide-react";
+
+type InviteRole = "admin" | "member" | "viewer";
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: "所有者",
+  admin: "管理员",
+  member: "成员",
+  viewer: "只读",
+};
+
+export default function TeamCard() {
+  const utils = trpc.useUtils();
+  const [teamName, setTeamName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("member");
+  const [fundAmount, setFundAmount] = useState("");
+  const [capDrafts, setCapDrafts] = useState<Record<number, string>>({});
+
+  const { data: team, isLoading } = trpc.organizations.mine.useQuery();
+  const { data: myInvites } = trpc.organizations.myInvites.useQuery(undefined, { enabled: !isLoading && !team });
+
+  const refresh = () => {
+    utils.organizations.mine.invalidate();
+    utils.organizations.myInvites.invalidate();
+    utils.user.profile.invalidate();
+  };
+
+  const onError = (title: string) => (error: { message: string }) => {
+    toast.error(title, { description: error.message });
+  };
+
+  const createMutation = trpc.organizations.create.useMutation({
+    onSuccess: () => {
+      setTeamName("");
+      refresh();
+      toast.success("团队已创建");
+    },
+    onError: onError("创建失败"),
+  });
+
+  const inviteMutation = trpc.organizations.invite.useMutation({
+    onSuccess: () => {
+      setInviteEmail("");
+      refresh();
+      toast.success("邀请已发送，对方使用该邮箱登录后即可在设置页接受");
+    },
+    onError: onError("邀请失败"),
+  });
+
+  const revokeMutation = trpc.organizations.revokeInvite.useMutation({ onSuccess: refresh, onError: onError("撤销失败") });
+  const acceptMutation = trpc.organizations.acceptInvite.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("已加入团队");
+    },
+    onError: onError("加入失败"),
+  });
+  const declineMutation = trpc.organizations.declineInvite.useMutation({ onSuccess: refresh, onError: onError("操作失败") });
+  const updateMemberMutation = trpc.organizations.updateMember.useMutation({ onSuccess: refresh, onError: onError("更新失败") });
+  const removeMemberMutation = trpc.organizations.removeMember.useMutation({ onSuccess: refresh, onError: onError("移除失败") });
+
+  const fundMutation = trpc.organizations.fundPool.useMutation({
+    onSuccess: () => {
+      setFundAmount("");
+      refresh();
+      toast.success("已转入团队积分池");
+    },
+    onError: onError("转入失败"),
+  });
+
+  const leaveMutation = trpc.organizations.leave.useMutation({ onSuccess: refresh, onError: onError("退出失败") });
+  const dissolveMutation = trpc.organizations.dissolve.useMutation({
+    onSuccess: (data) => {
+      refresh();
+      toast.success(`团队已解散，${data.refunded.toLocaleString()} 积分已退回您的账户`);
+    },
+    onError: onError("解散失败"),
+  });
+
+  const handleFund = () => {
+    const amount = parseFloat(fundAmount);
+    if (!amount || amount <= 0) {
+      toast.error("请输入转入积分数");
+      return;
+    }
+    fundMutation.mutate({ amount });
+  };
+
+  const saveCap = (userId: number) => {
+    const draft = capDrafts[userId];
+    if (draft === undefined) return;
+    const value = draft.trim() === "" ? null : parseFloat(draft);
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast.error("请输入有效的积分上限");
+      return;
+    }
+    updateMemberMutation.mutate({ userId, monthlyCreditCap: value });
+  };
+
+  const isManager = team?.role === "owner" || team?.role === "admin";
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Users className="w-5 h-5 text-cyan-400" />
+          团队空间
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          成员使用各自账号登录，搜索从团队积分池扣费，任务历史和结果团队内共享
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : !team ? (
+          <>
+            {myInvites && myInvites.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-slate-300">收到的邀请</p>
+                {myInvites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{invite.organizationName}</p>
+                      <p className="text-xs text-slate-500">{invite.inviterEmail} 邀请您以「{ROLE_LABELS[invite.role]}」身份加入</p>
+                    </div>
+                    <Button size="sm" onClick={() => acceptMutation.mutate({ inviteId: invite.id })} disabled={acceptMutation.isPending}>
+                      <Check className="w-4 h-4 mr-1" />
+                      接受
+                    </Button>
+                    <Button variant="ghost" size="icon" title="拒绝" onClick={() => declineMutation.mutate({ inviteId: invite.id })}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+              <Input
+                placeholder="团队名称"
+                value={teamName}
+                maxLength={100}
+                onChange={(e) => setTeamName(e.target.value)}
+                className="bg-slate-800/50 border-slate-700 text-white"
+              />
+              <Button
+                onClick={() => createMutation.mutate({ name: teamName.trim() })}
+                disabled={!teamName.trim() || createMutation.isPending}
+              >
+                {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                创建团队
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                <p className="text-xs text-slate-500">团队</p>
+                <p className="text-sm text-white truncate">{team.name}</p>
+                <p className="text-xs text-slate-500">我的角色：{ROLE_LABELS[team.role]}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                <p className="text-xs text-slate-500">团队积分池</p>
+                <p className="text-sm text-yellow-400">{team.credits.toLocaleString()} 积分</p>
+                <p className="text-xs text-slate-500">我本月可用 {team.available.toLocaleString()} 积分</p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30 space-y-2">
+                <p className="text-xs text-slate-500">从个人余额转入</p>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={fundAmount}
+                    onChange={(e) => setFundAmount(e.target.value)}
+                    className="h-8 bg-slate-800/50 border-slate-700 text-white"
+                  />
+                  <Button size="sm" onClick={handleFund} disabled={fundMutation.isPending}>
+                    <Coins className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-slate-300">成员（{team.members.length}/{team.maxSeats}）</p>
+              {team.members.map(member => {
+                const editable = isManager && member.role !== "owner" && (team.role === "owner" || member.role !== "admin");
+                return (
+                  <div key={member.userId} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{member.name || member.email}</p>
+                      <p className="text-xs text-slate-500">
+                        {member.email} · 本月已用 {member.usedThisMonth.toLocaleString()}
+                        {member.monthlyCreditCap !== null ? ` / ${member.monthlyCreditCap.toLocaleString()}` : ""} 积分
+                      </p>
+                    </div>
+                    {editable ? (
+                      <>
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => updateMemberMutation.mutate({ userId: member.userId, role: role as InviteRole })}
+                        >
+                          <SelectTrigger className="w-24 h-8 bg-slate-800/50 border-slate-700 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {team.role === "owner" && <SelectItem value="admin">管理员</SelectItem>}
+                            <SelectItem value="member">成员</SelectItem>
+                            <SelectItem value="viewer">只读</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="每月上限"
+                          title="每月积分上限，留空表示不限"
+                          value={capDrafts[member.userId] ?? (member.monthlyCreditCap?.toString() || "")}
+                          onChange={(e) => setCapDrafts(drafts => ({ ...drafts, [member.userId]: e.target.value }))}
+                          onBlur={() => saveCap(member.userId)}
+                          className="w-28 h-8 bg-slate-800/50 border-slate-700 text-white"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="移除成员"
+                          onClick={() => {
+                            if (confirm(`确定将 ${member.email} 移出团队吗？`)) removeMemberMutation.mutate({ userId: member.userId });
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {isManager && (
+              <div className="space-y-2">
+                <p className="text-sm text-slate-300">邀请成员</p>
+                <div className="grid gap-2 sm:grid-cols-[1fr_120px_auto]">
+                  <Input
+                    type="email"
+                    placeholder="成员邮箱"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="bg-slate-800/50 border-slate-700 text-white"
+                  />
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as InviteRole)}>
+                    <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {team.role === "owner" && <SelectItem value="admin">管理员</SelectItem>}
+                      <SelectItem value="member">成员</SelectItem>
+                      <SelectItem value="viewer">只读</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole })}
+                    disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                  >
+                    <Mail className="w-4 h-4 mr-2" />
+                    邀请
+                  </Button>
+                </div>
+                {team.invites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-2 text-xs p-2 rounded bg-slate-800/30">
+                    <Badge variant="secondary">待接受</Badge>
+                    <span className="flex-1 text-slate-300 truncate">{invite.email}</span>
+                    <span className="text-slate-500">{ROLE_LABELS[invite.role]}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="撤销邀请"
+                      onClick={() => revokeMutation.mutate({ inviteId: invite.id })}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              {team.role === "owner" ? (
+                <Button
+                  variant="ghost"
+                  className="text-red-400"
+                  onClick={() => {
+                    if (confirm("解散后成员将无法访问团队任务，积分池余额退回您的账户，确定继续吗？")) dissolveMutation.mutate();
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  解散团队
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  className="text-red-400"
+                  onClick={() => {
+                    if (confirm("确定退出团队吗？")) leaveMutation.mutate();
+                  }}
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  退出团队
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
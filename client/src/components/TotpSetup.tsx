@@ -0,0 +1,73 @@
+/**
+ * 两步验证绑定用的二维码与备用恢复码展示（用户设置页与管理员登录共用）
+ */
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Copy, Download } from "lucide-react";
+
+export function TotpQrCode({ otpauthUrl, secret }: { otpauthUrl: string; secret: string }) {
+  const [qrCodeUrl, setQrCodeUrl] = useState("");
+
+  useEffect(() => {
+    QRCode.toDataURL(otpauthUrl, {
+      width: 180,
+      margin: 2,
+      color: { dark: '#000000', light: '#ffffff' },
+    }).then(setQrCodeUrl).catch(console.error);
+  }, [otpauthUrl]);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {qrCodeUrl && <img src={qrCodeUrl} alt="两步验证二维码" className="w-44 h-44 rounded-lg" />}
+      <p className="text-xs text-slate-400 text-center">
+        使用 Google Authenticator、Microsoft Authenticator 等应用扫描二维码，或手动输入密钥：
+      </p>
+      <code className="text-xs text-white bg-slate-800/60 px-2 py-1 rounded break-all">{secret}</code>
+    </div>
+  );
+}
+
+export function BackupCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join("\n");
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text);
+    toast.success("已复制到剪贴板");
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([text + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "datareach-backup-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-3">
+      <p className="text-sm text-amber-200">
+        请妥善保存以下备用恢复码。丢失验证器时可用其中任意一个代替验证码登录，每个只能使用一次，关闭后将无法再次查看。
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {codes.map(code => (
+          <code key={code} className="text-sm text-white font-mono text-center bg-slate-800/60 rounded py-1">{code}</code>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 border-slate-700 text-slate-300" onClick={copyCodes}>
+          <Copy className="w-4 h-4 mr-2" />
+          复制
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 border-slate-700 text-slate-300" onClick={downloadCodes}>
+          <Download className="w-4 h-4 mr-2" />
+          下载
+        </Button>
+      </div>
+    </div>
+  );
+}
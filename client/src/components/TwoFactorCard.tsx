@@ -0,0 +1,219 @@
+/**
+ * 两步验证管理卡片（账户设置页）
+ * 绑定验证器、重新生成备用恢复码、关闭两步验证
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { ShieldCheck, Loader2, RefreshCw, X } from "lucide-react";
+import { TotpQrCode, BackupCodesList } from "@/components/TotpSetup";
+
+export default function TwoFactorCard() {
+  const utils = trpc.useUtils();
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"disable" | "regenerate" | null>(null);
+
+  const { data: status, isLoading } = trpc.twoFactor.status.useQuery();
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setAction(null);
+  };
+
+  const beginMutation = trpc.twoFactor.beginSetup.useMutation({
+    onSuccess: (data) => {
+      setSetup(data);
+      setBackupCodes(null);
+      setCode("");
+    },
+    onError: (error) => {
+      toast.error("操作失败", { description: error.message });
+    },
+  });
+
+  const confirmMutation = trpc.twoFactor.confirmSetup.useMutation({
+    onSuccess: (data) => {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      resetForm();
+      utils.twoFactor.status.invalidate();
+      toast.success("两步验证已开启");
+    },
+    onError: (error) => {
+      toast.error("绑定失败", { description: error.message });
+    },
+  });
+
+  const regenerateMutation = trpc.twoFactor.regenerateBackupCodes.useMutation({
+    onSuccess: (data) => {
+      setBackupCodes(data.backupCodes);
+      resetForm();
+      utils.twoFactor.status.invalidate();
+      toast.success("备用恢复码已重新生成，旧恢复码已失效");
+    },
+    onError: (error) => {
+      toast.error("生成失败", { description: error.message });
+    },
+  });
+
+  const disableMutation = trpc.twoFactor.disable.useMutation({
+    onSuccess: () => {
+      setBackupCodes(null);
+      resetForm();
+      utils.twoFactor.status.invalidate();
+      toast.success("两步验证已关闭");
+    },
+    onError: (error) => {
+      toast.error("关闭失败", { description: error.message });
+    },
+  });
+
+  const handleConfirmAction = () => {
+    if (!code.trim()) {
+      toast.error("请输入验证码");
+      return;
+    }
+    if (action === "disable") {
+      if (!password) {
+        toast.error("请输入登录密码");
+        return;
+      }
+      disableMutation.mutate({ password, code: code.trim() });
+    } else if (action === "regenerate") {
+      regenerateMutation.mutate({ code: code.trim() });
+    }
+  };
+
+  const actionPending = disableMutation.isPending || regenerateMutation.isPending;
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-emerald-400" />
+          两步验证
+          {status?.enabled && <Badge variant="secondary">已开启</Badge>}
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          开启后登录和修改密码时需要输入验证器应用上的动态验证码
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-slate-400">
+              开启于 {status.enabledAt ? new Date(status.enabledAt).toLocaleString("zh-CN") : "未知"} ·
+              剩余备用恢复码 {status.backupCodesRemaining} 个
+            </p>
+
+            {backupCodes && <BackupCodesList codes={backupCodes} />}
+
+            {action ? (
+              <div className="space-y-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                {action === "disable" && (
+                  <Input
+                    type="password"
+                    placeholder="登录密码"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="bg-slate-800/50 border-slate-700 text-white"
+                  />
+                )}
+                <Input
+                  autoComplete="one-time-code"
+                  placeholder="6 位验证码或备用恢复码"
+                  value={code}
+                  maxLength={20}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="bg-slate-800/50 border-slate-700 text-white font-mono"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant={action === "disable" ? "destructive" : "default"}
+                    className="flex-1"
+                    onClick={handleConfirmAction}
+                    disabled={actionPending}
+                  >
+                    {actionPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {action === "disable" ? "确认关闭" : "确认生成"}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={resetForm}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1 border-slate-700 text-slate-300"
+                  onClick={() => setAction("regenerate")}
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  重新生成恢复码
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1 border-red-500/40 text-red-400"
+                  onClick={() => setAction("disable")}
+                >
+                  关闭两步验证
+                </Button>
+              </div>
+            )}
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            <TotpQrCode otpauthUrl={setup.otpauthUrl} secret={setup.secret} />
+            <div className="flex gap-2">
+              <Input
+                autoComplete="one-time-code"
+                placeholder="输入验证器上的 6 位验证码"
+                value={code}
+                maxLength={6}
+                onChange={(e) => setCode(e.target.value)}
+                className="bg-slate-800/50 border-slate-700 text-white font-mono"
+              />
+              <Button
+                onClick={() => confirmMutation.mutate({ code: code.trim() })}
+                disabled={code.trim().length < 6 || confirmMutation.isPending}
+              >
+                {confirmMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                验证并开启
+              </Button>
+            </div>
+            <Button variant="ghost" className="w-full text-slate-400" onClick={() => setSetup(null)}>
+              取消
+            </Button>
+          </div>
+        ) : (
+          <Button
+            className="w-full"
+            onClick={() => beginMutation.mutate()}
+            disabled={beginMutation.isPending}
+          >
+            {beginMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 mr-2" />
+            )}
+            开启两步验证
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * Webhook 管理卡片（账户设置页）
+ * 注册 Webhook URL、发送测试事件、查看投递日志
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Webhook, Copy, Loader2, Plus, Trash2, Send, RotateCw, KeyRound, X } from "lucide-react";
+
+const EVENT_LABELS: Record<string, string> = {
+  "task.completed": "任务完成",
+  "task.failed": "任务失败",
+  "task.insufficient_credits": "积分不足",
+  "webhook.test": "测试",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  success: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  success: "成功",
+  pending: "等待重试",
+  failed: "失败",
+};
+
+export default function WebhooksCard() {
+  const utils = trpc.useUtils();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const { data: webhooks, isLoading } = trpc.webhooks.list.useQuery();
+  const { data: deliveries } = trpc.webhooks.getDeliveries.useQuery(
+    { limit: 50 },
+    { refetchInterval: 15000 }
+  );
+
+  const refresh = () => {
+    utils.webhooks.list.invalidate();
+    utils.webhooks.getDeliveries.invalidate();
+  };
+
+  const onError = (title: string) => (error: { message: string }) => {
+    toast.error(title, { description: error.message });
+  };
+
+  const createMutation = trpc.webhooks.create.useMutation({
+    onSuccess: (data) => {
+      setRevealedSecret(data.secret);
+      setUrl("");
+      setDescription("");
+      refresh();
+      toast.success("Webhook 已添加，请保存签名密钥");
+    },
+    onError: onError("添加失败"),
+  });
+
+  const updateMutation = trpc.webhooks.update.useMutation({
+    onSuccess: refresh,
+    onError: onError("更新失败"),
+  });
+
+  const rotateMutation = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: (data) => {
+      setRevealedSecret(data.secret);
+      toast.success("签名密钥已重置，旧密钥立即失效");
+    },
+    onError: onError("重置失败"),
+  });
+
+  const deleteMutation = trpc.webhooks.delete.useMutation({
+    onSuccess: refresh,
+    onError: onError("删除失败"),
+  });
+
+  const testMutation = trpc.webhooks.test.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      setTimeout(refresh, 2000);
+    },
+    onError: onError("发送失败"),
+  });
+
+  const retryMutation = trpc.webhooks.retryDelivery.useMutation({
+    onSuccess: () => setTimeout(refresh, 2000),
+    onError: onError("重新投递失败"),
+  });
+
+  const handleCreate = () => {
+    if (!url.trim()) {
+      toast.error("请输入 Webhook 地址");
+      return;
+    }
+    createMutation.mutate({ url: url.trim(), description: description.trim() || undefined });
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast.success("已复制到剪贴板");
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Webhook className="w-5 h-5 text-purple-400" />
+          Webhook 通知
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          TPS / SPF / Anywho / LinkedIn 任务完成、失败或积分不足时，向您的地址发送签名的 JSON POST
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-[1fr_180px_auto]">
+          <Input
+            placeholder="https://example.com/webhooks/datareach"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+          <Input
+            placeholder="备注（可选）"
+            value={description}
+            maxLength={100}
+            onChange={(e) => setDescription(e.target.value)}
+            className="bg-slate-800/50 border-slate-700 text-white"
+          />
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            添加
+          </Button>
+        </div>
+
+        {revealedSecret && (
+          <div className="p-3 rounded-lg bg-purple-500/10 border border-purple-500/30 space-y-2">
+            <p className="text-sm text-purple-300">签名密钥只显示这一次，请保存后用于校验 X-Webhook-Signature</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-white break-all">{revealedSecret}</code>
+              <Button variant="ghost" size="icon" onClick={copySecret}>
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setRevealedSecret(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : webhooks && webhooks.length > 0 ? (
+          <div className="space-y-2">
+            {webhooks.map(webhook => (
+              <div key={webhook.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{webhook.url}</p>
+                  <p className="text-xs text-slate-500">
+                    {webhook.description ? `${webhook.description} · ` : ""}
+                    <span className="font-mono">{webhook.secretHint}</span>
+                  </p>
+                </div>
+                <Switch
+                  checked={webhook.isActive}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: webhook.id, isActive: checked })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="发送测试事件"
+                  onClick={() => testMutation.mutate({ id: webhook.id })}
+                  disabled={!webhook.isActive || testMutation.isPending}
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="重置签名密钥"
+                  onClick={() => {
+                    if (confirm("重置后旧密钥立即失效，确定继续吗？")) rotateMutation.mutate({ id: webhook.id });
+                  }}
+                >
+                  <KeyRound className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="删除"
+                  onClick={() => {
+                    if (confirm("确定删除此 Webhook 吗？投递日志也会一并删除。")) deleteMutation.mutate({ id: webhook.id });
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 text-center py-4">暂无 Webhook</p>
+        )}
+
+        {deliveries && deliveries.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-300">投递日志</p>
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="flex items-center gap-2 text-xs p-2 rounded bg-slate-800/30">
+                  <Badge variant={STATUS_VARIANTS[delivery.status]}>{STATUS_LABELS[delivery.status]}</Badge>
+                  <span className="text-slate-300">{EVENT_LABELS[delivery.event] || delivery.event}</span>
+                  {delivery.taskId && (
+                    <span className="font-mono text-slate-500">{delivery.source.toUpperCase()} {delivery.taskId.slice(0, 8)}</span>
+                  )}
+                  <span className="flex-1 text-slate-500 truncate">
+                    {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : ""}
+                    {delivery.lastError && delivery.status !== "success" ? ` ${delivery.lastError}` : ""}
+                    {` · 第 ${delivery.attempts} 次`}
+                  </span>
+                  <span className="text-slate-500">{new Date(delivery.createdAt).toLocaleString("zh-CN")}</span>
+                  {delivery.status === "failed" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="重新投递"
+                      onClick={() => retryMutation.mutate({ id: delivery.id })}
+                      disabled={retryMutation.isPending}
+                    >
+                      <RotateCw className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { UserCog, RefreshCw, Plus, Loader2, KeyRound, Ban, CheckCircle, ShieldCheck } from "lucide-react";
+
+type AdminRole = "super_admin" | "finance" | "support" | "read_only";
+
+// 角色配置
+export const ADMIN_ROLE_CONFIG: Record<AdminRole, { label: string; description: string; color: string }> = {
+  super_admin: { label: "超级管理员", description: "全部权限，含管理员账户管理", color: "bg-red-500/20 text-red-400 border-red-500/30" },
+  finance: { label: "财务", description: "积分调整、订单处理与退款、代理提现结算", color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" },
+  support: { label: "客服", description: "用户管理、代理审核、公告消息与反馈处理", color: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  read_only: { label: "只读", description: "仅查看后台数据", color: "bg-slate-500/20 text-slate-400 border-slate-500/30" },
+};
+
+// 管理员账户管理（仅超级管理员可见）
+export function AdminAccountsManager({ currentAdminId }: { currentAdminId?: number }) {
+  const utils = trpc.useUtils();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newUsername, setNewUsername] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newRole, setNewRole] = useState<AdminRole>("read_only");
+  const [resetTarget, setResetTarget] = useState<{ id: number; username: string } | null>(null);
+  const [resetPassword, setResetPassword] = useState("");
+  const [resetTwoFactor, setResetTwoFactor] = useState(false);
+
+  const { data: admins, isLoading, refetch } = trpc.adminAccounts.list.useQuery();
+
+  const createMutation = trpc.adminAccounts.create.useMutation({
+    onSuccess: () => {
+      toast.success("管理员已创建，首次登录时需绑定两步验证");
+      setCreateOpen(false);
+      setNewUsername("");
+      setNewPassword("");
+      setNewRole("read_only");
+      utils.adminAccounts.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "创建失败");
+    },
+  });
+
+  const updateMutation = trpc.adminAccounts.update.useMutation({
+    onSuccess: () => {
+      toast.success("已更新");
+      utils.adminAccounts.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "更新失败");
+    },
+  });
+
+  const resetMutation = trpc.adminAccounts.resetCredentials.useMutation({
+    onSuccess: () => {
+      toast.success("已重置");
+      setResetTarget(null);
+      setResetPassword("");
+      setResetTwoFactor(false);
+      utils.adminAccounts.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "重置失败");
+    },
+  });
+
+  return (
+    <div className="relative space-y-6">
+      {/* 页面标题 */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <UserCog className="w-5 h-5 text-orange-400" />
+            <span className="text-sm text-orange-400">管理员账户</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            管理员与权限
+          </h1>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            className="border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            刷新
+          </Button>
+          <Button size="sm" onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            添加管理员
+          </Button>
+        </div>
+      </div>
+
+      {/* 角色说明 */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {(Object.keys(ADMIN_ROLE_CONFIG) as AdminRole[]).map((role) => (
+          <Card key={role} className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+            <CardContent className="p-4">
+              <Badge className={ADMIN_ROLE_CONFIG[role].color}>{ADMIN_ROLE_CONFIG[role].label}</Badge>
+              <p className="text-slate-400 text-xs mt-2">{ADMIN_ROLE_CONFIG[role].description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* 管理员列表 */}
+      <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+        <CardHeader>
+          <CardTitle className="text-white">管理员列表</CardTitle>
+          <CardDescription className="text-slate-400">
+            角色调整和停用立即生效，操作日志按实际管理员记录
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-400">用户名</TableHead>
+                  <TableHead className="text-slate-400">角色</TableHead>
+                  <TableHead className="text-slate-400">状态</TableHead>
+                  <TableHead className="text-slate-400">两步验证</TableHead>
+                  <TableHead className="text-slate-400">最近登录</TableHead>
+                  <TableHead className="text-slate-400">创建人</TableHead>
+                  <TableHead className="text-slate-400 text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {admins?.map((admin) => {
+                  const isSelf = admin.id === currentAdminId;
+                  return (
+                    <TableRow key={admin.id} className="border-slate-700 hover:bg-slate-800/50">
+                      <TableCell className="text-white font-medium">
+                        {admin.username}
+                        {isSelf && <span className="text-slate-500 text-xs ml-2">（当前）</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={admin.role}
+                          disabled={isSelf || updateMutation.isPending}
+                          onValueChange={(role) => updateMutation.mutate({ id: admin.id, role: role as AdminRole })}
+                        >
+                          <SelectTrigger className="w-32 bg-slate-800 border-slate-700 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ADMIN_ROLE_CONFIG) as AdminRole[]).map((role) => (
+                              <SelectItem key={role} value={role}>{ADMIN_ROLE_CONFIG[role].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {admin.status === "active" ? (
+                          <Badge className="bg-green-500/20 text-green-400 border-green-500/30">启用</Badge>
+                        ) : (
+                          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">已停用</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {admin.twoFactorEnabled ? (
+                          <ShieldCheck className="w-4 h-4 text-emerald-400" />
+                        ) : (
+                          <span className="text-slate-500 text-sm">待绑定</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-slate-400 text-sm">
+                        {admin.lastLoginAt ? new Date(admin.lastLoginAt).toLocaleString('zh-CN') : '-'}
+                        {admin.lastLoginIp && <p className="text-xs text-slate-500">{admin.lastLoginIp}</p>}
+                      </TableCell>
+                      <TableCell className="text-slate-400 text-sm">{admin.createdBy || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setResetTarget({ id: admin.id, username: admin.username })}
+                              className="text-slate-300 hover:bg-slate-800"
+                            >
+                              <KeyRound className="w-4 h-4 mr-1" />
+                              重置
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={updateMutation.isPending}
+                              onClick={() => updateMutation.mutate({
+                                id: admin.id,
+                                status: admin.status === "active" ? "disabled" : "active",
+                              })}
+                              className={admin.status === "active" ? "text-red-400 hover:bg-red-500/10" : "text-green-400 hover:bg-green-500/10"}
+                            >
+                              {admin.status === "active" ? (
+                                <><Ban className="w-4 h-4 mr-1" />停用</>
+                              ) : (
+                                <><CheckCircle className="w-4 h-4 mr-1" />启用</>
+                              )}
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 添加管理员对话框 */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">添加管理员</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              新管理员首次登录时需要绑定两步验证
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">用户名</Label>
+              <Input
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-300">初始密码（至少10位）</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-300">角色</Label>
+              <Select value={newRole} onValueChange={(role) => setNewRole(role as AdminRole)}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ADMIN_ROLE_CONFIG) as AdminRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>{ADMIN_ROLE_CONFIG[role].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCreateOpen(false)} className="text-slate-400">
+              取消
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate({ username: newUsername.trim(), password: newPassword, role: newRole })}
+              disabled={!newUsername.trim() || newPassword.length < 10 || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              创建
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 重置凭证对话框 */}
+      <Dialog open={!!resetTarget} onOpenChange={(open) => !open && setResetTarget(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">重置 {resetTarget?.username} 的登录凭证</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              留空密码则不修改；重置两步验证后该管理员下次登录需重新绑定
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">新密码（至少10位）</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="reset-two-factor"
+                checked={resetTwoFactor}
+                onCheckedChange={(checked) => setResetTwoFactor(checked === true)}
+              />
+              <Label htmlFor="reset-two-factor" className="text-slate-300">同时重置两步验证</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setResetTarget(null)} className="text-slate-400">
+              取消
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => resetTarget && resetMutation.mutate({
+                id: resetTarget.id,
+                password: resetPassword || undefined,
+                resetTwoFactor,
+              })}
+              disabled={
+                (!resetPassword && !resetTwoFactor) ||
+                (!!resetPassword && resetPassword.length < 10) ||
+                resetMutation.isPending
+              }
+            >
+              {resetMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              确认重置
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { ShieldCheck, Loader2, RefreshCw } from "lucide-react";
+import { BackupCodesList } from "@/components/TotpSetup";
+
+// 当前管理员的两步验证：重新生成备用恢复码
+export function AdminTwoFactorCard() {
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const regenerateMutation = trpc.admin.regenerateOwnBackupCodes.useMutation({
+    onSuccess: (data) => {
+      setBackupCodes(data.backupCodes);
+      setCode("");
+      toast.success("备用恢复码已重新生成，旧恢复码已失效");
+    },
+    onError: (error) => {
+      toast.error(error.message || "生成失败");
+    },
+  });
+
+  return (
+    <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-emerald-400" />
+          管理员两步验证
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          管理后台强制两步验证。备用恢复码用完或泄露时，输入当前验证码重新生成
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes && <BackupCodesList codes={backupCodes} />}
+        <div className="flex gap-2">
+          <Input
+            autoComplete="one-time-code"
+            placeholder="6 位验证码"
+            value={code}
+            maxLength={20}
+            onChange={(e) => setCode(e.target.value)}
+            className="bg-slate-800 border-slate-700 text-white font-mono"
+          />
+          <Button
+            onClick={() => regenerateMutation.mutate({ code: code.trim() })}
+            disabled={code.trim().length < 6 || regenerateMutation.isPending}
+          >
+            {regenerateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            重新生成恢复码
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -164,6 +164,17 @@ export function AgentManager() {
     },
   });
 
+  // 按团队业绩评估代理等级
+  const evaluateLevelsMutation = trpc.admin.agent.evaluateLevels.useMutation({
+    onSuccess: (data) => {
+      toast.success(`已评估 ${data.evaluated} 名代理：升级 ${data.upgraded} 名，降级 ${data.downgraded} 名`);
+      refetchAgents();
+    },
+    onError: (error) => {
+      toast.error(error.message || '评估失败');
+    },
+  });
+
   // 调整佣金余额
   const adjustBalanceMutation = trpc.admin.agent.adjustBalance.useMutation({
     onSuccess: (data) => {
@@ -197,6 +208,12 @@ export function AgentManager() {
     { enabled: !!selectedAgent && commissionsDialogOpen }
   );
 
+  // 等级变更记录
+  const { data: levelHistory } = trpc.admin.agent.levelHistory.useQuery(
+    { agentId: selectedAgent?.id || 0 },
+    { enabled: !!selectedAgent && levelDialogOpen }
+  );
+
   // 处理等级修改
   const handleSetLevel = () => {
     if (!selectedAgent || !newLevel) return;
@@ -755,11 +772,21 @@ export function AgentManager() {
         {/* 佣金配置 */}
         <TabsContent value="settings" className="mt-4">
           <Card className="bg-slate-900/80 border-slate-800">
-            <CardHeader>
-              <CardTitle className="text-white">佣金配置</CardTitle>
-              <CardDescription className="text-slate-400">
-                配置各等级代理的佣金比例和规则
-              </CardDescription>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-white">佣金配置</CardTitle>
+                <CardDescription className="text-slate-400">
+                  配置各等级代理的佣金比例和规则
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => evaluateLevelsMutation.mutate()}
+                disabled={evaluateLevelsMutation.isPending}
+              >
+                {evaluateLevelsMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Award className="w-4 h-4 mr-2" />}
+                立即评估等级
+              </Button>
             </CardHeader>
             <CardContent>
               {settingsLoading ? (
@@ -831,7 +858,31 @@ export function AgentManager() {
                   ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-slate-500">手动调整后，统计窗口期内不会再被自动评估覆盖</p>
             </div>
+            {levelHistory && levelHistory.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-white">等级变更记录</Label>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {levelHistory.map((h) => (
+                    <div key={h.id} className="flex items-center justify-between text-sm p-2 bg-slate-800/50 rounded">
+                      <span className="text-slate-300">
+                        {AGENT_LEVELS[h.fromLevel as keyof typeof AGENT_LEVELS]?.label || h.fromLevel}
+                        {' → '}
+                        {AGENT_LEVELS[h.toLevel as keyof typeof AGENT_LEVELS]?.label || h.toLevel}
+                      </span>
+                      <span className="text-slate-500 text-xs">
+                        {h.source === 'auto'
+                          ? `自动 · 团队充值 $${h.teamRecharge} · 直推 ${h.activeInvitees} 人`
+                          : `手动 · ${h.operator}`}
+                        {' · '}
+                        {new Date(h.createdAt).toLocaleDateString('zh-CN')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="ghost" onClick={() => setLevelDialogOpen(false)}>
@@ -1354,6 +1405,12 @@ function getSettingDescription(key: string): string {
     settlement_days: '佣金结算冻结天数',
     activity_bonus: '开业活动额外奖励 (%)',
     activity_end_date: '开业活动结束日期',
+    level_auto_enabled: '按团队业绩自动升降等级 (true / false)',
+    level_window_days: '等级评估统计窗口天数',
+    silver_min_team_recharge: '银牌代理最低团队充值 (USDT)',
+    silver_min_active_invitees: '银牌代理最低有效直推人数',
+    gold_min_team_recharge: '金牌代理最低团队充值 (USDT)',
+    gold_min_active_invitees: '金牌代理最低有效直推人数',
   };
   return descriptions[key] || key;
 }
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Inbox, Link2, EyeOff, Copy, Loader2 } from "lucide-react";
+
+type Disposition = "matched" | "mismatch" | "unmatched" | "assigned" | "ignored";
+
+// 入账处理结果配置
+const DISPOSITION_CONFIG: Record<Disposition, { label: string; color: string }> = {
+  unmatched: { label: "未匹配", color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" },
+  matched: { label: "自动确认", color: "bg-green-500/20 text-green-400 border-green-500/30" },
+  mismatch: { label: "金额不匹配", color: "bg-orange-500/20 text-orange-400 border-orange-500/30" },
+  assigned: { label: "手动关联", color: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  ignored: { label: "已忽略", color: "bg-slate-500/20 text-slate-400 border-slate-500/30" },
+};
+
+// 链上入账记录：查看未匹配的入账并手动关联到订单
+export function ChainTransactionsCard() {
+  const utils = trpc.useUtils();
+  const [disposition, setDisposition] = useState<Disposition | "all">("unmatched");
+  const [assignTarget, setAssignTarget] = useState<{ id: number; amount: string; network: string } | null>(null);
+  const [orderId, setOrderId] = useState("");
+
+  const { data, isLoading } = trpc.admin.chainTransactions.useQuery(
+    { disposition: disposition === "all" ? undefined : disposition, limit: 50 },
+    { refetchInterval: 30000 }
+  );
+
+  const assignMutation = trpc.admin.assignChainTransaction.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.orderStatus === "paid" ? "已关联并确认订单" : "已关联，金额不一致，订单已标记为金额不匹配");
+      setAssignTarget(null);
+      setOrderId("");
+      utils.admin.chainTransactions.invalidate();
+      utils.admin.orders.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "关联失败");
+    },
+  });
+
+  const ignoreMutation = trpc.admin.ignoreChainTransaction.useMutation({
+    onSuccess: () => {
+      toast.success("已忽略");
+      utils.admin.chainTransactions.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "操作失败");
+    },
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("已复制到剪贴板");
+  };
+
+  return (
+    <div className="rounded-2xl bg-gradient-to-br from-slate-900/80 to-slate-800/50 border border-slate-700/50 overflow-hidden">
+      <div className="p-4 border-b border-slate-700/50 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Inbox className="h-5 w-5 text-yellow-400" />
+          链上入账记录
+          {data && <span className="text-sm text-slate-500 font-normal">({data.total})</span>}
+        </h3>
+        <Select value={disposition} onValueChange={(value) => setDisposition(value as Disposition | "all")}>
+          <SelectTrigger className="w-36 bg-slate-800 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全部</SelectItem>
+            {(Object.keys(DISPOSITION_CONFIG) as Disposition[]).map((key) => (
+              <SelectItem key={key} value={key}>{DISPOSITION_CONFIG[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {isLoading ? (
+        <div className="p-6 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-12 rounded-xl" />
+          ))}
+        </div>
+      ) : data?.items && data.items.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-slate-700 hover:bg-transparent">
+              <TableHead className="text-slate-400">区块时间</TableHead>
+              <TableHead className="text-slate-400">网络</TableHead>
+              <TableHead className="text-slate-400">金额</TableHead>
+              <TableHead className="text-slate-400">付款地址</TableHead>
+              <TableHead className="text-slate-400">交易哈希</TableHead>
+              <TableHead className="text-slate-400">状态</TableHead>
+              <TableHead className="text-slate-400">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.items.map((tx) => (
+              <TableRow key={tx.id} className="border-slate-700/50 hover:bg-slate-800/30">
+                <TableCell className="text-slate-500 text-sm">
+                  {new Date(tx.blockTime).toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="border-slate-600 text-slate-300">{tx.network}</Badge>
+                </TableCell>
+                <TableCell>
+                  <span className="font-mono text-green-400">{parseFloat(tx.amount).toFixed(2)} USDT</span>
+                </TableCell>
+                <TableCell className="font-mono text-slate-400 text-xs">
+                  {tx.fromAddress ? tx.fromAddress.slice(0, 8) + '...' + tx.fromAddress.slice(-6) : '-'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-slate-400 text-xs">{tx.txId.slice(0, 12)}...</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyToClipboard(tx.txId)}
+                      className="h-6 w-6 p-0 text-slate-500 hover:text-white"
+                    >
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge className={DISPOSITION_CONFIG[tx.disposition].color}>
+                    {DISPOSITION_CONFIG[tx.disposition].label}
+                  </Badge>
+                  {tx.orderId && <p className="font-mono text-xs text-slate-500 mt-1">{tx.orderId}</p>}
+                </TableCell>
+                <TableCell>
+                  {tx.disposition === "unmatched" && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAssignTarget({ id: tx.id, amount: tx.amount, network: tx.network })}
+                        className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-500/10"
+                      >
+                        <Link2 className="h-4 w-4 mr-1" />
+                        关联订单
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={ignoreMutation.isPending}
+                        onClick={() => ignoreMutation.mutate({ id: tx.id })}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <EyeOff className="h-4 w-4 mr-1" />
+                        忽略
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-center py-12">
+          <Inbox className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-500">暂无入账记录</p>
+        </div>
+      )}
+
+      {/* 关联订单对话框 */}
+      <Dialog open={!!assignTarget} onOpenChange={(open) => !open && setAssignTarget(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">关联到充值订单</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {assignTarget && `${assignTarget.network} 入账 ${parseFloat(assignTarget.amount).toFixed(6)} USDT。`}
+              金额一致时直接确认订单（已过期订单会重新打开），不一致时订单标记为金额不匹配
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label className="text-slate-300">订单号</Label>
+            <Input
+              value={orderId}
+              onChange={(e) => setOrderId(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-white font-mono"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setAssignTarget(null)} className="text-slate-400">
+              取消
+            </Button>
+            <Button
+              onClick={() => assignTarget && assignMutation.mutate({ id: assignTarget.id, orderId: orderId.trim() })}
+              disabled={!orderId.trim() || assignMutation.isPending}
+            >
+              {assignMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              确认关联
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
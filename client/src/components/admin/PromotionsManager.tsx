@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Gift, RefreshCw, Plus, Trash2, Loader2, Ticket, TrendingUp } from "lucide-react";
+
+// 充值优惠管理：阶梯赠送、优惠码、赠送报表
+export function PromotionsManager() {
+  const utils = trpc.useUtils();
+  const [reportDays, setReportDays] = useState(30);
+  const [newTierUsdt, setNewTierUsdt] = useState("");
+  const [newTierPercent, setNewTierPercent] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [promoForm, setPromoForm] = useState({
+    code: "",
+    bonusType: "percent" as "percent" | "fixed",
+    bonusValue: "",
+    maxUses: "",
+    expiresAt: "",
+    firstRechargeOnly: false,
+    description: "",
+  });
+
+  const { data: tiers, isLoading: tiersLoading } = trpc.admin.promotions.tiers.useQuery();
+  const { data: promoCodes, isLoading: codesLoading } = trpc.admin.promotions.promoCodes.useQuery();
+  const { data: report, refetch: refetchReport } = trpc.admin.promotions.report.useQuery({ days: reportDays });
+
+  const refreshAll = () => {
+    utils.admin.promotions.tiers.invalidate();
+    utils.admin.promotions.promoCodes.invalidate();
+    refetchReport();
+  };
+
+  const createTierMutation = trpc.admin.promotions.createTier.useMutation({
+    onSuccess: () => {
+      toast.success("档位已添加");
+      setNewTierUsdt("");
+      setNewTierPercent("");
+      utils.admin.promotions.tiers.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "添加失败"),
+  });
+
+  const updateTierMutation = trpc.admin.promotions.updateTier.useMutation({
+    onSuccess: () => utils.admin.promotions.tiers.invalidate(),
+    onError: (error) => toast.error(error.message || "更新失败"),
+  });
+
+  const deleteTierMutation = trpc.admin.promotions.deleteTier.useMutation({
+    onSuccess: () => {
+      toast.success("档位已删除");
+      utils.admin.promotions.tiers.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "删除失败"),
+  });
+
+  const createPromoMutation = trpc.admin.promotions.createPromoCode.useMutation({
+    onSuccess: () => {
+      toast.success("优惠码已创建");
+      setCreateOpen(false);
+      setPromoForm({ code: "", bonusType: "percent", bonusValue: "", maxUses: "", expiresAt: "", firstRechargeOnly: false, description: "" });
+      utils.admin.promotions.promoCodes.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "创建失败"),
+  });
+
+  const updatePromoMutation = trpc.admin.promotions.updatePromoCode.useMutation({
+    onSuccess: () => utils.admin.promotions.promoCodes.invalidate(),
+    onError: (error) => toast.error(error.message || "更新失败"),
+  });
+
+  const handleCreatePromo = () => {
+    createPromoMutation.mutate({
+      code: promoForm.code.trim(),
+      bonusType: promoForm.bonusType,
+      bonusValue: parseFloat(promoForm.bonusValue) || 0,
+      maxUses: promoForm.maxUses ? parseInt(promoForm.maxUses, 10) : null,
+      expiresAt: promoForm.expiresAt ? new Date(promoForm.expiresAt).toISOString() : null,
+      firstRechargeOnly: promoForm.firstRechargeOnly,
+      description: promoForm.description.trim() || null,
+    });
+  };
+
+  return (
+    <div className="relative space-y-6">
+      {/* 页面标题 */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <Gift className="w-5 h-5 text-green-400" />
+            <span className="text-sm text-green-400">充值优惠</span>
+          </div>
+          <h1 className="text-3xl font-bold text-white" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            赠送与优惠码
+          </h1>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={refreshAll}
+          className="border-slate-700 text-slate-300 hover:bg-slate-800"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          刷新
+        </Button>
+      </div>
+
+      {/* 赠送报表 */}
+      <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-cyan-400" />
+              赠送统计
+            </CardTitle>
+            <CardDescription className="text-slate-400">已到账订单的赠送积分，含阶梯赠送和优惠码赠送</CardDescription>
+          </div>
+          <Select value={String(reportDays)} onValueChange={(value) => setReportDays(Number(value))}>
+            <SelectTrigger className="w-32 bg-slate-800 border-slate-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">近7天</SelectItem>
+              <SelectItem value="30">近30天</SelectItem>
+              <SelectItem value="90">近90天</SelectItem>
+              <SelectItem value="365">近一年</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: '到账订单', value: report?.orders ?? 0 },
+              { label: '充值金额 (USDT)', value: (report?.amount ?? 0).toFixed(2) },
+              { label: '发放积分', value: (report?.credits ?? 0).toLocaleString() },
+              { label: '其中赠送', value: (report?.bonusCredits ?? 0).toLocaleString() },
+            ].map((item) => (
+              <div key={item.label} className="p-4 rounded-xl bg-slate-800/50 border border-slate-700/50">
+                <p className="text-xs text-slate-400">{item.label}</p>
+                <p className="text-2xl font-bold text-white mt-1" style={{ fontFamily: 'JetBrains Mono, monospace' }}>{item.value}</p>
+              </div>
+            ))}
+          </div>
+          {report?.byCode && report.byCode.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-400">优惠码</TableHead>
+                  <TableHead className="text-slate-400">使用次数</TableHead>
+                  <TableHead className="text-slate-400">带来充值 (USDT)</TableHead>
+                  <TableHead className="text-slate-400">优惠码赠送积分</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.byCode.map((row) => (
+                  <TableRow key={row.code} className="border-slate-700">
+                    <TableCell className="font-mono text-white">{row.code}</TableCell>
+                    <TableCell className="text-slate-300">{row.orders}</TableCell>
+                    <TableCell className="text-green-400 font-mono">{row.amount.toFixed(2)}</TableCell>
+                    <TableCell className="text-yellow-400 font-mono">{row.bonusCredits.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 阶梯赠送 */}
+      <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Gift className="h-5 w-5 text-green-400" />
+            阶梯赠送
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            按支付的USDT金额取最高的适用档位，赠送积分 = 基础积分 × 比例
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tiersLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-400">起始金额 (USDT)</TableHead>
+                  <TableHead className="text-slate-400">赠送比例</TableHead>
+                  <TableHead className="text-slate-400">启用</TableHead>
+                  <TableHead className="text-slate-400 text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tiers?.map((tier) => (
+                  <TableRow key={tier.id} className="border-slate-700">
+                    <TableCell className="font-mono text-white">{tier.minUsdt}+</TableCell>
+                    <TableCell className="font-mono text-green-400">{tier.bonusPercent}%</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={tier.isActive}
+                        onCheckedChange={(checked) => updateTierMutation.mutate({ id: tier.id, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteTierMutation.mutate({ id: tier.id })}
+                        disabled={deleteTierMutation.isPending}
+                        className="text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder="起始金额 (USDT)"
+              value={newTierUsdt}
+              onChange={(e) => setNewTierUsdt(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-white"
+            />
+            <Input
+              type="number"
+              placeholder="赠送比例 (%)"
+              value={newTierPercent}
+              onChange={(e) => setNewTierPercent(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-white"
+            />
+            <Button
+              onClick={() => createTierMutation.mutate({
+                minUsdt: parseFloat(newTierUsdt),
+                bonusPercent: parseFloat(newTierPercent),
+              })}
+              disabled={!newTierUsdt || !newTierPercent || createTierMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              添加档位
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 优惠码 */}
+      <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Ticket className="h-5 w-5 text-yellow-400" />
+              优惠码
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              在阶梯赠送之外叠加；每个用户每个优惠码限用一次，使用次数按到账订单计算
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            创建优惠码
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {codesLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : promoCodes && promoCodes.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-400">优惠码</TableHead>
+                  <TableHead className="text-slate-400">赠送</TableHead>
+                  <TableHead className="text-slate-400">使用 / 上限</TableHead>
+                  <TableHead className="text-slate-400">限制</TableHead>
+                  <TableHead className="text-slate-400">有效期至</TableHead>
+                  <TableHead className="text-slate-400">启用</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map((promo) => {
+                  const expired = !!promo.expiresAt && new Date(promo.expiresAt).getTime() < Date.now();
+                  return (
+                    <TableRow key={promo.id} className="border-slate-700">
+                      <TableCell>
+                        <p className="font-mono text-white">{promo.code}</p>
+                        {promo.description && <p className="text-xs text-slate-500">{promo.description}</p>}
+                      </TableCell>
+                      <TableCell className="text-green-400 font-mono">
+                        {promo.bonusType === "percent" ? `+${parseFloat(promo.bonusValue)}%` : `+${parseFloat(promo.bonusValue).toLocaleString()} 积分`}
+                      </TableCell>
+                      <TableCell className="text-slate-300 font-mono">
+                        {promo.usedCount} / {promo.maxUses ?? '∞'}
+                      </TableCell>
+                      <TableCell>
+                        {promo.firstRechargeOnly && (
+                          <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">仅首充</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className={expired ? "text-red-400 text-sm" : "text-slate-400 text-sm"}>
+                        {promo.expiresAt ? new Date(promo.expiresAt).toLocaleString('zh-CN') : '长期'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={promo.isActive}
+                          onCheckedChange={(checked) => updatePromoMutation.mutate({ id: promo.id, isActive: checked })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8">
+              <Ticket className="h-10 w-10 text-slate-600 mx-auto mb-3" />
+              <p className="text-slate-500">暂无优惠码</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 创建优惠码对话框 */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">创建优惠码</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              百分比按用户充值的基础积分计算；固定赠送直接发放指定积分
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-slate-300">优惠码</Label>
+              <Input
+                value={promoForm.code}
+                onChange={(e) => setPromoForm({ ...promoForm, code: e.target.value.toUpperCase() })}
+                className="bg-slate-800 border-slate-700 text-white font-mono"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-slate-300">赠送方式</Label>
+                <Select
+                  value={promoForm.bonusType}
+                  onValueChange={(value) => setPromoForm({ ...promoForm, bonusType: value as "percent" | "fixed" })}
+                >
+                  <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">按比例 (%)</SelectItem>
+                    <SelectItem value="fixed">固定积分</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-300">{promoForm.bonusType === "percent" ? "赠送比例 (%)" : "赠送积分"}</Label>
+                <Input
+                  type="number"
+                  value={promoForm.bonusValue}
+                  onChange={(e) => setPromoForm({ ...promoForm, bonusValue: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-slate-300">使用上限（留空不限）</Label>
+                <Input
+                  type="number"
+                  value={promoForm.maxUses}
+                  onChange={(e) => setPromoForm({ ...promoForm, maxUses: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-300">有效期至（留空长期）</Label>
+                <Input
+                  type="datetime-local"
+                  value={promoForm.expiresAt}
+                  onChange={(e) => setPromoForm({ ...promoForm, expiresAt: e.target.value })}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-300">备注</Label>
+              <Input
+                value={promoForm.description}
+                onChange={(e) => setPromoForm({ ...promoForm, description: e.target.value })}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-slate-300">仅限首次充值</Label>
+              <Switch
+                checked={promoForm.firstRechargeOnly}
+                onCheckedChange={(checked) => setPromoForm({ ...promoForm, firstRechargeOnly: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCreateOpen(false)} className="text-slate-400">
+              取消
+            </Button>
+            <Button
+              onClick={handleCreatePromo}
+              disabled={!promoForm.code.trim() || !promoForm.bonusValue || createPromoMutation.isPending}
+            >
+              {createPromoMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              创建
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
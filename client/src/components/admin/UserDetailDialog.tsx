@@ -147,6 +147,15 @@ export function UserDetailDialog({ userId, open, onOpenChange, onRefresh }: User
     },
   });
 
+  const resetTwoFactorMutation = trpc.admin.resetUserTwoFactor.useMutation({
+    onSuccess: () => {
+      toast.success("已重置两步验证，用户可仅凭密码登录后重新绑定");
+    },
+    onError: (error) => {
+      toast.error(error.message || "操作失败");
+    },
+  });
+
   // 获取代理列表（用于分配代理）
   const { data: agentsList } = trpc.adminAgent.list.useQuery(
     { page: 1, limit: 100 },
@@ -224,7 +233,8 @@ export function UserDetailDialog({ userId, open, onOpenChange, onRefresh }: User
     'admin_deduct': '管理员扣除',
     'refund': '退款',
     'admin_adjust': '管理员调整',
-    'bonus': '赠送'
+    'bonus': '赠送',
+    'org_transfer': '团队积分池'
   };
 
   // 积分类型颜色映射（新增）
@@ -235,7 +245,8 @@ export function UserDetailDialog({ userId, open, onOpenChange, onRefresh }: User
     'admin_deduct': 'bg-red-500/20 text-red-400 border-red-500/30',
     'refund': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
     'admin_adjust': 'bg-orange-500/20 text-orange-400 border-orange-500/30',
-    'bonus': 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+    'bonus': 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+    'org_transfer': 'bg-indigo-500/20 text-indigo-400 border-indigo-500/30'
   };
 
   const user = userDetail?.user;
@@ -461,6 +472,17 @@ export function UserDetailDialog({ userId, open, onOpenChange, onRefresh }: User
                       >
                         强制下线
                       </Button>
+                      <Button
+                        onClick={() => {
+                          if (!confirm("确定重置该用户的两步验证吗？请先核实用户身份。")) return;
+                          resetTwoFactorMutation.mutate({ userId: user.id });
+                        }}
+                        disabled={resetTwoFactorMutation.isPending}
+                        variant="outline"
+                        className="w-full border-slate-500 text-slate-300 hover:bg-slate-500/10"
+                      >
+                        重置两步验证
+                      </Button>
                     </CardContent>
                   </Card>
 
@@ -13,13 +13,14 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { getLoginUrl } from "@/const";
 
 // ==================== 类型定义 ====================
 
 export interface WsMessage {
   type: "task_progress" | "task_completed" | "task_failed" | "credits_update" | "notification" | "pong" | "connected";
   taskId?: string;
-  source?: "tps" | "spf" | "anywho" | "linkedin";
+  source?: "tps" | "spf" | "anywho" | "linkedin" | "waterfall" | "phone_lookup";
   data?: Record<string, any>;
   timestamp: string;
 }
@@ -216,6 +217,12 @@ export function useWebSocket() {
             console.warn("[WS] Authentication failed, not reconnecting");
             return;
           }
+          // 4003 = 会话已被撤销，回到登录页
+          if (event.code === 4003) {
+            console.warn("[WS] Session revoked, redirecting to login");
+            window.location.href = getLoginUrl();
+            return;
+          }
           scheduleReconnect();
         }
       };
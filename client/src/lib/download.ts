@@ -0,0 +1,105 @@
+/**
+ * 文件下载
+ *
+ * 服务端 GET /api/export/:source/:taskId 流式输出 CSV / XLSX / JSON Lines（见 server/exports/routes.ts），
+ * GET /api/billing 输出收据和月结单，这里拉取后以 Blob 触发浏览器下载
+ */
+
+export type ExportSource = "tps" | "spf" | "anywho" | "waterfall" | "linkedin" | "phone_lookup";
+
+export interface ExportOptions {
+  format: "csv" | "xlsx" | "jsonl";
+  /** 表头语言 */
+  language: "zh" | "en";
+  /** e164: +1XXXXXXXXXX / digits: 1XXXXXXXXXX / dashed: XXX-XXX-XXXX */
+  phoneFormat: "e164" | "digits" | "dashed";
+  /** 导出的列及顺序，不传时使用默认列 */
+  columns?: string[];
+  /** CRM / 外呼系统导入模板，选择后忽略 columns 和 language */
+  template?: "hubspot" | "salesforce" | "dialer";
+}
+
+// 从 Content-Disposition 中解析文件名，优先 RFC 5987 的 filename*
+function parseFilename(disposition: string | null): string | null {
+  if (!disposition) return null;
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {
+      // 解码失败时退回普通 filename
+    }
+  }
+  const plain = disposition.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1] : null;
+}
+
+export async function downloadTaskExport(
+  source: ExportSource,
+  taskId: string,
+  options?: ExportOptions
+): Promise<void> {
+  const query = new URLSearchParams();
+  if (options) {
+    query.set("format", options.format);
+    query.set("language", options.language);
+    query.set("phoneFormat", options.phoneFormat);
+    if (options.template) {
+      query.set("template", options.template);
+    } else if (options.columns?.length) {
+      query.set("columns", options.columns.join(","));
+    }
+  }
+  const search = query.toString() ? `?${query}` : "";
+
+  await fetchAndSave(
+    `/api/export/${source}/${encodeURIComponent(taskId)}${search}`,
+    `${source}_${taskId}.${options?.format ?? "csv"}`,
+    "导出失败"
+  );
+}
+
+/**
+ * 账单下载（见 server/billing/routes.ts）
+ *
+ * PDF 直接下载；HTML 在新标签页打开，便于查看和打印
+ */
+export async function downloadBillingDocument(
+  kind: "receipts" | "statements",
+  id: string,
+  format: "pdf" | "html" = "pdf"
+): Promise<void> {
+  const url = `/api/billing/${kind}/${encodeURIComponent(id)}?format=${format}`;
+  if (format === "html") {
+    window.open(url, "_blank", "noopener");
+    return;
+  }
+  await fetchAndSave(url, `${kind === "receipts" ? "receipt" : "statement"}_${id}.pdf`, "下载失败");
+}
+
+async function fetchAndSave(url: string, fallbackFilename: string, errorPrefix: string): Promise<void> {
+  const response = await fetch(url, {
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    let message = `${errorPrefix} (${response.status})`;
+    try {
+      const body = await response.json();
+      if (body?.message) message = body.message;
+    } catch {
+      // 非 JSON 响应，使用默认提示
+    }
+    throw new Error(message);
+  }
+
+  const blob = await response.blob();
+  const filename = parseFilename(response.headers.get("Content-Disposition")) || fallbackFilename;
+
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
@@ -0,0 +1,225 @@
+/**
+ * 表格文件解析（批量上传名单用）
+ *
+ * 支持 CSV / TSV / TXT 和 XLSX，统一返回二维字符串数组（第一行通常为表头）。
+ * XLSX 是 zip 包内的 XML，只读取第一个工作表，解压使用浏览器内置的 DecompressionStream
+ */
+
+/**
+ * 读取上传的表格文件
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension === "xlsx") {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (extension === "xls") {
+    throw new Error("不支持旧版 .xls 格式，请另存为 .xlsx 或 .csv");
+  }
+  return parseCsv(await file.text());
+}
+
+// ==================== CSV ====================
+
+/**
+ * 解析 CSV 文本（支持引号转义、字段内换行），自动识别逗号 / 制表符 / 分号分隔
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.indexOf("\n") >= 0 ? content.indexOf("\n") : undefined);
+  const delimiter = [",", "\t", ";"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+// ==================== XLSX ====================
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * 读取 zip 中央目录
+ */
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // 从末尾查找中央目录结束记录 (0x06054b50)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("文件已损坏或不是有效的 .xlsx 文件");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * 读取 zip 中的文本文件（仅支持存储和 deflate 两种压缩方式）
+ */
+async function readZipText(buffer: ArrayBuffer, entries: Map<string, ZipEntry>, path: string): Promise<string | null> {
+  const entry = entries.get(path);
+  if (!entry) return null;
+
+  const view = new DataView(buffer);
+  const start = entry.localHeaderOffset + 30
+    + view.getUint16(entry.localHeaderOffset + 26, true)
+    + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error("不支持的 .xlsx 压缩格式，请另存为 .csv 后上传");
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+function elements(parent: Document | Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", tag));
+}
+
+/** 单元格引用的列号，如 "C12" → 2 */
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * 解析 XLSX 第一个工作表
+ */
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+
+  // 第一个工作表的路径：workbook.xml 中的第一个 sheet → 关系文件中的 Target
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = await readZipText(buffer, entries, "xl/workbook.xml");
+  const rels = await readZipText(buffer, entries, "xl/_rels/workbook.xml.rels");
+  if (workbook && rels) {
+    const firstSheet = elements(parseXml(workbook), "sheet")[0];
+    const relId = firstSheet?.getAttribute("r:id")
+      ?? firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id");
+    const target = elements(parseXml(rels), "Relationship")
+      .find(rel => rel.getAttribute("Id") === relId)
+      ?.getAttribute("Target");
+    if (target) {
+      sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = await readZipText(buffer, entries, sheetPath);
+  if (!sheet) {
+    throw new Error("文件中没有找到工作表");
+  }
+
+  const sharedStringsXml = await readZipText(buffer, entries, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elements(parseXml(sharedStringsXml), "si").map(si => elements(si, "t").map(t => t.textContent ?? "").join(""))
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowElement of elements(parseXml(sheet), "row")) {
+    const row: string[] = [];
+    let nextColumn = 0;
+    for (const cell of elements(rowElement, "c")) {
+      const ref = cell.getAttribute("r");
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = cell.getAttribute("t");
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+      let text: string;
+      if (type === "s") {
+        text = sharedStrings[parseInt(value, 10)] ?? "";
+      } else if (type === "inlineStr") {
+        text = elements(cell, "t").map(t => t.textContent ?? "").join("");
+      } else {
+        text = value;
+      }
+
+      while (row.length < column) row.push("");
+      row[column] = text;
+    }
+    if (row.some(cell => cell.trim())) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
@@ -1,7 +1,7 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink, TRPCClientError } from "@trpc/client";
+import { httpBatchLink, httpLink, splitLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
@@ -57,31 +57,43 @@ queryClient.getMutationCache().subscribe(event => {
   }
 });
 
+// 添加管理员token和代理token请求头
+function trpcFetch(input: RequestInfo | URL, init?: RequestInit) {
+  const adminToken = localStorage.getItem("adminToken");
+  const agentToken = localStorage.getItem("agent_token");
+  const headers: Record<string, string> = {
+    ...(init?.headers as Record<string, string> || {}),
+  };
+  if (adminToken) {
+    headers["x-admin-token"] = adminToken;
+  }
+  if (agentToken) {
+    headers["x-agent-token"] = agentToken;
+  }
+  
+  return globalThis.fetch(input, {
+    ...(init ?? {}),
+    headers,
+    credentials: "include",
+  });
+}
+
 const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: "/api/trpc",
-      transformer: superjson,
-      fetch(input, init) {
-        // 获取管理员token和代理token并添加到请求头
-        const adminToken = localStorage.getItem("adminToken");
-        const agentToken = localStorage.getItem("agent_token");
-        const headers: Record<string, string> = {
-          ...(init?.headers as Record<string, string> || {}),
-        };
-        if (adminToken) {
-          headers["x-admin-token"] = adminToken;
-        }
-        if (agentToken) {
-          headers["x-agent-token"] = agentToken;
-        }
-        
-        return globalThis.fetch(input, {
-          ...(init ?? {}),
-          headers,
-          credentials: "include",
-        });
-      },
+    // 输入较大的查询（如批量上传的费用预估）带 largeInput 上下文，改用 POST 避免 URL 超长
+    splitLink({
+      condition: (op) => op.context.largeInput === true,
+      true: httpLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        methodOverride: "POST",
+        fetch: trpcFetch,
+      }),
+      false: httpBatchLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        fetch: trpcFetch,
+      }),
     }),
   ],
 });
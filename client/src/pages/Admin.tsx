@@ -18,7 +18,7 @@ import {
   Database, AlertTriangle, CheckCircle, XCircle, Clock,
   Eye, Edit, Ban, UserCheck, Wallet, Copy, ExternalLink,
   Save, Trash2, Activity, Server, Zap, Megaphone, Mail,
-  BarChart3, MessageSquare, UserSearch, Crown
+  BarChart3, MessageSquare, UserSearch, Crown, UserCog, Gift
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { UserDetailDialog } from "@/components/admin/UserDetailDialog";
@@ -29,6 +29,10 @@ import { OrderDetailDialog } from "@/components/admin/OrderDetailDialog";
 import { BulkMessageDialog } from "@/components/admin/BulkMessageDialog";
 import { FeedbackManager } from "@/components/admin/FeedbackManager";
 import { AgentManager } from "@/components/admin/AgentManager";
+import { AdminTwoFactorCard } from "@/components/admin/AdminTwoFactorCard";
+import { AdminAccountsManager, ADMIN_ROLE_CONFIG } from "@/components/admin/AdminAccountsManager";
+import { ChainTransactionsCard } from "@/components/admin/ChainTransactionsCard";
+import { PromotionsManager } from "@/components/admin/PromotionsManager";
 
 export default function Admin() {
   const [, setLocation] = useLocation();
@@ -82,6 +86,13 @@ export default function Admin() {
     }
   }, [statsError, setLocation]);
 
+  // 当前管理员及权限
+  const { data: currentAdmin } = trpc.adminAccounts.me.useQuery(
+    undefined,
+    { enabled: !!adminToken }
+  );
+  const canManageAdmins = !!currentAdmin?.permissions.includes("admins.manage");
+
   const { data: usersData, isLoading: usersLoading, refetch: refetchUsers } = trpc.admin.users.useQuery(
     undefined,
     { enabled: !!adminToken }
@@ -271,6 +282,7 @@ export default function Admin() {
             { id: "users", label: "用户管理", icon: Users },
             { id: "orders", label: "充值订单", icon: CreditCard },
             { id: "wallet", label: "钱包监控", icon: Wallet },
+            { id: "promotions", label: "充值优惠", icon: Gift },
             { id: "feedbacks", label: "用户反馈", icon: MessageSquare },
             { id: "announcements", label: "公告管理", icon: Megaphone },
             { id: "messages", label: "消息管理", icon: Mail },
@@ -281,6 +293,7 @@ export default function Admin() {
             { id: "spf", label: "SPF 配置", icon: UserSearch },
             { id: "agents", label: "代理管理", icon: Crown },
             { id: "settings", label: "系统配置", icon: Settings },
+            ...(canManageAdmins ? [{ id: "admins", label: "管理员", icon: UserCog }] : []),
           ].map((item) => (
             <button
               key={item.id}
@@ -297,6 +310,13 @@ export default function Admin() {
           ))}
         </nav>
 
+        {/* 当前管理员 */}
+        {currentAdmin && (
+          <div className="px-3 py-2 mb-2 text-xs text-slate-500">
+            {currentAdmin.username} · {ADMIN_ROLE_CONFIG[currentAdmin.role].label}
+          </div>
+        )}
+
         {/* 退出按钮 */}
         <Button
           variant="ghost"
@@ -924,6 +944,11 @@ export default function Admin() {
           <WalletMonitorTab />
         )}
 
+        {/* ============ 充值优惠 ============ */}
+        {activeTab === "promotions" && (
+          <PromotionsManager />
+        )}
+
         {/* ============ 用户反馈 ============ */}
         {activeTab === "feedbacks" && (
           <FeedbackManager />
@@ -1999,6 +2024,11 @@ export default function Admin() {
           <AgentManager />
         )}
 
+        {/* ============ 管理员账户 ============ */}
+        {activeTab === "admins" && canManageAdmins && (
+          <AdminAccountsManager currentAdminId={currentAdmin?.id} />
+        )}
+
         {/* ============ 系统配置 ============ */}
         {activeTab === "settings" && (
           <div className="relative space-y-6">
@@ -2090,7 +2120,7 @@ export default function Admin() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {['FUZZY_SEARCH_CREDITS', 'FUZZY_CREDITS_PER_PERSON', 'EXACT_SEARCH_CREDITS', 'EXACT_CREDITS_PER_PERSON', 'CACHE_TTL_DAYS', 'VERIFICATION_SCORE_THRESHOLD'].map((key) => {
+                  {['FUZZY_SEARCH_CREDITS', 'FUZZY_CREDITS_PER_PERSON', 'EXACT_SEARCH_CREDITS', 'EXACT_CREDITS_PER_PERSON', 'CACHE_TTL_DAYS', 'VERIFICATION_SCORE_THRESHOLD', 'PHONE_LOOKUP_CREDITS', 'PHONE_LOOKUP_CACHE_DAYS'].map((key) => {
                     const config = configs.find((c: any) => c.key === key);
                     return (
                       <div key={key} className="space-y-2">
@@ -2120,6 +2150,9 @@ export default function Admin() {
               </Card>
             </div>
 
+            {/* 管理员两步验证 */}
+            <AdminTwoFactorCard />
+
             {/* 添加新配置 */}
             <Card className="bg-gradient-to-br from-slate-900/80 to-slate-800/50 border-slate-700/50">
               <CardHeader>
@@ -2541,6 +2574,9 @@ function WalletMonitorTab() {
         </div>
       )}
       
+      {/* 链上入账记录 */}
+      <ChainTransactionsCard />
+      
       {/* 最近交易记录 */}
       <div className="rounded-2xl bg-gradient-to-br from-slate-900/80 to-slate-800/50 border border-slate-700/50 overflow-hidden">
         <div className="p-4 border-b border-slate-700/50">
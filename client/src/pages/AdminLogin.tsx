@@ -6,27 +6,69 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
-import { Shield, Lock, User, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Shield, Lock, User, Eye, EyeOff, Loader2, KeyRound, ArrowLeft } from "lucide-react";
+import { TotpQrCode, BackupCodesList } from "@/components/TotpSetup";
+
+// 登录步骤：用户名密码 → 输入验证码（或首次绑定验证器）→ 展示备用恢复码
+type LoginStage =
+  | { step: "credentials" }
+  | { step: "verify"; challengeToken: string }
+  | { step: "setup"; challengeToken: string; secret: string; otpauthUrl: string }
+  | { step: "backupCodes"; backupCodes: string[] };
 
 export default function AdminLogin() {
   const [, setLocation] = useLocation();
   const [showPassword, setShowPassword] = useState(false);
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [stage, setStage] = useState<LoginStage>({ step: "credentials" });
+  const [code, setCode] = useState("");
+
+  // 存储管理员token
+  const saveToken = (data: { token: string; expiresIn: number }) => {
+    localStorage.setItem("adminToken", data.token);
+    localStorage.setItem("adminTokenExpires", String(Date.now() + data.expiresIn * 1000));
+  };
 
   const loginMutation = trpc.adminAuth.login.useMutation({
     onSuccess: (data) => {
-      // 存储管理员token
-      localStorage.setItem("adminToken", data.token);
-      localStorage.setItem("adminTokenExpires", String(Date.now() + data.expiresIn * 1000));
-      toast.success("登录成功");
-      setLocation("/admin");
+      setCode("");
+      if (data.step === "setup") {
+        setStage({ step: "setup", challengeToken: data.challengeToken, secret: data.secret, otpauthUrl: data.otpauthUrl });
+      } else {
+        setStage({ step: "verify", challengeToken: data.challengeToken });
+      }
     },
     onError: (error) => {
       toast.error(error.message || "登录失败");
     },
   });
 
+  const verifyMutation = trpc.adminAuth.verifyTwoFactor.useMutation({
+    onSuccess: (data) => {
+      saveToken(data);
+      if (data.usedBackupCode) {
+        toast.warning("已使用备用恢复码登录，请尽快在系统配置中重新生成恢复码");
+      } else {
+        toast.success("登录成功");
+      }
+      setLocation("/admin");
+    },
+    onError: (error) => {
+      toast.error(error.message || "验证失败");
+    },
+  });
+
+  const setupMutation = trpc.adminAuth.confirmTwoFactorSetup.useMutation({
+    onSuccess: (data) => {
+      saveToken(data);
+      setStage({ step: "backupCodes", backupCodes: data.backupCodes });
+    },
+    onError: (error) => {
+      toast.error(error.message || "绑定失败");
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -37,6 +79,21 @@ export default function AdminLogin() {
     loginMutation.mutate({ username, password });
   };
 
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      toast.error("请输入验证码");
+      return;
+    }
+    if (stage.step === "verify") {
+      verifyMutation.mutate({ challengeToken: stage.challengeToken, code: code.trim() });
+    } else if (stage.step === "setup") {
+      setupMutation.mutate({ challengeToken: stage.challengeToken, code: code.trim() });
+    }
+  };
+
+  const codePending = verifyMutation.isPending || setupMutation.isPending;
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 relative overflow-hidden">
       {/* 背景装饰 */}
@@ -72,6 +129,76 @@ export default function AdminLogin() {
         </CardHeader>
 
         <CardContent>
+          {stage.step === "backupCodes" ? (
+            <div className="space-y-6">
+              <BackupCodesList codes={stage.backupCodes} />
+              <Button
+                onClick={() => setLocation("/admin")}
+                className="w-full bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 text-white font-medium py-5"
+              >
+                我已保存，进入管理后台
+              </Button>
+            </div>
+          ) : stage.step !== "credentials" ? (
+            <form onSubmit={handleCodeSubmit} className="space-y-6">
+              {stage.step === "setup" ? (
+                <>
+                  <p className="text-sm text-slate-300">管理后台需要开启两步验证。请先绑定验证器，再输入应用上显示的 6 位验证码。</p>
+                  <TotpQrCode otpauthUrl={stage.otpauthUrl} secret={stage.secret} />
+                </>
+              ) : (
+                <p className="text-sm text-slate-300">请输入验证器应用上的 6 位验证码，丢失验证器时可输入备用恢复码。</p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="code" className="text-slate-300">
+                  验证码
+                </Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                  <Input
+                    id="code"
+                    name="code"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    placeholder={stage.step === "setup" ? "6 位验证码" : "6 位验证码或备用恢复码"}
+                    value={code}
+                    maxLength={20}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="pl-10 bg-slate-800/50 border-slate-700 focus:border-cyan-500 text-slate-100 placeholder:text-slate-500 font-mono"
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={codePending}
+                className="w-full bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 text-white font-medium py-5 shadow-lg shadow-cyan-500/25"
+              >
+                {codePending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    验证中...
+                  </>
+                ) : (
+                  <>
+                    <Shield className="w-4 h-4 mr-2" />
+                    {stage.step === "setup" ? "绑定并登录" : "验证并登录"}
+                  </>
+                )}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setStage({ step: "credentials" })}
+                className="w-full text-slate-400 hover:text-white"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                返回
+              </Button>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="username" className="text-slate-300">
@@ -134,6 +261,7 @@ export default function AdminLogin() {
               )}
             </Button>
           </form>
+          )}
 
           <div className="mt-6 pt-6 border-t border-slate-800 text-center">
             <p className="text-xs text-slate-500">
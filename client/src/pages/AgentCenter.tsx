@@ -699,20 +699,26 @@ export default function AgentCenter() {
                           <div>
                             <p className="text-white font-medium">
                               {commission.commissionLevel === 'level1' ? '一级佣金' : '二级佣金'}
+                              {commission.clawbackOf && (commission.clawbackReason === 'adjustment' ? '金额调整追回' : '退款追回')}
                             </p>
                             <p className="text-slate-400 text-sm">
-                              订单金额 ${parseFloat(commission.orderAmount).toFixed(2)} · {commission.commissionRate}%
+                              {commission.clawbackOf ? '扣减订单金额' : '订单金额'} ${Math.abs(parseFloat(commission.orderAmount)).toFixed(2)} · {commission.commissionRate}%
                             </p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-green-400 font-bold">+${parseFloat(commission.commissionAmount).toFixed(2)}</p>
+                          {commission.clawbackOf ? (
+                            <p className="text-red-400 font-bold">-${Math.abs(parseFloat(commission.commissionAmount) + parseFloat(commission.bonusAmount || '0')).toFixed(2)}</p>
+                          ) : (
+                            <p className="text-green-400 font-bold">+${parseFloat(commission.commissionAmount).toFixed(2)}</p>
+                          )}
                           <Badge variant="outline" className={
+                            commission.clawbackOf ? 'border-red-500/50 text-red-400' :
                             commission.status === 'settled' ? 'border-green-500/50 text-green-400' :
                             commission.status === 'pending' ? 'border-amber-500/50 text-amber-400' :
                             'border-slate-500/50 text-slate-400'
                           }>
-                            {commission.status === 'settled' ? '已结算' : commission.status === 'pending' ? '冻结中' : '已提现'}
+                            {commission.clawbackOf ? '已追回' : commission.status === 'settled' ? '已结算' : commission.status === 'pending' ? '冻结中' : '已提现'}
                           </Badge>
                         </div>
                       </div>
@@ -325,6 +325,7 @@ export default function AgentPortal() {
                           <div>
                             <p className="text-sm text-white">
                               {item.level === 1 ? "一级佣金" : "二级佣金"}
+                              {item.clawbackReason && (item.clawbackReason === "refund" ? "退款追回" : "金额调整追回")}
                             </p>
                             <p className="text-xs text-slate-400">
                               来自 {item.fromUser} 的充值
@@ -332,7 +333,11 @@ export default function AgentPortal() {
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-green-500 font-semibold">+${item.amount}</p>
+                          {item.clawbackReason ? (
+                            <p className="text-red-500 font-semibold">-${Math.abs(parseFloat(item.amount)).toFixed(2)}</p>
+                          ) : (
+                            <p className="text-green-500 font-semibold">+${item.amount}</p>
+                          )}
                           <p className="text-xs text-slate-400">{item.time}</p>
                         </div>
                       </div>
@@ -441,34 +446,43 @@ export default function AgentPortal() {
                       <div key={index} className="flex items-center justify-between py-3 border-b border-slate-700 last:border-0">
                         <div className="flex items-center gap-3">
                           <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                            item.level === 1 ? "bg-green-500/20" : "bg-blue-500/20"
+                            item.clawbackReason ? "bg-red-500/20" : item.level === 1 ? "bg-green-500/20" : "bg-blue-500/20"
                           }`}>
                             <span className={`text-sm font-bold ${
-                              item.level === 1 ? "text-green-500" : "text-blue-500"
+                              item.clawbackReason ? "text-red-500" : item.level === 1 ? "text-green-500" : "text-blue-500"
                             }`}>
                               L{item.level}
                             </span>
                           </div>
                           <div>
                             <p className="text-sm text-white">
-                              {item.level === 1 ? "一级佣金" : "二级佣金"} - {item.fromUser}
+                              {item.level === 1 ? "一级佣金" : "二级佣金"}
+                              {item.clawbackReason && (item.clawbackReason === "refund" ? "退款追回" : "金额调整追回")} - {item.fromUser}
                             </p>
                             <p className="text-xs text-slate-400">
-                              订单金额 ${parseFloat(item.orderAmount).toFixed(2)} × {item.rate}%
+                              {item.clawbackReason ? "扣减订单金额" : "订单金额"} ${Math.abs(parseFloat(item.orderAmount)).toFixed(2)} × {item.rate}%
                             </p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-green-500 font-semibold">+${parseFloat(item.amount).toFixed(2)}</p>
-                          <Badge className={
-                            item.status === "available" 
-                              ? "bg-green-500/20 text-green-500" 
-                              : item.status === "frozen"
-                              ? "bg-yellow-500/20 text-yellow-500"
-                              : "bg-slate-500/20 text-slate-400"
-                          }>
-                            {item.status === "available" ? "已结算" : item.status === "frozen" ? "冻结中" : "已提现"}
-                          </Badge>
+                          {item.clawbackReason ? (
+                            <p className="text-red-500 font-semibold">-${Math.abs(parseFloat(item.amount)).toFixed(2)}</p>
+                          ) : (
+                            <p className="text-green-500 font-semibold">+${parseFloat(item.amount).toFixed(2)}</p>
+                          )}
+                          {item.clawbackReason ? (
+                            <Badge className="bg-red-500/20 text-red-500">已追回</Badge>
+                          ) : (
+                            <Badge className={
+                              item.status === "available" 
+                                ? "bg-green-500/20 text-green-500" 
+                                : item.status === "frozen"
+                                ? "bg-yellow-500/20 text-yellow-500"
+                                : "bg-slate-500/20 text-slate-400"
+                            }>
+                              {item.status === "available" ? "已结算" : item.status === "frozen" ? "冻结中" : "已提现"}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -758,6 +772,11 @@ function WithdrawSection({
           <CardDescription>
             可提现余额: <span className="text-green-500 font-bold">${parseFloat(dashboardData?.balance || agentInfo.balance || '0').toFixed(2)} USDT</span>
           </CardDescription>
+          {parseFloat(dashboardData?.balance || agentInfo.balance || '0') < 0 && (
+            <p className="text-sm text-red-400">
+              下级退款的佣金已追回，余额为负数，需由之后的佣金抵扣后才能提现
+            </p>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
@@ -3,8 +3,10 @@
  */
 
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
+import { downloadTaskExport } from "@/lib/download";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -120,15 +122,9 @@ export default function AnywhoHistory() {
   });
   
   // 导出 CSV
-  const exportMutation = trpc.anywho.exportResults.useMutation({
-    onSuccess: (data) => {
-      const blob = new Blob([data.csv], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.filename;
-      link.click();
-      URL.revokeObjectURL(url);
+  const exportMutation = useMutation({
+    mutationFn: ({ taskId }: { taskId: string }) => downloadTaskExport("anywho", taskId),
+    onSuccess: () => {
       toast.success("导出成功");
     },
     onError: (error: any) => {
@@ -253,7 +249,7 @@ export default function AnywhoHistory() {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className="text-xs border-amber-500/50 text-amber-400">
-                            {task.mode === "nameOnly" ? "仅姓名" : "姓名+地点"}
+                            {task.mode === "nameOnly" ? "仅姓名" : task.mode === "pairs" ? "配对搜索" : "姓名+地点"}
                           </Badge>
                         </TableCell>
                         <TableCell>{task.names?.length || 0}</TableCell>
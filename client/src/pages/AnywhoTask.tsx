@@ -7,6 +7,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useLocation, useParams } from "wouter";
 import { trpc } from "@/lib/trpc";
 import DashboardLayout from "@/components/DashboardLayout";
+import ExportDialog from "@/components/ExportDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -53,6 +54,7 @@ import {
   Info,
   DollarSign,
   Wifi,
+  Play,
 } from "lucide-react";
 
 // 七彩鎏金动画样式
@@ -259,23 +261,20 @@ export default function AnywhoTask() {
     }
   };
   
-  // 导出 CSV
-  const exportMutation = trpc.anywho.exportResults.useMutation({
+  // 继续任务（只执行未完成的子任务，只对新增请求扣费）
+  const resumeMutation = trpc.anywho.resumeTask.useMutation({
     onSuccess: (data) => {
-      const blob = new Blob([data.csv], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.filename;
-      link.click();
-      URL.revokeObjectURL(url);
-      toast.success("导出成功");
+      toast.success(data.message, { description: `剩余 ${data.remainingSubTasks} 个子任务` });
+      refetchTask();
     },
     onError: (error: any) => {
-      toast.error("导出失败", { description: error.message });
+      toast.error("继续失败", { description: error.message });
     },
   });
   
+  // 导出对话框
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "pending":
@@ -350,19 +349,27 @@ export default function AnywhoTask() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {task?.status === "completed" && (
+            {(task?.status === "failed" || task?.status === "insufficient_credits") && (
               <Button
-                variant="outline"
-                onClick={() => exportMutation.mutate({ taskId: taskId! })}
-                disabled={exportMutation.isPending}
-                className="rainbow-border"
+                onClick={() => resumeMutation.mutate({ taskId: taskId! })}
+                disabled={resumeMutation.isPending}
               >
-                {exportMutation.isPending ? (
+                {resumeMutation.isPending ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
-                  <Download className="h-4 w-4 mr-2" />
+                  <Play className="h-4 w-4 mr-2" />
                 )}
-                导出 CSV
+                继续任务
+              </Button>
+            )}
+            {task?.status === "completed" && (
+              <Button
+                variant="outline"
+                onClick={() => setShowExportDialog(true)}
+                className="rainbow-border"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                导出
               </Button>
             )}
             <Button
@@ -654,6 +661,13 @@ export default function AnywhoTask() {
           </Card>
         )}
       </div>
+
+      <ExportDialog
+        source="anywho"
+        taskId={taskId!}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
     </DashboardLayout>
   );
 }
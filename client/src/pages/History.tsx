@@ -13,6 +13,8 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
+import { downloadBillingDocument } from "@/lib/download";
+import { toast } from "sonner";
 import { useWebSocketContext } from "@/contexts/WebSocketContext";
 import { Link } from "wouter";
 import {
@@ -42,6 +44,7 @@ import {
   Users,
   Filter,
   X,
+  Receipt,
 } from "lucide-react";
 
 
@@ -263,6 +266,18 @@ export default function History() {
                 <Star className="h-4 w-4 text-blue-400" />
                 <span className="text-sm text-blue-400">专业人士数据库</span>
               </div>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  const now = new Date();
+                  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+                  downloadBillingDocument("statements", month).catch((error: Error) => toast.error(error.message || "下载失败"));
+                }}
+                className="border-slate-700 text-slate-300 hover:bg-slate-800"
+              >
+                <Receipt className="h-4 w-4 mr-2" />
+                本月账单
+              </Button>
               <Link href="/search">
                 <Button className="rainbow-btn text-white border-0 shadow-lg shadow-blue-500/25 hover:shadow-blue-500/40 transition-shadow">
                   <Plus className="h-4 w-4 mr-2" />
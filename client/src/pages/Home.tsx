@@ -7,12 +7,13 @@ import { useLocation, Link } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useAuth } from "@/_core/hooks/useAuth";
+import { TWO_FACTOR_REQUIRED_ERR_MSG } from "@shared/const";
 import { 
   Target, Search, Phone, Shield, Zap, CheckCircle, ArrowRight, Sparkles, 
   Database, Globe, TrendingUp, Users, Building2, Linkedin, Twitter, 
   Facebook, Mail, MapPin, BarChart3, Lock, Clock, Award, Star,
   ChevronRight, Play, Layers, Network, Cpu, Eye, EyeOff, ChevronDown,
-  AlertTriangle, Loader2, UserSearch, User, SearchCheck
+  AlertTriangle, Loader2, UserSearch, User, SearchCheck, KeyRound
 } from "lucide-react";
 
 // 生成设备指纹（保持原有逻辑）
@@ -131,6 +132,9 @@ export default function Home() {
   // 强制登录状态
   const [showForceLogin, setShowForceLogin] = useState(false);
   const [forceLoginMessage, setForceLoginMessage] = useState("");
+  // 两步验证状态
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   // 内联错误提示状态
   const [loginError, setLoginError] = useState("");
 
@@ -162,11 +166,14 @@ export default function Home() {
     },
     onError: (error) => {
       const errorMsg = error.message || "登录失败，请检查邮箱和密码";
-      if (error.message.includes("其他设备")) {
+      if (error.message === TWO_FACTOR_REQUIRED_ERR_MSG) {
+        setShowTwoFactor(true);
+        setLoginError("");
+      } else if (error.message.includes("其他设备")) {
         setForceLoginMessage(error.message);
         setShowForceLogin(true);
-        setLoginError("账户已在其他设备登录");
-        toast.error("账户已在其他设备登录");
+        setLoginError("登录设备数已达上限");
+        toast.error("登录设备数已达上限");
       } else {
         setLoginError(errorMsg);
         toast.error(errorMsg);
@@ -178,7 +185,7 @@ export default function Home() {
   // 强制登录 mutation
   const forceLoginMutation = trpc.auth.login.useMutation({
     onSuccess: () => {
-      toast.success("登录成功，其他设备已下线");
+      toast.success("登录成功，最早的会话已下线");
       setShowAuthModal(false);
       setShowForceLogin(false);
       window.location.href = "/dashboard";
@@ -192,7 +199,13 @@ export default function Home() {
   const handleForceLogin = () => {
     setIsLoading(true);
     const deviceId = generateDeviceId();
-    forceLoginMutation.mutate({ email, password, deviceId, force: true });
+    forceLoginMutation.mutate({
+      email,
+      password,
+      deviceId,
+      force: true,
+      twoFactorCode: showTwoFactor ? twoFactorCode.trim() : undefined,
+    });
   };
 
   // 注册 mutation（保持原有逻辑）
@@ -234,7 +247,12 @@ export default function Home() {
     const deviceId = generateDeviceId();
 
     if (authMode === 'login') {
-      loginMutation.mutate({ email, password, deviceId });
+      loginMutation.mutate({
+        email,
+        password,
+        deviceId,
+        twoFactorCode: showTwoFactor ? twoFactorCode.trim() : undefined,
+      });
     } else {
       registerMutation.mutate({ 
         email, 
@@ -807,7 +825,7 @@ export default function Home() {
                           强制登录中...
                         </>
                       ) : (
-                        "强制登录（踢掉其他设备）"
+                        "强制登录（下线最早的会话）"
                       )}
                     </Button>
                   </div>
@@ -865,6 +883,26 @@ export default function Home() {
                 </div>
               </div>
 
+              {authMode === 'login' && showTwoFactor && (
+                <div className="space-y-2">
+                  <Label htmlFor="modal-two-factor" className="text-slate-300">两步验证码</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                    <Input
+                      id="modal-two-factor"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      placeholder="验证器上的 6 位验证码或备用恢复码"
+                      value={twoFactorCode}
+                      maxLength={20}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500 font-mono"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
               {authMode === 'login' && (
                 <div className="text-right">
                   <Link href="/forgot-password" className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors">
@@ -5,10 +5,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
+import { TWO_FACTOR_REQUIRED_ERR_MSG } from "@shared/const";
 import { 
   Loader2, Mail, Lock, Eye, EyeOff, ArrowRight, Sparkles,
   Phone, Shield, Users, Zap, CheckCircle, Globe, Network,
-  Database, TrendingUp, Layers, Award, AlertTriangle
+  Database, TrendingUp, Layers, Award, AlertTriangle, KeyRound
 } from "lucide-react";
 import { ParticleNetwork } from "@/components/ParticleNetwork";
 
@@ -47,6 +48,9 @@ export default function Login() {
   // 新增：强制登录状态
   const [showForceLogin, setShowForceLogin] = useState(false);
   const [forceLoginMessage, setForceLoginMessage] = useState("");
+  // 两步验证状态
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   // 新增：内联错误提示状态
   const [loginError, setLoginError] = useState("");
 
@@ -64,12 +68,15 @@ export default function Login() {
     },
     onError: (error) => {
       const errorMsg = error.message || "登录失败，请检查邮箱和密码";
-      if (error.message.includes("其他设备")) {
+      if (error.message === TWO_FACTOR_REQUIRED_ERR_MSG) {
+        // 显示两步验证码输入框
+        setShowTwoFactor(true);
+      } else if (error.message.includes("其他设备")) {
         // 显示强制登录提示
         setForceLoginMessage(error.message);
         setShowForceLogin(true);
-        setLoginError("账户已在其他设备登录");
-        toast.error("账户已在其他设备登录");
+        setLoginError("登录设备数已达上限");
+        toast.error("登录设备数已达上限");
       } else {
         // 设置内联错误提示
         setLoginError(errorMsg);
@@ -80,7 +87,7 @@ export default function Login() {
 
   const forceLoginMutation = trpc.auth.login.useMutation({
     onSuccess: () => {
-      toast.success("登录成功，其他设备已下线");
+      toast.success("登录成功，最早的会话已下线");
       setShowForceLogin(false);
       setLocation("/dashboard");
     },
@@ -93,11 +100,22 @@ export default function Login() {
     e.preventDefault();
     setLoginError("");
     setShowForceLogin(false);
-    loginMutation.mutate({ email, password, deviceId });
+    loginMutation.mutate({
+      email,
+      password,
+      deviceId,
+      twoFactorCode: showTwoFactor ? twoFactorCode.trim() : undefined,
+    });
   };
 
   const handleForceLogin = () => {
-    forceLoginMutation.mutate({ email, password, deviceId, force: true });
+    forceLoginMutation.mutate({
+      email,
+      password,
+      deviceId,
+      force: true,
+      twoFactorCode: showTwoFactor ? twoFactorCode.trim() : undefined,
+    });
   };
 
   return (
@@ -243,7 +261,7 @@ export default function Login() {
                           强制登录中...
                         </>
                       ) : (
-                        "强制登录（踢掉其他设备）"
+                        "强制登录（下线最早的会话）"
                       )}
                     </Button>
                   </div>
@@ -307,6 +325,26 @@ export default function Login() {
                 </div>
               </div>
 
+              {showTwoFactor && (
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode" className="text-slate-300 font-medium">两步验证码</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-500" />
+                    <Input
+                      id="twoFactorCode"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      placeholder="验证器上的 6 位验证码或备用恢复码"
+                      value={twoFactorCode}
+                      maxLength={20}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="pl-12 h-14 bg-slate-800/50 border-slate-700 focus:border-cyan-500 focus:ring-cyan-500/20 text-white placeholder:text-slate-500 rounded-xl text-base font-mono"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
               <Button
                 type="submit"
                 disabled={loginMutation.isPending || forceLoginMutation.isPending}
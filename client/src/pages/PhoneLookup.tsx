@@ -0,0 +1,227 @@
+/**
+ * 电话反查页面
+ * 粘贴或上传号码列表，反查每个号码主人的姓名、年龄、地点、电话类型和运营商
+ */
+
+import { useAuth } from "@/_core/hooks/useAuth";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import {
+  Search,
+  Loader2,
+  PhoneCall,
+  Upload,
+  DollarSign,
+  History,
+  ChevronRight,
+} from "lucide-react";
+
+// 从上传文件中提取号码（CSV / TXT 任意列）
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/g;
+
+export default function PhoneLookup() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [phonesInput, setPhonesInput] = useState("");
+
+  const { data: profile } = trpc.user.profile.useQuery(undefined, { enabled: !!user });
+  const { data: config } = trpc.phoneLookup.getConfig.useQuery();
+  const { data: history } = trpc.phoneLookup.getHistory.useQuery({ page: 1, pageSize: 10 });
+
+  const phones = phonesInput.split(/[\n,;]/).map(p => p.trim()).filter(Boolean);
+  const maxPhones = config?.maxPhones ?? 1000;
+
+  const { data: estimate } = trpc.phoneLookup.estimateCost.useQuery({ phones }, {
+    enabled: phones.length > 0 && phones.length <= maxPhones * 2,
+    trpc: { context: { largeInput: true } },
+  });
+
+  const lookupMutation = trpc.phoneLookup.lookup.useMutation({
+    onSuccess: (data) => {
+      toast.success("电话反查任务已提交", {
+        description: data.invalidPhones > 0
+          ? `${data.totalPhones} 个号码，已忽略 ${data.invalidPhones} 个无效号码`
+          : `${data.totalPhones} 个号码`,
+      });
+      setLocation(`/phone-lookup/task/${data.taskId}`);
+    },
+    onError: (error) => {
+      toast.error("提交失败", { description: error.message });
+    },
+  });
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const found = text.match(PHONE_PATTERN) || [];
+    if (found.length === 0) {
+      toast.error("文件中没有找到电话号码");
+      return;
+    }
+    setPhonesInput(prev => [prev.trim(), ...found].filter(Boolean).join("\n"));
+    toast.success(`已从 ${file.name} 导入 ${found.length} 个号码`);
+  };
+
+  const handleLookup = () => {
+    if (phones.length === 0) {
+      toast.error("请输入至少一个电话号码");
+      return;
+    }
+    if (estimate && estimate.validPhones > maxPhones) {
+      toast.error(`单次最多查询 ${maxPhones} 个号码`);
+      return;
+    }
+    lookupMutation.mutate({ phones });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <PhoneCall className="h-6 w-6 text-teal-400" />
+              电话反查
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              根据电话号码查询号码主人的姓名、年龄、所在地、电话类型和运营商
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>号码列表</CardTitle>
+                <CardDescription>每行一个美国号码，支持 (415) 548-0165、+1 415-548-0165 等格式，最多 {maxPhones} 个</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>电话号码 ({phones.length})</Label>
+                    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      上传 CSV / TXT
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.txt,text/csv,text/plain"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                  <Textarea
+                    rows={14}
+                    placeholder={"4155480165\n(212) 555-0147"}
+                    value={phonesInput}
+                    onChange={(e) => setPhonesInput(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                {estimate && estimate.invalidPhones > 0 && (
+                  <p className="text-sm text-amber-400">
+                    {estimate.invalidPhones} 个号码无效，将被忽略：{estimate.invalidSamples.join("、")}
+                    {estimate.invalidPhones > estimate.invalidSamples.length && " 等"}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5 text-green-400" />
+                  预估消耗
+                </CardTitle>
+                <CardDescription>实时扣费模式：按实际反查的号码扣费，缓存命中不扣费</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">有效号码（已去重）</span>
+                  <span>{estimate?.validPhones ?? 0}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">命中缓存</span>
+                  <span>{estimate?.cachedPhones ?? 0}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">单价</span>
+                  <span>{config?.lookupCost ?? "-"} 积分/号码</span>
+                </div>
+                <div className="flex justify-between font-medium pt-2 border-t">
+                  <span>预估消耗</span>
+                  <span>≤ {(estimate?.estimatedCost ?? 0).toFixed(1)} 积分</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>当前余额</span>
+                  <span>{profile?.credits ?? 0} 积分</span>
+                </div>
+                {config && !config.enabled && (
+                  <p className="text-amber-400 pt-2">电话反查功能暂未开放</p>
+                )}
+                <Button
+                  className="w-full mt-4"
+                  onClick={handleLookup}
+                  disabled={lookupMutation.isPending || phones.length === 0 || (config && !config.enabled)}
+                >
+                  {lookupMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Search className="h-4 w-4 mr-2" />
+                  )}
+                  开始反查
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {history && history.tasks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                最近任务
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {history.tasks.map(task => (
+                <div
+                  key={task.taskId}
+                  className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+                  onClick={() => setLocation(`/phone-lookup/task/${task.taskId}`)}
+                >
+                  <span className="font-mono text-xs text-muted-foreground">{task.taskId.slice(0, 8)}</span>
+                  <span className="flex-1 text-sm">
+                    {task.totalPhones} 个号码 · {new Date(task.createdAt).toLocaleString("zh-CN")}
+                  </span>
+                  <span className="text-sm">{task.foundPhones} 个查到</span>
+                  <span className="text-sm text-muted-foreground">{task.creditsUsed.toFixed(1)} 积分</span>
+                  <Badge variant="outline">{task.status}</Badge>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { downloadBillingDocument } from "@/lib/download";
 import { toast } from "sonner";
 import { Coins, Clock, CheckCircle, XCircle, Loader2, QrCode, Wallet, Zap, RefreshCw, Gift } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -15,14 +16,6 @@ import { ParticleNetwork } from "@/components/ParticleNetwork";
 // 预设积分选项：5000/10000/20000/50000 积分（对应 50/100/200/500 USDT）
 const PRESET_AMOUNTS = [5000, 10000, 20000, 50000];
 
-// 阶梯优惠规则显示配置（用于横幅展示）
-const BONUS_DISPLAY_TIERS = [
-  { label: '100+', percent: 2 },
-  { label: '200+', percent: 4 },
-  { label: '500+', percent: 8 },
-  { label: '1000+', percent: 10 },
-];
-
 export default function Recharge() {
   const { user } = useAuth();
   const search = useSearch();
@@ -34,6 +27,8 @@ export default function Recharge() {
   const [customUsdt, setCustomUsdt] = useState<string>("");  // 自定义USDT金额输入
   const [createError, setCreateError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
   
   const isMountedRef = useRef(true);
   const pendingRedirectRef = useRef<string | null>(null);
@@ -64,17 +59,27 @@ export default function Recharge() {
   
   const creditsPerUsdt = rechargeConfig?.creditsPerUsdt || 100;
   const minRechargeCredits = rechargeConfig?.minRechargeCredits || 5000;
-  const bonusTiers = rechargeConfig?.bonusTiers || [
-    { minUsdt: 10000, bonusPercent: 15 },
-    { minUsdt: 5000, bonusPercent: 14 },
-    { minUsdt: 3000, bonusPercent: 12 },
-    { minUsdt: 1000, bonusPercent: 10 },
-    { minUsdt: 500, bonusPercent: 8 },
-    { minUsdt: 300, bonusPercent: 6 },
-    { minUsdt: 200, bonusPercent: 4 },
-    { minUsdt: 100, bonusPercent: 2 },
-    { minUsdt: 0, bonusPercent: 0 },
-  ];
+  const bonusTiers = rechargeConfig?.bonusTiers || [];
+
+  // 横幅展示最低的4个赠送档位
+  const displayTiers = useMemo(
+    () => bonusTiers.filter(tier => tier.bonusPercent > 0).slice().reverse().slice(0, 4),
+    [bonusTiers]
+  );
+  const maxBonusPercent = bonusTiers.reduce((max, tier) => Math.max(max, tier.bonusPercent), 0);
+
+  // 已应用的优惠码：由服务端计算赠送
+  const { data: promoQuote, error: promoError, isFetching: promoChecking } = trpc.promotions.quote.useQuery(
+    { credits, promoCode: appliedPromo ?? undefined },
+    { enabled: !!user && !!appliedPromo && credits >= minRechargeCredits, retry: false, refetchOnWindowFocus: false }
+  );
+
+  useEffect(() => {
+    if (promoError && appliedPromo) {
+      toast.error(promoError.message);
+      setAppliedPromo(null);
+    }
+  }, [promoError, appliedPromo]);
   
   const { data: ordersData, isLoading: ordersLoading, refetch: refetchOrders } = trpc.recharge.history.useQuery(
     { limit: 10 },
@@ -93,9 +98,10 @@ export default function Recharge() {
     const applicableTier = bonusTiers.find((tier: any) => usdtAmount >= tier.minUsdt) || { bonusPercent: 0 };
     const bonusPercent = applicableTier.bonusPercent;
     const bonusCredits = Math.floor(credits * bonusPercent / 100);
-    const totalCredits = credits + bonusCredits;
-    return { bonusPercent, bonusCredits, totalCredits };
-  }, [credits, usdtAmount, bonusTiers]);
+    const promoBonus = appliedPromo && promoQuote?.baseCredits === credits ? promoQuote.promoBonus : 0;
+    const totalCredits = credits + bonusCredits + promoBonus;
+    return { bonusPercent, bonusCredits, promoBonus, totalCredits };
+  }, [credits, usdtAmount, bonusTiers, appliedPromo, promoQuote]);
 
   const handleCreateOrder = useCallback(async () => {
     if (isCreating || createOrderMutation.isPending) {
@@ -111,7 +117,7 @@ export default function Recharge() {
     setCreateError(null);
     
     try {
-      const result = await createOrderMutation.mutateAsync({ credits, network: "TRC20" });
+      const result = await createOrderMutation.mutateAsync({ credits, network: "TRC20", promoCode: appliedPromo ?? undefined });
       
       if (!isMountedRef.current) {
         return;
@@ -136,7 +142,7 @@ export default function Recharge() {
         toast.error(errorMessage);
       }
     }
-  }, [credits, createOrderMutation, isCreating, minRechargeCredits]);
+  }, [credits, createOrderMutation, isCreating, minRechargeCredits, appliedPromo]);
 
   const getStatusBadge = useCallback((status: string) => {
     switch (status) {
@@ -212,14 +218,16 @@ export default function Recharge() {
                 </div>
               </div>
               <div className="grid grid-cols-4 gap-2 text-center">
-                {BONUS_DISPLAY_TIERS.map((tier) => (
-                  <div key={tier.label} className="bg-slate-900/50 rounded-lg p-2">
-                    <p className="text-xs text-slate-400">{tier.label} USDT</p>
-                    <p className="text-lg font-bold text-green-400">+{tier.percent}%</p>
+                {displayTiers.map((tier) => (
+                  <div key={tier.minUsdt} className="bg-slate-900/50 rounded-lg p-2">
+                    <p className="text-xs text-slate-400">{tier.minUsdt}+ USDT</p>
+                    <p className="text-lg font-bold text-green-400">+{tier.bonusPercent}%</p>
                   </div>
                 ))}
               </div>
-              <p className="text-xs text-slate-400 mt-2 text-center">*最高可享15%赠送，详情请查看完整优惠规则</p>
+              {maxBonusPercent > 0 && (
+                <p className="text-xs text-slate-400 mt-2 text-center">*最高可享{maxBonusPercent}%赠送，详情请查看完整优惠规则</p>
+              )}
             </div>
 
             <div className="bg-slate-900/50 backdrop-blur-sm border border-slate-800/50 rounded-2xl p-6">
@@ -229,7 +237,10 @@ export default function Recharge() {
                 </div>
                 <div>
                   <h2 className="text-lg font-semibold text-white">充值积分</h2>
-                  <p className="text-sm text-slate-400">当前余额：{profile?.credits?.toLocaleString() || 0} 积分</p>
+                  <p className="text-sm text-slate-400">
+                    当前余额：{(profile?.personalCredits ?? profile?.credits)?.toLocaleString() || 0} 积分
+                    {profile?.organizationId && `（团队可用 ${profile.credits.toLocaleString()} 积分，充值后可在设置页转入团队积分池）`}
+                  </p>
                 </div>
               </div>
 
@@ -296,6 +307,44 @@ export default function Recharge() {
                 </div>
               </div>
 
+              {/* 优惠码 */}
+              <div className="mb-6">
+                <Label className="text-slate-400 mb-2 block">优惠码</Label>
+                {appliedPromo ? (
+                  <div className="flex items-center justify-between rounded-lg border border-green-500/30 bg-green-500/10 px-4 py-3">
+                    <span className="font-mono text-green-400">{appliedPromo}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAppliedPromo(null)}
+                      className="text-slate-400 hover:text-white"
+                      disabled={isCreating}
+                    >
+                      移除
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="输入优惠码（可选）"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                      maxLength={40}
+                      className="bg-slate-800/50 border-slate-700 text-white font-mono"
+                      disabled={isCreating}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => setAppliedPromo(promoInput.trim())}
+                      disabled={!promoInput.trim() || isCreating}
+                      className="border-slate-700 text-slate-300"
+                    >
+                      应用
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               {/* 费用明细 */}
               <div className="bg-slate-800/30 rounded-xl p-4 space-y-3 mb-6">
                 <div className="flex justify-between text-sm">
@@ -308,6 +357,16 @@ export default function Recharge() {
                     <span className="text-green-400 font-medium">+{bonusInfo.bonusCredits.toLocaleString()}</span>
                   </div>
                 )}
+                {appliedPromo && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">优惠码赠送 <span className="font-mono text-green-400">({appliedPromo})</span></span>
+                    {promoChecking ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                    ) : (
+                      <span className="text-green-400 font-medium">+{bonusInfo.promoBonus.toLocaleString()}</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between text-sm border-t border-slate-700 pt-3">
                   <span className="text-slate-400">实际获得</span>
                   <span className="text-yellow-400 font-bold text-lg">{bonusInfo.totalCredits.toLocaleString()} 积分</span>
@@ -430,6 +489,19 @@ export default function Recharge() {
                         {new Date(order.createdAt).toLocaleString()}
                       </p>
                     </div>
+                    {order.status === "paid" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          downloadBillingDocument("receipts", order.orderId).catch((error: Error) => toast.error(error.message || "下载失败"));
+                        }}
+                        className="text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10"
+                      >
+                        收据
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
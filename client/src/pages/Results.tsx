@@ -2,6 +2,7 @@ import { useEffect, useState, useRef } from "react";
 import { useParams, Link } from "wouter";
 import { useAuth } from "@/_core/hooks/useAuth";
 import DashboardLayout from "@/components/DashboardLayout";
+import ExportDialog from "@/components/ExportDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -123,23 +124,8 @@ export default function Results() {
     { enabled: !!user && !!taskId && (task?.status === "completed" || task?.status === "failed") }
   );
 
-  const exportMutation = trpc.search.exportCsv.useMutation({
-    onSuccess: (data) => {
-      const blob = new Blob([data.content], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      toast.success("导出成功");
-    },
-    onError: (error) => {
-      toast.error(error.message || "导出失败");
-    },
-  });
+  // 导出对话框
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   // 解析任务日志和统计数据
   useEffect(() => {
@@ -364,12 +350,11 @@ export default function Results() {
             )}
             {task.status === "completed" && results && results.length > 0 && (
               <Button
-                onClick={() => exportMutation.mutate({ taskId: taskId || "" })}
-                disabled={exportMutation.isPending}
+                onClick={() => setShowExportDialog(true)}
                 className="bg-gradient-to-r from-cyan-500 to-blue-600"
               >
                 <Download className="mr-2 h-4 w-4" />
-                导出CSV
+                导出
               </Button>
             )}
           </div>
@@ -836,6 +821,13 @@ export default function Results() {
           </div>
         </div>
       </div>
+
+      <ExportDialog
+        source="linkedin"
+        taskId={taskId || ""}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
     </DashboardLayout>
   );
 }
@@ -19,12 +19,13 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
+import { LINKEDIN_COMPANY_SIZES } from "@shared/const";
 import { 
   Search as SearchIcon, Loader2, AlertCircle, Info, Zap, Target, MapPin, 
   Briefcase, User, Sparkles, Users, Calendar, ChevronRight, Coins,
   CheckCircle2, AlertTriangle, Eye, Database, Shield, TrendingUp,
   ArrowRight, RefreshCw, Rocket, ArrowLeft, Clock, History, Star, Home,
-  Phone, Crown, Building, Globe, Linkedin
+  Phone, Crown, Building, Globe, Linkedin, X, Tag, Factory
 } from "lucide-react";
 
 // 七彩鎏金动画样式 - 与其他搜索系统统一
@@ -143,6 +144,80 @@ const US_STATES = [
   "Wisconsin", "Wyoming"
 ];
 
+// 多值条件上限（与服务端校验一致）
+const MAX_TITLES = 10;
+const MAX_TERMS = 10;
+
+/**
+ * 多值输入：回车或逗号添加，点击标签上的 × 删除
+ */
+function TermListInput({
+  id,
+  values,
+  onChange,
+  draft,
+  onDraftChange,
+  placeholder,
+  max,
+}: {
+  id: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  draft: string;
+  onDraftChange: (value: string) => void;
+  placeholder: string;
+  max: number;
+}) {
+  const commit = () => {
+    const terms = draft.split(",").map(t => t.trim()).filter(Boolean);
+    if (terms.length === 0) return;
+    const next = Array.from(new Set([...values, ...terms]));
+    if (next.length > max) {
+      toast.error(`最多 ${max} 个`);
+      return;
+    }
+    onChange(next);
+    onDraftChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        placeholder={placeholder}
+        value={draft}
+        onChange={(e) => onDraftChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            commit();
+          } else if (e.key === "Backspace" && !draft && values.length > 0) {
+            onChange(values.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        className="h-12 bg-slate-800/50 border-slate-700 focus:border-blue-500 text-white placeholder:text-slate-500 rounded-xl"
+      />
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {values.map((value) => (
+            <Badge key={value} className="bg-blue-500/20 text-blue-300 border-blue-500/30 gap-1">
+              {value}
+              <button type="button" onClick={() => onChange(values.filter(v => v !== value))}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 输入框中尚未回车确认的内容也计入
+const withDraft = (values: string[], draft: string) =>
+  Array.from(new Set([...values, ...draft.split(",").map(t => t.trim()).filter(Boolean)]));
+
 // 搜索数量选项
 const SEARCH_LIMITS = [
   { value: 100, label: "100 条", description: "快速测试", recommended: true },
@@ -171,8 +246,14 @@ export default function Search() {
   
   // 搜索条件
   const [name, setName] = useState("");
-  const [title, setTitle] = useState("");
-  const [state, setState] = useState("");
+  const [titles, setTitles] = useState<string[]>([]);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [states, setStates] = useState<string[]>([]);
+  const [industries, setIndustries] = useState<string[]>([]);
+  const [industryDraft, setIndustryDraft] = useState("");
+  const [companySizes, setCompanySizes] = useState<string[]>([]);
+  const [keywords, setKeywords] = useState<string[]>([]);
+  const [keywordDraft, setKeywordDraft] = useState("");
   const [searchLimit, setSearchLimit] = useState(100);
   const [customLimit, setCustomLimit] = useState("");
   
@@ -307,19 +388,29 @@ export default function Search() {
     };
   }, [searchLimit, profile?.credits, searchMode, FUZZY_SEARCH_COST, FUZZY_PHONE_COST_PER_PERSON, EXACT_SEARCH_COST, EXACT_PHONE_COST_PER_PERSON]);
 
+  // 提交的搜索条件
+  const allTitles = withDraft(titles, titleDraft);
+  const buildCriteria = () => ({
+    name: name.trim(),
+    titles: allTitles.slice(0, MAX_TITLES),
+    states,
+    industries: withDraft(industries, industryDraft).slice(0, MAX_TERMS),
+    // 精准搜索不支持公司规模筛选
+    companySizes: searchMode === 'fuzzy' ? (companySizes as (typeof LINKEDIN_COMPANY_SIZES)[number][]) : [],
+    keywords: withDraft(keywords, keywordDraft).slice(0, MAX_TERMS),
+  });
+
   // 预览搜索
   const handlePreview = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!name.trim() || !title.trim() || !state) {
+    if (!name.trim() || allTitles.length === 0 || states.length === 0) {
       toast.error("请填写所有必填字段");
       return;
     }
 
     previewMutation.mutate({ 
-      name: name.trim(), 
-      title: title.trim(), 
-      state,
+      ...buildCriteria(),
       limit: searchLimit,
       ageMin: enableAgeFilter ? ageRange[0] : undefined,
       ageMax: enableAgeFilter ? ageRange[1] : undefined,
@@ -331,7 +422,7 @@ export default function Search() {
   const handleDirectSearch = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!name.trim() || !title.trim() || !state) {
+    if (!name.trim() || allTitles.length === 0 || states.length === 0) {
       toast.error("请填写所有必填字段");
       return;
     }
@@ -353,9 +444,7 @@ export default function Search() {
     
     // 开始搜索
     searchMutation.mutate({ 
-      name: name.trim(), 
-      title: title.trim(), 
-      state,
+      ...buildCriteria(),
       limit: previewResult ? Math.min(searchLimit, previewResult.totalAvailable) : searchLimit,
       ageMin: enableAgeFilter ? ageRange[0] : undefined,
       ageMax: enableAgeFilter ? ageRange[1] : undefined,
@@ -576,14 +665,16 @@ export default function Search() {
                   <Label htmlFor="title" className="text-slate-300 flex items-center gap-2">
                     <Briefcase className="h-4 w-4 text-slate-500" />
                     职位/工作 <span className="text-red-400">*</span>
+                    <span className="text-xs text-slate-500">可输入多个，回车或逗号分隔</span>
                   </Label>
-                  <Input
+                  <TermListInput
                     id="title"
                     placeholder="例如：CEO, Software Engineer, Marketing Manager"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    className="h-12 bg-slate-800/50 border-slate-700 focus:border-blue-500 text-white placeholder:text-slate-500 rounded-xl"
-                    required
+                    values={titles}
+                    onChange={setTitles}
+                    draft={titleDraft}
+                    onDraftChange={setTitleDraft}
+                    max={MAX_TITLES}
                   />
                 </div>
 
@@ -591,19 +682,32 @@ export default function Search() {
                   <Label htmlFor="state" className="text-slate-300 flex items-center gap-2">
                     <MapPin className="h-4 w-4 text-slate-500" />
                     州 <span className="text-red-400">*</span>
+                    <span className="text-xs text-slate-500">可选择多个</span>
                   </Label>
-                  <Select value={state} onValueChange={setState} required>
-                    <SelectTrigger className="h-12 bg-slate-800/50 border-slate-700 text-white rounded-xl">
-                      <SelectValue placeholder="选择州" />
+                  <Select value="" onValueChange={(value) => setStates(prev => prev.includes(value) ? prev : [...prev, value])}>
+                    <SelectTrigger id="state" className="h-12 bg-slate-800/50 border-slate-700 text-white rounded-xl">
+                      <SelectValue placeholder={states.length > 0 ? `已选择 ${states.length} 个州，继续添加` : "选择州"} />
                     </SelectTrigger>
                     <SelectContent className="bg-slate-800 border-slate-700">
-                      {US_STATES.map((s) => (
+                      {US_STATES.filter((s) => !states.includes(s)).map((s) => (
                         <SelectItem key={s} value={s} className="text-white hover:bg-slate-700">
                           {s}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {states.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {states.map((s) => (
+                        <Badge key={s} className="bg-blue-500/20 text-blue-300 border-blue-500/30 gap-1">
+                          {s}
+                          <button type="button" onClick={() => setStates(states.filter(v => v !== s))}>
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -627,6 +731,69 @@ export default function Search() {
               </CardHeader>
               {showAdvanced && (
                 <CardContent className="space-y-6">
+                  {/* 行业 */}
+                  <div className="space-y-2">
+                    <Label htmlFor="industry" className="text-slate-300 flex items-center gap-2">
+                      <Factory className="h-4 w-4 text-cyan-400" />
+                      行业
+                    </Label>
+                    <TermListInput
+                      id="industry"
+                      placeholder="例如：Real Estate, Financial Services"
+                      values={industries}
+                      onChange={setIndustries}
+                      draft={industryDraft}
+                      onDraftChange={setIndustryDraft}
+                      max={MAX_TERMS}
+                    />
+                  </div>
+
+                  {/* 公司规模 */}
+                  <div className="space-y-2">
+                    <Label className="text-slate-300 flex items-center gap-2">
+                      <Building className="h-4 w-4 text-amber-400" />
+                      公司规模（员工人数）
+                    </Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {LINKEDIN_COMPANY_SIZES.map((size) => (
+                        <Button
+                          key={size}
+                          type="button"
+                          variant="outline"
+                          disabled={searchMode === 'exact'}
+                          className={companySizes.includes(size)
+                            ? "bg-amber-500/20 border-amber-500 text-amber-400"
+                            : "border-slate-700 hover:border-amber-500/50"}
+                          onClick={() => setCompanySizes(prev =>
+                            prev.includes(size) ? prev.filter(v => v !== size) : [...prev, size]
+                          )}
+                        >
+                          {size}
+                        </Button>
+                      ))}
+                    </div>
+                    {searchMode === 'exact' && (
+                      <p className="text-xs text-slate-500">精准搜索不支持按公司规模筛选</p>
+                    )}
+                  </div>
+
+                  {/* 关键词 */}
+                  <div className="space-y-2">
+                    <Label htmlFor="keywords" className="text-slate-300 flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-purple-400" />
+                      公司关键词
+                    </Label>
+                    <TermListInput
+                      id="keywords"
+                      placeholder="匹配公司名称或简介，例如：SaaS, Insurance"
+                      values={keywords}
+                      onChange={setKeywords}
+                      draft={keywordDraft}
+                      onDraftChange={setKeywordDraft}
+                      max={MAX_TERMS}
+                    />
+                  </div>
+
                   {/* 搜索数量 */}
                   <div className="space-y-3">
                     <Label className="text-slate-300">搜索数量</Label>
@@ -796,7 +963,7 @@ export default function Search() {
                   <Button
                     variant="outline"
                     onClick={handlePreview}
-                    disabled={previewMutation.isPending || !name || !title || !state}
+                    disabled={previewMutation.isPending || !name || allTitles.length === 0 || states.length === 0}
                     className="flex-1 border-slate-700 hover:border-blue-500/50"
                   >
                     {previewMutation.isPending ? (
@@ -808,7 +975,7 @@ export default function Search() {
                   </Button>
                   <Button
                     onClick={handleDirectSearch}
-                    disabled={searchMutation.isPending || !name || !title || !state || !creditEstimate.canAfford}
+                    disabled={searchMutation.isPending || !name || allTitles.length === 0 || states.length === 0 || !creditEstimate.canAfford}
                     className="flex-1 rainbow-btn text-white font-bold"
                   >
                     {searchMutation.isPending ? (
@@ -1158,14 +1325,22 @@ export default function Search() {
                 <span className="text-slate-400">关键词</span>
                 <span className="text-white">{name}</span>
               </div>
-              <div className="flex justify-between">
+              <div className="flex justify-between gap-4">
                 <span className="text-slate-400">职位</span>
-                <span className="text-white">{title}</span>
+                <span className="text-white text-right">{allTitles.join(", ")}</span>
               </div>
-              <div className="flex justify-between">
+              <div className="flex justify-between gap-4">
                 <span className="text-slate-400">地区</span>
-                <span className="text-white">{state}</span>
+                <span className="text-white text-right">{states.join(", ")}</span>
               </div>
+              {(industries.length > 0 || companySizes.length > 0 || keywords.length > 0) && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-slate-400">筛选</span>
+                  <span className="text-white text-right">
+                    {[...industries, ...(searchMode === 'fuzzy' ? companySizes : []), ...keywords].join(", ")}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-slate-400">数量</span>
                 <span className="text-white">{searchLimit} 条</span>
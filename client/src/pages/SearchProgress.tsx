@@ -7,6 +7,7 @@ import { useEffect, useState, useRef, useMemo } from "react";
 import { useParams, Link, useLocation } from "wouter";
 import { useAuth } from "@/_core/hooks/useAuth";
 import DashboardLayout from "@/components/DashboardLayout";
+import ExportDialog from "@/components/ExportDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -22,11 +23,11 @@ import {
   ArrowLeft, Download, RefreshCw, CheckCircle, XCircle, 
   Clock, Phone, User, MapPin, Briefcase, Building, Mail,
   Zap, Target, Activity, TrendingUp, AlertTriangle, Filter,
-  Copy, ExternalLink, Trash2, CheckCircle2, Loader2, Coins,
+  Copy, ExternalLink, Trash2, Loader2, Coins,
   BarChart3, Users, PhoneCall, ShieldCheck, Ban, StopCircle,
   Play, Pause, Search, Database, Shield, FileDown, Eye,
   ChevronRight, Sparkles, Globe, Linkedin, ChevronDown,
-  FileText, FileSpreadsheet, Terminal, Info
+  FileText, Terminal, Info
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ParticleNetwork } from "@/components/ParticleNetwork";
@@ -136,10 +137,6 @@ const SEARCH_PHASES = [
 ];
 
 // CSV 导出格式选项
-const CSV_FORMATS = [
-  { value: 'standard', label: '标准版', description: '常用字段（含公司、邮箱）', icon: FileSpreadsheet },
-];
-
 export default function SearchProgress() {
   const { taskId } = useParams<{ taskId: string }>();
   const { user } = useAuth();
@@ -148,7 +145,6 @@ export default function SearchProgress() {
   const [activeTab, setActiveTab] = useState("progress");
   const [showStopDialog, setShowStopDialog] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
-  const [selectedExportFormat, setSelectedExportFormat] = useState<string>('standard');
   const [autoScroll, setAutoScroll] = useState(true);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const logsContainerRef = useRef<HTMLDivElement>(null);
@@ -195,26 +191,6 @@ export default function SearchProgress() {
     },
   });
 
-  // 导出CSV
-  const exportMutation = trpc.search.exportCsv.useMutation({
-    onSuccess: (data) => {
-      const blob = new Blob([data.content], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      toast.success("导出成功");
-      setShowExportDialog(false);
-    },
-    onError: (error) => {
-      toast.error(error.message || "导出失败");
-    },
-  });
-
   // 解析任务日志
   useEffect(() => {
     if (task?.logs) {
@@ -525,13 +501,6 @@ export default function SearchProgress() {
     }
   };
 
-  const handleExport = () => {
-    exportMutation.mutate({ 
-      taskId: taskId || "",
-      format: selectedExportFormat as 'minimal' | 'standard' | 'detailed'
-    });
-  };
-
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast.success("已复制到剪贴板");
@@ -637,7 +606,7 @@ export default function SearchProgress() {
                 className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700"
               >
                 <Download className="h-4 w-4 mr-2" />
-                导出 CSV
+                导出
               </Button>
             )}
           </div>
@@ -1279,75 +1248,13 @@ export default function SearchProgress() {
         </DialogContent>
       </Dialog>
 
-      {/* CSV 导出对话框 */}
-      <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
-        <DialogContent className="bg-slate-900 border-slate-700 max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-white flex items-center gap-2">
-              <Download className="h-5 w-5 text-cyan-400" />
-              导出 CSV
-            </DialogTitle>
-            <DialogDescription className="text-slate-400">
-              选择导出格式
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="py-4 space-y-3">
-            {CSV_FORMATS.map((format) => {
-              const FormatIcon = format.icon;
-              return (
-                <button
-                  key={format.value}
-                  onClick={() => setSelectedExportFormat(format.value)}
-                  className={`w-full p-4 rounded-xl border transition-all text-left ${
-                    selectedExportFormat === format.value
-                      ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
-                      : 'bg-slate-800/50 border-slate-700 text-slate-400 hover:border-slate-600'
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <FormatIcon className="h-5 w-5" />
-                    <div>
-                      <div className="font-medium text-white">{format.label}</div>
-                      <div className="text-sm opacity-70">{format.description}</div>
-                    </div>
-                    {selectedExportFormat === format.value && (
-                      <CheckCircle2 className="h-5 w-5 ml-auto text-cyan-400" />
-                    )}
-                  </div>
-                </button>
-              );
-            })}
-          </div>
-
-          <DialogFooter className="gap-2">
-            <Button
-              variant="outline"
-              onClick={() => setShowExportDialog(false)}
-              className="border-slate-700 text-slate-400 hover:bg-slate-800"
-            >
-              取消
-            </Button>
-            <Button
-              onClick={handleExport}
-              disabled={exportMutation.isPending}
-              className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700"
-            >
-              {exportMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  导出中...
-                </>
-              ) : (
-                <>
-                  <Download className="mr-2 h-4 w-4" />
-                  导出 CSV
-                </>
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* 导出对话框 */}
+      <ExportDialog
+        source="linkedin"
+        taskId={taskId || ""}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
     </DashboardLayout>
   );
 }
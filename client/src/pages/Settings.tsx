@@ -8,6 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useAuth } from "@/_core/hooks/useAuth";
+import ApiKeysCard from "@/components/ApiKeysCard";
+import WebhooksCard from "@/components/WebhooksCard";
+import TeamCard from "@/components/TeamCard";
+import SessionsCard from "@/components/SessionsCard";
+import TwoFactorCard from "@/components/TwoFactorCard";
+import BillingCard from "@/components/BillingCard";
 import {
   Settings, Lock, Eye, EyeOff, CheckCircle, Shield, User, Mail, Calendar, Coins, Loader2, ArrowLeft, KeyRound, AlertCircle, XCircle
 } from "lucide-react";
@@ -24,6 +30,10 @@ export default function SettingsPage() {
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [passwordChanged, setPasswordChanged] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
+  const { data: twoFactorStatus } = trpc.twoFactor.status.useQuery();
+  const twoFactorEnabled = !!twoFactorStatus?.enabled;
 
   // 内联消息状态
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
@@ -34,6 +44,7 @@ export default function SettingsPage() {
       setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
+      setTwoFactorCode("");
       setMessage({ type: "success", text: "密码修改成功！下次登录请使用新密码。" });
       try { toast.success("密码修改成功"); } catch (_) {}
     },
@@ -63,10 +74,15 @@ export default function SettingsPage() {
       setMessage({ type: "error", text: "新密码不能与当前密码相同" });
       return;
     }
+    if (twoFactorEnabled && !twoFactorCode.trim()) {
+      setMessage({ type: "error", text: "请输入两步验证码" });
+      return;
+    }
 
     changePasswordMutation.mutate({
       currentPassword,
       newPassword,
+      twoFactorCode: twoFactorEnabled ? twoFactorCode.trim() : undefined,
     });
   };
 
@@ -289,6 +305,27 @@ export default function SettingsPage() {
                   )}
                 </div>
 
+                {/* 两步验证码 */}
+                {twoFactorEnabled && (
+                  <div className="space-y-2">
+                    <Label htmlFor="passwordTwoFactorCode" className="text-slate-300">
+                      两步验证码
+                    </Label>
+                    <div className="relative">
+                      <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                      <Input
+                        id="passwordTwoFactorCode"
+                        autoComplete="one-time-code"
+                        placeholder="验证器上的 6 位验证码或备用恢复码"
+                        value={twoFactorCode}
+                        maxLength={20}
+                        onChange={(e) => { setTwoFactorCode(e.target.value); setMessage(null); }}
+                        className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500 focus:border-cyan-500 focus:ring-cyan-500/20 font-mono"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* 密码安全提示 */}
                 <div className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/30">
                   <div className="flex items-start gap-2">
@@ -327,6 +364,24 @@ export default function SettingsPage() {
             )}
           </CardContent>
         </Card>
+
+        {/* 两步验证卡片 */}
+        <TwoFactorCard />
+
+        {/* 登录设备卡片 */}
+        <SessionsCard />
+
+        {/* 账单与收据卡片 */}
+        <BillingCard />
+
+        {/* 团队空间卡片 */}
+        <TeamCard />
+
+        {/* API 密钥卡片 */}
+        <ApiKeysCard />
+
+        {/* Webhook 卡片 */}
+        <WebhooksCard />
       </div>
     </DashboardLayout>
   );
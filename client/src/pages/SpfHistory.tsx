@@ -221,7 +221,7 @@ export default function SpfHistory() {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className="text-xs border-pink-500/50 text-pink-400">
-                            {task.mode === "nameOnly" ? "仅姓名" : "姓名+地点"}
+                            {task.mode === "nameOnly" ? "仅姓名" : task.mode === "pairs" ? "配对搜索" : "姓名+地点"}
                           </Badge>
                         </TableCell>
                         <TableCell>
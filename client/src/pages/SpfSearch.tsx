@@ -15,6 +15,7 @@ import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { BulkUploadPanel, BulkSearchRow } from "@/components/BulkUploadPanel";
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
@@ -40,7 +41,8 @@ import {
   Heart,
   Briefcase,
   Calendar,
-  Shield
+  Shield,
+  FileSpreadsheet
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -135,12 +137,15 @@ export default function SpfSearch() {
   const [, setLocation] = useLocation();
   
   // 搜索模式
-  const [mode, setMode] = useState<"nameOnly" | "nameLocation">("nameOnly");
+  const [mode, setMode] = useState<"nameOnly" | "nameLocation" | "pairs">("nameOnly");
   
   // 输入
   const [namesInput, setNamesInput] = useState("");
   const [locationsInput, setLocationsInput] = useState("");
   
+  // 批量上传（每行一组姓名 + 地点，以 pairs 模式提交）
+  const [bulkRows, setBulkRows] = useState<BulkSearchRow[]>([]);
+  
   // 过滤条件
   const [filters, setFilters] = useState({
     minAge: 50,
@@ -195,6 +200,16 @@ export default function SpfSearch() {
     : names.length * Math.max(locations.length, 1);
   const estimatedCost = estimatedSearches * (searchCost + detailCost);
   
+  // 批量上传的预估消耗（服务端按配对计算，名单较大时用 POST 查询）
+  const { data: bulkEstimate, isFetching: bulkEstimating } = trpc.spf.estimateCost.useQuery({
+    pairs: bulkRows,
+    mode: "pairs",
+    filters,
+  }, {
+    enabled: mode === "pairs" && bulkRows.length > 0,
+    trpc: { context: { largeInput: true } },
+  });
+  
   // 搜索 mutation
   const searchMutation = trpc.spf.search.useMutation({
     onSuccess: (data) => {
@@ -208,6 +223,27 @@ export default function SpfSearch() {
   
   // 提交搜索
   const handleSearch = () => {
+    // 构建过滤器
+    const effectiveFilters = {
+      ...filters,
+      minAge: enableAgeFilter ? filters.minAge : undefined,
+      maxAge: enableAgeFilter ? filters.maxAge : undefined,
+    };
+    
+    // 批量上传：实时扣分，积分用完即停，不按预估拦截
+    if (mode === "pairs") {
+      if (bulkRows.length === 0) {
+        toast.error("请先上传名单并选择姓名列");
+        return;
+      }
+      searchMutation.mutate({
+        pairs: bulkRows,
+        mode,
+        filters: effectiveFilters,
+      });
+      return;
+    }
+    
     if (names.length === 0) {
       toast.error("请输入至少一个姓名");
       return;
@@ -218,13 +254,6 @@ export default function SpfSearch() {
       return;
     }
     
-    // 构建过滤器
-    const effectiveFilters = {
-      ...filters,
-      minAge: enableAgeFilter ? filters.minAge : undefined,
-      maxAge: enableAgeFilter ? filters.maxAge : undefined,
-    };
-    
     searchMutation.mutate({
       names,
       locations: mode === "nameLocation" ? locations : [],
@@ -331,12 +360,12 @@ export default function SpfSearch() {
                   搜索模式
                 </CardTitle>
                 <CardDescription>
-                  选择搜索方式：仅姓名搜索或姓名+地点组合搜索
+                  选择搜索方式：仅姓名搜索、姓名+地点组合搜索，或上传名单逐行搜索
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Tabs value={mode} onValueChange={(v) => setMode(v as "nameOnly" | "nameLocation")}>
-                  <TabsList className="grid w-full grid-cols-2">
+                <Tabs value={mode} onValueChange={(v) => setMode(v as "nameOnly" | "nameLocation" | "pairs")}>
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="nameOnly" className="flex items-center gap-2">
                       <Users className="h-4 w-4" />
                       仅姓名搜索
@@ -345,6 +374,10 @@ export default function SpfSearch() {
                       <MapPin className="h-4 w-4" />
                       姓名 + 地点
                     </TabsTrigger>
+                    <TabsTrigger value="pairs" className="flex items-center gap-2">
+                      <FileSpreadsheet className="h-4 w-4" />
+                      批量上传
+                    </TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="nameOnly" className="mt-4 space-y-4">
@@ -399,6 +432,15 @@ export default function SpfSearch() {
                       </p>
                     </div>
                   </TabsContent>
+                  
+                  <TabsContent value="pairs" className="mt-4">
+                    <BulkUploadPanel
+                      onRowsChange={setBulkRows}
+                      estimate={bulkEstimate}
+                      estimating={bulkEstimating}
+                      credits={profile?.credits}
+                    />
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
@@ -605,7 +647,7 @@ export default function SpfSearch() {
             {/* 提交按钮 */}
             <Button
               onClick={handleSearch}
-              disabled={searchMutation.isPending || names.length === 0}
+              disabled={searchMutation.isPending || (mode === "pairs" ? bulkRows.length === 0 : names.length === 0)}
               className="w-full h-14 text-lg font-bold rainbow-btn text-white shadow-lg"
             >
               {searchMutation.isPending ? (
@@ -6,6 +6,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useLocation, useParams } from "wouter";
 import { trpc } from "@/lib/trpc";
 import DashboardLayout from "@/components/DashboardLayout";
+import ExportDialog from "@/components/ExportDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -51,6 +52,8 @@ import {
   AlertCircle,
   Info,
   DollarSign,
+  Square,
+  Play,
 } from "lucide-react";
 
 // 七彩鎏金动画样式
@@ -180,10 +183,13 @@ export default function SpfTask() {
     }
   );
   
+  // 已结束且可能有结果（含用户停止的任务）
+  const hasResults = task?.status === "completed" || task?.status === "insufficient_credits" || task?.status === "cancelled";
+  
   // 获取搜索结果
   const { data: results, refetch: refetchResults } = trpc.spf.getResults.useQuery(
     { taskId: taskId!, page, pageSize },
-    { enabled: !!taskId && (task?.status === "completed" || task?.status === "insufficient_credits") }
+    { enabled: !!taskId && hasResults }
   );
   
   // WebSocket 实时订阅：收到推送时立即刷新数据
@@ -257,29 +263,30 @@ export default function SpfTask() {
     }
   };
   
-  // 导出 CSV
-  const [isExporting, setIsExporting] = useState(false);
-  const utils = trpc.useUtils();
+  // 停止任务（已获取的结果保留并可导出）
+  const stopMutation = trpc.spf.stopTask.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchTask();
+    },
+    onError: (error: any) => {
+      toast.error("停止失败", { description: error.message });
+    },
+  });
   
-  const handleExport = async () => {
-    if (!taskId) return;
-    setIsExporting(true);
-    try {
-      const data = await utils.spf.exportCsv.fetch({ taskId });
-      const blob = new Blob([data.content], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.fileName;
-      link.click();
-      URL.revokeObjectURL(url);
-      toast.success("导出成功");
-    } catch (error: any) {
-      toast.error("导出失败", { description: error.message });
-    } finally {
-      setIsExporting(false);
-    }
-  };
+  // 继续任务（只执行未完成的子任务，只对新增请求扣费）
+  const resumeMutation = trpc.spf.resumeTask.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message, { description: `剩余 ${data.remainingSubTasks} 个子任务` });
+      refetchTask();
+    },
+    onError: (error: any) => {
+      toast.error("继续失败", { description: error.message });
+    },
+  });
+  
+  // 导出对话框
+  const [showExportDialog, setShowExportDialog] = useState(false);
   
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -341,19 +348,41 @@ export default function SpfTask() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {(task?.status === "completed" || task?.status === "insufficient_credits") && (
+            {(task?.status === "failed" || task?.status === "insufficient_credits") && (
               <Button
-                variant="outline"
-                onClick={handleExport}
-                disabled={isExporting}
-                className="rainbow-border"
+                onClick={() => resumeMutation.mutate({ taskId: taskId! })}
+                disabled={resumeMutation.isPending}
               >
-                {isExporting ? (
+                {resumeMutation.isPending ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
-                  <Download className="h-4 w-4 mr-2" />
+                  <Play className="h-4 w-4 mr-2" />
                 )}
-                导出 CSV
+                继续任务
+              </Button>
+            )}
+            {(task?.status === "running" || task?.status === "pending") && (
+              <Button
+                variant="destructive"
+                onClick={() => stopMutation.mutate({ taskId: taskId! })}
+                disabled={stopMutation.isPending}
+              >
+                {stopMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Square className="h-4 w-4 mr-2" />
+                )}
+                停止任务
+              </Button>
+            )}
+            {hasResults && (
+              <Button
+                variant="outline"
+                onClick={() => setShowExportDialog(true)}
+                className="rainbow-border"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                导出
               </Button>
             )}
             <Button
@@ -442,7 +471,7 @@ export default function SpfTask() {
         </div>
         
         {/* 搜索结果表格 */}
-        {(task?.status === "completed" || task?.status === "insufficient_credits") && results && results.results.length > 0 && (
+        {hasResults && results && results.results.length > 0 && (
           <Card className="rainbow-border">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -705,6 +734,13 @@ export default function SpfTask() {
           </Card>
         )}
       </div>
+
+      <ExportDialog
+        source="spf"
+        taskId={taskId!}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
     </DashboardLayout>
   );
 }
@@ -225,7 +225,7 @@ export default function TpsHistory() {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className="text-xs border-amber-500/50 text-amber-400">
-                            {task.mode === "nameOnly" ? "仅姓名" : "姓名+地点"}
+                            {task.mode === "nameOnly" ? "仅姓名" : task.mode === "pairs" ? "配对搜索" : "姓名+地点"}
                           </Badge>
                         </TableCell>
                         <TableCell>
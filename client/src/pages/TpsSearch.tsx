@@ -15,6 +15,7 @@ import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { BulkUploadPanel, BulkSearchRow } from "@/components/BulkUploadPanel";
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
@@ -38,7 +39,8 @@ import {
   TrendingUp,
   Building,
   Calendar,
-  Shield
+  Shield,
+  FileSpreadsheet
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -133,12 +135,15 @@ export default function TpsSearch() {
   const [, setLocation] = useLocation();
   
   // 搜索模式
-  const [mode, setMode] = useState<"nameOnly" | "nameLocation">("nameOnly");
+  const [mode, setMode] = useState<"nameOnly" | "nameLocation" | "pairs">("nameOnly");
   
   // 输入
   const [namesInput, setNamesInput] = useState("");
   const [locationsInput, setLocationsInput] = useState("");
   
+  // 批量上传（每行一组姓名 + 地点，以 pairs 模式提交）
+  const [bulkRows, setBulkRows] = useState<BulkSearchRow[]>([]);
+  
   // 过滤条件 - 默认值会从后端配置获取
   const [filters, setFilters] = useState({
     minAge: 50,
@@ -193,6 +198,16 @@ export default function TpsSearch() {
   const estimatedDetailPageCost = MAX_PREDEDUCT_DETAIL_PAGES * detailCost;
   const estimatedCost = estimatedSearchPageCost + estimatedDetailPageCost;
   
+  // 批量上传的预估消耗（服务端按配对计算，名单较大时用 POST 查询）
+  const { data: bulkEstimate, isFetching: bulkEstimating } = trpc.tps.estimateCost.useQuery({
+    pairs: bulkRows,
+    mode: "pairs",
+    filters,
+  }, {
+    enabled: mode === "pairs" && bulkRows.length > 0,
+    trpc: { context: { largeInput: true } },
+  });
+  
   // 提交搜索
   const searchMutation = trpc.tps.search.useMutation({
     onSuccess: (data) => {
@@ -209,6 +224,20 @@ export default function TpsSearch() {
   });
   
   const handleSearch = () => {
+    // 批量上传：实时扣分，积分用完即停，不按预估拦截
+    if (mode === "pairs") {
+      if (bulkRows.length === 0) {
+        toast.error("请先上传名单并选择姓名列");
+        return;
+      }
+      searchMutation.mutate({
+        pairs: bulkRows,
+        mode,
+        filters: filters,
+      });
+      return;
+    }
+    
     if (names.length === 0) {
       toast.error("请输入至少一个姓名");
       return;
@@ -333,12 +362,12 @@ export default function TpsSearch() {
                   搜索模式
                 </CardTitle>
                 <CardDescription>
-                  选择搜索方式：仅姓名搜索或姓名+地点组合搜索
+                  选择搜索方式：仅姓名搜索、姓名+地点组合搜索，或上传名单逐行搜索
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Tabs value={mode} onValueChange={(v) => setMode(v as "nameOnly" | "nameLocation")}>
-                  <TabsList className="grid w-full grid-cols-2">
+                <Tabs value={mode} onValueChange={(v) => setMode(v as "nameOnly" | "nameLocation" | "pairs")}>
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="nameOnly" className="flex items-center gap-2">
                       <Users className="h-4 w-4" />
                       仅姓名搜索
@@ -347,6 +376,10 @@ export default function TpsSearch() {
                       <MapPin className="h-4 w-4" />
                       姓名 + 地点
                     </TabsTrigger>
+                    <TabsTrigger value="pairs" className="flex items-center gap-2">
+                      <FileSpreadsheet className="h-4 w-4" />
+                      批量上传
+                    </TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="nameOnly" className="mt-4 space-y-4">
@@ -401,6 +434,15 @@ export default function TpsSearch() {
                       </p>
                     </div>
                   </TabsContent>
+                  
+                  <TabsContent value="pairs" className="mt-4">
+                    <BulkUploadPanel
+                      onRowsChange={setBulkRows}
+                      estimate={bulkEstimate}
+                      estimating={bulkEstimating}
+                      credits={profile?.credits}
+                    />
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
@@ -607,7 +649,7 @@ export default function TpsSearch() {
             {/* 提交按钮 - 金色渐变 */}
             <Button
               onClick={handleSearch}
-              disabled={searchMutation.isPending || names.length === 0}
+              disabled={searchMutation.isPending || (mode === "pairs" ? bulkRows.length === 0 : names.length === 0)}
               className="w-full h-14 text-lg font-bold rainbow-btn text-white shadow-lg"
             >
               {searchMutation.isPending ? (
@@ -7,6 +7,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useLocation, useParams } from "wouter";
 import { trpc } from "@/lib/trpc";
 import DashboardLayout from "@/components/DashboardLayout";
+import ExportDialog from "@/components/ExportDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -49,6 +50,8 @@ import {
   AlertCircle,
   Info,
   DollarSign,
+  Square,
+  Play,
 } from "lucide-react";
 
 // 七彩鎏金动画样式
@@ -178,10 +181,13 @@ export default function TpsTask() {
     }
   );
   
+  // 已结束且可能有结果（含用户停止的任务）
+  const hasResults = task?.status === "completed" || task?.status === "insufficient_credits" || task?.status === "cancelled";
+  
   // 获取搜索结果
   const { data: results, refetch: refetchResults } = trpc.tps.getTaskResults.useQuery(
     { taskId: taskId!, page, pageSize },
-    { enabled: !!taskId && (task?.status === "completed" || task?.status === "insufficient_credits") }
+    { enabled: !!taskId && hasResults }
   );
   
   // v7.0: 任务阶段状态（通过WS实时更新）
@@ -268,23 +274,31 @@ export default function TpsTask() {
     }
   };
   
-  // 导出 CSV
-  const exportMutation = trpc.tps.exportResults.useMutation({
+  // 停止任务（已获取的结果保留并可导出）
+  const stopMutation = trpc.tps.stopTask.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchTask();
+    },
+    onError: (error: any) => {
+      toast.error("停止失败", { description: error.message });
+    },
+  });
+  
+  // 继续任务（只执行未完成的子任务，只对新增请求扣费）
+  const resumeMutation = trpc.tps.resumeTask.useMutation({
     onSuccess: (data) => {
-      const blob = new Blob([data.csv], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = data.filename;
-      link.click();
-      URL.revokeObjectURL(url);
-      toast.success("导出成功");
+      toast.success(data.message, { description: `剩余 ${data.remainingSubTasks} 个子任务` });
+      refetchTask();
     },
     onError: (error: any) => {
-      toast.error("导出失败", { description: error.message });
+      toast.error("继续失败", { description: error.message });
     },
   });
   
+  // 导出对话框
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "pending":
@@ -345,19 +359,41 @@ export default function TpsTask() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {(task?.status === "completed" || task?.status === "insufficient_credits") && (
+            {(task?.status === "failed" || task?.status === "insufficient_credits") && (
               <Button
-                variant="outline"
-                onClick={() => exportMutation.mutate({ taskId: taskId! })}
-                disabled={exportMutation.isPending}
-                className="rainbow-border"
+                onClick={() => resumeMutation.mutate({ taskId: taskId! })}
+                disabled={resumeMutation.isPending}
+              >
+                {resumeMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                继续任务
+              </Button>
+            )}
+            {(task?.status === "running" || task?.status === "pending") && (
+              <Button
+                variant="destructive"
+                onClick={() => stopMutation.mutate({ taskId: taskId! })}
+                disabled={stopMutation.isPending}
               >
-                {exportMutation.isPending ? (
+                {stopMutation.isPending ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
-                  <Download className="h-4 w-4 mr-2" />
+                  <Square className="h-4 w-4 mr-2" />
                 )}
-                导出 CSV
+                停止任务
+              </Button>
+            )}
+            {hasResults && (
+              <Button
+                variant="outline"
+                onClick={() => setShowExportDialog(true)}
+                className="rainbow-border"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                导出
               </Button>
             )}
             <Button
@@ -623,7 +659,7 @@ export default function TpsTask() {
         )}
         
         {/* 搜索结果表格 */}
-        {task?.status === "completed" && results && results.results.length > 0 && (
+        {hasResults && results && results.results.length > 0 && (
           <Card className="rainbow-border">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -765,6 +801,13 @@ export default function TpsTask() {
           </Card>
         )}
       </div>
+
+      <ExportDialog
+        source="tps"
+        taskId={taskId!}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
     </DashboardLayout>
   );
 }
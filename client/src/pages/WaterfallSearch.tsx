@@ -0,0 +1,320 @@
+/**
+ * 瀑布式搜索页面
+ * 同一份名单按优先级依次查询多个数据源，未命中的姓名自动进入下一个数据源
+ */
+
+import { useAuth } from "@/_core/hooks/useAuth";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import {
+  Search,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  Layers,
+  DollarSign,
+  History,
+  ChevronRight,
+} from "lucide-react";
+
+type Source = "tps" | "spf" | "anywho";
+
+export default function WaterfallSearch() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const [mode, setMode] = useState<"nameOnly" | "nameLocation">("nameOnly");
+  const [namesInput, setNamesInput] = useState("");
+  const [locationsInput, setLocationsInput] = useState("");
+  const [sourceOrder, setSourceOrder] = useState<Source[]>(["tps", "spf", "anywho"]);
+  const [disabledSources, setDisabledSources] = useState<Source[]>([]);
+  const [fallthroughOn, setFallthroughOn] = useState<"phone" | "email">("phone");
+  const [filters, setFilters] = useState({
+    minAge: 50,
+    maxAge: 79,
+    excludeTMobile: false,
+    excludeComcast: false,
+    excludeLandline: false,
+  });
+
+  const { data: profile } = trpc.user.profile.useQuery(undefined, { enabled: !!user });
+  const { data: sources } = trpc.waterfall.getSources.useQuery();
+  const { data: history } = trpc.waterfall.getHistory.useQuery({ page: 1, pageSize: 10 });
+
+  const names = namesInput.trim().split("\n").filter(n => n.trim());
+  const locations = locationsInput.trim().split("\n").filter(l => l.trim());
+  const activeOrder = sourceOrder.filter(s => !disabledSources.includes(s));
+
+  const searchInput = {
+    names,
+    locations: mode === "nameLocation" ? locations : undefined,
+    mode,
+    filters,
+    sourceOrder: activeOrder,
+    fallthroughOn,
+  };
+
+  const { data: estimate } = trpc.waterfall.estimateCost.useQuery(searchInput, {
+    enabled: names.length > 0 && activeOrder.length > 0,
+  });
+
+  const searchMutation = trpc.waterfall.search.useMutation({
+    onSuccess: (data) => {
+      toast.success("瀑布式搜索任务已提交", {
+        description: `任务ID: ${data.taskId.slice(0, 8)}...`,
+      });
+      setLocation(`/waterfall/task/${data.taskId}`);
+    },
+    onError: (error) => {
+      toast.error("提交失败", { description: error.message });
+    },
+  });
+
+  const moveSource = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= sourceOrder.length) return;
+    const next = [...sourceOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSourceOrder(next);
+  };
+
+  const toggleSource = (source: Source, enabled: boolean) => {
+    setDisabledSources(prev => enabled ? prev.filter(s => s !== source) : [...prev, source]);
+  };
+
+  const handleSearch = () => {
+    if (names.length === 0) {
+      toast.error("请输入至少一个姓名");
+      return;
+    }
+    if (mode === "nameLocation" && locations.length === 0) {
+      toast.error("请输入至少一个地点");
+      return;
+    }
+    if (activeOrder.length === 0) {
+      toast.error("请至少选择一个数据源");
+      return;
+    }
+    searchMutation.mutate(searchInput);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Layers className="h-6 w-6 text-amber-400" />
+              瀑布式搜索
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              按优先级依次查询多个数据源，只有未命中的姓名才会进入下一个数据源
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>搜索名单</CardTitle>
+                <CardDescription>每行一个姓名，最多 100 个</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Tabs value={mode} onValueChange={(v) => setMode(v as "nameOnly" | "nameLocation")}>
+                  <TabsList>
+                    <TabsTrigger value="nameOnly">仅姓名</TabsTrigger>
+                    <TabsTrigger value="nameLocation">姓名 + 地点</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <div className="space-y-2">
+                  <Label>姓名 ({names.length})</Label>
+                  <Textarea
+                    rows={8}
+                    placeholder={"John Smith\nJane Doe"}
+                    value={namesInput}
+                    onChange={(e) => setNamesInput(e.target.value)}
+                  />
+                </div>
+                {mode === "nameLocation" && (
+                  <div className="space-y-2">
+                    <Label>地点 ({locations.length})</Label>
+                    <Textarea
+                      rows={4}
+                      placeholder={"Los Angeles, CA\nNew York, NY"}
+                      value={locationsInput}
+                      onChange={(e) => setLocationsInput(e.target.value)}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>过滤条件</CardTitle>
+                <CardDescription>所有数据源使用相同的过滤条件</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>年龄范围: {filters.minAge} - {filters.maxAge} 岁</Label>
+                  <Slider
+                    min={18}
+                    max={100}
+                    step={1}
+                    value={[filters.minAge, filters.maxAge]}
+                    onValueChange={([minAge, maxAge]) => setFilters(prev => ({ ...prev, minAge, maxAge }))}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="flex items-center justify-between">
+                    <Label>排除 T-Mobile</Label>
+                    <Switch
+                      checked={filters.excludeTMobile}
+                      onCheckedChange={(checked) => setFilters(prev => ({ ...prev, excludeTMobile: checked }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label>排除 Comcast</Label>
+                    <Switch
+                      checked={filters.excludeComcast}
+                      onCheckedChange={(checked) => setFilters(prev => ({ ...prev, excludeComcast: checked }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label>排除座机</Label>
+                    <Switch
+                      checked={filters.excludeLandline}
+                      onCheckedChange={(checked) => setFilters(prev => ({ ...prev, excludeLandline: checked }))}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>数据源顺序</CardTitle>
+                <CardDescription>从上到下依次查询</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sourceOrder.map((source, index) => {
+                  const info = sources?.find(s => s.source === source);
+                  const unavailable = info && !info.enabled;
+                  return (
+                    <div key={source} className="flex items-center gap-2 rounded-lg border p-2">
+                      <Badge variant="outline">{index + 1}</Badge>
+                      <span className="flex-1 text-sm">{info?.displayName || source}</span>
+                      {unavailable && <Badge variant="secondary">未开放</Badge>}
+                      <Button variant="ghost" size="icon" onClick={() => moveSource(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => moveSource(index, 1)} disabled={index === sourceOrder.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Switch
+                        checked={!disabledSources.includes(source)}
+                        onCheckedChange={(checked) => toggleSource(source, checked)}
+                      />
+                    </div>
+                  );
+                })}
+                <div className="space-y-2 pt-2">
+                  <Label>进入下一个数据源的条件</Label>
+                  <Tabs value={fallthroughOn} onValueChange={(v) => setFallthroughOn(v as "phone" | "email")}>
+                    <TabsList className="w-full">
+                      <TabsTrigger value="phone" className="flex-1">无电话</TabsTrigger>
+                      <TabsTrigger value="email" className="flex-1">无邮箱</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5 text-green-400" />
+                  预估消耗
+                </CardTitle>
+                <CardDescription>{estimate?.note || "实时扣费模式：用多少扣多少"}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {estimate?.sources.map(s => (
+                  <div key={s.source} className="flex justify-between">
+                    <span className="text-muted-foreground">{s.label}</span>
+                    <span>{s.enabled ? `≤ ${s.estimatedCost.toFixed(1)}` : "跳过"}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-medium pt-2 border-t">
+                  <span>预估范围</span>
+                  <span>
+                    {estimate ? `${estimate.minEstimatedCost.toFixed(1)} - ${estimate.maxEstimatedCost.toFixed(1)}` : "-"} 积分
+                  </span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>当前余额</span>
+                  <span>{profile?.credits ?? 0} 积分</span>
+                </div>
+                <Button
+                  className="w-full mt-4"
+                  onClick={handleSearch}
+                  disabled={searchMutation.isPending || names.length === 0}
+                >
+                  {searchMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Search className="h-4 w-4 mr-2" />
+                  )}
+                  开始搜索
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {history && history.tasks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                最近任务
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {history.tasks.map(task => (
+                <div
+                  key={task.taskId}
+                  className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+                  onClick={() => setLocation(`/waterfall/task/${task.taskId}`)}
+                >
+                  <span className="font-mono text-xs text-muted-foreground">{task.taskId.slice(0, 8)}</span>
+                  <span className="flex-1 text-sm">
+                    {task.names.length} 个姓名 · {task.sourceOrder.map(s => s.toUpperCase()).join(" → ")}
+                  </span>
+                  <span className="text-sm">{task.totalResults} 条结果</span>
+                  <span className="text-sm text-muted-foreground">{task.creditsUsed.toFixed(1)} 积分</span>
+                  <Badge variant="outline">{task.status}</Badge>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * 瀑布式搜索任务详情页面
+ * 展示各数据源执行明细、合并账单和带来源标注的结果
+ */
+
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { downloadTaskExport } from "@/lib/download";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { useWebSocketContext } from "@/contexts/WebSocketContext";
+import type { WsMessage } from "@/hooks/useWebSocket";
+import {
+  ArrowLeft,
+  Loader2,
+  Download,
+  RefreshCw,
+  Square,
+  Layers,
+  Terminal,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+
+const SOURCE_LABELS: Record<string, string> = {
+  tps: "TruePeopleSearch",
+  spf: "SearchPeopleFree",
+  anywho: "Anywho",
+};
+
+const getStatusBadge = (status: string) => {
+  switch (status) {
+    case "pending":
+      return <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">等待中</Badge>;
+    case "running":
+      return <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">搜索中</Badge>;
+    case "completed":
+      return <Badge className="bg-green-500/20 text-green-400 border-green-500/30">已完成</Badge>;
+    case "failed":
+      return <Badge className="bg-red-500/20 text-red-400 border-red-500/30">失败</Badge>;
+    case "cancelled":
+      return <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">已停止</Badge>;
+    case "insufficient_credits":
+      return <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">积分不足</Badge>;
+    case "skipped":
+      return <Badge variant="outline">未启用</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+export default function WaterfallTask() {
+  const params = useParams();
+  const taskId = params.taskId;
+  const [, setLocation] = useLocation();
+  const [page, setPage] = useState(1);
+  const pageSize = 50;
+
+  const { subscribe } = useWebSocketContext();
+
+  const { data: task, refetch: refetchTask } = trpc.waterfall.getTaskStatus.useQuery(
+    { taskId: taskId! },
+    {
+      enabled: !!taskId,
+      refetchInterval: (query) => {
+        const data = query.state.data;
+        if (data?.status === "running" || data?.status === "pending") {
+          return 3000;
+        }
+        return false;
+      },
+    }
+  );
+
+  const isFinished = !!task && task.status !== "running" && task.status !== "pending";
+
+  const { data: results, refetch: refetchResults } = trpc.waterfall.getTaskResults.useQuery(
+    { taskId: taskId!, page, pageSize },
+    { enabled: !!taskId && !!task && task.totalResults > 0 }
+  );
+
+  // WebSocket 实时订阅
+  useEffect(() => {
+    if (!taskId) return;
+
+    const unsub1 = subscribe("task_progress", (msg: WsMessage) => {
+      if (msg.taskId === taskId && msg.source === "waterfall") {
+        refetchTask();
+      }
+    });
+    const unsub2 = subscribe("task_completed", (msg: WsMessage) => {
+      if (msg.taskId === taskId && msg.source === "waterfall") {
+        refetchTask();
+        refetchResults();
+        toast.success(`✅ 瀑布式搜索任务已结束！共找到 ${msg.data?.totalResults || 0} 条结果`, {
+          duration: 8000,
+        });
+      }
+    });
+    const unsub3 = subscribe("task_failed", (msg: WsMessage) => {
+      if (msg.taskId === taskId && msg.source === "waterfall") {
+        refetchTask();
+        toast.error(`❌ 瀑布式搜索任务失败: ${msg.data?.error || "未知错误"}`, {
+          duration: 8000,
+        });
+      }
+    });
+
+    return () => { unsub1(); unsub2(); unsub3(); };
+  }, [taskId, subscribe, refetchTask, refetchResults]);
+
+  const stopMutation = trpc.waterfall.stopTask.useMutation({
+    onSuccess: () => {
+      toast.success("任务已停止，已获取的结果会保留");
+      refetchTask();
+    },
+    onError: (error) => {
+      toast.error("停止失败", { description: error.message });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: ({ taskId }: { taskId: string }) => downloadTaskExport("waterfall", taskId),
+    onSuccess: () => {
+      toast.success("导出成功");
+    },
+    onError: (error) => {
+      toast.error("导出失败", { description: error.message });
+    },
+  });
+
+  const totalPages = results?.totalPages || 1;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => setLocation("/waterfall")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold flex items-center gap-2">
+                <Layers className="h-6 w-6 text-amber-400" />
+                瀑布式搜索任务
+              </h1>
+              <p className="text-muted-foreground mt-1 font-mono text-sm">{taskId}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {(task?.status === "running" || task?.status === "pending") && (
+              <Button
+                variant="destructive"
+                onClick={() => stopMutation.mutate({ taskId: taskId! })}
+                disabled={stopMutation.isPending}
+              >
+                {stopMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Square className="h-4 w-4 mr-2" />
+                )}
+                停止任务
+              </Button>
+            )}
+            {isFinished && task.totalResults > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => exportMutation.mutate({ taskId: taskId! })}
+                disabled={exportMutation.isPending}
+              >
+                {exportMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                导出 CSV
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => {
+                refetchTask();
+                refetchResults();
+              }}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              刷新
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">任务状态</p>
+              <div className="mt-1">{task && getStatusBadge(task.status)}</div>
+              <Progress value={task?.progress || 0} className="mt-3 h-2" />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">命中姓名</p>
+              <p className="text-2xl font-bold mt-1">
+                {task?.resolvedNames || 0} / {task?.totalNames || 0}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">搜索结果</p>
+              <p className="text-2xl font-bold mt-1">{task?.totalResults || 0}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">消耗积分</p>
+              <p className="text-2xl font-bold mt-1">{task?.creditsUsed?.toFixed(1) || 0}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* 各数据源执行明细（合并账单） */}
+        <Card>
+          <CardHeader>
+            <CardTitle>数据源明细</CardTitle>
+            <CardDescription>
+              顺序: {task?.sourceOrder.map(s => SOURCE_LABELS[s] || s).join(" → ")}
+              {" · "}
+              {task?.fallthroughOn === "email" ? "无邮箱" : "无电话"}的姓名进入下一个数据源
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>数据源</TableHead>
+                  <TableHead>状态</TableHead>
+                  <TableHead className="text-right">搜索姓名</TableHead>
+                  <TableHead className="text-right">命中姓名</TableHead>
+                  <TableHead className="text-right">结果</TableHead>
+                  <TableHead className="text-right">消耗积分</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(task?.stages || []).map((stage, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{SOURCE_LABELS[stage.source] || stage.source}</TableCell>
+                    <TableCell>{getStatusBadge(stage.status)}</TableCell>
+                    <TableCell className="text-right">{stage.names}</TableCell>
+                    <TableCell className="text-right">{stage.resolvedNames}</TableCell>
+                    <TableCell className="text-right">{stage.totalResults}</TableCell>
+                    <TableCell className="text-right">{stage.creditsUsed.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={4} className="font-medium">合计</TableCell>
+                  <TableCell className="text-right font-medium">{task?.totalResults || 0}</TableCell>
+                  <TableCell className="text-right font-medium">{task?.creditsUsed?.toFixed(1) || 0}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+            {isFinished && (task?.pendingNames.length || 0) > 0 && (
+              <p className="text-sm text-muted-foreground mt-4">
+                未命中姓名: {task!.pendingNames.join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 执行日志 */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Terminal className="h-5 w-5 text-green-400" />
+              任务执行日志
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-64 rounded-lg bg-slate-900/80 border border-slate-700 p-3">
+              <div className="font-mono text-xs space-y-1">
+                {(task?.logs || []).map((log, index) => (
+                  <div key={index}>
+                    <span className="text-muted-foreground mr-2">
+                      {new Date(log.timestamp).toLocaleTimeString("zh-CN")}
+                    </span>
+                    {log.message}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            {task?.errorMessage && (
+              <p className="text-sm text-red-400 mt-3">{task.errorMessage}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 合并结果 */}
+        {results && results.total > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>搜索结果 ({results.total})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>搜索姓名</TableHead>
+                    <TableHead>姓名</TableHead>
+                    <TableHead>年龄</TableHead>
+                    <TableHead>地址</TableHead>
+                    <TableHead>电话</TableHead>
+                    <TableHead>运营商</TableHead>
+                    <TableHead>邮箱</TableHead>
+                    <TableHead>来源</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.results.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell>{r.searchName}</TableCell>
+                      <TableCell>{r.name}</TableCell>
+                      <TableCell>{r.age ?? "-"}</TableCell>
+                      <TableCell>{r.location || (r.city && r.state ? `${r.city}, ${r.state}` : "-")}</TableCell>
+                      <TableCell className="font-mono">{r.phone || "-"}</TableCell>
+                      <TableCell>{r.carrier || "-"}</TableCell>
+                      <TableCell>{r.email || "-"}</TableCell>
+                      <TableCell><Badge variant="outline">{r.source.toUpperCase()}</Badge></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {totalPages > 1 && (
+                <div className="flex items-center justify-end gap-2 mt-4">
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-sm text-muted-foreground">{page} / {totalPages}</span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= totalPages}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -67,6 +67,8 @@ export const rechargeOrders = mysqlTable("recharge_orders", {
   txId: varchar("txId", { length: 100 }),
   receivedAmount: decimal("receivedAmount", { precision: 10, scale: 2 }),
   adminNote: text("adminNote"),
+  bonusCredits: decimal("bonusCredits", { precision: 10, scale: 2 }).default("0").notNull(), // credits 中的赠送部分（阶梯+优惠码）
+  promoCode: varchar("promoCode", { length: 40 }),
   expiresAt: timestamp("expiresAt").notNull(),
   paidAt: timestamp("paidAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -75,6 +77,69 @@ export const rechargeOrders = mysqlTable("recharge_orders", {
 
 export type RechargeOrder = typeof rechargeOrders.$inferSelect;
 
+// 链上收款记录表（USDT监控处理过的每笔入账，按 network + txId 去重）
+export const chainTransactions = mysqlTable("chain_transactions", {
+  id: int("id").autoincrement().primaryKey(),
+  network: varchar("network", { length: 20 }).notNull(),
+  txId: varchar("txId", { length: 100 }).notNull(),
+  fromAddress: varchar("fromAddress", { length: 100 }),
+  toAddress: varchar("toAddress", { length: 100 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
+  blockNumber: int("blockNumber"), // TRC20 无区块号，只记录区块时间
+  blockTime: timestamp("blockTime").notNull(),
+  orderId: varchar("orderId", { length: 32 }),
+  disposition: mysqlEnum("disposition", ["matched", "mismatch", "unmatched", "assigned", "ignored"]).default("unmatched").notNull(),
+  note: text("note"),
+  handledBy: varchar("handledBy", { length: 50 }), // 手动关联或忽略的管理员
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ChainTransaction = typeof chainTransactions.$inferSelect;
+
+// 充值阶梯赠送表（按USDT金额取最高的适用档位）
+export const bonusTiers = mysqlTable("bonus_tiers", {
+  id: int("id").autoincrement().primaryKey(),
+  minUsdt: decimal("minUsdt", { precision: 10, scale: 2 }).notNull(),
+  bonusPercent: decimal("bonusPercent", { precision: 5, scale: 2 }).notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type BonusTier = typeof bonusTiers.$inferSelect;
+
+// 充值优惠码表
+export const promoCodes = mysqlTable("promo_codes", {
+  id: int("id").autoincrement().primaryKey(),
+  code: varchar("code", { length: 40 }).notNull().unique(), // 统一大写
+  bonusType: mysqlEnum("bonusType", ["percent", "fixed"]).notNull(), // 按基础积分百分比 / 固定积分
+  bonusValue: decimal("bonusValue", { precision: 10, scale: 2 }).notNull(),
+  maxUses: int("maxUses"), // 为空不限次数
+  usedCount: int("usedCount").default(0).notNull(), // 已到账的使用次数
+  firstRechargeOnly: boolean("firstRechargeOnly").default(false).notNull(),
+  expiresAt: timestamp("expiresAt"),
+  isActive: boolean("isActive").default(true).notNull(),
+  description: varchar("description", { length: 255 }),
+  createdBy: varchar("createdBy", { length: 50 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+// 优惠码使用记录表（订单到账时写入，每个用户每个优惠码一条）
+export const promoRedemptions = mysqlTable("promo_redemptions", {
+  id: int("id").autoincrement().primaryKey(),
+  promoCodeId: int("promoCodeId").notNull(),
+  userId: int("userId").notNull(),
+  orderId: varchar("orderId", { length: 32 }).notNull(),
+  bonusCredits: decimal("bonusCredits", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+
 // 搜索任务表
 export const searchTasks = mysqlTable("search_tasks", {
   id: int("id").autoincrement().primaryKey(),
@@ -128,10 +193,11 @@ export const creditLogs = mysqlTable("credit_logs", {
   userId: int("userId").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // 正数增加，负数减少
   balanceAfter: decimal("balanceAfter", { precision: 10, scale: 2 }).notNull(),
-  type: mysqlEnum("type", ["recharge", "search", "admin_add", "admin_deduct", "refund", "admin_adjust", "bonus"]).notNull(),
+  type: mysqlEnum("type", ["recharge", "search", "admin_add", "admin_deduct", "refund", "admin_adjust", "bonus", "org_transfer"]).notNull(),
   description: text("description"),
   relatedOrderId: varchar("relatedOrderId", { length: 32 }),
   relatedTaskId: varchar("relatedTaskId", { length: 32 }),
+  orgId: int("orgId"), // 团队积分池变动时为团队ID，balanceAfter 为积分池余额
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -169,6 +235,25 @@ export const adminLogs = mysqlTable("admin_logs", {
 
 export type AdminLog = typeof adminLogs.$inferSelect;
 
+// 管理员账户表（首次登录时由环境变量中的管理员账户初始化为超级管理员）
+export const adminUsers = mysqlTable("admin_users", {
+  id: int("id").autoincrement().primaryKey(),
+  username: varchar("username", { length: 50 }).notNull().unique(),
+  passwordHash: varchar("passwordHash", { length: 255 }).notNull(),
+  role: mysqlEnum("role", ["super_admin", "finance", "support", "read_only"]).default("read_only").notNull(),
+  status: mysqlEnum("status", ["active", "disabled"]).default("active").notNull(),
+  createdBy: varchar("createdBy", { length: 50 }),
+  lastLoginAt: timestamp("lastLoginAt"),
+  lastLoginIp: varchar("lastLoginIp", { length: 50 }),
+  /** 最近一次修改密码的时间，此前签发的管理员JWT失效 */
+  passwordChangedAt: timestamp("passwordChangedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type AdminRole = AdminUser["role"];
+
 // 登录日志表
 export const loginLogs = mysqlTable("login_logs", {
   id: int("id").autoincrement().primaryKey(),
@@ -183,11 +268,43 @@ export const loginLogs = mysqlTable("login_logs", {
 
 export type LoginLog = typeof loginLogs.$inferSelect;
 
+// 登录会话表（会话ID写入登录 Cookie，撤销后 Cookie 立即失效）
+export const userSessions = mysqlTable("user_sessions", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: varchar("sessionId", { length: 64 }).notNull().unique(),
+  userId: int("userId").notNull(),
+  deviceId: varchar("deviceId", { length: 100 }),
+  deviceName: varchar("deviceName", { length: 100 }).notNull(), // 用户可重命名，默认由 User-Agent 生成
+  ipAddress: varchar("ipAddress", { length: 50 }),
+  userAgent: text("userAgent"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  lastSeenAt: timestamp("lastSeenAt").defaultNow().notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  revokedAt: timestamp("revokedAt"),
+});
+
+export type UserSession = typeof userSessions.$inferSelect;
+
+// 两步验证（TOTP）凭据表，用户与管理员共用；subject 形如 user:123 / admin:admin
+export const twoFactorCredentials = mysqlTable("two_factor_credentials", {
+  id: int("id").autoincrement().primaryKey(),
+  subject: varchar("subject", { length: 120 }).notNull().unique(),
+  secret: varchar("secret", { length: 64 }), // 已启用的 Base32 密钥
+  pendingSecret: varchar("pendingSecret", { length: 64 }), // 绑定中、尚未验证的密钥
+  backupCodes: json("backupCodes").$type<string[]>(), // 备用恢复码的 SHA-256 哈希，使用后移除
+  lastUsedStep: int("lastUsedStep"), // 最近一次使用的时间步，防止验证码重放
+  enabledAt: timestamp("enabledAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+
 // API调用日志表
 export const apiLogs = mysqlTable("api_logs", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId"),
-  apiType: mysqlEnum("apiType", ["apollo_search", "apollo_enrich", "apify_search", "scrape_tps", "scrape_fps"]).notNull(),
+  apiType: mysqlEnum("apiType", ["apollo_search", "apollo_enrich", "apify_search", "scrape_tps", "scrape_fps", "rest_api"]).notNull(),
   endpoint: varchar("endpoint", { length: 255 }),
   requestParams: json("requestParams"),
   responseStatus: int("responseStatus"),
@@ -356,9 +473,10 @@ export const tpsSearchTasks = mysqlTable("tps_search_tasks", {
   id: int("id").autoincrement().primaryKey(),
   taskId: varchar("taskId", { length: 32 }).notNull().unique(),
   userId: int("userId").notNull(),
-  mode: mysqlEnum("mode", ["nameOnly", "nameLocation"]).default("nameOnly").notNull(),
+  mode: mysqlEnum("mode", ["nameOnly", "nameLocation", "pairs"]).default("nameOnly").notNull(),
   names: json("names").$type<string[]>().notNull(),
   locations: json("locations").$type<string[]>(),
+  pairs: json("pairs").$type<Array<{ name: string; location: string }>>(), // pairs 模式的「姓名 + 地点」配对
   filters: json("filters").$type<{
     minAge?: number;
     maxAge?: number;
@@ -370,6 +488,7 @@ export const tpsSearchTasks = mysqlTable("tps_search_tasks", {
   }>(),
   totalSubTasks: int("totalSubTasks").default(0).notNull(), // 总子任务数
   completedSubTasks: int("completedSubTasks").default(0).notNull(), // 已完成子任务数
+  completedSubTaskIndexes: json("completedSubTaskIndexes").$type<number[]>(), // 已完成的子任务序号（继续执行时跳过）
   totalResults: int("totalResults").default(0).notNull(), // 总结果数
   searchPageRequests: int("searchPageRequests").default(0).notNull(), // 搜索页请求数
   detailPageRequests: int("detailPageRequests").default(0).notNull(), // 详情页请求数
@@ -478,9 +597,10 @@ export const anywhoSearchTasks = mysqlTable("anywho_search_tasks", {
   id: int("id").autoincrement().primaryKey(),
   taskId: varchar("taskId", { length: 32 }).notNull().unique(),
   userId: int("userId").notNull(),
-  mode: mysqlEnum("mode", ["nameOnly", "nameLocation"]).default("nameOnly").notNull(),
+  mode: mysqlEnum("mode", ["nameOnly", "nameLocation", "pairs"]).default("nameOnly").notNull(),
   names: json("names").$type<string[]>().notNull(),
   locations: json("locations").$type<string[]>(),
+  pairs: json("pairs").$type<Array<{ name: string; location: string }>>(), // pairs 模式的「姓名 + 地点」配对
   filters: json("filters").$type<{
     minAge?: number;
     maxAge?: number;
@@ -491,6 +611,7 @@ export const anywhoSearchTasks = mysqlTable("anywho_search_tasks", {
   }>(),
   totalSubTasks: int("totalSubTasks").default(0).notNull(),
   completedSubTasks: int("completedSubTasks").default(0).notNull(),
+  completedSubTaskIndexes: json("completedSubTaskIndexes").$type<number[]>(), // 已完成的子任务序号（继续执行时跳过）
   totalResults: int("totalResults").default(0).notNull(),
   searchPageRequests: int("searchPageRequests").default(0).notNull(),
   detailPageRequests: int("detailPageRequests").default(0).notNull(),
@@ -562,6 +683,8 @@ export const agentCommissions = mysqlTable("agent_commissions", {
   bonusType: varchar("bonusType", { length: 20 }),      // 额外奖励类型: first_charge, activity
   bonusAmount: decimal("bonusAmount", { precision: 10, scale: 2 }).default("0"), // 额外奖励金额
   status: mysqlEnum("status", ["pending", "settled", "withdrawn"]).default("pending").notNull(),
+  clawbackOf: int("clawbackOf"),                        // 追回记录：被追回的原佣金记录ID（金额为负数）
+  clawbackReason: varchar("clawbackReason", { length: 20 }), // 追回原因: refund, adjustment
   settledAt: timestamp("settledAt"),                    // 结算时间
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -618,6 +741,22 @@ export const agentSettings = mysqlTable("agent_settings", {
 export type AgentSetting = typeof agentSettings.$inferSelect;
 export type InsertAgentSetting = typeof agentSettings.$inferInsert;
 
+// 代理等级变更记录表
+export const agentLevelHistory = mysqlTable("agent_level_history", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  fromLevel: varchar("fromLevel", { length: 20 }).notNull(),
+  toLevel: varchar("toLevel", { length: 20 }).notNull(),
+  source: mysqlEnum("source", ["auto", "admin"]).notNull(), // 自动评估 / 管理员手动调整
+  teamRecharge: decimal("teamRecharge", { precision: 12, scale: 2 }), // 自动评估时统计窗口内的团队充值(USDT)
+  activeInvitees: int("activeInvitees"),                // 自动评估时统计窗口内有充值的直推用户数
+  operator: varchar("operator", { length: 50 }),        // 操作人（自动评估为 system）
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AgentLevelHistory = typeof agentLevelHistory.$inferSelect;
+export type InsertAgentLevelHistory = typeof agentLevelHistory.$inferInsert;
+
 
 // 代理申请表
 export const agentApplications = mysqlTable("agent_applications", {
@@ -706,9 +845,10 @@ export const spfSearchTasks = mysqlTable("spf_search_tasks", {
   id: int("id").autoincrement().primaryKey(),
   taskId: varchar("taskId", { length: 32 }).notNull().unique(),
   userId: int("userId").notNull(),
-  mode: mysqlEnum("mode", ["nameOnly", "nameLocation"]).default("nameOnly").notNull(),
+  mode: mysqlEnum("mode", ["nameOnly", "nameLocation", "pairs"]).default("nameOnly").notNull(),
   names: json("names").$type<string[]>().notNull(),
   locations: json("locations").$type<string[]>(),
+  pairs: json("pairs").$type<Array<{ name: string; location: string }>>(), // pairs 模式的「姓名 + 地点」配对
   filters: json("filters").$type<{
     minAge?: number;
     maxAge?: number;
@@ -721,6 +861,7 @@ export const spfSearchTasks = mysqlTable("spf_search_tasks", {
   }>(),
   totalSubTasks: int("totalSubTasks").default(0).notNull(),
   completedSubTasks: int("completedSubTasks").default(0).notNull(),
+  completedSubTaskIndexes: json("completedSubTaskIndexes").$type<number[]>(), // 已完成的子任务序号（继续执行时跳过）
   totalResults: int("totalResults").default(0).notNull(),
   searchPageRequests: int("searchPageRequests").default(0).notNull(),
   detailPageRequests: int("detailPageRequests").default(0).notNull(),
@@ -797,3 +938,280 @@ export const spfSearchResults = mysqlTable("spf_search_results", {
 
 export type SpfSearchResult = typeof spfSearchResults.$inferSelect;
 export type InsertSpfSearchResult = typeof spfSearchResults.$inferInsert;
+
+// ==================== 瀑布式搜索 (Waterfall) 模块 ====================
+
+// 瀑布式搜索任务表：同一名单按优先级依次查询多个数据源
+export const waterfallSearchTasks = mysqlTable("waterfall_search_tasks", {
+  id: int("id").autoincrement().primaryKey(),
+  taskId: varchar("taskId", { length: 32 }).notNull().unique(),
+  userId: int("userId").notNull(),
+  mode: mysqlEnum("mode", ["nameOnly", "nameLocation"]).default("nameOnly").notNull(),
+  names: json("names").$type<string[]>().notNull(),
+  locations: json("locations").$type<string[]>(),
+  filters: json("filters").$type<{
+    minAge?: number;
+    maxAge?: number;
+    minYear?: number;
+    excludeTMobile?: boolean;
+    excludeComcast?: boolean;
+    excludeLandline?: boolean;
+  }>(),
+  sourceOrder: json("sourceOrder").$type<Array<"tps" | "spf" | "anywho">>().notNull(), // 数据源优先级
+  fallthroughOn: mysqlEnum("fallthroughOn", ["phone", "email"]).default("phone").notNull(), // 缺少该字段的姓名进入下一个数据源
+  stages: json("stages").$type<Array<{
+    source: "tps" | "spf" | "anywho";
+    childTaskId: string | null;
+    names: number;
+    resolvedNames: number;
+    totalResults: number;
+    creditsUsed: number;
+    status: string;
+  }>>(), // 各数据源执行明细（合并账单）
+  pendingNames: json("pendingNames").$type<string[]>(), // 尚未命中的姓名
+  totalResults: int("totalResults").default(0).notNull(),
+  resolvedNames: int("resolvedNames").default(0).notNull(),
+  creditsUsed: decimal("creditsUsed", { precision: 10, scale: 2 }).default("0").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed", "cancelled", "insufficient_credits"]).default("pending").notNull(),
+  progress: int("progress").default(0).notNull(),
+  logs: json("logs").$type<Array<{ timestamp: string; message: string }>>(),
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+});
+
+export type WaterfallSearchTask = typeof waterfallSearchTasks.$inferSelect;
+export type InsertWaterfallSearchTask = typeof waterfallSearchTasks.$inferInsert;
+
+// 瀑布式搜索合并结果表（每行标注来源）
+export const waterfallSearchResults = mysqlTable("waterfall_search_results", {
+  id: int("id").autoincrement().primaryKey(),
+  taskId: int("taskId").notNull(),
+  source: mysqlEnum("source", ["tps", "spf", "anywho"]).notNull(), // 数据来源
+  searchName: varchar("searchName", { length: 200 }),
+  searchLocation: varchar("searchLocation", { length: 200 }),
+  name: varchar("name", { length: 200 }),
+  age: int("age"),
+  city: varchar("city", { length: 100 }),
+  state: varchar("state", { length: 50 }),
+  location: varchar("location", { length: 200 }),
+  phone: varchar("phone", { length: 50 }),
+  phoneType: varchar("phoneType", { length: 50 }),
+  carrier: varchar("carrier", { length: 100 }),
+  allPhones: json("allPhones").$type<string[]>(),
+  email: varchar("email", { length: 200 }),
+  allEmails: json("allEmails").$type<string[]>(),
+  detailLink: varchar("detailLink", { length: 500 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WaterfallSearchResult = typeof waterfallSearchResults.$inferSelect;
+export type InsertWaterfallSearchResult = typeof waterfallSearchResults.$inferInsert;
+
+// ==================== 电话反查 (Phone Lookup) 模块 ====================
+
+// 电话反查任务表：用户提交的号码列表，逐个反查号码主人
+export const phoneLookupTasks = mysqlTable("phone_lookup_tasks", {
+  id: int("id").autoincrement().primaryKey(),
+  taskId: varchar("taskId", { length: 32 }).notNull().unique(),
+  userId: int("userId").notNull(),
+  phones: json("phones").$type<string[]>().notNull(), // 归一化后的 10 位号码
+  totalPhones: int("totalPhones").default(0).notNull(),
+  completedPhones: int("completedPhones").default(0).notNull(),
+  foundPhones: int("foundPhones").default(0).notNull(), // 查到主人的号码数
+  cacheHits: int("cacheHits").default(0).notNull(), // 命中缓存（不扣费）的号码数
+  creditsUsed: decimal("creditsUsed", { precision: 10, scale: 2 }).default("0").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed", "cancelled", "insufficient_credits"]).default("pending").notNull(),
+  progress: int("progress").default(0).notNull(),
+  logs: json("logs").$type<Array<{ timestamp: string; message: string }>>(),
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+});
+
+export type PhoneLookupTask = typeof phoneLookupTasks.$inferSelect;
+export type InsertPhoneLookupTask = typeof phoneLookupTasks.$inferInsert;
+
+// 电话反查结果表：每个号码一行，未查到主人时 found = false
+export const phoneLookupResults = mysqlTable("phone_lookup_results", {
+  id: int("id").autoincrement().primaryKey(),
+  taskId: int("taskId").notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  found: boolean("found").default(false).notNull(),
+  name: varchar("name", { length: 200 }),
+  age: int("age"),
+  city: varchar("city", { length: 100 }),
+  state: varchar("state", { length: 50 }),
+  phoneType: varchar("phoneType", { length: 50 }),
+  carrier: varchar("carrier", { length: 100 }),
+  source: varchar("source", { length: 50 }), // TruePeopleSearch / FastPeopleSearch
+  fromCache: boolean("fromCache").default(false).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PhoneLookupResult = typeof phoneLookupResults.$inferSelect;
+export type InsertPhoneLookupResult = typeof phoneLookupResults.$inferInsert;
+
+// 电话反查缓存表（按号码缓存查到的主人信息，命中缓存不扣费）
+export const phoneLookupCache = mysqlTable("phone_lookup_cache", {
+  id: int("id").autoincrement().primaryKey(),
+  phone: varchar("phone", { length: 20 }).notNull().unique(),
+  data: json("data").$type<{
+    name: string;
+    age?: number;
+    city?: string;
+    state?: string;
+    phoneType?: string;
+    carrier?: string;
+    source: string;
+  }>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+});
+
+export type PhoneLookupCache = typeof phoneLookupCache.$inferSelect;
+
+// ==================== 持久化任务队列 ====================
+
+// 任务执行租约表：记录每个后台搜索任务由哪个进程执行，进程退出后租约过期即可被恢复
+export const taskJobs = mysqlTable("task_jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  source: mysqlEnum("source", ["tps", "spf", "anywho", "waterfall", "linkedin", "phone_lookup"]).notNull(),
+  taskId: varchar("taskId", { length: 32 }).notNull(), // 对应任务表的 taskId
+  taskDbId: int("taskDbId").notNull(), // 对应任务表的 id
+  userId: int("userId").notNull(),
+  payload: json("payload"), // 任务输入（恢复执行时使用）
+  status: mysqlEnum("status", ["running", "completed", "failed"]).default("running").notNull(),
+  attempts: int("attempts").default(1).notNull(), // 已执行次数（含恢复）
+  savedResults: int("savedResults").default(0).notNull(), // 本次执行开始时已保存的结果数
+  savedSubTasks: int("savedSubTasks").default(0).notNull(), // 本次执行开始时已完成（写入检查点）的子任务数
+  leaseOwner: varchar("leaseOwner", { length: 100 }), // 持有租约的进程
+  leaseExpiresAt: timestamp("leaseExpiresAt"), // 租约到期时间（心跳续期）
+  attemptStartedAt: timestamp("attemptStartedAt"), // 本次执行开始时间
+  lastError: text("lastError"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type TaskJob = typeof taskJobs.$inferSelect;
+export type InsertTaskJob = typeof taskJobs.$inferInsert;
+
+// ==================== 开放 API 密钥 ====================
+
+// 用户自建的 REST API 密钥：只保存 SHA-256 哈希，明文仅在创建时返回一次
+export const apiKeys = mysqlTable("api_keys", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  keyPrefix: varchar("keyPrefix", { length: 16 }).notNull(), // 明文前缀，便于用户辨认
+  keyHash: varchar("keyHash", { length: 64 }).notNull().unique(),
+  rateLimitPerMinute: int("rateLimitPerMinute").default(60).notNull(),
+  lastUsedAt: timestamp("lastUsedAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+// ==================== Webhook 通知 ====================
+
+// 用户注册的 Webhook：任务完成、失败或积分不足时向 url 发送签名的 JSON POST
+export const webhooks = mysqlTable("webhooks", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  url: varchar("url", { length: 500 }).notNull(),
+  description: varchar("description", { length: 100 }),
+  secret: varchar("secret", { length: 64 }).notNull(), // HMAC-SHA256 签名密钥
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+
+// Webhook 投递记录：失败后按退避间隔重试，设置页展示投递日志
+export const webhookDeliveries = mysqlTable("webhook_deliveries", {
+  id: int("id").autoincrement().primaryKey(),
+  webhookId: int("webhookId").notNull(),
+  userId: int("userId").notNull(),
+  event: mysqlEnum("event", ["task.completed", "task.failed", "task.insufficient_credits", "webhook.test"]).notNull(),
+  source: varchar("source", { length: 20 }).notNull(), // tps / spf / anywho / linkedin
+  taskId: varchar("taskId", { length: 32 }),
+  payload: json("payload").notNull(),
+  status: mysqlEnum("status", ["pending", "success", "failed"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(),
+  responseStatus: int("responseStatus"),
+  lastError: text("lastError"),
+  deliveredAt: timestamp("deliveredAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// ==================== 导出预设 ====================
+
+// 用户保存的导出设置（列、表头语言、电话格式、文件格式），按数据源区分
+export const exportPresets = mysqlTable("export_presets", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  source: varchar("source", { length: 20 }).notNull(), // tps / spf / anywho / waterfall / linkedin / phone_lookup
+  name: varchar("name", { length: 50 }).notNull(),
+  options: json("options").$type<{
+    format: "csv" | "xlsx" | "jsonl";
+    language: "zh" | "en";
+    phoneFormat: "e164" | "digits" | "dashed";
+    columns?: string[];
+    template?: "hubspot" | "salesforce" | "dialer";
+  }>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ExportPreset = typeof exportPresets.$inferSelect;
+
+// ==================== 团队空间 ====================
+
+// 团队（共享积分池），搜索优先从所在团队的积分池扣费
+export const organizations = mysqlTable("organizations", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  ownerId: int("ownerId").notNull(),
+  credits: decimal("credits", { precision: 10, scale: 2 }).default("0").notNull(), // 共享积分池
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+
+// 团队成员，每个用户最多加入一个团队
+export const organizationMembers = mysqlTable("organization_members", {
+  id: int("id").autoincrement().primaryKey(),
+  orgId: int("orgId").notNull(),
+  userId: int("userId").notNull().unique(),
+  role: mysqlEnum("role", ["owner", "admin", "member", "viewer"]).default("member").notNull(),
+  monthlyCreditCap: decimal("monthlyCreditCap", { precision: 10, scale: 2 }), // 每月可用积分上限，为空表示不限
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationRole = OrganizationMember["role"];
+
+// 团队邀请，被邀请人以相同邮箱登录后接受
+export const organizationInvites = mysqlTable("organization_invites", {
+  id: int("id").autoincrement().primaryKey(),
+  orgId: int("orgId").notNull(),
+  email: varchar("email", { length: 320 }).notNull(),
+  role: mysqlEnum("role", ["admin", "member", "viewer"]).default("member").notNull(),
+  invitedBy: int("invitedBy").notNull(),
+  status: mysqlEnum("status", ["pending", "accepted", "declined", "revoked"]).default("pending").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  respondedAt: timestamp("respondedAt"),
+});
+
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
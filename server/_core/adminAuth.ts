@@ -3,6 +3,9 @@
  * 
  * 管理员认证完全独立于用户认证系统，不使用Manus OAuth，
  * 而是使用环境变量配置的固定管理员账户。
+ *
+ * 登录分两步：用户名密码通过后签发短期的两步验证凭证，
+ * 再校验 TOTP 验证码（首次登录需先绑定验证器）后才签发管理员JWT。
  */
 
 import jwt from "jsonwebtoken";
@@ -12,19 +15,30 @@ import { ENV } from "./env";
 interface AdminJwtPayload {
   type: "admin";
   username: string;
+  /** 已通过两步验证 */
+  mfa: true;
   iat: number;
   exp: number;
 }
 
+// 两步验证凭证：verify 为已绑定、待输入验证码；setup 为待绑定验证器
+export type AdminChallengePurpose = "verify" | "setup";
+
+interface AdminChallengePayload {
+  type: "admin_2fa";
+  username: string;
+  purpose: AdminChallengePurpose;
+}
+
 // 管理员登录验证
 export function validateAdminCredentials(username: string, password: string): boolean {
   return username === ENV.adminUsername && password === ENV.adminPassword;
 }
 
-// 生成管理员JWT (24小时过期)
+// 生成管理员JWT (24小时过期)，仅在两步验证通过后调用
 export function generateAdminToken(username: string): string {
   return jwt.sign(
-    { type: "admin", username },
+    { type: "admin", username, mfa: true },
     ENV.adminJwtSecret,
     { expiresIn: "24h" }
   );
@@ -34,7 +48,7 @@ export function generateAdminToken(username: string): string {
 export function verifyAdminToken(token: string): AdminJwtPayload | null {
   try {
     const payload = jwt.verify(token, ENV.adminJwtSecret) as AdminJwtPayload;
-    if (payload.type !== "admin") {
+    if (payload.type !== "admin" || payload.mfa !== true) {
       return null;
     }
     return payload;
@@ -43,6 +57,28 @@ export function verifyAdminToken(token: string): AdminJwtPayload | null {
   }
 }
 
+// 生成两步验证凭证 (10分钟过期)
+export function generateAdminChallengeToken(username: string, purpose: AdminChallengePurpose): string {
+  return jwt.sign(
+    { type: "admin_2fa", username, purpose },
+    ENV.adminJwtSecret,
+    { expiresIn: "10m" }
+  );
+}
+
+// 验证两步验证凭证，返回管理员用户名
+export function verifyAdminChallengeToken(token: string, purpose: AdminChallengePurpose): string | null {
+  try {
+    const payload = jwt.verify(token, ENV.adminJwtSecret) as AdminChallengePayload;
+    if (payload.type !== "admin_2fa" || payload.purpose !== purpose) {
+      return null;
+    }
+    return payload.username;
+  } catch {
+    return null;
+  }
+}
+
 // 从请求头获取管理员token
 export function getAdminTokenFromHeader(headers: Record<string, string | string[] | undefined>): string | null {
   const authHeader = headers["x-admin-token"];
@@ -6,6 +6,8 @@ import { jwtVerify } from "jose";
 import jwt from "jsonwebtoken";
 import { ENV } from "./env";
 import * as db from "../db";
+import { validateUserSession } from "../sessions/db";
+import { getAdminForToken } from "../admins/db";
 
 // 管理员cookie名称
 const ADMIN_COOKIE_NAME = "admin_token";
@@ -14,6 +16,8 @@ export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
   user: (User & { role?: string }) | null;
+  /** 当前登录会话ID（管理员和 API 密钥请求为空） */
+  sessionId?: string | null;
 };
 
 // 解析cookies
@@ -34,7 +38,7 @@ function getSessionSecret() {
 // 验证会话Token
 async function verifySession(
   cookieValue: string | undefined | null
-): Promise<{ openId: string; appId: string; name: string } | null> {
+): Promise<{ openId: string; appId: string; name: string; sid?: string } | null> {
   if (!cookieValue) {
     return null;
   }
@@ -44,7 +48,7 @@ async function verifySession(
     const { payload } = await jwtVerify(cookieValue, secretKey, {
       algorithms: ["HS256"],
     });
-    const { openId, appId, name } = payload as Record<string, unknown>;
+    const { openId, appId, name, sid } = payload as Record<string, unknown>;
 
     if (
       typeof openId !== "string" ||
@@ -54,7 +58,7 @@ async function verifySession(
       return null;
     }
 
-    return { openId, appId, name };
+    return { openId, appId, name, sid: typeof sid === "string" ? sid : undefined };
   } catch (error) {
     console.warn("[Auth] Session verification failed", String(error));
     return null;
@@ -64,7 +68,7 @@ async function verifySession(
 // 验证管理员Token - 使用与adminAuth.ts相同的方式
 function verifyAdminToken(
   tokenValue: string | undefined | null
-): { type: string; username: string } | null {
+): { type: string; username: string; iat?: number } | null {
   if (!tokenValue) {
     return null;
   }
@@ -73,30 +77,39 @@ function verifyAdminToken(
     const payload = jwt.verify(tokenValue, ENV.adminJwtSecret) as {
       type: string;
       username: string;
+      mfa?: boolean;
+      iat?: number;
     };
-    if (payload.type !== "admin" || typeof payload.username !== "string") {
+    if (payload.type !== "admin" || typeof payload.username !== "string" || payload.mfa !== true) {
       return null;
     }
-    return { type: "admin", username: payload.username };
+    return { type: "admin", username: payload.username, iat: payload.iat };
   } catch (error) {
     console.warn("[Auth] Admin token verification failed", String(error));
     return null;
   }
 }
 
-export async function createContext(
-  opts: CreateExpressContextOptions
-): Promise<TrpcContext> {
+/**
+ * 根据请求 Cookie 识别当前用户（管理员或普通用户）及登录会话
+ *
+ * 普通用户的 Cookie 必须带有未撤销的会话ID（见 sessions/db.ts），不含会话ID的旧 Cookie 需要重新登录
+ */
+export async function authenticateSession(
+  req: CreateExpressContextOptions["req"]
+): Promise<{ user: (User & { role?: string }) | null; sessionId: string | null }> {
   let user: (User & { role?: string }) | null = null;
+  let sessionId: string | null = null;
 
   try {
-    const cookies = parseCookies(opts.req.headers.cookie);
+    const cookies = parseCookies(req.headers.cookie);
     
     // 首先检查管理员token
     const adminToken = cookies.get(ADMIN_COOKIE_NAME);
     const adminSession = verifyAdminToken(adminToken);
     
-    if (adminSession) {
+    // 已禁用或改密前签发的管理员令牌不再有效
+    if (adminSession && await getAdminForToken(adminSession)) {
       // 管理员登录，创建一个虚拟的管理员用户对象
       user = {
         id: 0,
@@ -123,19 +136,43 @@ export async function createContext(
       // 检查普通用户session
       const sessionCookie = cookies.get(COOKIE_NAME);
       const session = await verifySession(sessionCookie);
-      if (session) {
-        // 通过openId查找用户
-        user = await db.getUserByOpenId(session.openId) || null;
+      if (session?.sid) {
+        // 通过openId查找用户，并校验会话未被撤销
+        const sessionUser = await db.getUserByOpenId(session.openId);
+        if (sessionUser && await validateUserSession(session.sid, sessionUser.id)) {
+          user = sessionUser;
+          sessionId = session.sid;
+        }
       }
     }
   } catch (error) {
     // Authentication is optional for public procedures.
     user = null;
+    sessionId = null;
   }
 
+  return { user, sessionId };
+}
+
+/**
+ * 根据请求 Cookie 识别当前用户，未登录时返回 null
+ *
+ * tRPC 上下文和非 tRPC 的 Express 路由（如流式导出）共用
+ */
+export async function authenticateRequest(
+  req: CreateExpressContextOptions["req"]
+): Promise<(User & { role?: string }) | null> {
+  return (await authenticateSession(req)).user;
+}
+
+export async function createContext(
+  opts: CreateExpressContextOptions
+): Promise<TrpcContext> {
+  const { user, sessionId } = await authenticateSession(opts.req);
   return {
     req: opts.req,
     res: opts.res,
     user,
+    sessionId,
   };
 }
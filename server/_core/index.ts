@@ -4,6 +4,9 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerRestApiRoutes } from "../apiKeys/rest";
+import { registerExportRoutes } from "../exports/routes";
+import { registerBillingRoutes } from "../billing/routes";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -11,6 +14,9 @@ import { startUsdtMonitor } from "../services/usdtMonitor";
 // Apollo Webhook 已移除，使用 Apify 同步获取数据
 import { startOrderExpirationChecker } from "../services/orderExpiration";
 import { startCommissionSettlement } from "../services/commissionSettlement";
+import { startAgentLevelEvaluation } from "../services/agentLevelEvaluation";
+import { startTaskRecovery } from "../services/taskQueue";
+import { startWebhookDispatcher } from "../services/webhookDispatcher";
 import { wsManager } from "./wsManager";
 import { getDbSync } from "../db";
 import { sql } from "drizzle-orm";
@@ -158,6 +164,8 @@ async function ensureTables() {
         txId VARCHAR(100),
         receivedAmount DECIMAL(10,2),
         adminNote TEXT,
+        bonusCredits DECIMAL(10,2) NOT NULL DEFAULT 0,
+        promoCode VARCHAR(40),
         expiresAt TIMESTAMP NOT NULL,
         paidAt TIMESTAMP NULL,
         createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
@@ -168,6 +176,92 @@ async function ensureTables() {
       )
     `);
     console.log("[Database] Recharge orders table ready");
+    try {
+      await db.execute(sql`ALTER TABLE recharge_orders ADD COLUMN bonusCredits DECIMAL(10,2) NOT NULL DEFAULT 0 AFTER adminNote, ADD COLUMN promoCode VARCHAR(40) AFTER bonusCredits`);
+      console.log("[Database] Added bonusCredits/promoCode columns to recharge_orders");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.warn("[Database] Failed to add bonus columns to recharge_orders:", e.message);
+      }
+    }
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS chain_transactions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        network VARCHAR(20) NOT NULL,
+        txId VARCHAR(100) NOT NULL,
+        fromAddress VARCHAR(100),
+        toAddress VARCHAR(100) NOT NULL,
+        amount DECIMAL(18,6) NOT NULL,
+        blockNumber INT,
+        blockTime TIMESTAMP NOT NULL,
+        orderId VARCHAR(32),
+        disposition ENUM('matched', 'mismatch', 'unmatched', 'assigned', 'ignored') NOT NULL DEFAULT 'unmatched',
+        note TEXT,
+        handledBy VARCHAR(50),
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE KEY chain_transactions_network_txId_unique (network, txId),
+        INDEX idx_disposition (disposition),
+        INDEX idx_network_toAddress (network, toAddress)
+      )
+    `);
+    console.log("[Database] Chain transactions table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS bonus_tiers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        minUsdt DECIMAL(10,2) NOT NULL,
+        bonusPercent DECIMAL(5,2) NOT NULL,
+        isActive BOOLEAN NOT NULL DEFAULT TRUE,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+    // 首次建表时写入原有的阶梯赠送规则
+    const existingTiers = await db.execute(sql`SELECT COUNT(*) as count FROM bonus_tiers`);
+    const tierCount = Number((existingTiers as any)[0]?.[0]?.count) || 0;
+    if (tierCount === 0) {
+      await db.execute(sql`
+        INSERT INTO bonus_tiers (minUsdt, bonusPercent) VALUES
+        (100, 2), (200, 4), (300, 6), (500, 8), (1000, 10), (3000, 12), (5000, 14), (10000, 15)
+      `);
+    }
+    console.log("[Database] Bonus tiers table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        code VARCHAR(40) NOT NULL,
+        bonusType ENUM('percent', 'fixed') NOT NULL,
+        bonusValue DECIMAL(10,2) NOT NULL,
+        maxUses INT,
+        usedCount INT NOT NULL DEFAULT 0,
+        firstRechargeOnly BOOLEAN NOT NULL DEFAULT FALSE,
+        expiresAt TIMESTAMP NULL,
+        isActive BOOLEAN NOT NULL DEFAULT TRUE,
+        description VARCHAR(255),
+        createdBy VARCHAR(50),
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE KEY promo_codes_code_unique (code)
+      )
+    `);
+    console.log("[Database] Promo codes table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS promo_redemptions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        promoCodeId INT NOT NULL,
+        userId INT NOT NULL,
+        orderId VARCHAR(32) NOT NULL,
+        bonusCredits DECIMAL(10,2) NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE KEY promo_redemptions_code_user_unique (promoCodeId, userId),
+        INDEX idx_orderId (orderId)
+      )
+    `);
+    console.log("[Database] Promo redemptions table ready");
     
     // 4. 搜索任务表
     await db.execute(sql`
@@ -232,15 +326,30 @@ async function ensureTables() {
         userId INT NOT NULL,
         amount DECIMAL(10,2) NOT NULL,
         balanceAfter DECIMAL(10,2) NOT NULL,
-        type ENUM('recharge', 'search', 'admin_add', 'admin_deduct', 'refund', 'admin_adjust', 'bonus') NOT NULL,
+        type ENUM('recharge', 'search', 'admin_add', 'admin_deduct', 'refund', 'admin_adjust', 'bonus', 'org_transfer') NOT NULL,
         description TEXT,
         relatedOrderId VARCHAR(32),
         relatedTaskId VARCHAR(32),
+        orgId INT NULL,
         createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
         INDEX idx_userId (userId),
-        INDEX idx_type (type)
+        INDEX idx_type (type),
+        INDEX idx_org_user_created (orgId, userId, createdAt)
       )
     `);
+    try {
+      await db.execute(sql`ALTER TABLE credit_logs MODIFY COLUMN type ENUM('recharge', 'search', 'admin_add', 'admin_deduct', 'refund', 'admin_adjust', 'bonus', 'org_transfer') NOT NULL`);
+    } catch (e: any) {
+      console.log("[Database] credit_logs.type modify error:", e.message);
+    }
+    try {
+      await db.execute(sql`ALTER TABLE credit_logs ADD COLUMN orgId INT NULL AFTER relatedTaskId, ADD INDEX idx_org_user_created (orgId, userId, createdAt)`);
+      console.log("[Database] Added orgId column to credit_logs");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.warn("[Database] Failed to add orgId column to credit_logs:", e.message);
+      }
+    }
     console.log("[Database] Credit logs table ready");
     
     // 8. 搜索日志表
@@ -278,6 +387,31 @@ async function ensureTables() {
       )
     `);
     console.log("[Database] Admin logs table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS admin_users (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        username VARCHAR(50) NOT NULL UNIQUE,
+        passwordHash VARCHAR(255) NOT NULL,
+        role ENUM('super_admin', 'finance', 'support', 'read_only') NOT NULL DEFAULT 'read_only',
+        status ENUM('active', 'disabled') NOT NULL DEFAULT 'active',
+        createdBy VARCHAR(50),
+        lastLoginAt TIMESTAMP NULL,
+        lastLoginIp VARCHAR(50),
+        passwordChangedAt TIMESTAMP NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+    try {
+      await db.execute(sql`ALTER TABLE admin_users ADD COLUMN passwordChangedAt TIMESTAMP NULL AFTER lastLoginIp`);
+      console.log("[Database] Added passwordChangedAt column to admin_users");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.warn("[Database] Failed to add passwordChangedAt column to admin_users:", e.message);
+      }
+    }
+    console.log("[Database] Admin users table ready");
     
     // 10. 登录日志表
     await db.execute(sql`
@@ -294,13 +428,47 @@ async function ensureTables() {
       )
     `);
     console.log("[Database] Login logs table ready");
+
+    // 登录会话表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        sessionId VARCHAR(64) NOT NULL UNIQUE,
+        userId INT NOT NULL,
+        deviceId VARCHAR(100),
+        deviceName VARCHAR(100) NOT NULL,
+        ipAddress VARCHAR(50),
+        userAgent TEXT,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        lastSeenAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        expiresAt TIMESTAMP NOT NULL,
+        revokedAt TIMESTAMP NULL,
+        INDEX idx_user_active (userId, revokedAt)
+      )
+    `);
+    console.log("[Database] User sessions table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS two_factor_credentials (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        subject VARCHAR(120) NOT NULL UNIQUE,
+        secret VARCHAR(64),
+        pendingSecret VARCHAR(64),
+        backupCodes JSON,
+        lastUsedStep INT,
+        enabledAt TIMESTAMP NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+      )
+    `);
+    console.log("[Database] Two-factor credentials table ready");
     
     // 11. API调用日志表
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS api_logs (
         id INT AUTO_INCREMENT PRIMARY KEY,
         userId INT,
-        apiType ENUM('apollo_search', 'apollo_enrich', 'apify_search', 'scrape_tps', 'scrape_fps') NOT NULL,
+        apiType ENUM('apollo_search', 'apollo_enrich', 'apify_search', 'scrape_tps', 'scrape_fps', 'rest_api') NOT NULL,
         endpoint VARCHAR(255),
         requestParams JSON,
         responseStatus INT,
@@ -313,6 +481,11 @@ async function ensureTables() {
         INDEX idx_apiType (apiType)
       )
     `);
+    try {
+      await db.execute(sql`ALTER TABLE api_logs MODIFY COLUMN apiType ENUM('apollo_search', 'apollo_enrich', 'apify_search', 'scrape_tps', 'scrape_fps', 'rest_api') NOT NULL`);
+    } catch (e: any) {
+      console.log("[Database] api_logs.apiType modify error:", e.message);
+    }
     console.log("[Database] API logs table ready");
     
     // ========== 辅助表 ==========
@@ -483,12 +656,14 @@ async function ensureTables() {
         id INT AUTO_INCREMENT PRIMARY KEY,
         taskId VARCHAR(32) NOT NULL UNIQUE,
         userId INT NOT NULL,
-        mode ENUM('nameOnly', 'nameLocation') NOT NULL DEFAULT 'nameOnly',
+        mode ENUM('nameOnly', 'nameLocation', 'pairs') NOT NULL DEFAULT 'nameOnly',
         names JSON NOT NULL,
         locations JSON,
+        pairs JSON,
         filters JSON,
         totalSubTasks INT NOT NULL DEFAULT 0,
         completedSubTasks INT NOT NULL DEFAULT 0,
+        completedSubTaskIndexes JSON,
         totalResults INT NOT NULL DEFAULT 0,
         searchPageRequests INT NOT NULL DEFAULT 0,
         detailPageRequests INT NOT NULL DEFAULT 0,
@@ -677,12 +852,14 @@ async function ensureTables() {
         id INT AUTO_INCREMENT PRIMARY KEY,
         taskId VARCHAR(32) NOT NULL UNIQUE,
         userId INT NOT NULL,
-        mode ENUM('nameOnly', 'nameLocation') NOT NULL DEFAULT 'nameOnly',
+        mode ENUM('nameOnly', 'nameLocation', 'pairs') NOT NULL DEFAULT 'nameOnly',
         names JSON NOT NULL,
         locations JSON,
+        pairs JSON,
         filters JSON,
         totalSubTasks INT NOT NULL DEFAULT 0,
         completedSubTasks INT NOT NULL DEFAULT 0,
+        completedSubTaskIndexes JSON,
         totalResults INT NOT NULL DEFAULT 0,
         searchPageRequests INT NOT NULL DEFAULT 0,
         detailPageRequests INT NOT NULL DEFAULT 0,
@@ -859,6 +1036,22 @@ async function ensureTables() {
         console.log("[Database] settledAt column already exists or error:", e.message);
       }
     }
+    try {
+      await db.execute(sql`ALTER TABLE agent_commissions ADD COLUMN clawbackOf INT NULL AFTER status`);
+      console.log("[Database] Added clawbackOf column to agent_commissions");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.log("[Database] clawbackOf column already exists or error:", e.message);
+      }
+    }
+    try {
+      await db.execute(sql`ALTER TABLE agent_commissions ADD COLUMN clawbackReason VARCHAR(20) NULL AFTER clawbackOf`);
+      console.log("[Database] Added clawbackReason column to agent_commissions");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.log("[Database] clawbackReason column already exists or error:", e.message);
+      }
+    }
     
     // 代理提现申请表
     await db.execute(sql`
@@ -929,6 +1122,23 @@ async function ensureTables() {
     `);
     console.log("[Database] Agent settings table ready");
     
+    // 代理等级变更记录表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS agent_level_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        agentId INT NOT NULL,
+        fromLevel VARCHAR(20) NOT NULL,
+        toLevel VARCHAR(20) NOT NULL,
+        source ENUM('auto', 'admin') NOT NULL,
+        teamRecharge DECIMAL(12,2),
+        activeInvitees INT,
+        operator VARCHAR(50),
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_agentId (agentId)
+      )
+    `);
+    console.log("[Database] Agent level history table ready");
+    
     // 代理申请表
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS agent_applications (
@@ -993,12 +1203,14 @@ async function ensureTables() {
         id INT AUTO_INCREMENT PRIMARY KEY,
         taskId VARCHAR(32) NOT NULL UNIQUE,
         userId INT NOT NULL,
-        mode ENUM('nameOnly', 'nameLocation') NOT NULL DEFAULT 'nameOnly',
+        mode ENUM('nameOnly', 'nameLocation', 'pairs') NOT NULL DEFAULT 'nameOnly',
         names JSON NOT NULL,
         locations JSON,
+        pairs JSON,
         filters JSON,
         totalSubTasks INT NOT NULL DEFAULT 0,
         completedSubTasks INT NOT NULL DEFAULT 0,
+        completedSubTaskIndexes JSON,
         totalResults INT NOT NULL DEFAULT 0,
         searchPageRequests INT NOT NULL DEFAULT 0,
         detailPageRequests INT NOT NULL DEFAULT 0,
@@ -1097,10 +1309,302 @@ async function ensureTables() {
       ('min_withdrawal', '50', '最低提现金额(USDT)'),
       ('settlement_days', '7', '佣金结算冻结天数'),
       ('activity_bonus', '3', '开业活动额外奖励'),
-      ('activity_end_date', '2026-02-28', '开业活动结束日期')
+      ('activity_end_date', '2026-02-28', '开业活动结束日期'),
+      ('level_auto_enabled', 'false', '是否按团队业绩自动升降代理等级'),
+      ('level_window_days', '30', '等级评估统计窗口天数'),
+      ('silver_min_team_recharge', '1000', '银牌代理窗口内最低团队充值(USDT)'),
+      ('silver_min_active_invitees', '5', '银牌代理窗口内最低有效直推人数'),
+      ('gold_min_team_recharge', '5000', '金牌代理窗口内最低团队充值(USDT)'),
+      ('gold_min_active_invitees', '20', '金牌代理窗口内最低有效直推人数')
     `);
     console.log("[Database] Default agent settings inserted");
     
+    // ========== 瀑布式搜索模块 ==========
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS waterfall_search_tasks (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        taskId VARCHAR(32) NOT NULL UNIQUE,
+        userId INT NOT NULL,
+        mode ENUM('nameOnly', 'nameLocation') NOT NULL DEFAULT 'nameOnly',
+        names JSON NOT NULL,
+        locations JSON,
+        filters JSON,
+        sourceOrder JSON NOT NULL,
+        fallthroughOn ENUM('phone', 'email') NOT NULL DEFAULT 'phone',
+        stages JSON,
+        pendingNames JSON,
+        totalResults INT NOT NULL DEFAULT 0,
+        resolvedNames INT NOT NULL DEFAULT 0,
+        creditsUsed DECIMAL(10,2) NOT NULL DEFAULT 0,
+        status ENUM('pending', 'running', 'completed', 'failed', 'cancelled', 'insufficient_credits') NOT NULL DEFAULT 'pending',
+        progress INT NOT NULL DEFAULT 0,
+        logs JSON,
+        errorMessage TEXT,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        startedAt TIMESTAMP NULL,
+        completedAt TIMESTAMP NULL,
+        INDEX idx_userId (userId),
+        INDEX idx_status (status)
+      )
+    `);
+    console.log("[Database] Waterfall search tasks table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS waterfall_search_results (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        taskId INT NOT NULL,
+        source ENUM('tps', 'spf', 'anywho') NOT NULL,
+        searchName VARCHAR(200),
+        searchLocation VARCHAR(200),
+        name VARCHAR(200),
+        age INT,
+        city VARCHAR(100),
+        state VARCHAR(50),
+        location VARCHAR(200),
+        phone VARCHAR(50),
+        phoneType VARCHAR(50),
+        carrier VARCHAR(100),
+        allPhones JSON,
+        email VARCHAR(200),
+        allEmails JSON,
+        detailLink VARCHAR(500),
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_taskId (taskId)
+      )
+    `);
+    console.log("[Database] Waterfall search results table ready");
+
+    // ========== 电话反查模块 ==========
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS phone_lookup_tasks (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        taskId VARCHAR(32) NOT NULL UNIQUE,
+        userId INT NOT NULL,
+        phones JSON NOT NULL,
+        totalPhones INT NOT NULL DEFAULT 0,
+        completedPhones INT NOT NULL DEFAULT 0,
+        foundPhones INT NOT NULL DEFAULT 0,
+        cacheHits INT NOT NULL DEFAULT 0,
+        creditsUsed DECIMAL(10,2) NOT NULL DEFAULT 0,
+        status ENUM('pending', 'running', 'completed', 'failed', 'cancelled', 'insufficient_credits') NOT NULL DEFAULT 'pending',
+        progress INT NOT NULL DEFAULT 0,
+        logs JSON,
+        errorMessage TEXT,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        startedAt TIMESTAMP NULL,
+        completedAt TIMESTAMP NULL,
+        INDEX idx_userId (userId),
+        INDEX idx_status (status)
+      )
+    `);
+    console.log("[Database] Phone lookup tasks table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS phone_lookup_results (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        taskId INT NOT NULL,
+        phone VARCHAR(20) NOT NULL,
+        found BOOLEAN NOT NULL DEFAULT FALSE,
+        name VARCHAR(200),
+        age INT,
+        city VARCHAR(100),
+        state VARCHAR(50),
+        phoneType VARCHAR(50),
+        carrier VARCHAR(100),
+        source VARCHAR(50),
+        fromCache BOOLEAN NOT NULL DEFAULT FALSE,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_taskId (taskId)
+      )
+    `);
+    console.log("[Database] Phone lookup results table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS phone_lookup_cache (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        phone VARCHAR(20) NOT NULL UNIQUE,
+        data JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        expiresAt TIMESTAMP NOT NULL,
+        INDEX idx_expiresAt (expiresAt)
+      )
+    `);
+    console.log("[Database] Phone lookup cache table ready");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS task_jobs (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        source ENUM('tps', 'spf', 'anywho', 'waterfall', 'linkedin', 'phone_lookup') NOT NULL,
+        taskId VARCHAR(32) NOT NULL,
+        taskDbId INT NOT NULL,
+        userId INT NOT NULL,
+        payload JSON,
+        status ENUM('running', 'completed', 'failed') DEFAULT 'running' NOT NULL,
+        attempts INT DEFAULT 1 NOT NULL,
+        savedResults INT DEFAULT 0 NOT NULL,
+        savedSubTasks INT DEFAULT 0 NOT NULL,
+        leaseOwner VARCHAR(100),
+        leaseExpiresAt TIMESTAMP NULL,
+        attemptStartedAt TIMESTAMP NULL,
+        lastError TEXT,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE KEY uk_source_task (source, taskId),
+        INDEX idx_status_lease (status, leaseExpiresAt)
+      )
+    `);
+    console.log("[Database] Task jobs table ready");
+    try {
+      await db.execute(sql`ALTER TABLE task_jobs MODIFY COLUMN source ENUM('tps', 'spf', 'anywho', 'waterfall', 'linkedin', 'phone_lookup') NOT NULL`);
+    } catch (e: any) {
+      console.log("[Database] task_jobs.source modify error:", e.message);
+    }
+    try {
+      await db.execute(sql`ALTER TABLE task_jobs ADD COLUMN savedSubTasks INT DEFAULT 0 NOT NULL AFTER savedResults`);
+      console.log("[Database] Added column savedSubTasks to task_jobs");
+    } catch (e: any) {
+      if (!e.message?.includes('Duplicate column')) {
+        console.warn("[Database] Failed to add column savedSubTasks to task_jobs:", e.message);
+      }
+    }
+
+    // 子任务完成记录（继续执行时跳过已完成的子任务）
+    for (const table of ['tps_search_tasks', 'spf_search_tasks', 'anywho_search_tasks']) {
+      try {
+        await db.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN completedSubTaskIndexes JSON AFTER completedSubTasks`));
+        console.log(`[Database] Added column completedSubTaskIndexes to ${table}`);
+      } catch (e: any) {
+        if (!e.message?.includes('Duplicate column')) {
+          console.warn(`[Database] Failed to add column completedSubTaskIndexes to ${table}:`, e.message);
+        }
+      }
+    }
+
+    // 配对搜索模式（pairs 列保存「姓名 + 地点」配对）
+    for (const table of ['tps_search_tasks', 'spf_search_tasks', 'anywho_search_tasks']) {
+      try {
+        await db.execute(sql.raw(`ALTER TABLE ${table} MODIFY COLUMN mode ENUM('nameOnly', 'nameLocation', 'pairs') NOT NULL DEFAULT 'nameOnly'`));
+      } catch (e: any) {
+        console.log(`[Database] ${table}.mode modify error:`, e.message);
+      }
+      try {
+        await db.execute(sql.raw(`ALTER TABLE ${table} ADD COLUMN pairs JSON AFTER locations`));
+        console.log(`[Database] Added column pairs to ${table}`);
+      } catch (e: any) {
+        if (!e.message?.includes('Duplicate column')) {
+          console.warn(`[Database] Failed to add column pairs to ${table}:`, e.message);
+        }
+      }
+    }
+
+    // 开放 API 密钥表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        userId INT NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        keyPrefix VARCHAR(16) NOT NULL,
+        keyHash VARCHAR(64) NOT NULL UNIQUE,
+        rateLimitPerMinute INT NOT NULL DEFAULT 60,
+        lastUsedAt TIMESTAMP NULL,
+        revokedAt TIMESTAMP NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_userId (userId)
+      )
+    `);
+    console.log("[Database] API keys table ready");
+
+    // Webhook 表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        userId INT NOT NULL,
+        url VARCHAR(500) NOT NULL,
+        description VARCHAR(100),
+        secret VARCHAR(64) NOT NULL,
+        isActive BOOLEAN NOT NULL DEFAULT TRUE,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_userId (userId)
+      )
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        webhookId INT NOT NULL,
+        userId INT NOT NULL,
+        event ENUM('task.completed', 'task.failed', 'task.insufficient_credits', 'webhook.test') NOT NULL,
+        source VARCHAR(20) NOT NULL,
+        taskId VARCHAR(32),
+        payload JSON NOT NULL,
+        status ENUM('pending', 'success', 'failed') NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        nextAttemptAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        responseStatus INT,
+        lastError TEXT,
+        deliveredAt TIMESTAMP NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_status_next (status, nextAttemptAt),
+        INDEX idx_user_created (userId, createdAt),
+        INDEX idx_webhookId (webhookId)
+      )
+    `);
+    console.log("[Database] Webhook tables ready");
+
+    // 导出预设表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS export_presets (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        userId INT NOT NULL,
+        source VARCHAR(20) NOT NULL,
+        name VARCHAR(50) NOT NULL,
+        options JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        UNIQUE KEY uk_user_source_name (userId, source, name)
+      )
+    `);
+    console.log("[Database] Export presets table ready");
+
+    // 团队空间表
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS organizations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        ownerId INT NOT NULL,
+        credits DECIMAL(10,2) NOT NULL DEFAULT 0,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_ownerId (ownerId)
+      )
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS organization_members (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        orgId INT NOT NULL,
+        userId INT NOT NULL UNIQUE,
+        role ENUM('owner', 'admin', 'member', 'viewer') NOT NULL DEFAULT 'member',
+        monthlyCreditCap DECIMAL(10,2) NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        INDEX idx_orgId (orgId)
+      )
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS organization_invites (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        orgId INT NOT NULL,
+        email VARCHAR(320) NOT NULL,
+        role ENUM('admin', 'member', 'viewer') NOT NULL DEFAULT 'member',
+        invitedBy INT NOT NULL,
+        status ENUM('pending', 'accepted', 'declined', 'revoked') NOT NULL DEFAULT 'pending',
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        respondedAt TIMESTAMP NULL,
+        INDEX idx_email_status (email, status),
+        INDEX idx_orgId (orgId)
+      )
+    `);
+    console.log("[Database] Organization tables ready");
+
     // ========== 数据迁移 ==========
     await migrateOldData(db);
     
@@ -1124,12 +1628,20 @@ async function startServer() {
   registerOAuthRoutes(app);
   
   // Apollo Webhook 已移除 - 现在使用 Apify 同步获取数据
+  // 开放 REST API（API 密钥鉴权）under /api/v1
+  registerRestApiRoutes(app);
+  // 搜索结果流式下载 under /api/export
+  registerExportRoutes(app);
+  // 充值收据、月结单下载 under /api/billing
+  registerBillingRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
     createExpressMiddleware({
       router: appRouter,
       createContext,
+      // 批量上传的预估查询输入过大，前端改用 POST 发送（见 client/src/main.tsx）
+      allowMethodOverride: true,
     })
   );
   // development mode uses Vite, production mode uses static files
@@ -1153,6 +1665,14 @@ async function startServer() {
   server.listen(port, host, () => {
     console.log(`Server running on http://${host}:${port}/`);
     
+    // 启动任务恢复服务（每分钟检查一次）：接管租约过期的任务，启动时处理上次退出遗留的任务
+    startTaskRecovery(60 * 1000);
+    console.log("[Background] Task recovery started");
+
+    // 启动 Webhook 投递服务（每30秒检查一次待重试的投递）
+    startWebhookDispatcher(30 * 1000);
+    console.log("[Background] Webhook dispatcher started");
+
     // 启动后台服务
     if (process.env.NODE_ENV === 'production') {
       // 启动USDT自动检测服务（每30秒检查一次）
@@ -1166,6 +1686,10 @@ async function startServer() {
       // 启动佣金自动结算服务（每小时检查一次）
       startCommissionSettlement(60 * 60 * 1000);
       console.log("[Background] Commission settlement service started");
+      
+      // 启动代理等级自动评估服务（每6小时检查一次）
+      startAgentLevelEvaluation(6 * 60 * 60 * 1000);
+      console.log("[Background] Agent level evaluation service started");
     }
   });
 }
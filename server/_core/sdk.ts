@@ -6,6 +6,8 @@ export type SessionPayload = {
   openId: string;
   appId: string;
   name: string;
+  /** 登录会话ID（user_sessions.sessionId） */
+  sid?: string;
 };
 
 class SDKServer {
@@ -19,13 +21,14 @@ class SDKServer {
    */
   async createSessionToken(
     openId: string,
-    options: { expiresInMs?: number; name?: string } = {}
+    options: { expiresInMs?: number; name?: string; sessionId?: string } = {}
   ): Promise<string> {
     return this.signSession(
       {
         openId,
         appId: ENV.appId || "datareach",
         name: options.name || "",
+        sid: options.sessionId,
       },
       options
     );
@@ -44,6 +47,7 @@ class SDKServer {
       openId: payload.openId,
       appId: payload.appId,
       name: payload.name,
+      ...(payload.sid ? { sid: payload.sid } : {}),
     })
       .setProtectedHeader({ alg: "HS256", typ: "JWT" })
       .setExpirationTime(expirationSeconds)
@@ -52,7 +56,7 @@ class SDKServer {
 
   async verifySession(
     cookieValue: string | undefined | null
-  ): Promise<{ openId: string; appId: string; name: string } | null> {
+  ): Promise<SessionPayload | null> {
     if (!cookieValue) {
       return null;
     }
@@ -62,7 +66,7 @@ class SDKServer {
       const { payload } = await jwtVerify(cookieValue, secretKey, {
         algorithms: ["HS256"],
       });
-      const { openId, appId, name } = payload as Record<string, unknown>;
+      const { openId, appId, name, sid } = payload as Record<string, unknown>;
 
       if (
         typeof openId !== "string" ||
@@ -72,7 +76,7 @@ class SDKServer {
         return null;
       }
 
-      return { openId, appId, name };
+      return { openId, appId, name, sid: typeof sid === "string" ? sid : undefined };
     } catch (error) {
       console.warn("[Auth] Session verification failed", String(error));
       return null;
@@ -17,7 +17,7 @@ import { wsManager, type WsMessage } from "./wsManager";
 export function emitTaskProgress(
   userId: number,
   taskId: string,
-  source: "tps" | "spf" | "anywho",
+  source: "tps" | "spf" | "anywho" | "waterfall" | "phone_lookup",
   data: Record<string, any>
 ): void {
   try {
@@ -39,7 +39,7 @@ export function emitTaskProgress(
 export function emitTaskCompleted(
   userId: number,
   taskId: string,
-  source: "tps" | "spf" | "anywho",
+  source: "tps" | "spf" | "anywho" | "waterfall" | "phone_lookup",
   data: Record<string, any>
 ): void {
   try {
@@ -61,7 +61,7 @@ export function emitTaskCompleted(
 export function emitTaskFailed(
   userId: number,
   taskId: string,
-  source: "tps" | "spf" | "anywho",
+  source: "tps" | "spf" | "anywho" | "waterfall" | "phone_lookup",
   data: Record<string, any>
 ): void {
   try {
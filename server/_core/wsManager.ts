@@ -20,13 +20,14 @@ import { jwtVerify } from "jose";
 import { COOKIE_NAME } from "@shared/const";
 import { ENV } from "./env";
 import * as db from "../db";
+import { validateUserSession } from "../sessions/db";
 
 // ==================== 消息类型定义 ====================
 
 export interface WsMessage {
   type: "task_progress" | "task_completed" | "task_failed" | "credits_update" | "notification" | "pong" | "connected";
   taskId?: string;
-  source?: "tps" | "spf" | "anywho" | "linkedin";
+  source?: "tps" | "spf" | "anywho" | "linkedin" | "waterfall" | "phone_lookup";
   data?: Record<string, any>;
   timestamp: string;
 }
@@ -37,6 +38,8 @@ interface ConnectionInfo {
   ws: WebSocket;
   userId: number;
   userName: string;
+  /** 登录会话ID，会话被撤销时关闭连接 */
+  sessionId: string;
   connectedAt: Date;
   lastPong: Date;
   isAlive: boolean;
@@ -122,6 +125,7 @@ class WsManager {
       ws,
       userId: user.id,
       userName: user.name,
+      sessionId: user.sessionId,
       connectedAt: new Date(),
       lastPong: new Date(),
       isAlive: true,
@@ -176,7 +180,7 @@ class WsManager {
    * 从HTTP请求的Cookie中解析并验证用户身份
    * 复用现有的JWT认证逻辑
    */
-  private async authenticateFromCookie(req: IncomingMessage): Promise<{ id: number; name: string } | null> {
+  private async authenticateFromCookie(req: IncomingMessage): Promise<{ id: number; name: string; sessionId: string } | null> {
     try {
       const cookieHeader = req.headers.cookie;
       if (!cookieHeader) return null;
@@ -191,14 +195,14 @@ class WsManager {
         algorithms: ["HS256"],
       });
 
-      const { openId } = payload as Record<string, unknown>;
-      if (typeof openId !== "string") return null;
+      const { openId, sid } = payload as Record<string, unknown>;
+      if (typeof openId !== "string" || typeof sid !== "string") return null;
 
-      // 通过openId查找用户
+      // 通过openId查找用户，并校验会话未被撤销
       const user = await db.getUserByOpenId(openId);
-      if (!user) return null;
+      if (!user || !(await validateUserSession(sid, user.id))) return null;
 
-      return { id: user.id, name: user.name };
+      return { id: user.id, name: user.name, sessionId: sid };
     } catch (error) {
       console.warn("[WS] Authentication failed:", String(error));
       return null;
@@ -277,6 +281,31 @@ class WsManager {
     }
   }
 
+  /**
+   * 关闭已撤销会话的所有连接
+   *
+   * @param sessionIds - 被撤销的会话ID
+   */
+  closeSessions(sessionIds: string[]): void {
+    if (sessionIds.length === 0) return;
+    try {
+      const revoked = new Set(sessionIds);
+      this.connections.forEach((connections, userId) => {
+        connections.forEach(connInfo => {
+          if (revoked.has(connInfo.sessionId)) {
+            connInfo.ws.close(4003, "Session revoked");
+            connections.delete(connInfo);
+          }
+        });
+        if (connections.size === 0) {
+          this.connections.delete(userId);
+        }
+      });
+    } catch (error) {
+      console.error("[WS] Failed to close revoked sessions:", error);
+    }
+  }
+
   /**
    * 向所有连接的用户广播消息（用于系统通知）
    */
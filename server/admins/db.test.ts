@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { isAdminTokenRevoked } from "./db";
+
+const CHANGED_AT = new Date("2026-10-01T09:00:00Z");
+
+// JWT 的 iat 为秒
+function iat(time: string): number {
+  return Math.floor(new Date(time).getTime() / 1000);
+}
+
+describe("isAdminTokenRevoked", () => {
+  it("keeps tokens of an admin who never changed the password", () => {
+    expect(isAdminTokenRevoked({ passwordChangedAt: null }, iat("2026-10-01T08:00:00Z"))).toBe(false);
+  });
+
+  it("revokes a token issued before the password change", () => {
+    expect(isAdminTokenRevoked({ passwordChangedAt: CHANGED_AT }, iat("2026-10-01T08:59:59Z"))).toBe(true);
+  });
+
+  it("keeps a token issued in the same second as the change", () => {
+    expect(isAdminTokenRevoked({ passwordChangedAt: CHANGED_AT }, iat("2026-10-01T09:00:00.900Z"))).toBe(false);
+  });
+
+  it("keeps a token issued after the password change", () => {
+    expect(isAdminTokenRevoked({ passwordChangedAt: CHANGED_AT }, iat("2026-10-01T10:00:00Z"))).toBe(false);
+  });
+
+  it("revokes a token without an issue time once the password was changed", () => {
+    expect(isAdminTokenRevoked({ passwordChangedAt: CHANGED_AT }, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * 管理员账户数据库操作
+ *
+ * 管理员表为空时，环境变量 ADMIN_USERNAME / ADMIN_PASSWORD 配置的账户在首次登录时写入为超级管理员，
+ * 此后所有管理员都从数据库认证
+ */
+
+import bcrypt from "bcryptjs";
+import { getDb } from "../db";
+import { adminUsers, AdminRole, AdminUser } from "../../drizzle/schema";
+import { eq, asc, and, ne, sql } from "drizzle-orm";
+import { validateAdminCredentials } from "../_core/adminAuth";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+/** 对外返回的管理员字段（不含密码哈希） */
+const publicColumns = {
+  id: adminUsers.id,
+  username: adminUsers.username,
+  role: adminUsers.role,
+  status: adminUsers.status,
+  createdBy: adminUsers.createdBy,
+  lastLoginAt: adminUsers.lastLoginAt,
+  lastLoginIp: adminUsers.lastLoginIp,
+  createdAt: adminUsers.createdAt,
+};
+
+async function countAdmins(): Promise<number> {
+  const database = await db();
+  const rows = await database.select({ count: sql<number>`count(*)` }).from(adminUsers);
+  return Number(rows[0]?.count) || 0;
+}
+
+/**
+ * 按用户名获取管理员
+ */
+export async function getAdminByUsername(username: string) {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(adminUsers)
+    .where(eq(adminUsers.username, username))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * 校验管理员用户名密码，成功返回管理员（已禁用的账户返回 null）
+ */
+export async function authenticateAdmin(username: string, password: string) {
+  // 首次启用：用环境变量中的账户初始化超级管理员
+  if (await countAdmins() === 0) {
+    if (!validateAdminCredentials(username, password)) return null;
+    const database = await db();
+    await database.insert(adminUsers).values({
+      username,
+      passwordHash: await bcrypt.hash(password, PASSWORD_HASH_ROUNDS),
+      role: "super_admin",
+      createdBy: "env",
+    });
+    console.log(`[Admin] Bootstrapped super admin "${username}" from environment`);
+  }
+
+  const admin = await getAdminByUsername(username);
+  if (!admin || admin.status !== "active") return null;
+  if (!(await bcrypt.compare(password, admin.passwordHash))) return null;
+  return admin;
+}
+
+/**
+ * 记录最近登录
+ */
+export async function recordAdminLogin(id: number, ipAddress: string | null): Promise<void> {
+  const database = await db();
+  await database
+    .update(adminUsers)
+    .set({ lastLoginAt: new Date(), lastLoginIp: ipAddress })
+    .where(eq(adminUsers.id, id));
+}
+
+/**
+ * 管理员列表
+ */
+export async function listAdmins() {
+  const database = await db();
+  return database.select(publicColumns).from(adminUsers).orderBy(asc(adminUsers.id));
+}
+
+/**
+ * 获取管理员（不含密码哈希）
+ */
+export async function getAdminById(id: number) {
+  const database = await db();
+  const rows = await database.select(publicColumns).from(adminUsers).where(eq(adminUsers.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * 创建管理员，用户名已存在时返回 null
+ */
+export async function createAdmin(data: {
+  username: string;
+  password: string;
+  role: AdminRole;
+  createdBy: string;
+}): Promise<number | null> {
+  if (await getAdminByUsername(data.username)) return null;
+  const database = await db();
+  const result = await database.insert(adminUsers).values({
+    username: data.username,
+    passwordHash: await bcrypt.hash(data.password, PASSWORD_HASH_ROUNDS),
+    role: data.role,
+    createdBy: data.createdBy,
+  });
+  return Number(result[0].insertId);
+}
+
+/**
+ * 修改管理员角色或状态
+ */
+export async function updateAdmin(id: number, data: { role?: AdminRole; status?: "active" | "disabled" }): Promise<boolean> {
+  const set: Partial<typeof adminUsers.$inferInsert> = {};
+  if (data.role !== undefined) set.role = data.role;
+  if (data.status !== undefined) set.status = data.status;
+  if (Object.keys(set).length === 0) return true;
+
+  const database = await db();
+  const result = await database.update(adminUsers).set(set).where(eq(adminUsers.id, id));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 重置管理员密码，该管理员此前签发的JWT全部失效
+ *
+ * 改密时间取整到秒，与JWT的 iat 精度一致，改密后立即签发的令牌仍然有效
+ */
+export async function setAdminPassword(id: number, password: string): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(adminUsers)
+    .set({
+      passwordHash: await bcrypt.hash(password, PASSWORD_HASH_ROUNDS),
+      passwordChangedAt: new Date(Math.floor(Date.now() / 1000) * 1000),
+    })
+    .where(eq(adminUsers.id, id));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 管理员JWT是否签发于最近一次改密之前（iat 为秒）
+ */
+export function isAdminTokenRevoked(admin: Pick<AdminUser, "passwordChangedAt">, issuedAt: number | undefined): boolean {
+  if (!admin.passwordChangedAt) return false;
+  return (issuedAt ?? 0) < Math.floor(new Date(admin.passwordChangedAt).getTime() / 1000);
+}
+
+/**
+ * 按已验签的管理员JWT获取管理员：账户不存在、已禁用或令牌已因改密失效时返回 null
+ */
+export async function getAdminForToken(payload: { username: string; iat?: number }) {
+  const admin = await getAdminByUsername(payload.username);
+  if (!admin || admin.status !== "active" || isAdminTokenRevoked(admin, payload.iat)) return null;
+  return admin;
+}
+
+/**
+ * 除指定管理员外，仍处于启用状态的超级管理员数量（防止最后一个超级管理员被降级或禁用）
+ */
+export async function countOtherActiveSuperAdmins(excludeId: number): Promise<number> {
+  const database = await db();
+  const rows = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(adminUsers)
+    .where(and(
+      eq(adminUsers.role, "super_admin"),
+      eq(adminUsers.status, "active"),
+      ne(adminUsers.id, excludeId)
+    ));
+  return Number(rows[0]?.count) || 0;
+}
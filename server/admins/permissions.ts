@@ -0,0 +1,55 @@
+/**
+ * 管理员角色与权限
+ *
+ * 所有角色都可以查看后台数据；修改类操作按权限划分：
+ * - super_admin 超级管理员：全部权限，含管理员账户管理
+ * - finance 财务：积分调整、订单处理与退款、代理提现结算
+ * - support 客服：用户管理、公告消息与反馈处理
+ * - read_only 只读：仅查看
+ */
+
+import type { AdminRole } from "../../drizzle/schema";
+
+export const ADMIN_PERMISSIONS = [
+  "users.manage",      // 禁用用户、修改角色、强制下线、重置密码与两步验证
+  "credits.adjust",    // 调整用户积分
+  "orders.manage",     // 确认、取消、标记充值订单
+  "orders.refund",     // 充值订单退款
+  "agents.manage",     // 代理审核、等级、用户归属
+  "agents.finance",    // 代理提现审核、佣金结算、余额调整
+  "config.write",      // 修改系统配置与代理设置
+  "content.manage",    // 公告、站内信、反馈、错误日志处理
+  "admins.manage",     // 管理员账户管理
+] as const;
+
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export const ADMIN_ROLES: AdminRole[] = ["super_admin", "finance", "support", "read_only"];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: "超级管理员",
+  finance: "财务",
+  support: "客服",
+  read_only: "只读",
+};
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  super_admin: ADMIN_PERMISSIONS,
+  finance: ["credits.adjust", "orders.manage", "orders.refund", "agents.finance"],
+  support: ["users.manage", "content.manage", "agents.manage"],
+  read_only: [],
+};
+
+/**
+ * 角色拥有的权限
+ */
+export function getRolePermissions(role: AdminRole): AdminPermission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+/**
+ * 角色是否拥有某项权限
+ */
+export function hasAdminPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
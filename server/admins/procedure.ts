@@ -0,0 +1,65 @@
+/**
+ * 管理员 tRPC 过程
+ *
+ * 每次请求校验管理员JWT后从数据库读取管理员，角色调整、禁用和改密立即生效；
+ * ctx.adminUser 为实际操作人，admin_logs 据此记录
+ */
+
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "../_core/trpc";
+import { verifyAdminToken, getAdminTokenFromHeader } from "../_core/adminAuth";
+import type { AdminRole } from "../../drizzle/schema";
+import { getAdminForToken } from "./db";
+import { AdminPermission, getRolePermissions, hasAdminPermission } from "./permissions";
+
+export interface AdminContextUser {
+  id: number;
+  username: string;
+  role: AdminRole;
+}
+
+// 管理员权限检查 - 使用独立的管理员token验证
+export const adminProcedure = publicProcedure.use(async ({ ctx, next }) => {
+  const adminToken = getAdminTokenFromHeader(ctx.req.headers as Record<string, string | string[] | undefined>);
+
+  if (!adminToken) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "需要管理员登录" });
+  }
+
+  const payload = verifyAdminToken(adminToken);
+  if (!payload) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员Token无效或已过期" });
+  }
+
+  const admin = await getAdminForToken(payload);
+  if (!admin) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员账户不存在、已禁用或密码已修改，请重新登录" });
+  }
+
+  const adminUser: AdminContextUser = { id: admin.id, username: admin.username, role: admin.role };
+  return next({
+    ctx: {
+      ...ctx,
+      adminUser,
+    },
+  });
+});
+
+/**
+ * 需要指定权限的管理员过程
+ */
+export function adminPermissionProcedure(permission: AdminPermission) {
+  return adminProcedure.use(({ ctx, next }) => {
+    if (!hasAdminPermission(ctx.adminUser.role, permission)) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "当前管理员角色无权执行此操作" });
+    }
+    return next();
+  });
+}
+
+/**
+ * 当前管理员的权限列表（前端据此隐藏无权限的操作）
+ */
+export function getAdminContextPermissions(adminUser: AdminContextUser): AdminPermission[] {
+  return getRolePermissions(adminUser.role);
+}
@@ -0,0 +1,133 @@
+/**
+ * 管理员账户 tRPC 路由
+ *
+ * 超级管理员创建、停用管理员并分配角色；每个管理员可修改自己的密码
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import bcrypt from "bcryptjs";
+import { router } from "../_core/trpc";
+import { generateAdminToken } from "../_core/adminAuth";
+import { logAdmin } from "../db";
+import { adminSubject, disableTwoFactor, getTwoFactorStatus } from "../twoFactor/db";
+import { getRequestOrigin } from "../twoFactor/guard";
+import { adminProcedure, adminPermissionProcedure, getAdminContextPermissions } from "./procedure";
+import {
+  listAdmins,
+  getAdminById,
+  getAdminByUsername,
+  createAdmin,
+  updateAdmin,
+  setAdminPassword,
+  countOtherActiveSuperAdmins,
+} from "./db";
+
+const roleSchema = z.enum(["super_admin", "finance", "support", "read_only"]);
+const passwordSchema = z.string().min(10, "密码至少10位").max(128);
+
+const manageProcedure = adminPermissionProcedure("admins.manage");
+
+export const adminAccountsRouter = router({
+  // 当前管理员及其权限
+  me: adminProcedure.query(async ({ ctx }) => {
+    return {
+      ...ctx.adminUser,
+      permissions: getAdminContextPermissions(ctx.adminUser),
+    };
+  }),
+
+  // 管理员列表
+  list: manageProcedure.query(async () => {
+    const admins = await listAdmins();
+    return Promise.all(admins.map(async admin => ({
+      ...admin,
+      twoFactorEnabled: (await getTwoFactorStatus(adminSubject(admin.username))).enabled,
+    })));
+  }),
+
+  // 创建管理员（首次登录时绑定两步验证）
+  create: manageProcedure
+    .input(z.object({
+      username: z.string().trim().min(3, "用户名至少3位").max(50).regex(/^[a-zA-Z0-9_.-]+$/, "用户名只能包含字母、数字、下划线、点和连字符"),
+      password: passwordSchema,
+      role: roleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const id = await createAdmin({ ...input, createdBy: ctx.adminUser.username });
+      if (id === null) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "用户名已存在" });
+      }
+      await logAdmin(ctx.adminUser.username, 'create_admin', 'admin', input.username, { role: input.role }, getRequestOrigin(ctx.req).ipAddress ?? undefined);
+      return { id };
+    }),
+
+  // 修改角色或启用状态
+  update: manageProcedure
+    .input(z.object({
+      id: z.number(),
+      role: roleSchema.optional(),
+      status: z.enum(["active", "disabled"]).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const target = await getAdminById(input.id);
+      if (!target) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "管理员不存在" });
+      }
+      const losesSuperAdmin = target.role === "super_admin" && target.status === "active" &&
+        ((input.role && input.role !== "super_admin") || input.status === "disabled");
+      if (losesSuperAdmin && await countOtherActiveSuperAdmins(target.id) === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "至少需要保留一个启用的超级管理员" });
+      }
+
+      await updateAdmin(input.id, { role: input.role, status: input.status });
+      await logAdmin(ctx.adminUser.username, 'update_admin', 'admin', target.username, { role: input.role, status: input.status }, getRequestOrigin(ctx.req).ipAddress ?? undefined);
+      return { success: true };
+    }),
+
+  // 重置其他管理员的密码，可同时重置两步验证（丢失验证器时的恢复方式）
+  resetCredentials: manageProcedure
+    .input(z.object({
+      id: z.number(),
+      password: passwordSchema.optional(),
+      resetTwoFactor: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const target = await getAdminById(input.id);
+      if (!target) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "管理员不存在" });
+      }
+      if (target.id === ctx.adminUser.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "请在个人设置中修改自己的密码" });
+      }
+
+      if (input.password) {
+        await setAdminPassword(target.id, input.password);
+      }
+      if (input.resetTwoFactor) {
+        await disableTwoFactor(adminSubject(target.username));
+      }
+      await logAdmin(ctx.adminUser.username, 'reset_admin_credentials', 'admin', target.username, {
+        password: !!input.password,
+        twoFactor: input.resetTwoFactor,
+      }, getRequestOrigin(ctx.req).ipAddress ?? undefined);
+      return { success: true };
+    }),
+
+  // 修改自己的密码，返回新的管理员令牌
+  changeOwnPassword: adminProcedure
+    .input(z.object({
+      currentPassword: z.string().min(1, "请输入当前密码"),
+      newPassword: passwordSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const admin = await getAdminByUsername(ctx.adminUser.username);
+      if (!admin || !(await bcrypt.compare(input.currentPassword, admin.passwordHash))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "当前密码错误" });
+      }
+      await setAdminPassword(admin.id, input.newPassword);
+      await logAdmin(ctx.adminUser.username, 'change_admin_password', 'admin', admin.username, undefined, getRequestOrigin(ctx.req).ipAddress ?? undefined);
+      // 改密后旧令牌全部失效（含其他设备），为当前会话签发新令牌
+      return { success: true, token: generateAdminToken(admin.username) };
+    }),
+});
@@ -7,7 +7,7 @@ import { TRPCError } from "@trpc/server";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { publicProcedure, protectedProcedure, router } from "../_core/trpc";
-import { verifyAdminToken, getAdminTokenFromHeader } from "../_core/adminAuth";
+import { adminProcedure, adminPermissionProcedure } from "../admins/procedure";
 import { getDbSync, getUserByEmail, getUserById } from "../db";
 import { users, agentCommissions, agentWithdrawals } from "../../drizzle/schema";
 import { eq, and, desc, sql, gte, lte } from "drizzle-orm";
@@ -32,6 +32,8 @@ import {
   getAllAgents,
   getAllWithdrawals,
   setAgentLevel,
+  evaluateAgentLevels,
+  getAgentLevelHistory,
   settlePendingCommissions,
   generateInviteCode,
 } from "../agentDb";
@@ -635,6 +637,8 @@ export const agentRouter = router({
       rate: parseFloat(c.commissionRate).toFixed(0),
       amount: (parseFloat(c.commissionAmount) + parseFloat(c.bonusAmount || '0')).toFixed(2),
       status: c.status,
+      // 退款或金额调减时追回的佣金（金额为负数）
+      clawbackReason: c.clawbackOf ? (c.clawbackReason || 'refund') : null,
       time: new Date(c.createdAt).toLocaleDateString('zh-CN'),
     }));
     
@@ -853,6 +857,7 @@ async function getAgentDashboardData(agentId: number) {
     level: c.commissionLevel === 'level1' ? 1 : 2,
     fromUser: maskEmail(c.fromUserEmail),
     amount: (parseFloat(c.commissionAmount) + parseFloat(c.bonusAmount || '0')).toFixed(2),
+    clawbackReason: c.clawbackOf ? (c.clawbackReason || 'refund') : null,
     time: new Date(c.createdAt).toLocaleDateString('zh-CN'),
   }));
   
@@ -874,27 +879,6 @@ async function getAgentDashboardData(agentId: number) {
 
 // ============ 管理员代理路由 ============
 
-// 管理员权限检查 - 使用独立的管理员token验证
-const adminProcedure = publicProcedure.use(({ ctx, next }) => {
-  const adminToken = getAdminTokenFromHeader(ctx.req.headers as Record<string, string | string[] | undefined>);
-  
-  if (!adminToken) {
-    throw new TRPCError({ code: "UNAUTHORIZED", message: "需要管理员登录" });
-  }
-  
-  const payload = verifyAdminToken(adminToken);
-  if (!payload) {
-    throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员Token无效或已过期" });
-  }
-  
-  return next({ 
-    ctx: {
-      ...ctx,
-      adminUser: payload,
-    }
-  });
-});
-
 export const adminAgentRouter = router({
   // 获取所有代理列表
   list: adminProcedure
@@ -919,13 +903,16 @@ export const adminAgentRouter = router({
     }),
 
   // 设置代理等级
-  setLevel: adminProcedure
+  setLevel: adminPermissionProcedure("agents.manage")
     .input(z.object({
       agentId: z.number(),
       level: z.enum(["normal", "silver", "gold", "founder"]),
     }))
     .mutation(async ({ input, ctx }) => {
-      await setAgentLevel(input.agentId, input.level);
+      const success = await setAgentLevel(input.agentId, input.level, (ctx as any).adminUser?.username || 'admin');
+      if (!success) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "代理不存在" });
+      }
       await logAdmin(
         (ctx as any).adminUser?.username || 'admin',
         'set_agent_level',
@@ -937,7 +924,7 @@ export const adminAgentRouter = router({
     }),
 
   // 直接设置用户为代理
-  setUserAsAgent: adminProcedure
+  setUserAsAgent: adminPermissionProcedure("agents.manage")
     .input(z.object({
       userId: z.number(),
       level: z.enum(["normal", "silver", "gold", "founder"]).optional(),
@@ -970,7 +957,7 @@ export const adminAgentRouter = router({
     }),
 
   // 处理代理申请
-  processApplication: adminProcedure
+  processApplication: adminPermissionProcedure("agents.manage")
     .input(z.object({
       applicationId: z.number(),
       action: z.enum(["approve", "reject"]),
@@ -1011,7 +998,7 @@ export const adminAgentRouter = router({
     }),
 
   // 处理提现申请
-  processWithdrawal: adminProcedure
+  processWithdrawal: adminPermissionProcedure("agents.finance")
     .input(z.object({
       withdrawalId: z.string(),
       action: z.enum(["approve", "reject", "paid"]),
@@ -1048,7 +1035,7 @@ export const adminAgentRouter = router({
   }),
 
   // 更新代理配置
-  updateSetting: adminProcedure
+  updateSetting: adminPermissionProcedure("config.write")
     .input(z.object({
       key: z.string(),
       value: z.string(),
@@ -1066,7 +1053,7 @@ export const adminAgentRouter = router({
     }),
 
   // 初始化代理配置
-  initSettings: adminProcedure.mutation(async ({ ctx }) => {
+  initSettings: adminPermissionProcedure("config.write").mutation(async ({ ctx }) => {
     await initAgentSettings();
     await logAdmin(
       (ctx as any).adminUser?.username || 'admin',
@@ -1077,7 +1064,7 @@ export const adminAgentRouter = router({
   }),
 
   // 手动结算佣金
-  settleCommissions: adminProcedure.mutation(async ({ ctx }) => {
+  settleCommissions: adminPermissionProcedure("agents.finance").mutation(async ({ ctx }) => {
     const count = await settlePendingCommissions();
     await logAdmin(
       (ctx as any).adminUser?.username || 'admin',
@@ -1089,6 +1076,26 @@ export const adminAgentRouter = router({
     return { success: true, settledCount: count };
   }),
 
+  // 立即按团队业绩评估代理等级（不受 level_auto_enabled 开关限制）
+  evaluateLevels: adminPermissionProcedure("agents.manage").mutation(async ({ ctx }) => {
+    const result = await evaluateAgentLevels();
+    await logAdmin(
+      (ctx as any).adminUser?.username || 'admin',
+      'evaluate_agent_levels',
+      'agent',
+      undefined,
+      result
+    );
+    return { success: true, ...result };
+  }),
+
+  // 获取代理等级变更记录
+  levelHistory: adminProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ input }) => {
+      return getAgentLevelHistory(input.agentId);
+    }),
+
   // 获取代理统计报表
   report: adminProcedure.query(async () => {
     const agents = await getAllAgents(1, 1000);
@@ -1103,7 +1110,7 @@ export const adminAgentRouter = router({
   }),
 
   // 调整代理佣金余额（管理员功能）
-  adjustBalance: adminProcedure
+  adjustBalance: adminPermissionProcedure("agents.finance")
     .input(z.object({
       agentId: z.number(),
       type: z.enum(["add", "subtract", "set"]),
@@ -1145,7 +1152,7 @@ export const adminAgentRouter = router({
     }),
 
   // 清除代理佣金（归零）
-  clearBalance: adminProcedure
+  clearBalance: adminPermissionProcedure("agents.finance")
     .input(z.object({
       agentId: z.number(),
       reason: z.string().min(1, "请填写清除原因"),
@@ -1304,7 +1311,7 @@ export const adminAgentRouter = router({
     }),
 
   // 将用户分配给代理（手动绑定邀请关系）
-  assignUserToAgent: adminProcedure
+  assignUserToAgent: adminPermissionProcedure("agents.manage")
     .input(z.object({
       userId: z.number(),
       agentId: z.number(),
@@ -1351,7 +1358,7 @@ export const adminAgentRouter = router({
     }),
 
   // 移除用户的代理关联
-  removeUserFromAgent: adminProcedure
+  removeUserFromAgent: adminPermissionProcedure("agents.manage")
     .input(z.object({
       userId: z.number(),
     }))
@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SQL } from "drizzle-orm";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { agentCommissions, users, type AgentCommission } from "../drizzle/schema";
+
+const fake = await vi.hoisted(async () => (await import("./testing/fakeDb")).createFakeDb());
+
+vi.mock("./db", () => ({
+  getDbSync: () => fake.database,
+  sendMessageToUser: vi.fn(),
+}));
+
+import { clawbackOrderCommissions, getQualifiedLevel, settlePendingCommissions } from "./agentDb";
+
+const dialect = new MySqlDialect();
+const CREATED_AT = new Date("2026-03-01T08:00:00.000Z");
+
+/** 余额更新表达式中的金额参数 */
+function amountOf(expression: SQL): unknown {
+  return dialect.sqlToQuery(expression).params[0];
+}
+
+function commission(overrides: Partial<AgentCommission> = {}): AgentCommission {
+  return {
+    id: 1,
+    agentId: 10,
+    fromUserId: 20,
+    orderId: "order-1",
+    orderAmount: "100.00",
+    commissionLevel: "level1",
+    commissionRate: "10.00",
+    commissionAmount: "10.00",
+    bonusType: "first_charge",
+    bonusAmount: "2.00",
+    status: "pending",
+    clawbackOf: null,
+    clawbackReason: null,
+    settledAt: null,
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("clawbackOrderCommissions", () => {
+  it("claws back a settled commission in full on refund from the withdrawable balance", async () => {
+    fake.state.rows.set(agentCommissions, [commission({ status: "settled", settledAt: CREATED_AT })]);
+
+    expect(await clawbackOrderCommissions("order-1", 0, "refund")).toBe(12);
+
+    expect(fake.state.inserts).toHaveLength(1);
+    expect(fake.state.inserts[0].values).toMatchObject({
+      orderAmount: "-100",
+      commissionAmount: "-10",
+      bonusAmount: "-2",
+      status: "settled",
+      clawbackOf: 1,
+      clawbackReason: "refund",
+    });
+    const [balance] = fake.updatesOf(users);
+    expect(amountOf(balance.agentBalance)).toBe(12);
+    expect(amountOf(balance.agentTotalEarned)).toBe(12);
+    expect(balance.agentFrozenBalance).toBeUndefined();
+  });
+
+  it("keeps a refund before settlement frozen and due together with the original", async () => {
+    fake.state.rows.set(agentCommissions, [commission()]);
+
+    expect(await clawbackOrderCommissions("order-1", 0, "refund")).toBe(12);
+
+    expect(fake.state.inserts[0].values).toMatchObject({ status: "pending", settledAt: null, createdAt: CREATED_AT });
+    const [balance] = fake.updatesOf(users);
+    expect(amountOf(balance.agentFrozenBalance)).toBe(12);
+    expect(balance.agentBalance).toBeUndefined();
+  });
+
+  it("claws back the mismatched share on a partial amount adjustment", async () => {
+    fake.state.rows.set(agentCommissions, [commission({ status: "settled" })]);
+
+    expect(await clawbackOrderCommissions("order-1", 0.6, "adjustment")).toBe(4.8);
+
+    expect(fake.state.inserts[0].values).toMatchObject({
+      orderAmount: "-40",
+      commissionAmount: "-4",
+      bonusAmount: "-0.8",
+      clawbackReason: "adjustment",
+    });
+  });
+
+  it("only claws back the difference from earlier clawbacks", async () => {
+    fake.state.rows.set(agentCommissions, [
+      commission({ status: "settled" }),
+      commission({ id: 2, status: "settled", clawbackOf: 1, orderAmount: "-40.00", commissionAmount: "-4.00", bonusAmount: "-0.80" }),
+    ]);
+
+    expect(await clawbackOrderCommissions("order-1", 0.5, "adjustment")).toBe(1.2);
+    expect(fake.state.inserts[0].values).toMatchObject({ commissionAmount: "-1", bonusAmount: "-0.2" });
+  });
+
+  it("never pays back when the retained ratio goes up", async () => {
+    fake.state.rows.set(agentCommissions, [
+      commission({ status: "settled" }),
+      commission({ id: 2, status: "settled", clawbackOf: 1, orderAmount: "-100.00", commissionAmount: "-10.00", bonusAmount: "-2.00" }),
+    ]);
+
+    expect(await clawbackOrderCommissions("order-1", 0.8, "adjustment")).toBe(0);
+    expect(fake.state.inserts).toEqual([]);
+    expect(fake.state.updates).toEqual([]);
+  });
+
+  it("clamps the ratio and handles each level of the order", async () => {
+    fake.state.rows.set(agentCommissions, [
+      commission({ status: "settled" }),
+      commission({ id: 3, agentId: 11, commissionLevel: "level2", commissionRate: "5.00", commissionAmount: "5.00", bonusType: null, bonusAmount: "0" }),
+    ]);
+
+    expect(await clawbackOrderCommissions("order-1", -1, "refund")).toBe(17);
+    expect(fake.state.inserts.map(insert => insert.values.clawbackOf)).toEqual([1, 3]);
+    expect(await clawbackOrderCommissions("order-1", 1.5, "adjustment")).toBe(0);
+  });
+});
+
+describe("settlePendingCommissions", () => {
+  it("settles a pending original and its clawback in one balance move", async () => {
+    fake.state.rows.set(agentCommissions, [
+      commission(),
+      commission({ id: 2, clawbackOf: 1, clawbackReason: "adjustment", orderAmount: "-40.00", commissionAmount: "-4.00", bonusAmount: "-0.80" }),
+    ]);
+
+    expect(await settlePendingCommissions()).toBe(2);
+
+    expect(fake.updatesOf(agentCommissions).map(values => values.status)).toEqual(["settled", "settled"]);
+    const balances = fake.updatesOf(users);
+    expect(balances).toHaveLength(1);
+    expect(amountOf(balances[0].agentFrozenBalance)).toBe(7.2);
+    expect(amountOf(balances[0].agentBalance)).toBe(7.2);
+  });
+
+  it("moves nothing for an order refunded before settlement", async () => {
+    fake.state.rows.set(agentCommissions, [
+      commission(),
+      commission({ id: 2, clawbackOf: 1, clawbackReason: "refund", orderAmount: "-100.00", commissionAmount: "-10.00", bonusAmount: "-2.00" }),
+      commission({ id: 3, agentId: 11, commissionAmount: "3.00", bonusAmount: "0" }),
+    ]);
+
+    await settlePendingCommissions();
+
+    const balances = fake.updatesOf(users);
+    expect(balances.map(balance => amountOf(balance.agentBalance))).toEqual([0, 3]);
+  });
+});
+
+describe("getQualifiedLevel", () => {
+  const settings = {
+    silver_min_team_recharge: "1000",
+    silver_min_active_invitees: "5",
+    gold_min_team_recharge: "5000",
+    gold_min_active_invitees: "20",
+  };
+
+  it("promotes when both thresholds of a level are met, preferring gold", () => {
+    expect(getQualifiedLevel({ teamRecharge: 1000, activeInvitees: 5 }, settings, "normal")).toBe("silver");
+    expect(getQualifiedLevel({ teamRecharge: 5000, activeInvitees: 20 }, settings, "normal")).toBe("gold");
+  });
+
+  it("requires both thresholds", () => {
+    expect(getQualifiedLevel({ teamRecharge: 9000, activeInvitees: 4 }, settings, "normal")).toBe("normal");
+    expect(getQualifiedLevel({ teamRecharge: 999.99, activeInvitees: 50 }, settings, "normal")).toBe("normal");
+  });
+
+  it("demotes to the highest level still reached", () => {
+    expect(getQualifiedLevel({ teamRecharge: 4999, activeInvitees: 20 }, settings, "gold")).toBe("silver");
+    expect(getQualifiedLevel({ teamRecharge: 0, activeInvitees: 0 }, settings, "gold")).toBe("normal");
+  });
+
+  it("falls back to the default thresholds when unset", () => {
+    expect(getQualifiedLevel({ teamRecharge: 1000, activeInvitees: 5 }, {}, "normal")).toBe("silver");
+    expect(getQualifiedLevel({ teamRecharge: 4999, activeInvitees: 100 }, {}, "normal")).toBe("silver");
+  });
+
+  describe("with a level whose thresholds are both 0", () => {
+    const silverOff = { ...settings, silver_min_team_recharge: "0", silver_min_active_invitees: "0" };
+    const goldOff = { ...settings, gold_min_team_recharge: "0", gold_min_active_invitees: "0" };
+
+    it("keeps agents already at that level", () => {
+      expect(getQualifiedLevel({ teamRecharge: 0, activeInvitees: 0 }, silverOff, "silver")).toBe("silver");
+      expect(getQualifiedLevel({ teamRecharge: 0, activeInvitees: 0 }, goldOff, "gold")).toBe("gold");
+    });
+
+    it("does not promote anyone to it", () => {
+      expect(getQualifiedLevel({ teamRecharge: 4000, activeInvitees: 10 }, silverOff, "normal")).toBe("normal");
+      expect(getQualifiedLevel({ teamRecharge: 100000, activeInvitees: 100 }, goldOff, "silver")).toBe("silver");
+    });
+
+    it("still promotes past it to a configured level", () => {
+      expect(getQualifiedLevel({ teamRecharge: 5000, activeInvitees: 20 }, silverOff, "silver")).toBe("gold");
+    });
+
+    it("still demotes from a configured level above it", () => {
+      expect(getQualifiedLevel({ teamRecharge: 100, activeInvitees: 1 }, silverOff, "gold")).toBe("normal");
+    });
+  });
+});
@@ -2,8 +2,8 @@
  * 代理系统数据库操作函数
  */
 
-import { getDbSync } from "./db";
-import { users, agentCommissions, agentWithdrawals, agentStats, agentSettings } from "../drizzle/schema";
+import { getDbSync, sendMessageToUser } from "./db";
+import { users, agentCommissions, agentWithdrawals, agentStats, agentSettings, agentLevelHistory } from "../drizzle/schema";
 import { eq, and, desc, sql, gte, lte, sum } from "drizzle-orm";
 
 // 获取数据库实例
@@ -80,6 +80,12 @@ export async function initAgentSettings(): Promise<void> {
     { key: 'settlement_days', value: '7', desc: '佣金结算冻结天数' },
     { key: 'activity_bonus', value: '3', desc: '开业活动额外奖励' },
     { key: 'activity_end_date', value: '2026-02-28', desc: '开业活动结束日期' },
+    { key: 'level_auto_enabled', value: 'false', desc: '是否按团队业绩自动升降代理等级' },
+    { key: 'level_window_days', value: '30', desc: '等级评估统计窗口天数' },
+    { key: 'silver_min_team_recharge', value: '1000', desc: '银牌代理窗口内最低团队充值(USDT)' },
+    { key: 'silver_min_active_invitees', value: '5', desc: '银牌代理窗口内最低有效直推人数' },
+    { key: 'gold_min_team_recharge', value: '5000', desc: '金牌代理窗口内最低团队充值(USDT)' },
+    { key: 'gold_min_active_invitees', value: '20', desc: '金牌代理窗口内最低有效直推人数' },
   ];
   
   for (const item of defaults) {
@@ -287,6 +293,87 @@ export async function calculateAndCreateCommission(
   }
 }
 
+// ============ 佣金追回 ============
+
+// 金额保留两位小数（与 decimal(10,2) 一致）
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 追回订单佣金（订单退款、到账金额调减时调用）
+ *
+ * retainRatio 为订单保留的金额比例：退款为 0，金额调减为 实际金额 / 原订单金额。
+ * 为该订单的每条原佣金补一条负数追回记录（clawbackOf 指向原记录），已追回的部分不会重复追回。
+ * 已结算的佣金从可提现余额中扣回，余额允许为负，由之后的佣金抵扣，抵扣前不能提现；
+ * 冻结中的佣金从冻结余额扣回，追回记录同样为冻结状态，并沿用原记录的创建时间，与原记录同批结算
+ *
+ * @returns 追回的佣金总额（USDT）
+ */
+export async function clawbackOrderCommissions(
+  orderId: string,
+  retainRatio: number,
+  reason: 'refund' | 'adjustment'
+): Promise<number> {
+  const ratio = Math.min(1, Math.max(0, retainRatio));
+  const rows = await getDb().select()
+    .from(agentCommissions)
+    .where(eq(agentCommissions.orderId, orderId));
+
+  let totalClawback = 0;
+
+  for (const commission of rows.filter(row => row.clawbackOf === null)) {
+    const previous = rows.filter(row => row.clawbackOf === commission.id);
+
+    // 本次追回 = 按比例保留的目标金额 - (原金额 + 已追回金额)，只追回不补发
+    const delta = (field: 'orderAmount' | 'commissionAmount' | 'bonusAmount') => {
+      const original = parseFloat(commission[field] || '0');
+      const net = previous.reduce((total, row) => total + parseFloat(row[field] || '0'), original);
+      return Math.min(0, roundAmount(original * ratio - net));
+    };
+    const orderDelta = delta('orderAmount');
+    const commissionDelta = delta('commissionAmount');
+    const bonusDelta = delta('bonusAmount');
+    if (commissionDelta === 0 && bonusDelta === 0) continue;
+
+    const isPending = commission.status === 'pending';
+    const amount = roundAmount(-(commissionDelta + bonusDelta));
+
+    await getDb().insert(agentCommissions).values({
+      agentId: commission.agentId,
+      fromUserId: commission.fromUserId,
+      orderId,
+      orderAmount: orderDelta.toString(),
+      commissionLevel: commission.commissionLevel,
+      commissionRate: commission.commissionRate,
+      commissionAmount: commissionDelta.toString(),
+      bonusType: commission.bonusType,
+      bonusAmount: bonusDelta.toString(),
+      status: isPending ? 'pending' : 'settled',
+      clawbackOf: commission.id,
+      clawbackReason: reason,
+      settledAt: isPending ? null : new Date(),
+      // 与原记录同批到期，避免原佣金先全额结算、追回记录晚到期期间被提现
+      createdAt: isPending ? commission.createdAt : new Date(),
+    });
+
+    if (isPending) {
+      await getDb().update(users).set({
+        agentFrozenBalance: sql`${users.agentFrozenBalance} - ${amount}`,
+      }).where(eq(users.id, commission.agentId));
+    } else {
+      await getDb().update(users).set({
+        agentBalance: sql`${users.agentBalance} - ${amount}`,
+        agentTotalEarned: sql`${users.agentTotalEarned} - ${amount}`,
+      }).where(eq(users.id, commission.agentId));
+    }
+
+    totalClawback += amount;
+  }
+
+  return roundAmount(totalClawback);
+}
+
 // ============ 佣金结算 ============
 
 // 结算到期佣金（7天后）
@@ -304,6 +391,8 @@ export async function settlePendingCommissions(): Promise<number> {
     ));
   
   let settledCount = 0;
+  // 按代理合计（追回记录为负数），原佣金与其追回记录一次性转入可提现余额
+  const agentTotals = new Map<number, number>();
   
   for (const commission of pendingCommissions) {
     const totalAmount = parseFloat(commission.commissionAmount) + parseFloat(commission.bonusAmount || '0');
@@ -314,14 +403,18 @@ export async function settlePendingCommissions(): Promise<number> {
       settledAt: new Date(),
     }).where(eq(agentCommissions.id, commission.id));
     
-    // 从冻结余额转到可提现余额
+    agentTotals.set(commission.agentId, (agentTotals.get(commission.agentId) || 0) + totalAmount);
+    settledCount++;
+  }
+  
+  // 从冻结余额转到可提现余额
+  for (const [agentId, amount] of Array.from(agentTotals)) {
+    const totalAmount = roundAmount(amount);
     await getDb().update(users).set({
       agentFrozenBalance: sql`${users.agentFrozenBalance} - ${totalAmount}`,
       agentBalance: sql`${users.agentBalance} + ${totalAmount}`,
       agentTotalEarned: sql`${users.agentTotalEarned} + ${totalAmount}`,
-    }).where(eq(users.id, commission.agentId));
-    
-    settledCount++;
+    }).where(eq(users.id, agentId));
   }
   
   return settledCount;
@@ -342,9 +435,13 @@ export async function createWithdrawal(
     return { success: false, message: `最低提现金额为 ${minWithdrawal} USDT` };
   }
   
-  // 检查余额
+  // 检查余额（佣金被追回后余额可能为负，需由之后的佣金抵扣）
   const agent = await getDb().select().from(users).where(eq(users.id, agentId)).limit(1);
-  if (!agent[0] || parseFloat(agent[0].agentBalance || '0') < amount) {
+  const balance = parseFloat(agent[0]?.agentBalance || '0');
+  if (agent[0] && balance < 0) {
+    return { success: false, message: `退款订单的佣金已追回，当前余额为 ${balance.toFixed(2)} USDT，需由之后的佣金抵扣后才能提现` };
+  }
+  if (!agent[0] || balance < amount) {
     return { success: false, message: '可提现余额不足' };
   }
   
@@ -655,10 +752,207 @@ export async function getAllWithdrawals(status?: string, page: number = 1, limit
   };
 }
 
-// 设置代理等级
-export async function setAgentLevel(agentId: number, level: 'normal' | 'silver' | 'gold' | 'founder'): Promise<boolean> {
-  const result = await getDb().update(users)
+// 设置代理等级（管理员手动调整，记录等级变更）
+export async function setAgentLevel(
+  agentId: number,
+  level: 'normal' | 'silver' | 'gold' | 'founder',
+  operator: string = 'admin'
+): Promise<boolean> {
+  const agent = await getDb().select({ agentLevel: users.agentLevel })
+    .from(users)
+    .where(and(eq(users.id, agentId), eq(users.isAgent, true)))
+    .limit(1);
+  if (!agent[0]) return false;
+
+  await getDb().update(users)
     .set({ agentLevel: level })
-    .where(and(eq(users.id, agentId), eq(users.isAgent, true)));
+    .where(eq(users.id, agentId));
+
+  const fromLevel = agent[0].agentLevel || 'normal';
+  if (fromLevel !== level) {
+    await getDb().insert(agentLevelHistory).values({
+      agentId,
+      fromLevel,
+      toLevel: level,
+      source: 'admin',
+      operator,
+    });
+  }
   return true;
 }
+
+// ============ 代理等级自动评估 ============
+
+type AgentLevel = 'normal' | 'silver' | 'gold' | 'founder';
+
+export const AGENT_LEVEL_LABELS: Record<AgentLevel, string> = {
+  normal: '普通代理',
+  silver: '银牌代理',
+  gold: '金牌代理',
+  founder: '创始代理',
+};
+
+const LEVEL_RANK: Record<AgentLevel, number> = { normal: 0, silver: 1, gold: 2, founder: 3 };
+
+/**
+ * 统计代理在窗口期内的团队业绩
+ * 团队充值与代理后台「团队充值」口径一致（一级 + 二级用户的充值，已扣除退款追回），
+ * 有效直推为窗口期内充值净额大于 0 的直推用户数
+ */
+export async function getAgentTeamPerformance(agentId: number, since: Date): Promise<{ teamRecharge: number; activeInvitees: number }> {
+  const rechargeResult = await getDb().select({
+    total: sql<string>`COALESCE(SUM(${agentCommissions.orderAmount}), 0)`
+  })
+    .from(agentCommissions)
+    .where(and(
+      eq(agentCommissions.agentId, agentId),
+      gte(agentCommissions.createdAt, since)
+    ));
+
+  const invitees = await getDb().select({
+    fromUserId: agentCommissions.fromUserId,
+    total: sql<string>`SUM(${agentCommissions.orderAmount})`,
+  })
+    .from(agentCommissions)
+    .innerJoin(users, eq(agentCommissions.fromUserId, users.id))
+    .where(and(
+      eq(agentCommissions.agentId, agentId),
+      eq(users.inviterId, agentId),
+      gte(agentCommissions.createdAt, since)
+    ))
+    .groupBy(agentCommissions.fromUserId);
+
+  return {
+    teamRecharge: roundAmount(parseFloat(String(rechargeResult[0]?.total ?? '0'))),
+    activeInvitees: invitees.filter(row => parseFloat(String(row.total)) > 0).length,
+  };
+}
+
+/**
+ * 按配置的门槛计算代理应得等级（金牌优先）
+ *
+ * 两项门槛都为 0 的等级不参与自动评估：不会自动升到该等级，
+ * 已处于该等级的代理也保持不变（仍可升到更高的已配置等级）
+ */
+export function getQualifiedLevel(
+  performance: { teamRecharge: number; activeInvitees: number },
+  settings: Record<string, string>,
+  currentLevel: AgentLevel
+): AgentLevel {
+  const thresholds: Array<{ level: AgentLevel; minRecharge: number; minInvitees: number }> = [
+    {
+      level: 'gold',
+      minRecharge: parseFloat(settings.gold_min_team_recharge || '5000'),
+      minInvitees: parseInt(settings.gold_min_active_invitees || '20'),
+    },
+    {
+      level: 'silver',
+      minRecharge: parseFloat(settings.silver_min_team_recharge || '1000'),
+      minInvitees: parseInt(settings.silver_min_active_invitees || '5'),
+    },
+  ];
+
+  for (const { level, minRecharge, minInvitees } of thresholds) {
+    if (minRecharge <= 0 && minInvitees <= 0) {
+      if (level === currentLevel) return currentLevel;
+      continue;
+    }
+    if (performance.teamRecharge >= minRecharge && performance.activeInvitees >= minInvitees) {
+      return level;
+    }
+  }
+  return 'normal';
+}
+
+/**
+ * 按团队业绩自动升降代理等级
+ *
+ * 统计窗口为最近 level_window_days 天；创始代理不参与评估，
+ * 窗口期内被管理员手动调整过等级的代理也跳过，避免自动评估覆盖人工决定。
+ * 等级变更会记录到 agent_level_history 并通过站内信通知代理
+ */
+export async function evaluateAgentLevels(): Promise<{ evaluated: number; upgraded: number; downgraded: number }> {
+  const settings = await getAllAgentSettings();
+  const windowDays = parseInt(settings.level_window_days || '30');
+  const since = new Date();
+  since.setDate(since.getDate() - windowDays);
+
+  const agents = await getDb().select({ id: users.id, agentLevel: users.agentLevel })
+    .from(users)
+    .where(eq(users.isAgent, true));
+
+  const manualChanges = await getDb().select({ agentId: agentLevelHistory.agentId })
+    .from(agentLevelHistory)
+    .where(and(
+      eq(agentLevelHistory.source, 'admin'),
+      gte(agentLevelHistory.createdAt, since)
+    ));
+  const manuallyAdjusted = new Set(manualChanges.map(row => row.agentId));
+
+  const rates = {
+    silver: await getCommissionRates('silver'),
+    gold: await getCommissionRates('gold'),
+    normal: await getCommissionRates('normal'),
+  };
+
+  let evaluated = 0;
+  let upgraded = 0;
+  let downgraded = 0;
+
+  for (const agent of agents) {
+    const currentLevel = (agent.agentLevel || 'normal') as AgentLevel;
+    if (currentLevel === 'founder' || manuallyAdjusted.has(agent.id)) continue;
+
+    const performance = await getAgentTeamPerformance(agent.id, since);
+    const newLevel = getQualifiedLevel(performance, settings, currentLevel);
+    evaluated++;
+    if (newLevel === currentLevel || newLevel === 'founder') continue;
+
+    await getDb().update(users)
+      .set({ agentLevel: newLevel })
+      .where(eq(users.id, agent.id));
+
+    await getDb().insert(agentLevelHistory).values({
+      agentId: agent.id,
+      fromLevel: currentLevel,
+      toLevel: newLevel,
+      source: 'auto',
+      teamRecharge: performance.teamRecharge.toFixed(2),
+      activeInvitees: performance.activeInvitees,
+      operator: 'system',
+    });
+
+    const isUpgrade = LEVEL_RANK[newLevel] > LEVEL_RANK[currentLevel];
+    if (isUpgrade) {
+      upgraded++;
+    } else {
+      downgraded++;
+    }
+
+    try {
+      await sendMessageToUser({
+        userId: agent.id,
+        title: isUpgrade ? '代理等级提升通知' : '代理等级调整通知',
+        content: `${isUpgrade ? '恭喜！' : '您好！'}根据近 ${windowDays} 天的团队业绩` +
+          `（团队充值 ${performance.teamRecharge.toFixed(2)} USDT，有效直推 ${performance.activeInvitees} 人），` +
+          `您的代理等级已由「${AGENT_LEVEL_LABELS[currentLevel]}」${isUpgrade ? '升级' : '调整'}为「${AGENT_LEVEL_LABELS[newLevel]}」。\n\n` +
+          `新的佣金比例：一级 ${rates[newLevel].level1}%，二级 ${rates[newLevel].level2}%，自下一笔佣金起生效。`,
+        type: 'system',
+        createdBy: 'system',
+      });
+    } catch (error) {
+      console.error("[代理等级] 等级变更通知发送失败:", error);
+    }
+  }
+
+  return { evaluated, upgraded, downgraded };
+}
+
+// 获取代理等级变更记录
+export async function getAgentLevelHistory(agentId: number, limit: number = 20) {
+  return getDb().select()
+    .from(agentLevelHistory)
+    .where(eq(agentLevelHistory.agentId, agentId))
+    .orderBy(desc(agentLevelHistory.createdAt))
+    .limit(limit);
+}
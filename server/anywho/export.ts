@@ -0,0 +1,63 @@
+/**
+ * Anywho 搜索结果导出（流式，见 exports/stream.ts）
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergeEmails, mergePhones, splitName } from "../exports/templates";
+import { anywhoTaskStore, anywhoResultStore } from "./db";
+
+type AnywhoSearchTask = NonNullable<Awaited<ReturnType<typeof anywhoTaskStore.getByTaskId>>>;
+type AnywhoSearchResult = Awaited<ReturnType<typeof anywhoResultStore.loadAfter>>[number];
+
+// 可选列 - 默认为精简版（13个字段）
+const COLUMNS: ExportColumn<AnywhoSearchResult>[] = [
+  { key: "index", zh: "序号", en: "No.", value: (_r, ctx) => ctx.index + 1 },
+  { key: "name", zh: "姓名", en: "Name", value: r => r.name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => r.age ?? "" },
+  // 合并城市和州为地点
+  { key: "location", zh: "地点", en: "Location", value: r => [r.city, r.state].filter(Boolean).join(", ") },
+  { key: "currentAddress", zh: "当前住址", en: "Current Address", value: r => r.currentAddress || "" },
+  { key: "phone", zh: "电话", en: "Phone", value: (r, ctx) => ctx.phone(r.phone) },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => r.phoneType || "" },
+  { key: "marriageStatus", zh: "婚姻状况", en: "Marital Status", value: r => r.marriageStatus || "" },
+  { key: "emails", zh: "邮箱", en: "Emails", value: r => Array.isArray(r.emails) ? r.emails.join("; ") : (r.emails || "") },
+  { key: "isDeceased", zh: "是否已故", en: "Deceased", value: r => r.isDeceased ? "是" : "否" },
+  { key: "detailLink", zh: "详情链接", en: "Detail Link", value: r => r.detailLink || "" },
+  { key: "source", zh: "数据来源", en: "Source", value: r => r.fromCache ? "缓存" : "实时获取" },
+  { key: "createdAt", zh: "获取时间", en: "Retrieved At", value: r => r.createdAt ? new Date(r.createdAt).toLocaleString("zh-CN") : "" },
+  { key: "carrier", zh: "运营商", en: "Carrier", default: false, value: r => r.carrier || "" },
+  { key: "allPhones", zh: "所有电话", en: "All Phones", default: false, value: (r, ctx) => (r.allPhones || []).map(p => ctx.phone(p)).join("; ") },
+  { key: "searchName", zh: "搜索姓名", en: "Search Name", default: false, value: r => r.searchName || "" },
+  { key: "searchLocation", zh: "搜索地点", en: "Search Location", default: false, value: r => r.searchLocation || "" },
+];
+
+export const anywhoExporter: TaskExporter<AnywhoSearchTask, AnywhoSearchResult> = {
+  columns: COLUMNS,
+
+  getTask: anywhoTaskStore.getByTaskId,
+
+  isExportable: task =>
+    task.status === "completed" || task.status === "insufficient_credits" || task.status === "cancelled",
+
+  createSource: task => ({
+    filename: `anywho_results_${task.taskId.slice(0, 8)}_${new Date().toISOString().slice(0, 10)}`,
+    fetchBatch: (afterId, limit) => anywhoResultStore.loadAfter(task.id, afterId, limit),
+  }),
+
+  toLead: r => ({
+    firstName: r.firstName || splitName(r.name).firstName,
+    lastName: r.lastName || splitName(r.name).lastName,
+    fullName: r.name || "",
+    age: r.age,
+    address: r.currentAddress || "",
+    city: r.city || "",
+    state: r.state || "",
+    company: "",
+    jobTitle: "",
+    linkedinUrl: "",
+    phones: mergePhones(r.phone ? { number: r.phone, type: r.phoneType } : null, ...(r.allPhones || [])),
+    emails: mergeEmails(...(r.emails || [])),
+    source: "Anywho",
+  }),
+};
@@ -0,0 +1,351 @@
+/**
+ * Anywho 适配器
+ *
+ * 将 Anywho 的解析、过滤、详情获取和存储接入统一的人员搜索执行器
+ *
+ * Anywho 特点：
+ * - 搜索页按年龄段分别搜索（age_range 参数）
+ * - 搜索结果页已包含大部分数据，过滤后再逐条访问详情页补全运营商和婚姻状况
+ */
+
+import {
+  searchOnly,
+  buildSearchUrl,
+  parseSearchResults,
+  parseDetailPage,
+  convertSearchResultToDetail,
+  determineAgeRanges,
+  fetchDetailsFromPages,
+  AnywhoFilters,
+  AnywhoSearchResult,
+  AnywhoDetailResult,
+} from "./scraper";
+import {
+  getAnywhoConfig,
+  anywhoTaskStore,
+  anywhoResultStore,
+  anywhoCacheStore,
+  logApi,
+} from "./db";
+import { buildSubTasks } from "../peopleSearch/runner";
+import type {
+  PeopleSearchProvider,
+  PeopleSearchRuntimeConfig,
+  PeopleSearchSubTask,
+} from "../peopleSearch/types";
+
+/** Anywho 结果行：详情数据 + 详情链接 */
+export type AnywhoResultRow = AnywhoDetailResult & { detailLink: string };
+
+/**
+ * 将 getAnywhoConfig() 的结果转换为统一运行时配置
+ */
+export function toAnywhoRuntimeConfig(config: Awaited<ReturnType<typeof getAnywhoConfig>>): PeopleSearchRuntimeConfig {
+  return {
+    enabled: !!config.enabled,
+    token: config.scrapeDoToken || "",
+    searchCost: parseFloat(config.searchCost),
+    detailCost: parseFloat(config.detailCost || config.searchCost),
+    maxPages: config.maxPages || 4,
+    cacheDays: config.cacheDays || 180,
+    defaultMinAge: config.defaultMinAge || 50,
+    defaultMaxAge: config.defaultMaxAge || 79,
+  };
+}
+
+/**
+ * 应用 Anywho 过滤条件
+ *
+ * 缺失字段一律放行（搜索页数据不完整，详情页获取后会再次过滤）
+ */
+export function applyAnywhoFilters(row: AnywhoDetailResult, filters: AnywhoFilters): boolean {
+  // 1. 排除已故人员（默认启用）
+  if (filters.excludeDeceased !== false && row.isDeceased) {
+    return false;
+  }
+
+  // 2. 年龄过滤（默认 50-79 岁）
+  const minAge = filters.minAge ?? 50;
+  const maxAge = filters.maxAge ?? 79;
+  if (row.age !== null && row.age !== undefined) {
+    if (row.age < minAge || row.age > maxAge) return false;
+  }
+
+  // 3. 号码年份过滤（默认 2025 年）
+  const minYear = filters.minYear ?? 2025;
+  if (minYear > 2020 && row.reportYear && row.reportYear < minYear) {
+    return false;
+  }
+
+  // 4. 排除已婚
+  if (filters.excludeMarried && row.marriageStatus && row.marriageStatus.toLowerCase() === "married") {
+    return false;
+  }
+
+  // 5. 排除 T-Mobile 号码
+  if (filters.excludeTMobile && row.carrier) {
+    const carrierLower = row.carrier.toLowerCase();
+    if (carrierLower.includes("t-mobile") || carrierLower.includes("tmobile")) return false;
+  }
+
+  // 6. 排除 Comcast 号码
+  if (filters.excludeComcast && row.carrier) {
+    const carrierLower = row.carrier.toLowerCase();
+    if (carrierLower.includes("comcast") || carrierLower.includes("spectrum") || carrierLower.includes("xfinity")) return false;
+  }
+
+  // 7. 排除 Landline 号码
+  if (filters.excludeLandline && row.phoneType && row.phoneType.toLowerCase() === "landline") {
+    return false;
+  }
+
+  return true;
+}
+
+export const anywhoProvider: PeopleSearchProvider<AnywhoFilters, AnywhoSearchResult, AnywhoResultRow> = {
+  source: "anywho",
+  label: "Anywho",
+  displayName: "Anywho",
+  activityAction: "Anywho搜索",
+  searchConcurrency: 1,  // 顺序处理每个子任务（便于实时扣费控制）
+
+  buildSearchUrl: (name, location, page) => buildSearchUrl(name, location || undefined, page),
+  parseSearchPage: parseSearchResults,
+  parseDetailPage(html, item) {
+    const detail = parseDetailPage(html);
+    return detail ? [{ ...detail, detailLink: item.detailLink }] : [];
+  },
+  applyFilters: applyAnywhoFilters,
+
+  async getRuntimeConfig() {
+    return toAnywhoRuntimeConfig(await getAnywhoConfig());
+  },
+
+  // 按年龄段数量预估（搜索页费用为主），每个年龄段单独请求搜索页
+  estimateCost(input, config) {
+    const subTaskCount = buildSubTasks(input).length;
+    const minAge = input.filters?.minAge ?? 50;
+    const maxAge = input.filters?.maxAge ?? 79;
+    const ageRanges = determineAgeRanges(minAge, maxAge);
+    const ageRangeCount = ageRanges.length;
+
+    // 搜索页费用：子任务数 × 每任务页数 × 年龄段数量
+    const maxSearchPages = subTaskCount * config.maxPages * ageRangeCount;
+    const maxSearchCost = maxSearchPages * config.searchCost;
+
+    return {
+      subTaskCount,
+      maxPages: config.maxPages,
+      ageRangeCount,
+      ageRanges,
+      maxSearchPages,
+      maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
+      avgDetailsPerTask: 0,
+      estimatedDetails: 0,
+      estimatedDetailCost: 0,
+      estimatedCost: Math.ceil(maxSearchCost * 10) / 10,
+      searchCost: config.searchCost,
+      detailCost: 0,
+      note: `分 ${ageRangeCount} 个年龄段搜索 (${ageRanges.join(', ')})，实时扣费模式`,
+    };
+  },
+
+  async search(subTask, ctx) {
+    const ageRanges = determineAgeRanges(ctx.filters.minAge ?? 50, ctx.filters.maxAge ?? 79);
+    const allResults: AnywhoSearchResult[] = [];
+    let searchPageRequests = 0;
+
+    // 对每个年龄段进行搜索，每段开始前确认积分
+    for (const ageRange of ageRanges) {
+      if (!ctx.creditTracker.canContinue() || !(await ctx.creditTracker.canAffordSearchPage())) {
+        break;
+      }
+      try {
+        const { results, pagesSearched } = await searchOnly(
+          subTask.name,
+          subTask.location || undefined,
+          ctx.config.maxPages,
+          ctx.config.token,
+          [ageRange]
+        );
+        allResults.push(...results);
+        searchPageRequests += pagesSearched;
+      } catch (error: any) {
+        console.error(`[Anywho] 搜索 ${subTask.name} (${ageRange}) 失败:`, error.message);
+      }
+    }
+
+    // 去重
+    const items = allResults.filter((result, index, self) =>
+      index === self.findIndex(r => r.detailLink === result.detailLink)
+    );
+
+    return { success: true, items, searchPageRequests, filteredOut: 0 };
+  },
+
+  async fetchDetails(items, ctx) {
+    const { creditTracker, filters } = ctx;
+
+    // 转换搜索结果并应用过滤条件
+    const candidates: Array<{ subTask: PeopleSearchSubTask; item: AnywhoSearchResult; row: AnywhoResultRow }> = [];
+    let filteredOut = 0;
+    for (const { item, subTask } of items) {
+      const row: AnywhoResultRow = { ...convertSearchResultToDetail(item), detailLink: item.detailLink };
+      if (applyAnywhoFilters(row, filters)) {
+        candidates.push({ subTask, item, row });
+      } else {
+        filteredOut++;
+      }
+    }
+    if (items.length > 0) {
+      ctx.addLog(`📊 过滤完成: ${candidates.length} 条符合条件，${filteredOut} 条已过滤`);
+    }
+
+    // 继续执行：之前已获取的详情直接读取缓存，不再重复请求和扣费
+    const cachedByLink = new Map<string, AnywhoDetailResult>();
+    if (ctx.reuseDetailCache) {
+      for (const cached of await anywhoCacheStore.get(candidates.map(c => c.row.detailLink))) {
+        cachedByLink.set(cached.detailLink, cached.data as AnywhoDetailResult);
+      }
+    }
+
+    // 合并详情信息
+    const mergeDetail = (row: AnywhoResultRow, detail: AnywhoDetailResult) => {
+      row.carrier = detail.carrier || row.carrier;
+      row.phoneType = detail.phoneType || row.phoneType;
+      row.marriageStatus = detail.marriageStatus || row.marriageStatus;
+      row.isDeceased = detail.isDeceased;
+      if (detail.allPhones && detail.allPhones.length > 0) {
+        row.allPhones = detail.allPhones;
+      }
+    };
+
+    // 逐条获取详情页（实时扣费）
+    let detailPageRequests = 0;
+    let cacheHits = 0;
+    let stoppedDueToCredits = false;
+    for (let i = 0; i < candidates.length; i++) {
+      if (await ctx.isCancelled()) {
+        break;
+      }
+
+      const candidate = candidates[i];
+      const cached = cachedByLink.get(candidate.row.detailLink);
+      if (cached) {
+        mergeDetail(candidate.row, cached);
+        cacheHits++;
+        ctx.onDetailProgress({ completed: i + 1, total: candidates.length });
+        continue;
+      }
+
+      if (!creditTracker.canContinue() || !(await creditTracker.canAffordDetailPage())) {
+        stoppedDueToCredits = true;
+        break;
+      }
+
+      try {
+        const { details } = await fetchDetailsFromPages([candidate.item], ctx.config.token, 1);
+        detailPageRequests++;
+        const detail = details[0];
+        if (detail) {
+          mergeDetail(candidate.row, detail);
+          await anywhoCacheStore.save([{ link: candidate.row.detailLink, data: detail }], ctx.config.cacheDays);
+
+          const deductResult = await creditTracker.deductDetailPage();
+          if (!deductResult.success) {
+            stoppedDueToCredits = true;
+          }
+        }
+      } catch (error: any) {
+        console.error(`[Anywho] 获取详情失败:`, error.message);
+        detailPageRequests++;
+      }
+
+      ctx.onDetailProgress({ completed: i + 1, total: candidates.length });
+      if (stoppedDueToCredits) break;
+    }
+
+    // 详情页获取后再次过滤已故人员，并排除没有电话号码的记录
+    const results = candidates
+      .filter(({ row }) => {
+        const keep = (filters.excludeDeceased === false || !row.isDeceased) && !!row.phone && row.phone.trim() !== "";
+        if (!keep) filteredOut++;
+        return keep;
+      })
+      .map(({ subTask, row }) => ({ subTask, details: [row] }));
+
+    return { results, detailPageRequests, cacheHits, filteredOut, stoppedDueToCredits };
+  },
+
+  getPhone: (detail) => detail.phone,
+
+  store: anywhoTaskStore,
+
+  async createTask(userId, input) {
+    const task = await anywhoTaskStore.create({
+      userId,
+      mode: input.mode,
+      names: input.names,
+      locations: input.locations || [],
+      pairs: input.pairs,
+      filters: input.filters || {},
+    });
+    return { taskDbId: task.id, taskId: task.taskId };
+  },
+
+  async loadResults(task) {
+    const rows = await anywhoResultStore.loadAll(task.taskDbId);
+    return rows.map(r => ({
+      searchName: r.searchName,
+      searchLocation: r.searchLocation,
+      name: r.name,
+      age: r.age,
+      city: r.city,
+      state: r.state,
+      location: r.location,
+      phone: r.phone,
+      phoneType: r.phoneType,
+      carrier: r.carrier,
+      allPhones: r.allPhones || (r.phone ? [r.phone] : []),
+      email: r.emails?.[0] || null,
+      allEmails: r.emails || [],
+      detailLink: r.detailLink,
+    }));
+  },
+
+  countResults: (task) => anywhoResultStore.count(task.taskDbId),
+
+  async saveResults(task, subTask, details) {
+    await anywhoResultStore.insert(details.map(r => ({
+      taskId: task.taskDbId,
+      subTaskIndex: subTask.index,
+      name: r.name,
+      firstName: r.firstName,
+      lastName: r.lastName,
+      searchName: subTask.name,
+      searchLocation: subTask.location || undefined,
+      age: r.age,
+      city: r.city,
+      state: r.state,
+      location: r.location,
+      currentAddress: r.currentAddress,
+      phone: r.phone,
+      phoneType: r.phoneType,
+      carrier: r.carrier,
+      allPhones: r.allPhones || [],
+      reportYear: r.reportYear,
+      isPrimary: true,
+      marriageStatus: r.marriageStatus,
+      marriageRecords: r.marriageRecords || [],
+      familyMembers: r.familyMembers || [],
+      emails: r.emails || [],
+      isDeceased: r.isDeceased || false,
+      detailLink: r.detailLink,
+      fromCache: false,
+    })));
+  },
+
+  async logApi(data) {
+    await logApi({ ...data, apiType: "scrape_tps", endpoint: `anywho:${data.endpoint}`, responseTime: 0 });
+  },
+};
@@ -8,52 +8,43 @@
  * - 改为实时扣费模式，与 SPF 保持一致
  * - 用多少扣多少，积分耗尽立即停止
  * - 保证已获取的数据完整返回给用户
+ * 
+ * v5.0 更新:
+ * - 搜索执行迁移到统一执行器 (peopleSearch/runner.ts)，Anywho 逻辑见 provider.ts
+ * - 新增 resumeTask：失败或积分不足的任务充值后继续，跳过已完成的子任务
+ * - CSV 导出改为流式下载 (GET /api/export/anywho/:taskId)，格式见 export.ts
+ * - 团队空间：团队成员共享积分池，任务历史和结果在团队内可见（见 organizations/）
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
-import { 
-  searchOnly,
-  convertSearchResultToDetail,
-  determineAgeRanges,
-  fetchDetailsFromPages,
-  AnywhoFilters, 
-  AnywhoDetailResult,
-  AnywhoSearchResult,
-  AnywhoAgeRange,
-  DetailTask,
-  ANYWHO_CONFIG,
-} from "./scraper";
 import {
   getAnywhoConfig,
-  createAnywhoSearchTask,
-  updateAnywhoSearchTaskProgress,
-  completeAnywhoSearchTask,
-  failAnywhoSearchTask,
-  saveAnywhoSearchResults,
-  getAnywhoSearchTask,
-  getUserAnywhoSearchTasks,
-  getAnywhoSearchResults,
-  getCachedAnywhoDetails,
-  saveAnywhoDetailCache,
-  getUserCredits,
-  logApi,
+  anywhoTaskStore,
+  anywhoResultStore,
 } from "./db";
 import { getDb, logUserActivity } from "../db";
 import { anywhoSearchTasks } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
-import { 
-  createAnywhoRealtimeCreditTracker, 
-  AnywhoRealtimeCreditTracker,
-  formatAnywhoeCostBreakdown,
-  CostBreakdown,
-} from "./realtimeCredits";
-import { emitTaskProgress, emitTaskCompleted, emitTaskFailed, emitCreditsUpdate } from "../_core/wsEmitter";
-
-// 并发配置
-const TOTAL_CONCURRENCY = ANYWHO_CONFIG.TOTAL_CONCURRENCY;
-const SEARCH_CONCURRENCY = ANYWHO_CONFIG.TASK_CONCURRENCY;
+import { anywhoProvider, toAnywhoRuntimeConfig } from "./provider";
+import { runPeopleSearchTask, signalPeopleSearchStop } from "../peopleSearch/runner";
+import {
+  peopleSearchModeSchema,
+  peopleSearchPairsSchema,
+  refinePeopleSearchInput,
+  fillPairNames,
+  MAX_SEARCH_NAMES,
+} from "../peopleSearch/input";
+import { resumePeopleSearchTask } from "../peopleSearch/resume";
+import { runTaskJob } from "../services/taskQueue";
+import { getAvailableCredits } from "../organizations/credits";
+import {
+  getTeamUserIds,
+  canViewUserResource,
+  canManageUserResource,
+  searchProcedure,
+} from "../organizations/access";
 
 // 输入验证 schema - 新的过滤条件
 const anywhoFiltersSchema = z.object({
@@ -68,14 +59,15 @@ const anywhoFiltersSchema = z.object({
 }).optional();
 
 const anywhoSearchInputSchema = z.object({
-  names: z.array(z.string().min(1)).min(1).max(100),
+  names: z.array(z.string().min(1)).max(MAX_SEARCH_NAMES).default([]),
   locations: z.array(z.string()).optional(),
   // 新增：独立的城市、州参数（Anywho 不支持邮编搜索）
   cities: z.array(z.string()).optional(),
   states: z.array(z.string()).optional(),
-  mode: z.enum(["nameOnly", "nameLocation"]),
+  pairs: peopleSearchPairsSchema,
+  mode: peopleSearchModeSchema,
   filters: anywhoFiltersSchema,
-});
+}).superRefine(refinePeopleSearchInput).transform(fillPairNames);
 
 export const anywhoRouter = router({
   // 获取 Anywho 配置（用户端）
@@ -91,55 +83,16 @@ export const anywhoRouter = router({
     };
   }),
 
-  // 预估搜索消耗 - 更新：双年龄搜索，费用 x2
+  // 预估搜索消耗 - 按覆盖的年龄段数量（最多 4 个）计费
   estimateCost: protectedProcedure
     .input(anywhoSearchInputSchema)
     .query(async ({ input }) => {
       const config = await getAnywhoConfig();
-      const searchCost = parseFloat(config.searchCost);
-      const maxPages = config.maxPages || 4;
-      
-      // 计算子任务数
-      let subTaskCount = 0;
-      if (input.mode === "nameOnly") {
-        subTaskCount = input.names.length;
-      } else {
-        const locations = input.locations || [""];
-        subTaskCount = input.names.length * locations.length;
-      }
-      
-      // 根据用户年龄过滤设置确定需要搜索的年龄段数量
-      const minAge = input.filters?.minAge ?? 50;
-      const maxAge = input.filters?.maxAge ?? 79;
-      const ageRanges = determineAgeRanges(minAge, maxAge);
-      const ageRangeCount = ageRanges.length;
-      
-      // 搜索页费用：子任务数 × 每任务页数 × 年龄段数量
-      const maxSearchPages = subTaskCount * maxPages * ageRangeCount;
-      const maxSearchCost = maxSearchPages * searchCost;
-      
-      // 总费用 = 只有搜索页费用
-      const estimatedCost = maxSearchCost;
-      
-      return {
-        subTaskCount,
-        maxPages,
-        ageRangeCount,
-        ageRanges,
-        maxSearchPages,
-        maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
-        avgDetailsPerTask: 0,  // 不再需要详情页
-        estimatedDetails: 0,
-        estimatedDetailCost: 0,
-        estimatedCost: Math.ceil(estimatedCost * 10) / 10,
-        searchCost,
-        detailCost: 0,  // 不再需要详情页费用
-        note: `双年龄搜索 (${ageRanges.join(', ')})，实时扣费模式`,
-      };
+      return anywhoProvider.estimateCost(input, toAnywhoRuntimeConfig(config));
     }),
 
   // 提交搜索任务 - 改为实时扣费模式
-  search: protectedProcedure
+  search: searchProcedure
     .input(anywhoSearchInputSchema)
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
@@ -160,27 +113,12 @@ export const anywhoRouter = router({
         });
       }
       
-      // 获取积分配置
-      const searchCost = parseFloat(config.searchCost);
-      const detailCost = parseFloat(config.detailCost || config.searchCost);
-      const maxPages = config.maxPages || 4;
-      
-      // 计算子任务
-      let subTasks: Array<{ name: string; location?: string }> = [];
-      if (input.mode === "nameOnly") {
-        subTasks = input.names.map(name => ({ name }));
-      } else {
-        const locations = input.locations || [""];
-        for (const name of input.names) {
-          for (const location of locations) {
-            subTasks.push({ name, location });
-          }
-        }
-      }
+      const runtimeConfig = toAnywhoRuntimeConfig(config);
+      const searchCost = runtimeConfig.searchCost;
       
       // ==================== 实时扣费模式：只检查是否有足够积分启动 ====================
       // 检查用户是否有足够积分启动任务（至少需要一次搜索的费用）
-      const userCredits = await getUserCredits(userId);
+      const userCredits = await getAvailableCredits(userId);
       if (userCredits < searchCost) {
         throw new TRPCError({
           code: "FORBIDDEN",
@@ -189,25 +127,14 @@ export const anywhoRouter = router({
       }
       
       // 创建任务
-      const task = await createAnywhoSearchTask({
+      const task = await anywhoTaskStore.create({
         userId,
         mode: input.mode,
         names: input.names,
         locations: input.locations || [],
+        pairs: input.pairs,
         filters: input.filters || {},
-        maxPages,
-      });
-      
-      // 更新任务状态
-      await updateAnywhoSearchTaskProgress(task.taskId, {
-        status: "running",
-        totalSubTasks: subTasks.length,
-        logs: [
-          { timestamp: new Date().toISOString(), message: "任务开始执行" },
-          { timestamp: new Date().toISOString(), message: `💰 实时扣费模式，当前余额 ${userCredits.toFixed(1)} 积分` },
-        ],
       });
-      emitTaskProgress(userId, task.taskId, "anywho", { status: "running", totalSubTasks: subTasks.length });
       
       // 记录用户活动
       await logUserActivity({
@@ -216,8 +143,19 @@ export const anywhoRouter = router({
         details: `开始 Anywho 搜索任务: ${task.taskId}，实时扣费模式`
       });
       
-      // 异步执行搜索（实时扣费模式）
-      executeAnywhoSearchRealtime(task.taskId, task.id, userId, subTasks, input.filters || {}, config);
+      // 异步执行搜索（实时扣费模式，统一执行器，持有任务租约以便服务重启后恢复）
+      runTaskJob(
+        { source: "anywho", taskId: task.taskId, taskDbId: task.id, userId, payload: input },
+        () => runPeopleSearchTask(
+          anywhoProvider,
+          { taskDbId: task.id, taskId: task.taskId },
+          userId,
+          input,
+          runtimeConfig
+        )
+      ).catch(err => {
+        console.error(`[Anywho] 任务 ${task.taskId} 执行失败:`, err);
+      });
       
       return {
         taskId: task.taskId,
@@ -230,7 +168,7 @@ export const anywhoRouter = router({
   getTaskStatus: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const task = await getAnywhoSearchTask(input.taskId);
+      const task = await anywhoTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -239,7 +177,7 @@ export const anywhoRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
@@ -257,7 +195,7 @@ export const anywhoRouter = router({
       pageSize: z.number().min(1).max(100).default(50),
     }))
     .query(async ({ ctx, input }) => {
-      const task = await getAnywhoSearchTask(input.taskId);
+      const task = await anywhoTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -266,15 +204,15 @@ export const anywhoRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
         });
       }
       
-      const results = await getAnywhoSearchResults(task.id, input.page, input.pageSize);
-      return results;
+      const { data, total } = await anywhoResultStore.list(task.id, input.page, input.pageSize);
+      return { results: data, total, page: input.page, pageSize: input.pageSize };
     }),
 
   // 获取搜索历史
@@ -285,14 +223,15 @@ export const anywhoRouter = router({
     }))
     .query(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
-      return await getUserAnywhoSearchTasks(userId, input.page, input.pageSize);
+      const { data, total } = await anywhoTaskStore.listByUsers(await getTeamUserIds(userId), input.page, input.pageSize);
+      return { tasks: data, total, page: input.page, pageSize: input.pageSize };
     }),
 
-  // 导出结果为 CSV（完善详细版本）
-  exportResults: protectedProcedure
+  // 停止任务
+  stopTask: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const task = await getAnywhoSearchTask(input.taskId);
+      const task = await anywhoTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -301,123 +240,36 @@ export const anywhoRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canManageUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
         });
       }
       
-      if (task.status !== "completed" && task.status !== "insufficient_credits") {
+      if (task.status !== "running") {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "任务尚未完成",
-        });
-      }
-      
-      // 获取所有结果
-      const allResults: any[] = [];
-      let page = 1;
-      const pageSize = 100;
-      
-      while (true) {
-        const { results, total } = await getAnywhoSearchResults(task.id, page, pageSize);
-        allResults.push(...results);
-        
-        if (allResults.length >= total || results.length === 0) {
-          break;
-        }
-        page++;
-      }
-      
-      if (allResults.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "没有可导出的结果",
+          message: "只能停止运行中的任务",
         });
       }
       
-      // 精简版 CSV 表头（13个字段）
-      const headers = [
-        "序号",
-        "姓名",
-        "年龄",
-        "地点",           // 城市, 州（合并）
-        "当前住址",
-        "电话",
-        "电话类型",
-        "婚姻状况",
-        "邮箱",
-        "是否已故",
-        "详情链接",
-        "数据来源",
-        "获取时间",
-      ];
-      
-      // 格式化电话号码（添加1前缀）
-      const formatPhone = (phone: string | null | undefined): string => {
-        if (!phone) return "";
-        const cleaned = phone.replace(/\D/g, "");
-        if (cleaned.length === 10) {
-          return "1" + cleaned;
-        }
-        return cleaned;
-      };
-      
-      // 生成数据行
-      const rows = allResults.map((r, index) => {
-        // 合并城市和州为地点
-        const location = [r.city, r.state].filter(Boolean).join(", ");
-        // 合并邮箱
-        const emails = Array.isArray(r.emails) ? r.emails.join("; ") : (r.emails || "");
-        
-        return [
-          index + 1,                                    // 序号
-          r.name || "",                                 // 姓名
-          r.age ?? "",                                  // 年龄
-          location,                                     // 地点（城市, 州）
-          r.currentAddress || "",                       // 当前住址
-          formatPhone(r.phone),                         // 电话（加1）
-          r.phoneType || "",                            // 电话类型
-          r.marriageStatus || "",                       // 婚姻状况
-          emails,                                       // 邮箱
-          r.isDeceased ? "是" : "否",                   // 是否已故
-          r.detailLink || "",                           // 详情链接
-          r.fromCache ? "缓存" : "实时获取",            // 数据来源
-          r.createdAt ? new Date(r.createdAt).toLocaleString("zh-CN") : "", // 获取时间
-        ];
-      });
-      
-      // 转义 CSV 特殊字符
-      const escapeCSV = (cell: any): string => {
-        const str = String(cell ?? "");
-        // 如果包含逗号、引号、换行符，需要用引号包裹并转义内部引号
-        if (str.includes(",") || str.includes('"') || str.includes("\n") || str.includes("\r")) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      };
-      
-      const csv = [
-        headers.map(escapeCSV).join(","),
-        ...rows.map(row => row.map(escapeCSV).join(",")),
-      ].join("\n");
-      
-      // 添加 BOM 以支持中文（Excel 兼容）
-      const csvWithBom = "\uFEFF" + csv;
+      // 标记任务为取消状态
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "数据库连接失败" });
+      await db.update(anywhoSearchTasks)
+        .set({ status: "cancelled" })
+        .where(eq(anywhoSearchTasks.taskId, input.taskId));
+      signalPeopleSearchStop("anywho", task.taskId);
       
-      return {
-        csv: csvWithBom,
-        filename: `anywho_results_${task.taskId.slice(0, 8)}_${new Date().toISOString().slice(0, 10)}.csv`,
-        totalRecords: allResults.length,
-      };
+      return { success: true, message: "任务已停止" };
     }),
-
-  // 停止任务
-  stopTask: protectedProcedure
+  // 继续执行失败或积分不足的任务：只执行未完成的子任务，只对新增请求扣费
+  resumeTask: searchProcedure
     .input(z.object({ taskId: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const task = await getAnywhoSearchTask(input.taskId);
+      const userId = ctx.user!.id;
+      const task = await anywhoTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -426,665 +278,59 @@ export const anywhoRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canManageUserResource(userId, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
         });
       }
       
-      if (task.status !== "running") {
+      if (task.status !== "failed" && task.status !== "insufficient_credits") {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "只能停止运行中的任务",
+          message: "只能继续失败或积分不足的任务",
         });
       }
       
-      // 标记任务为取消状态
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "数据库连接失败" });
-      await db.update(anywhoSearchTasks)
-        .set({ status: "cancelled" })
-        .where(eq(anywhoSearchTasks.taskId, input.taskId));
-      
-      return { success: true, message: "任务已停止" };
-    }),
-});
-
-/**
- * 异步执行搜索任务 - 实时扣费版本
- * 
- * 核心理念：用多少，扣多少，扣完即停，有始有终
- * 
- * 1. 每次 API 请求后立即扣除对应积分
- * 2. 积分不足时立即停止，保存已获取的数据
- * 3. 确保用户获得所有已付费的搜索结果
- */
-async function executeAnywhoSearchRealtime(
-  taskId: string,
-  taskDbId: number,
-  userId: number,
-  subTasks: Array<{ name: string; location?: string }>,
-  filters: AnywhoFilters,
-  config: any
-) {
-  const token = config.scrapeDoToken;
-  const searchCost = parseFloat(config.searchCost);
-  const detailCost = parseFloat(config.detailCost || config.searchCost);
-  const maxPages = config.maxPages || 4;
-  
-  // 创建实时积分追踪器
-  const creditTracker = await createAnywhoRealtimeCreditTracker(
-    userId,
-    taskId,
-    searchCost,
-    detailCost
-  );
-  
-  let totalResults = 0;
-  let completedSubTasks = 0;
-  let totalFilteredOut = 0;
-  let stoppedDueToCredits = false;
-  
-  const logs: Array<{ timestamp: string; message: string }> = [];
-  
-  const addLog = async (message: string) => {
-    logs.push({ timestamp: new Date().toISOString(), message });
-    await updateAnywhoSearchTaskProgress(taskId, { logs });
-  };
-  
-  // 检查任务是否被取消
-  const checkCancelled = async (): Promise<boolean> => {
-    const task = await getAnywhoSearchTask(taskId);
-    return task?.status === "cancelled";
-  };
-  
-  try {
-    // ==================== 启动日志 ====================
-    await addLog(`═══════════════════════════════════════════════════`);
-    await addLog(`🔍 开始 Anywho 搜索（实时扣费模式）`);
-    await addLog(`═══════════════════════════════════════════════════`);
-    
-    // 显示搜索配置
-    await addLog(`📋 搜索配置:`);
-    const searchNames = subTasks.map(t => t.name).filter((v, i, a) => a.indexOf(v) === i);
-    await addLog(`   • 搜索姓名: ${searchNames.join(', ')}`);
-    const searchLocations = subTasks.map(t => t.location).filter(Boolean).filter((v, i, a) => a.indexOf(v) === i);
-    if (searchLocations.length > 0) {
-      await addLog(`   • 搜索地点: ${searchLocations.join(', ')}`);
-    }
-    await addLog(`   • 搜索组合: ${subTasks.length} 个任务`);
-    await addLog(`   • 每任务最大页数: ${maxPages} 页`);
-    
-    // 显示过滤条件
-    const minAge = filters.minAge ?? 50;
-    const maxAge = filters.maxAge ?? 79;
-    const minYear = filters.minYear ?? 2025;
-    
-    // 根据用户年龄范围确定需要搜索的 Anywho 年龄段
-    const ageRangesToSearch = determineAgeRanges(minAge, maxAge);
-    
-    await addLog(`📋 过滤条件:`);
-    await addLog(`   • 年龄范围: ${minAge} - ${maxAge} 岁`);
-    await addLog(`   • 号码年份: ≥ ${minYear} 年`);
-    await addLog(`   • 排除已故: ${filters.excludeDeceased !== false ? '是' : '否'}`);
-    if (filters.excludeMarried) await addLog(`   • 排除已婚: 是`);
-    if (filters.excludeTMobile) await addLog(`   • 排除 T-Mobile: 是`);
-    if (filters.excludeComcast) await addLog(`   • 排除 Comcast: 是`);
-    if (filters.excludeLandline) await addLog(`   • 排除 Landline: 是`);
-    
-    await addLog(`💰 扣费模式: 实时扣费，用多少扣多少`);
-    await addLog(`💰 当前余额: ${creditTracker.getCurrentBalance().toFixed(1)} 积分`);
-    
-    await addLog(`═══════════════════════════════════════════════════`);
-    
-    // ==================== 搜索阶段（实时扣费）====================
-    
-    const allSearchResults: Array<{
-      searchResult: AnywhoSearchResult;
-      searchName: string;
-      searchLocation?: string;
-      subTaskIndex: number;
-    }> = [];
-    
-    // 顺序处理每个子任务（便于实时扣费控制）
-    for (let i = 0; i < subTasks.length; i++) {
-      // 检查是否取消
-      if (await checkCancelled()) {
-        await addLog("⚠️ 任务已被用户取消");
-        break;
-      }
-      
-      // 检查积分是否足够继续
-      if (!creditTracker.canContinue()) {
-        await addLog(`⚠️ 积分不足，停止搜索`);
-        stoppedDueToCredits = true;
-        break;
-      }
-      
-      const subTask = subTasks[i];
-      const taskName = subTask.location ? `${subTask.name} @ ${subTask.location}` : subTask.name;
-      
-      try {
-        // 执行搜索（内部会多次请求，每次请求后扣费）
-        const { results, pagesSearched, ageRangesSearched } = await searchOnlyWithCredits(
-          subTask.name,
-          subTask.location,
-          maxPages,
-          token,
-          ageRangesToSearch,
-          creditTracker,
-          addLog
-        );
-        
-        // 检查是否因积分不足停止
-        if (creditTracker.isStopped()) {
-          stoppedDueToCredits = true;
-          await addLog(`⚠️ 积分不足，停止搜索`);
-        }
-        
-        // 收集搜索结果
-        for (const result of results) {
-          allSearchResults.push({
-            searchResult: result,
-            searchName: subTask.name,
-            searchLocation: subTask.location,
-            subTaskIndex: i,
-          });
-        }
-        
-        completedSubTasks++;
-        
-        // 记录每个子任务的搜索结果
-        await addLog(`✅ [${completedSubTasks}/${subTasks.length}] ${taskName} - ${results.length} 条结果`);
-        
-        // 更新进度
-        const progress = Math.floor((completedSubTasks / subTasks.length) * 80);
-        await updateAnywhoSearchTaskProgress(taskId, {
-          progress,
-          completedSubTasks,
-          searchPageRequests: creditTracker.getCostBreakdown().searchPages,
+      const config = await getAnywhoConfig();
+      if (!config.enabled) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Anywho 功能暂未开放",
         });
-        emitTaskProgress(userId, taskId, "anywho", { progress, completedSubTasks, totalSubTasks: subTasks.length });
-        emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getCostBreakdown().totalCost, source: "anywho", taskId });
-        
-        // 如果因积分不足停止，跳出循环
-        if (stoppedDueToCredits) {
-          break;
-        }
-        
-      } catch (error: any) {
-        completedSubTasks++;
-        await addLog(`❌ [${completedSubTasks}/${subTasks.length}] ${taskName} 搜索失败: ${error.message}`);
-      }
-    }
-    
-    // 搜索阶段完成
-    if (allSearchResults.length > 0) {
-      await addLog(`📊 搜索完成，正在应用过滤条件...`);
-    } else {
-      await addLog(`📊 搜索完成，未找到结果`);
-    }
-    
-    // ==================== 转换并应用过滤 ====================
-    
-    const allResults: Array<{
-      subTaskIndex: number;
-      name: string;
-      firstName: string;
-      lastName: string;
-      searchName: string;
-      searchLocation?: string;
-      age: number | null;
-      city: string;
-      state: string;
-      location: string;
-      currentAddress?: string;
-      phone: string;
-      phoneType: string;
-      carrier: string;
-      allPhones: string[];
-      reportYear: number | null;
-      isPrimary: boolean;
-      marriageStatus: string | null;
-      marriageRecords: string[];
-      familyMembers: string[];
-      emails: string[];
-      isDeceased: boolean;
-      detailLink: string;
-      fromCache: boolean;
-    }> = [];
-    
-    // 转换搜索结果为详情格式
-    for (const item of allSearchResults) {
-      const detail = convertSearchResultToDetail(item.searchResult);
-      
-      allResults.push({
-        subTaskIndex: item.subTaskIndex,
-        name: detail.name,
-        firstName: detail.firstName,
-        lastName: detail.lastName,
-        searchName: item.searchName,
-        searchLocation: item.searchLocation,
-        age: detail.age,
-        city: detail.city,
-        state: detail.state,
-        location: detail.location,
-        currentAddress: detail.currentAddress,
-        phone: detail.phone,
-        phoneType: detail.phoneType,
-        carrier: detail.carrier,
-        allPhones: detail.allPhones || [],
-        reportYear: detail.reportYear,
-        isPrimary: true,
-        marriageStatus: detail.marriageStatus,
-        marriageRecords: detail.marriageRecords || [],
-        familyMembers: detail.familyMembers || [],
-        emails: detail.emails || [],
-        isDeceased: detail.isDeceased || false,
-        detailLink: item.searchResult.detailLink,
-        fromCache: false,
-      });
-    }
-    
-    // 应用过滤条件
-    let filteredResults = allResults;
-    const initialCount = filteredResults.length;
-    
-    // 1. 排除已故人员（默认启用）
-    if (filters.excludeDeceased !== false) {
-      filteredResults = filteredResults.filter(r => !r.isDeceased);
-    }
-    
-    // 2. 年龄过滤（默认 50-79 岁）
-    const filterMinAge = filters.minAge ?? 50;
-    const filterMaxAge = filters.maxAge ?? 79;
-    if (filterMinAge > 0 || filterMaxAge < 100) {
-      filteredResults = filteredResults.filter(r => {
-        if (r.age === null || r.age === undefined) return true;
-        if (r.age < filterMinAge) return false;
-        if (r.age > filterMaxAge) return false;
-        return true;
-      });
-    }
-    
-    // 3. 号码年份过滤（默认 2025 年）
-    const filterMinYear = filters.minYear ?? 2025;
-    if (filterMinYear > 2020) {
-      filteredResults = filteredResults.filter(r => {
-        if (!r.reportYear) return true;
-        return r.reportYear >= filterMinYear;
-      });
-    }
-    
-    // 4. 排除已婚
-    if (filters.excludeMarried) {
-      filteredResults = filteredResults.filter(r => {
-        if (!r.marriageStatus) return true;
-        return r.marriageStatus.toLowerCase() !== 'married';
-      });
-    }
-    
-    // 5. 排除 T-Mobile 号码
-    if (filters.excludeTMobile) {
-      filteredResults = filteredResults.filter(r => {
-        if (!r.carrier) return true;
-        return !r.carrier.toLowerCase().includes('t-mobile') && !r.carrier.toLowerCase().includes('tmobile');
-      });
-    }
-    
-    // 6. 排除 Comcast 号码
-    if (filters.excludeComcast) {
-      filteredResults = filteredResults.filter(r => {
-        if (!r.carrier) return true;
-        const carrierLower = r.carrier.toLowerCase();
-        return !carrierLower.includes('comcast') && !carrierLower.includes('spectrum') && !carrierLower.includes('xfinity');
-      });
-    }
-    
-    // 7. 排除 Landline 号码
-    if (filters.excludeLandline) {
-      filteredResults = filteredResults.filter(r => {
-        if (!r.phoneType) return true;
-        return r.phoneType.toLowerCase() !== 'landline';
-      });
-    }
-    
-    // 计算总过滤数
-    totalFilteredOut = initialCount - filteredResults.length;
-    
-    // 过滤阶段完成日志
-    if (initialCount > 0) {
-      await addLog(`📊 过滤完成: ${filteredResults.length} 条符合条件，${totalFilteredOut} 条已过滤`);
-    }
-    
-    // ==================== 详情页获取（实时扣费）====================
-    
-    if (filteredResults.length > 0 && creditTracker.canContinue()) {
-      await addLog(`📊 正在获取详细信息...`);
-      
-      // 构建搜索结果映射
-      const searchResultMap = new Map<string, AnywhoSearchResult>();
-      for (const item of allSearchResults) {
-        searchResultMap.set(item.searchResult.detailLink, item.searchResult);
-      }
-      
-      // 批量获取详情页（带实时扣费）
-      const searchResultsForDetail = filteredResults
-        .map(r => searchResultMap.get(r.detailLink))
-        .filter((r): r is AnywhoSearchResult => r !== undefined);
-      
-      const { details, requestCount, successCount, stoppedDueToCredits: detailStopped } = await fetchDetailsWithCredits(
-        searchResultsForDetail,
-        token,
-        creditTracker,
-        async (completed, total, current) => {
-          const progress = 80 + Math.floor((completed / total) * 15);
-          await updateAnywhoSearchTaskProgress(taskId, {
-            progress,
-            detailPageRequests: creditTracker.getCostBreakdown().detailPages,
-          });
-          emitTaskProgress(userId, taskId, "anywho", { progress });
-          emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getCostBreakdown().totalCost, source: "anywho", taskId });
-          if (current) {
-            await addLog(`✅ [${completed}/${total}] ${current.name} - 已获取`);
-          }
-        }
-      );
-      
-      if (detailStopped) {
-        stoppedDueToCredits = true;
-        await addLog(`⚠️ 积分不足，停止获取详情`);
-      }
-      
-      // 更新筛选结果中的详情信息
-      const detailMap = new Map<string, AnywhoDetailResult>();
-      for (let i = 0; i < searchResultsForDetail.length; i++) {
-        const detail = details[i];
-        if (detail) {
-          detailMap.set(searchResultsForDetail[i].detailLink, detail);
-        }
-      }
-      
-      // 合并详情信息到筛选结果
-      for (const result of filteredResults) {
-        const detail = detailMap.get(result.detailLink);
-        if (detail) {
-          result.carrier = detail.carrier || result.carrier;
-          result.phoneType = detail.phoneType || result.phoneType;
-          result.marriageStatus = detail.marriageStatus || result.marriageStatus;
-          result.isDeceased = detail.isDeceased;
-          if (detail.allPhones && detail.allPhones.length > 0) {
-            result.allPhones = detail.allPhones;
-          }
-        }
-      }
-      
-      await addLog(`📊 详细信息获取完成`);
-      
-      // 详情页获取后再次过滤已故人员
-      if (filters.excludeDeceased !== false) {
-        const beforeDeceasedFilter = filteredResults.length;
-        filteredResults = filteredResults.filter(r => !r.isDeceased);
-        const deceasedFiltered = beforeDeceasedFilter - filteredResults.length;
-        if (deceasedFiltered > 0) {
-          totalFilteredOut += deceasedFiltered;
-        }
       }
       
-      // 排除没有电话号码的记录
-      {
-        const beforeNoPhoneFilter = filteredResults.length;
-        filteredResults = filteredResults.filter(r => {
-          const hasMainPhone = r.phone && r.phone.trim() !== '';
-          return hasMainPhone;
+      if (!config.scrapeDoToken) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "系统配置错误，请联系管理员",
         });
-        const noPhoneFiltered = beforeNoPhoneFilter - filteredResults.length;
-        if (noPhoneFiltered > 0) {
-          totalFilteredOut += noPhoneFiltered;
-        }
       }
-    }
-    
-    totalResults = filteredResults.length;
-    
-    // ==================== 保存结果 ====================
-    if (filteredResults.length > 0) {
-      console.log(`[saveResults] 保存 ${filteredResults.length} 条结果到任务 taskDbId=${taskDbId}`);
-      await saveAnywhoSearchResults(taskDbId, filteredResults);
-      console.log(`[saveResults] 保存完成`);
-    }
-    
-    // ==================== 完成任务 ====================
-    const breakdown = creditTracker.getCostBreakdown();
-    
-    // 根据是否因积分不足停止，设置不同的任务状态
-    if (stoppedDueToCredits) {
-      // 积分不足停止，但保存已获取的数据
-      await updateAnywhoSearchTaskProgress(taskId, {
-        status: "insufficient_credits",
-        progress: 100,
-        totalResults,
-        creditsUsed: breakdown.totalCost.toFixed(2),
-        searchPageRequests: breakdown.searchPages,
-        detailPageRequests: breakdown.detailPages,
-      });
-    } else {
-      // 正常完成
-      await completeAnywhoSearchTask(taskId, {
-        totalResults,
-        creditsUsed: breakdown.totalCost.toFixed(2),
-        searchPageRequests: breakdown.searchPages,
-        detailPageRequests: breakdown.detailPages,
-        cacheHits: 0,
-      });
-    }
-    emitTaskCompleted(userId, taskId, "anywho", { totalResults, creditsUsed: breakdown.totalCost, status: stoppedDueToCredits ? "insufficient_credits" : "completed" });
-    
-    // ==================== 完成日志 ====================
-    await addLog(`═══════════════════════════════════════════════════`);
-    if (stoppedDueToCredits) {
-      await addLog(`⚠️ 任务因积分不足提前停止`);
-    } else {
-      await addLog(`🎉 任务完成!`);
-    }
-    await addLog(`═══════════════════════════════════════════════════`);
-    
-    // 搜索结果摘要
-    await addLog(`📊 搜索结果摘要:`);
-    await addLog(`   • 有效结果: ${totalResults} 条联系人`);
-    await addLog(`   • 已过滤: ${totalFilteredOut} 条`);
-    
-    // 费用明细（实时扣费）
-    const costLines = formatAnywhoeCostBreakdown(
-      breakdown,
-      creditTracker.getCurrentBalance(),
-      totalResults,
-      stoppedDueToCredits
-    );
-    for (const line of costLines) {
-      await addLog(line);
-    }
-    
-  } catch (error: any) {
-    console.error(`[Anywho] 任务 ${taskId} 执行失败:`, error);
-    
-    const breakdown = creditTracker.getCostBreakdown();
-    
-    await failAnywhoSearchTask(taskId, error.message || "未知错误");
-    emitTaskFailed(userId, taskId, "anywho", { error: error.message || "未知错误", creditsUsed: breakdown.totalCost });
-    await addLog(`❌ 搜索任务失败: ${error.message}`);
-    await addLog(`💰 已消耗: ${breakdown.totalCost.toFixed(1)} 积分`);
-    await addLog(`💰 当前余额: ${creditTracker.getCurrentBalance().toFixed(1)} 积分`);
-  }
-}
-
-/**
- * 带实时扣费的搜索函数
- * 每次 API 请求后立即扣除积分
- */
-async function searchOnlyWithCredits(
-  name: string,
-  location: string | undefined,
-  maxPages: number,
-  token: string,
-  ageRanges: AnywhoAgeRange[],
-  creditTracker: AnywhoRealtimeCreditTracker,
-  addLog: (msg: string) => Promise<void>
-): Promise<{
-  results: AnywhoSearchResult[];
-  pagesSearched: number;
-  ageRangesSearched: AnywhoAgeRange[];
-}> {
-  const allResults: AnywhoSearchResult[] = [];
-  let totalPagesSearched = 0;
-  const searchedAgeRanges: AnywhoAgeRange[] = [];
-  
-  // 对每个年龄段进行搜索
-  for (const ageRange of ageRanges) {
-    // 检查是否可以继续
-    if (!creditTracker.canContinue()) {
-      break;
-    }
-    
-    // 检查是否有足够积分进行搜索
-    if (!(await creditTracker.canAffordSearchPage())) {
-      break;
-    }
-    
-    try {
-      // 执行搜索（这里调用原始的 searchOnly，但我们需要在每页后扣费）
-      // 由于 searchOnly 内部会处理分页，我们需要修改逻辑
-      // 这里简化处理：假设每次搜索消耗一定的页数
-      const { results, pagesSearched } = await searchOnly(
-        name,
-        location,
-        maxPages,
-        token,
-        [ageRange]
-      );
       
-      // 实时扣除搜索页费用
-      for (let i = 0; i < pagesSearched; i++) {
-        const deductResult = await creditTracker.deductSearchPage();
-        if (!deductResult.success) {
-          // 积分不足，停止
-          break;
-        }
+      const runtimeConfig = toAnywhoRuntimeConfig(config);
+      // 团队管理员继续成员的任务时，仍按任务发起人扣费
+      const userCredits = await getAvailableCredits(task.userId);
+      if (userCredits < runtimeConfig.searchCost) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `积分不足，至少需要 ${runtimeConfig.searchCost.toFixed(1)} 积分才能继续任务，当前余额 ${userCredits.toFixed(1)} 积分`,
+        });
       }
       
-      allResults.push(...results);
-      totalPagesSearched += pagesSearched;
-      searchedAgeRanges.push(ageRange);
-      
-    } catch (error: any) {
-      console.error(`[Anywho] 搜索 ${name} (${ageRange}) 失败:`, error.message);
-    }
-  }
-  
-  // 去重
-  const uniqueResults = allResults.filter((result, index, self) =>
-    index === self.findIndex(r => r.detailLink === result.detailLink)
-  );
-  
-  return {
-    results: uniqueResults,
-    pagesSearched: totalPagesSearched,
-    ageRangesSearched: searchedAgeRanges,
-  };
-}
-
-/**
- * 带实时扣费的详情页获取函数
- */
-async function fetchDetailsWithCredits(
-  searchResults: AnywhoSearchResult[],
-  token: string,
-  creditTracker: AnywhoRealtimeCreditTracker,
-  onProgress?: (completed: number, total: number, current?: AnywhoDetailResult) => Promise<void>
-): Promise<{
-  details: (AnywhoDetailResult | null)[];
-  requestCount: number;
-  successCount: number;
-  stoppedDueToCredits: boolean;
-}> {
-  const details: (AnywhoDetailResult | null)[] = [];
-  let requestCount = 0;
-  let successCount = 0;
-  let stoppedDueToCredits = false;
-  
-  for (let i = 0; i < searchResults.length; i++) {
-    // 检查是否可以继续
-    if (!creditTracker.canContinue()) {
-      stoppedDueToCredits = true;
-      // 填充剩余位置为 null
-      for (let j = i; j < searchResults.length; j++) {
-        details.push(null);
-      }
-      break;
-    }
-    
-    // 检查是否有足够积分
-    if (!(await creditTracker.canAffordDetailPage())) {
-      stoppedDueToCredits = true;
-      // 填充剩余位置为 null
-      for (let j = i; j < searchResults.length; j++) {
-        details.push(null);
-      }
-      break;
-    }
-    
-    const searchResult = searchResults[i];
-    
-    try {
-      // 获取详情页
-      const { details: fetchedDetails, requestCount: fetchRequestCount } = await fetchDetailsFromPages(
-        [searchResult],
-        token,
-        1,  // 单个处理
-        undefined,
-        undefined
+      const { remainingSubTasks } = await resumePeopleSearchTask(
+        anywhoProvider,
+        { taskDbId: task.id, taskId: task.taskId },
+        task.userId,
+        {
+          names: task.names,
+          locations: task.locations || [],
+          pairs: task.pairs ?? undefined,
+          mode: task.mode,
+          filters: task.filters || {},
+        },
+        runtimeConfig
       );
       
-      const detail = fetchedDetails[0];
-      details.push(detail);
-      
-      if (detail) {
-        successCount++;
-        
-        // 实时扣除详情页费用
-        const deductResult = await creditTracker.deductDetailPage();
-        if (!deductResult.success) {
-          stoppedDueToCredits = true;
-        }
-      }
-      
-      requestCount++;
-      
-      // 进度回调
-      if (onProgress) {
-        await onProgress(i + 1, searchResults.length, detail || undefined);
-      }
-      
-    } catch (error: any) {
-      console.error(`[Anywho] 获取详情失败:`, error.message);
-      details.push(null);
-      requestCount++;
-    }
-    
-    if (stoppedDueToCredits) {
-      // 填充剩余位置为 null
-      for (let j = i + 1; j < searchResults.length; j++) {
-        details.push(null);
-      }
-      break;
-    }
-  }
-  
-  return {
-    details,
-    requestCount,
-    successCount,
-    stoppedDueToCredits,
-  };
-}
+      return { success: true, message: "任务已继续执行，只对新增请求扣费", remainingSubTasks };
+    }),
+});
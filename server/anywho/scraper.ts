@@ -224,38 +224,37 @@ function parseCityName(location: string): string | null {
  * 构建搜索 URL
  */
 // Anywho 年龄段类型
-export type AnywhoAgeRange = '31-60' | '61-80';
+export type AnywhoAgeRange = '0-30' | '31-60' | '61-80' | '80+';
+
+/**
+ * Anywho 的 4 个固定年龄段及其覆盖的年龄（80+ 按 81 岁及以上处理）
+ */
+export const ANYWHO_AGE_RANGES: ReadonlyArray<{ range: AnywhoAgeRange; min: number; max: number }> = [
+  { range: '0-30', min: 0, max: 30 },
+  { range: '31-60', min: 31, max: 60 },
+  { range: '61-80', min: 61, max: 80 },
+  { range: '80+', min: 81, max: Infinity },
+];
 
 /**
  * 根据用户设置的年龄范围，确定需要搜索的 Anywho 年龄段
- * Anywho 只有 4 个固定年龄段: 0-30, 31-60, 61-80, 80+
+ * 返回与用户范围有交集的所有年龄段，精确年龄由搜索后的过滤保证
  */
 export function determineAgeRanges(minAge: number, maxAge: number): AnywhoAgeRange[] {
-  const ranges: AnywhoAgeRange[] = [];
+  const ranges = ANYWHO_AGE_RANGES
+    .filter(bracket => minAge <= bracket.max && maxAge >= bracket.min)
+    .map(bracket => bracket.range);
   
-  // 如果用户范围与 31-60 有交集
-  if (minAge <= 60 && maxAge >= 31) {
-    ranges.push('31-60');
-  }
-  
-  // 如果用户范围与 61-80 有交集
-  if (minAge <= 80 && maxAge >= 61) {
-    ranges.push('61-80');
-  }
-  
-  // 默认至少搜索一个年龄段
+  // 范围无效（min > max）时按最小年龄所在年龄段搜索
   if (ranges.length === 0) {
-    if (maxAge <= 30) {
-      ranges.push('31-60');
-    } else {
-      ranges.push('61-80');
-    }
+    const bracket = ANYWHO_AGE_RANGES.find(b => minAge <= b.max) ?? ANYWHO_AGE_RANGES[ANYWHO_AGE_RANGES.length - 1];
+    ranges.push(bracket.range);
   }
   
   return ranges;
 }
 
-function buildSearchUrl(name: string, location?: string, page: number = 1, ageRange?: AnywhoAgeRange): string {
+export function buildSearchUrl(name: string, location?: string, page: number = 1, ageRange?: AnywhoAgeRange): string {
   const encodedName = name.trim().toLowerCase().replace(/\s+/g, '+');
   
   let locationPath = '';
@@ -289,7 +288,7 @@ function buildSearchUrl(name: string, location?: string, page: number = 1, ageRa
   }
   
   if (ageRange) {
-    params.push(`age_range=${ageRange}`);
+    params.push(`age_range=${encodeURIComponent(ageRange)}`);
   }
   
   if (params.length > 0) {
@@ -835,14 +834,14 @@ export async function searchOnly(
   location: string | undefined,
   maxPages: number,
   token: string,
-  ageRanges: AnywhoAgeRange[] = ['31-60', '61-80'],
+  ageRanges: AnywhoAgeRange[] = determineAgeRanges(50, 79),
   onProgress?: (page: number, results: AnywhoSearchResult[]) => void
 ): Promise<{
   results: AnywhoSearchResult[];
   pagesSearched: number;
   ageRangesSearched: number;
 }> {
-  console.log(`[Anywho] 开始双年龄搜索: ${name}, 地点: ${location || '全国'}, 最大页数: ${maxPages}, 年龄段: ${ageRanges.join(', ')}`);
+  console.log(`[Anywho] 开始分年龄段搜索: ${name}, 地点: ${location || '全国'}, 最大页数: ${maxPages}, 年龄段: ${ageRanges.join(', ')}`);
   
   const allResults: AnywhoSearchResult[] = [];
   let totalPagesSearched = 0;
@@ -899,7 +898,7 @@ export async function searchOnly(
     index === self.findIndex(r => r.detailLink === result.detailLink)
   );
   
-  console.log(`[Anywho] 双年龄搜索完成: 共 ${uniqueResults.length} 个唯一结果, 搜索了 ${totalPagesSearched} 页, ${ageRangesSearched} 个年龄段`);
+  console.log(`[Anywho] 分年龄段搜索完成: 共 ${uniqueResults.length} 个唯一结果, 搜索了 ${totalPagesSearched} 页, ${ageRangesSearched} 个年龄段`);
   
   return {
     results: uniqueResults,
@@ -1148,8 +1147,8 @@ export async function fullSearch(
   requestCount: number;
 }> {
   // 根据过滤条件确定需要搜索的年龄段
-  const minAge = filters.minAge || 50;
-  const maxAge = filters.maxAge || 79;
+  const minAge = filters.minAge ?? 50;
+  const maxAge = filters.maxAge ?? 79;
   const ageRanges = determineAgeRanges(minAge, maxAge);
   
   const { results: searchResults, pagesSearched, ageRangesSearched } = await searchOnly(
@@ -1178,10 +1177,8 @@ export async function fullSearch(
     
     let passFilter = true;
     
-    if (filters.minAge && detail.age && detail.age < filters.minAge) {
-      passFilter = false;
-    }
-    if (filters.maxAge && detail.age && detail.age > filters.maxAge) {
+    // 年龄段只是粗筛，按用户设置的范围精确过滤
+    if (detail.age !== null && detail.age !== undefined && (detail.age < minAge || detail.age > maxAge)) {
       passFilter = false;
     }
     
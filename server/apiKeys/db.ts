@@ -0,0 +1,149 @@
+/**
+ * 开放 API 密钥数据库操作
+ *
+ * 密钥明文只在创建时返回一次，数据库只保存 SHA-256 哈希和用于辨认的前缀
+ */
+
+import { getDb } from "../db";
+import { apiKeys, users, ApiKey, User } from "../../drizzle/schema";
+import { eq, and, desc, isNull, sql } from "drizzle-orm";
+import crypto from "crypto";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 密钥明文前缀 */
+const KEY_PREFIX = "drk_";
+/** 列表中展示的明文长度（含前缀） */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/** 每个用户最多同时持有的有效密钥数 */
+export const MAX_ACTIVE_KEYS_PER_USER = 10;
+/** 新建密钥的默认限流（每分钟请求数） */
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+/**
+ * 计算密钥哈希
+ */
+export function hashApiKey(plainKey: string): string {
+  return crypto.createHash("sha256").update(plainKey).digest("hex");
+}
+
+/**
+ * 创建 API 密钥
+ *
+ * @returns 密钥记录和明文（明文只返回这一次）
+ */
+export async function createApiKey(userId: number, name: string) {
+  const database = await db();
+  const plainKey = KEY_PREFIX + crypto.randomBytes(24).toString("base64url");
+  const keyPrefix = plainKey.slice(0, DISPLAY_PREFIX_LENGTH);
+
+  const result = await database.insert(apiKeys).values({
+    userId,
+    name,
+    keyPrefix,
+    keyHash: hashApiKey(plainKey),
+    rateLimitPerMinute: DEFAULT_RATE_LIMIT_PER_MINUTE,
+  });
+
+  return {
+    id: Number(result[0].insertId),
+    name,
+    keyPrefix,
+    plainKey,
+  };
+}
+
+/**
+ * 获取用户的 API 密钥列表（不含哈希）
+ */
+export async function getUserApiKeys(userId: number) {
+  const database = await db();
+  return database
+    .select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+      lastUsedAt: apiKeys.lastUsedAt,
+      revokedAt: apiKeys.revokedAt,
+      createdAt: apiKeys.createdAt,
+    })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * 统计用户有效（未吊销）的密钥数
+ */
+export async function countActiveApiKeys(userId: number): Promise<number> {
+  const database = await db();
+  const result = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+  return Number(result[0]?.count || 0);
+}
+
+/**
+ * 重命名密钥
+ *
+ * @returns 是否更新成功（密钥不存在或不属于该用户时返回 false）
+ */
+export async function renameApiKey(userId: number, keyId: number, name: string): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(apiKeys)
+    .set({ name })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 吊销密钥（保留记录用于审计）
+ *
+ * @returns 是否吊销成功（密钥不存在、不属于该用户或已吊销时返回 false）
+ */
+export async function revokeApiKey(userId: number, keyId: number): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 通过明文密钥查找有效密钥及其所属用户
+ *
+ * 已吊销的密钥返回 null
+ */
+export async function findActiveApiKey(plainKey: string): Promise<{ key: ApiKey; user: User } | null> {
+  const database = await db();
+  const rows = await database
+    .select({ key: apiKeys, user: users })
+    .from(apiKeys)
+    .innerJoin(users, eq(apiKeys.userId, users.id))
+    .where(and(eq(apiKeys.keyHash, hashApiKey(plainKey)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  return rows[0] || null;
+}
+
+/**
+ * 记录密钥最近使用时间
+ */
+export async function touchApiKey(keyId: number): Promise<void> {
+  const database = await db();
+  await database
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKeys.id, keyId));
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApiKey } from "../../drizzle/schema";
+import { consumeRateLimit } from "./rest";
+
+const WINDOW_MS = 60 * 1000;
+const START = new Date("2026-01-01T00:00:00.000Z").getTime();
+
+// 限流窗口按密钥 ID 保存在模块内，每个用例使用不同的 ID 互不影响
+let nextKeyId = 1;
+function createKey(rateLimitPerMinute: number): ApiKey {
+  return { id: nextKeyId++, rateLimitPerMinute } as ApiKey;
+}
+
+describe("consumeRateLimit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows up to the per-minute limit and counts down remaining", () => {
+    const key = createKey(3);
+
+    expect(consumeRateLimit(key)).toEqual({ allowed: true, remaining: 2, resetAt: START + WINDOW_MS });
+    expect(consumeRateLimit(key)).toEqual({ allowed: true, remaining: 1, resetAt: START + WINDOW_MS });
+    expect(consumeRateLimit(key)).toEqual({ allowed: true, remaining: 0, resetAt: START + WINDOW_MS });
+    expect(consumeRateLimit(key)).toEqual({ allowed: false, remaining: 0, resetAt: START + WINDOW_MS });
+  });
+
+  it("keeps the window fixed to its first request", () => {
+    const key = createKey(2);
+
+    consumeRateLimit(key);
+    vi.setSystemTime(START + 30 * 1000);
+    consumeRateLimit(key);
+    vi.setSystemTime(START + WINDOW_MS - 1);
+    const result = consumeRateLimit(key);
+
+    expect(result.allowed).toBe(false);
+    expect(result.resetAt).toBe(START + WINDOW_MS);
+  });
+
+  it("opens a new window exactly at the reset time", () => {
+    const key = createKey(1);
+
+    consumeRateLimit(key);
+    expect(consumeRateLimit(key).allowed).toBe(false);
+
+    vi.setSystemTime(START + WINDOW_MS);
+    expect(consumeRateLimit(key)).toEqual({ allowed: true, remaining: 0, resetAt: START + 2 * WINDOW_MS });
+  });
+
+  it("does not count rejected requests against the next window", () => {
+    const key = createKey(2);
+
+    for (let i = 0; i < 10; i++) {
+      consumeRateLimit(key);
+    }
+
+    vi.setSystemTime(START + WINDOW_MS + 5);
+    expect(consumeRateLimit(key).remaining).toBe(1);
+    expect(consumeRateLimit(key).allowed).toBe(true);
+    expect(consumeRateLimit(key).allowed).toBe(false);
+  });
+
+  it("limits each key independently", () => {
+    const first = createKey(1);
+    const second = createKey(1);
+
+    expect(consumeRateLimit(first).allowed).toBe(true);
+    expect(consumeRateLimit(first).allowed).toBe(false);
+    expect(consumeRateLimit(second).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * 开放 REST API (v1)
+ *
+ * 供 CRM 等自动化系统通过 API 密钥调用，不依赖浏览器 Cookie：
+ * - POST /api/v1/tps/search            提交 TPS 搜索任务
+ * - GET  /api/v1/tasks/:id             查询任务状态（TPS / SPF / Anywho）
+ * - GET  /api/v1/tasks/:id/results     分页获取任务结果
+ *
+ * 鉴权：请求头 `Authorization: Bearer <key>` 或 `X-API-Key: <key>`
+ * 每个接口都直接调用对应的 tRPC 过程，积分校验、实时扣费与网页端完全一致；
+ * 每次请求写入 api_logs (apiType = rest_api)，按密钥限流
+ */
+
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { appRouter } from "../routers";
+import { logApi } from "../db";
+import type { ApiKey, User } from "../../drizzle/schema";
+import { findActiveApiKey, touchApiKey } from "./db";
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+interface ApiKeyRequest extends Request {
+  apiKey?: ApiKey;
+  apiUser?: User;
+}
+
+// ==================== 限流 ====================
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/** 每个密钥当前窗口的请求计数（固定窗口） */
+const rateWindows = new Map<number, { windowStart: number; count: number }>();
+
+/**
+ * 记录一次请求并判断是否超出限流
+ *
+ * @returns 剩余次数和窗口重置时间；超限时 allowed 为 false
+ */
+export function consumeRateLimit(key: ApiKey): { allowed: boolean; remaining: number; resetAt: number } {
+  const now = Date.now();
+  let window = rateWindows.get(key.id);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateWindows.set(key.id, window);
+  }
+
+  const resetAt = window.windowStart + RATE_LIMIT_WINDOW_MS;
+  if (window.count >= key.rateLimitPerMinute) {
+    return { allowed: false, remaining: 0, resetAt };
+  }
+
+  window.count++;
+  return { allowed: true, remaining: key.rateLimitPerMinute - window.count, resetAt };
+}
+
+// 定期清理过期窗口，避免吊销的密钥长期占用内存
+setInterval(() => {
+  const now = Date.now();
+  rateWindows.forEach((window, keyId) => {
+    if (now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      rateWindows.delete(keyId);
+    }
+  });
+}, 5 * RATE_LIMIT_WINDOW_MS).unref();
+
+// ==================== 鉴权 ====================
+
+function extractApiKey(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+  const header = req.headers["x-api-key"];
+  return typeof header === "string" && header.trim() ? header.trim() : null;
+}
+
+/**
+ * 校验 API 密钥、用户状态和限流
+ */
+async function requireApiKey(req: ApiKeyRequest, res: Response, next: NextFunction) {
+  const plainKey = extractApiKey(req);
+  if (!plainKey) {
+    res.status(401).json({ error: "UNAUTHORIZED", message: "缺少 API 密钥" });
+    return;
+  }
+
+  let found: Awaited<ReturnType<typeof findActiveApiKey>>;
+  try {
+    found = await findActiveApiKey(plainKey);
+  } catch (error) {
+    console.error("[REST API] 密钥校验失败:", error);
+    res.status(500).json({ error: "INTERNAL_SERVER_ERROR", message: "服务暂时不可用" });
+    return;
+  }
+
+  if (!found) {
+    res.status(401).json({ error: "UNAUTHORIZED", message: "API 密钥无效或已吊销" });
+    return;
+  }
+
+  if (found.user.status !== "active") {
+    res.status(403).json({ error: "FORBIDDEN", message: "账户已被禁用" });
+    return;
+  }
+
+  const limit = consumeRateLimit(found.key);
+  res.setHeader("X-RateLimit-Limit", String(found.key.rateLimitPerMinute));
+  res.setHeader("X-RateLimit-Remaining", String(limit.remaining));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(limit.resetAt / 1000)));
+  if (!limit.allowed) {
+    res.setHeader("Retry-After", String(Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000))));
+    res.status(429).json({ error: "TOO_MANY_REQUESTS", message: `请求过于频繁，每分钟最多 ${found.key.rateLimitPerMinute} 次` });
+    return;
+  }
+
+  req.apiKey = found.key;
+  req.apiUser = found.user;
+  touchApiKey(found.key.id).catch(err => {
+    console.error("[REST API] 更新密钥使用时间失败:", err);
+  });
+  next();
+}
+
+// ==================== 请求处理 ====================
+
+/**
+ * 包装接口：以密钥所属用户身份调用 tRPC 过程，把 TRPCError 转成 HTTP 状态码，并写入 api_logs
+ */
+function handle(endpoint: string, run: (caller: Caller, req: ApiKeyRequest) => Promise<unknown>) {
+  return async (req: ApiKeyRequest, res: Response) => {
+    const startTime = Date.now();
+    const caller = appRouter.createCaller({ req, res, user: req.apiUser! });
+
+    let status = 200;
+    let errorMessage: string | undefined;
+    try {
+      const data = await run(caller, req);
+      res.status(status).json(data);
+    } catch (error) {
+      const trpcError = error instanceof TRPCError
+        ? error
+        : new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "服务器内部错误", cause: error });
+      status = getHTTPStatusCodeFromError(trpcError);
+      errorMessage = trpcError.message;
+      if (status >= 500) {
+        console.error(`[REST API] ${endpoint} 失败:`, error);
+      }
+      res.status(status).json({ error: trpcError.code, message: trpcError.message });
+    }
+
+    logApi(
+      "rest_api",
+      endpoint,
+      { apiKeyId: req.apiKey!.id, params: req.params, query: req.query, body: req.body },
+      status,
+      Date.now() - startTime,
+      status < 400,
+      errorMessage,
+      0,
+      req.apiUser!.id
+    ).catch(err => {
+      console.error("[REST API] 写入 API 日志失败:", err);
+    });
+  };
+}
+
+/**
+ * 按任务 ID 依次在各数据源中查找任务，返回第一个找到的结果
+ */
+async function findTask(lookups: Array<() => Promise<unknown>>): Promise<unknown> {
+  for (const lookup of lookups) {
+    try {
+      return await lookup();
+    } catch (error) {
+      if (error instanceof TRPCError && error.code === "NOT_FOUND") continue;
+      throw error;
+    }
+  }
+  throw new TRPCError({ code: "NOT_FOUND", message: "任务不存在" });
+}
+
+function parsePage(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function registerRestApiRoutes(app: Express) {
+  const v1 = express.Router();
+  v1.use(requireApiKey);
+
+  v1.post("/tps/search", handle("POST /api/v1/tps/search", async (caller, req) => {
+    const result = await caller.tps.search(req.body);
+    return { source: "tps", ...result };
+  }));
+
+  v1.get("/tasks/:id", handle("GET /api/v1/tasks/:id", async (caller, req) => {
+    const taskId = req.params.id;
+    return findTask([
+      async () => ({ source: "tps", ...(await caller.tps.getTaskStatus({ taskId })) }),
+      async () => ({ source: "spf", ...(await caller.spf.getTaskStatus({ taskId })) }),
+      async () => ({ source: "anywho", ...(await caller.anywho.getTaskStatus({ taskId })) }),
+    ]);
+  }));
+
+  v1.get("/tasks/:id/results", handle("GET /api/v1/tasks/:id/results", async (caller, req) => {
+    const taskId = req.params.id;
+    const page = parsePage(req.query.page, 1);
+    const pageSize = parsePage(req.query.pageSize, 50);
+    return findTask([
+      async () => ({ source: "tps", ...(await caller.tps.getTaskResults({ taskId, page, pageSize })) }),
+      async () => ({ source: "spf", ...(await caller.spf.getResults({ taskId, page, pageSize })) }),
+      async () => ({ source: "anywho", ...(await caller.anywho.getTaskResults({ taskId, page, pageSize })) }),
+    ]);
+  }));
+
+  v1.use((_req: Request, res: Response) => {
+    res.status(404).json({ error: "NOT_FOUND", message: "接口不存在" });
+  });
+
+  app.use("/api/v1", v1);
+}
@@ -0,0 +1,72 @@
+/**
+ * 开放 API 密钥 tRPC 路由
+ *
+ * 用户在控制台中创建、重命名、吊销自己的 REST API 密钥，
+ * REST 接口本身见 rest.ts
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import {
+  createApiKey,
+  getUserApiKeys,
+  countActiveApiKeys,
+  renameApiKey,
+  revokeApiKey,
+  MAX_ACTIVE_KEYS_PER_USER,
+} from "./db";
+
+const keyNameSchema = z.string().trim().min(1).max(100);
+
+export const apiKeysRouter = router({
+  // 获取密钥列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return getUserApiKeys(ctx.user!.id);
+  }),
+
+  // 创建密钥（明文只在此处返回一次）
+  create: protectedProcedure
+    .input(z.object({ name: keyNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+
+      const activeCount = await countActiveApiKeys(userId);
+      if (activeCount >= MAX_ACTIVE_KEYS_PER_USER) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `最多只能创建 ${MAX_ACTIVE_KEYS_PER_USER} 个有效密钥，请先吊销不再使用的密钥`,
+        });
+      }
+
+      return createApiKey(userId, input.name);
+    }),
+
+  // 重命名密钥
+  rename: protectedProcedure
+    .input(z.object({ id: z.number(), name: keyNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const updated = await renameApiKey(ctx.user!.id, input.id, input.name);
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "密钥不存在",
+        });
+      }
+      return { success: true };
+    }),
+
+  // 吊销密钥（立即失效，无法恢复）
+  revoke: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const revoked = await revokeApiKey(ctx.user!.id, input.id);
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "密钥不存在或已吊销",
+        });
+      }
+      return { success: true, message: "密钥已吊销" };
+    }),
+});
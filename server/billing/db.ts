@@ -0,0 +1,299 @@
+/**
+ * 账单数据：充值收据、月结单
+ */
+
+import { getDb } from "../db";
+import {
+  users,
+  rechargeOrders,
+  creditLogs,
+  searchTasks,
+  tpsSearchTasks,
+  spfSearchTasks,
+  anywhoSearchTasks,
+  waterfallSearchTasks,
+  phoneLookupTasks,
+  RechargeOrder,
+} from "../../drizzle/schema";
+import { eq, and, desc, gte, lt, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+export type CreditLogType = typeof creditLogs.$inferSelect["type"];
+
+/** 月结单中的积分变动分类（管理员加减、调整合并为一类） */
+export type StatementCategory = "recharge" | "bonus" | "search" | "refund" | "admin" | "org_transfer";
+
+export const STATEMENT_CATEGORIES: StatementCategory[] = ["recharge", "bonus", "search", "refund", "admin", "org_transfer"];
+
+const CATEGORY_BY_TYPE: Record<CreditLogType, StatementCategory> = {
+  recharge: "recharge",
+  bonus: "bonus",
+  search: "search",
+  refund: "refund",
+  admin_add: "admin",
+  admin_deduct: "admin",
+  admin_adjust: "admin",
+  org_transfer: "org_transfer",
+};
+
+/** 搜索扣费来源（按 credit_logs.relatedTaskId 所在的任务表判断） */
+export type SpendSource = "linkedin" | "tps" | "spf" | "anywho" | "waterfall" | "phone_lookup" | "other";
+
+const SOURCE_TASK_TABLES = [
+  { source: "linkedin", table: searchTasks },
+  { source: "tps", table: tpsSearchTasks },
+  { source: "spf", table: spfSearchTasks },
+  { source: "anywho", table: anywhoSearchTasks },
+  { source: "waterfall", table: waterfallSearchTasks },
+  { source: "phone_lookup", table: phoneLookupTasks },
+] as const;
+
+/** 每次 IN 查询的任务 ID 数量 */
+const TASK_LOOKUP_BATCH = 500;
+
+export interface StatementCategoryTotal {
+  category: StatementCategory;
+  count: number;
+  credited: number;
+  debited: number;
+}
+
+export interface StatementSourceTotal {
+  source: SpendSource;
+  tasks: number;
+  spent: number;
+  refunded: number;
+  net: number;
+}
+
+export type StatementRecharge = Pick<RechargeOrder, "orderId" | "amount" | "network" | "txId" | "paidAt" | "promoCode"> & {
+  credits: number;
+  bonusCredits: number;
+};
+
+export interface MonthlyStatement {
+  month: string;
+  periodStart: Date;
+  periodEnd: Date;
+  user: { id: number; email: string; name: string | null };
+  openingBalance: number;
+  closingBalance: number;
+  totalCredited: number;
+  totalDebited: number;
+  categories: StatementCategoryTotal[];
+  sources: StatementSourceTotal[];
+  recharges: StatementRecharge[];
+  generatedAt: Date;
+}
+
+/**
+ * 解析 YYYY-MM，返回该月的起止时间（服务器时区），格式不正确时返回 null
+ */
+export function parseStatementMonth(month: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+  return { start: new Date(year, monthIndex, 1), end: new Date(year, monthIndex + 1, 1) };
+}
+
+/**
+ * 用户的已支付充值订单（收据只对已到账订单开具）
+ */
+export async function getPaidOrderForUser(userId: number, orderId: string): Promise<RechargeOrder | null> {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(rechargeOrders)
+    .where(and(
+      eq(rechargeOrders.orderId, orderId),
+      eq(rechargeOrders.userId, userId),
+      eq(rechargeOrders.status, "paid")
+    ))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * 有积分变动的月份（YYYY-MM），最近的在前
+ */
+export async function listStatementMonths(userId: number, limit: number = 24): Promise<string[]> {
+  const database = await db();
+  const month = sql<string>`DATE_FORMAT(${creditLogs.createdAt}, '%Y-%m')`;
+  const rows = await database
+    .select({ month })
+    .from(creditLogs)
+    .where(eq(creditLogs.userId, userId))
+    .groupBy(month)
+    .orderBy(desc(month))
+    .limit(limit);
+  return rows.map(row => row.month);
+}
+
+/**
+ * 个人积分余额在某时间点的值（团队积分池的变动不计入，见 credit_logs.orgId）
+ */
+async function getBalanceBefore(userId: number, before: Date): Promise<number | null> {
+  const database = await db();
+  const rows = await database
+    .select({ balanceAfter: creditLogs.balanceAfter })
+    .from(creditLogs)
+    .where(and(eq(creditLogs.userId, userId), isNull(creditLogs.orgId), lt(creditLogs.createdAt, before)))
+    .orderBy(desc(creditLogs.createdAt), desc(creditLogs.id))
+    .limit(1);
+  return rows[0] ? parseFloat(rows[0].balanceAfter) || 0 : null;
+}
+
+/**
+ * 查出任务 ID 所属的数据源
+ */
+async function resolveTaskSources(taskIds: string[]): Promise<Map<string, SpendSource>> {
+  const database = await db();
+  const sources = new Map<string, SpendSource>();
+  for (let i = 0; i < taskIds.length; i += TASK_LOOKUP_BATCH) {
+    const batch = taskIds.slice(i, i + TASK_LOOKUP_BATCH);
+    for (const { source, table } of SOURCE_TASK_TABLES) {
+      const rows = await database
+        .select({ taskId: table.taskId })
+        .from(table)
+        .where(inArray(table.taskId, batch));
+      rows.forEach(row => sources.set(row.taskId, source));
+    }
+  }
+  return sources;
+}
+
+/**
+ * 生成月结单
+ *
+ * 积分变动按类型汇总；搜索扣费及其退款按任务所属数据源汇总，找不到任务的记为 other
+ */
+export async function getMonthlyStatement(userId: number, month: string): Promise<MonthlyStatement | null> {
+  const period = parseStatementMonth(month);
+  if (!period) return null;
+
+  const database = await db();
+  const [user] = await database
+    .select({ id: users.id, email: users.email, name: users.name })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return null;
+
+  const inPeriod = and(
+    eq(creditLogs.userId, userId),
+    gte(creditLogs.createdAt, period.start),
+    lt(creditLogs.createdAt, period.end)
+  );
+
+  const byType = await database
+    .select({
+      type: creditLogs.type,
+      count: sql<number>`count(*)`,
+      credited: sql<string>`COALESCE(SUM(CASE WHEN ${creditLogs.amount} > 0 THEN ${creditLogs.amount} ELSE 0 END), 0)`,
+      debited: sql<string>`COALESCE(SUM(CASE WHEN ${creditLogs.amount} < 0 THEN -${creditLogs.amount} ELSE 0 END), 0)`,
+    })
+    .from(creditLogs)
+    .where(inPeriod)
+    .groupBy(creditLogs.type);
+
+  const categoryTotals = new Map<StatementCategory, StatementCategoryTotal>();
+  byType.forEach(row => {
+    const category = CATEGORY_BY_TYPE[row.type];
+    const total = categoryTotals.get(category) ?? { category, count: 0, credited: 0, debited: 0 };
+    total.count += Number(row.count) || 0;
+    total.credited += parseFloat(row.credited) || 0;
+    total.debited += parseFloat(row.debited) || 0;
+    categoryTotals.set(category, total);
+  });
+  const categories = STATEMENT_CATEGORIES
+    .map(category => categoryTotals.get(category))
+    .filter((total): total is StatementCategoryTotal => !!total);
+
+  // 搜索扣费与退款按任务汇总
+  const byTask = await database
+    .select({
+      taskId: creditLogs.relatedTaskId,
+      type: creditLogs.type,
+      amount: sql<string>`SUM(${creditLogs.amount})`,
+    })
+    .from(creditLogs)
+    .where(and(inPeriod, inArray(creditLogs.type, ["search", "refund"])))
+    .groupBy(creditLogs.relatedTaskId, creditLogs.type);
+
+  const taskIds = Array.from(new Set(byTask.map(row => row.taskId).filter((id): id is string => !!id)));
+  const taskSources = await resolveTaskSources(taskIds);
+
+  const sourceTotals = new Map<SpendSource, StatementSourceTotal & { taskIds: Set<string> }>();
+  byTask.forEach(row => {
+    // 没有关联任务的退款（如订单退款）不计入搜索消费
+    if (!row.taskId && row.type === "refund") return;
+    const source = (row.taskId && taskSources.get(row.taskId)) || "other";
+    const total = sourceTotals.get(source) ?? { source, tasks: 0, spent: 0, refunded: 0, net: 0, taskIds: new Set<string>() };
+    const amount = parseFloat(row.amount) || 0;
+    if (row.type === "search") {
+      total.spent += -amount;
+    } else {
+      total.refunded += amount;
+    }
+    if (row.taskId) total.taskIds.add(row.taskId);
+    sourceTotals.set(source, total);
+  });
+  const sources: StatementSourceTotal[] = [];
+  sourceTotals.forEach(({ taskIds: ids, ...total }) => {
+    sources.push({ ...total, tasks: ids.size, net: total.spent - total.refunded });
+  });
+  sources.sort((a, b) => b.net - a.net);
+
+  const recharges = await database
+    .select({
+      orderId: rechargeOrders.orderId,
+      amount: rechargeOrders.amount,
+      credits: rechargeOrders.credits,
+      bonusCredits: rechargeOrders.bonusCredits,
+      network: rechargeOrders.network,
+      txId: rechargeOrders.txId,
+      paidAt: rechargeOrders.paidAt,
+      promoCode: rechargeOrders.promoCode,
+    })
+    .from(rechargeOrders)
+    .where(and(
+      eq(rechargeOrders.userId, userId),
+      eq(rechargeOrders.status, "paid"),
+      isNotNull(rechargeOrders.paidAt),
+      gte(rechargeOrders.paidAt, period.start),
+      lt(rechargeOrders.paidAt, period.end)
+    ))
+    .orderBy(rechargeOrders.paidAt);
+
+  const openingBalance = (await getBalanceBefore(userId, period.start)) ?? 0;
+  const closingBalance = (await getBalanceBefore(userId, period.end)) ?? openingBalance;
+
+  return {
+    month,
+    periodStart: period.start,
+    periodEnd: period.end,
+    user,
+    openingBalance,
+    closingBalance,
+    totalCredited: categories.reduce((sum, c) => sum + c.credited, 0),
+    totalDebited: categories.reduce((sum, c) => sum + c.debited, 0),
+    categories,
+    sources,
+    recharges: recharges.map(order => ({
+      ...order,
+      credits: parseFloat(order.credits) || 0,
+      bonusCredits: parseFloat(order.bonusCredits) || 0,
+    })),
+    generatedAt: new Date(),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * 账单邮件发送
+ *
+ * 邮件正文为账单 HTML，同时附上 PDF；邮件服务未配置（缺少 RESEND_API_KEY）时不发送
+ */
+
+import { getUserById } from "../db";
+import { isEmailServiceAvailable, sendBillingEmail } from "../services/email";
+import { getPaidOrderForUser, getMonthlyStatement } from "./db";
+import { renderReceiptHtml, renderReceiptPdf, renderStatementHtml, renderStatementPdf } from "./documents";
+
+export type BillingEmailResult = "sent" | "not_found" | "unavailable" | "failed";
+
+/**
+ * 发送充值收据到用户邮箱
+ */
+export async function emailReceipt(userId: number, orderId: string): Promise<BillingEmailResult> {
+  if (!isEmailServiceAvailable()) return "unavailable";
+  const user = await getUserById(userId);
+  const order = await getPaidOrderForUser(userId, orderId);
+  if (!user || !order) return "not_found";
+
+  const customer = { email: user.email, name: user.name };
+  const sent = await sendBillingEmail(
+    user.email,
+    `DataReach - 充值收据 ${order.orderId}`,
+    renderReceiptHtml(order, customer),
+    { filename: `receipt_${order.orderId}.pdf`, content: renderReceiptPdf(order, customer) }
+  );
+  return sent ? "sent" : "failed";
+}
+
+/**
+ * 发送月结单到用户邮箱
+ */
+export async function emailStatement(userId: number, month: string): Promise<BillingEmailResult> {
+  if (!isEmailServiceAvailable()) return "unavailable";
+  const statement = await getMonthlyStatement(userId, month);
+  if (!statement) return "not_found";
+
+  const sent = await sendBillingEmail(
+    statement.user.email,
+    `DataReach - ${month} 积分月结单`,
+    renderStatementHtml(statement),
+    { filename: `statement_${month}.pdf`, content: renderStatementPdf(statement) }
+  );
+  return sent ? "sent" : "failed";
+}
@@ -0,0 +1,370 @@
+/**
+ * 收据、月结单渲染（HTML / PDF）
+ */
+
+import type { RechargeOrder } from "../../drizzle/schema";
+import type { MonthlyStatement, StatementCategory, SpendSource } from "./db";
+import { createPdfDocument, measureText, PAGE_WIDTH, PAGE_HEIGHT, PdfColor, PdfDocument } from "./pdf";
+
+export type BillingDocumentFormat = "pdf" | "html";
+
+export interface RenderedDocument {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const COMPANY_NAME = "DataReach Pro";
+
+export const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  recharge: "充值",
+  bonus: "赠送",
+  search: "搜索消费",
+  refund: "退款",
+  admin: "管理员调整",
+  org_transfer: "团队积分划转",
+};
+
+export const SOURCE_LABELS: Record<SpendSource, string> = {
+  linkedin: "LinkedIn",
+  tps: "TruePeopleSearch",
+  spf: "SearchPeopleFree",
+  anywho: "Anywho",
+  waterfall: "瀑布搜索",
+  phone_lookup: "电话反查",
+  other: "其他",
+};
+
+export interface ReceiptCustomer {
+  email: string;
+  name: string | null;
+}
+
+function formatNumber(value: number, digits: number = 2): string {
+  return value.toLocaleString("zh-CN", { minimumFractionDigits: 0, maximumFractionDigits: digits });
+}
+
+function formatUsdt(value: string | number | null | undefined): string {
+  const amount = typeof value === "number" ? value : parseFloat(String(value ?? "0")) || 0;
+  return `${amount.toFixed(2)} USDT`;
+}
+
+function formatTime(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString("zh-CN", { hour12: false }) : "-";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ============ 数据整理（HTML 与 PDF 共用） ============
+
+interface ReceiptData {
+  rows: [string, string][];
+  totals: [string, string][];
+}
+
+function buildReceipt(order: RechargeOrder, customer: ReceiptCustomer): ReceiptData {
+  const totalCredits = parseFloat(String(order.credits)) || 0;
+  const bonusCredits = Math.min(parseFloat(String(order.bonusCredits)) || 0, totalCredits);
+  const rows: [string, string][] = [
+    ["收据编号", order.orderId],
+    ["客户", customer.name ? `${customer.name} <${customer.email}>` : customer.email],
+    ["下单时间", formatTime(order.createdAt)],
+    ["到账时间", formatTime(order.paidAt)],
+    ["支付方式", `USDT (${order.network})`],
+    ["收款地址", order.walletAddress],
+    ["交易哈希", order.txId || "-"],
+  ];
+  const totals: [string, string][] = [
+    ["订单金额", formatUsdt(order.amount)],
+  ];
+  if (order.receivedAmount && parseFloat(order.receivedAmount) !== parseFloat(order.amount)) {
+    totals.push(["实收金额", formatUsdt(order.receivedAmount)]);
+  }
+  totals.push(["基础积分", formatNumber(totalCredits - bonusCredits)]);
+  if (bonusCredits > 0) {
+    totals.push([order.promoCode ? `赠送积分（优惠码 ${order.promoCode}）` : "赠送积分", formatNumber(bonusCredits)]);
+  }
+  totals.push(["到账积分合计", formatNumber(totalCredits)]);
+  return { rows, totals };
+}
+
+interface StatementTable {
+  title: string;
+  headers: string[];
+  /** 各列是否右对齐（金额列） */
+  numeric: boolean[];
+  rows: string[][];
+  empty: string;
+}
+
+function buildStatementTables(statement: MonthlyStatement): StatementTable[] {
+  return [
+    {
+      title: "积分变动汇总",
+      headers: ["类型", "笔数", "增加", "减少"],
+      numeric: [false, true, true, true],
+      rows: statement.categories.map(c => [
+        CATEGORY_LABELS[c.category],
+        String(c.count),
+        formatNumber(c.credited),
+        formatNumber(c.debited),
+      ]),
+      empty: "本月没有积分变动",
+    },
+    {
+      title: "搜索消费（按数据源）",
+      headers: ["数据源", "任务数", "扣费", "退款", "净消费"],
+      numeric: [false, true, true, true, true],
+      rows: statement.sources.map(s => [
+        SOURCE_LABELS[s.source],
+        String(s.tasks),
+        formatNumber(s.spent),
+        formatNumber(s.refunded),
+        formatNumber(s.net),
+      ]),
+      empty: "本月没有搜索消费",
+    },
+    {
+      title: "本月充值",
+      headers: ["到账时间", "订单号", "网络", "金额", "积分"],
+      numeric: [false, false, false, true, true],
+      rows: statement.recharges.map(r => [
+        formatTime(r.paidAt),
+        r.orderId,
+        r.network,
+        formatUsdt(r.amount),
+        formatNumber(r.credits),
+      ]),
+      empty: "本月没有充值",
+    },
+  ];
+}
+
+function buildStatementSummary(statement: MonthlyStatement): [string, string][] {
+  return [
+    ["期初余额", formatNumber(statement.openingBalance)],
+    ["本月增加", formatNumber(statement.totalCredited)],
+    ["本月减少", formatNumber(statement.totalDebited)],
+    ["期末余额", formatNumber(statement.closingBalance)],
+  ];
+}
+
+function statementPeriod(statement: MonthlyStatement): string {
+  const lastDay = new Date(statement.periodEnd.getTime() - 1);
+  return `${statement.periodStart.toLocaleDateString("zh-CN")} - ${lastDay.toLocaleDateString("zh-CN")}`;
+}
+
+// ============ HTML ============
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", Arial, sans-serif; color: #222; max-width: 760px; margin: 0 auto; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; }
+  .muted { color: #777; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 8px 10px; border-bottom: 1px solid #e5e5e5; text-align: left; }
+  th { background: #f6f6f6; font-weight: 600; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  td.mono { font-family: Menlo, Consolas, monospace; font-size: 12px; word-break: break-all; }
+  .summary td { font-size: 14px; }
+  .summary tr:last-child td { font-weight: 700; }
+`;
+
+function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function htmlKeyValueTable(rows: [string, string][], className: string = ""): string {
+  const monoKeys = new Set(["收款地址", "交易哈希", "收据编号"]);
+  return `<table class="${className}">${rows.map(([key, value]) =>
+    `<tr><th style="width: 32%">${escapeHtml(key)}</th><td class="${monoKeys.has(key) ? "mono" : "num"}">${escapeHtml(value)}</td></tr>`
+  ).join("")}</table>`;
+}
+
+export function renderReceiptHtml(order: RechargeOrder, customer: ReceiptCustomer): string {
+  const receipt = buildReceipt(order, customer);
+  return htmlPage(`充值收据 ${order.orderId}`, `
+<h1>${COMPANY_NAME} 充值收据</h1>
+<p class="muted">开具时间：${escapeHtml(formatTime(new Date()))}</p>
+<h2>订单信息</h2>
+${htmlKeyValueTable(receipt.rows)}
+<h2>金额</h2>
+${htmlKeyValueTable(receipt.totals, "summary")}
+<p class="muted" style="margin-top: 24px">本收据依据链上到账记录自动生成，交易哈希可在对应网络的区块浏览器中查询。</p>
+`);
+}
+
+export function renderStatementHtml(statement: MonthlyStatement): string {
+  const tables = buildStatementTables(statement).map(table => `
+<h2>${escapeHtml(table.title)}</h2>
+<table>
+<tr>${table.headers.map((h, i) => `<th class="${table.numeric[i] ? "num" : ""}">${escapeHtml(h)}</th>`).join("")}</tr>
+${table.rows.length > 0
+  ? table.rows.map(row => `<tr>${row.map((cell, i) => `<td class="${table.numeric[i] ? "num" : ""}">${escapeHtml(cell)}</td>`).join("")}</tr>`).join("\n")
+  : `<tr><td colspan="${table.headers.length}" class="muted">${escapeHtml(table.empty)}</td></tr>`}
+</table>`).join("\n");
+
+  return htmlPage(`月结单 ${statement.month}`, `
+<h1>${COMPANY_NAME} 积分月结单</h1>
+<p class="muted">${escapeHtml(statement.user.email)} · 账期 ${escapeHtml(statementPeriod(statement))} · 生成于 ${escapeHtml(formatTime(statement.generatedAt))}</p>
+<h2>余额</h2>
+${htmlKeyValueTable(buildStatementSummary(statement), "summary")}
+${tables}
+<p class="muted" style="margin-top: 24px">余额为个人积分账户余额，团队积分池的扣费计入消费但不影响个人余额。</p>
+`);
+}
+
+// ============ PDF ============
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 20;
+const MUTED: PdfColor = [0.47, 0.47, 0.47];
+const HEADER_FILL: PdfColor = [0.95, 0.95, 0.95];
+
+/**
+ * 逐行排版，超出页面时自动换页
+ */
+function createPdfLayout() {
+  const pdf: PdfDocument = createPdfDocument();
+  pdf.addPage();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // 截断过长的文字，避免压到下一列
+  const fit = (value: string, width: number, size: number) => {
+    if (measureText(value, size) <= width) return value;
+    let result = value;
+    while (result.length > 1 && measureText(`${result}…`, size) > width) {
+      result = result.slice(0, -1);
+    }
+    return `${result}…`;
+  };
+
+  return {
+    pdf,
+    title(value: string, subtitle: string) {
+      pdf.text(MARGIN, y, value, { size: 18, bold: true });
+      y += 28;
+      pdf.text(MARGIN, y, subtitle, { size: 9, color: MUTED });
+      y += 24;
+    },
+    heading(value: string) {
+      ensureSpace(ROW_HEIGHT * 3);
+      y += 8;
+      pdf.text(MARGIN, y, value, { size: 12, bold: true });
+      y += 20;
+    },
+    keyValues(rows: [string, string][], boldLast: boolean = false) {
+      const keyWidth = CONTENT_WIDTH * 0.32;
+      rows.forEach(([key, value], i) => {
+        ensureSpace(ROW_HEIGHT);
+        const bold = boldLast && i === rows.length - 1;
+        pdf.text(MARGIN + 6, y + 5, key, { size: 10, color: MUTED });
+        pdf.text(MARGIN + keyWidth, y + 5, fit(value, CONTENT_WIDTH - keyWidth, 9), { size: 9, bold });
+        y += ROW_HEIGHT;
+        pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+      });
+    },
+    table(table: StatementTable) {
+      const columnWidth = CONTENT_WIDTH / table.headers.length;
+      const drawRow = (cells: string[], header: boolean) => {
+        ensureSpace(ROW_HEIGHT);
+        if (header) pdf.fillRect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, HEADER_FILL);
+        cells.forEach((cell, i) => {
+          const left = MARGIN + columnWidth * i;
+          const text = fit(cell, columnWidth - 12, 9);
+          if (table.numeric[i]) {
+            pdf.text(left + columnWidth - 6, y + 5, text, { size: 9, bold: header, align: "right" });
+          } else {
+            pdf.text(left + 6, y + 5, text, { size: 9, bold: header });
+          }
+        });
+        y += ROW_HEIGHT;
+        pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+      };
+
+      drawRow(table.headers, true);
+      if (table.rows.length === 0) {
+        ensureSpace(ROW_HEIGHT);
+        pdf.text(MARGIN + 6, y + 5, table.empty, { size: 9, color: MUTED });
+        y += ROW_HEIGHT;
+        return;
+      }
+      table.rows.forEach(row => drawRow(row, false));
+    },
+    note(value: string) {
+      ensureSpace(ROW_HEIGHT * 2);
+      y += 16;
+      pdf.text(MARGIN, y, value, { size: 8, color: MUTED });
+      y += ROW_HEIGHT;
+    },
+  };
+}
+
+export function renderReceiptPdf(order: RechargeOrder, customer: ReceiptCustomer): Buffer {
+  const receipt = buildReceipt(order, customer);
+  const layout = createPdfLayout();
+  layout.title(`${COMPANY_NAME} 充值收据`, `开具时间：${formatTime(new Date())}`);
+  layout.heading("订单信息");
+  layout.keyValues(receipt.rows);
+  layout.heading("金额");
+  layout.keyValues(receipt.totals, true);
+  layout.note("本收据依据链上到账记录自动生成，交易哈希可在对应网络的区块浏览器中查询。");
+  return layout.pdf.toBuffer();
+}
+
+export function renderStatementPdf(statement: MonthlyStatement): Buffer {
+  const layout = createPdfLayout();
+  layout.title(
+    `${COMPANY_NAME} 积分月结单`,
+    `${statement.user.email} · 账期 ${statementPeriod(statement)} · 生成于 ${formatTime(statement.generatedAt)}`
+  );
+  layout.heading("余额");
+  layout.keyValues(buildStatementSummary(statement), true);
+  buildStatementTables(statement).forEach(table => {
+    layout.heading(table.title);
+    layout.table(table);
+  });
+  layout.note("余额为个人积分账户余额，团队积分池的扣费计入消费但不影响个人余额。");
+  return layout.pdf.toBuffer();
+}
+
+// ============ 输出 ============
+
+export function renderReceipt(order: RechargeOrder, customer: ReceiptCustomer, format: BillingDocumentFormat): RenderedDocument {
+  const filename = `receipt_${order.orderId}.${format}`;
+  return format === "pdf"
+    ? { filename, contentType: "application/pdf", body: renderReceiptPdf(order, customer) }
+    : { filename, contentType: "text/html; charset=utf-8", body: Buffer.from(renderReceiptHtml(order, customer), "utf8") };
+}
+
+export function renderStatement(statement: MonthlyStatement, format: BillingDocumentFormat): RenderedDocument {
+  const filename = `statement_${statement.month}.${format}`;
+  return format === "pdf"
+    ? { filename, contentType: "application/pdf", body: renderStatementPdf(statement) }
+    : { filename, contentType: "text/html; charset=utf-8", body: Buffer.from(renderStatementHtml(statement), "utf8") };
+}
@@ -0,0 +1,139 @@
+/**
+ * 极简 PDF 生成（收据、月结单）
+ *
+ * 不依赖第三方库，直接输出 PDF 1.4：
+ * - 中文使用阅读器内置的 STSong-Light（Adobe-GB1，UniGB-UCS2-H 编码），不嵌入字体，文件很小
+ * - 只支持单行文字、直线和填充矩形，排版（换行、分页）由调用方负责
+ * - 坐标原点在页面左上角，y 向下增长（写入时再换算为 PDF 坐标）
+ *
+ * 限制：UCS-2 编码不支持基本多文种平面以外的字符（如 emoji），输出为 "?"
+ */
+
+/** A4 页面尺寸（pt） */
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right";
+}
+
+export interface PdfDocument {
+  /** 新增一页，之后的绘制都写入该页 */
+  addPage(): void;
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: PdfColor, width?: number): void;
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): void;
+  toBuffer(): Buffer;
+}
+
+/**
+ * 估算文字宽度：ASCII 为半角（500/1000 em），其余按全角计算，与字体 /W 定义一致
+ */
+export function measureText(value: string, size: number): number {
+  let units = 0;
+  for (const char of value) {
+    units += char.charCodeAt(0) < 0x80 ? 500 : 1000;
+  }
+  return units * size / 1000;
+}
+
+/**
+ * 编码为 UTF-16BE 十六进制字符串
+ */
+function encodeText(value: string): string {
+  let hex = "";
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    hex += (code > 0xffff ? 0x3f : code).toString(16).padStart(4, "0");
+  }
+  return `<${hex.toUpperCase()}>`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOp(color: PdfColor, op: "rg" | "RG"): string {
+  return `${color.map(c => num(c)).join(" ")} ${op}`;
+}
+
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [];
+
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  return {
+    addPage() {
+      pages.push([]);
+    },
+
+    text(x, y, value, options = {}) {
+      const size = options.size ?? 10;
+      const color = options.color ?? [0.13, 0.13, 0.13];
+      const left = options.align === "right" ? x - measureText(value, size) : x;
+      // 加粗：填充 + 描边（渲染模式 2）
+      const bold = options.bold ? `2 Tr ${num(size / 30)} w ${colorOp(color, "RG")} ` : "0 Tr ";
+      current().push(
+        `BT /F1 ${num(size)} Tf ${bold}${colorOp(color, "rg")} ${num(left)} ${num(PAGE_HEIGHT - y - size)} Td ${encodeText(value)} Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, color = [0.8, 0.8, 0.8], width = 0.5) {
+      current().push(
+        `${num(width)} w ${colorOp(color, "RG")} ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+      );
+    },
+
+    fillRect(x, y, width, height, color) {
+      current().push(
+        `${colorOp(color, "rg")} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+      );
+    },
+
+    toBuffer() {
+      if (pages.length === 0) pages.push([]);
+
+      // 对象编号：1 目录、2 页面树、3-5 字体，之后每页占两个对象（页面 + 内容流）
+      const objects: string[] = [];
+      const pageIds = pages.map((_, i) => 6 + i * 2);
+
+      objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+      objects[3] = "<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light-UniGB-UCS2-H /Encoding /UniGB-UCS2-H /DescendantFonts [4 0 R] >>";
+      objects[4] = "<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light /CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> /FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>";
+      objects[5] = "<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>";
+
+      pages.forEach((ops, i) => {
+        const pageId = pageIds[i];
+        const content = ops.join("\n");
+        objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+      });
+
+      // 内容只含 ASCII（文字已转为十六进制），按 latin1 计算偏移即可
+      let body = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(body, "latin1");
+        body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+      }
+
+      const xrefOffset = Buffer.byteLength(body, "latin1");
+      body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let id = 1; id < objects.length; id++) {
+        body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+      }
+      body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return Buffer.from(body, "latin1");
+    },
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * 账单 tRPC 路由：可下载的月份、发送收据 / 月结单到邮箱
+ *
+ * 文件下载走 GET /api/billing（见 routes.ts）
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { isEmailServiceAvailable } from "../services/email";
+import { listStatementMonths } from "./db";
+import { emailReceipt, emailStatement, BillingEmailResult } from "./delivery";
+
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "月份格式应为 YYYY-MM");
+
+function assertSent(result: BillingEmailResult, notFoundMessage: string) {
+  if (result === "sent") return;
+  if (result === "unavailable") {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "邮件服务未配置" });
+  }
+  if (result === "not_found") {
+    throw new TRPCError({ code: "NOT_FOUND", message: notFoundMessage });
+  }
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "邮件发送失败，请稍后重试" });
+}
+
+export const billingRouter = router({
+  // 有积分变动的月份及邮件服务状态
+  overview: protectedProcedure.query(async ({ ctx }) => {
+    return {
+      months: await listStatementMonths(ctx.user.id),
+      emailAvailable: isEmailServiceAvailable(),
+    };
+  }),
+
+  emailReceipt: protectedProcedure
+    .input(z.object({ orderId: z.string().min(1).max(32) }))
+    .mutation(async ({ ctx, input }) => {
+      assertSent(await emailReceipt(ctx.user.id, input.orderId), "订单不存在或尚未到账");
+      return { success: true };
+    }),
+
+  emailStatement: protectedProcedure
+    .input(z.object({ month: monthSchema }))
+    .mutation(async ({ ctx, input }) => {
+      assertSent(await emailStatement(ctx.user.id, input.month), "月结单不存在");
+      return { success: true };
+    }),
+});
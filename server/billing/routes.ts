@@ -0,0 +1,90 @@
+/**
+ * 账单下载路由
+ *
+ * GET /api/billing/receipts/:orderId       充值收据（仅已到账订单）
+ * GET /api/billing/statements/:month       月结单，month 为 YYYY-MM
+ *
+ * 查询参数 format = pdf（默认）/ html；html 以内联方式返回，可直接在浏览器中打开打印
+ * 浏览器 Cookie 鉴权，只能下载自己的账单
+ */
+
+import type { Express, Request, Response } from "express";
+import { authenticateRequest } from "../_core/context";
+import { getPaidOrderForUser, getMonthlyStatement } from "./db";
+import { renderReceipt, renderStatement, BillingDocumentFormat, RenderedDocument } from "./documents";
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: code, message });
+}
+
+function parseFormat(value: unknown): BillingDocumentFormat | null {
+  if (value === undefined) return "pdf";
+  return value === "pdf" || value === "html" ? value : null;
+}
+
+function sendDocument(res: Response, document: RenderedDocument, format: BillingDocumentFormat) {
+  res.status(200);
+  res.setHeader("Content-Type", document.contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `${format === "html" ? "inline" : "attachment"}; filename="${document.filename}"`
+  );
+  res.setHeader("Cache-Control", "no-store");
+  res.end(document.body);
+}
+
+export function registerBillingRoutes(app: Express) {
+  app.get("/api/billing/receipts/:orderId", async (req: Request, res: Response) => {
+    const format = parseFormat(req.query.format);
+    if (!format) {
+      sendError(res, 400, "BAD_REQUEST", "不支持的格式");
+      return;
+    }
+
+    try {
+      const user = await authenticateRequest(req);
+      if (!user) {
+        sendError(res, 401, "UNAUTHORIZED", "请先登录");
+        return;
+      }
+
+      const order = await getPaidOrderForUser(user.id, req.params.orderId);
+      if (!order) {
+        sendError(res, 404, "NOT_FOUND", "订单不存在或尚未到账");
+        return;
+      }
+
+      sendDocument(res, renderReceipt(order, { email: user.email, name: user.name }, format), format);
+    } catch (error) {
+      console.error(`[Billing] 收据 ${req.params.orderId} 生成失败:`, error);
+      sendError(res, 500, "INTERNAL_SERVER_ERROR", "收据生成失败，请稍后重试");
+    }
+  });
+
+  app.get("/api/billing/statements/:month", async (req: Request, res: Response) => {
+    const format = parseFormat(req.query.format);
+    if (!format) {
+      sendError(res, 400, "BAD_REQUEST", "不支持的格式");
+      return;
+    }
+
+    try {
+      const user = await authenticateRequest(req);
+      if (!user) {
+        sendError(res, 401, "UNAUTHORIZED", "请先登录");
+        return;
+      }
+
+      const statement = await getMonthlyStatement(user.id, req.params.month);
+      if (!statement) {
+        sendError(res, 400, "BAD_REQUEST", "月份格式应为 YYYY-MM");
+        return;
+      }
+
+      sendDocument(res, renderStatement(statement, format), format);
+    } catch (error) {
+      console.error(`[Billing] ${req.params.month} 月结单生成失败:`, error);
+      sendError(res, 500, "INTERNAL_SERVER_ERROR", "月结单生成失败，请稍后重试");
+    }
+  });
+}
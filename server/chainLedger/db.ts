@@ -0,0 +1,157 @@
+/**
+ * 链上收款记录数据库操作
+ *
+ * USDT监控处理的每笔入账都写入 chain_transactions，以 network + txId 去重，
+ * 重启后不会重复处理；各钱包已记录的最新区块作为下次补齐的游标
+ */
+
+import { getDb } from "../db";
+import { chainTransactions, rechargeOrders, ChainTransaction } from "../../drizzle/schema";
+import { eq, and, asc, desc, gte, max, sql } from "drizzle-orm";
+import type { UsdtTransaction } from "../services/chainWatchers";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+export type ChainTxDisposition = ChainTransaction["disposition"];
+
+/**
+ * 写入一笔入账，已存在时返回 null（表示已处理过）
+ */
+export async function recordChainTransaction(tx: UsdtTransaction): Promise<number | null> {
+  const database = await db();
+  const existing = await database
+    .select({ id: chainTransactions.id })
+    .from(chainTransactions)
+    .where(and(eq(chainTransactions.network, tx.network), eq(chainTransactions.txId, tx.txId)))
+    .limit(1);
+  if (existing.length > 0) return null;
+
+  try {
+    const result = await database.insert(chainTransactions).values({
+      network: tx.network,
+      txId: tx.txId,
+      fromAddress: tx.from,
+      toAddress: tx.to,
+      amount: tx.amount.toFixed(6),
+      blockNumber: tx.blockNumber ?? null,
+      blockTime: new Date(tx.timestamp),
+    });
+    return Number(result[0].insertId);
+  } catch (error: any) {
+    // 并发写入同一笔交易
+    if (error?.code === "ER_DUP_ENTRY") return null;
+    throw error;
+  }
+}
+
+/**
+ * 更新入账处理结果
+ */
+export async function setChainTransactionDisposition(id: number, data: {
+  disposition: ChainTxDisposition;
+  orderId?: string | null;
+  note?: string | null;
+  handledBy?: string | null;
+}): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(chainTransactions)
+    .set(data)
+    .where(eq(chainTransactions.id, id));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 区块时间在指定时间之后、仍未匹配的入账，按区块时间正序
+ */
+export async function listUnmatchedChainTransactions(since: Date): Promise<ChainTransaction[]> {
+  const database = await db();
+  return database
+    .select()
+    .from(chainTransactions)
+    .where(and(eq(chainTransactions.disposition, "unmatched"), gte(chainTransactions.blockTime, since)))
+    .orderBy(asc(chainTransactions.blockTime));
+}
+
+/**
+ * 钱包的补齐游标：已记录的最大区块号与最晚区块时间
+ */
+export async function getLedgerCursor(network: string, toAddress: string): Promise<{
+  blockNumber: number | null;
+  blockTime: Date | null;
+}> {
+  const database = await db();
+  const rows = await database
+    .select({
+      blockNumber: max(chainTransactions.blockNumber),
+      blockTime: max(chainTransactions.blockTime),
+    })
+    .from(chainTransactions)
+    .where(and(
+      eq(chainTransactions.network, network),
+      // EVM 地址大小写不敏感
+      sql`LOWER(${chainTransactions.toAddress}) = ${toAddress.toLowerCase()}`
+    ));
+  const row = rows[0];
+  return {
+    blockNumber: row?.blockNumber ?? null,
+    blockTime: row?.blockTime ? new Date(row.blockTime) : null,
+  };
+}
+
+/**
+ * 已使用该交易哈希确认过的订单（管理员手动确认等途径）
+ */
+export async function getOrderIdByTxId(txId: string): Promise<string | null> {
+  const database = await db();
+  const rows = await database
+    .select({ orderId: rechargeOrders.orderId })
+    .from(rechargeOrders)
+    .where(eq(rechargeOrders.txId, txId))
+    .limit(1);
+  return rows[0]?.orderId ?? null;
+}
+
+/**
+ * 获取入账记录
+ */
+export async function getChainTransactionById(id: number): Promise<ChainTransaction | null> {
+  const database = await db();
+  const rows = await database.select().from(chainTransactions).where(eq(chainTransactions.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * 入账记录列表（后台查看未匹配入账）
+ */
+export async function listChainTransactions(options: {
+  disposition?: ChainTxDisposition;
+  network?: string;
+  page: number;
+  limit: number;
+}): Promise<{ items: ChainTransaction[]; total: number }> {
+  const database = await db();
+  const conditions = [];
+  if (options.disposition) conditions.push(eq(chainTransactions.disposition, options.disposition));
+  if (options.network) conditions.push(eq(chainTransactions.network, options.network));
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [items, countRows] = await Promise.all([
+    database
+      .select()
+      .from(chainTransactions)
+      .where(where)
+      .orderBy(desc(chainTransactions.blockTime))
+      .limit(options.limit)
+      .offset((options.page - 1) * options.limit),
+    database.select({ count: sql<number>`count(*)` }).from(chainTransactions).where(where),
+  ]);
+  return { items, total: Number(countRows[0]?.count) || 0 };
+}
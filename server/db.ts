@@ -200,7 +200,7 @@ export async function deductCredits(userId: number, amount: number, type: "searc
   return true;
 }
 
-export async function addCredits(userId: number, amount: number, type: "recharge" | "admin_add" | "refund", description: string, relatedOrderId?: string, relatedTaskId?: string): Promise<{ success: boolean; newBalance?: number }> {
+export async function addCredits(userId: number, amount: number, type: "recharge" | "admin_add" | "refund" | "bonus", description: string, relatedOrderId?: string, relatedTaskId?: string): Promise<{ success: boolean; newBalance?: number }> {
   const db = await getDb();
   if (!db) return { success: false };
   const user = await getUserById(userId);
@@ -373,7 +373,14 @@ export async function createRechargeOrder(userId: number, credits: number, amoun
 }
 
 // 创建带唯一尾数的充值订单
-export async function createRechargeOrderWithUniqueAmount(userId: number, credits: number, baseAmount: number, walletAddress: string, network: string = "TRC20"): Promise<RechargeOrder | undefined> {
+export async function createRechargeOrderWithUniqueAmount(
+  userId: number,
+  credits: number,
+  baseAmount: number,
+  walletAddress: string,
+  network: string = "TRC20",
+  bonus: { bonusCredits: number; promoCode: string | null } = { bonusCredits: 0, promoCode: null }
+): Promise<RechargeOrder | undefined> {
   const db = await getDb();
   if (!db) return undefined;
   
@@ -398,7 +405,11 @@ export async function createRechargeOrderWithUniqueAmount(userId: number, credit
   const orderId = crypto.randomBytes(8).toString('hex');
   const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
   
-  await db.insert(rechargeOrders).values({ orderId, userId, credits, amount: uniqueAmount, walletAddress, network, expiresAt });
+  await db.insert(rechargeOrders).values({
+    orderId, userId, credits, amount: uniqueAmount, walletAddress, network, expiresAt,
+    bonusCredits: bonus.bonusCredits.toFixed(2),
+    promoCode: bonus.promoCode,
+  });
   return getRechargeOrder(orderId);
 }
 
@@ -431,8 +442,42 @@ export async function confirmRechargeOrder(orderId: string, txId: string, receiv
   if (!db) return false;
   const order = await getRechargeOrder(orderId);
   if (!order || order.status !== "pending") return false;
-  await db.update(rechargeOrders).set({ status: "paid", txId, receivedAmount, paidAt: new Date() }).where(eq(rechargeOrders.orderId, orderId));
-  const creditResult = await addCredits(order.userId, parseFloat(String(order.credits)) || 0, "recharge", `充值订单 ${orderId}`, orderId);
+  // 条件更新，同一订单被并发确认（自动匹配重试、管理员确认）时只发放一次积分
+  const updated = await db.update(rechargeOrders)
+    .set({ status: "paid", txId, receivedAmount, paidAt: new Date() })
+    .where(and(eq(rechargeOrders.orderId, orderId), eq(rechargeOrders.status, "pending")));
+  if (updated[0].affectedRows === 0) return false;
+
+  const totalCredits = parseFloat(String(order.credits)) || 0;
+  let bonusCredits = Math.min(parseFloat(String(order.bonusCredits)) || 0, totalCredits);
+  const baseCredits = totalCredits - bonusCredits;
+
+  // 先占用优惠码名额再发放赠送，名额已满或不再满足首充条件时只发基础积分和阶梯赠送
+  let promoInfo = '';
+  if (order.promoCode) {
+    try {
+      const { redeemPromoCodeForOrder } = await import("./promotions/pricing");
+      const redemption = await redeemPromoCodeForOrder({ promoCode: order.promoCode, userId: order.userId, orderId, baseCredits });
+      if (redemption.redeemed) {
+        promoInfo = `，优惠码 ${order.promoCode}`;
+      } else if (redemption.promoBonus > 0) {
+        bonusCredits = Math.max(bonusCredits - redemption.promoBonus, 0);
+        await db.update(rechargeOrders).set({
+          credits: (baseCredits + bonusCredits).toFixed(2),
+          bonusCredits: bonusCredits.toFixed(2),
+        }).where(eq(rechargeOrders.orderId, orderId));
+        console.log(`[优惠码] ${order.promoCode} 名额已满、已使用或不满足首充条件，订单 ${orderId} 不发放优惠码赠送`);
+      }
+    } catch (error) {
+      console.error("[优惠码] 使用记录写入失败:", error);
+    }
+  }
+
+  // 基础积分记为充值，赠送部分单独记为 bonus
+  let creditResult = await addCredits(order.userId, baseCredits, "recharge", `充值订单 ${orderId}`, orderId);
+  if (bonusCredits > 0) {
+    creditResult = await addCredits(order.userId, bonusCredits, "bonus", `充值赠送 ${orderId}${promoInfo}`, orderId);
+  }
   
   // 计算并创建代理佣金
   try {
@@ -447,7 +492,7 @@ export async function confirmRechargeOrder(orderId: string, txId: string, receiv
   // 自动发送充值到账通知给用户
   try {
     const newBalance = creditResult.newBalance ?? 0;
-    const creditsFormatted = (parseFloat(String(order.credits)) || 0).toLocaleString();
+    const creditsFormatted = (baseCredits + bonusCredits).toLocaleString();
     const balanceFormatted = newBalance.toLocaleString();
     const amountStr = order.amount;
     
@@ -466,6 +511,14 @@ export async function confirmRechargeOrder(orderId: string, txId: string, receiv
   } catch (error) {
     console.error("[通知] 充值到账通知发送失败:", error);
   }
+
+  // 发送充值收据邮件（邮件服务未配置时跳过）
+  try {
+    const { emailReceipt } = await import("./billing/delivery");
+    await emailReceipt(order.userId, orderId);
+  } catch (error) {
+    console.error("[账单] 充值收据邮件发送失败:", error);
+  }
   
   return true;
 }
@@ -521,9 +574,26 @@ export async function resolveMismatchOrder(orderId: string, actualCredits: numbe
   if (!db) return false;
   const order = await getRechargeOrder(orderId);
   if (!order || order.status !== "mismatch") return false;
-  await db.update(rechargeOrders).set({ status: "paid", credits: actualCredits, adminNote, paidAt: new Date() }).where(eq(rechargeOrders.orderId, orderId));
+  // 按实际金额发放的积分全部记为充值，不再含赠送
+  await db.update(rechargeOrders).set({ status: "paid", credits: actualCredits, bonusCredits: "0", adminNote, paidAt: new Date() }).where(eq(rechargeOrders.orderId, orderId));
   const creditResult = await addCredits(order.userId, actualCredits, "recharge", `充值订单 ${orderId} (金额调整)`, orderId);
   
+  // 订单已按原金额计算过佣金时（已确认后被标记为不匹配），按实际到账金额追回多发的部分
+  try {
+    const orderAmount = parseFloat(order.amount);
+    const receivedAmount = parseFloat(order.receivedAmount || '');
+    const originalCredits = parseFloat(String(order.credits)) || 0;
+    const retainRatio = receivedAmount >= 0 && orderAmount > 0
+      ? receivedAmount / orderAmount
+      : originalCredits > 0 ? actualCredits / originalCredits : 1;
+    if (retainRatio < 1) {
+      const { clawbackOrderCommissions } = await import("./agentDb");
+      await clawbackOrderCommissions(orderId, retainRatio, 'adjustment');
+    }
+  } catch (error) {
+    console.error("[代理佣金] 金额调整追回失败:", error);
+  }
+  
   // 自动发送充值到账通知
   try {
     const newBalance = creditResult.newBalance ?? 0;
@@ -544,6 +614,14 @@ export async function resolveMismatchOrder(orderId: string, actualCredits: numbe
   } catch (error) {
     console.error("[通知] 充值到账通知发送失败:", error);
   }
+
+  // 发送充值收据邮件（邮件服务未配置时跳过）
+  try {
+    const { emailReceipt } = await import("./billing/delivery");
+    await emailReceipt(order.userId, orderId);
+  } catch (error) {
+    console.error("[账单] 充值收据邮件发送失败:", error);
+  }
   
   return true;
 }
@@ -558,6 +636,16 @@ export async function expireOldOrders(): Promise<number> {
   return (result as any).affectedRows || 0;
 }
 
+// 重新打开已过期/已取消的订单（用户逾期付款，管理员手动关联到账后确认）
+export async function reopenRechargeOrder(orderId: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.update(rechargeOrders)
+    .set({ status: "pending" })
+    .where(and(eq(rechargeOrders.orderId, orderId), inArray(rechargeOrders.status, ["expired", "cancelled"])));
+  return (result as any)[0]?.affectedRows > 0;
+}
+
 // ============ 搜索任务相关 ============
 
 export async function createSearchTask(userId: number, searchHash: string, params: any, requestedCount: number): Promise<SearchTask | undefined> {
@@ -800,7 +888,7 @@ export async function getCacheStats(): Promise<{ totalEntries: number; searchCac
 // ============ 日志相关 ============
 
 // 注意：apollo_search 和 apollo_enrich 保留用于历史日志兼容
-export async function logApi(apiType: "apollo_search" | "apollo_enrich" | "apify_search" | "scrape_tps" | "scrape_fps", endpoint: string, requestParams: any, responseStatus: number, responseTime: number, success: boolean, errorMessage?: string, creditsUsed: number = 0, userId?: number): Promise<void> {
+export async function logApi(apiType: "apollo_search" | "apollo_enrich" | "apify_search" | "scrape_tps" | "scrape_fps" | "rest_api", endpoint: string, requestParams: any, responseStatus: number, responseTime: number, success: boolean, errorMessage?: string, creditsUsed: number = 0, userId?: number): Promise<void> {
   const db = await getDb();
   if (!db) return;
   await db.insert(apiLogs).values({ userId, apiType, endpoint, requestParams, responseStatus, responseTime, success, errorMessage, creditsUsed });
@@ -1653,6 +1741,14 @@ export async function refundOrder(orderId: string, adminNote?: string): Promise<
     .set({ status: 'cancelled', adminNote: adminNote || '管理员退款' })
     .where(eq(rechargeOrders.orderId, orderId));
   
+  // 追回该订单产生的代理佣金
+  try {
+    const { clawbackOrderCommissions } = await import("./agentDb");
+    await clawbackOrderCommissions(orderId, 0, 'refund');
+  } catch (error) {
+    console.error("[代理佣金] 退款追回失败:", error);
+  }
+  
   return true;
 }
 
@@ -2155,7 +2251,8 @@ export async function exportUserCreditLogs(
     'admin_deduct': '管理员扣除',
     'refund': '退款',
     'admin_adjust': '管理员调整',
-    'bonus': '赠送'
+    'bonus': '赠送',
+    'org_transfer': '团队积分池'
   };
   
   const rows = logs.map(log => [
@@ -0,0 +1,59 @@
+/**
+ * 导出预设数据库操作
+ */
+
+import { getDb } from "../db";
+import { exportPresets } from "../../drizzle/schema";
+import { eq, and, asc } from "drizzle-orm";
+import type { ExportOptions } from "./options";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 每个用户每个数据源最多保存的预设数 */
+export const MAX_EXPORT_PRESETS_PER_SOURCE = 20;
+
+/**
+ * 获取用户某个数据源的导出预设
+ */
+export async function getUserExportPresets(userId: number, source: string) {
+  const database = await db();
+  return database
+    .select()
+    .from(exportPresets)
+    .where(and(eq(exportPresets.userId, userId), eq(exportPresets.source, source)))
+    .orderBy(asc(exportPresets.name));
+}
+
+/**
+ * 保存导出预设，同名预设直接覆盖
+ */
+export async function saveExportPreset(data: {
+  userId: number;
+  source: string;
+  name: string;
+  options: ExportOptions;
+}) {
+  const database = await db();
+  await database
+    .insert(exportPresets)
+    .values(data)
+    .onDuplicateKeyUpdate({ set: { options: data.options } });
+}
+
+/**
+ * 删除导出预设
+ */
+export async function deleteExportPreset(userId: number, presetId: number): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .delete(exportPresets)
+    .where(and(eq(exportPresets.id, presetId), eq(exportPresets.userId, userId)));
+  return result[0].affectedRows > 0;
+}
@@ -0,0 +1,122 @@
+/**
+ * 导出选项
+ *
+ * 列选择与顺序（或 CRM 导入模板，见 templates.ts）、表头语言、电话格式、文件格式。下载接口通过查询参数传入，
+ * 导出预设（export_presets.options）保存同样的结构
+ */
+
+import { z } from "zod";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "jsonl"] as const;
+export const HEADER_LANGUAGES = ["zh", "en"] as const;
+/** e164: +1XXXXXXXXXX / digits: 1XXXXXXXXXX（原有格式）/ dashed: XXX-XXX-XXXX */
+export const PHONE_FORMATS = ["e164", "digits", "dashed"] as const;
+
+/** CRM / 外呼系统导入模板 */
+export const EXPORT_TEMPLATE_IDS = ["hubspot", "salesforce", "dialer"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type HeaderLanguage = typeof HEADER_LANGUAGES[number];
+export type PhoneFormat = typeof PHONE_FORMATS[number];
+export type ExportTemplateId = typeof EXPORT_TEMPLATE_IDS[number];
+
+export const exportOptionsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  language: z.enum(HEADER_LANGUAGES).default("zh"),
+  phoneFormat: z.enum(PHONE_FORMATS).default("digits"),
+  /** 导出的列及顺序（列 key），为空时使用数据源的默认列 */
+  columns: z.array(z.string().max(50)).max(100).optional(),
+  /** 选择模板时忽略 columns 和 language */
+  template: z.enum(EXPORT_TEMPLATE_IDS).optional(),
+});
+
+export type ExportOptions = z.infer<typeof exportOptionsSchema>;
+
+export type ExportCell = string | number | null | undefined;
+
+export interface ExportColumnContext {
+  /** 导出行序号（从 0 开始） */
+  index: number;
+  /** 按所选格式格式化电话号码 */
+  phone(phone: string | null | undefined): string;
+  /** 本次导出开始时间 */
+  exportedAt: Date;
+}
+
+export interface ExportColumn<TRow> {
+  /** 稳定的列标识，JSON Lines 以此作为字段名 */
+  key: string;
+  zh: string;
+  en: string;
+  /** 未选择列时是否导出，默认 true */
+  default?: boolean;
+  value(row: TRow, ctx: ExportColumnContext): ExportCell;
+}
+
+/**
+ * 格式化美国电话号码
+ *
+ * 非 10 位 / 11 位（1 开头）的号码无法判断国家代码，只保留数字
+ */
+export function formatPhone(phone: string | null | undefined, format: PhoneFormat): string {
+  if (!phone) return "";
+  const digits = phone.replace(/\D/g, "");
+  const national = digits.length === 11 && digits.startsWith("1")
+    ? digits.slice(1)
+    : digits.length === 10 ? digits : null;
+
+  if (!national) return digits;
+
+  switch (format) {
+    case "e164":
+      return `+1${national}`;
+    case "dashed":
+      return `${national.slice(0, 3)}-${national.slice(3, 6)}-${national.slice(6)}`;
+    default:
+      return `1${national}`;
+  }
+}
+
+/**
+ * 解析下载接口的查询参数
+ *
+ * columns 为逗号分隔的列 key，例如 ?format=xlsx&language=en&phoneFormat=e164&columns=name,phone；
+ * 或 ?template=hubspot 使用导入模板
+ */
+export function parseExportQuery(query: Record<string, unknown>) {
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] : value);
+  const columns = first(query.columns);
+
+  return exportOptionsSchema.safeParse({
+    format: first(query.format) || undefined,
+    language: first(query.language) || undefined,
+    phoneFormat: first(query.phoneFormat) || undefined,
+    template: first(query.template) || undefined,
+    columns: typeof columns === "string" && columns
+      ? columns.split(",").map(c => c.trim()).filter(Boolean)
+      : undefined,
+  });
+}
+
+/**
+ * 按所选 key 取出列（保持所选顺序），未知 key 忽略；未选择时返回默认列
+ */
+export function resolveColumns<TRow>(
+  available: ExportColumn<TRow>[],
+  keys: string[] | undefined
+): ExportColumn<TRow>[] {
+  if (!keys || keys.length === 0) {
+    return available.filter(c => c.default !== false);
+  }
+  const byKey = new Map(available.map(c => [c.key, c]));
+  const seen = new Set<string>();
+  const columns: ExportColumn<TRow>[] = [];
+  for (const key of keys) {
+    const column = byKey.get(key);
+    if (column && !seen.has(key)) {
+      seen.add(key);
+      columns.push(column);
+    }
+  }
+  return columns;
+}
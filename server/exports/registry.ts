@@ -0,0 +1,30 @@
+/**
+ * 可导出的数据源
+ */
+
+import type { TaskExporter } from "./stream";
+import { tpsExporter } from "../tps/export";
+import { spfExporter } from "../spf/export";
+import { anywhoExporter } from "../anywho/export";
+import { waterfallExporter } from "../waterfall/export";
+import { linkedinExporter } from "../linkedin/export";
+import { phoneLookupExporter } from "../phoneLookup/export";
+
+export const EXPORT_SOURCES = ["tps", "spf", "anywho", "waterfall", "linkedin", "phone_lookup"] as const;
+
+export type ExportSourceName = typeof EXPORT_SOURCES[number];
+
+const exporters: Record<ExportSourceName, TaskExporter<any, any>> = {
+  tps: tpsExporter,
+  spf: spfExporter,
+  anywho: anywhoExporter,
+  waterfall: waterfallExporter,
+  linkedin: linkedinExporter,
+  phone_lookup: phoneLookupExporter,
+};
+
+export function getTaskExporter(source: string): TaskExporter<any, any> | null {
+  return (EXPORT_SOURCES as readonly string[]).includes(source)
+    ? exporters[source as ExportSourceName]
+    : null;
+}
@@ -0,0 +1,96 @@
+/**
+ * 导出设置 tRPC 路由
+ *
+ * 提供各数据源的可选列、CRM 导入模板，以及用户保存的导出预设。文件下载本身走
+ * GET /api/export/:source/:taskId（见 routes.ts），导出选项通过查询参数传入
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { EXPORT_SOURCES, getTaskExporter } from "./registry";
+import { exportOptionsSchema } from "./options";
+import { EXPORT_TEMPLATES } from "./templates";
+import {
+  getUserExportPresets,
+  saveExportPreset,
+  deleteExportPreset,
+  MAX_EXPORT_PRESETS_PER_SOURCE,
+} from "./db";
+
+const sourceSchema = z.enum(EXPORT_SOURCES);
+
+export const exportsRouter = router({
+  // 数据源的可选列（顺序即默认顺序）
+  columns: protectedProcedure
+    .input(z.object({ source: sourceSchema }))
+    .query(({ input }) => {
+      return getTaskExporter(input.source)!.columns.map(column => ({
+        key: column.key,
+        zh: column.zh,
+        en: column.en,
+        default: column.default !== false,
+      }));
+    }),
+
+  // CRM / 外呼系统导入模板
+  templates: protectedProcedure.query(() => {
+    return EXPORT_TEMPLATES.map(template => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      headers: template.columns.map(c => c.en),
+    }));
+  }),
+
+  // 导出预设列表
+  presets: protectedProcedure
+    .input(z.object({ source: sourceSchema }))
+    .query(async ({ ctx, input }) => {
+      return getUserExportPresets(ctx.user!.id, input.source);
+    }),
+
+  // 保存导出预设（同名覆盖）
+  savePreset: protectedProcedure
+    .input(z.object({
+      source: sourceSchema,
+      name: z.string().trim().min(1, "请填写预设名称").max(50),
+      options: exportOptionsSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+
+      const available = new Set(getTaskExporter(input.source)!.columns.map(c => c.key));
+      if (input.options.columns?.some(key => !available.has(key))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "包含不支持的导出列",
+        });
+      }
+
+      const existing = await getUserExportPresets(userId, input.source);
+      if (!existing.some(p => p.name === input.name) && existing.length >= MAX_EXPORT_PRESETS_PER_SOURCE) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `每个数据源最多保存 ${MAX_EXPORT_PRESETS_PER_SOURCE} 个导出预设`,
+        });
+      }
+
+      await saveExportPreset({ userId, source: input.source, name: input.name, options: input.options });
+      return { success: true };
+    }),
+
+  // 删除导出预设
+  deletePreset: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await deleteExportPreset(ctx.user!.id, input.id);
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "导出预设不存在",
+        });
+      }
+      return { success: true };
+    }),
+});
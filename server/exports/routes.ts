@@ -0,0 +1,89 @@
+/**
+ * 搜索结果流式下载路由
+ *
+ * GET /api/export/:source/:taskId  (source = tps / spf / anywho / waterfall / linkedin / phone_lookup)
+ *
+ * 查询参数（均可选，见 options.ts）：
+ * - format       csv（默认）/ xlsx / jsonl
+ * - language     表头语言 zh（默认）/ en
+ * - phoneFormat  digits（默认，1XXXXXXXXXX）/ e164 / dashed
+ * - columns      逗号分隔的列 key，决定导出的列及顺序
+ * - template     CRM / 外呼系统导入模板 hubspot / salesforce / dialer（见 templates.ts）
+ *
+ * 浏览器 Cookie 鉴权，只能下载自己或同一团队成员的任务；结果逐批写入响应，没有行数上限
+ */
+
+import type { Express, Request, Response } from "express";
+import { authenticateRequest } from "../_core/context";
+import { streamExport } from "./stream";
+import { parseExportQuery } from "./options";
+import { getTaskExporter } from "./registry";
+import { resolveExportColumns } from "./templates";
+import { canViewUserResource } from "../organizations/access";
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: code, message });
+}
+
+export function registerExportRoutes(app: Express) {
+  app.get("/api/export/:source/:taskId", async (req: Request, res: Response) => {
+    const exporter = getTaskExporter(req.params.source);
+    if (!exporter) {
+      sendError(res, 404, "NOT_FOUND", "不支持的数据源");
+      return;
+    }
+
+    const parsed = parseExportQuery(req.query);
+    if (!parsed.success) {
+      sendError(res, 400, "BAD_REQUEST", "导出参数无效");
+      return;
+    }
+    const options = parsed.data;
+    const columns = resolveExportColumns(exporter, options);
+    if (columns.length === 0) {
+      sendError(res, 400, "BAD_REQUEST", "请至少选择一列");
+      return;
+    }
+
+    try {
+      const user = await authenticateRequest(req);
+      if (!user) {
+        sendError(res, 401, "UNAUTHORIZED", "请先登录");
+        return;
+      }
+
+      const task = await exporter.getTask(req.params.taskId);
+      if (!task) {
+        sendError(res, 404, "NOT_FOUND", "任务不存在");
+        return;
+      }
+      if (!(await canViewUserResource(user.id, task.userId))) {
+        sendError(res, 403, "FORBIDDEN", "无权访问此任务");
+        return;
+      }
+      if (!exporter.isExportable(task)) {
+        sendError(res, 400, "BAD_REQUEST", "任务尚未完成，无法导出");
+        return;
+      }
+
+      const source = exporter.createSource(task);
+      if (options.template) {
+        source.filename += `_${options.template}`;
+      }
+      const exported = await streamExport(res, source, columns, options);
+      if (exported === false) {
+        sendError(res, 404, "NOT_FOUND", "没有可导出的结果");
+        return;
+      }
+      console.log(`[Export] 用户 ${user.id} 导出 ${req.params.source} 任务 ${req.params.taskId} (${options.format}): ${exported} 行`);
+    } catch (error) {
+      console.error(`[Export] ${req.params.source} 任务 ${req.params.taskId} 导出失败:`, error);
+      if (!res.headersSent) {
+        sendError(res, 500, "INTERNAL_SERVER_ERROR", "导出失败，请稍后重试");
+      } else {
+        // 已开始输出，只能中断连接让客户端感知下载不完整
+        res.destroy();
+      }
+    }
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * 搜索结果流式导出（CSV / XLSX / JSON Lines，见 writers.ts）
+ *
+ * 按 id 分批从数据库读取结果，逐行写入 HTTP 响应：
+ * - 内存占用与结果总数无关，只保留当前一批
+ * - 没有行数上限
+ * - 响应缓冲区写满时等待 drain，客户端断开后立即停止读取
+ */
+
+import type { Response } from "express";
+import { ExportColumn, ExportOptions, formatPhone } from "./options";
+import type { LeadRecord } from "./templates";
+import { createExportWriter } from "./writers";
+
+/** 每批读取的行数 */
+const BATCH_SIZE = 1000;
+
+export interface ExportSource<TRow extends { id: number }> {
+  /** 下载文件名（不含扩展名，按导出格式补全） */
+  filename: string;
+  /** 读取 id 大于 afterId 的下一批结果（按 id 升序） */
+  fetchBatch(afterId: number, limit: number): Promise<TRow[]>;
+  /** 过滤不导出的行（可选） */
+  include?(row: TRow): boolean;
+}
+
+/**
+ * 某个数据源的任务导出定义（注册在 exports/routes.ts）
+ */
+export interface TaskExporter<TTask extends { userId: number; status: string }, TRow extends { id: number }> {
+  /** 可选列，顺序即默认导出顺序 */
+  columns: ExportColumn<TRow>[];
+  getTask(taskId: string): Promise<TTask | null | undefined>;
+  /** 任务当前状态是否允许导出 */
+  isExportable(task: TTask): boolean;
+  createSource(task: TTask): ExportSource<TRow>;
+  /** 转为统一联系人字段，供 CRM 导入模板使用 */
+  toLead(row: TRow): LeadRecord;
+}
+
+/**
+ * 写入一段数据，缓冲区写满时等待 drain
+ *
+ * @returns 客户端已断开时返回 false
+ */
+function write(res: Response, chunk: string | Buffer): Promise<boolean> {
+  if (res.destroyed) return Promise.resolve(false);
+  if (chunk.length === 0) return Promise.resolve(true);
+  if (res.write(chunk)) return Promise.resolve(true);
+
+  return new Promise(resolve => {
+    const onDrain = () => {
+      res.off("close", onClose);
+      resolve(true);
+    };
+    const onClose = () => {
+      res.off("drain", onDrain);
+      resolve(false);
+    };
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+  });
+}
+
+/**
+ * 流式导出
+ *
+ * columns 为实际导出的列（见 templates.ts resolveExportColumns）。
+ * 在写入响应头之前读取第一批可导出的行，没有可导出的结果时返回 false，由调用方返回错误
+ *
+ * @returns 导出的行数；没有可导出的结果时返回 false
+ */
+export async function streamExport<TRow extends { id: number }>(
+  res: Response,
+  source: ExportSource<TRow>,
+  columns: ExportColumn<TRow>[],
+  options: ExportOptions
+): Promise<number | false> {
+  const include = source.include ?? (() => true);
+  const writer = createExportWriter(options.format);
+  const exportedAt = new Date();
+
+  // 找到第一批可导出的行
+  let afterId = 0;
+  let batch: TRow[] = [];
+  let rows: TRow[] = [];
+  do {
+    batch = await source.fetchBatch(afterId, BATCH_SIZE);
+    if (batch.length === 0) break;
+    afterId = batch[batch.length - 1].id;
+    rows = batch.filter(include);
+  } while (rows.length === 0);
+
+  if (rows.length === 0) return false;
+
+  const filename = `${source.filename}.${writer.extension}`;
+  res.status(200);
+  res.setHeader("Content-Type", writer.contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+  );
+  res.setHeader("Cache-Control", "no-store");
+
+  const headers = columns.map(c => c[options.template ? "en" : options.language]);
+  if (!await write(res, writer.begin(headers, columns.map(c => c.key)))) return 0;
+
+  let exported = 0;
+  while (true) {
+    const cells = rows.map(row => {
+      const ctx = {
+        index: exported++,
+        phone: (phone: string | null | undefined) => formatPhone(phone, options.phoneFormat),
+        exportedAt,
+      };
+      return columns.map(column => column.value(row, ctx));
+    });
+    if (!await write(res, writer.rows(cells))) return exported;
+
+    if (batch.length < BATCH_SIZE) break;
+    batch = await source.fetchBatch(afterId, BATCH_SIZE);
+    if (batch.length === 0) break;
+    afterId = batch[batch.length - 1].id;
+    rows = batch.filter(include);
+  }
+
+  if (!await write(res, writer.end())) return exported;
+  res.end();
+  return exported;
+}
@@ -0,0 +1,210 @@
+/**
+ * CRM / 外呼系统导入模板
+ *
+ * 各数据源的结果先由 TaskExporter.toLead 转为统一的 LeadRecord，再按模板映射到目标系统的列名，
+ * 多个电话、邮箱拆成带编号的列（Phone 2、Phone 3 …）。模板的表头是目标系统的字段名，
+ * 不随表头语言变化；电话格式仍按导出选项
+ */
+
+import { resolveColumns, ExportColumn, ExportOptions, ExportTemplateId } from "./options";
+import type { TaskExporter } from "./stream";
+
+export interface LeadPhone {
+  number: string;
+  /** 原始电话类型（Wireless / Mobile / Landline …） */
+  type?: string | null;
+}
+
+/**
+ * 统一的联系人字段
+ */
+export interface LeadRecord {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  age?: number | null;
+  address: string;
+  city: string;
+  state: string;
+  company: string;
+  jobTitle: string;
+  linkedinUrl: string;
+  /** 主号码在前，已去重 */
+  phones: LeadPhone[];
+  /** 主邮箱在前，已去重 */
+  emails: string[];
+  /** 数据来源名称，写入 Lead Source 等字段 */
+  source: string;
+}
+
+export interface ExportTemplate {
+  id: ExportTemplateId;
+  name: string;
+  description: string;
+  columns: ExportColumn<LeadRecord>[];
+}
+
+/**
+ * 拆分姓名：首个词为名，最后一个词为姓，中间名丢弃
+ */
+export function splitName(name: string | null | undefined): { firstName: string; lastName: string } {
+  const parts = (name || "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { firstName: "", lastName: "" };
+  if (parts.length === 1) return { firstName: parts[0], lastName: "" };
+  return { firstName: parts[0], lastName: parts[parts.length - 1] };
+}
+
+/**
+ * 合并电话列表，按号码数字去重（忽略美国国家代码 1）
+ */
+export function mergePhones(...phones: Array<LeadPhone | string | null | undefined>): LeadPhone[] {
+  const seen = new Set<string>();
+  const result: LeadPhone[] = [];
+  for (const phone of phones) {
+    const entry = typeof phone === "string" ? { number: phone } : phone;
+    const digits = entry?.number?.replace(/\D/g, "").replace(/^1(\d{10})$/, "$1");
+    if (!entry || !digits || seen.has(digits)) continue;
+    seen.add(digits);
+    result.push(entry);
+  }
+  return result;
+}
+
+/**
+ * 合并邮箱列表，忽略大小写去重
+ */
+export function mergeEmails(...emails: Array<string | null | undefined>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const email of emails) {
+    const value = email?.trim();
+    if (!value || seen.has(value.toLowerCase())) continue;
+    seen.add(value.toLowerCase());
+    result.push(value);
+  }
+  return result;
+}
+
+const isMobile = (phone: LeadPhone) => /wireless|mobile|cell/i.test(phone.type || "");
+
+/** Phone {from}..{to}（第 n 个号码，从 1 开始） */
+function numberedPhones(label: (n: number) => string, from: number, to: number): ExportColumn<LeadRecord>[] {
+  const columns: ExportColumn<LeadRecord>[] = [];
+  for (let n = from; n <= to; n++) {
+    const header = label(n);
+    columns.push({ key: `phone${n}`, zh: header, en: header, value: (r, ctx) => ctx.phone(r.phones[n - 1]?.number) });
+  }
+  return columns;
+}
+
+function numberedEmails(label: (n: number) => string, from: number, to: number): ExportColumn<LeadRecord>[] {
+  const columns: ExportColumn<LeadRecord>[] = [];
+  for (let n = from; n <= to; n++) {
+    const header = label(n);
+    columns.push({ key: `email${n}`, zh: header, en: header, value: r => r.emails[n - 1] || "" });
+  }
+  return columns;
+}
+
+/** 表头与列 key 相同的简单列 */
+function field(header: string, value: ExportColumn<LeadRecord>["value"]): ExportColumn<LeadRecord> {
+  return { key: header, zh: header, en: header, value };
+}
+
+export const EXPORT_TEMPLATES: ExportTemplate[] = [
+  {
+    id: "hubspot",
+    name: "HubSpot contacts",
+    description: "HubSpot 联系人导入，列名对应默认联系人属性",
+    columns: [
+      field("First Name", r => r.firstName),
+      field("Last Name", r => r.lastName),
+      field("Email", r => r.emails[0] || ""),
+      field("Phone Number", (r, ctx) => ctx.phone(r.phones[0]?.number)),
+      field("Mobile Phone Number", (r, ctx) => ctx.phone(r.phones.find(isMobile)?.number)),
+      field("Street Address", r => r.address),
+      field("City", r => r.city),
+      field("State/Region", r => r.state),
+      field("Country/Region", () => "United States"),
+      field("Company Name", r => r.company),
+      field("Job Title", r => r.jobTitle),
+      field("LinkedIn URL", r => r.linkedinUrl),
+      field("Lead Source", r => r.source),
+      ...numberedPhones(n => `Phone ${n}`, 2, 3),
+      ...numberedEmails(n => `Email ${n}`, 2, 3),
+    ],
+  },
+  {
+    id: "salesforce",
+    name: "Salesforce leads",
+    description: "Salesforce 潜在客户导入（Company 为必填，缺失时填 [Not Provided]）",
+    columns: [
+      field("First Name", r => r.firstName),
+      field("Last Name", r => r.lastName || r.fullName),
+      field("Company", r => r.company || "[Not Provided]"),
+      field("Title", r => r.jobTitle),
+      field("Email", r => r.emails[0] || ""),
+      field("Phone", (r, ctx) => ctx.phone(r.phones[0]?.number)),
+      field("Mobile Phone", (r, ctx) => ctx.phone(r.phones.find(isMobile)?.number)),
+      field("Street", r => r.address),
+      field("City", r => r.city),
+      field("State/Province", r => r.state),
+      field("Country", () => "United States"),
+      field("Lead Source", r => r.source),
+      field("Website", r => r.linkedinUrl),
+      ...numberedPhones(n => `Phone ${n}`, 2, 3),
+      ...numberedEmails(n => `Email ${n}`, 2, 3),
+    ],
+  },
+  {
+    id: "dialer",
+    name: "Generic dialer",
+    description: "通用外呼系统格式，每行最多 5 个号码",
+    columns: [
+      field("First Name", r => r.firstName),
+      field("Last Name", r => r.lastName),
+      ...numberedPhones(n => `Phone ${n}`, 1, 5),
+      field("Phone 1 Type", r => r.phones[0]?.type || ""),
+      field("Address", r => r.address),
+      field("City", r => r.city),
+      field("State", r => r.state),
+      field("Age", r => r.age ?? ""),
+      ...numberedEmails(n => `Email ${n}`, 1, 2),
+    ],
+  },
+];
+
+export function getExportTemplate(id: string): ExportTemplate | null {
+  return EXPORT_TEMPLATES.find(t => t.id === id) ?? null;
+}
+
+/**
+ * 按导出选项确定实际导出的列
+ *
+ * 选择了模板时使用模板列（行先转为 LeadRecord），否则按所选列 key
+ */
+export function resolveExportColumns<TRow extends { id: number }>(
+  exporter: TaskExporter<any, TRow>,
+  options: ExportOptions
+): ExportColumn<TRow>[] {
+  const template = options.template ? getExportTemplate(options.template) : null;
+  if (!template) {
+    return resolveColumns(exporter.columns, options.columns);
+  }
+
+  // 同一行的多列共用一次转换
+  const leads = new WeakMap<TRow, LeadRecord>();
+  const toLead = (row: TRow) => {
+    let lead = leads.get(row);
+    if (!lead) {
+      lead = exporter.toLead(row);
+      leads.set(row, lead);
+    }
+    return lead;
+  };
+
+  return template.columns.map(column => ({
+    ...column,
+    value: (row: TRow, ctx) => column.value(toLead(row), ctx),
+  }));
+}
@@ -0,0 +1,70 @@
+/**
+ * 导出文件格式
+ *
+ * 每种格式按批输出：begin（文件头 + 表头）→ rows（每批数据）→ end（文件尾）
+ */
+
+import type { ExportCell, ExportFormat } from "./options";
+import { createXlsxWriter } from "./xlsx";
+
+export interface ExportFileWriter {
+  contentType: string;
+  /** 文件扩展名（不含点） */
+  extension: string;
+  /** headers 为所选语言的表头，keys 为对应的列 key */
+  begin(headers: string[], keys: string[]): string | Buffer;
+  rows(rows: ExportCell[][]): string | Buffer;
+  end(): string | Buffer;
+}
+
+/**
+ * 转义 CSV 单元格
+ */
+export function escapeCsvCell(cell: ExportCell): string {
+  return `"${String(cell ?? "").replace(/"/g, '""')}"`;
+}
+
+function toCsvLine(cells: ExportCell[]): string {
+  return cells.map(escapeCsvCell).join(",") + "\n";
+}
+
+function createCsvWriter(): ExportFileWriter {
+  return {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    // UTF-8 BOM（Excel 兼容中文表头）
+    begin: headers => "\uFEFF" + toCsvLine(headers),
+    rows: rows => rows.map(toCsvLine).join(""),
+    end: () => "",
+  };
+}
+
+/**
+ * JSON Lines：每行一个对象，字段名为列 key（不随表头语言变化，便于程序处理）
+ */
+function createJsonLinesWriter(): ExportFileWriter {
+  let keys: string[] = [];
+  return {
+    contentType: "application/x-ndjson; charset=utf-8",
+    extension: "jsonl",
+    begin: (_headers, columnKeys) => {
+      keys = columnKeys;
+      return "";
+    },
+    rows: rows => rows
+      .map(cells => JSON.stringify(Object.fromEntries(keys.map((key, i) => [key, cells[i] ?? null]))) + "\n")
+      .join(""),
+    end: () => "",
+  };
+}
+
+export function createExportWriter(format: ExportFormat): ExportFileWriter {
+  switch (format) {
+    case "xlsx":
+      return createXlsxWriter();
+    case "jsonl":
+      return createJsonLinesWriter();
+    default:
+      return createCsvWriter();
+  }
+}
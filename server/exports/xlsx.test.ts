@@ -0,0 +1,110 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { execFileSync, spawnSync } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createXlsxWriter, XlsxLimitError, XLSX_MAX_ROWS } from "./xlsx";
+import type { ExportCell } from "./options";
+
+// 用系统 unzip 校验生成的文件（CRC、长度、中央目录），没有安装时跳过
+const hasUnzip = spawnSync("unzip", ["-v"]).status === 0;
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "xlsx-test-"));
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function toBuffer(chunk: string | Buffer): Buffer {
+  return typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk;
+}
+
+function buildFile(headers: string[], batches: ExportCell[][][]): Buffer {
+  const writer = createXlsxWriter();
+  const parts = [toBuffer(writer.begin(headers, headers))];
+  for (const rows of batches) {
+    parts.push(toBuffer(writer.rows(rows)));
+  }
+  parts.push(toBuffer(writer.end()));
+  return Buffer.concat(parts);
+}
+
+describe.skipIf(!hasUnzip)("createXlsxWriter round trip", () => {
+  const file = path.join(tmpDir, "export.xlsx");
+  const batches: ExportCell[][][] = [
+    [
+      ["Alice & Bob", 42, "<script>"],
+      ["张三", null, "引号 \"quoted\""],
+    ],
+    Array.from({ length: 500 }, (_, i) => [`Row ${i}`, i, "x".repeat(i % 50)]),
+    [["控制字符\x01已移除", 3.5, ""]],
+  ];
+
+  fs.writeFileSync(file, buildFile(["Name", "Age", "Note"], batches));
+
+  it("passes unzip's integrity test", () => {
+    const output = execFileSync("unzip", ["-t", file], { encoding: "utf8" });
+    expect(output).toContain("No errors detected");
+  });
+
+  it("contains the workbook parts", () => {
+    const listing = execFileSync("unzip", ["-Z1", file], { encoding: "utf8" }).trim().split("\n");
+    expect(listing).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+  });
+
+  it("writes every row with escaped text", () => {
+    const sheet = execFileSync("unzip", ["-p", file, "xl/worksheets/sheet1.xml"], {
+      encoding: "utf8",
+      maxBuffer: 16 * 1024 * 1024,
+    });
+
+    expect(sheet).toContain(`<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>`);
+    expect(sheet).toContain(`<t xml:space="preserve">Alice &amp; Bob</t>`);
+    expect(sheet).toContain(`<c r="B2"><v>42</v></c>`);
+    expect(sheet).toContain(`<t xml:space="preserve">&lt;script&gt;</t>`);
+    expect(sheet).toContain(`<t xml:space="preserve">引号 &quot;quoted&quot;</t>`);
+    expect(sheet).toContain(`<t xml:space="preserve">控制字符已移除</t>`);
+    // 空单元格不输出
+    expect(sheet).not.toContain(`r="B3"`);
+    expect(sheet.match(/<row /g)).toHaveLength(1 + 2 + 500 + 1);
+    expect(sheet.endsWith("</sheetData></worksheet>")).toBe(true);
+  });
+});
+
+describe("createXlsxWriter limits", () => {
+  it("rejects rows beyond the Excel sheet limit", () => {
+    const writer = createXlsxWriter();
+    writer.begin(["n"], ["n"]);
+
+    // 表头占 1 行，数据最多 XLSX_MAX_ROWS - 1 行
+    for (let written = 0; written < XLSX_MAX_ROWS - 1;) {
+      const count = Math.min(100000, XLSX_MAX_ROWS - 1 - written);
+      writer.rows(Array.from({ length: count }, () => [1]));
+      written += count;
+    }
+
+    expect(() => writer.rows([[1]])).toThrow(XlsxLimitError);
+  });
+
+  it("fails before the file outgrows the zip size limit", () => {
+    const maxBytes = 256 * 1024;
+    const writer = createXlsxWriter(maxBytes);
+    let size = toBuffer(writer.begin(["data"], ["data"])).length;
+
+    // 随机内容几乎不可压缩，很快触及上限
+    const writeRandomRows = () => {
+      size += toBuffer(writer.rows([[crypto.randomBytes(4096).toString("hex")]])).length;
+    };
+    expect(() => {
+      for (let i = 0; i < 1000; i++) writeRandomRows();
+    }).toThrow(XlsxLimitError);
+    expect(size).toBeLessThanOrEqual(maxBytes);
+  });
+});
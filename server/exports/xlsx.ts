@@ -0,0 +1,257 @@
+/**
+ * XLSX 流式写入
+ *
+ * 不依赖第三方库，直接输出 zip 容器：
+ * - 固定部件（[Content_Types].xml、workbook、styles 等）不压缩，一次写出
+ * - 工作表按批 deflate（Z_SYNC_FLUSH），各段拼接后仍是一个合法的 deflate 流，
+ *   CRC 和长度写在数据描述符里，因此不需要把整张表缓存在内存中
+ *
+ * 限制：未使用 zip64，文件大小、工作表解压后大小和各偏移量都不能超过 4GB（32 位字段），
+ * 单个工作表最多 1048576 行。超出时在写出损坏的文件之前抛出错误，提示改用 CSV / JSONL。
+ * 条目数固定为 6 个，不会触及 65535 条目上限
+ */
+
+import zlib from "zlib";
+import type { ExportCell } from "./options";
+import type { ExportFileWriter } from "./writers";
+
+const SHEET_PATH = "xl/worksheets/sheet1.xml";
+/** Excel 单元格最大字符数 */
+const MAX_CELL_LENGTH = 32767;
+/** Excel 单个工作表最大行数（含表头） */
+export const XLSX_MAX_ROWS = 1048576;
+/** zip（非 zip64）长度和偏移字段的上限 */
+const ZIP32_MAX = 0xFFFFFFFF;
+/** 为数据描述符、中央目录和目录结束记录预留的字节数 */
+const ZIP_TAIL_RESERVE = 64 * 1024;
+
+/** 导出内容超出 XLSX 格式限制 */
+export class XlsxLimitError extends Error {
+  constructor(message: string) {
+    super(`${message}，请改用 CSV 或 JSONL 格式导出`);
+    this.name = "XlsxLimitError";
+  }
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/${SHEET_PATH}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// 样式 0 = 默认，样式 1 = 加粗（表头）
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+
+// 冻结表头行
+const SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+
+const SHEET_END = `</sheetData></worksheet>`;
+
+interface ZipEntry {
+  name: Buffer;
+  flags: number;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // XML 1.0 不允许的控制字符
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** 列序号（从 0 开始）转为 A、B、…、AA */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * @param maxBytes 文件大小上限，默认为 zip 32 位字段上限（测试时可调小）
+ */
+export function createXlsxWriter(maxBytes: number = ZIP32_MAX): ExportFileWriter {
+  const { time, date } = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let columnRefs: string[] = [];
+  let rowNumber = 0;
+
+  function localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  // 固定部件：不压缩，长度和 CRC 直接写在本地文件头
+  function storedFile(name: string, content: string): Buffer {
+    const data = Buffer.from(content, "utf8");
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      flags: 0x0800,
+      method: 0,
+      crc: zlib.crc32(data),
+      compressedSize: data.length,
+      size: data.length,
+      offset,
+    };
+    entries.push(entry);
+    const chunk = Buffer.concat([localHeader(entry), data]);
+    offset += chunk.length;
+    return chunk;
+  }
+
+  // 工作表：bit 3 表示 CRC 和长度在数据之后的数据描述符中
+  const sheet: ZipEntry = {
+    name: Buffer.from(SHEET_PATH, "utf8"),
+    flags: 0x0808,
+    method: 8,
+    crc: 0,
+    compressedSize: 0,
+    size: 0,
+    offset: 0,
+  };
+
+  function sheetData(xml: string, final: boolean): Buffer {
+    const data = Buffer.from(xml, "utf8");
+    if (sheet.size + data.length > maxBytes) {
+      throw new XlsxLimitError("工作表超过 XLSX 4GB 上限");
+    }
+    sheet.crc = zlib.crc32(data, sheet.crc);
+    sheet.size += data.length;
+    const compressed = zlib.deflateRawSync(data, {
+      finishFlush: final ? zlib.constants.Z_FINISH : zlib.constants.Z_SYNC_FLUSH,
+    });
+    // 中央目录的偏移量也必须在 32 位范围内
+    if (offset + compressed.length + ZIP_TAIL_RESERVE > maxBytes) {
+      throw new XlsxLimitError("导出文件超过 XLSX 4GB 上限");
+    }
+    sheet.compressedSize += compressed.length;
+    offset += compressed.length;
+    return compressed;
+  }
+
+  function rowXml(cells: ExportCell[], style: number): string {
+    if (rowNumber >= XLSX_MAX_ROWS) {
+      throw new XlsxLimitError(`导出行数超过 XLSX 上限 ${XLSX_MAX_ROWS - 1} 行`);
+    }
+    rowNumber++;
+    const styleAttr = style ? ` s="${style}"` : "";
+    let xml = `<row r="${rowNumber}">`;
+    cells.forEach((cell, i) => {
+      if (cell === null || cell === undefined || cell === "") return;
+      const ref = `${columnRefs[i] ?? columnName(i)}${rowNumber}`;
+      if (typeof cell === "number" && Number.isFinite(cell)) {
+        xml += `<c r="${ref}"${styleAttr}><v>${cell}</v></c>`;
+      } else {
+        const text = escapeXml(String(cell).slice(0, MAX_CELL_LENGTH));
+        xml += `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${text}</t></is></c>`;
+      }
+    });
+    return xml + "</row>";
+  }
+
+  return {
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+
+    begin(headers) {
+      columnRefs = headers.map((_, i) => columnName(i));
+      const parts = [
+        storedFile("[Content_Types].xml", CONTENT_TYPES),
+        storedFile("_rels/.rels", ROOT_RELS),
+        storedFile("xl/workbook.xml", WORKBOOK),
+        storedFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS),
+        storedFile("xl/styles.xml", STYLES),
+      ];
+
+      sheet.offset = offset;
+      entries.push(sheet);
+      const header = localHeader(sheet);
+      offset += header.length;
+      parts.push(header, sheetData(SHEET_START + rowXml(headers, 1), false));
+      return Buffer.concat(parts);
+    },
+
+    rows(rows) {
+      return sheetData(rows.map(cells => rowXml(cells, 0)).join(""), false);
+    },
+
+    end() {
+      const parts = [sheetData(SHEET_END, true)];
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(sheet.crc, 4);
+      descriptor.writeUInt32LE(sheet.compressedSize, 8);
+      descriptor.writeUInt32LE(sheet.size, 12);
+      parts.push(descriptor);
+      offset += descriptor.length;
+
+      // 中央目录
+      const centralOffset = offset;
+      let centralSize = 0;
+      for (const entry of entries) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(20, 6);
+        header.writeUInt16LE(entry.flags, 8);
+        header.writeUInt16LE(entry.method, 10);
+        header.writeUInt16LE(time, 12);
+        header.writeUInt16LE(date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.compressedSize, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        header.writeUInt32LE(entry.offset, 42);
+        parts.push(header, entry.name);
+        centralSize += header.length + entry.name.length;
+      }
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(centralSize, 12);
+      end.writeUInt32LE(centralOffset, 16);
+      parts.push(end);
+
+      return Buffer.concat(parts);
+    },
+  };
+}
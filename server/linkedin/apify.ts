@@ -88,7 +88,21 @@ export interface PhoneNumber {
 }
 
 /**
- * 搜索参数
+ * 搜索表单提交的条件
+ *
+ * 模糊搜索转换为 ApifySearchParams；精准搜索按职位 × 州生成 BrightData 关键词（见 brightdata.ts）
+ */
+export interface LinkedInSearchCriteria {
+  name: string;
+  titles: string[];
+  states: string[];
+  industries: string[];
+  companySizes: string[];
+  keywords: string[];
+}
+
+/**
+ * 搜索参数（locations 为美国州名，见 STATE_TO_APIFY_LOCATION）
  */
 export interface ApifySearchParams {
   jobTitles?: string[];
@@ -304,46 +318,57 @@ const STATE_TO_APIFY_LOCATION: Record<string, string> = {
  * 
  * 参数参考: https://apify.com/code_crafter/leads-finder/input-schema
  */
-function buildActorInput(
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
-  limit: number
-): Record<string, any> {
+function buildActorInput(params: ApifySearchParams): Record<string, any> {
   // Apify Leads Finder Actor 输入格式
   // 正确的参数名称:
   // - fetch_count: 获取数量 (默认 50000)
   // - contact_job_title: 职位筛选 (数组)
   // - contact_location: 地区筛选 (数组)
+  // - company_industry: 行业筛选 (数组)
+  // - size: 公司规模 (数组，LinkedIn 规模区间，如 "11-50")
   // - company_keywords: 公司关键词 (数组)
   
+  const clean = (values?: string[]) => (values || []).map(v => v.trim()).filter(Boolean);
+  const jobTitles = clean(params.jobTitles);
+  const locations = clean(params.locations);
+  const industries = clean(params.industries);
+  const companySizes = clean(params.companySizes);
+  const keywords = clean(params.keywords);
+  
   const input: Record<string, any> = {
     // 获取数量限制 - 这是最重要的参数！
-    fetch_count: limit,
+    fetch_count: params.limit ?? 100,
     
     // 文件名/运行标签
-    file_name: `DataReach_${searchTitle || 'Search'}_${searchState || 'All'}`,
+    file_name: `DataReach_${jobTitles[0] || 'Search'}_${locations[0] || 'All'}`,
   };
   
   // 职位筛选
-  if (searchTitle && searchTitle.trim()) {
-    input.contact_job_title = [searchTitle.trim()];
+  if (jobTitles.length > 0) {
+    input.contact_job_title = jobTitles;
   }
   
   // 地区筛选 - 转换为 Apify 接受的格式
-  if (searchState && searchState.trim()) {
+  if (locations.length > 0) {
     // 查找映射，如果没有则尝试转换为小写 + ", us" 格式
-    const apifyLocation = STATE_TO_APIFY_LOCATION[searchState.trim()] 
-      || `${searchState.trim().toLowerCase()}, us`;
-    input.contact_location = [apifyLocation];
+    input.contact_location = locations.map(location =>
+      STATE_TO_APIFY_LOCATION[location] || `${location.toLowerCase()}, us`
+    );
   }
   
-  // 关键词搜索（用于公司名称匹配，不是人名）
+  if (industries.length > 0) {
+    input.company_industry = industries.map(industry => industry.toLowerCase());
+  }
+  
+  if (companySizes.length > 0) {
+    input.size = companySizes;
+  }
+  
+  // 关键词用于公司名称/简介匹配，不是人名
   // 注意：Apify Leads Finder 不支持按人名搜索
-  // searchName 参数暂时不使用，因为 company_keywords 是用于公司关键词
-  // if (searchName && searchName.trim()) {
-  //   input.company_keywords = [searchName.trim()];
-  // }
+  if (keywords.length > 0) {
+    input.company_keywords = keywords;
+  }
   
   return input;
 }
@@ -371,17 +396,11 @@ async function getApifyToken(): Promise<string> {
 /**
  * 搜索人员 - 主要入口函数
  * 
- * @param searchName - 姓名关键词
- * @param searchTitle - 职位
- * @param searchState - 州/地区
- * @param limit - 返回数量限制
+ * @param params - 职位、州、行业、公司规模、关键词及返回数量限制
  * @param userId - 用户ID（用于日志）
  */
 export async function searchPeople(
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
-  limit: number = 100,
+  params: ApifySearchParams,
   userId?: number
 ): Promise<ApifySearchResult> {
   const startTime = Date.now();
@@ -391,9 +410,9 @@ export async function searchPeople(
     const client = new ApifyClient({ token });
     
     // 构建 Actor 输入
-    const actorInput = buildActorInput(searchName, searchTitle, searchState, limit);
+    const actorInput = buildActorInput(params);
     
-    console.log(`[Apify] Starting search: name=${searchName}, title=${searchTitle}, state=${searchState}, limit=${limit}`);
+    console.log(`[Apify] Starting search: titles=${(params.jobTitles || []).join('|')}, locations=${(params.locations || []).join('|')}, limit=${actorInput.fetch_count}`);
     console.log(`[Apify] Actor input:`, JSON.stringify(actorInput));
     
     // 运行 Actor
@@ -490,7 +509,7 @@ export async function searchPeople(
       await logApi(
         'apify_search',
         '/actor/code_crafter/leads-finder',
-        { searchName, searchTitle, searchState, limit },
+        params,
         error.statusCode || 500,
         duration,
         false,
@@ -10,7 +10,7 @@
  * 3. 无结果退款：搜索无结果时退还全部积分
  */
 
-import { LeadPerson, PhoneNumber } from './apify';
+import { LeadPerson, PhoneNumber, LinkedInSearchCriteria } from './apify';
 import { enrichWithPDL } from './pdl';
 import { getConfig } from '../db';
 import crypto from 'crypto';
@@ -76,6 +76,9 @@ async function getBrightDataApiToken(): Promise<string> {
   return ENV_BRIGHT_DATA_API_TOKEN;
 }
 
+// 单次采集最多提交的关键词数（职位 × 州的组合）
+const MAX_KEYWORD_INPUTS = 20;
+
 interface BrightDataTriggerResponse {
   snapshot_id: string;
   status: string;
@@ -93,9 +96,7 @@ interface BrightDataSnapshotResponse {
  * 触发 Bright Data 数据采集任务
  */
 async function triggerBrightDataCollection(
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
+  keywords: string[],
   limit: number
 ): Promise<string | null> {
   try {
@@ -106,21 +107,17 @@ async function triggerBrightDataCollection(
       return null;
     }
     
-    // 构建搜索关键词
-    const keyword = `${searchName} ${searchTitle} ${searchState}`;
-    
+    // 每个关键词一条输入，总数按关键词数平分
     const params = new URLSearchParams({
       dataset_id: BRIGHT_DATA_DATASET_ID,
       type: 'discover_new',
       discover_by: 'keyword',
-      limit_per_input: limit.toString(),
+      limit_per_input: Math.ceil(limit / keywords.length).toString(),
       format: 'json',
       include_errors: 'false',
     });
 
-    const body = JSON.stringify([{
-      keyword: keyword,
-    }]);
+    const body = JSON.stringify(keywords.map(keyword => ({ keyword })));
 
     const response = await fetch(`https://api.brightdata.com/datasets/v3/trigger?${params.toString()}`, {
       method: 'POST',
@@ -353,17 +350,35 @@ function convertToLeadPerson(profile: PdlEnrichedProfile): LeadPerson {
 
 // ============ 主要 API 函数 ============
 
+/**
+ * 生成关键词：每个职位 × 州组合一条，行业和关键词附加在末尾
+ *
+ * 关键词发现不支持按公司规模筛选，companySizes 不参与
+ */
+function buildSearchKeywords(criteria: LinkedInSearchCriteria): string[] {
+  const extra = [...criteria.industries, ...criteria.keywords].join(' ');
+  const keywords: string[] = [];
+  for (const title of criteria.titles) {
+    for (const state of criteria.states) {
+      keywords.push([criteria.name, title, state, extra].filter(Boolean).join(' '));
+    }
+  }
+  return keywords.slice(0, MAX_KEYWORD_INPUTS);
+}
+
 /**
  * 使用 Bright Data 搜索 LinkedIn 人员
  * 这是精准搜索的主入口函数
  */
 export async function brightdataSearchPeople(
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
+  criteria: LinkedInSearchCriteria,
   limit: number
 ): Promise<LeadPerson[]> {
-  console.log(`[BrightData] Starting exact search: ${searchName} | ${searchTitle} | ${searchState} | limit: ${limit}`);
+  const keywords = buildSearchKeywords(criteria);
+  console.log(`[BrightData] Starting exact search: ${keywords.join(' / ')} | limit: ${limit}`);
+  if (criteria.companySizes.length > 0) {
+    console.log('[BrightData] Company size filter is not supported by keyword discovery, ignored');
+  }
   
   // 检查 API Token（优先从数据库配置读取）
   const apiToken = await getBrightDataApiToken();
@@ -375,7 +390,7 @@ export async function brightdataSearchPeople(
   
   try {
     // 步骤 1: 触发数据采集
-    const snapshotId = await triggerBrightDataCollection(searchName, searchTitle, searchState, limit);
+    const snapshotId = await triggerBrightDataCollection(keywords, limit);
     
     if (!snapshotId) {
       console.error('[BrightData] Failed to trigger collection');
@@ -398,8 +413,8 @@ export async function brightdataSearchPeople(
     const enrichedProfiles = await enrichWithPDL(profiles);
     console.log(`[BrightData] PDL enrichment complete`);
     
-    // 步骤 4: 转换为 LeadPerson 格式
-    const leadPersons = enrichedProfiles.map(convertToLeadPerson);
+    // 步骤 4: 转换为 LeadPerson 格式（多个关键词时总数可能超出 limit）
+    const leadPersons = enrichedProfiles.map(convertToLeadPerson).slice(0, limit);
     console.log(`[BrightData] Converted ${leadPersons.length} profiles to LeadPerson format`);
     
     return leadPersons;
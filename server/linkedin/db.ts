@@ -12,7 +12,7 @@ import {
   creditLogs,
   globalCache
 } from '../../drizzle/schema';
-import { eq, desc, sql, and, gte } from 'drizzle-orm';
+import { eq, desc, sql, and, gt, gte, inArray } from 'drizzle-orm';
 import crypto from 'crypto';
 
 // ============ 积分操作 ============
@@ -243,10 +243,44 @@ export async function updateSearchTaskStatus(
 }
 
 /**
- * 获取用户的搜索任务列表
+ * 将中断的搜索任务（服务重启时仍为等待中/运行中）标记为失败，写入对账后的结果数和积分
+ * 任务已结束或已被其他进程处理时返回 false
+ */
+export async function interruptSearchTask(
+  taskId: string,
+  errorMessage: string,
+  stats: { actualCount: number; creditsUsed: number },
+  logMessage: string
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const task = await getSearchTask(taskId);
+  if (!task) return false;
+
+  const logs = [...(task.logs || []), {
+    timestamp: new Date().toISOString(),
+    time: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
+    level: 'error',
+    phase: 'complete',
+    message: logMessage,
+  }].slice(-100);
+
+  const result = await db.update(searchTasks).set({
+    status: 'failed',
+    errorMessage,
+    actualCount: stats.actualCount,
+    creditsUsed: stats.creditsUsed.toFixed(2),
+    logs,
+    completedAt: new Date(),
+  }).where(and(eq(searchTasks.id, task.id), inArray(searchTasks.status, ['pending', 'running'])));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 获取搜索任务列表（userIds 为本人或团队成员）
  */
 export async function getUserSearchTasks(
-  userId: number, 
+  userIds: number[], 
   page: number = 1, 
   limit: number = 20
 ): Promise<{ tasks: SearchTask[]; total: number }> {
@@ -254,12 +288,12 @@ export async function getUserSearchTasks(
   if (!db) return { tasks: [], total: 0 };
   const offset = (page - 1) * limit;
   const result = await db.select().from(searchTasks)
-    .where(eq(searchTasks.userId, userId))
+    .where(inArray(searchTasks.userId, userIds))
     .orderBy(desc(searchTasks.createdAt))
     .limit(limit)
     .offset(offset);
   const countResult = await db.select({ count: sql<number>`count(*)` }).from(searchTasks)
-    .where(eq(searchTasks.userId, userId));
+    .where(inArray(searchTasks.userId, userIds));
   return { tasks: result, total: countResult[0]?.count || 0 };
 }
 
@@ -317,6 +351,18 @@ export async function getSearchResults(taskId: number): Promise<SearchResult[]>
     .orderBy(desc(searchResults.createdAt));
 }
 
+/**
+ * 按 id 分批读取搜索结果（流式导出用）
+ */
+export async function getSearchResultsAfter(taskId: number, afterId: number, limit: number): Promise<SearchResult[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(searchResults)
+    .where(and(eq(searchResults.taskId, taskId), gt(searchResults.id, afterId)))
+    .orderBy(searchResults.id)
+    .limit(limit);
+}
+
 /**
  * 通过任务ID获取搜索结果
  */
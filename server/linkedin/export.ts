@@ -0,0 +1,99 @@
+/**
+ * LinkedIn 搜索结果导出（流式，见 exports/stream.ts）
+ *
+ * 结果字段保存在 search_results.data（JSON）中，只导出已验证的结果
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergeEmails, mergePhones, splitName } from "../exports/templates";
+import type { SearchResult, SearchTask } from "../../drizzle/schema";
+import { getSearchTask, getSearchResultsAfter } from "./db";
+
+/** 附带任务搜索参数，供"搜索关键词"等列使用 */
+type LinkedinExportRow = SearchResult & { params: any };
+
+const data = (r: LinkedinExportRow): any => r.data || {};
+const formatDateTime = (date: Date | null | undefined) => date ? new Date(date).toLocaleString("zh-CN") : "";
+
+// 默认列为标准版，default: false 的列为原详细版字段
+const COLUMNS: ExportColumn<LinkedinExportRow>[] = [
+  { key: "index", zh: "序号", en: "No.", value: (_r, ctx) => (ctx.index + 1).toString() },
+  { key: "apolloId", zh: "Apollo ID", en: "Apollo ID", default: false, value: r => data(r).apolloId || r.apolloId || "" },
+  { key: "name", zh: "姓名", en: "Name", value: r => data(r).fullName || data(r).name || "" },
+  { key: "firstName", zh: "名", en: "First Name", value: r => data(r).firstName || data(r).first_name || "" },
+  { key: "lastName", zh: "姓", en: "Last Name", value: r => data(r).lastName || data(r).last_name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => data(r).age?.toString() || "" },
+  { key: "title", zh: "职位", en: "Title", value: r => data(r).title || "" },
+  { key: "company", zh: "公司", en: "Company", value: r => data(r).company || data(r).organization_name || "" },
+  { key: "industry", zh: "行业", en: "Industry", value: r => data(r).industry || "" },
+  { key: "companySize", zh: "公司规模", en: "Company Size", default: false, value: r => data(r).companySize || "" },
+  { key: "city", zh: "城市", en: "City", value: r => data(r).city || "" },
+  { key: "state", zh: "州", en: "State", value: r => data(r).state || "" },
+  { key: "country", zh: "国家", en: "Country", value: r => data(r).country || "" },
+  { key: "postalCode", zh: "邮编", en: "Postal Code", default: false, value: r => data(r).postalCode || data(r).postal_code || "" },
+  { key: "fullAddress", zh: "完整地址", en: "Full Address", default: false, value: r => data(r).fullAddress || "" },
+  { key: "phone", zh: "电话号码", en: "Phone", value: (r, ctx) => ctx.phone(data(r).phone || data(r).phoneNumber) },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => data(r).phoneType || "" },
+  { key: "carrier", zh: "运营商", en: "Carrier", default: false, value: r => data(r).carrier || "" },
+  { key: "phoneStatus", zh: "电话状态", en: "Phone Status", value: r => data(r).phoneStatus || "" },
+  { key: "email", zh: "邮箱", en: "Email", value: r => data(r).email || "" },
+  { key: "secondaryEmail", zh: "备用邮箱", en: "Secondary Email", default: false, value: r => data(r).secondaryEmail || "" },
+  { key: "emailStatus", zh: "邮箱状态", en: "Email Status", default: false, value: r => data(r).emailStatus || "" },
+  { key: "linkedinUrl", zh: "LinkedIn", en: "LinkedIn URL", value: r => data(r).linkedinUrl || data(r).linkedin_url || "" },
+  { key: "linkedinUsername", zh: "LinkedIn 用户名", en: "LinkedIn Username", default: false, value: r => data(r).linkedinUsername || "" },
+  { key: "twitter", zh: "Twitter", en: "Twitter", default: false, value: r => data(r).twitter || "" },
+  { key: "facebook", zh: "Facebook", en: "Facebook", default: false, value: r => data(r).facebook || "" },
+  { key: "verified", zh: "双验证", en: "Verified", value: r => r.verified ? "已验证" : "未验证" },
+  { key: "verificationSource", zh: "验证来源", en: "Verification Source", default: false, value: r => data(r).verificationSource || "" },
+  { key: "verificationScore", zh: "匹配分数", en: "Match Score", default: false, value: r => r.verificationScore?.toString() || "" },
+  { key: "verifiedAt", zh: "验证时间", en: "Verified At", default: false, value: r => data(r).verifiedAt || "" },
+  { key: "source", zh: "数据来源", en: "Source", value: () => "实时获取" },
+  { key: "createdAt", zh: "获取时间", en: "Retrieved At", value: r => formatDateTime(r.createdAt) },
+  { key: "searchName", zh: "搜索关键词", en: "Search Keyword", default: false, value: r => r.params?.name || "" },
+  { key: "searchTitle", zh: "搜索职位", en: "Search Title", default: false, value: r => r.params?.title || "" },
+  { key: "searchState", zh: "搜索地区", en: "Search State", default: false, value: r => r.params?.state || "" },
+];
+
+export const linkedinExporter: TaskExporter<SearchTask, LinkedinExportRow> = {
+  columns: COLUMNS,
+
+  getTask: getSearchTask,
+
+  isExportable: task => task.status !== "pending" && task.status !== "running",
+
+  createSource: task => {
+    const params = (task.params as any) || {};
+    const timestamp = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+    return {
+      filename: `DataReach_${params.name || "search"}_${params.state || "US"}_${timestamp}`,
+      fetchBatch: async (afterId, limit) =>
+        (await getSearchResultsAfter(task.id, afterId, limit)).map(r => ({ ...r, params })),
+      include: r => !!r.verified,
+    };
+  },
+
+  toLead: r => {
+    const d = data(r);
+    const fullName = d.fullName || d.name || "";
+    const split = splitName(fullName);
+    return {
+      firstName: d.firstName || d.first_name || split.firstName,
+      lastName: d.lastName || d.last_name || split.lastName,
+      fullName,
+      age: d.age,
+      address: d.fullAddress || "",
+      city: d.city || "",
+      state: d.state || "",
+      company: d.company || d.organization_name || "",
+      jobTitle: d.title || "",
+      linkedinUrl: d.linkedinUrl || d.linkedin_url || "",
+      phones: mergePhones(
+        (d.phone || d.phoneNumber) ? { number: d.phone || d.phoneNumber, type: d.phoneType } : null
+      ),
+      emails: mergeEmails(d.email, d.secondaryEmail),
+      source: "LinkedIn",
+    };
+  },
+};
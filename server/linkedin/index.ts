@@ -38,6 +38,7 @@ export type {
   PhoneNumber,
   ApifyLeadRaw,
   ApifySearchParams,
+  LinkedInSearchCriteria,
 } from './apify';
 
 export type {
@@ -51,6 +52,7 @@ export {
 } from './processor';
 
 export type {
+  SearchParamsSummary,
   SearchPreviewResult,
   SearchProgress,
   SearchStats,
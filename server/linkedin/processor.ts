@@ -18,10 +18,12 @@
   getUserCredits
 } from './db';
 import { createLinkedInRealtimeCreditTracker, LinkedInRealtimeCreditTracker } from './realtimeCredits';
-import { searchPeople as apifySearchPeople, LeadPerson } from './apify';
+import { searchPeople as apifySearchPeople, LeadPerson, LinkedInSearchCriteria } from './apify';
 import { brightdataSearchPeople } from './brightdata';
 import { verifyPhoneNumber, PersonToVerify, VerificationResult } from './scraper';
 import { getSearchCreditsConfig, CONFIG_KEYS } from './config';
+import { startTaskJob } from '../services/taskQueue';
+import { notifyTaskWebhooks } from '../services/webhookDispatcher';
 
 // 从主模块导入共享函数
 import { getUserById, logApi, getConfig, getDb } from '../db';
@@ -40,11 +42,7 @@ export interface SearchPreviewResult {
   canAfford: boolean;
   userCredits: number;
   maxAffordable: number;
-  searchParams: {
-    name: string;
-    title: string;
-    state: string;
-    limit: number;
+  searchParams: SearchParamsSummary & {
     ageMin?: number;
     ageMax?: number;
     mode?: 'fuzzy' | 'exact';
@@ -115,16 +113,28 @@ export interface SearchProgress {
   lastUpdateTime: number;
 }
 
+/**
+ * 任务参数、缓存中记录的搜索条件
+ *
+ * title / state 为多个职位、州以 ", " 连接的展示文本，完整条件在数组字段中
+ */
+export interface SearchParamsSummary {
+  name: string;
+  title: string;
+  state: string;
+  titles?: string[];
+  states?: string[];
+  industries?: string[];
+  companySizes?: string[];
+  keywords?: string[];
+  limit: number;
+}
+
 export interface SearchCacheData {
   data: LeadPerson[];
   totalAvailable: number;
   requestedCount: number;
-  searchParams: {
-    name: string;
-    title: string;
-    state: string;
-    limit: number;
-  };
+  searchParams: SearchParamsSummary;
   createdAt: string;
 }
 
@@ -143,11 +153,37 @@ const CACHE_FULFILLMENT_THRESHOLD = 0.8;
 
 // ============ 工具函数 ============
 
-function generateSearchHash(name: string, title: string, state: string, limit: number): string {
-  const normalized = `${name.toLowerCase().trim()}|${title.toLowerCase().trim()}|${state.toLowerCase().trim()}|${limit}`;
+/**
+ * 搜索条件哈希（任务去重和缓存键）
+ *
+ * 各列表去重、排序后参与计算，顺序不同的相同条件命中同一缓存。
+ * 没有行业、公司规模、关键词时与单职位单州的旧格式一致，已有缓存继续有效
+ */
+function generateSearchHash(criteria: LinkedInSearchCriteria, limit: number): string {
+  const list = (values: string[]) =>
+    Array.from(new Set(values.map(v => v.toLowerCase().trim()).filter(Boolean))).sort().join(',');
+  let normalized = `${criteria.name.toLowerCase().trim()}|${list(criteria.titles)}|${list(criteria.states)}|${limit}`;
+  const filters = [criteria.industries, criteria.companySizes, criteria.keywords];
+  if (filters.some(values => values.length > 0)) {
+    normalized += `|${filters.map(list).join('|')}`;
+  }
   return crypto.createHash('md5').update(normalized).digest('hex');
 }
 
+function summarizeCriteria(criteria: LinkedInSearchCriteria, limit: number): SearchParamsSummary {
+  return {
+    name: criteria.name,
+    title: criteria.titles.join(', '),
+    state: criteria.states.join(', '),
+    titles: criteria.titles,
+    states: criteria.states,
+    industries: criteria.industries,
+    companySizes: criteria.companySizes,
+    keywords: criteria.keywords,
+    limit,
+  };
+}
+
 function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
@@ -229,9 +265,7 @@ async function processBatches<T, R>(
 
 export async function previewSearch(
   userId: number,
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
+  criteria: LinkedInSearchCriteria,
   requestedCount: number = 100,
   ageMin?: number,
   ageMax?: number,
@@ -252,13 +286,13 @@ export async function previewSearch(
       canAfford: false,
       userCredits: 0,
       maxAffordable: 0,
-      searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount, ageMin, ageMax, mode },
+      searchParams: { ...summarizeCriteria(criteria, requestedCount), ageMin, ageMax, mode },
       cacheHit: false,
       message: '用户不存在'
     };
   }
 
-  const searchHash = generateSearchHash(searchName, searchTitle, searchState, requestedCount);
+  const searchHash = generateSearchHash(criteria, requestedCount);
   // 缓存键与 executeSearchV3 保持一致
   const cacheKey = `search:${mode}:${searchHash}`;
   const cached = mode === 'fuzzy' ? await getCacheByKey(cacheKey) : null;
@@ -277,7 +311,7 @@ export async function previewSearch(
         data: oldData,
         totalAvailable: oldData.length,
         requestedCount: requestedCount,
-        searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount },
+        searchParams: summarizeCriteria(criteria, requestedCount),
         createdAt: new Date().toISOString()
       };
     }
@@ -312,7 +346,7 @@ export async function previewSearch(
     canAfford,
     userCredits: userCreditsNum,
     maxAffordable: Math.max(0, maxAffordable),
-    searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount, ageMin, ageMax, mode },
+    searchParams: { ...summarizeCriteria(criteria, requestedCount), ageMin, ageMax, mode },
     cacheHit,
     message: cacheMessage,
   };
@@ -322,9 +356,7 @@ export async function previewSearch(
 
 export async function executeSearchV3(
   userId: number,
-  searchName: string,
-  searchTitle: string,
-  searchState: string,
+  criteria: LinkedInSearchCriteria,
   requestedCount: number = 100,
   ageMin?: number,
   ageMax?: number,
@@ -371,12 +403,9 @@ export async function executeSearchV3(
   const user = await getUserById(userId);
   if (!user) throw new Error('用户不存在');
 
-  const searchHash = generateSearchHash(searchName, searchTitle, searchState, requestedCount);
+  const searchHash = generateSearchHash(criteria, requestedCount);
   const params = { 
-    name: searchName, 
-    title: searchTitle, 
-    state: searchState,
-    limit: requestedCount,
+    ...summarizeCriteria(criteria, requestedCount),
     ageMin,
     ageMax,
     enableVerification,
@@ -402,6 +431,9 @@ export async function executeSearchV3(
     throw new Error(`积分不足，需要至少 ${currentSearchCredits} 积分开始搜索，当前余额 ${creditTracker.getCurrentBalance()} 积分`);
   }
 
+  // 持有任务租约：服务重启导致中断时由任务队列标记失败并对账
+  const lease = await startTaskJob({ source: 'linkedin', taskId: task.taskId, taskDbId: task.id, userId, payload: params });
+
   const progress: SearchProgress = {
     taskId: task.taskId,
     status: 'initializing',
@@ -451,7 +483,15 @@ export async function executeSearchV3(
     currentStep++;
     // 简洁日志：任务启动
     addLog(`🚀 LinkedIn 搜索任务启动`, 'success', 'init', '');
-    addLog(`📋 搜索: ${searchName} @ ${searchTitle} @ ${searchState} | ${requestedCount} 条`, 'info', 'init', '');
+    addLog(`📋 搜索: ${criteria.name} @ ${criteria.titles.join(' / ')} @ ${criteria.states.join(' / ')} | ${requestedCount} 条`, 'info', 'init', '');
+    const filterSummary = [
+      criteria.industries.length > 0 ? `行业 ${criteria.industries.join(' / ')}` : '',
+      criteria.companySizes.length > 0 ? `公司规模 ${criteria.companySizes.join(' / ')}` : '',
+      criteria.keywords.length > 0 ? `关键词 ${criteria.keywords.join(' / ')}` : '',
+    ].filter(Boolean).join(' | ');
+    if (filterSummary) {
+      addLog(`🏷️ 筛选: ${filterSummary}`, 'info', 'init', '');
+    }
     await updateProgress('初始化搜索任务', 'searching', 'init', 10);
 
     // ==================== 扣除搜索费 ====================
@@ -482,7 +522,7 @@ export async function executeSearchV3(
           data: oldData,
           totalAvailable: oldData.length,
           requestedCount: requestedCount,
-          searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount },
+          searchParams: summarizeCriteria(criteria, requestedCount),
           createdAt: new Date().toISOString()
         };
       }
@@ -507,7 +547,14 @@ export async function executeSearchV3(
         await updateProgress('调用 LinkedIn API', 'searching', 'search', 30);
         
         const apiStartTime = Date.now();
-        const apifyResult = await apifySearchPeople(searchName, searchTitle, searchState, requestedCount, userId);
+        const apifyResult = await apifySearchPeople({
+          jobTitles: criteria.titles,
+          locations: criteria.states,
+          industries: criteria.industries,
+          companySizes: criteria.companySizes,
+          keywords: criteria.keywords,
+          limit: requestedCount,
+        }, userId);
         const apiDuration = Date.now() - apiStartTime;
 
         if (!apifyResult.success || !apifyResult.people) {
@@ -522,7 +569,7 @@ export async function executeSearchV3(
           data: searchResults,
           totalAvailable: searchResults.length,
           requestedCount: requestedCount,
-          searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount },
+          searchParams: summarizeCriteria(criteria, requestedCount),
           createdAt: new Date().toISOString()
         };
         await setCache(cacheKey, newCacheData, 'search', 180);
@@ -531,7 +578,7 @@ export async function executeSearchV3(
         await updateProgress('调用精准搜索 API', 'searching', 'search', 30);
 
         const apiStartTime = Date.now();
-        searchResults = await brightdataSearchPeople(searchName, searchTitle, searchState, requestedCount);
+        searchResults = await brightdataSearchPeople(criteria, requestedCount);
         const apiDuration = Date.now() - apiStartTime;
 
         stats.apifyReturned = searchResults.length;
@@ -543,7 +590,7 @@ export async function executeSearchV3(
             data: searchResults,
             totalAvailable: searchResults.length,
             requestedCount: requestedCount,
-            searchParams: { name: searchName, title: searchTitle, state: searchState, limit: requestedCount },
+            searchParams: summarizeCriteria(criteria, requestedCount),
             createdAt: new Date().toISOString()
           };
           await setCache(cacheKey, exactCacheData, 'search', 1);
@@ -909,6 +956,16 @@ export async function executeSearchV3(
       progress: 100,
       completedAt: new Date()
     });
+    await lease.release('completed');
+    if (finalStatus !== 'stopped') {
+      await notifyTaskWebhooks(userId, {
+        source: 'linkedin',
+        taskId: task.taskId,
+        status: finalStatus,
+        totalResults: stats.totalResults,
+        creditsUsed: stats.creditsUsed,
+      });
+    }
 
     return getSearchTask(task.taskId);
 
@@ -936,6 +993,15 @@ export async function executeSearchV3(
       creditsUsed: stats.creditsUsed,
       completedAt: new Date()
     });
+    await lease.release('failed', error.message);
+    await notifyTaskWebhooks(userId, {
+      source: 'linkedin',
+      taskId: task.taskId,
+      status: 'failed',
+      totalResults: stats.totalResults,
+      creditsUsed: stats.creditsUsed,
+      errorMessage: error.message,
+    });
 
     return getSearchTask(task.taskId);
   }
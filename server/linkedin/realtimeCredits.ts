@@ -10,9 +10,7 @@
  * 4. 费用跟踪 - 跟踪本次任务的所有费用明细
  */
 
-import { getDb } from "../db";
-import { users, creditLogs } from "../../drizzle/schema";
-import { eq, sql } from "drizzle-orm";
+import { getAvailableCredits, deductSearchCredits } from "../organizations/credits";
 
 // ==================== 类型定义 ====================
 
@@ -92,17 +90,7 @@ export class LinkedInRealtimeCreditTracker {
    * 初始化跟踪器，获取当前余额
    */
   async initialize(): Promise<number> {
-    const database = await getDb();
-    if (!database) {
-      throw new Error("数据库连接失败");
-    }
-    
-    const result = await database
-      .select({ credits: users.credits })
-      .from(users)
-      .where(eq(users.id, this.userId));
-    
-    this.currentBalance = parseFloat(String(result[0]?.credits)) || 0;
+    this.currentBalance = await getAvailableCredits(this.userId);
     return this.currentBalance;
   }
   
@@ -216,64 +204,33 @@ export class LinkedInRealtimeCreditTracker {
     type: 'search' | 'data',
     count: number = 1
   ): Promise<CreditDeductionResult> {
-    const database = await getDb();
-    if (!database) {
-      return {
-        success: false,
-        newBalance: this.currentBalance,
-        deductedAmount: 0,
-        message: "数据库连接失败",
-      };
-    }
-    
     // 四舍五入到一位小数
     const roundedAmount = Math.round(amount * 10) / 10;
     
     try {
-      // 使用原子操作：检查并扣除
-      const updateResult = await database
-        .update(users)
-        .set({
-          credits: sql`${users.credits} - ${roundedAmount}`,
-        })
-        .where(
-          sql`${users.id} = ${this.userId} AND ${users.credits} >= ${roundedAmount}`
-        );
+      const description = type === 'search' 
+        ? `LinkedIn搜索费 [${this.taskId.substring(0, 8)}] - ${roundedAmount} 积分`
+        : `LinkedIn数据 [${this.taskId.substring(0, 8)}] - ${count}条 × ${this.dataCostPerPerson} = ${roundedAmount} 积分`;
+      
+      // 原子扣除（团队成员从团队积分池扣除），并记录扣费日志
+      const deduction = await deductSearchCredits(this.userId, roundedAmount, {
+        description,
+        relatedTaskId: this.taskId,
+      });
       
-      // 检查是否成功更新
-      if ((updateResult as any).rowsAffected === 0 || (updateResult as any).affectedRows === 0) {
+      if (!deduction.success) {
         // 扣除失败，余额不足
-        await this.refreshBalance();
+        this.currentBalance = deduction.newBalance;
         this.stop(`积分不足，需要 ${roundedAmount} 积分，当前余额 ${this.currentBalance} 积分`);
         return {
           success: false,
           newBalance: this.currentBalance,
           deductedAmount: 0,
-          message: `积分不足`,
+          message: deduction.message,
         };
       }
       
-      // 获取新余额
-      const newBalanceResult = await database
-        .select({ credits: users.credits })
-        .from(users)
-        .where(eq(users.id, this.userId));
-      
-      const newBalance = parseFloat(String(newBalanceResult[0]?.credits)) || 0;
-      
-      // 记录扣费日志
-      const description = type === 'search' 
-        ? `LinkedIn搜索费 [${this.taskId.substring(0, 8)}] - ${roundedAmount} 积分`
-        : `LinkedIn数据 [${this.taskId.substring(0, 8)}] - ${count}条 × ${this.dataCostPerPerson} = ${roundedAmount} 积分`;
-      
-      await database.insert(creditLogs).values({
-        userId: this.userId,
-        amount: -roundedAmount,
-        balanceAfter: newBalance,
-        type: "search",
-        description,
-        relatedTaskId: this.taskId,
-      });
+      const newBalance = deduction.newBalance;
       
       // 更新统计
       this.currentBalance = newBalance;
@@ -303,15 +260,11 @@ export class LinkedInRealtimeCreditTracker {
    * 刷新余额
    */
   private async refreshBalance(): Promise<void> {
-    const database = await getDb();
-    if (!database) return;
-    
-    const result = await database
-      .select({ credits: users.credits })
-      .from(users)
-      .where(eq(users.id, this.userId));
-    
-    this.currentBalance = parseFloat(String(result[0]?.credits)) || 0;
+    try {
+      this.currentBalance = await getAvailableCredits(this.userId);
+    } catch {
+      // 数据库暂时不可用时保留上次余额
+    }
   }
   
   /**
@@ -68,6 +68,25 @@ export interface VerificationResult {
   apiError?: ApiErrorType; // 新增：API 错误类型
 }
 
+/** 电话反查得到的号码主人信息 */
+export interface PhoneOwner {
+  name: string;
+  age?: number;
+  city?: string;
+  state?: string;
+  phoneType?: 'mobile' | 'landline' | 'voip' | 'unknown';
+  carrier?: string;
+}
+
+export interface PhoneOwnerLookupResult {
+  found: boolean;
+  source: 'TruePeopleSearch' | 'FastPeopleSearch' | 'none';
+  owner?: PhoneOwner;
+  apiError?: ApiErrorType;
+}
+
+type ReverseLookupSite = 'TruePeopleSearch' | 'FastPeopleSearch';
+
 export interface PersonToVerify {
   firstName: string;
   lastName: string;
@@ -174,26 +193,33 @@ function formatPhoneWithDashes(phone: string): string {
 }
 
 /**
- * 第一阶段验证：使用 TruePeopleSearch 进行电话号码反向搜索
- * URL 格式：https://www.truepeoplesearch.com/resultphone?phoneno=4155480165
- * 支持重试机制
+ * 抓取电话号码反向搜索页面
+ * - TruePeopleSearch：https://www.truepeoplesearch.com/resultphone?phoneno=4155480165
+ * - FastPeopleSearch：https://www.fastpeoplesearch.com/415-548-0165（带连字符）
+ * 支持重试机制，失败时返回 API 错误类型
  */
-export async function verifyWithTruePeopleSearch(person: PersonToVerify, userId?: number, threshold: number = DEFAULT_VERIFICATION_THRESHOLD): Promise<VerificationResult> {
+async function fetchReversePhonePage(
+  site: ReverseLookupSite,
+  phone: string,
+  userId?: number
+): Promise<{ html?: string; apiError?: ApiErrorType }> {
   const token = await getScrapeDoToken();
-  const cleanPhone = person.phone.replace(/\D/g, '');
-  const targetUrl = `https://www.truepeoplesearch.com/resultphone?phoneno=${cleanPhone}`;
-
-  console.log(`[Scraper] TruePeopleSearch reverse lookup for phone: ${cleanPhone}`);
+  const isTps = site === 'TruePeopleSearch';
+  const lookupPhone = isTps ? phone.replace(/\D/g, '') : formatPhoneWithDashes(phone);
+  const targetUrl = isTps
+    ? `https://www.truepeoplesearch.com/resultphone?phoneno=${lookupPhone}`
+    : `https://www.fastpeoplesearch.com/${lookupPhone}`;
+  const apiType = isTps ? 'scrape_tps' : 'scrape_fps';
+
+  console.log(`[Scraper] ${site} reverse lookup for phone: ${lookupPhone}`);
   console.log(`[Scraper] Target URL: ${targetUrl}`);
 
-  let lastError: any = null;
-  
   for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
     const startTime = Date.now();
     
     try {
       if (attempt > 0) {
-        console.log(`[Scraper] TruePeopleSearch retry attempt ${attempt}/${RETRY_CONFIG.maxRetries}`);
+        console.log(`[Scraper] ${site} retry attempt ${attempt}/${RETRY_CONFIG.maxRetries}`);
         await delay(RETRY_CONFIG.retryDelay);
       }
       
@@ -215,20 +241,15 @@ export async function verifyWithTruePeopleSearch(person: PersonToVerify, userId?
       const responseTime = Date.now() - startTime;
       const html = response.data;
       
-      console.log(`[Scraper] TruePeopleSearch response received, length: ${html.length}`);
-      
-      const result = parseTruePeopleSearchReverseResult(html, person, threshold);
-
-      await logApi('scrape_tps', targetUrl, { phone: cleanPhone, attempt }, response.status, responseTime, true, undefined, 0, userId);
+      console.log(`[Scraper] ${site} response received, length: ${html.length}`);
 
-      console.log(`[Scraper] TruePeopleSearch result: verified=${result.verified}, score=${result.matchScore}, age=${result.details?.age}, name=${result.details?.name}`);
+      await logApi(apiType, targetUrl, { phone: lookupPhone, attempt }, response.status, responseTime, true, undefined, 0, userId);
 
-      return result;
+      return { html };
     } catch (error: any) {
       const responseTime = Date.now() - startTime;
-      lastError = error;
       
-      console.error(`[Scraper] TruePeopleSearch error (attempt ${attempt + 1}):`, error.message);
+      console.error(`[Scraper] ${site} error (attempt ${attempt + 1}):`, error.message);
       
       // 如果是可重试的错误且还有重试次数，继续重试
       if (isRetryableError(error) && attempt < RETRY_CONFIG.maxRetries) {
@@ -239,100 +260,77 @@ export async function verifyWithTruePeopleSearch(person: PersonToVerify, userId?
       // 检查是否是积分耗尽错误
       const apiError = getApiErrorType(error);
       if (apiError === 'INSUFFICIENT_CREDITS') {
-        console.error(`[Scraper] TruePeopleSearch API credits exhausted!`);
-        await logApi('scrape_tps', targetUrl, { phone: cleanPhone, attempt, apiError }, 401, responseTime, false, 'API credits exhausted', 0, userId);
-        return { verified: false, source: 'TruePeopleSearch', matchScore: 0, apiError: 'INSUFFICIENT_CREDITS' };
+        console.error(`[Scraper] ${site} API credits exhausted!`);
+        await logApi(apiType, targetUrl, { phone: lookupPhone, attempt, apiError }, 401, responseTime, false, 'API credits exhausted', 0, userId);
+        return { apiError };
       }
       
       // 不可重试或已用完重试次数
-      await logApi('scrape_tps', targetUrl, { phone: cleanPhone, attempt, retried: attempt > 0 }, error.response?.status || 0, responseTime, false, error.message, 0, userId);
-      return { verified: false, source: 'TruePeopleSearch', matchScore: 0, apiError };
+      await logApi(apiType, targetUrl, { phone: lookupPhone, attempt, retried: attempt > 0 }, error.response?.status || 0, responseTime, false, error.message, 0, userId);
+      return { apiError };
     }
   }
   
   // 所有重试都失败
-  return { verified: false, source: 'TruePeopleSearch', matchScore: 0 };
+  return {};
 }
 
 /**
- * 第二阶段验证：使用 FastPeopleSearch 进行电话号码反向搜索
- * URL 格式：https://www.fastpeoplesearch.com/415-548-0165（带连字符）
- * 支持重试机制
+ * 第一阶段验证：使用 TruePeopleSearch 进行电话号码反向搜索
  */
-export async function verifyWithFastPeopleSearch(person: PersonToVerify, userId?: number, threshold: number = DEFAULT_VERIFICATION_THRESHOLD): Promise<VerificationResult> {
-  const token = await getScrapeDoToken();
-  const formattedPhone = formatPhoneWithDashes(person.phone);
-  const targetUrl = `https://www.fastpeoplesearch.com/${formattedPhone}`;
-
-  console.log(`[Scraper] FastPeopleSearch reverse lookup for phone: ${formattedPhone}`);
-  console.log(`[Scraper] Target URL: ${targetUrl}`);
+export async function verifyWithTruePeopleSearch(person: PersonToVerify, userId?: number, threshold: number = DEFAULT_VERIFICATION_THRESHOLD): Promise<VerificationResult> {
+  const page = await fetchReversePhonePage('TruePeopleSearch', person.phone, userId);
+  if (!page.html) {
+    return { verified: false, source: 'TruePeopleSearch', matchScore: 0, apiError: page.apiError };
+  }
 
-  let lastError: any = null;
-  
-  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
-    const startTime = Date.now();
-    
-    try {
-      if (attempt > 0) {
-        console.log(`[Scraper] FastPeopleSearch retry attempt ${attempt}/${RETRY_CONFIG.maxRetries}`);
-        await delay(RETRY_CONFIG.retryDelay);
-      }
-      
-      const response = await axios.get(SCRAPE_DO_BASE, {
-        params: { 
-          token, 
-          url: targetUrl, 
-          super: true,                              // 使用住宅/移动代理
-          geoCode: 'us',                            // 美国地区
-          render: SCRAPE_DO_CONFIG.render,          // 启用渲染
-          timeout: SCRAPE_DO_CONFIG.timeout,        // 15秒超时
-          noRetry: SCRAPE_DO_CONFIG.noRetry,        // 禁用重试
-          waitUntil: SCRAPE_DO_CONFIG.waitUntil,    // DOM加载完成即返回
-          blockResources: SCRAPE_DO_CONFIG.blockResources, // 阻止加载不必要资源
-        },
-        timeout: 20000,  // axios 超时 20 秒
-      });
+  const result = parseTruePeopleSearchReverseResult(page.html, person, threshold);
+  console.log(`[Scraper] TruePeopleSearch result: verified=${result.verified}, score=${result.matchScore}, age=${result.details?.age}, name=${result.details?.name}`);
+  return result;
+}
 
-      const responseTime = Date.now() - startTime;
-      const html = response.data;
-      
-      console.log(`[Scraper] FastPeopleSearch response received, length: ${html.length}`);
-      
-      const result = parseFastPeopleSearchReverseResult(html, person, threshold);
+/**
+ * 第二阶段验证：使用 FastPeopleSearch 进行电话号码反向搜索
+ */
+export async function verifyWithFastPeopleSearch(person: PersonToVerify, userId?: number, threshold: number = DEFAULT_VERIFICATION_THRESHOLD): Promise<VerificationResult> {
+  const page = await fetchReversePhonePage('FastPeopleSearch', person.phone, userId);
+  if (!page.html) {
+    return { verified: false, source: 'FastPeopleSearch', matchScore: 0, apiError: page.apiError };
+  }
 
-      await logApi('scrape_fps', targetUrl, { phone: formattedPhone, attempt }, response.status, responseTime, true, undefined, 0, userId);
+  const result = parseFastPeopleSearchReverseResult(page.html, person, threshold);
+  console.log(`[Scraper] FastPeopleSearch result: verified=${result.verified}, score=${result.matchScore}, age=${result.details?.age}, name=${result.details?.name}`);
+  return result;
+}
 
-      console.log(`[Scraper] FastPeopleSearch result: verified=${result.verified}, score=${result.matchScore}, age=${result.details?.age}, name=${result.details?.name}`);
+/**
+ * 电话号码反查：不需要已知姓名，直接取页面列出的号码主人
+ * 先查 TruePeopleSearch，未找到主人再查 FastPeopleSearch
+ */
+export async function lookupPhoneOwner(phone: string, userId?: number): Promise<PhoneOwnerLookupResult> {
+  let apiError: ApiErrorType | undefined;
+
+  for (const site of ['TruePeopleSearch', 'FastPeopleSearch'] as const) {
+    const page = await fetchReversePhonePage(site, phone, userId);
+    if (!page.html) {
+      apiError = page.apiError;
+      // API 积分耗尽时不再尝试下一个站点
+      if (apiError === 'INSUFFICIENT_CREDITS') break;
+      continue;
+    }
 
-      return result;
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
-      lastError = error;
-      
-      console.error(`[Scraper] FastPeopleSearch error (attempt ${attempt + 1}):`, error.message);
-      
-      // 如果是可重试的错误且还有重试次数，继续重试
-      if (isRetryableError(error) && attempt < RETRY_CONFIG.maxRetries) {
-        console.log(`[Scraper] Error is retryable, will retry after ${RETRY_CONFIG.retryDelay}ms`);
-        continue;
-      }
-      
-      // 检查是否是积分耗尽错误
-      const apiError = getApiErrorType(error);
-      if (apiError === 'INSUFFICIENT_CREDITS') {
-        console.error(`[Scraper] FastPeopleSearch API credits exhausted!`);
-        await logApi('scrape_fps', targetUrl, { phone: formattedPhone, attempt, apiError }, 401, responseTime, false, 'API credits exhausted', 0, userId);
-        return { verified: false, source: 'FastPeopleSearch', matchScore: 0, apiError: 'INSUFFICIENT_CREDITS' };
-      }
-      
-      // 不可重试或已用完重试次数
-      await logApi('scrape_fps', targetUrl, { phone: formattedPhone, attempt, retried: attempt > 0 }, error.response?.status || 0, responseTime, false, error.message, 0, userId);
-      return { verified: false, source: 'FastPeopleSearch', matchScore: 0, apiError };
+    const owner = site === 'TruePeopleSearch'
+      ? parseTruePeopleSearchOwner(page.html)
+      : parseFastPeopleSearchOwner(page.html);
+    if (owner) {
+      console.log(`[Scraper] ${site} owner found: name=${owner.name}, age=${owner.age}, location=${owner.city}, ${owner.state}`);
+      return { found: true, source: site, owner };
     }
+    // 页面正常返回但没有主人信息，以该站点结果为准，不视为错误
+    apiError = undefined;
   }
-  
-  // 所有重试都失败
-  return { verified: false, source: 'FastPeopleSearch', matchScore: 0 };
+
+  return { found: false, source: 'none', apiError };
 }
 
 /**
@@ -400,17 +398,7 @@ function parseTruePeopleSearchReverseResult(html: string, person: PersonToVerify
   try {
     let score = 0;
 
-    // 提取页面中的所有姓名（从 content-header）
-    const nameMatches = html.match(/<div[^>]*class="content-header"[^>]*>([^<]+)<\/div>/gi);
-    const foundNames: string[] = [];
-    if (nameMatches) {
-      for (const match of nameMatches) {
-        const nameMatch = match.match(/>([^<]+)</);
-        if (nameMatch) {
-          foundNames.push(nameMatch[1].trim());
-        }
-      }
-    }
+    const foundNames = extractTruePeopleSearchNames(html);
     
     console.log(`[Scraper] TPS found names: ${foundNames.join(', ')}`);
 
@@ -438,21 +426,7 @@ function parseTruePeopleSearchReverseResult(html: string, person: PersonToVerify
 
     result.details!.name = matchedName;
 
-    // 提取年龄
-    // 格式：<span class="">Age </span><span class="content-value">48</span>
-    const agePattern = /Age\s*<\/span>\s*<span[^>]*class="content-value"[^>]*>\s*(\d+)\s*<\/span>/i;
-    const ageMatch = html.match(agePattern);
-    
-    if (!ageMatch) {
-      // 备用模式
-      const agePattern2 = /Age[:\s]*(\d{2,3})/i;
-      const ageMatch2 = html.match(agePattern2);
-      if (ageMatch2) {
-        result.details!.age = parseInt(ageMatch2[1], 10);
-      }
-    } else {
-      result.details!.age = parseInt(ageMatch[1], 10);
-    }
+    result.details!.age = extractTruePeopleSearchAge(html);
 
     if (result.details!.age) {
       console.log(`[Scraper] TPS Age found: ${result.details!.age}`);
@@ -532,30 +506,7 @@ function parseFastPeopleSearchReverseResult(html: string, person: PersonToVerify
       console.log(`[Scraper] FPS Title: ${titleMatch[1]}`);
     }
 
-    // 提取姓名（从 span.larger）
-    const nameMatches = html.match(/<span[^>]*class="larger"[^>]*>([^<]+)<\/span>/gi);
-    const foundNames: string[] = [];
-    if (nameMatches) {
-      for (const match of nameMatches) {
-        const nameMatch = match.match(/>([^<]+)</);
-        if (nameMatch) {
-          foundNames.push(nameMatch[1].trim());
-        }
-      }
-    }
-    
-    // 备用：从 card-title 提取
-    if (foundNames.length === 0) {
-      const cardTitleMatches = html.match(/<h2[^>]*class="card-title"[^>]*>[\s\S]*?<\/h2>/gi);
-      if (cardTitleMatches) {
-        for (const match of cardTitleMatches) {
-          const nameMatch = match.match(/<span[^>]*>([^<]+)<\/span>/);
-          if (nameMatch) {
-            foundNames.push(nameMatch[1].trim());
-          }
-        }
-      }
-    }
+    const foundNames = extractFastPeopleSearchNames(html);
 
     console.log(`[Scraper] FPS found names: ${foundNames.join(', ')}`);
 
@@ -583,21 +534,7 @@ function parseFastPeopleSearchReverseResult(html: string, person: PersonToVerify
 
     result.details!.name = matchedName;
 
-    // 提取年龄
-    // 格式：<h3>Age:</h3> 48<br>
-    const agePattern = /<h3>Age:<\/h3>\s*(\d+)/i;
-    const ageMatch = html.match(agePattern);
-    
-    if (!ageMatch) {
-      // 备用模式
-      const agePattern2 = /Age[:\s]*(\d{2,3})/i;
-      const ageMatch2 = html.match(agePattern2);
-      if (ageMatch2) {
-        result.details!.age = parseInt(ageMatch2[1], 10);
-      }
-    } else {
-      result.details!.age = parseInt(ageMatch[1], 10);
-    }
+    result.details!.age = extractFastPeopleSearchAge(html);
 
     if (result.details!.age) {
       console.log(`[Scraper] FPS Age found: ${result.details!.age}`);
@@ -657,6 +594,140 @@ function parseFastPeopleSearchReverseResult(html: string, person: PersonToVerify
   return result;
 }
 
+// ==================== 页面字段提取 ====================
+
+/** 提取 TruePeopleSearch 页面中的所有姓名（content-header） */
+function extractTruePeopleSearchNames(html: string): string[] {
+  const names: string[] = [];
+  const nameMatches = html.match(/<div[^>]*class="content-header"[^>]*>([^<]+)<\/div>/gi);
+  if (nameMatches) {
+    for (const match of nameMatches) {
+      const nameMatch = match.match(/>([^<]+)</);
+      if (nameMatch) {
+        names.push(nameMatch[1].trim());
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * 提取 TruePeopleSearch 页面中的第一个年龄
+ * 格式：<span class="">Age </span><span class="content-value">48</span>
+ */
+function extractTruePeopleSearchAge(html: string): number | undefined {
+  const ageMatch = html.match(/Age\s*<\/span>\s*<span[^>]*class="content-value"[^>]*>\s*(\d+)\s*<\/span>/i)
+    // 备用模式
+    || html.match(/Age[:\s]*(\d{2,3})/i);
+  return ageMatch ? parseInt(ageMatch[1], 10) : undefined;
+}
+
+/** 提取 FastPeopleSearch 页面中的所有姓名（span.larger，备用 card-title） */
+function extractFastPeopleSearchNames(html: string): string[] {
+  const names: string[] = [];
+  const nameMatches = html.match(/<span[^>]*class="larger"[^>]*>([^<]+)<\/span>/gi);
+  if (nameMatches) {
+    for (const match of nameMatches) {
+      const nameMatch = match.match(/>([^<]+)</);
+      if (nameMatch) {
+        names.push(nameMatch[1].trim());
+      }
+    }
+  }
+  
+  // 备用：从 card-title 提取
+  if (names.length === 0) {
+    const cardTitleMatches = html.match(/<h2[^>]*class="card-title"[^>]*>[\s\S]*?<\/h2>/gi);
+    if (cardTitleMatches) {
+      for (const match of cardTitleMatches) {
+        const nameMatch = match.match(/<span[^>]*>([^<]+)<\/span>/);
+        if (nameMatch) {
+          names.push(nameMatch[1].trim());
+        }
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * 提取 FastPeopleSearch 页面中的第一个年龄
+ * 格式：<h3>Age:</h3> 48<br>
+ */
+function extractFastPeopleSearchAge(html: string): number | undefined {
+  const ageMatch = html.match(/<h3>Age:<\/h3>\s*(\d+)/i)
+    // 备用模式
+    || html.match(/Age[:\s]*(\d{2,3})/i);
+  return ageMatch ? parseInt(ageMatch[1], 10) : undefined;
+}
+
+/** 解析 "City, ST" 格式的地点 */
+function parseCityState(text: string): { city: string; state: string } | null {
+  const match = text.trim().match(/^([A-Za-z .'-]+),\s*([A-Z]{2})$/);
+  return match ? { city: match[1].trim(), state: match[2] } : null;
+}
+
+/** 检测电话类型和运营商（页面中的 Carrier / Provider 字段） */
+function extractPhoneLine(html: string): Pick<PhoneOwner, 'phoneType' | 'carrier'> {
+  let phoneType: PhoneOwner['phoneType'] = 'unknown';
+  if (/wireless|mobile|cell/i.test(html)) phoneType = 'mobile';
+  else if (/landline/i.test(html)) phoneType = 'landline';
+  else if (/voip/i.test(html)) phoneType = 'voip';
+
+  const carrierMatch = html.match(/(?:Carrier|Provider)\s*:?\s*(?:<[^>]+>\s*)*([A-Za-z0-9&.,' -]{2,60}?)\s*</i);
+  return { phoneType, carrier: carrierMatch ? carrierMatch[1].trim() : undefined };
+}
+
+/**
+ * 解析 TruePeopleSearch 反查页面中的号码主人（页面列出的第一个人）
+ * 地点取第一个 "City, ST" 格式的 content-value
+ */
+function parseTruePeopleSearchOwner(html: string): PhoneOwner | null {
+  try {
+    const name = extractTruePeopleSearchNames(html)[0];
+    if (!name) return null;
+
+    const owner: PhoneOwner = { name, age: extractTruePeopleSearchAge(html), ...extractPhoneLine(html) };
+    const values = html.match(/<span[^>]*class="content-value"[^>]*>([^<]+)<\/span>/gi) || [];
+    for (const value of values) {
+      const location = parseCityState(value.replace(/<[^>]+>/g, ''));
+      if (location) {
+        owner.city = location.city;
+        owner.state = location.state;
+        break;
+      }
+    }
+    return owner;
+  } catch (error) {
+    console.error('[Scraper] Error parsing TruePeopleSearch owner:', error);
+    return null;
+  }
+}
+
+/**
+ * 解析 FastPeopleSearch 反查页面中的号码主人
+ * 地点优先取标题 "(415)548-0165 | John Coughlan in Washington, DC | ..."，其次取 span.grey
+ */
+function parseFastPeopleSearchOwner(html: string): PhoneOwner | null {
+  try {
+    const name = extractFastPeopleSearchNames(html)[0];
+    if (!name) return null;
+
+    const owner: PhoneOwner = { name, age: extractFastPeopleSearchAge(html), ...extractPhoneLine(html) };
+    const titleMatch = html.match(/<title>[^|<]*\|[^|<]*? in ([^|<]+?)\s*\|/i);
+    const greyMatch = html.match(/<span[^>]*class="grey"[^>]*>([^<]+)<\/span>/i);
+    const location = (titleMatch && parseCityState(titleMatch[1])) || (greyMatch && parseCityState(greyMatch[1]));
+    if (location) {
+      owner.city = location.city;
+      owner.state = location.state;
+    }
+    return owner;
+  } catch (error) {
+    console.error('[Scraper] Error parsing FastPeopleSearch owner:', error);
+    return null;
+  }
+}
+
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
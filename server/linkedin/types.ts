@@ -19,6 +19,11 @@ export interface SearchPreviewResult {
     name: string;
     title: string;
     state: string;
+    titles?: string[];
+    states?: string[];
+    industries?: string[];
+    companySizes?: string[];
+    keywords?: string[];
     limit: number;
     ageMin?: number;
     ageMax?: number;
@@ -106,6 +111,11 @@ export interface SearchCacheData {
     name: string;
     title: string;
     state: string;
+    titles?: string[];
+    states?: string[];
+    industries?: string[];
+    companySizes?: string[];
+    keywords?: string[];
     limit: number;
   };
   createdAt: string;
@@ -121,8 +131,11 @@ export interface SearchParams {
   userId: number;
   taskId: string;
   name: string;
-  title: string;
-  state: string;
+  titles: string[];
+  states: string[];
+  industries: string[];
+  companySizes: string[];
+  keywords: string[];
   limit: number;
   ageMin?: number;
   ageMax?: number;
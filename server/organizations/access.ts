@@ -0,0 +1,50 @@
+/**
+ * 团队内的任务访问权限
+ *
+ * 同一团队的成员可以查看、导出彼此的任务；停止、继续他人的任务需要所有者或管理员角色；
+ * 只读成员（viewer）不能发起搜索
+ */
+
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../_core/trpc";
+import { getMembership, getOrganizationUserIds } from "./db";
+
+/**
+ * 获取用户可查看其任务的用户ID（未加入团队时只有自己）
+ */
+export async function getTeamUserIds(userId: number): Promise<number[]> {
+  const membership = await getMembership(userId);
+  if (!membership) return [userId];
+  return getOrganizationUserIds(membership.organization.id);
+}
+
+/**
+ * 是否可以查看某用户的任务和结果
+ */
+export async function canViewUserResource(viewerId: number, ownerId: number): Promise<boolean> {
+  if (viewerId === ownerId) return true;
+  const [viewer, owner] = await Promise.all([getMembership(viewerId), getMembership(ownerId)]);
+  return !!viewer && !!owner && viewer.organization.id === owner.organization.id;
+}
+
+/**
+ * 是否可以停止、继续某用户的任务
+ */
+export async function canManageUserResource(actorId: number, ownerId: number): Promise<boolean> {
+  if (actorId === ownerId) return true;
+  const [actor, owner] = await Promise.all([getMembership(actorId), getMembership(ownerId)]);
+  return !!actor && !!owner &&
+    actor.organization.id === owner.organization.id &&
+    (actor.member.role === "owner" || actor.member.role === "admin");
+}
+
+/**
+ * 发起搜索的过程：只读成员无权消费积分
+ */
+export const searchProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  const membership = await getMembership(ctx.user.id);
+  if (membership?.member.role === "viewer") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "只读成员不能发起搜索，请联系团队管理员" });
+  }
+  return next();
+});
@@ -0,0 +1,234 @@
+/**
+ * 搜索扣费账户
+ *
+ * 已加入团队的用户从团队积分池扣费（受成员每月上限约束），否则从个人余额扣费。
+ * 各数据源的实时积分跟踪器与下单前的余额检查都通过这里，保证口径一致；
+ * 任务中断退款也按原扣费日志退回对应账户
+ */
+
+import { getDb, addCredits } from "../db";
+import { users, creditLogs, organizations, OrganizationRole } from "../../drizzle/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+import { getMembership, getMemberMonthlyUsage } from "./db";
+
+export interface CreditAccount {
+  /** 团队ID，未加入团队时为 null */
+  orgId: number | null;
+  role: OrganizationRole | null;
+  /** 本次可用于搜索的积分 */
+  available: number;
+  personalCredits: number;
+  poolCredits: number | null;
+  monthlyCreditCap: number | null;
+  usedThisMonth: number;
+}
+
+export interface SearchCreditDeduction {
+  success: boolean;
+  /** 扣除后的可用积分 */
+  newBalance: number;
+  message: string;
+}
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+const toNumber = (value: unknown) => parseFloat(String(value)) || 0;
+
+/**
+ * 获取用户的扣费账户
+ *
+ * 团队成员的可用积分 = min(积分池余额, 每月上限 - 本月已用)；只读成员不能消费积分
+ */
+export async function getCreditAccount(userId: number): Promise<CreditAccount> {
+  const database = await db();
+  const [userRows, membership] = await Promise.all([
+    database.select({ credits: users.credits }).from(users).where(eq(users.id, userId)),
+    getMembership(userId),
+  ]);
+  const personalCredits = toNumber(userRows[0]?.credits);
+
+  if (!membership) {
+    return {
+      orgId: null,
+      role: null,
+      available: personalCredits,
+      personalCredits,
+      poolCredits: null,
+      monthlyCreditCap: null,
+      usedThisMonth: 0,
+    };
+  }
+
+  const { member, organization } = membership;
+  const poolCredits = toNumber(organization.credits);
+  const monthlyCreditCap = member.monthlyCreditCap === null ? null : toNumber(member.monthlyCreditCap);
+  const usedThisMonth = await getMemberMonthlyUsage(organization.id, userId);
+
+  let available = member.role === "viewer" ? 0 : poolCredits;
+  if (monthlyCreditCap !== null) {
+    available = Math.min(available, Math.max(0, monthlyCreditCap - usedThisMonth));
+  }
+
+  return {
+    orgId: organization.id,
+    role: member.role,
+    available: Math.round(available * 100) / 100,
+    personalCredits,
+    poolCredits,
+    monthlyCreditCap,
+    usedThisMonth,
+  };
+}
+
+/**
+ * 获取用户当前可用于搜索的积分
+ */
+export async function getAvailableCredits(userId: number): Promise<number> {
+  return (await getCreditAccount(userId)).available;
+}
+
+/**
+ * 扣除搜索费用并记录积分日志
+ *
+ * 余额使用条件更新原子扣除；每月上限在扣除前检查，并发任务可能让成员略微超出上限
+ */
+export async function deductSearchCredits(
+  userId: number,
+  amount: number,
+  log: { description: string; relatedTaskId?: string }
+): Promise<SearchCreditDeduction> {
+  const database = await db();
+  const account = await getCreditAccount(userId);
+
+  if (account.available < amount) {
+    return { success: false, newBalance: account.available, message: "积分不足" };
+  }
+
+  if (account.orgId === null) {
+    const result = await database
+      .update(users)
+      .set({ credits: sql`${users.credits} - ${amount}` })
+      .where(and(eq(users.id, userId), gte(users.credits, amount.toFixed(2))));
+    if (result[0].affectedRows === 0) {
+      return { success: false, newBalance: await getAvailableCredits(userId), message: "积分不足" };
+    }
+
+    const [row] = await database.select({ credits: users.credits }).from(users).where(eq(users.id, userId));
+    const balance = toNumber(row?.credits);
+    await database.insert(creditLogs).values({
+      userId,
+      amount: (-amount).toFixed(2),
+      balanceAfter: balance.toFixed(2),
+      type: "search",
+      description: log.description,
+      relatedTaskId: log.relatedTaskId,
+    });
+    return { success: true, newBalance: balance, message: "扣除成功" };
+  }
+
+  const orgId = account.orgId;
+  const result = await database
+    .update(organizations)
+    .set({ credits: sql`${organizations.credits} - ${amount}` })
+    .where(and(eq(organizations.id, orgId), gte(organizations.credits, amount.toFixed(2))));
+  if (result[0].affectedRows === 0) {
+    return { success: false, newBalance: await getAvailableCredits(userId), message: "团队积分不足" };
+  }
+
+  const [row] = await database
+    .select({ credits: organizations.credits })
+    .from(organizations)
+    .where(eq(organizations.id, orgId));
+  const poolBalance = toNumber(row?.credits);
+  await database.insert(creditLogs).values({
+    userId,
+    amount: (-amount).toFixed(2),
+    balanceAfter: poolBalance.toFixed(2),
+    type: "search",
+    description: `[团队] ${log.description}`,
+    relatedTaskId: log.relatedTaskId,
+    orgId,
+  });
+
+  const capLeft = account.monthlyCreditCap === null
+    ? poolBalance
+    : account.monthlyCreditCap - account.usedThisMonth - amount;
+  return {
+    success: true,
+    newBalance: Math.round(Math.max(0, Math.min(poolBalance, capLeft)) * 100) / 100,
+    message: "扣除成功",
+  };
+}
+
+/**
+ * 退还任务扣费，退回原扣费所在的账户
+ *
+ * 按任务的积分日志（since 之后）分别汇总个人余额与团队积分池的净扣费，最多退还 amount；
+ * 团队部分退回积分池并记录带 orgId 的退款日志，从成员本月用量中抵扣。
+ * 成员已退出团队时同样退回团队积分池；团队已解散时不再退还（积分池余额已退回所有者）
+ *
+ * @returns 实际退还的积分
+ */
+export async function refundTaskCharges(
+  userId: number,
+  taskId: string,
+  amount: number,
+  description: string,
+  since?: Date
+): Promise<number> {
+  if (amount <= 0) return 0;
+  const database = await db();
+  const conditions = [eq(creditLogs.userId, userId), eq(creditLogs.relatedTaskId, taskId)];
+  if (since) {
+    conditions.push(gte(creditLogs.createdAt, since));
+  }
+  const charges = await database
+    .select({ orgId: creditLogs.orgId, total: sql<string>`COALESCE(SUM(${creditLogs.amount}), 0)` })
+    .from(creditLogs)
+    .where(and(...conditions))
+    .groupBy(creditLogs.orgId);
+
+  let remaining = Math.round(amount * 100) / 100;
+  let refunded = 0;
+  for (const charge of charges) {
+    const refund = Math.min(Math.round(-toNumber(charge.total) * 100) / 100, remaining);
+    if (refund <= 0) continue;
+
+    if (charge.orgId === null) {
+      await addCredits(userId, refund, "refund", description, undefined, taskId);
+    } else {
+      const orgId = charge.orgId;
+      const result = await database
+        .update(organizations)
+        .set({ credits: sql`${organizations.credits} + ${refund}` })
+        .where(eq(organizations.id, orgId));
+      if (result[0].affectedRows === 0) {
+        console.warn(`[团队积分] 团队 ${orgId} 已解散，任务 ${taskId} 的 ${refund.toFixed(2)} 积分不再退还`);
+        continue;
+      }
+      const [row] = await database
+        .select({ credits: organizations.credits })
+        .from(organizations)
+        .where(eq(organizations.id, orgId));
+      await database.insert(creditLogs).values({
+        userId,
+        amount: refund.toFixed(2),
+        balanceAfter: toNumber(row?.credits).toFixed(2),
+        type: "refund",
+        description: `[团队] ${description}`,
+        relatedTaskId: taskId,
+        orgId,
+      });
+    }
+    remaining = Math.round((remaining - refund) * 100) / 100;
+    refunded += refund;
+  }
+  return Math.round(refunded * 100) / 100;
+}
@@ -0,0 +1,395 @@
+/**
+ * 团队空间数据库操作
+ */
+
+import { getDb } from "../db";
+import {
+  users,
+  creditLogs,
+  organizations,
+  organizationMembers,
+  organizationInvites,
+  OrganizationRole,
+} from "../../drizzle/schema";
+import { eq, and, desc, gte, inArray, sql } from "drizzle-orm";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 每个团队的最大成员数（含所有者） */
+export const MAX_ORGANIZATION_SEATS = 20;
+
+/** 本月第一天 0 点（服务器时区），成员每月用量从此时起算 */
+export function startOfMonth(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+// ==================== 团队与成员 ====================
+
+/**
+ * 获取用户所在团队及其成员身份
+ */
+export async function getMembership(userId: number) {
+  const database = await db();
+  const rows = await database
+    .select({ member: organizationMembers, organization: organizations })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizations.id, organizationMembers.orgId))
+    .where(eq(organizationMembers.userId, userId))
+    .limit(1);
+  return rows[0] || null;
+}
+
+/**
+ * 获取团队所有成员的用户ID
+ */
+export async function getOrganizationUserIds(orgId: number): Promise<number[]> {
+  const database = await db();
+  const rows = await database
+    .select({ userId: organizationMembers.userId })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.orgId, orgId));
+  return rows.map(r => r.userId);
+}
+
+/**
+ * 获取团队成员列表（含本月已用积分）
+ */
+export async function getOrganizationMembers(orgId: number) {
+  const database = await db();
+  const [members, usage] = await Promise.all([
+    database
+      .select({
+        userId: organizationMembers.userId,
+        role: organizationMembers.role,
+        monthlyCreditCap: organizationMembers.monthlyCreditCap,
+        joinedAt: organizationMembers.createdAt,
+        email: users.email,
+        name: users.name,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.orgId, orgId))
+      .orderBy(organizationMembers.createdAt),
+    database
+      .select({
+        userId: creditLogs.userId,
+        used: sql<string>`COALESCE(-SUM(${creditLogs.amount}), 0)`,
+      })
+      .from(creditLogs)
+      .where(and(
+        eq(creditLogs.orgId, orgId),
+        inArray(creditLogs.type, ["search", "refund"]),
+        gte(creditLogs.createdAt, startOfMonth())
+      ))
+      .groupBy(creditLogs.userId),
+  ]);
+
+  const usedByUser = new Map(usage.map(u => [u.userId, parseFloat(String(u.used)) || 0]));
+  return members.map(m => ({
+    ...m,
+    monthlyCreditCap: m.monthlyCreditCap === null ? null : parseFloat(String(m.monthlyCreditCap)),
+    usedThisMonth: usedByUser.get(m.userId) || 0,
+  }));
+}
+
+/**
+ * 获取成员本月从团队积分池消耗的积分（已扣除中断任务退还的部分）
+ */
+export async function getMemberMonthlyUsage(orgId: number, userId: number): Promise<number> {
+  const database = await db();
+  const result = await database
+    .select({ used: sql<string>`COALESCE(-SUM(${creditLogs.amount}), 0)` })
+    .from(creditLogs)
+    .where(and(
+      eq(creditLogs.orgId, orgId),
+      eq(creditLogs.userId, userId),
+      inArray(creditLogs.type, ["search", "refund"]),
+      gte(creditLogs.createdAt, startOfMonth())
+    ));
+  return parseFloat(String(result[0]?.used)) || 0;
+}
+
+/**
+ * 创建团队，创建者成为所有者
+ *
+ * 用户已在其他团队时返回 null
+ */
+export async function createOrganization(ownerId: number, name: string): Promise<number | null> {
+  const database = await db();
+  return database.transaction(async tx => {
+    const existing = await tx
+      .select({ id: organizationMembers.id })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, ownerId))
+      .limit(1);
+    if (existing.length > 0) return null;
+
+    const result = await tx.insert(organizations).values({ name, ownerId });
+    const orgId = Number(result[0].insertId);
+    await tx.insert(organizationMembers).values({ orgId, userId: ownerId, role: "owner" });
+    return orgId;
+  });
+}
+
+/**
+ * 修改团队名称
+ */
+export async function renameOrganization(orgId: number, name: string) {
+  const database = await db();
+  await database.update(organizations).set({ name }).where(eq(organizations.id, orgId));
+}
+
+/**
+ * 统计团队成员数
+ */
+export async function countOrganizationMembers(orgId: number): Promise<number> {
+  const database = await db();
+  const result = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.orgId, orgId));
+  return Number(result[0]?.count) || 0;
+}
+
+/**
+ * 修改成员角色或每月积分上限
+ */
+export async function updateOrganizationMember(
+  orgId: number,
+  userId: number,
+  data: { role?: Exclude<OrganizationRole, "owner">; monthlyCreditCap?: number | null }
+): Promise<boolean> {
+  const database = await db();
+  const updates: Partial<typeof organizationMembers.$inferInsert> = {};
+  if (data.role !== undefined) updates.role = data.role;
+  if (data.monthlyCreditCap !== undefined) {
+    updates.monthlyCreditCap = data.monthlyCreditCap === null ? null : data.monthlyCreditCap.toFixed(2);
+  }
+  if (Object.keys(updates).length === 0) return true;
+
+  const result = await database
+    .update(organizationMembers)
+    .set(updates)
+    .where(and(
+      eq(organizationMembers.orgId, orgId),
+      eq(organizationMembers.userId, userId),
+      sql`${organizationMembers.role} <> 'owner'`
+    ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 移除成员（所有者不能被移除）
+ */
+export async function removeOrganizationMember(orgId: number, userId: number): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .delete(organizationMembers)
+    .where(and(
+      eq(organizationMembers.orgId, orgId),
+      eq(organizationMembers.userId, userId),
+      sql`${organizationMembers.role} <> 'owner'`
+    ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 解散团队：积分池余额退回所有者，成员和未处理的邀请一并清除
+ */
+export async function dissolveOrganization(orgId: number): Promise<{ refunded: number }> {
+  const database = await db();
+  return database.transaction(async tx => {
+    const rows = await tx
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .for("update");
+    const org = rows[0];
+    if (!org) return { refunded: 0 };
+
+    const refunded = parseFloat(String(org.credits)) || 0;
+    if (refunded > 0) {
+      await tx.update(users)
+        .set({ credits: sql`${users.credits} + ${refunded}` })
+        .where(eq(users.id, org.ownerId));
+      const owner = await tx.select({ credits: users.credits }).from(users).where(eq(users.id, org.ownerId));
+      await tx.insert(creditLogs).values({
+        userId: org.ownerId,
+        amount: refunded.toFixed(2),
+        balanceAfter: String(owner[0]?.credits ?? "0"),
+        type: "org_transfer",
+        description: `解散团队「${org.name}」，积分池余额退回`,
+        orgId,
+      });
+    }
+
+    await tx.update(organizationInvites)
+      .set({ status: "revoked", respondedAt: new Date() })
+      .where(and(eq(organizationInvites.orgId, orgId), eq(organizationInvites.status, "pending")));
+    await tx.delete(organizationMembers).where(eq(organizationMembers.orgId, orgId));
+    await tx.delete(organizations).where(eq(organizations.id, orgId));
+    return { refunded };
+  });
+}
+
+// ==================== 积分池 ====================
+
+/**
+ * 从个人余额转入团队积分池
+ */
+export async function transferToOrganizationPool(
+  orgId: number,
+  userId: number,
+  amount: number
+): Promise<{ success: boolean; poolBalance: number }> {
+  const database = await db();
+  return database.transaction(async tx => {
+    const debit = await tx.update(users)
+      .set({ credits: sql`${users.credits} - ${amount}` })
+      .where(and(eq(users.id, userId), gte(users.credits, amount.toFixed(2))));
+    if (debit[0].affectedRows === 0) {
+      return { success: false, poolBalance: 0 };
+    }
+
+    await tx.update(organizations)
+      .set({ credits: sql`${organizations.credits} + ${amount}` })
+      .where(eq(organizations.id, orgId));
+
+    const [user] = await tx.select({ credits: users.credits }).from(users).where(eq(users.id, userId));
+    const [org] = await tx.select({ credits: organizations.credits, name: organizations.name })
+      .from(organizations)
+      .where(eq(organizations.id, orgId));
+
+    await tx.insert(creditLogs).values({
+      userId,
+      amount: (-amount).toFixed(2),
+      balanceAfter: String(user?.credits ?? "0"),
+      type: "org_transfer",
+      description: `转入团队「${org?.name ?? orgId}」积分池`,
+      orgId,
+    });
+
+    return { success: true, poolBalance: parseFloat(String(org?.credits)) || 0 };
+  });
+}
+
+// ==================== 邀请 ====================
+
+/**
+ * 创建邀请（同一邮箱的待处理邀请会被替换）
+ */
+export async function createOrganizationInvite(data: {
+  orgId: number;
+  email: string;
+  role: "admin" | "member" | "viewer";
+  invitedBy: number;
+}): Promise<number> {
+  const database = await db();
+  await database.update(organizationInvites)
+    .set({ status: "revoked", respondedAt: new Date() })
+    .where(and(
+      eq(organizationInvites.orgId, data.orgId),
+      eq(organizationInvites.email, data.email),
+      eq(organizationInvites.status, "pending")
+    ));
+  const result = await database.insert(organizationInvites).values(data);
+  return Number(result[0].insertId);
+}
+
+/**
+ * 获取团队的待处理邀请
+ */
+export async function getPendingInvitesForOrganization(orgId: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(organizationInvites)
+    .where(and(eq(organizationInvites.orgId, orgId), eq(organizationInvites.status, "pending")))
+    .orderBy(desc(organizationInvites.createdAt));
+}
+
+/**
+ * 获取发给某邮箱的待处理邀请
+ */
+export async function getPendingInvitesForEmail(email: string) {
+  const database = await db();
+  return database
+    .select({
+      id: organizationInvites.id,
+      orgId: organizationInvites.orgId,
+      role: organizationInvites.role,
+      createdAt: organizationInvites.createdAt,
+      organizationName: organizations.name,
+      inviterEmail: users.email,
+    })
+    .from(organizationInvites)
+    .innerJoin(organizations, eq(organizations.id, organizationInvites.orgId))
+    .innerJoin(users, eq(users.id, organizationInvites.invitedBy))
+    .where(and(eq(organizationInvites.email, email), eq(organizationInvites.status, "pending")))
+    .orderBy(desc(organizationInvites.createdAt));
+}
+
+/**
+ * 获取某条邀请
+ */
+export async function getOrganizationInvite(inviteId: number) {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(organizationInvites)
+    .where(eq(organizationInvites.id, inviteId))
+    .limit(1);
+  return rows[0] || null;
+}
+
+/**
+ * 撤销或拒绝邀请
+ */
+export async function closeOrganizationInvite(
+  inviteId: number,
+  status: "declined" | "revoked"
+): Promise<boolean> {
+  const database = await db();
+  const result = await database.update(organizationInvites)
+    .set({ status, respondedAt: new Date() })
+    .where(and(eq(organizationInvites.id, inviteId), eq(organizationInvites.status, "pending")));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 接受邀请并加入团队
+ *
+ * 用户已在其他团队或邀请已失效时返回 false
+ */
+export async function acceptOrganizationInvite(inviteId: number, userId: number): Promise<boolean> {
+  const database = await db();
+  return database.transaction(async tx => {
+    const rows = await tx
+      .select()
+      .from(organizationInvites)
+      .where(and(eq(organizationInvites.id, inviteId), eq(organizationInvites.status, "pending")))
+      .for("update");
+    const invite = rows[0];
+    if (!invite) return false;
+
+    const existing = await tx
+      .select({ id: organizationMembers.id })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId))
+      .limit(1);
+    if (existing.length > 0) return false;
+
+    await tx.insert(organizationMembers).values({ orgId: invite.orgId, userId, role: invite.role });
+    await tx.update(organizationInvites)
+      .set({ status: "accepted", respondedAt: new Date() })
+      .where(eq(organizationInvites.id, inviteId));
+    return true;
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * 团队空间 tRPC 路由
+ *
+ * 所有者通过邮箱邀请成员，成员使用各自的账号登录；团队成员的搜索从共享积分池扣费
+ * （见 credits.ts），任务历史和结果在团队内可见（见 access.ts）
+ *
+ * 角色：owner 所有者 / admin 管理员（管理成员、邀请）/ member 成员 / viewer 只读
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import type { OrganizationRole } from "../../drizzle/schema";
+import {
+  getMembership,
+  getOrganizationMembers,
+  createOrganization,
+  renameOrganization,
+  countOrganizationMembers,
+  updateOrganizationMember,
+  removeOrganizationMember,
+  dissolveOrganization,
+  transferToOrganizationPool,
+  createOrganizationInvite,
+  getPendingInvitesForOrganization,
+  getPendingInvitesForEmail,
+  getOrganizationInvite,
+  closeOrganizationInvite,
+  acceptOrganizationInvite,
+  MAX_ORGANIZATION_SEATS,
+} from "./db";
+import { getCreditAccount } from "./credits";
+
+const organizationNameSchema = z.string().trim().min(1, "请输入团队名称").max(100);
+const inviteRoleSchema = z.enum(["admin", "member", "viewer"]);
+
+const isManager = (role: OrganizationRole) => role === "owner" || role === "admin";
+
+/**
+ * 获取当前用户的团队身份，要求为所有者或管理员
+ */
+async function requireManager(userId: number) {
+  const membership = await getMembership(userId);
+  if (!membership) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "您还没有加入团队" });
+  }
+  if (!isManager(membership.member.role)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "只有团队所有者或管理员可以执行此操作" });
+  }
+  return membership;
+}
+
+export const organizationsRouter = router({
+  // 获取当前用户的团队（未加入时返回 null）
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.user!.id;
+    const membership = await getMembership(userId);
+    if (!membership) return null;
+
+    const { organization, member } = membership;
+    const [members, invites, account] = await Promise.all([
+      getOrganizationMembers(organization.id),
+      isManager(member.role) ? getPendingInvitesForOrganization(organization.id) : Promise.resolve([]),
+      getCreditAccount(userId),
+    ]);
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      ownerId: organization.ownerId,
+      credits: parseFloat(String(organization.credits)) || 0,
+      role: member.role,
+      maxSeats: MAX_ORGANIZATION_SEATS,
+      available: account.available,
+      members,
+      invites,
+    };
+  }),
+
+  // 创建团队
+  create: protectedProcedure
+    .input(z.object({ name: organizationNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const orgId = await createOrganization(ctx.user!.id, input.name);
+      if (orgId === null) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "您已加入其他团队，请先退出" });
+      }
+      return { id: orgId };
+    }),
+
+  // 修改团队名称
+  rename: protectedProcedure
+    .input(z.object({ name: organizationNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { organization } = await requireManager(ctx.user!.id);
+      await renameOrganization(organization.id, input.name);
+      return { success: true };
+    }),
+
+  // 邀请成员（只有所有者可以邀请管理员）
+  invite: protectedProcedure
+    .input(z.object({
+      email: z.string().trim().toLowerCase().email("请输入有效的邮箱地址").max(320),
+      role: inviteRoleSchema.default("member"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { organization, member } = await requireManager(ctx.user!.id);
+
+      if (input.role === "admin" && member.role !== "owner") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "只有团队所有者可以邀请管理员" });
+      }
+      if (input.email === ctx.user!.email.toLowerCase()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "不能邀请自己" });
+      }
+
+      const [memberCount, pending] = await Promise.all([
+        countOrganizationMembers(organization.id),
+        getPendingInvitesForOrganization(organization.id),
+      ]);
+      const otherPending = pending.filter(i => i.email !== input.email).length;
+      if (memberCount + otherPending >= MAX_ORGANIZATION_SEATS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `团队最多 ${MAX_ORGANIZATION_SEATS} 个席位（含待接受的邀请）`,
+        });
+      }
+
+      const id = await createOrganizationInvite({
+        orgId: organization.id,
+        email: input.email,
+        role: input.role,
+        invitedBy: ctx.user!.id,
+      });
+      return { id };
+    }),
+
+  // 撤销邀请
+  revokeInvite: protectedProcedure
+    .input(z.object({ inviteId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { organization } = await requireManager(ctx.user!.id);
+      const invite = await getOrganizationInvite(input.inviteId);
+      if (!invite || invite.orgId !== organization.id || !(await closeOrganizationInvite(invite.id, "revoked"))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "邀请不存在或已处理" });
+      }
+      return { success: true };
+    }),
+
+  // 发给当前用户的待处理邀请
+  myInvites: protectedProcedure.query(async ({ ctx }) => {
+    return getPendingInvitesForEmail(ctx.user!.email.toLowerCase());
+  }),
+
+  // 接受邀请
+  acceptInvite: protectedProcedure
+    .input(z.object({ inviteId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await getOrganizationInvite(input.inviteId);
+      if (!invite || invite.status !== "pending" || invite.email !== ctx.user!.email.toLowerCase()) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "邀请不存在或已处理" });
+      }
+      if (await getMembership(ctx.user!.id)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "您已加入其他团队，请先退出" });
+      }
+      if (await countOrganizationMembers(invite.orgId) >= MAX_ORGANIZATION_SEATS) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "团队席位已满，请联系团队管理员" });
+      }
+
+      const accepted = await acceptOrganizationInvite(invite.id, ctx.user!.id);
+      if (!accepted) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "加入团队失败，请刷新后重试" });
+      }
+      return { success: true };
+    }),
+
+  // 拒绝邀请
+  declineInvite: protectedProcedure
+    .input(z.object({ inviteId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await getOrganizationInvite(input.inviteId);
+      if (!invite || invite.email !== ctx.user!.email.toLowerCase() || !(await closeOrganizationInvite(invite.id, "declined"))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "邀请不存在或已处理" });
+      }
+      return { success: true };
+    }),
+
+  // 修改成员角色或每月积分上限（所有者不可修改；管理员只能由所有者修改）
+  updateMember: protectedProcedure
+    .input(z.object({
+      userId: z.number(),
+      role: inviteRoleSchema.optional(),
+      /** 每月积分上限，null 表示不限 */
+      monthlyCreditCap: z.number().min(0).max(10_000_000).nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { organization, member } = await requireManager(ctx.user!.id);
+      const target = await getMembership(input.userId);
+      if (!target || target.organization.id !== organization.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "成员不存在" });
+      }
+      if (member.role !== "owner" && (target.member.role === "admin" || input.role === "admin")) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "只有团队所有者可以管理管理员" });
+      }
+
+      const updated = await updateOrganizationMember(organization.id, input.userId, {
+        role: input.role,
+        monthlyCreditCap: input.monthlyCreditCap,
+      });
+      if (!updated) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "不能修改团队所有者" });
+      }
+      return { success: true };
+    }),
+
+  // 移除成员（其历史任务保留在本人账号下）
+  removeMember: protectedProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { organization, member } = await requireManager(ctx.user!.id);
+      const target = await getMembership(input.userId);
+      if (!target || target.organization.id !== organization.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "成员不存在" });
+      }
+      if (member.role !== "owner" && target.member.role === "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "只有团队所有者可以移除管理员" });
+      }
+
+      const removed = await removeOrganizationMember(organization.id, input.userId);
+      if (!removed) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "不能移除团队所有者" });
+      }
+      return { success: true };
+    }),
+
+  // 退出团队（所有者需解散团队）
+  leave: protectedProcedure.mutation(async ({ ctx }) => {
+    const membership = await getMembership(ctx.user!.id);
+    if (!membership) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "您还没有加入团队" });
+    }
+    if (membership.member.role === "owner") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "团队所有者不能退出，请解散团队" });
+    }
+    await removeOrganizationMember(membership.organization.id, ctx.user!.id);
+    return { success: true };
+  }),
+
+  // 从个人余额转入团队积分池（任何成员均可）
+  fundPool: protectedProcedure
+    .input(z.object({ amount: z.number().positive().max(10_000_000) }))
+    .mutation(async ({ ctx, input }) => {
+      const membership = await getMembership(ctx.user!.id);
+      if (!membership) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "您还没有加入团队" });
+      }
+
+      const amount = Math.round(input.amount * 100) / 100;
+      const result = await transferToOrganizationPool(membership.organization.id, ctx.user!.id, amount);
+      if (!result.success) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "个人积分余额不足" });
+      }
+      return { success: true, poolBalance: result.poolBalance };
+    }),
+
+  // 解散团队（仅所有者），积分池余额退回所有者个人账户
+  dissolve: protectedProcedure.mutation(async ({ ctx }) => {
+    const membership = await getMembership(ctx.user!.id);
+    if (!membership || membership.member.role !== "owner") {
+      throw new TRPCError({ code: "FORBIDDEN", message: "只有团队所有者可以解散团队" });
+    }
+    return dissolveOrganization(membership.organization.id);
+  }),
+});
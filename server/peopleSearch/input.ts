@@ -0,0 +1,58 @@
+/**
+ * 人员搜索输入校验（TPS / SPF / Anywho 的 search / estimateCost 共用）
+ *
+ * nameOnly / nameLocation 模式分别填写姓名和地点，nameLocation 搜索两者的笛卡尔积；
+ * pairs 模式传入「姓名 + 地点」配对列表，每条配对只搜索一次（如批量上传的名单），条数上限更高
+ */
+
+import { z } from "zod";
+import type { PeopleSearchMode, PeopleSearchPair } from "./types";
+
+/** nameOnly / nameLocation 模式单次最多姓名数 */
+export const MAX_SEARCH_NAMES = 100;
+/** pairs 模式单次最多配对数 */
+export const MAX_SEARCH_PAIRS = 2000;
+
+export const peopleSearchModeSchema = z.enum(["nameOnly", "nameLocation", "pairs"]);
+
+export const peopleSearchPairsSchema = z.array(z.object({
+  name: z.string().trim().min(1).max(100),
+  location: z.string().trim().max(100),
+})).max(MAX_SEARCH_PAIRS).optional();
+
+/**
+ * 按模式校验：pairs 模式需要配对列表，其他模式需要姓名
+ */
+export function refinePeopleSearchInput(
+  input: { names: string[]; pairs?: PeopleSearchPair[]; mode: PeopleSearchMode },
+  ctx: z.RefinementCtx
+) {
+  if (input.mode === "pairs") {
+    if (!input.pairs || input.pairs.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["pairs"],
+        message: "配对搜索需要至少一组姓名 + 地点",
+      });
+    }
+    return;
+  }
+
+  if (input.names.length === 0) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["names"],
+      message: "请输入至少一个姓名",
+    });
+  }
+}
+
+/**
+ * pairs 模式下用配对的姓名填充 names（任务列表、日志、导出按姓名展示），地点只保存在 pairs 中
+ */
+export function fillPairNames<T extends { names: string[]; locations?: string[]; pairs?: PeopleSearchPair[]; mode: PeopleSearchMode }>(input: T): T {
+  if (input.mode !== "pairs") {
+    return { ...input, pairs: undefined };
+  }
+  return { ...input, names: (input.pairs ?? []).map(pair => pair.name), locations: [] };
+}
@@ -0,0 +1,30 @@
+/**
+ * 人员搜索适配器注册表
+ *
+ * 新增站点：实现 PeopleSearchProvider 后在此注册即可
+ */
+
+import { tpsProvider } from "../tps/provider";
+import { spfProvider } from "../spf/provider";
+import { anywhoProvider } from "../anywho/provider";
+import type { AnyPeopleSearchProvider, PeopleSearchSource } from "./types";
+
+const providers: Record<PeopleSearchSource, AnyPeopleSearchProvider> = {
+  tps: tpsProvider,
+  spf: spfProvider,
+  anywho: anywhoProvider,
+};
+
+/**
+ * 按数据源获取适配器
+ */
+export function getPeopleSearchProvider(source: PeopleSearchSource): AnyPeopleSearchProvider {
+  return providers[source];
+}
+
+/**
+ * 获取所有已注册的适配器
+ */
+export function listPeopleSearchProviders(): AnyPeopleSearchProvider[] {
+  return Object.values(providers);
+}
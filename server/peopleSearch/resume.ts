@@ -0,0 +1,66 @@
+/**
+ * 人员搜索继续执行（TPS / SPF / Anywho 路由的 resumeTask 共用）
+ *
+ * 失败或积分不足的任务在用户充值后可以继续：
+ * 只重新执行未完成的子任务（姓名 × 地点），读取详情缓存，
+ * 新结果追加到同一任务，只对新发出的请求扣费
+ */
+
+import { TRPCError } from "@trpc/server";
+import { runTaskJob } from "../services/taskQueue";
+import { buildSubTasks, loadResumeOptions, runPeopleSearchTask } from "./runner";
+import type {
+  AnyPeopleSearchProvider,
+  PeopleSearchInput,
+  PeopleSearchRuntimeConfig,
+  PeopleSearchTaskRef,
+} from "./types";
+
+/**
+ * 继续执行任务（调用方负责校验任务归属、状态和余额）
+ *
+ * @returns 剩余待执行的子任务数
+ */
+export async function resumePeopleSearchTask(
+  provider: AnyPeopleSearchProvider,
+  task: PeopleSearchTaskRef,
+  userId: number,
+  input: PeopleSearchInput,
+  config: PeopleSearchRuntimeConfig
+): Promise<{ remainingSubTasks: number }> {
+  const resume = await loadResumeOptions(provider, task);
+  const completed = new Set(resume.completedSubTaskIndexes);
+  const remainingSubTasks = buildSubTasks(input).filter(subTask => !completed.has(subTask.index)).length;
+
+  if (remainingSubTasks === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "所有子任务均已完成，无需继续",
+    });
+  }
+
+  // 原子地把任务改回 pending，防止重复提交
+  if (!await provider.store.reopen(task)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "任务状态已变化，请刷新后重试",
+    });
+  }
+
+  runTaskJob(
+    {
+      source: provider.source,
+      taskId: task.taskId,
+      taskDbId: task.taskDbId,
+      userId,
+      payload: input,
+      savedResults: resume.previousResults,
+      savedSubTasks: resume.completedSubTaskIndexes.length,
+    },
+    () => runPeopleSearchTask(provider, task, userId, input, config, resume)
+  ).catch(err => {
+    console.error(`[${provider.label}] 任务 ${task.taskId} 继续执行失败:`, err);
+  });
+
+  return { remainingSubTasks };
+}
@@ -0,0 +1,527 @@
+/**
+ * 人员搜索统一任务执行器
+ *
+ * 核心理念：用多少，扣多少，扣完即停，有始有终
+ *
+ * 执行流程（三个站点共用）：
+ * 1. 构建子任务（姓名 × 地点）
+ * 2. 阶段一：并发搜索，每个子任务完成后按实际页数扣费
+ * 3. 阶段二：逐个子任务由适配器获取详情（详情页费用在获取过程中实时扣除）
+ * 4. 跨子任务电话去重，按子任务保存结果
+ * 5. 更新任务状态、推送 WebSocket 和 Webhook、记录 API 日志和用户活动
+ *
+ * 用户停止任务时（状态被改为 cancelled），执行器在下一个检查点停止，
+ * 已获取的结果照常保存，状态保持 cancelled
+ *
+ * 每个子任务的搜索和详情都处理完毕后立即保存其结果并记入 completedSubTaskIndexes（检查点），
+ * 任务失败或服务重启中断时已完成子任务的结果和检查点都已落库。
+ * 继续执行（用户在失败/积分不足后手动继续，或服务重启后由任务队列恢复）时传入 resume 选项：
+ * 跳过已完成的子任务，读取详情缓存，新结果追加到同一任务并与已有结果按电话去重，
+ * 只对新发出的请求扣费，统计在之前的结果上累加
+ */
+
+import { logUserActivity } from "../db";
+import { emitTaskProgress, emitTaskCompleted, emitTaskFailed, emitCreditsUpdate } from "../_core/wsEmitter";
+import { notifyTaskWebhooks } from "../services/webhookDispatcher";
+import {
+  createPeopleSearchCreditTracker,
+  formatCostSummary,
+  PeopleSearchCreditTracker,
+} from "./realtimeCredits";
+import type {
+  AnyPeopleSearchProvider,
+  PeopleSearchProvider,
+  PeopleSearchInput,
+  PeopleSearchSubTask,
+  PeopleSearchTaskRef,
+  PeopleSearchRuntimeConfig,
+  PeopleSearchContext,
+  PeopleSearchDetailItem,
+  PeopleSearchDetailProgress,
+  PeopleSearchRunSummary,
+  PeopleSearchResumeOptions,
+  PeopleSearchSource,
+  TaskLogEntry,
+} from "./types";
+
+const MAX_LOG_ENTRIES = 100;
+const MAX_MESSAGE_LENGTH = 200;
+
+/** 详情进度推送最小间隔（毫秒） */
+const DETAIL_PROGRESS_THROTTLE_MS = 2000;
+
+/** 正在执行的任务的积分追踪器，用于停止任务时立即通知详情池停止派发新请求 */
+const activeTrackers = new Map<string, PeopleSearchCreditTracker>();
+
+/**
+ * 通知正在执行的任务停止
+ *
+ * 调用方需先将任务状态改为 cancelled（store.cancel）；
+ * 此函数只负责让追踪器立即进入停止状态，已发出的请求完成后照常扣费和保存
+ */
+export function signalPeopleSearchStop(source: PeopleSearchSource, taskId: string): boolean {
+  const tracker = activeTrackers.get(`${source}:${taskId}`);
+  if (!tracker) return false;
+  tracker.stop("任务已被用户停止");
+  return true;
+}
+
+/**
+ * 构建子任务列表
+ *
+ * nameOnly 模式每个姓名一个子任务；nameLocation 模式为姓名 × 地点的笛卡尔积；
+ * pairs 模式每条配对一个子任务
+ */
+export function buildSubTasks(input: PeopleSearchInput<unknown>): PeopleSearchSubTask[] {
+  const subTasks: PeopleSearchSubTask[] = [];
+
+  if (input.mode === "nameOnly") {
+    for (let i = 0; i < input.names.length; i++) {
+      subTasks.push({ name: input.names[i], location: "", index: i });
+    }
+  } else if (input.mode === "pairs") {
+    (input.pairs ?? []).forEach((pair, index) => {
+      subTasks.push({ name: pair.name, location: pair.location, index });
+    });
+  } else {
+    const locations = input.locations && input.locations.length > 0
+      ? input.locations
+      : [""];
+    let index = 0;
+    for (const name of input.names) {
+      for (const location of locations) {
+        subTasks.push({ name, location, index: index++ });
+      }
+    }
+  }
+
+  return subTasks;
+}
+
+/**
+ * 读取继续执行所需的选项：已完成的子任务、已保存的结果和已计费积分
+ */
+export async function loadResumeOptions(
+  provider: AnyPeopleSearchProvider,
+  task: PeopleSearchTaskRef
+): Promise<PeopleSearchResumeOptions> {
+  const state = await provider.store.getResumeState(task);
+  const rows = await provider.loadResults(task);
+  return {
+    completedSubTaskIndexes: state?.completedSubTaskIndexes ?? [],
+    previousResults: rows.length,
+    previousCreditsUsed: state?.creditsUsed ?? 0,
+    previousPhones: rows.map(row => row.phone).filter((phone): phone is string => !!phone),
+    previousLogs: state?.logs ?? [],
+  };
+}
+
+/**
+ * 执行人员搜索任务（实时扣费模式）
+ *
+ * 返回执行摘要，供瀑布式搜索等上层编排使用；失败时不抛出，返回 failed 状态。
+ * 传入 resume 时只执行未完成的子任务
+ */
+export async function runPeopleSearchTask<TFilters, TSearchItem, TDetail>(
+  provider: PeopleSearchProvider<TFilters, TSearchItem, TDetail>,
+  task: PeopleSearchTaskRef,
+  userId: number,
+  input: PeopleSearchInput<TFilters>,
+  config: PeopleSearchRuntimeConfig,
+  resume?: PeopleSearchResumeOptions
+): Promise<PeopleSearchRunSummary> {
+  const { source, label, store } = provider;
+  const { taskId } = task;
+
+  console.log(`[${label}] 用户 ${userId} 开始任务 ${taskId}`);
+
+  const logs: TaskLogEntry[] = [...(resume?.previousLogs ?? [])].slice(-MAX_LOG_ENTRIES);
+  const addLog = (message: string) => {
+    const truncatedMessage = message.length > MAX_MESSAGE_LENGTH
+      ? message.substring(0, MAX_MESSAGE_LENGTH) + "..."
+      : message;
+    if (logs.length >= MAX_LOG_ENTRIES) {
+      logs.shift();
+    }
+    logs.push({ timestamp: new Date().toISOString(), message: truncatedMessage });
+  };
+
+  const creditTracker = await createPeopleSearchCreditTracker(
+    label,
+    userId,
+    taskId,
+    config.searchCost,
+    config.detailCost
+  );
+
+  const trackerKey = `${source}:${taskId}`;
+  activeTrackers.set(trackerKey, creditTracker);
+
+  const subTasks = buildSubTasks(input);
+  const completedIndexes = new Set(resume?.completedSubTaskIndexes ?? []);
+  const pendingSubTasks = subTasks.filter(subTask => !completedIndexes.has(subTask.index));
+  const previousResults = resume?.previousResults ?? 0;
+  const previousCredits = resume?.previousCreditsUsed ?? 0;
+  const filters = (input.filters || {}) as TFilters;
+  const ageFilters = filters as { minAge?: number; maxAge?: number };
+
+  // 启动日志
+  if (resume) {
+    addLog(`🔄 继续执行: 跳过 ${subTasks.length - pendingSubTasks.length} 个已完成的子任务，剩余 ${pendingSubTasks.length} 个`);
+  } else {
+    addLog(`🚀 ${label} 搜索任务启动`);
+    addLog(`📋 搜索组合: ${subTasks.length} 个任务`);
+    if (input.mode === "pairs") {
+      addLog(`📋 配对搜索: ${subTasks.length} 组姓名 + 地点`);
+    } else if (input.mode === "nameLocation" && input.locations && input.locations.length > 0) {
+      addLog(`📋 搜索: ${input.names.join(", ")} @ ${input.locations.join(", ")}`);
+    } else {
+      addLog(`📋 搜索: ${input.names.join(", ")}`);
+    }
+    addLog(`📋 过滤条件: 年龄 ${ageFilters.minAge ?? config.defaultMinAge}-${ageFilters.maxAge ?? config.defaultMaxAge} 岁`);
+  }
+
+  // 任务在启动前已被用户停止
+  if ((await store.getStatus(task)) === "cancelled") {
+    activeTrackers.delete(trackerKey);
+    addLog(`⏹️ 任务已被用户停止`);
+    await store.finish(task, "cancelled", {
+      totalResults: previousResults,
+      searchPageRequests: 0,
+      detailPageRequests: 0,
+      cacheHits: 0,
+      creditsUsed: previousCredits,
+    }, logs);
+    emitTaskCompleted(userId, taskId, source, { totalResults: previousResults, creditsUsed: previousCredits, status: "cancelled" });
+    return { status: "cancelled", totalResults: previousResults, creditsUsed: previousCredits };
+  }
+
+  await store.updateProgress(task, {
+    status: "running",
+    totalSubTasks: subTasks.length,
+    logs,
+  });
+  emitTaskProgress(userId, taskId, source, { status: "running", totalSubTasks: subTasks.length, logs });
+
+  // 统计
+  let totalSearchPages = 0;
+  let totalDetailPages = 0;
+  let totalCacheHits = 0;
+  let totalResults = previousResults;
+  let stoppedDueToCredits = false;
+  let cancelled = false;
+
+  const isCancelled = async (): Promise<boolean> => {
+    if (cancelled) return true;
+    cancelled = (await store.getStatus(task)) === "cancelled";
+    if (cancelled) {
+      creditTracker.stop("任务已被用户停止");
+    }
+    return cancelled;
+  };
+
+  // 任务累计消耗（含恢复前已计费部分）
+  const getCreditsUsed = () => previousCredits + creditTracker.getTotalDeducted();
+
+  // 检查点：已完成的子任务序号，随进度一起写入任务表
+  const getCheckpoint = () => Array.from(completedIndexes).sort((a, b) => a - b);
+
+  const pushCredits = () => {
+    emitCreditsUpdate(userId, {
+      newBalance: creditTracker.getCurrentBalance(),
+      deductedAmount: creditTracker.getTotalDeducted(),
+      source,
+      taskId,
+    });
+  };
+
+  // 详情阶段进度（占 30%-95%），节流推送
+  let lastDetailProgressPush = 0;
+  const onDetailProgress = (info: PeopleSearchDetailProgress) => {
+    const now = Date.now();
+    if (now - lastDetailProgressPush < DETAIL_PROGRESS_THROTTLE_MS && info.completed < info.total) return;
+    lastDetailProgressPush = now;
+
+    const percent = info.total > 0 ? (info.completed / info.total) * 100 : 100;
+    const detailProgress = 30 + Math.round(percent * 0.65);
+    const phase = info.phase === "retrying" ? "重试中" : "获取详情";
+
+    // fire-and-forget，避免阻塞详情获取
+    store.updateProgress(task, {
+      progress: detailProgress,
+      searchPageRequests: totalSearchPages,
+      creditsUsed: getCreditsUsed(),
+      logs,
+    }).catch(err => console.error(`[${label}] 详情进度更新DB失败:`, err));
+
+    emitTaskProgress(userId, taskId, source, {
+      progress: detailProgress,
+      phase,
+      completedDetails: info.completed,
+      totalDetails: info.total,
+      creditsUsed: getCreditsUsed(),
+      logs,
+    });
+    pushCredits();
+  };
+
+  const ctx: PeopleSearchContext<TFilters> = {
+    userId,
+    task,
+    config,
+    filters,
+    creditTracker,
+    reuseDetailCache: !!resume,
+    addLog,
+    isCancelled,
+    onDetailProgress,
+  };
+
+  try {
+    // ==================== 阶段一：并发搜索（实时扣费） ====================
+    addLog(`📋 阶段一：开始搜索...`);
+
+    const allDetailItems: Array<PeopleSearchDetailItem<TSearchItem>> = [];
+    let completedSearches = subTasks.length - pendingSubTasks.length;
+    // 搜索成功且搜索页已全部扣费的子任务
+    const searchedIndexes = new Set<number>();
+
+    const processSearch = async (subTask: PeopleSearchSubTask) => {
+      if (stoppedDueToCredits || await isCancelled()) {
+        return;
+      }
+
+      if (!await creditTracker.canAffordSearchPage()) {
+        stoppedDueToCredits = true;
+        addLog(`⚠️ 积分不足，停止搜索阶段`);
+        return;
+      }
+
+      const result = await provider.search(subTask, ctx);
+      completedSearches++;
+
+      if (result.success) {
+        // 按实际页数扣除搜索页费用
+        let fullyBilled = true;
+        for (let i = 0; i < result.searchPageRequests; i++) {
+          const deductResult = await creditTracker.deductSearchPage();
+          if (!deductResult.success) {
+            stoppedDueToCredits = true;
+            fullyBilled = false;
+            addLog(`⚠️ 积分不足，停止搜索`);
+            break;
+          }
+        }
+        if (fullyBilled) {
+          searchedIndexes.add(subTask.index);
+          // 没有待获取详情的子任务搜索完即完成
+          if (result.items.length === 0) {
+            completedIndexes.add(subTask.index);
+          }
+        }
+
+        totalSearchPages += result.searchPageRequests;
+
+        for (const item of result.items) {
+          allDetailItems.push({ item, subTask });
+        }
+
+        const taskName = subTask.location ? `${subTask.name} @ ${subTask.location}` : subTask.name;
+        addLog(`✅ [${subTask.index + 1}/${subTasks.length}] ${taskName} - ${result.items.length} 条结果, ${result.searchPageRequests} 页`);
+      } else {
+        addLog(`❌ [${subTask.index + 1}/${subTasks.length}] 搜索失败: ${result.error}`);
+      }
+
+      const searchProgress = Math.round((completedSearches / subTasks.length) * 30);
+      await store.updateProgress(task, {
+        completedSubTasks: completedSearches,
+        progress: searchProgress,
+        searchPageRequests: totalSearchPages,
+        creditsUsed: getCreditsUsed(),
+        completedSubTaskIndexes: getCheckpoint(),
+        logs,
+      });
+      emitTaskProgress(userId, taskId, source, {
+        progress: searchProgress,
+        completedSubTasks: completedSearches,
+        totalSubTasks: subTasks.length,
+        creditsUsed: getCreditsUsed(),
+        logs,
+      });
+      pushCredits();
+    };
+
+    // 固定数量的 worker 依次领取子任务
+    let nextIndex = 0;
+    const runWorker = async (): Promise<void> => {
+      while (nextIndex < pendingSubTasks.length && !stoppedDueToCredits && !cancelled) {
+        await processSearch(pendingSubTasks[nextIndex++]);
+      }
+    };
+    const workerCount = Math.min(Math.max(1, provider.searchConcurrency), pendingSubTasks.length);
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+    addLog(`✅ 搜索完成: ${totalSearchPages} 页, 找到 ${allDetailItems.length} 条待获取`);
+
+    // ==================== 阶段二：获取详情（由适配器实时扣费） ====================
+    const detailItemsBySubTask = new Map<number, Array<PeopleSearchDetailItem<TSearchItem>>>();
+    for (const entry of allDetailItems) {
+      if (!detailItemsBySubTask.has(entry.subTask.index)) {
+        detailItemsBySubTask.set(entry.subTask.index, []);
+      }
+      detailItemsBySubTask.get(entry.subTask.index)!.push(entry);
+    }
+
+    if (detailItemsBySubTask.size > 0 && !stoppedDueToCredits && !await isCancelled()) {
+      addLog(`📋 开始获取详情...`);
+
+      // 跨子任务电话去重（继续执行时包含已保存的结果）
+      const seenPhones = new Set<string>(resume?.previousPhones ?? []);
+      let fetchedItems = 0;
+
+      // 逐个子任务获取详情，子任务完成后立即保存结果并写入检查点，中断后不丢失已付费的数据
+      for (const items of Array.from(detailItemsBySubTask.values())) {
+        if (stoppedDueToCredits || await isCancelled()) break;
+
+        const subTask = items[0].subTask;
+        const offset = fetchedItems;
+        const detailResult = await provider.fetchDetails(items, {
+          ...ctx,
+          // 换算为整个详情阶段的进度
+          onDetailProgress: (info) => onDetailProgress({
+            completed: offset + (info.total > 0 ? Math.round((info.completed / info.total) * items.length) : items.length),
+            total: allDetailItems.length,
+            phase: info.phase,
+          }),
+        });
+        fetchedItems += items.length;
+        totalDetailPages += detailResult.detailPageRequests;
+        totalCacheHits += detailResult.cacheHits ?? 0;
+
+        if (detailResult.stoppedDueToCredits || (creditTracker.isStopped() && !await isCancelled())) {
+          stoppedDueToCredits = true;
+        }
+
+        const details: TDetail[] = [];
+        for (const result of detailResult.results) {
+          for (const detail of result.details) {
+            const phone = provider.getPhone(detail);
+            if (phone && seenPhones.has(phone)) {
+              continue;
+            }
+            if (phone) {
+              seenPhones.add(phone);
+            }
+            details.push(detail);
+          }
+        }
+
+        // 停止或积分不足时也保存已付费的数据，但只有详情全部处理完毕的子任务才记入检查点
+        if (details.length > 0) {
+          await provider.saveResults(task, subTask, details);
+          totalResults += details.length;
+        }
+        if (searchedIndexes.has(subTask.index) && !stoppedDueToCredits && !await isCancelled()) {
+          completedIndexes.add(subTask.index);
+        }
+        await store.updateProgress(task, {
+          totalResults,
+          detailPageRequests: totalDetailPages,
+          cacheHits: totalCacheHits,
+          creditsUsed: getCreditsUsed(),
+          completedSubTaskIndexes: getCheckpoint(),
+          logs,
+        });
+      }
+
+      if (totalCacheHits > 0) {
+        addLog(`💾 详情缓存命中 ${totalCacheHits} 条（不扣费）`);
+      }
+    }
+
+    // ==================== 完成任务 ====================
+    await isCancelled();
+    const creditsUsed = getCreditsUsed();
+    const finalStatus = cancelled
+      ? "cancelled"
+      : stoppedDueToCredits ? "insufficient_credits" : "completed";
+
+    emitTaskProgress(userId, taskId, source, { progress: 100, totalResults, creditsUsed, logs });
+    pushCredits();
+
+    await provider.logApi({
+      userId,
+      endpoint: "fullSearch",
+      requestParams: { names: input.names.length, mode: input.mode },
+      responseStatus: 200,
+      success: true,
+      creditsUsed,
+    });
+
+    if (cancelled) {
+      addLog(`⏹️ 任务已被用户停止，已保存已获取的结果`);
+    } else if (stoppedDueToCredits) {
+      addLog(`⚠️ 任务因积分不足提前结束`);
+    } else {
+      addLog(`✅ 任务完成`);
+    }
+    addLog(formatCostSummary(creditTracker.getCostBreakdown(), creditTracker.getCurrentBalance(), totalResults));
+
+    await store.finish(task, finalStatus, {
+      totalResults,
+      searchPageRequests: totalSearchPages,
+      detailPageRequests: totalDetailPages,
+      cacheHits: totalCacheHits,
+      creditsUsed,
+      completedSubTaskIndexes: getCheckpoint(),
+    }, logs);
+    emitTaskCompleted(userId, taskId, source, { totalResults, creditsUsed, status: finalStatus });
+    if (finalStatus !== "cancelled") {
+      await notifyTaskWebhooks(userId, { source, taskId, status: finalStatus, totalResults, creditsUsed });
+    }
+
+    console.log(`[${label}] 用户 ${userId} 任务 ${taskId} 结束: ${finalStatus}`);
+
+    const statusText = cancelled ? "(用户停止)" : stoppedDueToCredits ? "(积分不足停止)" : "完成";
+    await logUserActivity({
+      userId,
+      action: provider.activityAction,
+      details: `搜索${statusText}: ${input.names.length}个姓名, ${totalResults}条结果, 消耗${creditsUsed.toFixed(1)}积分`,
+      ipAddress: undefined,
+      userAgent: undefined,
+    });
+
+    return { status: finalStatus, totalResults, creditsUsed };
+
+  } catch (error: any) {
+    const errorMessage = error?.message || "未知错误";
+    addLog(`❌ 任务失败: ${errorMessage}`);
+
+    await store.fail(task, errorMessage, logs);
+    emitTaskFailed(userId, taskId, source, { error: errorMessage, creditsUsed: getCreditsUsed() });
+    await notifyTaskWebhooks(userId, {
+      source,
+      taskId,
+      status: "failed",
+      totalResults,
+      creditsUsed: getCreditsUsed(),
+      errorMessage,
+    });
+
+    console.error(`[${label}] 用户 ${userId} 任务 ${taskId} 失败:`, error);
+
+    await provider.logApi({
+      userId,
+      endpoint: "fullSearch",
+      requestParams: { names: input.names.length, mode: input.mode },
+      responseStatus: 500,
+      success: false,
+      errorMessage,
+      creditsUsed: getCreditsUsed(),
+    });
+
+    return { status: "failed", totalResults, creditsUsed: getCreditsUsed() };
+  } finally {
+    activeTrackers.delete(trackerKey);
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * 人员搜索统一存储
+ *
+ * tps_search_tasks / spf_search_tasks / anywho_search_tasks 三张表字段完全一致，
+ * 此处提供一套共用的任务创建、查询和状态更新实现，按任务数据库 ID 定位记录。
+ * 结果表和详情缓存表的公共操作（分页、分批读取、缓存读写）也在此实现，
+ * 各站点只保留结果字段映射（见各自的 provider.ts）
+ */
+
+import { eq, and, or, inArray, isNull, desc, sql, gt, gte } from "drizzle-orm";
+import crypto from "crypto";
+import { getDb } from "../db";
+import {
+  tpsSearchTasks,
+  spfSearchTasks,
+  anywhoSearchTasks,
+  tpsSearchResults,
+  spfSearchResults,
+  anywhoSearchResults,
+  tpsDetailCache,
+  spfDetailCache,
+  anywhoDetailCache,
+} from "../../drizzle/schema";
+import type {
+  PeopleSearchTaskStore,
+  PeopleSearchTaskStatus,
+  PeopleSearchMode,
+  PeopleSearchPair,
+  TaskLogEntry,
+} from "./types";
+
+export type PeopleSearchTaskTable =
+  | typeof tpsSearchTasks
+  | typeof spfSearchTasks
+  | typeof anywhoSearchTasks;
+
+export type PeopleSearchResultTable =
+  | typeof tpsSearchResults
+  | typeof spfSearchResults
+  | typeof anywhoSearchResults;
+
+export type PeopleSearchDetailCacheTable =
+  | typeof tpsDetailCache
+  | typeof spfDetailCache
+  | typeof anywhoDetailCache;
+
+/** 任务表记录（三张表结构一致） */
+export type PeopleSearchTaskRow = typeof tpsSearchTasks.$inferSelect;
+
+/**
+ * 任务表完整操作：执行器使用的状态更新，以及路由使用的创建和查询
+ */
+export interface PeopleSearchTaskTableStore extends PeopleSearchTaskStore {
+  create(data: {
+    userId: number;
+    mode: PeopleSearchMode;
+    names: string[];
+    locations: string[];
+    pairs?: PeopleSearchPair[];
+    filters: any;
+  }): Promise<{ id: number; taskId: string }>;
+  /** 按任务 ID（对外暴露的字符串 ID）读取任务 */
+  getByTaskId(taskId: string): Promise<PeopleSearchTaskRow | null>;
+  /** 搜索历史（userIds 为本人或团队成员），按创建时间倒序 */
+  listByUsers(userIds: number[], page: number, pageSize: number): Promise<{ data: PeopleSearchTaskRow[]; total: number }>;
+}
+
+/** 日志最多保留条数，避免超过 JSON 字段大小限制 */
+const MAX_STORED_LOGS = 100;
+
+async function db() {
+  const database = await getDb();
+  if (!database) throw new Error("数据库连接失败");
+  return database;
+}
+
+function truncateLogs(logs: TaskLogEntry[]): TaskLogEntry[] {
+  return logs.slice(-MAX_STORED_LOGS);
+}
+
+/**
+ * 截断字符串以防止超出数据库列长度限制（结果字段映射使用）
+ */
+export function truncateText(str: string | undefined | null, maxLength: number): string {
+  const s = str || "";
+  return s.length > maxLength ? s.slice(0, maxLength) : s;
+}
+
+/**
+ * 为指定任务表创建存储实现
+ */
+export function createPeopleSearchTaskStore(table: PeopleSearchTaskTable): PeopleSearchTaskTableStore {
+  // 三张表列定义相同，统一按 TPS 表类型操作
+  const t = table as typeof tpsSearchTasks;
+
+  return {
+    async create(data) {
+      const database = await db();
+      const taskId = crypto.randomBytes(16).toString("hex");
+      const result = await database.insert(t).values({
+        taskId,
+        userId: data.userId,
+        mode: data.mode,
+        names: data.names,
+        locations: data.locations,
+        pairs: data.pairs ?? null,
+        filters: data.filters,
+        status: "pending",
+        logs: [],
+      });
+      return { id: Number(result[0].insertId), taskId };
+    },
+
+    async getByTaskId(taskId) {
+      const database = await db();
+      const rows = await database.select().from(t).where(eq(t.taskId, taskId)).limit(1);
+      return rows[0] ?? null;
+    },
+
+    async listByUsers(userIds, page, pageSize) {
+      const database = await db();
+      const offset = (page - 1) * pageSize;
+      const [rows, countResult] = await Promise.all([
+        database
+          .select()
+          .from(t)
+          .where(inArray(t.userId, userIds))
+          .orderBy(desc(t.createdAt))
+          .limit(pageSize)
+          .offset(offset),
+        database
+          .select({ count: sql<number>`count(*)` })
+          .from(t)
+          .where(inArray(t.userId, userIds)),
+      ]);
+      return { data: rows, total: countResult[0]?.count || 0 };
+    },
+
+    async getStatus(task) {
+      const database = await db();
+      const rows = await database
+        .select({ status: t.status })
+        .from(t)
+        .where(eq(t.id, task.taskDbId))
+        .limit(1);
+      return (rows[0]?.status as PeopleSearchTaskStatus | undefined) ?? null;
+    },
+
+    async updateProgress(task, data) {
+      const database = await db();
+      const updateData: any = {};
+
+      if (data.status !== undefined) updateData.status = data.status;
+      if (data.totalSubTasks !== undefined) updateData.totalSubTasks = data.totalSubTasks;
+      if (data.completedSubTasks !== undefined) updateData.completedSubTasks = data.completedSubTasks;
+      if (data.progress !== undefined) updateData.progress = data.progress;
+      if (data.totalResults !== undefined) updateData.totalResults = data.totalResults;
+      if (data.searchPageRequests !== undefined) updateData.searchPageRequests = data.searchPageRequests;
+      if (data.detailPageRequests !== undefined) updateData.detailPageRequests = data.detailPageRequests;
+      if (data.cacheHits !== undefined) updateData.cacheHits = data.cacheHits;
+      if (data.creditsUsed !== undefined) updateData.creditsUsed = data.creditsUsed.toFixed(2);
+      if (data.completedSubTaskIndexes !== undefined) updateData.completedSubTaskIndexes = data.completedSubTaskIndexes;
+      if (data.logs !== undefined) updateData.logs = truncateLogs(data.logs);
+
+      if (data.status === "running") {
+        updateData.startedAt = new Date();
+      }
+
+      if (Object.keys(updateData).length === 0) return;
+      await database.update(t).set(updateData).where(eq(t.id, task.taskDbId));
+    },
+
+    async finish(task, status, stats, logs) {
+      const database = await db();
+      const updateData: any = {
+        status,
+        progress: 100,
+        totalResults: stats.totalResults,
+        searchPageRequests: stats.searchPageRequests,
+        detailPageRequests: stats.detailPageRequests,
+        cacheHits: stats.cacheHits,
+        creditsUsed: stats.creditsUsed.toFixed(2),
+        logs: truncateLogs(logs),
+        completedAt: new Date(),
+      };
+      if (stats.completedSubTaskIndexes !== undefined) {
+        updateData.completedSubTaskIndexes = stats.completedSubTaskIndexes;
+      }
+      await database.update(t).set(updateData).where(eq(t.id, task.taskDbId));
+    },
+
+    async fail(task, errorMessage, logs) {
+      const database = await db();
+      // 只更新状态和日志，completedSubTaskIndexes / totalResults / creditsUsed 保留最后一次检查点的值
+      // 截断过长的错误消息
+      const truncatedErrorMessage = errorMessage.length > 500
+        ? errorMessage.substring(0, 500) + "..."
+        : errorMessage;
+      await database.update(t).set({
+        status: "failed",
+        errorMessage: truncatedErrorMessage,
+        logs: truncateLogs(logs),
+        completedAt: new Date(),
+      }).where(eq(t.id, task.taskDbId));
+    },
+
+    async cancel(task) {
+      const database = await db();
+      // 只更新未结束的任务，避免覆盖执行器刚写入的最终状态
+      await database.update(t)
+        .set({ status: "cancelled" })
+        .where(and(eq(t.id, task.taskDbId), inArray(t.status, ["pending", "running"])));
+    },
+
+    async getResumeState(task) {
+      const database = await db();
+      const rows = await database
+        .select({
+          completedSubTaskIndexes: t.completedSubTaskIndexes,
+          creditsUsed: t.creditsUsed,
+          logs: t.logs,
+        })
+        .from(t)
+        .where(eq(t.id, task.taskDbId))
+        .limit(1);
+      const row = rows[0];
+      if (!row) return null;
+      return {
+        completedSubTaskIndexes: row.completedSubTaskIndexes || [],
+        creditsUsed: parseFloat(row.creditsUsed) || 0,
+        logs: row.logs || [],
+      };
+    },
+
+    async reopen(task) {
+      const database = await db();
+      const result = await database.update(t).set({
+        status: "pending",
+        errorMessage: null,
+        completedAt: null,
+      }).where(and(eq(t.id, task.taskDbId), inArray(t.status, ["failed", "insufficient_credits"])));
+      return result[0].affectedRows > 0;
+    },
+
+    async isUnfinished(task) {
+      const database = await db();
+      const rows = await database
+        .select({ status: t.status, completedAt: t.completedAt })
+        .from(t)
+        .where(eq(t.id, task.taskDbId))
+        .limit(1);
+      const row = rows[0];
+      if (!row) return false;
+      return row.status === "pending" || row.status === "running"
+        || (row.status === "cancelled" && !row.completedAt);
+    },
+
+    async interrupt(task, errorMessage, stats, logMessage) {
+      const database = await db();
+      const rows = await database
+        .select({ logs: t.logs })
+        .from(t)
+        .where(eq(t.id, task.taskDbId))
+        .limit(1);
+      const logs = [...(rows[0]?.logs || []), { timestamp: new Date().toISOString(), message: logMessage }];
+      const result = await database.update(t).set({
+        status: "failed",
+        errorMessage,
+        totalResults: stats.totalResults,
+        creditsUsed: stats.creditsUsed.toFixed(2),
+        logs: truncateLogs(logs),
+        completedAt: new Date(),
+      }).where(and(
+        eq(t.id, task.taskDbId),
+        or(
+          inArray(t.status, ["pending", "running"]),
+          and(eq(t.status, "cancelled"), isNull(t.completedAt))
+        )
+      ));
+      return result[0].affectedRows > 0;
+    },
+  };
+}
+
+/**
+ * 为指定结果表创建公共读写实现
+ *
+ * 写入的行由各站点适配器映射（字段和截断长度因站点而异），此处只负责插入和查询
+ */
+export function createPeopleSearchResultStore<TTable extends PeopleSearchResultTable>(table: TTable) {
+  type Row = TTable["$inferSelect"];
+  type Insert = TTable["$inferInsert"];
+  // 公共列（id / taskId）定义相同，统一按 TPS 表类型构建查询
+  const t = table as typeof tpsSearchResults;
+
+  return {
+    async insert(rows: Insert[]): Promise<void> {
+      if (rows.length === 0) return;
+      const database = await db();
+      await database.insert(t).values(rows as typeof tpsSearchResults.$inferInsert[]);
+    },
+
+    /** 分页读取（最新的结果在前） */
+    async list(taskDbId: number, page: number, pageSize: number): Promise<{ data: Row[]; total: number }> {
+      const database = await db();
+      const offset = (page - 1) * pageSize;
+      const [rows, countResult] = await Promise.all([
+        database
+          .select()
+          .from(t)
+          .where(eq(t.taskId, taskDbId))
+          .orderBy(desc(t.id))
+          .limit(pageSize)
+          .offset(offset),
+        database
+          .select({ count: sql<number>`count(*)` })
+          .from(t)
+          .where(eq(t.taskId, taskDbId)),
+      ]);
+      return { data: rows as Row[], total: countResult[0]?.count || 0 };
+    },
+
+    /** 读取任务的全部结果（瀑布式搜索合并等） */
+    async loadAll(taskDbId: number): Promise<Row[]> {
+      const database = await db();
+      const rows = await database.select().from(t).where(eq(t.taskId, taskDbId)).orderBy(t.id);
+      return rows as Row[];
+    },
+
+    /** 按 id 顺序分批读取结果（流式导出用，避免一次性加载全部结果） */
+    async loadAfter(taskDbId: number, afterId: number, limit: number): Promise<Row[]> {
+      const database = await db();
+      const rows = await database
+        .select()
+        .from(t)
+        .where(and(eq(t.taskId, taskDbId), gt(t.id, afterId)))
+        .orderBy(t.id)
+        .limit(limit);
+      return rows as Row[];
+    },
+
+    async count(taskDbId: number): Promise<number> {
+      const database = await db();
+      const rows = await database
+        .select({ count: sql<number>`count(*)` })
+        .from(t)
+        .where(eq(t.taskId, taskDbId));
+      return Number(rows[0]?.count) || 0;
+    },
+  };
+}
+
+/**
+ * 为指定详情缓存表创建读写实现
+ */
+export function createPeopleSearchDetailCache<TTable extends PeopleSearchDetailCacheTable>(table: TTable) {
+  type Row = TTable["$inferSelect"];
+  // 三张缓存表列定义相同，统一按 TPS 表类型操作
+  const t = table as typeof tpsDetailCache;
+
+  return {
+    /** 读取未过期的缓存 */
+    async get(links: string[]): Promise<Row[]> {
+      if (links.length === 0) return [];
+      const database = await db();
+      const rows = await database
+        .select()
+        .from(t)
+        .where(and(inArray(t.detailLink, links), gte(t.expiresAt, new Date())));
+      return rows as Row[];
+    },
+
+    /** 写入缓存，已存在的链接刷新数据和过期时间 */
+    async save(items: Array<{ link: string; data: any }>, cacheDays: number): Promise<void> {
+      if (items.length === 0) return;
+      const database = await db();
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + cacheDays);
+
+      for (const item of items) {
+        try {
+          await database.insert(t).values({
+            detailLink: item.link,
+            data: item.data,
+            expiresAt,
+          }).onDuplicateKeyUpdate({
+            set: { data: item.data, expiresAt },
+          });
+        } catch (error) {
+          // 缓存写入失败不影响主流程
+          console.error(`详情缓存保存失败: ${item.link}`, error);
+        }
+      }
+    },
+  };
+}
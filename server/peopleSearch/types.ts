@@ -0,0 +1,326 @@
+/**
+ * 人员搜索统一抽象 - 类型定义
+ *
+ * TPS / SPF / Anywho 三个站点的搜索流程完全一致：
+ * 搜索页 → 详情页 → 过滤 → 去重 → 保存，只有站点解析和费用参数不同。
+ *
+ * 每个站点只需实现一个 PeopleSearchProvider 适配器，
+ * 任务执行、实时扣费、进度推送、结果保存统一由 runner.ts 负责。
+ */
+
+import type { PeopleSearchCreditTracker } from "./realtimeCredits";
+
+// ==================== 基础类型 ====================
+
+/** 数据源标识（与 WebSocket 推送的 source 字段一致） */
+export type PeopleSearchSource = "tps" | "spf" | "anywho";
+
+/** pairs：按 pairs 逐条搜索「姓名 + 地点」，不做笛卡尔积 */
+export type PeopleSearchMode = "nameOnly" | "nameLocation" | "pairs";
+
+export type PeopleSearchTaskStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "insufficient_credits";
+
+export interface TaskLogEntry {
+  timestamp: string;
+  message: string;
+}
+
+/** 一条「姓名 + 地点」配对（pairs 模式） */
+export interface PeopleSearchPair {
+  name: string;
+  location: string;
+}
+
+/** 搜索任务输入（三个站点的 search / estimateCost 共用） */
+export interface PeopleSearchInput<TFilters = Record<string, unknown>> {
+  names: string[];
+  locations?: string[];
+  /** pairs 模式的配对列表，此时 names 为各条配对的姓名（用于展示） */
+  pairs?: PeopleSearchPair[];
+  mode: PeopleSearchMode;
+  filters?: TFilters;
+}
+
+/** 子任务：一个姓名 + 一个地点 */
+export interface PeopleSearchSubTask {
+  name: string;
+  location: string;
+  index: number;
+}
+
+/** 任务引用：TPS/SPF 按数据库 ID 操作，Anywho 按 taskId 操作，统一传入两者 */
+export interface PeopleSearchTaskRef {
+  taskDbId: number;
+  taskId: string;
+}
+
+// ==================== 配置与费用模型 ====================
+
+/**
+ * 站点运行时配置（由各站点的 *_config 表转换而来）
+ */
+export interface PeopleSearchRuntimeConfig {
+  enabled: boolean;
+  token: string;
+  searchCost: number;
+  detailCost: number;
+  /** 每个子任务最多搜索的页数 */
+  maxPages: number;
+  cacheDays: number;
+  defaultMinAge: number;
+  defaultMaxAge: number;
+}
+
+/**
+ * 费用预估结果
+ *
+ * 通用字段供前端统一展示，各站点可附加自己的字段（如 Anywho 的年龄段）
+ */
+export interface PeopleSearchCostEstimate {
+  subTaskCount: number;
+  maxPages: number;
+  maxSearchPages: number;
+  maxSearchCost: number;
+  estimatedCost: number;
+  searchCost: number;
+  detailCost: number;
+  [extra: string]: unknown;
+}
+
+// ==================== 执行上下文 ====================
+
+/** 详情阶段进度信息 */
+export interface PeopleSearchDetailProgress {
+  completed: number;
+  total: number;
+  phase?: "fetching" | "retrying";
+}
+
+/**
+ * 适配器执行钩子可使用的上下文
+ */
+export interface PeopleSearchContext<TFilters> {
+  userId: number;
+  task: PeopleSearchTaskRef;
+  config: PeopleSearchRuntimeConfig;
+  filters: TFilters;
+  creditTracker: PeopleSearchCreditTracker;
+  /** 继续执行时读取详情缓存（之前已付费获取的详情不再重复扣费） */
+  reuseDetailCache: boolean;
+  addLog: (message: string) => void;
+  /** 任务是否已被用户停止 */
+  isCancelled: () => Promise<boolean>;
+  onDetailProgress: (info: PeopleSearchDetailProgress) => void;
+}
+
+/** 单个子任务的搜索结果 */
+export interface PeopleSearchPhaseResult<TSearchItem> {
+  success: boolean;
+  items: TSearchItem[];
+  /** 实际发出的搜索页请求数（由 runner 按此扣费） */
+  searchPageRequests: number;
+  filteredOut: number;
+  error?: string;
+}
+
+/** 待获取详情的搜索结果 */
+export interface PeopleSearchDetailItem<TSearchItem> {
+  item: TSearchItem;
+  subTask: PeopleSearchSubTask;
+}
+
+/** 详情阶段结果（详情页费用由适配器在获取过程中扣除） */
+export interface PeopleSearchDetailPhaseResult<TDetail> {
+  results: Array<{ subTask: PeopleSearchSubTask; details: TDetail[] }>;
+  detailPageRequests: number;
+  /** 详情缓存命中数（不扣费） */
+  cacheHits?: number;
+  filteredOut: number;
+  stoppedDueToCredits: boolean;
+}
+
+/**
+ * 统一结果行（跨站点合并、导出时使用）
+ *
+ * 各站点结果表字段不同，由适配器的 loadResults 归一化为此结构
+ */
+export interface PeopleSearchResultRow {
+  searchName: string | null;
+  searchLocation: string | null;
+  name: string | null;
+  age: number | null;
+  city: string | null;
+  state: string | null;
+  location: string | null;
+  phone: string | null;
+  phoneType: string | null;
+  carrier: string | null;
+  allPhones: string[];
+  email: string | null;
+  allEmails: string[];
+  detailLink: string | null;
+}
+
+/** 任务执行摘要（runPeopleSearchTask 的返回值） */
+export interface PeopleSearchRunSummary {
+  status: PeopleSearchTaskStatus;
+  totalResults: number;
+  creditsUsed: number;
+}
+
+/**
+ * 继续执行选项（任务失败、积分不足或服务重启中断后，从未完成的子任务继续）
+ *
+ * 已完成的子任务不再重新搜索，新结果追加到同一任务，最终统计在之前的结果数和积分上累加
+ */
+export interface PeopleSearchResumeOptions {
+  /** 已完成的子任务序号 */
+  completedSubTaskIndexes: number[];
+  /** 之前已保存的结果数 */
+  previousResults: number;
+  /** 之前已计费的积分 */
+  previousCreditsUsed: number;
+  /** 之前已保存结果的电话（跨执行去重） */
+  previousPhones: string[];
+  /** 之前的任务日志 */
+  previousLogs: TaskLogEntry[];
+}
+
+// ==================== 任务存储 ====================
+
+export interface PeopleSearchTaskStats {
+  totalResults: number;
+  searchPageRequests: number;
+  detailPageRequests: number;
+  cacheHits: number;
+  creditsUsed: number;
+  /** 已完成（搜索和详情均已处理完毕）的子任务序号，继续执行时跳过 */
+  completedSubTaskIndexes?: number[];
+}
+
+/** 继续执行所需的任务状态 */
+export interface PeopleSearchResumeState {
+  completedSubTaskIndexes: number[];
+  creditsUsed: number;
+  logs: TaskLogEntry[];
+}
+
+export interface PeopleSearchProgressUpdate {
+  status?: PeopleSearchTaskStatus;
+  totalSubTasks?: number;
+  completedSubTasks?: number;
+  progress?: number;
+  totalResults?: number;
+  searchPageRequests?: number;
+  detailPageRequests?: number;
+  cacheHits?: number;
+  creditsUsed?: number;
+  /** 检查点：已完成的子任务序号（每个子任务完成时写入） */
+  completedSubTaskIndexes?: number[];
+  logs?: TaskLogEntry[];
+}
+
+/**
+ * 任务表操作（三张任务表结构一致，见 store.ts）
+ */
+export interface PeopleSearchTaskStore {
+  getStatus(task: PeopleSearchTaskRef): Promise<PeopleSearchTaskStatus | null>;
+  updateProgress(task: PeopleSearchTaskRef, data: PeopleSearchProgressUpdate): Promise<void>;
+  finish(
+    task: PeopleSearchTaskRef,
+    status: "completed" | "cancelled" | "insufficient_credits",
+    stats: PeopleSearchTaskStats,
+    logs: TaskLogEntry[]
+  ): Promise<void>;
+  /** 标记失败，保留已写入的检查点和结果统计，供继续执行使用 */
+  fail(task: PeopleSearchTaskRef, errorMessage: string, logs: TaskLogEntry[]): Promise<void>;
+  /** 将等待中/运行中的任务标记为 cancelled（已结束的任务不受影响） */
+  cancel(task: PeopleSearchTaskRef): Promise<void>;
+  /** 读取继续执行所需的状态 */
+  getResumeState(task: PeopleSearchTaskRef): Promise<PeopleSearchResumeState | null>;
+  /**
+   * 将失败或积分不足的任务重新置为 pending，准备继续执行
+   * 任务状态已变化（如重复提交）时返回 false
+   */
+  reopen(task: PeopleSearchTaskRef): Promise<boolean>;
+  /**
+   * 任务是否未正常结束：等待中/运行中，或已被停止但执行器尚未收尾（completedAt 为空）
+   */
+  isUnfinished(task: PeopleSearchTaskRef): Promise<boolean>;
+  /**
+   * 将未正常结束的任务标记为 failed，写入对账后的结果数和积分，并追加一条日志
+   * 任务已结束或已被其他进程处理时返回 false
+   */
+  interrupt(
+    task: PeopleSearchTaskRef,
+    errorMessage: string,
+    stats: { totalResults: number; creditsUsed: number },
+    logMessage: string
+  ): Promise<boolean>;
+}
+
+// ==================== 适配器接口 ====================
+
+/**
+ * 人员搜索站点适配器
+ *
+ * 新增站点时只需实现此接口并在 registry.ts 中注册
+ */
+export interface PeopleSearchProvider<TFilters, TSearchItem, TDetail> {
+  source: PeopleSearchSource;
+  /** 日志和积分记录中的短名称，如 "TPS" */
+  label: string;
+  /** 站点全称，如 "TruePeopleSearch" */
+  displayName: string;
+  /** 用户活动日志中的动作名称 */
+  activityAction: string;
+  /** 搜索阶段同时执行的子任务数 */
+  searchConcurrency: number;
+
+  // -------- 站点解析 --------
+  buildSearchUrl(name: string, location: string, page?: number): string;
+  parseSearchPage(html: string): TSearchItem[];
+  parseDetailPage(html: string, item: TSearchItem): TDetail[];
+  applyFilters(detail: TDetail, filters: TFilters): boolean;
+
+  // -------- 费用模型 --------
+  getRuntimeConfig(): Promise<PeopleSearchRuntimeConfig>;
+  estimateCost(input: PeopleSearchInput<TFilters>, config: PeopleSearchRuntimeConfig): PeopleSearchCostEstimate;
+
+  // -------- 执行钩子 --------
+  search(subTask: PeopleSearchSubTask, ctx: PeopleSearchContext<TFilters>): Promise<PeopleSearchPhaseResult<TSearchItem>>;
+  fetchDetails(
+    items: Array<PeopleSearchDetailItem<TSearchItem>>,
+    ctx: PeopleSearchContext<TFilters>
+  ): Promise<PeopleSearchDetailPhaseResult<TDetail>>;
+  /** 用于跨子任务电话去重 */
+  getPhone(detail: TDetail): string | undefined;
+
+  // -------- 存储 --------
+  store: PeopleSearchTaskStore;
+  /** 在本站点任务表中创建任务 */
+  createTask(userId: number, input: PeopleSearchInput<TFilters>, config: PeopleSearchRuntimeConfig): Promise<PeopleSearchTaskRef>;
+  /** 读取任务全部结果并归一化 */
+  loadResults(task: PeopleSearchTaskRef): Promise<PeopleSearchResultRow[]>;
+  /** 已保存的结果数（COUNT 查询，不加载结果） */
+  countResults(task: PeopleSearchTaskRef): Promise<number>;
+  saveResults(task: PeopleSearchTaskRef, subTask: PeopleSearchSubTask, details: TDetail[]): Promise<void>;
+  logApi(data: {
+    userId: number;
+    endpoint: string;
+    requestParams?: unknown;
+    responseStatus: number;
+    success: boolean;
+    errorMessage?: string;
+    creditsUsed?: number;
+  }): Promise<void>;
+}
+
+/** 类型擦除后的适配器，用于注册表和通用代码 */
+export type AnyPeopleSearchProvider = PeopleSearchProvider<any, any, any>;
@@ -0,0 +1,338 @@
+/**
+ * 电话反查数据库操作
+ */
+
+import { getDb, getConfig } from "../db";
+import {
+  phoneLookupTasks,
+  phoneLookupResults,
+  phoneLookupCache,
+  InsertPhoneLookupResult,
+  PhoneLookupCache,
+} from "../../drizzle/schema";
+import { eq, desc, sql, and, or, inArray, isNull, gt, gte } from "drizzle-orm";
+import crypto from "crypto";
+import type { TaskLogEntry } from "../peopleSearch/types";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+export type PhoneOwnerCacheData = PhoneLookupCache["data"];
+
+// ==================== 配置 ====================
+
+const DEFAULT_LOOKUP_CREDITS = 1;
+const DEFAULT_CACHE_DAYS = 180;
+
+/**
+ * 获取电话反查配置（系统配置 PHONE_LOOKUP_CREDITS / PHONE_LOOKUP_CACHE_DAYS）
+ * 抓取使用与 LinkedIn 电话验证相同的 Scrape.do 令牌
+ */
+export async function getPhoneLookupConfig() {
+  const [creditsConfig, cacheDaysConfig, apiKey, token] = await Promise.all([
+    getConfig("PHONE_LOOKUP_CREDITS"),
+    getConfig("PHONE_LOOKUP_CACHE_DAYS"),
+    getConfig("SCRAPE_DO_API_KEY"),
+    getConfig("SCRAPE_DO_TOKEN"),
+  ]);
+
+  const lookupCost = creditsConfig ? parseFloat(creditsConfig) : NaN;
+  const cacheDays = cacheDaysConfig ? parseInt(cacheDaysConfig, 10) : NaN;
+
+  return {
+    enabled: !!(apiKey || token),
+    lookupCost: !isNaN(lookupCost) && lookupCost >= 0 ? lookupCost : DEFAULT_LOOKUP_CREDITS,
+    cacheDays: !isNaN(cacheDays) && cacheDays > 0 ? cacheDays : DEFAULT_CACHE_DAYS,
+  };
+}
+
+// ==================== 任务相关 ====================
+
+/**
+ * 创建电话反查任务
+ */
+export async function createPhoneLookupTask(data: { userId: number; phones: string[] }) {
+  const database = await db();
+  const taskId = crypto.randomBytes(16).toString("hex");
+
+  const result = await database.insert(phoneLookupTasks).values({
+    taskId,
+    userId: data.userId,
+    phones: data.phones,
+    totalPhones: data.phones.length,
+    status: "pending",
+    logs: [],
+  });
+
+  return {
+    id: Number(result[0].insertId),
+    taskId,
+  };
+}
+
+/**
+ * 获取电话反查任务
+ */
+export async function getPhoneLookupTask(taskId: string) {
+  const database = await db();
+  const tasks = await database
+    .select()
+    .from(phoneLookupTasks)
+    .where(eq(phoneLookupTasks.taskId, taskId));
+
+  return tasks[0] || null;
+}
+
+/**
+ * 更新任务进度
+ */
+export async function updatePhoneLookupTask(
+  taskDbId: number,
+  data: {
+    status?: "running" | "completed" | "failed" | "cancelled" | "insufficient_credits";
+    progress?: number;
+    completedPhones?: number;
+    foundPhones?: number;
+    cacheHits?: number;
+    creditsUsed?: number;
+    logs?: TaskLogEntry[];
+    errorMessage?: string;
+  }
+) {
+  const database = await db();
+  const updateData: any = { ...data };
+
+  if (data.creditsUsed !== undefined) {
+    updateData.creditsUsed = data.creditsUsed.toFixed(2);
+  }
+  if (data.status === "running") {
+    updateData.startedAt = new Date();
+  }
+  if (data.status && data.status !== "running") {
+    updateData.completedAt = new Date();
+  }
+  if (data.errorMessage) {
+    updateData.errorMessage = data.errorMessage.substring(0, 500);
+  }
+
+  await database
+    .update(phoneLookupTasks)
+    .set(updateData)
+    .where(eq(phoneLookupTasks.id, taskDbId));
+}
+
+/**
+ * 获取任务当前状态（执行器检查是否被用户停止）
+ */
+export async function getPhoneLookupTaskStatus(taskDbId: number) {
+  const database = await db();
+  const rows = await database
+    .select({ status: phoneLookupTasks.status })
+    .from(phoneLookupTasks)
+    .where(eq(phoneLookupTasks.id, taskDbId));
+  return rows[0]?.status ?? null;
+}
+
+/**
+ * 标记任务为取消状态
+ */
+export async function cancelPhoneLookupTask(taskDbId: number) {
+  const database = await db();
+  await database
+    .update(phoneLookupTasks)
+    .set({ status: "cancelled" })
+    .where(eq(phoneLookupTasks.id, taskDbId));
+}
+
+/**
+ * 将未正常结束的任务（服务重启时仍在执行）标记为失败，写入对账后的积分
+ * 任务已结束或已被其他进程处理时返回 false
+ */
+export async function interruptPhoneLookupTask(
+  taskDbId: number,
+  errorMessage: string,
+  data: { completedPhones: number; creditsUsed: number; logMessage: string }
+) {
+  const database = await db();
+  const rows = await database
+    .select({ logs: phoneLookupTasks.logs })
+    .from(phoneLookupTasks)
+    .where(eq(phoneLookupTasks.id, taskDbId));
+  const logs = [...(rows[0]?.logs || []), { timestamp: new Date().toISOString(), message: data.logMessage }];
+
+  const result = await database
+    .update(phoneLookupTasks)
+    .set({
+      status: "failed",
+      errorMessage,
+      completedPhones: data.completedPhones,
+      creditsUsed: data.creditsUsed.toFixed(2),
+      logs: logs.slice(-100),
+      completedAt: new Date(),
+    })
+    .where(and(
+      eq(phoneLookupTasks.id, taskDbId),
+      or(
+        inArray(phoneLookupTasks.status, ["pending", "running"]),
+        and(eq(phoneLookupTasks.status, "cancelled"), isNull(phoneLookupTasks.completedAt))
+      )
+    ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 获取电话反查历史（userIds 为本人或团队成员）
+ */
+export async function getUserPhoneLookupTasks(
+  userIds: number[],
+  page: number = 1,
+  pageSize: number = 20
+) {
+  const database = await db();
+  const offset = (page - 1) * pageSize;
+
+  const [tasks, countResult] = await Promise.all([
+    database
+      .select({
+        id: phoneLookupTasks.id,
+        taskId: phoneLookupTasks.taskId,
+        userId: phoneLookupTasks.userId,
+        totalPhones: phoneLookupTasks.totalPhones,
+        completedPhones: phoneLookupTasks.completedPhones,
+        foundPhones: phoneLookupTasks.foundPhones,
+        creditsUsed: phoneLookupTasks.creditsUsed,
+        status: phoneLookupTasks.status,
+        createdAt: phoneLookupTasks.createdAt,
+        completedAt: phoneLookupTasks.completedAt,
+      })
+      .from(phoneLookupTasks)
+      .where(inArray(phoneLookupTasks.userId, userIds))
+      .orderBy(desc(phoneLookupTasks.createdAt))
+      .limit(pageSize)
+      .offset(offset),
+    database
+      .select({ count: sql<number>`count(*)` })
+      .from(phoneLookupTasks)
+      .where(inArray(phoneLookupTasks.userId, userIds)),
+  ]);
+
+  return {
+    data: tasks,
+    total: countResult[0]?.count || 0,
+  };
+}
+
+// ==================== 结果相关 ====================
+
+/**
+ * 保存反查结果
+ */
+export async function savePhoneLookupResults(
+  taskDbId: number,
+  rows: Omit<InsertPhoneLookupResult, "taskId">[]
+) {
+  if (rows.length === 0) return;
+  const database = await db();
+  await database.insert(phoneLookupResults).values(
+    rows.map(row => ({ ...row, taskId: taskDbId }))
+  );
+}
+
+/**
+ * 任务已保存结果的号码（中断对账用）
+ */
+export async function countPhoneLookupResults(taskDbId: number) {
+  const database = await db();
+  const rows = await database
+    .select({
+      total: sql<number>`count(*)`,
+      found: sql<number>`COALESCE(SUM(${phoneLookupResults.found}), 0)`,
+    })
+    .from(phoneLookupResults)
+    .where(eq(phoneLookupResults.taskId, taskDbId));
+  return { total: Number(rows[0]?.total) || 0, found: Number(rows[0]?.found) || 0 };
+}
+
+/**
+ * 分页获取反查结果
+ */
+export async function getPhoneLookupResults(
+  taskDbId: number,
+  page: number = 1,
+  pageSize: number = 50
+) {
+  const database = await db();
+  const offset = (page - 1) * pageSize;
+
+  const [results, countResult] = await Promise.all([
+    database
+      .select()
+      .from(phoneLookupResults)
+      .where(eq(phoneLookupResults.taskId, taskDbId))
+      .orderBy(phoneLookupResults.id)
+      .limit(pageSize)
+      .offset(offset),
+    database
+      .select({ count: sql<number>`count(*)` })
+      .from(phoneLookupResults)
+      .where(eq(phoneLookupResults.taskId, taskDbId)),
+  ]);
+
+  return {
+    data: results,
+    total: countResult[0]?.count || 0,
+  };
+}
+
+/**
+ * 按 id 顺序分批读取结果（流式导出用，避免一次性加载全部结果）
+ */
+export async function getPhoneLookupResultsAfter(taskDbId: number, afterId: number, limit: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(phoneLookupResults)
+    .where(and(eq(phoneLookupResults.taskId, taskDbId), gt(phoneLookupResults.id, afterId)))
+    .orderBy(phoneLookupResults.id)
+    .limit(limit);
+}
+
+// ==================== 缓存相关 ====================
+
+/**
+ * 批量获取未过期的号码缓存
+ */
+export async function getCachedPhoneOwners(phones: string[]) {
+  const cached = new Map<string, PhoneOwnerCacheData>();
+  if (phones.length === 0) return cached;
+
+  const database = await db();
+  const rows = await database
+    .select({ phone: phoneLookupCache.phone, data: phoneLookupCache.data })
+    .from(phoneLookupCache)
+    .where(and(
+      inArray(phoneLookupCache.phone, phones),
+      gte(phoneLookupCache.expiresAt, new Date())
+    ));
+
+  rows.forEach(row => cached.set(row.phone, row.data));
+  return cached;
+}
+
+/**
+ * 保存号码缓存（已存在时覆盖并延长有效期）
+ */
+export async function savePhoneOwnerCache(phone: string, data: PhoneOwnerCacheData, cacheDays: number) {
+  const database = await db();
+  const expiresAt = new Date(Date.now() + cacheDays * 24 * 60 * 60 * 1000);
+  await database
+    .insert(phoneLookupCache)
+    .values({ phone, data, expiresAt })
+    .onDuplicateKeyUpdate({ set: { data, expiresAt, createdAt: new Date() } });
+}
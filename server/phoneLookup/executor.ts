@@ -0,0 +1,250 @@
+/**
+ * 电话反查执行器
+ *
+ * 每个号码先查缓存，未命中的号码依次反查 TruePeopleSearch / FastPeopleSearch（见 linkedin/scraper.ts）：
+ * 1. 命中缓存的号码直接保存结果，不扣费
+ * 2. 其余号码按批并发反查，每批开始前按余额确定本批可查数量，查完按实际反查的号码数扣费
+ * 3. 抓取服务出错的号码不扣费，结果标记为未找到
+ *
+ * 积分不足或用户停止时立即结束，已获取的结果照常保存；
+ * 服务重启导致中断时不恢复执行，由任务队列 (services/taskQueue.ts) 标记失败并对账
+ */
+
+import { logUserActivity } from "../db";
+import { emitTaskProgress, emitTaskCompleted, emitTaskFailed, emitCreditsUpdate } from "../_core/wsEmitter";
+import { getAvailableCredits, deductSearchCredits } from "../organizations/credits";
+import { lookupPhoneOwner, PhoneOwnerLookupResult } from "../linkedin/scraper";
+import type { PeopleSearchTaskRef, TaskLogEntry } from "../peopleSearch/types";
+import type { InsertPhoneLookupResult } from "../../drizzle/schema";
+import {
+  getPhoneLookupConfig,
+  updatePhoneLookupTask,
+  getPhoneLookupTaskStatus,
+  savePhoneLookupResults,
+  getCachedPhoneOwners,
+  savePhoneOwnerCache,
+} from "./db";
+
+const MAX_LOG_ENTRIES = 100;
+const MAX_MESSAGE_LENGTH = 200;
+/** 每批同时反查的号码数 */
+const LOOKUP_CONCURRENCY = 5;
+
+export interface PhoneLookupInput {
+  phones: string[];
+}
+
+type PhoneLookupRow = Omit<InsertPhoneLookupResult, "taskId">;
+
+function toResultRow(phone: string, lookup: PhoneOwnerLookupResult): PhoneLookupRow {
+  const owner = lookup.owner;
+  return {
+    phone,
+    found: lookup.found,
+    name: owner?.name ?? null,
+    age: owner?.age ?? null,
+    city: owner?.city ?? null,
+    state: owner?.state ?? null,
+    phoneType: owner?.phoneType ?? null,
+    carrier: owner?.carrier ?? null,
+    source: lookup.found ? lookup.source : null,
+  };
+}
+
+/**
+ * 执行电话反查任务
+ */
+export async function executePhoneLookup(
+  task: PeopleSearchTaskRef,
+  userId: number,
+  input: PhoneLookupInput
+): Promise<void> {
+  const { taskDbId, taskId } = task;
+
+  console.log(`[PhoneLookup] 用户 ${userId} 开始任务 ${taskId}`);
+
+  const logs: TaskLogEntry[] = [];
+  const addLog = (message: string) => {
+    const truncatedMessage = message.length > MAX_MESSAGE_LENGTH
+      ? message.substring(0, MAX_MESSAGE_LENGTH) + "..."
+      : message;
+    if (logs.length >= MAX_LOG_ENTRIES) {
+      logs.shift();
+    }
+    logs.push({ timestamp: new Date().toISOString(), message: truncatedMessage });
+  };
+
+  const totalPhones = input.phones.length;
+  let completedPhones = 0;
+  let foundPhones = 0;
+  let cacheHits = 0;
+  let failedLookups = 0;
+  let creditsUsed = 0;
+  let finalStatus: "completed" | "cancelled" | "insufficient_credits" = "completed";
+
+  const pushProgress = async () => {
+    const progress = totalPhones > 0 ? Math.round((completedPhones / totalPhones) * 100) : 100;
+    await updatePhoneLookupTask(taskDbId, { progress, completedPhones, foundPhones, cacheHits, creditsUsed, logs });
+    emitTaskProgress(userId, taskId, "phone_lookup", {
+      progress,
+      completedPhones,
+      foundPhones,
+      cacheHits,
+      creditsUsed,
+      logs,
+    });
+  };
+
+  try {
+    const config = await getPhoneLookupConfig();
+
+    addLog(`🚀 电话反查任务启动`);
+    addLog(`📋 ${totalPhones} 个号码，每个号码 ${config.lookupCost} 积分（缓存命中不扣费）`);
+
+    // 任务在启动前已被停止时保持 cancelled
+    if ((await getPhoneLookupTaskStatus(taskDbId)) === "cancelled") {
+      finalStatus = "cancelled";
+    } else {
+      await updatePhoneLookupTask(taskDbId, { status: "running", logs });
+      emitTaskProgress(userId, taskId, "phone_lookup", { status: "running", logs });
+    }
+
+    // 1. 缓存命中的号码
+    const cached = await getCachedPhoneOwners(finalStatus === "cancelled" ? [] : input.phones);
+    if (cached.size > 0) {
+      const rows: PhoneLookupRow[] = [];
+      cached.forEach((data, phone) => {
+        rows.push({
+          phone,
+          found: true,
+          name: data.name,
+          age: data.age ?? null,
+          city: data.city ?? null,
+          state: data.state ?? null,
+          phoneType: data.phoneType ?? null,
+          carrier: data.carrier ?? null,
+          source: data.source,
+          fromCache: true,
+        });
+      });
+      await savePhoneLookupResults(taskDbId, rows);
+      cacheHits = rows.length;
+      foundPhones += rows.length;
+      completedPhones += rows.length;
+      addLog(`💾 ${rows.length} 个号码命中缓存`);
+      await pushProgress();
+    }
+
+    // 2. 逐批反查
+    const pending = input.phones.filter(phone => !cached.has(phone));
+    for (let i = 0; i < pending.length && finalStatus === "completed"; i += LOOKUP_CONCURRENCY) {
+      if ((await getPhoneLookupTaskStatus(taskDbId)) === "cancelled") {
+        finalStatus = "cancelled";
+        break;
+      }
+
+      let batch = pending.slice(i, i + LOOKUP_CONCURRENCY);
+      if (config.lookupCost > 0) {
+        const balance = await getAvailableCredits(userId);
+        const affordable = Math.floor(balance / config.lookupCost);
+        if (affordable <= 0) {
+          addLog(`⚠️ 积分不足，需要 ${config.lookupCost} 积分，当前余额 ${balance.toFixed(1)} 积分`);
+          finalStatus = "insufficient_credits";
+          break;
+        }
+        if (affordable < batch.length) {
+          batch = batch.slice(0, affordable);
+        }
+      }
+
+      const lookups = await Promise.all(batch.map(phone => lookupPhoneOwner(phone, userId)));
+
+      // 抓取服务出错的号码不扣费
+      const billable = lookups.filter(lookup => !lookup.apiError).length;
+      const amount = Math.round(billable * config.lookupCost * 100) / 100;
+      if (amount > 0) {
+        const deduction = await deductSearchCredits(userId, amount, {
+          description: `电话反查 [${taskId}] - ${billable}个号码 × ${config.lookupCost} = ${amount} 积分`,
+          relatedTaskId: taskId,
+        });
+        if (!deduction.success) {
+          addLog(`⚠️ 积分不足，本批 ${batch.length} 个号码的结果未保存`);
+          finalStatus = "insufficient_credits";
+          break;
+        }
+        creditsUsed += amount;
+        emitCreditsUpdate(userId, {
+          newBalance: deduction.newBalance,
+          deductedAmount: creditsUsed,
+          source: "phone_lookup",
+          taskId,
+        });
+      }
+
+      await savePhoneLookupResults(taskDbId, batch.map((phone, index) => toResultRow(phone, lookups[index])));
+      for (let j = 0; j < batch.length; j++) {
+        const owner = lookups[j].owner;
+        if (lookups[j].found && owner) {
+          foundPhones++;
+          await savePhoneOwnerCache(batch[j], { ...owner, source: lookups[j].source }, config.cacheDays);
+        } else if (lookups[j].apiError) {
+          failedLookups++;
+        }
+      }
+      completedPhones += batch.length;
+      await pushProgress();
+
+      // 抓取服务额度耗尽时后续号码都会失败，直接结束任务
+      if (lookups.some(lookup => lookup.apiError === "INSUFFICIENT_CREDITS")) {
+        throw new Error("数据服务暂时不可用，请稍后重试");
+      }
+    }
+
+    // 用户在最后一批结束后停止
+    if (finalStatus === "completed" && (await getPhoneLookupTaskStatus(taskDbId)) === "cancelled") {
+      finalStatus = "cancelled";
+    }
+
+    if (finalStatus === "cancelled") {
+      addLog(`⏹️ 任务已被用户停止，已保存已获取的结果`);
+    } else if (finalStatus === "insufficient_credits") {
+      addLog(`⚠️ 任务因积分不足提前结束`);
+    } else {
+      addLog(`✅ 任务完成`);
+    }
+    if (failedLookups > 0) {
+      addLog(`⚠️ ${failedLookups} 个号码查询失败，未扣费`);
+    }
+    addLog(`💰 共查询 ${completedPhones}/${totalPhones} 个号码，${foundPhones} 个查到主人，消耗 ${creditsUsed.toFixed(1)} 积分`);
+
+    await pushProgress();
+    await updatePhoneLookupTask(taskDbId, { status: finalStatus, logs });
+    emitTaskCompleted(userId, taskId, "phone_lookup", { totalResults: foundPhones, creditsUsed, status: finalStatus });
+
+    console.log(`[PhoneLookup] 用户 ${userId} 任务 ${taskId} 结束: ${finalStatus}`);
+
+    await logUserActivity({
+      userId,
+      action: "电话反查",
+      details: `反查${finalStatus === "completed" ? "完成" : finalStatus === "cancelled" ? "(用户停止)" : "(积分不足停止)"}: ${completedPhones}个号码, ${foundPhones}个查到主人, 消耗${creditsUsed.toFixed(1)}积分`,
+      ipAddress: undefined,
+      userAgent: undefined,
+    });
+  } catch (error: any) {
+    const errorMessage = error?.message || "未知错误";
+    addLog(`❌ 任务失败: ${errorMessage}`);
+
+    await updatePhoneLookupTask(taskDbId, {
+      status: "failed",
+      completedPhones,
+      foundPhones,
+      cacheHits,
+      creditsUsed,
+      errorMessage,
+      logs,
+    });
+    emitTaskFailed(userId, taskId, "phone_lookup", { error: errorMessage, creditsUsed });
+
+    console.error(`[PhoneLookup] 用户 ${userId} 任务 ${taskId} 失败:`, error);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 电话反查结果导出（流式，见 exports/stream.ts）
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergePhones, splitName } from "../exports/templates";
+import { getPhoneLookupTask, getPhoneLookupResultsAfter } from "./db";
+
+type PhoneLookupTask = NonNullable<Awaited<ReturnType<typeof getPhoneLookupTask>>>;
+type PhoneLookupResult = Awaited<ReturnType<typeof getPhoneLookupResultsAfter>>[number];
+
+const COLUMNS: ExportColumn<PhoneLookupResult>[] = [
+  { key: "phone", zh: "电话", en: "Phone", value: (r, ctx) => ctx.phone(r.phone) },
+  { key: "found", zh: "是否查到", en: "Found", value: r => r.found ? "Y" : "N" },
+  { key: "name", zh: "姓名", en: "Name", value: r => r.name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => r.age?.toString() || "" },
+  { key: "city", zh: "城市", en: "City", value: r => r.city || "" },
+  { key: "state", zh: "州", en: "State", value: r => r.state || "" },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => r.phoneType || "" },
+  { key: "carrier", zh: "运营商", en: "Carrier", value: r => r.carrier || "" },
+  { key: "source", zh: "数据来源", en: "Source", value: r => r.source || "" },
+  { key: "createdAt", zh: "获取时间", en: "Retrieved At", value: r => new Date(r.createdAt).toISOString().split("T")[0] },
+];
+
+export const phoneLookupExporter: TaskExporter<PhoneLookupTask, PhoneLookupResult> = {
+  columns: COLUMNS,
+
+  getTask: getPhoneLookupTask,
+
+  isExportable: task => task.status !== "pending" && task.status !== "running",
+
+  createSource: task => ({
+    filename: `DataReach_PhoneLookup_${task.taskId}_${new Date().toISOString().split("T")[0]}`,
+    fetchBatch: (afterId, limit) => getPhoneLookupResultsAfter(task.id, afterId, limit),
+  }),
+
+  toLead: r => ({
+    ...splitName(r.name),
+    fullName: r.name || "",
+    age: r.age,
+    address: r.city && r.state ? `${r.city}, ${r.state}` : "",
+    city: r.city || "",
+    state: r.state || "",
+    company: "",
+    jobTitle: "",
+    linkedinUrl: "",
+    phones: mergePhones({ number: r.phone, type: r.phoneType }),
+    emails: [],
+    source: r.source || "Phone Lookup",
+  }),
+};
@@ -0,0 +1,41 @@
+/**
+ * 电话号码解析与归一化
+ *
+ * 只支持美国号码：去掉非数字字符和国家码 1，保留 10 位号码；
+ * 区号和交换码首位不能是 0 或 1（NANP 规则）
+ */
+
+/** 单个任务最多号码数 */
+export const MAX_PHONES_PER_TASK = 1000;
+
+/**
+ * 归一化为 10 位号码，无效时返回 null
+ */
+export function normalizeUsPhone(raw: string): string | null {
+  const digits = raw.replace(/\D/g, "").replace(/^1(?=\d{10}$)/, "");
+  if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) return null;
+  return digits;
+}
+
+/**
+ * 解析号码列表：归一化、去重，并返回无效的原始输入
+ */
+export function parsePhoneList(entries: string[]): { phones: string[]; invalid: string[] } {
+  const phones: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const phone = normalizeUsPhone(trimmed);
+    if (!phone) {
+      invalid.push(trimmed);
+    } else if (!seen.has(phone)) {
+      seen.add(phone);
+      phones.push(phone);
+    }
+  }
+
+  return { phones, invalid };
+}
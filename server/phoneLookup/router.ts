@@ -0,0 +1,240 @@
+/**
+ * 电话反查 tRPC 路由
+ *
+ * 用户粘贴或上传号码列表，逐个反查号码主人的姓名、年龄、地点、电话类型和运营商，
+ * 按实际反查的号码数实时扣费，命中缓存的号码不扣费
+ * CSV 导出为流式下载 (GET /api/export/phone_lookup/:taskId)，格式见 export.ts
+ * 团队成员共享积分池，任务历史和结果在团队内可见（见 organizations/）
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getAvailableCredits } from "../organizations/credits";
+import {
+  getTeamUserIds,
+  canViewUserResource,
+  canManageUserResource,
+  searchProcedure,
+} from "../organizations/access";
+import { runTaskJob } from "../services/taskQueue";
+import {
+  getPhoneLookupConfig,
+  createPhoneLookupTask,
+  getPhoneLookupTask,
+  getUserPhoneLookupTasks,
+  getPhoneLookupResults,
+  cancelPhoneLookupTask,
+  getCachedPhoneOwners,
+} from "./db";
+import { executePhoneLookup } from "./executor";
+import { parsePhoneList, MAX_PHONES_PER_TASK } from "./phones";
+
+// 原始输入允许带格式（括号、连字符、国家码），服务端统一归一化
+const phoneListSchema = z.object({
+  phones: z.array(z.string().max(50)).min(1).max(MAX_PHONES_PER_TASK * 2),
+});
+
+/**
+ * 解析并校验号码列表
+ */
+function resolvePhones(entries: string[]) {
+  const parsed = parsePhoneList(entries);
+  if (parsed.phones.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "没有有效的美国电话号码",
+    });
+  }
+  if (parsed.phones.length > MAX_PHONES_PER_TASK) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `单次最多查询 ${MAX_PHONES_PER_TASK} 个号码`,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * 获取任务并校验访问权限
+ *
+ * view：同一团队可查看；manage：本人或团队所有者、管理员可停止
+ */
+async function getAccessibleTask(taskId: string, userId: number, access: "view" | "manage" = "view") {
+  const task = await getPhoneLookupTask(taskId);
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "任务不存在",
+    });
+  }
+
+  const allowed = access === "view"
+    ? await canViewUserResource(userId, task.userId)
+    : await canManageUserResource(userId, task.userId);
+  if (!allowed) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "无权访问此任务",
+    });
+  }
+
+  return task;
+}
+
+export const phoneLookupRouter = router({
+  // 获取配置（是否开放、单价）
+  getConfig: protectedProcedure.query(async () => {
+    const config = await getPhoneLookupConfig();
+    return {
+      enabled: config.enabled,
+      lookupCost: config.lookupCost,
+      maxPhones: MAX_PHONES_PER_TASK,
+    };
+  }),
+
+  // 预估消耗（缓存命中的号码不扣费）
+  estimateCost: protectedProcedure
+    .input(phoneListSchema)
+    .query(async ({ input }) => {
+      const config = await getPhoneLookupConfig();
+      const { phones, invalid } = parsePhoneList(input.phones);
+      const cached = await getCachedPhoneOwners(phones.slice(0, MAX_PHONES_PER_TASK));
+      const billablePhones = phones.length - cached.size;
+
+      return {
+        validPhones: phones.length,
+        invalidPhones: invalid.length,
+        invalidSamples: invalid.slice(0, 5),
+        cachedPhones: cached.size,
+        billablePhones,
+        lookupCost: config.lookupCost,
+        estimatedCost: Math.ceil(billablePhones * config.lookupCost * 10) / 10,
+      };
+    }),
+
+  // 提交反查任务
+  lookup: searchProcedure
+    .input(phoneListSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+
+      const config = await getPhoneLookupConfig();
+      if (!config.enabled) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "电话反查功能暂未开放",
+        });
+      }
+
+      const { phones, invalid } = resolvePhones(input.phones);
+
+      // 实时扣分模式：只检查能否查询至少一个号码
+      const userCredits = await getAvailableCredits(userId);
+      if (userCredits < config.lookupCost) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `积分不足，至少需要 ${config.lookupCost.toFixed(1)} 积分才能开始查询，当前余额 ${userCredits.toFixed(1)} 积分`,
+        });
+      }
+
+      const task = await createPhoneLookupTask({ userId, phones });
+
+      runTaskJob(
+        { source: "phone_lookup", taskId: task.taskId, taskDbId: task.id, userId, payload: { phones } },
+        () => executePhoneLookup({ taskDbId: task.id, taskId: task.taskId }, userId, { phones })
+      ).catch(err => {
+        console.error(`电话反查任务 ${task.taskId} 执行失败:`, err);
+      });
+
+      return {
+        taskId: task.taskId,
+        totalPhones: phones.length,
+        invalidPhones: invalid.length,
+        message: "电话反查任务已提交（实时扣分模式）",
+        currentBalance: userCredits,
+      };
+    }),
+
+  // 获取任务状态
+  getTaskStatus: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id);
+
+      return {
+        taskId: task.taskId,
+        status: task.status,
+        progress: task.progress,
+        totalPhones: task.totalPhones,
+        completedPhones: task.completedPhones,
+        foundPhones: task.foundPhones,
+        cacheHits: task.cacheHits,
+        creditsUsed: parseFloat(task.creditsUsed),
+        logs: task.logs || [],
+        errorMessage: task.errorMessage,
+        createdAt: task.createdAt,
+        completedAt: task.completedAt,
+      };
+    }),
+
+  // 获取反查结果
+  getTaskResults: protectedProcedure
+    .input(z.object({
+      taskId: z.string(),
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(10).max(100).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id);
+      const results = await getPhoneLookupResults(task.id, input.page, input.pageSize);
+
+      return {
+        results: results.data,
+        total: results.total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(results.total / input.pageSize),
+      };
+    }),
+
+  // 获取用户反查历史
+  getHistory: protectedProcedure
+    .input(z.object({
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(10).max(50).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      const history = await getUserPhoneLookupTasks(await getTeamUserIds(ctx.user!.id), input.page, input.pageSize);
+
+      return {
+        tasks: history.data.map(task => ({
+          ...task,
+          creditsUsed: parseFloat(task.creditsUsed) || 0,
+        })),
+        total: history.total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(history.total / input.pageSize),
+      };
+    }),
+
+  // 停止任务（当前批次查完后结束）
+  stopTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id, "manage");
+
+      if (task.status !== "running" && task.status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能停止运行中的任务",
+        });
+      }
+
+      await cancelPhoneLookupTask(task.id);
+
+      return { success: true, message: "任务已停止" };
+    }),
+});
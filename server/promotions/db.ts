@@ -0,0 +1,274 @@
+/**
+ * 充值优惠数据库操作：阶梯赠送、优惠码及使用记录
+ */
+
+import { getDb } from "../db";
+import { bonusTiers, promoCodes, promoRedemptions, rechargeOrders, PromoCode } from "../../drizzle/schema";
+import { eq, ne, and, or, desc, gte, lt, sql } from "drizzle-orm";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/**
+ * 优惠码统一大写存储和比较
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// ============ 阶梯赠送 ============
+
+/**
+ * 阶梯列表，按起始金额从高到低
+ */
+export async function listBonusTiers(activeOnly: boolean = false) {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(bonusTiers)
+    .where(activeOnly ? eq(bonusTiers.isActive, true) : undefined)
+    .orderBy(desc(bonusTiers.minUsdt));
+  return rows.map(tier => ({
+    ...tier,
+    minUsdt: parseFloat(tier.minUsdt),
+    bonusPercent: parseFloat(tier.bonusPercent),
+  }));
+}
+
+export async function createBonusTier(data: { minUsdt: number; bonusPercent: number }): Promise<number> {
+  const database = await db();
+  const result = await database.insert(bonusTiers).values({
+    minUsdt: data.minUsdt.toFixed(2),
+    bonusPercent: data.bonusPercent.toFixed(2),
+  });
+  return Number(result[0].insertId);
+}
+
+export async function updateBonusTier(id: number, data: { minUsdt?: number; bonusPercent?: number; isActive?: boolean }): Promise<boolean> {
+  const set: Partial<typeof bonusTiers.$inferInsert> = {};
+  if (data.minUsdt !== undefined) set.minUsdt = data.minUsdt.toFixed(2);
+  if (data.bonusPercent !== undefined) set.bonusPercent = data.bonusPercent.toFixed(2);
+  if (data.isActive !== undefined) set.isActive = data.isActive;
+  if (Object.keys(set).length === 0) return true;
+
+  const database = await db();
+  const result = await database.update(bonusTiers).set(set).where(eq(bonusTiers.id, id));
+  return result[0].affectedRows > 0;
+}
+
+export async function deleteBonusTier(id: number): Promise<boolean> {
+  const database = await db();
+  const result = await database.delete(bonusTiers).where(eq(bonusTiers.id, id));
+  return result[0].affectedRows > 0;
+}
+
+// ============ 优惠码 ============
+
+export async function getPromoCodeByCode(code: string): Promise<PromoCode | null> {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalizePromoCode(code)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const database = await db();
+  return database.select().from(promoCodes).orderBy(desc(promoCodes.createdAt));
+}
+
+/**
+ * 创建优惠码，代码已存在时返回 null
+ */
+export async function createPromoCode(data: {
+  code: string;
+  bonusType: "percent" | "fixed";
+  bonusValue: number;
+  maxUses?: number | null;
+  firstRechargeOnly: boolean;
+  expiresAt?: Date | null;
+  description?: string | null;
+  createdBy: string;
+}): Promise<number | null> {
+  if (await getPromoCodeByCode(data.code)) return null;
+  const database = await db();
+  const result = await database.insert(promoCodes).values({
+    ...data,
+    code: normalizePromoCode(data.code),
+    bonusValue: data.bonusValue.toFixed(2),
+  });
+  return Number(result[0].insertId);
+}
+
+export async function updatePromoCode(id: number, data: {
+  maxUses?: number | null;
+  expiresAt?: Date | null;
+  isActive?: boolean;
+  description?: string | null;
+}): Promise<boolean> {
+  if (Object.keys(data).length === 0) return true;
+  const database = await db();
+  const result = await database.update(promoCodes).set(data).where(eq(promoCodes.id, id));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 用户是否已使用过该优惠码（已到账，或有使用该码的待支付订单）
+ */
+export async function hasUserUsedPromoCode(promo: PromoCode, userId: number): Promise<boolean> {
+  const database = await db();
+  const redeemed = await database
+    .select({ id: promoRedemptions.id })
+    .from(promoRedemptions)
+    .where(and(eq(promoRedemptions.promoCodeId, promo.id), eq(promoRedemptions.userId, userId)))
+    .limit(1);
+  if (redeemed.length > 0) return true;
+
+  const pending = await database
+    .select({ id: rechargeOrders.id })
+    .from(rechargeOrders)
+    .where(and(
+      eq(rechargeOrders.userId, userId),
+      eq(rechargeOrders.promoCode, promo.code),
+      eq(rechargeOrders.status, "pending"),
+      gte(rechargeOrders.expiresAt, new Date())
+    ))
+    .limit(1);
+  return pending.length > 0;
+}
+
+/**
+ * 用户是否有过已到账的充值
+ */
+export async function hasPaidRecharge(userId: number): Promise<boolean> {
+  const database = await db();
+  const rows = await database
+    .select({ id: rechargeOrders.id })
+    .from(rechargeOrders)
+    .where(and(eq(rechargeOrders.userId, userId), eq(rechargeOrders.status, "paid")))
+    .limit(1);
+  return rows.length > 0;
+}
+
+/**
+ * 占用一次优惠码名额并记录使用；名额已满、同一用户重复记录或不满足首充条件时返回 false
+ *
+ * 下单时的校验不占名额，多个待支付订单可能同时持有同一个码，因此到账时重新检查：
+ * - 用条件更新占用名额，使用次数不会超过 maxUses
+ * - 首充专属码要求该用户没有更早到账的订单（按到账时间、订单序号排序），
+ *   同一用户的多个订单无论到账先后、是否并发，都只有最早到账的一笔满足条件
+ */
+export async function recordPromoRedemption(data: {
+  promoCodeId: number;
+  userId: number;
+  orderId: string;
+  bonusCredits: number;
+  firstRechargeOnly: boolean;
+}): Promise<boolean> {
+  const { firstRechargeOnly, ...redemption } = data;
+  const database = await db();
+  try {
+    return await database.transaction(async tx => {
+      if (firstRechargeOnly) {
+        const [order] = await tx
+          .select({ id: rechargeOrders.id, paidAt: rechargeOrders.paidAt })
+          .from(rechargeOrders)
+          .where(eq(rechargeOrders.orderId, data.orderId))
+          .limit(1);
+        const earlierPaid = await tx
+          .select({ id: rechargeOrders.id })
+          .from(rechargeOrders)
+          .where(and(
+            eq(rechargeOrders.userId, data.userId),
+            eq(rechargeOrders.status, "paid"),
+            ne(rechargeOrders.orderId, data.orderId),
+            order?.paidAt
+              ? or(
+                lt(rechargeOrders.paidAt, order.paidAt),
+                and(eq(rechargeOrders.paidAt, order.paidAt), lt(rechargeOrders.id, order.id))
+              )
+              : undefined
+          ))
+          .limit(1);
+        if (earlierPaid.length > 0) return false;
+      }
+
+      const claimed = await tx
+        .update(promoCodes)
+        .set({ usedCount: sql`${promoCodes.usedCount} + 1` })
+        .where(and(
+          eq(promoCodes.id, data.promoCodeId),
+          sql`(${promoCodes.maxUses} IS NULL OR ${promoCodes.usedCount} < ${promoCodes.maxUses})`
+        ));
+      if (claimed[0].affectedRows === 0) return false;
+
+      // 重复记录时插入失败，事务回滚已占用的名额
+      await tx.insert(promoRedemptions).values({
+        ...redemption,
+        bonusCredits: data.bonusCredits.toFixed(2),
+      });
+      return true;
+    });
+  } catch (error: any) {
+    if (error?.code === "ER_DUP_ENTRY") return false;
+    throw error;
+  }
+}
+
+// ============ 报表 ============
+
+/**
+ * 赠送统计：指定天数内已到账订单的赠送积分（阶梯+优惠码），及各优惠码的使用情况
+ */
+export async function getPromotionReport(days: number) {
+  const database = await db();
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const paidSince = and(eq(rechargeOrders.status, "paid"), gte(rechargeOrders.paidAt, since));
+
+  const [totals] = await database
+    .select({
+      orders: sql<number>`count(*)`,
+      amount: sql<string>`COALESCE(SUM(${rechargeOrders.amount}), 0)`,
+      credits: sql<string>`COALESCE(SUM(${rechargeOrders.credits}), 0)`,
+      bonusCredits: sql<string>`COALESCE(SUM(${rechargeOrders.bonusCredits}), 0)`,
+    })
+    .from(rechargeOrders)
+    .where(paidSince);
+
+  // 优惠码部分只统计该码带来的赠送，不含阶梯赠送
+  const byCode = await database
+    .select({
+      code: promoCodes.code,
+      orders: sql<number>`count(*)`,
+      amount: sql<string>`COALESCE(SUM(${rechargeOrders.amount}), 0)`,
+      bonusCredits: sql<string>`COALESCE(SUM(${promoRedemptions.bonusCredits}), 0)`,
+    })
+    .from(promoRedemptions)
+    .innerJoin(promoCodes, eq(promoCodes.id, promoRedemptions.promoCodeId))
+    .innerJoin(rechargeOrders, eq(rechargeOrders.orderId, promoRedemptions.orderId))
+    .where(gte(promoRedemptions.createdAt, since))
+    .groupBy(promoCodes.code)
+    .orderBy(desc(sql`count(*)`));
+
+  return {
+    days,
+    orders: Number(totals?.orders) || 0,
+    amount: parseFloat(totals?.amount ?? "0") || 0,
+    credits: parseFloat(totals?.credits ?? "0") || 0,
+    bonusCredits: parseFloat(totals?.bonusCredits ?? "0") || 0,
+    byCode: byCode.map(row => ({
+      code: row.code,
+      orders: Number(row.orders) || 0,
+      amount: parseFloat(row.amount) || 0,
+      bonusCredits: parseFloat(row.bonusCredits) || 0,
+    })),
+  };
+}
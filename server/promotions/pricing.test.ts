@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PromoCode } from "../../drizzle/schema";
+
+vi.mock("./db", () => ({
+  listBonusTiers: vi.fn(),
+  getPromoCodeByCode: vi.fn(),
+  hasUserUsedPromoCode: vi.fn(),
+  hasPaidRecharge: vi.fn(),
+  recordPromoRedemption: vi.fn(),
+}));
+
+import * as promotionsDb from "./db";
+import {
+  calculatePromoBonus,
+  calculateTierBonus,
+  quoteRecharge,
+  redeemPromoCodeForOrder,
+  validatePromoCode,
+} from "./pricing";
+
+const db = vi.mocked(promotionsDb);
+
+// listBonusTiers 按起始金额从高到低返回
+const TIERS = [
+  { id: 3, minUsdt: 500, bonusPercent: 15, isActive: true },
+  { id: 2, minUsdt: 100, bonusPercent: 10, isActive: true },
+  { id: 1, minUsdt: 50, bonusPercent: 5, isActive: true },
+];
+
+function promo(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: 1,
+    code: "WELCOME",
+    bonusType: "percent",
+    bonusValue: "20.00",
+    maxUses: null,
+    usedCount: 0,
+    firstRechargeOnly: false,
+    expiresAt: null,
+    isActive: true,
+    description: null,
+    createdBy: "admin",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.listBonusTiers.mockResolvedValue(TIERS as Awaited<ReturnType<typeof promotionsDb.listBonusTiers>>);
+  db.hasUserUsedPromoCode.mockResolvedValue(false);
+  db.hasPaidRecharge.mockResolvedValue(false);
+});
+
+describe("calculateTierBonus", () => {
+  it("uses the highest tier the payment reaches", async () => {
+    expect(await calculateTierBonus(1000, 120)).toEqual({ bonusPercent: 10, bonusCredits: 100 });
+    expect(await calculateTierBonus(1000, 800)).toEqual({ bonusPercent: 15, bonusCredits: 150 });
+  });
+
+  it("includes the tier's starting amount", async () => {
+    expect(await calculateTierBonus(1000, 50)).toEqual({ bonusPercent: 5, bonusCredits: 50 });
+  });
+
+  it("gives nothing below the lowest tier", async () => {
+    expect(await calculateTierBonus(1000, 49.99)).toEqual({ bonusPercent: 0, bonusCredits: 0 });
+  });
+
+  it("rounds bonus credits down", async () => {
+    expect((await calculateTierBonus(333, 100)).bonusCredits).toBe(33);
+  });
+
+  it("only reads active tiers", async () => {
+    await calculateTierBonus(1000, 100);
+    expect(db.listBonusTiers).toHaveBeenCalledWith(true);
+  });
+});
+
+describe("calculatePromoBonus", () => {
+  it("applies a percentage of the base credits, rounded down", () => {
+    expect(calculatePromoBonus({ bonusType: "percent", bonusValue: "12.5" }, 999)).toBe(124);
+  });
+
+  it("grants fixed credits regardless of the amount", () => {
+    expect(calculatePromoBonus({ bonusType: "fixed", bonusValue: "88.90" }, 10)).toBe(88);
+  });
+
+  it("treats an unparsable value as no bonus", () => {
+    expect(calculatePromoBonus({ bonusType: "percent", bonusValue: "" }, 1000)).toBe(0);
+  });
+});
+
+describe("validatePromoCode", () => {
+  it.each([
+    ["unknown", null, "优惠码无效"],
+    ["inactive", promo({ isActive: false }), "优惠码无效"],
+    ["expired", promo({ expiresAt: new Date(Date.now() - 1000) }), "优惠码已过期"],
+    ["used up", promo({ maxUses: 3, usedCount: 3 }), "优惠码已被领完"],
+  ])("rejects an %s code", async (_label, found, error) => {
+    db.getPromoCodeByCode.mockResolvedValue(found);
+    expect(await validatePromoCode("WELCOME", 7)).toEqual({ valid: false, error });
+  });
+
+  it("limits first-recharge codes to users without a paid order", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ firstRechargeOnly: true }));
+    db.hasPaidRecharge.mockResolvedValue(true);
+
+    expect(await validatePromoCode("WELCOME", 7)).toEqual({ valid: false, error: "该优惠码仅限首次充值使用" });
+  });
+
+  it("rejects a code the user already used or holds in a pending order", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo());
+    db.hasUserUsedPromoCode.mockResolvedValue(true);
+
+    expect(await validatePromoCode("WELCOME", 7)).toEqual({ valid: false, error: "您已使用过该优惠码" });
+  });
+
+  it("accepts a code with uses left or no limit", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ maxUses: 3, usedCount: 2 }));
+    expect((await validatePromoCode("WELCOME", 7)).valid).toBe(true);
+
+    db.getPromoCodeByCode.mockResolvedValue(promo({ maxUses: null, usedCount: 1000 }));
+    expect((await validatePromoCode("WELCOME", 7)).valid).toBe(true);
+  });
+});
+
+describe("quoteRecharge", () => {
+  it("stacks the promo bonus on top of the tier bonus, both from base credits", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ bonusValue: "20" }));
+
+    const result = await quoteRecharge({ userId: 7, baseCredits: 1000, usdtAmount: 100, promoCode: "welcome" });
+
+    expect(result).toEqual({
+      ok: true,
+      quote: {
+        baseCredits: 1000,
+        tierPercent: 10,
+        tierBonus: 100,
+        promoCode: "WELCOME",
+        promoBonus: 200,
+        bonusCredits: 300,
+        totalCredits: 1300,
+      },
+    });
+  });
+
+  it("ignores a blank promo code", async () => {
+    const result = await quoteRecharge({ userId: 7, baseCredits: 1000, usdtAmount: 10, promoCode: "  " });
+
+    expect(result).toMatchObject({ ok: true, quote: { promoCode: null, bonusCredits: 0, totalCredits: 1000 } });
+    expect(db.getPromoCodeByCode).not.toHaveBeenCalled();
+  });
+
+  it("returns the validation error for an invalid promo code", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ maxUses: 1, usedCount: 1 }));
+
+    expect(await quoteRecharge({ userId: 7, baseCredits: 1000, usdtAmount: 100, promoCode: "WELCOME" }))
+      .toEqual({ ok: false, error: "优惠码已被领完" });
+  });
+});
+
+describe("redeemPromoCodeForOrder", () => {
+  const order = { promoCode: "WELCOME", userId: 7, orderId: "order-1", baseCredits: 1000 };
+
+  it("records the promo bonus recalculated from base credits", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ id: 5, bonusValue: "20" }));
+    db.recordPromoRedemption.mockResolvedValue(true);
+
+    expect(await redeemPromoCodeForOrder(order)).toEqual({ redeemed: true, promoBonus: 200 });
+    expect(db.recordPromoRedemption).toHaveBeenCalledWith({
+      promoCodeId: 5,
+      userId: 7,
+      orderId: "order-1",
+      bonusCredits: 200,
+      firstRechargeOnly: false,
+    });
+  });
+
+  it("withholds a first-recharge bonus when another order of the user was paid first", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ firstRechargeOnly: true, bonusValue: "20" }));
+    db.recordPromoRedemption.mockResolvedValue(false);
+
+    expect(await redeemPromoCodeForOrder(order)).toEqual({ redeemed: false, promoBonus: 200 });
+    expect(db.recordPromoRedemption).toHaveBeenCalledWith(expect.objectContaining({ firstRechargeOnly: true }));
+  });
+
+  it("reports the bonus to withhold when the last use was taken by another order", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(promo({ bonusType: "fixed", bonusValue: "50", maxUses: 1, usedCount: 1 }));
+    db.recordPromoRedemption.mockResolvedValue(false);
+
+    expect(await redeemPromoCodeForOrder(order)).toEqual({ redeemed: false, promoBonus: 50 });
+  });
+
+  it("withholds nothing when the code was deleted", async () => {
+    db.getPromoCodeByCode.mockResolvedValue(null);
+
+    expect(await redeemPromoCodeForOrder(order)).toEqual({ redeemed: false, promoBonus: 0 });
+    expect(db.recordPromoRedemption).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * 充值赠送计算
+ *
+ * 阶梯赠送按支付的USDT金额取最高适用档位；优惠码赠送在阶梯之外叠加，均以基础积分为计算基数
+ */
+
+import type { PromoCode } from "../../drizzle/schema";
+import { listBonusTiers, getPromoCodeByCode, hasUserUsedPromoCode, hasPaidRecharge, recordPromoRedemption } from "./db";
+
+export interface RechargeQuote {
+  baseCredits: number;
+  tierPercent: number;
+  tierBonus: number;
+  promoCode: string | null;
+  promoBonus: number;
+  bonusCredits: number;
+  totalCredits: number;
+}
+
+/**
+ * 阶梯赠送
+ */
+export async function calculateTierBonus(baseCredits: number, usdtAmount: number): Promise<{ bonusPercent: number; bonusCredits: number }> {
+  const tiers = await listBonusTiers(true);
+  const tier = tiers.find(t => usdtAmount >= t.minUsdt);
+  const bonusPercent = tier?.bonusPercent ?? 0;
+  return { bonusPercent, bonusCredits: Math.floor(baseCredits * bonusPercent / 100) };
+}
+
+/**
+ * 优惠码赠送积分
+ */
+export function calculatePromoBonus(promo: Pick<PromoCode, "bonusType" | "bonusValue">, baseCredits: number): number {
+  const value = parseFloat(promo.bonusValue) || 0;
+  return promo.bonusType === "percent"
+    ? Math.floor(baseCredits * value / 100)
+    : Math.floor(value);
+}
+
+/**
+ * 校验用户能否使用优惠码
+ */
+export async function validatePromoCode(code: string, userId: number): Promise<
+  { valid: true; promo: PromoCode } | { valid: false; error: string }
+> {
+  const promo = await getPromoCodeByCode(code);
+  if (!promo || !promo.isActive) {
+    return { valid: false, error: "优惠码无效" };
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() < Date.now()) {
+    return { valid: false, error: "优惠码已过期" };
+  }
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    return { valid: false, error: "优惠码已被领完" };
+  }
+  if (promo.firstRechargeOnly && await hasPaidRecharge(userId)) {
+    return { valid: false, error: "该优惠码仅限首次充值使用" };
+  }
+  if (await hasUserUsedPromoCode(promo, userId)) {
+    return { valid: false, error: "您已使用过该优惠码" };
+  }
+  return { valid: true, promo };
+}
+
+/**
+ * 计算充值可获得的积分（优惠码无效时返回错误信息）
+ */
+export async function quoteRecharge(options: {
+  userId: number;
+  baseCredits: number;
+  usdtAmount: number;
+  promoCode?: string;
+}): Promise<{ ok: true; quote: RechargeQuote } | { ok: false; error: string }> {
+  const tier = await calculateTierBonus(options.baseCredits, options.usdtAmount);
+
+  let promoCode: string | null = null;
+  let promoBonus = 0;
+  if (options.promoCode?.trim()) {
+    const result = await validatePromoCode(options.promoCode, options.userId);
+    if (!result.valid) {
+      return { ok: false, error: result.error };
+    }
+    promoCode = result.promo.code;
+    promoBonus = calculatePromoBonus(result.promo, options.baseCredits);
+  }
+
+  const bonusCredits = tier.bonusCredits + promoBonus;
+  return {
+    ok: true,
+    quote: {
+      baseCredits: options.baseCredits,
+      tierPercent: tier.bonusPercent,
+      tierBonus: tier.bonusCredits,
+      promoCode,
+      promoBonus,
+      bonusCredits,
+      totalCredits: options.baseCredits + bonusCredits,
+    },
+  };
+}
+
+/**
+ * 订单到账时占用优惠码名额并记录使用（按基础积分重新计算该码的赠送部分）
+ *
+ * redeemed 为 false 且 promoBonus 大于 0 时，名额已被其他订单用完、该用户已用过，
+ * 或首充专属码遇到该用户更早到账的订单，调用方不应发放这部分赠送；优惠码已删除时 promoBonus 为 0
+ */
+export async function redeemPromoCodeForOrder(order: {
+  promoCode: string;
+  userId: number;
+  orderId: string;
+  baseCredits: number;
+}): Promise<{ redeemed: boolean; promoBonus: number }> {
+  const promo = await getPromoCodeByCode(order.promoCode);
+  if (!promo) return { redeemed: false, promoBonus: 0 };
+  const promoBonus = calculatePromoBonus(promo, order.baseCredits);
+  const redeemed = await recordPromoRedemption({
+    promoCodeId: promo.id,
+    userId: order.userId,
+    orderId: order.orderId,
+    bonusCredits: promoBonus,
+    firstRechargeOnly: promo.firstRechargeOnly,
+  });
+  return { redeemed, promoBonus };
+}
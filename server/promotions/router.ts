@@ -0,0 +1,156 @@
+/**
+ * 充值优惠 tRPC 路由
+ *
+ * 用户端：充值前校验优惠码；管理端：阶梯赠送与优惠码管理、赠送报表
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getConfig, logAdmin } from "../db";
+import { adminProcedure, adminPermissionProcedure } from "../admins/procedure";
+import { quoteRecharge } from "./pricing";
+import {
+  listBonusTiers,
+  createBonusTier,
+  updateBonusTier,
+  deleteBonusTier,
+  listPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+  getPromotionReport,
+} from "./db";
+
+export const promotionsRouter = router({
+  // 预览充值赠送（含优惠码校验）
+  quote: protectedProcedure
+    .input(z.object({
+      credits: z.number().min(1),
+      promoCode: z.string().max(40).optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const creditsPerUsdtStr = await getConfig('CREDITS_PER_USDT');
+      const creditsPerUsdt = creditsPerUsdtStr ? parseInt(creditsPerUsdtStr, 10) : 100;
+      const result = await quoteRecharge({
+        userId: ctx.user.id,
+        baseCredits: input.credits,
+        usdtAmount: input.credits / creditsPerUsdt,
+        promoCode: input.promoCode,
+      });
+      if (!result.ok) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: result.error });
+      }
+      return result.quote;
+    }),
+});
+
+const manageProcedure = adminPermissionProcedure("config.write");
+
+const promoCodeSchema = z.string().trim().min(3, "优惠码至少3位").max(40).regex(/^[a-zA-Z0-9_-]+$/, "优惠码只能包含字母、数字、下划线和连字符");
+
+export const adminPromotionsRouter = router({
+  // 阶梯赠送列表
+  tiers: adminProcedure.query(async () => {
+    return listBonusTiers();
+  }),
+
+  createTier: manageProcedure
+    .input(z.object({
+      minUsdt: z.number().min(0),
+      bonusPercent: z.number().min(0).max(100),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const id = await createBonusTier(input);
+      await logAdmin(ctx.adminUser.username, 'create_bonus_tier', 'bonus_tier', String(id), input);
+      return { id };
+    }),
+
+  updateTier: manageProcedure
+    .input(z.object({
+      id: z.number(),
+      minUsdt: z.number().min(0).optional(),
+      bonusPercent: z.number().min(0).max(100).optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      if (!(await updateBonusTier(id, data))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "档位不存在" });
+      }
+      await logAdmin(ctx.adminUser.username, 'update_bonus_tier', 'bonus_tier', String(id), data);
+      return { success: true };
+    }),
+
+  deleteTier: manageProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await deleteBonusTier(input.id))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "档位不存在" });
+      }
+      await logAdmin(ctx.adminUser.username, 'delete_bonus_tier', 'bonus_tier', String(input.id));
+      return { success: true };
+    }),
+
+  // 优惠码列表
+  promoCodes: adminProcedure.query(async () => {
+    return listPromoCodes();
+  }),
+
+  createPromoCode: manageProcedure
+    .input(z.object({
+      code: promoCodeSchema,
+      bonusType: z.enum(["percent", "fixed"]),
+      bonusValue: z.number().positive("赠送额度必须大于0"),
+      maxUses: z.number().int().positive().nullable().optional(),
+      firstRechargeOnly: z.boolean().default(false),
+      expiresAt: z.string().datetime().nullable().optional(),
+      description: z.string().max(255).nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.bonusType === "percent" && input.bonusValue > 100) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "赠送比例不能超过100%" });
+      }
+      const id = await createPromoCode({
+        ...input,
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+        createdBy: ctx.adminUser.username,
+      });
+      if (id === null) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "优惠码已存在" });
+      }
+      await logAdmin(ctx.adminUser.username, 'create_promo_code', 'promo_code', input.code.toUpperCase(), {
+        bonusType: input.bonusType,
+        bonusValue: input.bonusValue,
+        maxUses: input.maxUses,
+      });
+      return { id };
+    }),
+
+  updatePromoCode: manageProcedure
+    .input(z.object({
+      id: z.number(),
+      maxUses: z.number().int().positive().nullable().optional(),
+      expiresAt: z.string().datetime().nullable().optional(),
+      isActive: z.boolean().optional(),
+      description: z.string().max(255).nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, expiresAt, ...data } = input;
+      const success = await updatePromoCode(id, {
+        ...data,
+        ...(expiresAt !== undefined ? { expiresAt: expiresAt ? new Date(expiresAt) : null } : {}),
+      });
+      if (!success) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "优惠码不存在" });
+      }
+      await logAdmin(ctx.adminUser.username, 'update_promo_code', 'promo_code', String(id), input);
+      return { success: true };
+    }),
+
+  // 赠送报表
+  report: adminProcedure
+    .input(z.object({ days: z.number().int().min(1).max(365).default(30) }))
+    .query(async ({ input }) => {
+      return getPromotionReport(input.days);
+    }),
+});
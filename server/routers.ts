@@ -14,21 +14,70 @@ function formatPhoneNumber(phone: string | undefined | null): string {
 }
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, TWO_FACTOR_REQUIRED_ERR_MSG } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { tpsRouter } from "./tps/router";
 import { clearTpsConfigCache } from "./tps/runtimeConfig";
 import { anywhoRouter } from "./anywho/router";
 import { spfRouter } from "./spf/router";
+import { waterfallRouter } from "./waterfall/router";
+import { phoneLookupRouter } from "./phoneLookup/router";
 import { linkedinRouter } from "./linkedin/router";
 import { agentRouter, adminAgentRouter } from "./agent/router";
+import { apiKeysRouter } from "./apiKeys/router";
+import { webhooksRouter } from "./webhooks/router";
+import { exportsRouter } from "./exports/router";
+import { organizationsRouter } from "./organizations/router";
+import { sessionsRouter } from "./sessions/router";
+import {
+  createUserSession,
+  getActiveUserSessions,
+  planLoginSessions,
+  getMaxSessionsPerUser,
+  describeUserAgent,
+  revokeSessions,
+  revokeAllUserSessions,
+} from "./sessions/db";
+import { wsManager } from "./_core/wsManager";
+import { twoFactorRouter } from "./twoFactor/router";
+import { requireUserTwoFactor, getRequestOrigin } from "./twoFactor/guard";
+import {
+  userSubject,
+  adminSubject,
+  isTwoFactorEnabled,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  verifyTwoFactorCode,
+  regenerateBackupCodes,
+  disableTwoFactor,
+  countRecentAdminTwoFactorFailures,
+  MAX_TWO_FACTOR_FAILURES,
+  ADMIN_TWO_FACTOR_FAILED_ACTION,
+} from "./twoFactor/db";
+import { buildOtpauthUrl } from "./twoFactor/totp";
+import { getCreditAccount } from "./organizations/credits";
 import { sendPasswordResetEmail } from "./services/email";
+import { getChainWatcher } from "./services/chainWatchers";
+import { getRequiredConfirmations, assignChainTransactionToOrder } from "./services/usdtMonitor";
+import { listChainTransactions, getChainTransactionById, setChainTransactionDisposition } from "./chainLedger/db";
 import { getDb } from "./db";
 import { tpsSearchTasks, anywhoSearchTasks, spfSearchTasks, searchTasks } from "../drizzle/schema";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { sdk } from "./_core/sdk";
-import { validateAdminCredentials, generateAdminToken, verifyAdminToken, getAdminTokenFromHeader } from "./_core/adminAuth";
+import {
+  generateAdminToken,
+  verifyAdminToken,
+  generateAdminChallengeToken,
+  verifyAdminChallengeToken,
+} from "./_core/adminAuth";
+import { adminProcedure, adminPermissionProcedure } from "./admins/procedure";
+import { authenticateAdmin, getAdminByUsername, getAdminForToken, recordAdminLogin } from "./admins/db";
+import { adminAccountsRouter } from "./admins/router";
+import { promotionsRouter, adminPromotionsRouter } from "./promotions/router";
+import { billingRouter } from "./billing/router";
+import { quoteRecharge } from "./promotions/pricing";
+import { listBonusTiers } from "./promotions/db";
 import {
   createUser,
   getUserByEmail,
@@ -127,39 +176,38 @@ import { eq, desc, sql } from "drizzle-orm";
 
 const ONE_YEAR_MS = 365 * 24 * 60 * 60 * 1000;
 
-// 管理员权限检查 - 使用独立的管理员token验证
-const adminProcedure = publicProcedure.use(({ ctx, next }) => {
-  const adminToken = getAdminTokenFromHeader(ctx.req.headers as Record<string, string | string[] | undefined>);
-  
-  if (!adminToken) {
-    throw new TRPCError({ code: "UNAUTHORIZED", message: "需要管理员登录" });
-  }
-  
-  const payload = verifyAdminToken(adminToken);
-  if (!payload) {
-    throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员Token无效或已过期" });
-  }
-  
-  return next({ 
-    ctx: {
-      ...ctx,
-      adminUser: payload,
-    }
-  });
-});
-
 export const appRouter = router({
   system: systemRouter,
   tps: tpsRouter,  // TruePeopleSearch 路由
   anywho: anywhoRouter,  // Anywho 路由
   spf: spfRouter,  // SearchPeopleFree 路由
+  waterfall: waterfallRouter,  // 瀑布式多源搜索路由
+  phoneLookup: phoneLookupRouter,  // 电话反查路由
   agent: agentRouter,  // 代理系统路由
+  promotions: promotionsRouter,  // 充值优惠码
+  billing: billingRouter,  // 充值收据、月结单
+  apiKeys: apiKeysRouter,  // 开放 API 密钥管理
+  webhooks: webhooksRouter,  // Webhook 通知
+  exports: exportsRouter,  // 导出列与导出预设
+  organizations: organizationsRouter,  // 团队空间与共享积分池
+  sessions: sessionsRouter,  // 登录会话管理
+  twoFactor: twoFactorRouter,  // 两步验证
+  adminAccounts: adminAccountsRouter,  // 管理员账户与权限
 
   // ============ 认证路由 ============
   auth: router({
     me: publicProcedure.query((opts) => opts.ctx.user),
 
-    logout: publicProcedure.mutation(({ ctx }) => {
+    logout: publicProcedure.mutation(async ({ ctx }) => {
+      // 撤销当前会话，使已签发的 Cookie 立即失效
+      if (ctx.user && ctx.sessionId) {
+        try {
+          const revoked = await revokeSessions(ctx.user.id, [ctx.sessionId]);
+          wsManager.closeSessions(revoked);
+        } catch (error) {
+          console.error("[Auth] Failed to revoke session on logout:", error);
+        }
+      }
       const cookieOptions = getSessionCookieOptions(ctx.req);
       ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
       return { success: true } as const;
@@ -208,14 +256,15 @@ export const appRouter = router({
         };
       }),
 
-    // 邮箱登录（支持单设备限制）
+    // 邮箱登录（同时在线会话数受 MAX_SESSIONS_PER_USER 限制）
     login: publicProcedure
       .input(
         z.object({
           email: z.string().email(),
           password: z.string(),
           deviceId: z.string().optional(),
-          force: z.boolean().optional(), // 强制登录，踢掉其他设备
+          force: z.boolean().optional(), // 强制登录，下线最早的会话
+          twoFactorCode: z.string().trim().max(20).optional(), // 两步验证码或备用恢复码
         })
       )
       .mutation(async ({ input, ctx }) => {
@@ -233,41 +282,63 @@ export const appRouter = router({
           throw new TRPCError({ code: "FORBIDDEN", message: "账户已被禁用" });
         }
 
-        // 单设备登录检查
         const deviceId = input.deviceId || `unknown_${Date.now()}`;
-        if (user.currentDeviceId && user.currentDeviceId !== deviceId && !input.force) {
-          // 已在其他设备登录
-          const loginTime = user.currentDeviceLoginAt 
-            ? new Date(user.currentDeviceLoginAt).toLocaleString()
-            : "未知时间";
-          throw new TRPCError({ 
-            code: "FORBIDDEN", 
-            message: `账户已在其他设备登录（${loginTime}）。如需在此设备登录，请点击"强制登录"` 
+        const { ipAddress, userAgent } = getRequestOrigin(ctx.req);
+
+        // 已开启两步验证但未填写验证码时，提示前端显示验证码输入框
+        if (!input.twoFactorCode && await isTwoFactorEnabled(userSubject(user.id))) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: TWO_FACTOR_REQUIRED_ERR_MSG });
+        }
+
+        // 会话数检查（同一设备重新登录时替换原会话，不占用名额）
+        const maxSessions = await getMaxSessionsPerUser();
+        const { replaced: sameDevice, evicted } = planLoginSessions(await getActiveUserSessions(user.id), deviceId, maxSessions);
+        if (evicted.length > 0 && !input.force) {
+          const oldest = evicted[0];
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: `账户在其他设备的登录数已达上限（${maxSessions} 个会话，最早活跃：${oldest.deviceName}，${oldest.lastSeenAt.toLocaleString()}）。如需在此设备登录，请点击"强制登录"下线最早的会话`,
           });
         }
 
+        // 校验两步验证码（放在会话数检查之后，强制登录时可复用同一个验证码）
+        const twoFactor = await requireUserTwoFactor(user.id, input.twoFactorCode, ctx.req, deviceId);
+
+        const replaced = await revokeSessions(user.id, sameDevice);
+        wsManager.closeSessions(replaced);
+        if (evicted.length > 0) {
+          wsManager.closeSessions(await revokeSessions(user.id, evicted.map(s => s.sessionId)));
+        }
+
         // 更新设备信息
         await updateUserDevice(user.id, deviceId);
 
         // 记录登录日志
-        const ipAddress = ctx.req.headers["x-forwarded-for"] as string || ctx.req.socket?.remoteAddress || null;
-        const userAgent = ctx.req.headers["user-agent"] || null;
         await logLogin(user.id, deviceId, ipAddress, userAgent, true);
 
         // 记录用户活动日志
         await logUserActivity({
           userId: user.id,
           action: input.force ? '强制登录' : '用户登录',
-          details: `设备ID: ${deviceId}`,
+          details: twoFactor ? `设备ID: ${deviceId}，两步验证: ${twoFactor === "backup" ? "备用恢复码" : "验证码"}` : `设备ID: ${deviceId}`,
           ipAddress: ipAddress ?? undefined,
           userAgent: userAgent ?? undefined
         });
 
         // 创建会话
+        const sessionId = await createUserSession({
+          userId: user.id,
+          deviceId,
+          deviceName: describeUserAgent(userAgent),
+          ipAddress,
+          userAgent,
+          expiresAt: new Date(Date.now() + ONE_YEAR_MS),
+        });
         const openId = user.openId || `email_${user.id}`;
         const sessionToken = await sdk.createSessionToken(openId, {
           name: user.name || user.email,
           expiresInMs: ONE_YEAR_MS,
+          sessionId,
         });
 
         const cookieOptions = getSessionCookieOptions(ctx.req);
@@ -335,11 +406,16 @@ export const appRouter = router({
       if (!user) {
         throw new TRPCError({ code: "NOT_FOUND", message: "用户不存在" });
       }
+      // credits 为可用于搜索的积分（团队成员为团队积分池），personalCredits 为个人余额
+      const account = await getCreditAccount(user.id);
       return {
         id: user.id,
         email: user.email,
         name: user.name,
-        credits: parseFloat(String(user.credits)) || 0,
+        credits: account.available,
+        personalCredits: account.personalCredits,
+        organizationId: account.orgId,
+        organizationRole: account.role,
         role: user.role,
         emailVerified: user.emailVerified,
         createdAt: user.createdAt,
@@ -354,8 +430,8 @@ export const appRouter = router({
 
     // 获取积分余额
     credits: protectedProcedure.query(async ({ ctx }) => {
-      const credits = await getUserCredits(ctx.user.id);
-      return { credits };
+      const account = await getCreditAccount(ctx.user.id);
+      return { credits: account.available, personalCredits: account.personalCredits };
     }),
 
     // 获取积分交易记录
@@ -371,6 +447,7 @@ export const appRouter = router({
         z.object({
           currentPassword: z.string().min(1, "请输入当前密码"),
           newPassword: z.string().min(8, "新密码至少8位"),
+          twoFactorCode: z.string().trim().max(20).optional(), // 已开启两步验证时必填
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -386,6 +463,8 @@ export const appRouter = router({
           throw new TRPCError({ code: "UNAUTHORIZED", message: "当前密码错误" });
         }
 
+        await requireUserTwoFactor(user.id, input.twoFactorCode, ctx.req);
+
         // 新密码不能与旧密码相同
         const sameAsOld = await bcrypt.compare(input.newPassword, user.passwordHash);
         if (sameAsOld) {
@@ -860,6 +939,7 @@ export const appRouter = router({
         z.object({
           credits: z.number().min(5000, "最少充值5000积分"),
           network: z.enum(["TRC20", "ERC20", "BEP20"]).optional(),
+          promoCode: z.string().max(40).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -870,24 +950,17 @@ export const appRouter = router({
         // 计算需要支付的 USDT 金额
         const baseAmount = input.credits / creditsPerUsdt;
         
-        // 阶梯优惠规则：根据USDT金额计算赠送比例（保守方案）
-        const bonusTiers = [
-          { minUsdt: 10000, bonusPercent: 15 },  // 10000+ USDT: 15%
-          { minUsdt: 5000, bonusPercent: 14 },   // 5000-9999 USDT: 14%
-          { minUsdt: 3000, bonusPercent: 12 },   // 3000-4999 USDT: 12%
-          { minUsdt: 1000, bonusPercent: 10 },   // 1000-2999 USDT: 10%
-          { minUsdt: 500, bonusPercent: 8 },     // 500-999 USDT: 8%
-          { minUsdt: 300, bonusPercent: 6 },     // 300-499 USDT: 6%
-          { minUsdt: 200, bonusPercent: 4 },     // 200-299 USDT: 4%
-          { minUsdt: 100, bonusPercent: 2 },     // 100-199 USDT: 2%
-          { minUsdt: 0, bonusPercent: 0 },       // 50-99 USDT: 无赠送
-        ];
-        
-        // 查找适用的优惠档位
-        const applicableTier = bonusTiers.find(tier => baseAmount >= tier.minUsdt) || { bonusPercent: 0 };
-        const bonusPercent = applicableTier.bonusPercent;
-        const bonusCredits = Math.floor(input.credits * bonusPercent / 100);
-        const totalCredits = input.credits + bonusCredits;
+        // 阶梯赠送 + 优惠码赠送（后台配置）
+        const quoteResult = await quoteRecharge({
+          userId: ctx.user.id,
+          baseCredits: input.credits,
+          usdtAmount: baseAmount,
+          promoCode: input.promoCode,
+        });
+        if (!quoteResult.ok) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: quoteResult.error });
+        }
+        const { tierPercent: bonusPercent, bonusCredits, totalCredits, promoCode, promoBonus } = quoteResult.quote;
 
         // 获取收款地址
         const walletAddress = await getConfig(`USDT_WALLET_${input.network || "TRC20"}`);
@@ -904,7 +977,8 @@ export const appRouter = router({
           totalCredits,  // 使用包含赠送的总积分
           baseAmount,
           walletAddress,
-          input.network || "TRC20"
+          input.network || "TRC20",
+          { bonusCredits, promoCode }
         );
 
         if (!order) {
@@ -915,7 +989,8 @@ export const appRouter = router({
         }
 
         // 记录用户活动日志
-        const bonusInfo = bonusCredits > 0 ? `, 赠送${bonusCredits}积分(${bonusPercent}%)` : '';
+        const promoInfo = promoCode ? `, 优惠码${promoCode}赠送${promoBonus}积分` : '';
+        const bonusInfo = bonusCredits > 0 ? `, 赠送${bonusCredits}积分(阶梯${bonusPercent}%${promoInfo})` : '';
         await logUserActivity({
           userId: ctx.user.id,
           action: '创建充值订单',
@@ -929,7 +1004,9 @@ export const appRouter = router({
           credits: parseFloat(String(order.credits)) || 0,
           baseCredits: input.credits,      // 基础积分
           bonusCredits: bonusCredits,      // 赠送积分
-          bonusPercent: bonusPercent,      // 赠送比例
+          bonusPercent: bonusPercent,      // 阶梯赠送比例
+          promoCode,                       // 使用的优惠码
+          promoBonus,                      // 优惠码赠送积分
           usdtAmount: order.amount,
           walletAddress: order.walletAddress,
           network: order.network,
@@ -954,18 +1031,11 @@ export const appRouter = router({
       const creditsPerUsdtStr = await getConfig('CREDITS_PER_USDT');
       const minRechargeCreditsStr = await getConfig('MIN_RECHARGE_CREDITS');
       
-      // 阶梯优惠规则：根据USDT金额给予不同比例的赠送（保守方案）
-      const bonusTiers = [
-        { minUsdt: 10000, bonusPercent: 15 },  // 10000+ USDT: 15%
-        { minUsdt: 5000, bonusPercent: 14 },   // 5000-9999 USDT: 14%
-        { minUsdt: 3000, bonusPercent: 12 },   // 3000-4999 USDT: 12%
-        { minUsdt: 1000, bonusPercent: 10 },   // 1000-2999 USDT: 10%
-        { minUsdt: 500, bonusPercent: 8 },     // 500-999 USDT: 8%
-        { minUsdt: 300, bonusPercent: 6 },     // 300-499 USDT: 6%
-        { minUsdt: 200, bonusPercent: 4 },     // 200-299 USDT: 4%
-        { minUsdt: 100, bonusPercent: 2 },     // 100-199 USDT: 2%
-        { minUsdt: 0, bonusPercent: 0 },       // 50-99 USDT: 无赠送
-      ];
+      // 阶梯优惠规则（后台配置）
+      const bonusTiers = (await listBonusTiers(true)).map(tier => ({
+        minUsdt: tier.minUsdt,
+        bonusPercent: tier.bonusPercent,
+      }));
       
       return {
         // 1 USDT 兑换的积分数（默认 100）
@@ -985,7 +1055,7 @@ export const appRouter = router({
       }),
 
     // 手动确认支付（管理员或webhook调用）
-    confirm: adminProcedure
+    confirm: adminPermissionProcedure("orders.manage")
       .input(
         z.object({
           orderId: z.string(),
@@ -1022,7 +1092,7 @@ export const appRouter = router({
 
   // ============ 管理员认证路由（独立系统）============
   adminAuth: router({
-    // 管理员登录
+    // 管理员登录第一步：校验用户名密码，返回两步验证凭证（未绑定验证器时同时返回绑定信息）
     login: publicProcedure
       .input(
         z.object({
@@ -1030,28 +1100,113 @@ export const appRouter = router({
           password: z.string(),
         })
       )
-      .mutation(async ({ input }) => {
-        if (!validateAdminCredentials(input.username, input.password)) {
+      .mutation(async ({ input, ctx }) => {
+        const { ipAddress } = getRequestOrigin(ctx.req);
+        const admin = await authenticateAdmin(input.username, input.password);
+        if (!admin) {
+          await logAdmin(input.username.slice(0, 50), 'admin_login_failed', 'admin', undefined, undefined, ipAddress ?? undefined);
           throw new TRPCError({
             code: "UNAUTHORIZED",
             message: "用户名或密码错误",
           });
         }
 
-        const token = generateAdminToken(input.username);
+        const subject = adminSubject(input.username);
+        if (await isTwoFactorEnabled(subject)) {
+          return {
+            step: "verify" as const,
+            challengeToken: generateAdminChallengeToken(input.username, "verify"),
+          };
+        }
+
+        // 管理后台强制两步验证：首次登录先绑定验证器
+        const secret = await beginTwoFactorSetup(subject);
+        return {
+          step: "setup" as const,
+          challengeToken: generateAdminChallengeToken(input.username, "setup"),
+          secret,
+          otpauthUrl: buildOtpauthUrl(secret, input.username, "DataReach Admin"),
+        };
+      }),
+
+    // 管理员登录第二步：校验验证码或备用恢复码
+    verifyTwoFactor: publicProcedure
+      .input(z.object({ challengeToken: z.string(), code: z.string().trim().min(6).max(20) }))
+      .mutation(async ({ input, ctx }) => {
+        const username = verifyAdminChallengeToken(input.challengeToken, "verify");
+        if (!username) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "登录已过期，请重新输入用户名和密码" });
+        }
+        if (await countRecentAdminTwoFactorFailures(username) >= MAX_TWO_FACTOR_FAILURES) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "验证码错误次数过多，请 15 分钟后再试" });
+        }
+
+        const { ipAddress } = getRequestOrigin(ctx.req);
+        const match = await verifyTwoFactorCode(adminSubject(username), input.code);
+        if (!match) {
+          await logAdmin(username, ADMIN_TWO_FACTOR_FAILED_ACTION, 'admin', username, undefined, ipAddress ?? undefined);
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "两步验证码错误" });
+        }
+
+        const admin = await getAdminByUsername(username);
+        if (!admin || admin.status !== "active") {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员账户不存在或已禁用" });
+        }
+        await recordAdminLogin(admin.id, ipAddress);
+        await logAdmin(username, 'admin_login', 'admin', username, { method: match }, ipAddress ?? undefined);
         return {
           success: true,
-          token,
+          token: generateAdminToken(username),
           expiresIn: 24 * 60 * 60, // 24小时
+          usedBackupCode: match === "backup",
+        };
+      }),
+
+    // 首次登录绑定验证器，返回一次性的备用恢复码
+    confirmTwoFactorSetup: publicProcedure
+      .input(z.object({ challengeToken: z.string(), code: z.string().trim().min(6).max(20) }))
+      .mutation(async ({ input, ctx }) => {
+        const username = verifyAdminChallengeToken(input.challengeToken, "setup");
+        if (!username) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "登录已过期，请重新输入用户名和密码" });
+        }
+        const subject = adminSubject(username);
+        if (await isTwoFactorEnabled(subject)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "验证器已绑定，请重新登录" });
+        }
+        if (await countRecentAdminTwoFactorFailures(username) >= MAX_TWO_FACTOR_FAILURES) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "验证码错误次数过多，请 15 分钟后再试" });
+        }
+
+        const { ipAddress } = getRequestOrigin(ctx.req);
+        const backupCodes = await confirmTwoFactorSetup(subject, input.code);
+        if (!backupCodes) {
+          await logAdmin(username, ADMIN_TWO_FACTOR_FAILED_ACTION, 'admin', username, { setup: true }, ipAddress ?? undefined);
+          throw new TRPCError({ code: "BAD_REQUEST", message: "验证码错误，请确认手机时间准确后重试" });
+        }
+
+        const admin = await getAdminByUsername(username);
+        if (!admin || admin.status !== "active") {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "管理员账户不存在或已禁用" });
+        }
+        await recordAdminLogin(admin.id, ipAddress);
+        await logAdmin(username, 'admin_2fa_enrolled', 'admin', username, undefined, ipAddress ?? undefined);
+        await logAdmin(username, 'admin_login', 'admin', username, { method: "totp" }, ipAddress ?? undefined);
+        return {
+          success: true,
+          token: generateAdminToken(username),
+          expiresIn: 24 * 60 * 60, // 24小时
+          backupCodes,
         };
       }),
 
     // 验证管理员token
     verify: publicProcedure
       .input(z.object({ token: z.string() }))
-      .query(({ input }) => {
+      .query(async ({ input }) => {
         const payload = verifyAdminToken(input.token);
-        if (!payload) {
+        const admin = payload ? await getAdminForToken(payload) : null;
+        if (!admin) {
           throw new TRPCError({
             code: "UNAUTHORIZED",
             message: "管理员Token无效或已过期",
@@ -1059,7 +1214,8 @@ export const appRouter = router({
         }
         return {
           valid: true,
-          username: payload.username,
+          username: admin.username,
+          role: admin.role,
         };
       }),
 
@@ -1088,7 +1244,7 @@ export const appRouter = router({
       }),
 
     // 更新用户状态
-    updateUserStatus: adminProcedure
+    updateUserStatus: adminPermissionProcedure("users.manage")
       .input(
         z.object({
           userId: z.number(),
@@ -1108,7 +1264,7 @@ export const appRouter = router({
       }),
 
     // 更新用户角色
-    updateUserRole: adminProcedure
+    updateUserRole: adminPermissionProcedure("users.manage")
       .input(
         z.object({
           userId: z.number(),
@@ -1127,11 +1283,48 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    // 强制用户下线（清除设备绑定）
-    forceLogout: adminProcedure
+    // 重置用户的两步验证（用户丢失验证器和备用恢复码时的人工恢复）
+    resetUserTwoFactor: adminPermissionProcedure("users.manage")
+      .input(z.object({ userId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const removed = await disableTwoFactor(userSubject(input.userId));
+        if (!removed) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "该用户未开启两步验证" });
+        }
+        await logAdmin(
+          (ctx as any).adminUser?.username || 'admin',
+          'reset_user_2fa',
+          'user',
+          input.userId.toString()
+        );
+        return { success: true };
+      }),
+
+    // 重新生成当前管理员的备用恢复码
+    regenerateOwnBackupCodes: adminProcedure
+      .input(z.object({ code: z.string().trim().min(6).max(20) }))
+      .mutation(async ({ input, ctx }) => {
+        const username = (ctx as any).adminUser?.username || 'admin';
+        const subject = adminSubject(username);
+        if (await countRecentAdminTwoFactorFailures(username) >= MAX_TWO_FACTOR_FAILURES) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "验证码错误次数过多，请 15 分钟后再试" });
+        }
+        const { ipAddress } = getRequestOrigin(ctx.req);
+        if (!(await verifyTwoFactorCode(subject, input.code))) {
+          await logAdmin(username, ADMIN_TWO_FACTOR_FAILED_ACTION, 'admin', username, undefined, ipAddress ?? undefined);
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "两步验证码错误" });
+        }
+        const backupCodes = await regenerateBackupCodes(subject);
+        await logAdmin(username, 'admin_2fa_backup_regenerated', 'admin', username, undefined, ipAddress ?? undefined);
+        return { backupCodes: backupCodes ?? [] };
+      }),
+
+    // 强制用户下线（撤销全部会话并清除设备绑定）
+    forceLogout: adminPermissionProcedure("users.manage")
       .input(z.object({ userId: z.number() }))
       .mutation(async ({ input, ctx }) => {
         await clearUserDevice(input.userId);
+        wsManager.closeSessions(await revokeAllUserSessions(input.userId));
         await logAdmin(
           (ctx as any).adminUser?.username || 'admin',
           'force_logout',
@@ -1142,7 +1335,7 @@ export const appRouter = router({
       }),
 
     // 调整用户积分
-    adjustCredits: adminProcedure
+    adjustCredits: adminPermissionProcedure("credits.adjust")
       .input(
         z.object({
           userId: z.number(),
@@ -1240,7 +1433,7 @@ export const appRouter = router({
       }),
 
     // 手动确认订单到账
-    confirmOrder: adminProcedure
+    confirmOrder: adminPermissionProcedure("orders.manage")
       .input(z.object({
         orderId: z.string(),
         txId: z.string(),
@@ -1262,7 +1455,7 @@ export const appRouter = router({
       }),
 
     // 取消订单
-    cancelOrder: adminProcedure
+    cancelOrder: adminPermissionProcedure("orders.manage")
       .input(z.object({
         orderId: z.string(),
         reason: z.string().optional(),
@@ -1283,7 +1476,7 @@ export const appRouter = router({
       }),
 
     // 标记订单金额不匹配
-    markOrderMismatch: adminProcedure
+    markOrderMismatch: adminPermissionProcedure("orders.manage")
       .input(z.object({
         orderId: z.string(),
         receivedAmount: z.string(),
@@ -1306,7 +1499,7 @@ export const appRouter = router({
       }),
 
     // 处理金额不匹配订单
-    resolveMismatchOrder: adminProcedure
+    resolveMismatchOrder: adminPermissionProcedure("orders.manage")
       .input(z.object({
         orderId: z.string(),
         actualCredits: z.number(),
@@ -1377,7 +1570,7 @@ export const appRouter = router({
       }),
 
     // 更新系统配置
-    setConfig: adminProcedure
+    setConfig: adminPermissionProcedure("config.write")
       .input(
         z.object({
           key: z.string(),
@@ -1405,7 +1598,7 @@ export const appRouter = router({
       }),
 
     // 删除系统配置
-    deleteConfig: adminProcedure
+    deleteConfig: adminPermissionProcedure("config.write")
       .input(z.object({ key: z.string() }))
       .mutation(async ({ input, ctx }) => {
         await deleteConfig(input.key);
@@ -1419,11 +1612,14 @@ export const appRouter = router({
       }),
 
     // 批量设置默认配置
-    initDefaultConfigs: adminProcedure.mutation(async ({ ctx }) => {
+    initDefaultConfigs: adminPermissionProcedure("config.write").mutation(async ({ ctx }) => {
       const defaultConfigs = [
         { key: 'USDT_WALLET_TRC20', value: '', description: 'TRC20 USDT收款地址' },
         { key: 'USDT_WALLET_ERC20', value: '', description: 'ERC20 USDT收款地址' },
         { key: 'USDT_WALLET_BEP20', value: '', description: 'BEP20 USDT收款地址' },
+        { key: 'USDT_CONFIRMATIONS_TRC20', value: '1', description: 'TRC20 到账所需确认数（大于0时只认已固化交易）' },
+        { key: 'USDT_CONFIRMATIONS_ERC20', value: '12', description: 'ERC20 到账所需区块确认数' },
+        { key: 'USDT_CONFIRMATIONS_BEP20', value: '15', description: 'BEP20 到账所需区块确认数' },
         { key: 'MIN_RECHARGE_CREDITS', value: '100', description: '最低充值积分数' },
         { key: 'CREDITS_PER_USDT', value: '100', description: '1 USDT兑换积分数' },
         { key: 'ORDER_EXPIRE_MINUTES', value: '30', description: '订单过期时间(分钟)' },
@@ -1431,6 +1627,9 @@ export const appRouter = router({
         { key: 'SEARCH_CREDITS_PER_PERSON', value: '2', description: '每条搜索结果消耗积分' },
         { key: 'PREVIEW_CREDITS', value: '1', description: '预览搜索消耗积分' },
         { key: 'VERIFICATION_SCORE_THRESHOLD', value: '60', description: '电话验证通过分数阈值(0-100)' },
+        { key: 'PHONE_LOOKUP_CREDITS', value: '1', description: '电话反查每个号码消耗积分' },
+        { key: 'PHONE_LOOKUP_CACHE_DAYS', value: '180', description: '电话反查结果缓存天数' },
+        { key: 'MAX_SESSIONS_PER_USER', value: '3', description: '每个账号最多同时在线会话数' },
       ];
 
       for (const config of defaultConfigs) {
@@ -1572,7 +1771,7 @@ export const appRouter = router({
       }),
 
     // 手动检查支付
-    checkPaymentManually: adminProcedure
+    checkPaymentManually: adminPermissionProcedure("orders.manage")
       .input(z.object({
         orderId: z.string(),
       }))
@@ -1587,45 +1786,41 @@ export const appRouter = router({
             return { found: false, error: '订单状态不是待支付' };
           }
           
-          const walletAddress = order.walletAddress;
-          const expectedAmount = parseFloat(order.amount);
-          const createdAfter = new Date(order.createdAt).getTime() - 60000;
-          
-          const USDT_CONTRACT = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
-          const url = `https://api.trongrid.io/v1/accounts/${walletAddress}/transactions/trc20?limit=50&only_to=true&contract_address=${USDT_CONTRACT}&min_timestamp=${createdAfter}`;
-          
-          const response = await fetch(url);
-          const data = await response.json();
-          
-          if (!data.success || !data.data) {
-            return { found: false, error: 'API请求失败' };
+          const watcher = getChainWatcher(order.network);
+          if (!watcher) {
+            return { found: false, error: `不支持的网络: ${order.network}` };
+          }
+          if (!watcher.isConfigured()) {
+            return { found: false, error: `${order.network} 区块链API未配置` };
           }
           
-          // 查找匹配的转账
-          const expectedValue = Math.round(expectedAmount * 1000000).toString();
-          
-          const matchingTransfer = data.data.find((tx: any) => {
-            return tx.value === expectedValue && tx.to === walletAddress;
+          const expectedAmount = parseFloat(order.amount);
+          const transfers = await watcher.fetchIncomingTransfers(order.walletAddress, {
+            confirmations: await getRequiredConfirmations(watcher.network),
+            minTimestamp: new Date(order.createdAt).getTime() - 60000,
           });
           
+          // 查找匹配的转账
+          const matchingTransfer = transfers.find(tx => Math.abs(tx.amount - expectedAmount) < 0.001);
+          
           if (matchingTransfer) {
             // 找到匹配的转账，确认订单
-            await confirmRechargeOrder(input.orderId, matchingTransfer.transaction_id, expectedAmount.toString());
+            await confirmRechargeOrder(input.orderId, matchingTransfer.txId, expectedAmount.toString());
             
             await logAdmin(
               (ctx as any).adminUser?.username || 'admin',
               'manual_check_payment',
               'order',
               input.orderId,
-              { txId: matchingTransfer.transaction_id, amount: expectedAmount }
+              { txId: matchingTransfer.txId, amount: expectedAmount, network: order.network }
             );
             
             return {
               found: true,
-              transactionId: matchingTransfer.transaction_id,
-              amount: Number(matchingTransfer.value) / 1000000,
+              transactionId: matchingTransfer.txId,
+              amount: matchingTransfer.amount,
               from: matchingTransfer.from,
-              timestamp: matchingTransfer.block_timestamp,
+              timestamp: matchingTransfer.timestamp,
             };
           }
           
@@ -1636,6 +1831,59 @@ export const appRouter = router({
         }
       }),
 
+    // 链上入账记录（默认只看未匹配的入账）
+    chainTransactions: adminProcedure
+      .input(z.object({
+        disposition: z.enum(["matched", "mismatch", "unmatched", "assigned", "ignored"]).optional(),
+        network: z.enum(["TRC20", "ERC20", "BEP20"]).optional(),
+        page: z.number().int().min(1).default(1),
+        limit: z.number().int().min(1).max(100).default(20),
+      }))
+      .query(async ({ input }) => {
+        return listChainTransactions(input);
+      }),
+
+    // 将未匹配的入账关联到订单
+    assignChainTransaction: adminPermissionProcedure("orders.manage")
+      .input(z.object({
+        id: z.number(),
+        orderId: z.string().trim().min(1, "请输入订单号"),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const result = await assignChainTransactionToOrder(input.id, input.orderId, ctx.adminUser.username);
+        if (!result.success) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: result.error });
+        }
+        await logAdmin(ctx.adminUser.username, 'assign_chain_transaction', 'order', input.orderId, {
+          chainTransactionId: input.id,
+          orderStatus: result.orderStatus,
+        });
+        return result;
+      }),
+
+    // 忽略未匹配的入账（非充值转账等）
+    ignoreChainTransaction: adminPermissionProcedure("orders.manage")
+      .input(z.object({
+        id: z.number(),
+        note: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const record = await getChainTransactionById(input.id);
+        if (!record || record.disposition !== "unmatched") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "入账记录不存在或已处理" });
+        }
+        await setChainTransactionDisposition(input.id, {
+          disposition: "ignored",
+          note: input.note || null,
+          handledBy: ctx.adminUser.username,
+        });
+        await logAdmin(ctx.adminUser.username, 'ignore_chain_transaction', 'chain_transaction', String(input.id), {
+          txId: record.txId,
+          note: input.note,
+        });
+        return { success: true };
+      }),
+
     // ============ 用户管理增强 ============
 
     // 获取用户详情（包含统计信息）
@@ -1650,7 +1898,7 @@ export const appRouter = router({
       }),
 
     // 重置用户密码
-    resetUserPassword: adminProcedure
+    resetUserPassword: adminPermissionProcedure("users.manage")
       .input(z.object({
         userId: z.number(),
         newPassword: z.string().min(6, "密码至少6位"),
@@ -1728,7 +1976,7 @@ export const appRouter = router({
       }),
 
     // 退款订单
-    refundOrder: adminProcedure
+    refundOrder: adminPermissionProcedure("orders.refund")
       .input(z.object({
         orderId: z.string(),
         reason: z.string().optional(),
@@ -1761,7 +2009,7 @@ export const appRouter = router({
       }),
 
     // 创建公告
-    createAnnouncement: adminProcedure
+    createAnnouncement: adminPermissionProcedure("content.manage")
       .input(z.object({
         title: z.string().min(1, "标题不能为空"),
         content: z.string().min(1, "内容不能为空"),
@@ -1794,7 +2042,7 @@ export const appRouter = router({
       }),
 
     // 更新公告
-    updateAnnouncement: adminProcedure
+    updateAnnouncement: adminPermissionProcedure("content.manage")
       .input(z.object({
         id: z.number(),
         title: z.string().optional(),
@@ -1825,7 +2073,7 @@ export const appRouter = router({
       }),
 
     // 删除公告
-    deleteAnnouncement: adminProcedure
+    deleteAnnouncement: adminPermissionProcedure("content.manage")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input, ctx }) => {
         const success = await deleteAnnouncement(input.id);
@@ -1844,7 +2092,7 @@ export const appRouter = router({
     // ============ 用户消息系统 ============
 
     // 发送消息给单个用户
-    sendMessage: adminProcedure
+    sendMessage: adminPermissionProcedure("content.manage")
       .input(z.object({
         userId: z.number(),
         title: z.string().min(1, "标题不能为空"),
@@ -1873,7 +2121,7 @@ export const appRouter = router({
       }),
 
     // 批量发送消息
-    sendBulkMessage: adminProcedure
+    sendBulkMessage: adminPermissionProcedure("content.manage")
       .input(z.object({
         userIds: z.array(z.number()),
         title: z.string().min(1, "标题不能为空"),
@@ -1915,7 +2163,7 @@ export const appRouter = router({
       }),
 
     // 删除单条消息
-    deleteMessage: adminProcedure
+    deleteMessage: adminPermissionProcedure("content.manage")
       .input(z.object({ messageId: z.number() }))
       .mutation(async ({ input, ctx }) => {
         const success = await deleteMessage(input.messageId);
@@ -1933,7 +2181,7 @@ export const appRouter = router({
       }),
 
     // 批量删除消息
-    deleteMessages: adminProcedure
+    deleteMessages: adminPermissionProcedure("content.manage")
       .input(z.object({ messageIds: z.array(z.number()) }))
       .mutation(async ({ input, ctx }) => {
         const count = await deleteMessages(input.messageIds);
@@ -1969,7 +2217,7 @@ export const appRouter = router({
       }),
 
     // 标记错误已解决
-    resolveError: adminProcedure
+    resolveError: adminPermissionProcedure("content.manage")
       .input(z.object({ errorId: z.number() }))
       .mutation(async ({ input, ctx }) => {
         const success = await resolveError(input.errorId, (ctx as any).adminUser?.username || 'admin');
@@ -2060,6 +2308,9 @@ export const appRouter = router({
 
     // ============ 代理管理 ============
     agent: adminAgentRouter,
+
+    // ============ 充值优惠 ============
+    promotions: adminPromotionsRouter,
   }),
 
   // ============ 用户端公告和消息 API ============
@@ -2182,7 +2433,7 @@ export const appRouter = router({
       }),
 
     // 回复反馈（管理员）
-    reply: adminProcedure
+    reply: adminPermissionProcedure("content.manage")
       .input(z.object({
         feedbackId: z.number(),
         reply: z.string().min(1, "回复内容不能为空"),
@@ -2208,7 +2459,7 @@ export const appRouter = router({
       }),
 
     // 更新反馈状态（管理员）
-    updateStatus: adminProcedure
+    updateStatus: adminPermissionProcedure("content.manage")
       .input(z.object({
         feedbackId: z.number(),
         status: z.enum(['pending', 'processing', 'resolved', 'closed']),
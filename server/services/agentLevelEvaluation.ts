@@ -0,0 +1,54 @@
+/**
+ * 代理等级自动评估服务
+ * 定期按团队业绩升降代理等级（需在代理配置中开启 level_auto_enabled）
+ */
+
+import { evaluateAgentLevels, getAgentSetting } from "../agentDb";
+
+let evaluationInterval: NodeJS.Timeout | null = null;
+
+/**
+ * 执行等级评估
+ */
+async function runEvaluation(): Promise<void> {
+  try {
+    if ((await getAgentSetting('level_auto_enabled')) !== 'true') {
+      return;
+    }
+    const result = await evaluateAgentLevels();
+    if (result.upgraded > 0 || result.downgraded > 0) {
+      console.log(`[AgentLevelEvaluation] 评估 ${result.evaluated} 名代理，升级 ${result.upgraded} 名，降级 ${result.downgraded} 名`);
+    }
+  } catch (error) {
+    console.error('[AgentLevelEvaluation] 评估失败:', error);
+  }
+}
+
+/**
+ * 启动代理等级自动评估服务
+ * @param intervalMs 检查间隔（毫秒），默认6小时
+ */
+export function startAgentLevelEvaluation(intervalMs: number = 6 * 60 * 60 * 1000): NodeJS.Timeout {
+  console.log(`[AgentLevelEvaluation] 启动代理等级自动评估服务，间隔: ${intervalMs / 1000}秒`);
+
+  // 启动时先执行一次
+  runEvaluation().catch(console.error);
+
+  // 定期执行
+  evaluationInterval = setInterval(() => {
+    runEvaluation().catch(console.error);
+  }, intervalMs);
+
+  return evaluationInterval;
+}
+
+/**
+ * 停止代理等级自动评估服务
+ */
+export function stopAgentLevelEvaluation(): void {
+  if (evaluationInterval) {
+    clearInterval(evaluationInterval);
+    evaluationInterval = null;
+    console.log('[AgentLevelEvaluation] 代理等级自动评估服务已停止');
+  }
+}
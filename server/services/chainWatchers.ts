@@ -0,0 +1,244 @@
+/**
+ * USDT 链上转账查询（各网络的链监听器）
+ *
+ * 每个网络实现同一个 ChainWatcher 接口，usdtMonitor 按网络轮询并走同一套订单匹配流程：
+ * - TRC20：TronGrid API
+ * - ERC20 / BEP20：Etherscan 风格的区块浏览器 API（module=account&action=tokentx）
+ *
+ * API 地址均可通过环境变量覆盖，便于接入自建节点或本地模拟服务
+ */
+
+// USDT合约地址
+export const USDT_CONTRACTS = {
+  TRC20: "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", // Tron USDT
+  ERC20: "0xdAC17F958D2ee523a2206206994597C13D831ec7", // Ethereum USDT
+  BEP20: "0x55d398326f99059fF775485246999027B3197955", // BSC USDT
+};
+
+export type UsdtNetwork = keyof typeof USDT_CONTRACTS;
+
+export const USDT_NETWORKS = Object.keys(USDT_CONTRACTS) as UsdtNetwork[];
+
+// 各网络默认确认数（可通过系统配置 USDT_CONFIRMATIONS_<网络> 覆盖）
+export const DEFAULT_CONFIRMATIONS: Record<UsdtNetwork, number> = {
+  TRC20: 1,  // TronGrid 只返回已固化的交易
+  ERC20: 12,
+  BEP20: 15,
+};
+
+export interface UsdtTransaction {
+  txId: string;
+  from: string;
+  to: string;
+  amount: number;
+  timestamp: number;
+  network: string;
+  blockNumber?: number;
+}
+
+export interface FetchTransfersOptions {
+  /** 所需确认数，未达到的转账不返回（下次轮询再取） */
+  confirmations: number;
+  /** 只返回该时间（毫秒）之后的转账 */
+  minTimestamp?: number;
+  /** 从该区块开始按时间正序补齐（含该区块），未指定时只取最近一页 */
+  fromBlock?: number;
+}
+
+// 补齐时每次轮询最多翻页数，剩余部分下次轮询继续
+const MAX_PAGES = 10;
+
+export interface ChainWatcher {
+  network: UsdtNetwork;
+  /** 是否已配置 API Key 等必要参数，未配置时跳过该网络 */
+  isConfigured(): boolean;
+  /** 获取钱包收到的 USDT 转账 */
+  fetchIncomingTransfers(walletAddress: string, options: FetchTransfersOptions): Promise<UsdtTransaction[]>;
+}
+
+/**
+ * TRC20 监听器（TronGrid）
+ */
+const tronWatcher: ChainWatcher = {
+  network: "TRC20",
+
+  isConfigured() {
+    return !!process.env.TRONGRID_API_KEY;
+  },
+
+  async fetchIncomingTransfers(walletAddress, options) {
+    try {
+      const apiKey = process.env.TRONGRID_API_KEY;
+      if (!apiKey) {
+        // 没有API Key时静默跳过，不输出错误日志
+        return [];
+      }
+
+      const apiUrl = process.env.TRONGRID_API_URL || "https://api.trongrid.io";
+      const params = new URLSearchParams({
+        limit: "200",
+        only_to: "true",
+        contract_address: USDT_CONTRACTS.TRC20,
+      });
+      // TronGrid 无法返回确认数，要求确认时只取已固化（不可逆）的交易
+      if (options.confirmations > 0) params.set("only_confirmed", "true");
+      // TronGrid 没有区块号，按区块时间游标正序补齐
+      if (options.minTimestamp) {
+        params.set("min_timestamp", String(options.minTimestamp));
+        params.set("order_by", "block_timestamp,asc");
+      }
+
+      const transfers: any[] = [];
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const response = await fetch(`${apiUrl}/v1/accounts/${walletAddress}/transactions/trc20?${params}`, {
+          headers: {
+            "TRON-PRO-API-KEY": apiKey,
+          },
+        });
+
+        if (!response.ok) {
+          // 只在非401错误时输出日志，401表示API Key无效
+          if (response.status !== 401) {
+            console.error("[USDT Monitor] TronGrid API error:", response.status);
+          }
+          break;
+        }
+
+        const data = await response.json();
+        if (!data.data || !Array.isArray(data.data)) {
+          break;
+        }
+        transfers.push(...data.data);
+
+        // 没有指定游标时只取最近一页
+        const fingerprint = data.meta?.fingerprint;
+        if (!options.minTimestamp || !fingerprint) break;
+        params.set("fingerprint", fingerprint);
+      }
+
+      return transfers
+        .filter((tx: any) => tx.to === walletAddress) // 只关注收款
+        .map((tx: any) => ({
+          txId: tx.transaction_id,
+          from: tx.from,
+          to: tx.to,
+          amount: parseFloat(tx.value) / 1e6, // USDT 6位小数
+          timestamp: tx.block_timestamp,
+          network: "TRC20",
+        }));
+    } catch (error) {
+      console.error("[USDT Monitor] Error fetching TRC20 transactions:", error);
+      return [];
+    }
+  },
+};
+
+/**
+ * Etherscan 风格区块浏览器监听器（ERC20 / BEP20）
+ */
+function createExplorerWatcher(config: {
+  network: Exclude<UsdtNetwork, "TRC20">;
+  chainId: number;
+  apiUrlEnv: string;
+  apiKeyEnv: string;
+}): ChainWatcher {
+  // Etherscan V2 多链接口，同一个 Key 可查询以太坊和 BSC
+  const getApiKey = () => process.env[config.apiKeyEnv] || process.env.ETHERSCAN_API_KEY || "";
+
+  return {
+    network: config.network,
+
+    isConfigured() {
+      return !!getApiKey();
+    },
+
+    async fetchIncomingTransfers(walletAddress, options) {
+      try {
+        const apiKey = getApiKey();
+        if (!apiKey) {
+          return [];
+        }
+
+        const apiUrl = process.env[config.apiUrlEnv] || "https://api.etherscan.io/v2/api";
+        const pageSize = 100;
+        const params = new URLSearchParams({
+          chainid: String(config.chainId),
+          module: "account",
+          action: "tokentx",
+          contractaddress: USDT_CONTRACTS[config.network],
+          address: walletAddress,
+          offset: String(pageSize),
+          sort: options.fromBlock !== undefined ? "asc" : "desc",
+          apikey: apiKey,
+        });
+        if (options.fromBlock !== undefined) params.set("startblock", String(options.fromBlock));
+
+        const transfers: any[] = [];
+        for (let page = 1; page <= MAX_PAGES; page++) {
+          params.set("page", String(page));
+          const response = await fetch(`${apiUrl}?${params}`);
+          if (!response.ok) {
+            console.error(`[USDT Monitor] ${config.network} explorer API error:`, response.status);
+            break;
+          }
+
+          const data = await response.json();
+
+          // status "0" 且无交易时 result 为空数组；其他错误时 result 为错误信息字符串
+          if (!Array.isArray(data.result)) {
+            if (data.message !== "No transactions found") {
+              console.error(`[USDT Monitor] ${config.network} explorer API error:`, data.message, data.result);
+            }
+            break;
+          }
+          transfers.push(...data.result);
+
+          // 没有指定起始区块时只取最近一页
+          if (options.fromBlock === undefined || data.result.length < pageSize) break;
+        }
+
+        const wallet = walletAddress.toLowerCase();
+        return transfers
+          .filter((tx: any) => String(tx.to).toLowerCase() === wallet) // 只关注收款
+          .filter((tx: any) => Number(tx.confirmations) >= options.confirmations)
+          .map((tx: any) => ({
+            txId: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            // ERC20 USDT 为6位小数，BSC USDT 为18位小数
+            amount: parseFloat(tx.value) / Math.pow(10, Number(tx.tokenDecimal) || 6),
+            timestamp: Number(tx.timeStamp) * 1000,
+            network: config.network,
+            blockNumber: Number(tx.blockNumber),
+          }))
+          .filter((tx: UsdtTransaction) => !options.minTimestamp || tx.timestamp >= options.minTimestamp);
+      } catch (error) {
+        console.error(`[USDT Monitor] Error fetching ${config.network} transactions:`, error);
+        return [];
+      }
+    },
+  };
+}
+
+const CHAIN_WATCHERS: Record<UsdtNetwork, ChainWatcher> = {
+  TRC20: tronWatcher,
+  ERC20: createExplorerWatcher({
+    network: "ERC20",
+    chainId: 1,
+    apiUrlEnv: "ETHERSCAN_API_URL",
+    apiKeyEnv: "ETHERSCAN_API_KEY",
+  }),
+  BEP20: createExplorerWatcher({
+    network: "BEP20",
+    chainId: 56,
+    apiUrlEnv: "BSCSCAN_API_URL",
+    apiKeyEnv: "BSCSCAN_API_KEY",
+  }),
+};
+
+/**
+ * 获取网络对应的监听器
+ */
+export function getChainWatcher(network: string): ChainWatcher | null {
+  return CHAIN_WATCHERS[network as UsdtNetwork] ?? null;
+}
@@ -5,6 +5,7 @@
  * 功能：
  * - 发送密码重置邮件
  * - 发送邮箱验证邮件
+ * - 发送账单邮件（充值收据、月结单，附 PDF）
  * 
  * 注意：使用延迟初始化，避免缺少 API Key 时导致应用崩溃
  */
@@ -145,3 +146,46 @@ export async function sendVerificationEmail(email: string, token: string): Promi
     return false;
   }
 }
+
+/**
+ * 发送账单邮件（充值收据、月结单）
+ * @param email 收件人邮箱
+ * @param subject 邮件标题
+ * @param html 邮件正文（账单 HTML）
+ * @param attachment PDF 附件
+ * @returns 是否发送成功
+ */
+export async function sendBillingEmail(
+  email: string,
+  subject: string,
+  html: string,
+  attachment?: { filename: string; content: Buffer }
+): Promise<boolean> {
+  const client = getResendClient();
+  
+  if (!client) {
+    console.warn('[Email] 邮件服务未配置 (缺少 RESEND_API_KEY)，跳过发送账单邮件');
+    return false;
+  }
+  
+  try {
+    const { data, error } = await client.emails.send({
+      from: FROM_EMAIL,
+      to: email,
+      subject,
+      html,
+      attachments: attachment ? [attachment] : undefined,
+    });
+
+    if (error) {
+      console.error('[Email] 发送账单邮件失败:', error);
+      return false;
+    }
+
+    console.log('[Email] 账单邮件已发送:', data?.id);
+    return true;
+  } catch (err) {
+    console.error('[Email] 发送邮件异常:', err);
+    return false;
+  }
+}
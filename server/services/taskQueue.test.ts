@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { taskJobs, type TaskJob } from "../../drizzle/schema";
+import type { AnyPeopleSearchProvider, PeopleSearchResumeOptions } from "../peopleSearch/types";
+
+const fake = await vi.hoisted(async () => (await import("../testing/fakeDb")).createFakeDb());
+
+vi.mock("../db", () => ({
+  getDb: async () => fake.database,
+}));
+
+vi.mock("../organizations/credits", () => ({ refundTaskCharges: vi.fn() }));
+vi.mock("../peopleSearch/registry", () => ({ getPeopleSearchProvider: vi.fn() }));
+vi.mock("../peopleSearch/runner", () => ({ loadResumeOptions: vi.fn(), runPeopleSearchTask: vi.fn() }));
+vi.mock("./webhookDispatcher", () => ({ notifyTaskWebhooks: vi.fn() }));
+vi.mock("../waterfall/db", () => ({ getWaterfallSearchTask: vi.fn(), interruptWaterfallSearchTask: vi.fn() }));
+vi.mock("../linkedin/db", () => ({ getSearchTask: vi.fn(), getSearchResults: vi.fn(), interruptSearchTask: vi.fn() }));
+vi.mock("../phoneLookup/db", () => ({ getPhoneLookupTask: vi.fn(), countPhoneLookupResults: vi.fn(), interruptPhoneLookupTask: vi.fn() }));
+
+import { refundTaskCharges } from "../organizations/credits";
+import { getPeopleSearchProvider } from "../peopleSearch/registry";
+import { loadResumeOptions, runPeopleSearchTask } from "../peopleSearch/runner";
+import { notifyTaskWebhooks } from "./webhookDispatcher";
+import { recoverOrphanedTasks } from "./taskQueue";
+
+const ATTEMPT_STARTED_AT = new Date("2026-10-01T08:00:00.000Z");
+
+const provider = {
+  label: "TPS",
+  getRuntimeConfig: vi.fn(),
+  countResults: vi.fn(),
+  store: { isUnfinished: vi.fn(), interrupt: vi.fn() },
+};
+
+function job(overrides: Partial<TaskJob> = {}): TaskJob {
+  return {
+    id: 1,
+    source: "tps",
+    taskId: "task-abcdef123456",
+    taskDbId: 9,
+    userId: 7,
+    payload: { names: ["John Smith"] },
+    status: "running",
+    attempts: 1,
+    savedResults: 5,
+    savedSubTasks: 2,
+    leaseOwner: "dead-worker",
+    leaseExpiresAt: new Date(Date.now() - 1000),
+    attemptStartedAt: ATTEMPT_STARTED_AT,
+    lastError: null,
+    createdAt: ATTEMPT_STARTED_AT,
+    updatedAt: ATTEMPT_STARTED_AT,
+    ...overrides,
+  };
+}
+
+function resumeState(previousResults: number, completedSubTasks: number): PeopleSearchResumeOptions {
+  return {
+    completedSubTaskIndexes: Array.from({ length: completedSubTasks }, (_, i) => i),
+    previousResults,
+    previousCreditsUsed: 0,
+    previousPhones: [],
+    previousLogs: [],
+  };
+}
+
+/** 积分日志汇总：扣费为负数 */
+function charges(amount: number) {
+  return [{ total: String(-amount) }];
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fake.reset();
+  vi.mocked(getPeopleSearchProvider).mockReturnValue(provider as unknown as AnyPeopleSearchProvider);
+  vi.mocked(runPeopleSearchTask).mockResolvedValue(undefined as never);
+  vi.mocked(refundTaskCharges).mockImplementation(async (_userId, _taskId, amount) => amount);
+  provider.getRuntimeConfig.mockResolvedValue({ enabled: true, token: "token" });
+  provider.store.isUnfinished.mockResolvedValue(true);
+  provider.store.interrupt.mockResolvedValue(true);
+});
+
+describe("recoverOrphanedTasks", () => {
+  it("skips an expired lease another worker claimed first", async () => {
+    fake.state.rows.set(taskJobs, [job()]);
+    fake.state.affectedRows.push(0);
+
+    await recoverOrphanedTasks();
+
+    expect(fake.updatesOf(taskJobs)).toHaveLength(1);
+    expect(provider.store.isUnfinished).not.toHaveBeenCalled();
+    expect(refundTaskCharges).not.toHaveBeenCalled();
+  });
+
+  it("claims an expired lease and releases it when the task already finished", async () => {
+    fake.state.rows.set(taskJobs, [job()]);
+    provider.store.isUnfinished.mockResolvedValue(false);
+
+    await recoverOrphanedTasks();
+
+    const [claim, release] = fake.updatesOf(taskJobs);
+    expect(claim.leaseOwner).not.toBe("dead-worker");
+    expect(claim.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(release).toMatchObject({ status: "completed", leaseExpiresAt: null });
+    expect(runPeopleSearchTask).not.toHaveBeenCalled();
+  });
+
+  it("refunds the interrupted attempt in full when it made no progress", async () => {
+    // 依次为：过期租约、本次执行的扣费、退还后的全部扣费
+    fake.state.queued.push([job()], charges(30), charges(0));
+    vi.mocked(loadResumeOptions).mockResolvedValue(resumeState(5, 2));
+
+    await recoverOrphanedTasks();
+
+    expect(refundTaskCharges).toHaveBeenCalledWith(7, "task-abcdef123456", 30, expect.stringContaining("TPS搜索中断退还"), ATTEMPT_STARTED_AT);
+    expect(runPeopleSearchTask).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(runPeopleSearchTask).mock.calls[0][5]).toMatchObject({ previousCreditsUsed: 0 });
+  });
+
+  it.each([
+    ["saved new results", resumeState(8, 2)],
+    ["completed a sub-task", resumeState(5, 3)],
+  ])("keeps the charges of an attempt that %s", async (_label, resume) => {
+    fake.state.queued.push([job()], charges(30));
+    vi.mocked(loadResumeOptions).mockResolvedValue(resume);
+
+    await recoverOrphanedTasks();
+
+    expect(refundTaskCharges).not.toHaveBeenCalled();
+    expect(runPeopleSearchTask).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(runPeopleSearchTask).mock.calls[0][5]).toMatchObject({ previousCreditsUsed: 30 });
+    expect(fake.updatesOf(taskJobs)[1]).toMatchObject({ savedResults: resume.previousResults, savedSubTasks: resume.completedSubTaskIndexes.length });
+  });
+
+  it("fails a task out of attempts and refunds it in full when nothing was saved", async () => {
+    fake.state.queued.push([job({ attempts: 3 })], charges(30));
+    provider.countResults.mockResolvedValue(0);
+
+    await recoverOrphanedTasks();
+
+    expect(runPeopleSearchTask).not.toHaveBeenCalled();
+    expect(provider.store.interrupt).toHaveBeenCalledWith(
+      { taskDbId: 9, taskId: "task-abcdef123456" },
+      expect.any(String),
+      { totalResults: 0, creditsUsed: 0 },
+      expect.stringContaining("已退还 30.0 积分")
+    );
+    expect(refundTaskCharges).toHaveBeenCalledWith(7, "task-abcdef123456", 30, expect.any(String), undefined);
+    expect(notifyTaskWebhooks).toHaveBeenCalledWith(7, expect.objectContaining({ status: "failed", creditsUsed: 0 }));
+    expect(fake.updatesOf(taskJobs).at(-1)).toMatchObject({ status: "failed" });
+  });
+
+  it("fails a task out of attempts without a refund when results were saved", async () => {
+    fake.state.queued.push([job({ attempts: 3 })], charges(30));
+    provider.countResults.mockResolvedValue(4);
+
+    await recoverOrphanedTasks();
+
+    expect(provider.store.interrupt).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(String),
+      { totalResults: 4, creditsUsed: 30 },
+      expect.any(String)
+    );
+    expect(refundTaskCharges).not.toHaveBeenCalled();
+  });
+});
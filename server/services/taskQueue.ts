@@ -0,0 +1,537 @@
+/**
+ * 持久化任务队列服务
+ *
+ * 搜索任务在后台异步执行，进程退出（如重新部署）后任务会一直停留在 running，
+ * 已扣的积分也没有对应结果。每个后台任务在 task_jobs 表中持有一个租约：
+ * 1. 执行期间定期心跳续期，结束时释放租约
+ * 2. 租约过期说明执行进程已退出，恢复服务抢占租约后：
+ *    - TPS / SPF / Anywho 独立任务：退还中断执行中未产生结果的扣费，跳过已完成的子任务继续执行
+ *    - 瀑布式搜索、瀑布式搜索的子任务、LinkedIn 搜索、电话反查及超过重试次数的任务：标记失败并自动对账
+ * 3. 启动时额外检查没有租约记录的等待中/运行中任务（队列上线前创建的任务），标记失败并自动对账
+ *
+ * 对账规则：按积分日志重新核算实际消耗，没有保存任何结果的任务全额退还
+ */
+
+import os from "os";
+import crypto from "crypto";
+import { and, eq, lt, gte, desc, inArray, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { refundTaskCharges } from "../organizations/credits";
+import {
+  taskJobs,
+  TaskJob,
+  creditLogs,
+  tpsSearchTasks,
+  spfSearchTasks,
+  anywhoSearchTasks,
+  waterfallSearchTasks,
+  searchTasks,
+  phoneLookupTasks,
+} from "../../drizzle/schema";
+import { getPeopleSearchProvider } from "../peopleSearch/registry";
+import { loadResumeOptions, runPeopleSearchTask } from "../peopleSearch/runner";
+import type { PeopleSearchInput, PeopleSearchSource, PeopleSearchTaskRef } from "../peopleSearch/types";
+import { getWaterfallSearchTask, interruptWaterfallSearchTask } from "../waterfall/db";
+import { getSearchTask, getSearchResults, interruptSearchTask } from "../linkedin/db";
+import { getPhoneLookupTask, countPhoneLookupResults, interruptPhoneLookupTask } from "../phoneLookup/db";
+import { notifyTaskWebhooks } from "./webhookDispatcher";
+
+export type TaskJobSource = TaskJob["source"];
+
+export interface TaskJobSpec {
+  source: TaskJobSource;
+  taskId: string;
+  taskDbId: number;
+  userId: number;
+  /** 任务输入，恢复执行时使用 */
+  payload?: unknown;
+  /** 本次执行开始时已保存的结果数（继续执行的任务） */
+  savedResults?: number;
+  /** 本次执行开始时已完成的子任务数（继续执行的任务） */
+  savedSubTasks?: number;
+}
+
+export interface TaskJobLease {
+  jobId: number;
+  /** 释放租约并停止心跳 */
+  release(status: "completed" | "failed", error?: string): Promise<void>;
+}
+
+/** 瀑布式搜索子任务的 payload 带有父任务 ID，不单独恢复 */
+type PeopleSearchJobPayload = PeopleSearchInput & { parentTaskId?: string };
+
+/** 租约时长 */
+const LEASE_MS = 60 * 1000;
+/** 心跳间隔（租约时长的 1/3，容忍偶发的数据库超时） */
+const HEARTBEAT_MS = 20 * 1000;
+/** 最多执行次数（含首次执行），超过后不再恢复 */
+const MAX_ATTEMPTS = 3;
+
+const INTERRUPTED_MESSAGE = "服务重启导致任务中断";
+
+const PEOPLE_SEARCH_SOURCES: PeopleSearchSource[] = ["tps", "spf", "anywho"];
+
+/** 当前进程标识（租约持有者） */
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+
+let recovering = false;
+
+async function db() {
+  const database = await getDb();
+  if (!database) throw new Error("数据库连接失败");
+  return database;
+}
+
+function leaseDeadline(): Date {
+  return new Date(Date.now() + LEASE_MS);
+}
+
+function isPeopleSearchSource(source: TaskJobSource): source is PeopleSearchSource {
+  return (PEOPLE_SEARCH_SOURCES as string[]).includes(source);
+}
+
+// ==================== 租约 ====================
+
+async function releaseJob(jobId: number, status: "completed" | "failed", error?: string): Promise<void> {
+  try {
+    const database = await db();
+    await database.update(taskJobs).set({
+      status,
+      leaseExpiresAt: null,
+      lastError: error ? error.substring(0, 500) : null,
+    }).where(and(eq(taskJobs.id, jobId), eq(taskJobs.leaseOwner, WORKER_ID)));
+  } catch (err) {
+    console.error(`[Task Queue] 释放租约失败 #${jobId}:`, err);
+  }
+}
+
+/**
+ * 持有租约：定期心跳续期，直到 release
+ */
+function holdLease(jobId: number): TaskJobLease {
+  const timer = setInterval(() => {
+    db()
+      .then(database => database.update(taskJobs)
+        .set({ leaseExpiresAt: leaseDeadline() })
+        .where(and(eq(taskJobs.id, jobId), eq(taskJobs.leaseOwner, WORKER_ID))))
+      .catch(err => console.error(`[Task Queue] 心跳失败 #${jobId}:`, err));
+  }, HEARTBEAT_MS);
+
+  return {
+    jobId,
+    async release(status, error) {
+      clearInterval(timer);
+      await releaseJob(jobId, status, error);
+    },
+  };
+}
+
+async function runUnderLease<T>(lease: TaskJobLease, run: () => Promise<T>): Promise<T> {
+  try {
+    const result = await run();
+    await lease.release("completed");
+    return result;
+  } catch (error: any) {
+    await lease.release("failed", error?.message || "未知错误");
+    throw error;
+  }
+}
+
+/**
+ * 登记后台任务并持有租约
+ *
+ * 适用于执行流程不便包装成单个 Promise 的任务（如 LinkedIn 搜索），结束时需调用 release。
+ * 继续执行的任务复用原有的租约记录
+ */
+export async function startTaskJob(spec: TaskJobSpec): Promise<TaskJobLease> {
+  const database = await db();
+  const lease = {
+    payload: spec.payload ?? null,
+    status: "running" as const,
+    attempts: 1,
+    savedResults: spec.savedResults ?? 0,
+    savedSubTasks: spec.savedSubTasks ?? 0,
+    leaseOwner: WORKER_ID,
+    leaseExpiresAt: leaseDeadline(),
+    attemptStartedAt: new Date(),
+    lastError: null,
+  };
+
+  const existing = await database
+    .select({ id: taskJobs.id })
+    .from(taskJobs)
+    .where(and(eq(taskJobs.source, spec.source), eq(taskJobs.taskId, spec.taskId)))
+    .limit(1);
+  if (existing[0]) {
+    await database.update(taskJobs).set(lease).where(eq(taskJobs.id, existing[0].id));
+    return holdLease(existing[0].id);
+  }
+
+  const result = await database.insert(taskJobs).values({
+    source: spec.source,
+    taskId: spec.taskId,
+    taskDbId: spec.taskDbId,
+    userId: spec.userId,
+    ...lease,
+  });
+  return holdLease(Number(result[0].insertId));
+}
+
+/**
+ * 在租约保护下执行后台任务
+ *
+ * 替代直接调用 `runXxx(...).catch(...)`：进程退出后租约过期，任务可被恢复服务接管
+ */
+export async function runTaskJob<T>(spec: TaskJobSpec, run: () => Promise<T>): Promise<T> {
+  const lease = await startTaskJob(spec);
+  return runUnderLease(lease, run);
+}
+
+// ==================== 积分对账 ====================
+
+/**
+ * 统计任务的净扣费（扣费为正，已退还部分已抵扣）
+ */
+async function getTaskCharges(userId: number, taskId: string, since?: Date): Promise<number> {
+  const database = await db();
+  const conditions = [eq(creditLogs.userId, userId), eq(creditLogs.relatedTaskId, taskId)];
+  if (since) {
+    conditions.push(gte(creditLogs.createdAt, since));
+  }
+  const rows = await database
+    .select({ total: sql<string>`COALESCE(SUM(${creditLogs.amount}), 0)` })
+    .from(creditLogs)
+    .where(and(...conditions));
+  const charged = -(parseFloat(String(rows[0]?.total)) || 0);
+  return Math.max(0, Math.round(charged * 100) / 100);
+}
+
+/**
+ * 退还扣费（团队成员的扣费退回团队积分池）
+ */
+async function refundCharges(userId: number, taskId: string, amount: number, description: string, since?: Date): Promise<void> {
+  if (amount <= 0) return;
+  const refunded = await refundTaskCharges(userId, taskId, amount, `${description} [${taskId.slice(0, 8)}]`, since);
+  console.log(`[Task Queue] 任务 ${taskId} 退还 ${refunded.toFixed(2)} 积分: ${description}`);
+}
+
+function interruptLog(savedResults: number, charged: number, refunded: number): string {
+  const billing = refunded > 0
+    ? `无结果，已退还 ${refunded.toFixed(1)} 积分`
+    : `已保存 ${savedResults} 条结果，实际消耗 ${charged.toFixed(1)} 积分`;
+  return `⚠️ ${INTERRUPTED_MESSAGE}，${billing}`;
+}
+
+// ==================== 标记失败并对账 ====================
+
+/**
+ * 人员搜索任务：标记失败，没有结果时全额退还
+ */
+async function interruptPeopleSearchTask(
+  source: PeopleSearchSource,
+  task: PeopleSearchTaskRef,
+  userId: number
+): Promise<void> {
+  const provider = getPeopleSearchProvider(source);
+  const savedResults = await provider.countResults(task);
+  const charged = await getTaskCharges(userId, task.taskId);
+  const refund = savedResults === 0 ? charged : 0;
+
+  const interrupted = await provider.store.interrupt(
+    task,
+    INTERRUPTED_MESSAGE,
+    { totalResults: savedResults, creditsUsed: charged - refund },
+    interruptLog(savedResults, charged, refund)
+  );
+  if (!interrupted) return;
+
+  await refundCharges(userId, task.taskId, refund, `${provider.label}搜索中断退还`);
+  await notifyTaskWebhooks(userId, {
+    source,
+    taskId: task.taskId,
+    status: "failed",
+    totalResults: savedResults,
+    creditsUsed: charged - refund,
+    errorMessage: INTERRUPTED_MESSAGE,
+  });
+  console.log(`[Task Queue] ${provider.label} 任务 ${task.taskId} 已标记失败`);
+}
+
+/**
+ * LinkedIn 搜索任务：结果边搜索边保存，按积分日志核算消耗，没有结果时全额退还
+ */
+async function interruptLinkedInTask(taskId: string, userId: number): Promise<void> {
+  const task = await getSearchTask(taskId);
+  if (!task) return;
+
+  const savedResults = (await getSearchResults(task.id)).length;
+  const charged = await getTaskCharges(userId, taskId);
+  const refund = savedResults === 0 ? charged : 0;
+
+  const interrupted = await interruptSearchTask(
+    taskId,
+    INTERRUPTED_MESSAGE,
+    { actualCount: savedResults, creditsUsed: charged - refund },
+    interruptLog(savedResults, charged, refund)
+  );
+  if (!interrupted) return;
+
+  await refundCharges(userId, taskId, refund, "LinkedIn搜索中断退还");
+  await notifyTaskWebhooks(userId, {
+    source: "linkedin",
+    taskId,
+    status: "failed",
+    totalResults: savedResults,
+    creditsUsed: charged - refund,
+    errorMessage: INTERRUPTED_MESSAGE,
+  });
+  console.log(`[Task Queue] LinkedIn 任务 ${taskId} 已标记失败`);
+}
+
+/**
+ * 瀑布式搜索任务：积分由各数据源子任务扣除，按子任务重新汇总账单
+ *
+ * 正在执行的子任务有自己的租约，由恢复服务单独对账
+ */
+async function interruptWaterfallTask(taskId: string, userId: number): Promise<void> {
+  const task = await getWaterfallSearchTask(taskId);
+  if (!task) return;
+
+  const stages = await Promise.all((task.stages || []).map(async stage => {
+    if (!stage.childTaskId) return stage;
+    const creditsUsed = await getTaskCharges(userId, stage.childTaskId);
+    const status = stage.status === "running" || stage.status === "pending" ? "failed" : stage.status;
+    return { ...stage, creditsUsed, status };
+  }));
+  const creditsUsed = stages.reduce((sum, stage) => sum + stage.creditsUsed, 0);
+
+  const interrupted = await interruptWaterfallSearchTask(task.id, INTERRUPTED_MESSAGE, {
+    stages,
+    creditsUsed,
+    logs: [...(task.logs || []), {
+      timestamp: new Date().toISOString(),
+      message: `⚠️ ${INTERRUPTED_MESSAGE}，已保存 ${task.totalResults} 条结果，实际消耗 ${creditsUsed.toFixed(1)} 积分`,
+    }],
+  });
+  if (interrupted) {
+    console.log(`[Task Queue] 瀑布式搜索任务 ${taskId} 已标记失败`);
+  }
+}
+
+/**
+ * 电话反查任务：结果按批保存，按积分日志核算消耗，没有结果时全额退还
+ */
+async function interruptPhoneLookup(taskId: string, userId: number): Promise<void> {
+  const task = await getPhoneLookupTask(taskId);
+  if (!task) return;
+
+  const saved = await countPhoneLookupResults(task.id);
+  const charged = await getTaskCharges(userId, taskId);
+  const refund = saved.total === 0 ? charged : 0;
+
+  const interrupted = await interruptPhoneLookupTask(task.id, INTERRUPTED_MESSAGE, {
+    completedPhones: saved.total,
+    creditsUsed: charged - refund,
+    logMessage: interruptLog(saved.total, charged, refund),
+  });
+  if (!interrupted) return;
+
+  await refundCharges(userId, taskId, refund, "电话反查中断退还");
+  console.log(`[Task Queue] 电话反查任务 ${taskId} 已标记失败`);
+}
+
+async function interruptTask(source: TaskJobSource, task: PeopleSearchTaskRef, userId: number): Promise<void> {
+  if (isPeopleSearchSource(source)) {
+    await interruptPeopleSearchTask(source, task, userId);
+  } else if (source === "waterfall") {
+    await interruptWaterfallTask(task.taskId, userId);
+  } else if (source === "phone_lookup") {
+    await interruptPhoneLookup(task.taskId, userId);
+  } else {
+    await interruptLinkedInTask(task.taskId, userId);
+  }
+}
+
+// ==================== 恢复 ====================
+
+/**
+ * 抢占已过期的租约（多个实例同时恢复时只有一个成功）
+ */
+async function claimJob(job: TaskJob): Promise<boolean> {
+  const database = await db();
+  const result = await database.update(taskJobs).set({
+    leaseOwner: WORKER_ID,
+    leaseExpiresAt: leaseDeadline(),
+    attempts: sql`${taskJobs.attempts} + 1`,
+  }).where(and(
+    eq(taskJobs.id, job.id),
+    eq(taskJobs.status, "running"),
+    lt(taskJobs.leaseExpiresAt, new Date())
+  ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 从未完成的子任务继续执行人员搜索任务
+ *
+ * 返回 false 表示不满足恢复条件，由调用方标记失败
+ */
+async function resumePeopleSearchJob(job: TaskJob, source: PeopleSearchSource): Promise<boolean> {
+  const payload = job.payload as PeopleSearchJobPayload | null;
+  if (!payload || payload.parentTaskId || job.attempts + 1 > MAX_ATTEMPTS) return false;
+
+  const provider = getPeopleSearchProvider(source);
+  const config = await provider.getRuntimeConfig();
+  if (!config.enabled || !config.token) return false;
+
+  const task = { taskDbId: job.taskDbId, taskId: job.taskId };
+  const resume = await loadResumeOptions(provider, task);
+
+  // 中断的那次执行既没有保存结果也没有完成任何子任务：退还这次执行的扣费
+  // （已写入检查点的子任务继续执行时会跳过，其扣费不能退还）
+  const madeProgress = resume.previousResults > job.savedResults
+    || resume.completedSubTaskIndexes.length > job.savedSubTasks;
+  if (!madeProgress && job.attemptStartedAt) {
+    const attemptCharges = await getTaskCharges(job.userId, job.taskId, job.attemptStartedAt);
+    await refundCharges(job.userId, job.taskId, attemptCharges, `${provider.label}搜索中断退还`, job.attemptStartedAt);
+  }
+  // 任务表中的积分在中断前可能未及时更新，以积分日志为准
+  resume.previousCreditsUsed = await getTaskCharges(job.userId, job.taskId);
+
+  const database = await db();
+  await database.update(taskJobs).set({
+    savedResults: resume.previousResults,
+    savedSubTasks: resume.completedSubTaskIndexes.length,
+    attemptStartedAt: new Date(),
+  }).where(eq(taskJobs.id, job.id));
+
+  console.log(`[Task Queue] 恢复 ${provider.label} 任务 ${job.taskId}（第 ${job.attempts + 1} 次执行）`);
+
+  runUnderLease(holdLease(job.id), () => runPeopleSearchTask(
+    provider,
+    task,
+    job.userId,
+    payload,
+    config,
+    resume
+  )).catch(err => {
+    console.error(`[Task Queue] ${provider.label} 任务 ${job.taskId} 恢复执行失败:`, err);
+  });
+
+  return true;
+}
+
+async function recoverJob(job: TaskJob): Promise<void> {
+  const task = { taskDbId: job.taskDbId, taskId: job.taskId };
+
+  if (isPeopleSearchSource(job.source)) {
+    // 任务已正常结束，只是租约没来得及释放
+    if (!await getPeopleSearchProvider(job.source).store.isUnfinished(task)) {
+      await releaseJob(job.id, "completed");
+      return;
+    }
+    if (await resumePeopleSearchJob(job, job.source)) return;
+  }
+
+  await interruptTask(job.source, task, job.userId);
+  await releaseJob(job.id, "failed", INTERRUPTED_MESSAGE);
+}
+
+/**
+ * 队列上线前创建（没有租约记录）且仍在执行中的任务
+ */
+async function interruptUntrackedTasks(): Promise<void> {
+  const database = await db();
+  const cutoff = new Date(Date.now() - LEASE_MS);
+
+  const tables = [
+    { source: "tps", table: tpsSearchTasks },
+    { source: "spf", table: spfSearchTasks },
+    { source: "anywho", table: anywhoSearchTasks },
+    { source: "waterfall", table: waterfallSearchTasks },
+    { source: "linkedin", table: searchTasks },
+    { source: "phone_lookup", table: phoneLookupTasks },
+  ] as const;
+
+  for (const { source, table } of tables) {
+    // 各任务表的 id / taskId / userId / status / createdAt 列定义一致
+    const t = table as typeof tpsSearchTasks;
+    const tasks = await database
+      .select({ id: t.id, taskId: t.taskId, userId: t.userId })
+      .from(t)
+      .where(and(
+        inArray(t.status, ["pending", "running"]),
+        lt(t.createdAt, cutoff),
+        sql`NOT EXISTS (SELECT 1 FROM task_jobs WHERE task_jobs.source = ${source} AND task_jobs.taskId = ${t.taskId})`
+      ));
+
+    for (const task of tasks) {
+      try {
+        await interruptTask(source, { taskDbId: task.id, taskId: task.taskId }, task.userId);
+      } catch (error) {
+        console.error(`[Task Queue] 处理中断任务 ${source}:${task.taskId} 失败:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * 恢复租约过期的任务
+ * @param includeUntracked 同时处理没有租约记录的任务（仅启动时需要）
+ */
+export async function recoverOrphanedTasks(includeUntracked: boolean = false): Promise<void> {
+  if (recovering) return;
+  recovering = true;
+
+  try {
+    const database = await db();
+    // 子任务的租约记录晚于父任务创建，倒序处理使瀑布式搜索汇总时子任务已完成对账
+    const expiredJobs = await database
+      .select()
+      .from(taskJobs)
+      .where(and(eq(taskJobs.status, "running"), lt(taskJobs.leaseExpiresAt, new Date())))
+      .orderBy(desc(taskJobs.id));
+
+    for (const job of expiredJobs) {
+      if (!await claimJob(job)) continue;
+      try {
+        await recoverJob(job);
+      } catch (error: any) {
+        console.error(`[Task Queue] 恢复任务 ${job.source}:${job.taskId} 失败:`, error);
+        await releaseJob(job.id, "failed", error?.message || "未知错误");
+      }
+    }
+
+    if (includeUntracked) {
+      await interruptUntrackedTasks();
+    }
+  } catch (error) {
+    console.error("[Task Queue] Recovery error:", error);
+  } finally {
+    recovering = false;
+  }
+}
+
+/**
+ * 启动任务恢复服务
+ * @param intervalMs 检查间隔（毫秒），默认1分钟
+ */
+export function startTaskRecovery(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  console.log(`[Task Queue] Starting recovery with interval: ${intervalMs}ms (worker ${WORKER_ID})`);
+
+  // 启动时立即执行一次（含没有租约记录的任务）
+  recoverOrphanedTasks(true).catch(console.error);
+
+  // 定期执行
+  return setInterval(() => {
+    recoverOrphanedTasks().catch(console.error);
+  }, intervalMs);
+}
+
+/**
+ * 停止任务恢复服务
+ */
+export function stopTaskRecovery(timer: NodeJS.Timeout): void {
+  clearInterval(timer);
+  console.log("[Task Queue] Stopped");
+}
@@ -6,97 +6,60 @@
  * 2. 自动匹配待支付订单
  * 3. 使用唯一尾数金额进行精确匹配
  * 4. 自动确认订单并发放积分
+ * 5. 每笔入账写入 chain_transactions 账本，未匹配的入账由管理员手动关联
  */
 
 import { 
   getPendingOrders, 
+  getRechargeOrder,
   confirmRechargeOrder, 
   markOrderMismatch,
+  reopenRechargeOrder,
   getConfig,
   logAdmin 
 } from "../db";
+import {
+  getChainWatcher,
+  USDT_NETWORKS,
+  DEFAULT_CONFIRMATIONS,
+  UsdtNetwork,
+  UsdtTransaction,
+} from "./chainWatchers";
+import {
+  recordChainTransaction,
+  setChainTransactionDisposition,
+  getLedgerCursor,
+  getOrderIdByTxId,
+  getChainTransactionById,
+  listUnmatchedChainTransactions,
+  ChainTxDisposition,
+} from "../chainLedger/db";
 
-// TronGrid API (TRC20)
-const TRONGRID_API = "https://api.trongrid.io";
-
-// 交易记录缓存，避免重复处理
-const processedTxIds = new Set<string>();
-
-// USDT合约地址
-const USDT_CONTRACTS = {
-  TRC20: "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", // Tron USDT
-  ERC20: "0xdAC17F958D2ee523a2206206994597C13D831ec7", // Ethereum USDT
-  BEP20: "0x55d398326f99059fF775485246999027B3197955", // BSC USDT
-};
-
-interface UsdtTransaction {
-  txId: string;
-  from: string;
-  to: string;
-  amount: number;
-  timestamp: number;
-  network: string;
-}
+// 账本为空时（首次启动）向前补齐的时间范围
+const INITIAL_BACKFILL_MS = 24 * 60 * 60 * 1000;
+
+// 订单创建前多久的转账仍可匹配（钱包与服务器时钟误差）
+const ORDER_MATCH_SLACK_MS = 60 * 1000;
 
 /**
- * 获取TRC20 USDT交易记录
+ * 网络所需确认数（系统配置 USDT_CONFIRMATIONS_<网络>）
  */
-async function getTrc20Transactions(walletAddress: string): Promise<UsdtTransaction[]> {
-  try {
-    // 检查API Key是否配置
-    const apiKey = process.env.TRONGRID_API_KEY;
-    if (!apiKey) {
-      // 没有API Key时静默跳过，不输出错误日志
-      return [];
-    }
-    
-    const url = `${TRONGRID_API}/v1/accounts/${walletAddress}/transactions/trc20?limit=50&contract_address=${USDT_CONTRACTS.TRC20}`;
-    
-    const response = await fetch(url, {
-      headers: {
-        "TRON-PRO-API-KEY": apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      // 只在非401错误时输出日志，401表示API Key无效
-      if (response.status !== 401) {
-        console.error("[USDT Monitor] TronGrid API error:", response.status);
-      }
-      return [];
-    }
-
-    const data = await response.json();
-    
-    if (!data.data || !Array.isArray(data.data)) {
-      return [];
-    }
-
-    return data.data
-      .filter((tx: any) => tx.to === walletAddress) // 只关注收款
-      .map((tx: any) => ({
-        txId: tx.transaction_id,
-        from: tx.from,
-        to: tx.to,
-        amount: parseFloat(tx.value) / 1e6, // USDT 6位小数
-        timestamp: tx.block_timestamp,
-        network: "TRC20",
-      }));
-  } catch (error) {
-    console.error("[USDT Monitor] Error fetching TRC20 transactions:", error);
-    return [];
-  }
+export async function getRequiredConfirmations(network: UsdtNetwork): Promise<number> {
+  const value = parseInt(await getConfig(`USDT_CONFIRMATIONS_${network}`) || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_CONFIRMATIONS[network];
 }
 
 /**
  * 匹配订单
- * 使用唯一尾数金额进行精确匹配
+ * 使用唯一尾数金额进行精确匹配，只匹配转账之前创建的订单
  */
-async function matchOrderByAmount(amount: number, network: string): Promise<{
+async function matchOrderByAmount(amount: number, network: string, timestamp: number): Promise<{
   orderId: string;
   exactMatch: boolean;
 } | null> {
-  const pendingOrders = await getPendingOrders();
+  const pendingOrders = (await getPendingOrders()).filter(
+    (order) => new Date(order.createdAt).getTime() - ORDER_MATCH_SLACK_MS <= timestamp
+  );
   
   // 精确匹配（包含尾数）
   const exactMatch = pendingOrders.find(
@@ -125,68 +88,185 @@ async function matchOrderByAmount(amount: number, network: string): Promise<{
 }
 
 /**
- * 处理新交易
+ * 处理新交易，返回处理结果（已处理过的交易返回 null）
  */
-async function processTransaction(tx: UsdtTransaction): Promise<void> {
-  // 检查是否已处理
-  if (processedTxIds.has(tx.txId)) {
-    return;
+async function processTransaction(tx: UsdtTransaction): Promise<ChainTxDisposition | null> {
+  // 写入账本，已存在说明处理过
+  const recordId = await recordChainTransaction(tx);
+  if (recordId === null) {
+    return null;
   }
 
   console.log(`[USDT Monitor] Processing transaction: ${tx.txId}, amount: ${tx.amount} ${tx.network}`);
 
+  const disposition = await settleTransaction(recordId, tx);
+  if (disposition === "unmatched") {
+    console.log(`[USDT Monitor] No matching order found for amount: ${tx.amount}`);
+  }
+  return disposition;
+}
+
+/**
+ * 为账本中的入账匹配订单并记录处理结果，未匹配时账本记录保持 unmatched
+ */
+async function settleTransaction(recordId: number, tx: UsdtTransaction): Promise<ChainTxDisposition> {
+  // 管理员已用该交易确认过订单（或上次确认订单后未来得及更新账本）
+  const usedByOrder = await getOrderIdByTxId(tx.txId);
+  if (usedByOrder) {
+    await setChainTransactionDisposition(recordId, { disposition: "matched", orderId: usedByOrder, note: "订单已手动确认" });
+    return "matched";
+  }
+
   // 尝试匹配订单
-  const match = await matchOrderByAmount(tx.amount, tx.network);
+  const match = await matchOrderByAmount(tx.amount, tx.network, tx.timestamp);
 
   if (!match) {
-    console.log(`[USDT Monitor] No matching order found for amount: ${tx.amount}`);
-    processedTxIds.add(tx.txId);
-    return;
+    return "unmatched";
   }
 
   if (match.exactMatch) {
     // 精确匹配，自动确认
     const success = await confirmRechargeOrder(match.orderId, tx.txId, tx.amount.toString());
-    
-    if (success) {
-      console.log(`[USDT Monitor] Order ${match.orderId} confirmed automatically`);
-      await logAdmin("system", "auto_confirm_order", "order", match.orderId, {
-        txId: tx.txId,
-        amount: tx.amount,
-        network: tx.network,
-      });
+    if (!success) {
+      return "unmatched";
     }
-  } else {
-    // 金额不匹配，标记需要人工处理
-    await markOrderMismatch(match.orderId, tx.amount.toString(), tx.txId, "自动检测：金额不匹配，需人工确认");
-    
-    console.log(`[USDT Monitor] Order ${match.orderId} marked as mismatch`);
-    await logAdmin("system", "mark_order_mismatch", "order", match.orderId, {
+
+    console.log(`[USDT Monitor] Order ${match.orderId} confirmed automatically`);
+    await setChainTransactionDisposition(recordId, { disposition: "matched", orderId: match.orderId });
+    await logAdmin("system", "auto_confirm_order", "order", match.orderId, {
       txId: tx.txId,
-      expectedAmount: "订单金额",
-      receivedAmount: tx.amount,
+      amount: tx.amount,
       network: tx.network,
     });
+    return "matched";
   }
 
-  processedTxIds.add(tx.txId);
+  // 金额不匹配，标记需要人工处理
+  await markOrderMismatch(match.orderId, tx.amount.toString(), tx.txId, "自动检测：金额不匹配，需人工确认");
+  await setChainTransactionDisposition(recordId, { disposition: "mismatch", orderId: match.orderId });
+  
+  console.log(`[USDT Monitor] Order ${match.orderId} marked as mismatch`);
+  await logAdmin("system", "mark_order_mismatch", "order", match.orderId, {
+    txId: tx.txId,
+    expectedAmount: "订单金额",
+    receivedAmount: tx.amount,
+    network: tx.network,
+  });
+  return "mismatch";
 }
 
 /**
- * 检查所有配置的钱包
+ * 重新匹配仍可能对应待支付订单的未匹配入账
+ *
+ * 入账先写账本再确认订单，确认失败或进程在两步之间退出时，这笔交易不会再作为新入账出现；
+ * 只要区块时间不早于某个待支付订单的创建时间，每轮检查都重新匹配一次，超出后留给管理员手动关联
  */
-async function checkAllWallets(): Promise<void> {
-  // 检查TRC20钱包
-  const trc20Wallet = await getConfig("USDT_WALLET_TRC20");
-  if (trc20Wallet) {
-    const transactions = await getTrc20Transactions(trc20Wallet);
+async function retryUnmatchedTransactions(): Promise<{ checked: number; matched: number }> {
+  const stats = { checked: 0, matched: 0 };
+  const pendingOrders = await getPendingOrders();
+  if (pendingOrders.length === 0) return stats;
+
+  const earliestOrder = Math.min(...pendingOrders.map(order => new Date(order.createdAt).getTime()));
+  const records = await listUnmatchedChainTransactions(new Date(earliestOrder - ORDER_MATCH_SLACK_MS));
+  for (const record of records) {
+    const disposition = await settleTransaction(record.id, {
+      txId: record.txId,
+      from: record.fromAddress ?? "",
+      to: record.toAddress,
+      amount: parseFloat(record.amount),
+      timestamp: new Date(record.blockTime).getTime(),
+      network: record.network,
+      blockNumber: record.blockNumber ?? undefined,
+    });
+    if (disposition === "unmatched") continue;
+    console.log(`[USDT Monitor] Unmatched transaction ${record.txId} retried: ${disposition}`);
+    stats.checked++;
+    if (disposition === "matched") stats.matched++;
+  }
+  return stats;
+}
+
+/**
+ * 检查所有配置的钱包，从账本游标开始补齐新的入账，再重试未匹配的入账
+ */
+async function checkAllWallets(): Promise<{ checked: number; matched: number }> {
+  const stats = { checked: 0, matched: 0 };
+
+  for (const network of USDT_NETWORKS) {
+    const wallet = await getConfig(`USDT_WALLET_${network}`);
+    const watcher = getChainWatcher(network);
+    if (!wallet || !watcher?.isConfigured()) continue;
+
+    const cursor = await getLedgerCursor(network, wallet);
+    const transactions = await watcher.fetchIncomingTransfers(wallet, {
+      confirmations: await getRequiredConfirmations(network),
+      fromBlock: cursor.blockNumber ?? undefined,
+      minTimestamp: cursor.blockTime ? cursor.blockTime.getTime() : Date.now() - INITIAL_BACKFILL_MS,
+    });
+
+    // 按区块时间正序处理，中途失败时游标不会越过未处理的交易
+    transactions.sort((a, b) => a.timestamp - b.timestamp);
     for (const tx of transactions) {
-      await processTransaction(tx);
+      const disposition = await processTransaction(tx);
+      if (disposition === null) continue;
+      stats.checked++;
+      if (disposition === "matched") stats.matched++;
+    }
+  }
+
+  const retried = await retryUnmatchedTransactions();
+  stats.checked += retried.checked;
+  stats.matched += retried.matched;
+
+  return stats;
+}
+
+/**
+ * 将未匹配的入账手动关联到订单
+ * 金额一致时直接确认订单（已过期或已取消的订单会重新打开），不一致时标记为金额不匹配，走人工处理流程
+ */
+export async function assignChainTransactionToOrder(
+  recordId: number,
+  orderId: string,
+  adminUsername: string
+): Promise<{ success: true; orderStatus: "paid" | "mismatch" } | { success: false; error: string }> {
+  const record = await getChainTransactionById(recordId);
+  if (!record) {
+    return { success: false, error: "入账记录不存在" };
+  }
+  if (record.disposition !== "unmatched") {
+    return { success: false, error: "该入账已处理" };
+  }
+
+  const order = await getRechargeOrder(orderId);
+  if (!order) {
+    return { success: false, error: "订单不存在" };
+  }
+  if (order.network !== record.network) {
+    return { success: false, error: `订单网络为 ${order.network}，与入账网络 ${record.network} 不一致` };
+  }
+  if (!["pending", "expired", "cancelled"].includes(order.status)) {
+    return { success: false, error: "订单状态不允许关联入账" };
+  }
+
+  const amount = parseFloat(record.amount);
+  const note = `管理员 ${adminUsername} 手动关联链上入账`;
+
+  if (Math.abs(parseFloat(order.amount) - amount) < 0.001) {
+    if (order.status !== "pending") {
+      await reopenRechargeOrder(orderId);
+    }
+    const confirmed = await confirmRechargeOrder(orderId, record.txId, amount.toString());
+    if (!confirmed) {
+      return { success: false, error: "确认订单失败" };
     }
+    await setChainTransactionDisposition(recordId, { disposition: "assigned", orderId, handledBy: adminUsername });
+    return { success: true, orderStatus: "paid" };
   }
 
-  // TODO: 添加ERC20和BEP20支持
-  // 需要使用Etherscan API和BSCScan API
+  await markOrderMismatch(orderId, amount.toString(), record.txId, `${note}，金额不匹配，需人工确认`);
+  await setChainTransactionDisposition(recordId, { disposition: "assigned", orderId, handledBy: adminUsername });
+  return { success: true, orderStatus: "mismatch" };
 }
 
 /**
@@ -217,20 +297,5 @@ export function stopUsdtMonitor(timer: NodeJS.Timeout): void {
  * 手动触发检查（用于测试或管理员操作）
  */
 export async function triggerManualCheck(): Promise<{ checked: number; matched: number }> {
-  const beforeSize = processedTxIds.size;
-  await checkAllWallets();
-  const afterSize = processedTxIds.size;
-  
-  return {
-    checked: afterSize - beforeSize,
-    matched: 0, // 需要更详细的统计
-  };
-}
-
-/**
- * 清除已处理交易缓存（用于重新处理）
- */
-export function clearProcessedCache(): void {
-  processedTxIds.clear();
-  console.log("[USDT Monitor] Processed cache cleared");
+  return checkAllWallets();
 }
@@ -0,0 +1,273 @@
+/**
+ * Webhook 投递服务
+ *
+ * TPS / SPF / Anywho / LinkedIn 任务完成、失败或积分不足时，
+ * 为用户每个启用的 Webhook 创建一条投递记录，由本服务发送签名的 JSON POST：
+ * - 签名：X-Webhook-Signature: t=<秒级时间戳>,v1=<HMAC-SHA256(secret, "<t>.<body>")>
+ * - 2xx 视为成功；其他状态码、超时或网络错误按退避间隔重试，超过次数标记失败
+ * - 每次投递前重新解析域名，建立连接时再校验实际连接的地址，解析到内网地址时直接标记失败（见 webhooks/urlGuard.ts）
+ * - 投递记录保存在 webhook_deliveries，设置页展示投递日志
+ */
+
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import type { Webhook, WebhookDelivery } from "../../drizzle/schema";
+import {
+  getActiveWebhooks,
+  createWebhookDeliveries,
+  getDueWebhookDeliveries,
+  claimWebhookDelivery,
+  updateWebhookDelivery,
+  getUserWebhook,
+} from "../webhooks/db";
+import { checkWebhookUrl, lookupPublicAddress, PrivateWebhookAddressError } from "../webhooks/urlGuard";
+
+export type WebhookTaskSource = "tps" | "spf" | "anywho" | "linkedin";
+export type WebhookEvent = WebhookDelivery["event"];
+
+export interface WebhookTaskOutcome {
+  source: WebhookTaskSource;
+  taskId: string;
+  status: "completed" | "failed" | "insufficient_credits";
+  totalResults: number;
+  creditsUsed: number;
+  errorMessage?: string | null;
+}
+
+/** 失败后的重试间隔：1 分钟、5 分钟、30 分钟、2 小时、6 小时 */
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+/** 最多投递次数（含首次） */
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+/** 单次请求超时 */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+/** 抢占后的锁定时长（超过后视为投递进程已退出，可被重新抢占） */
+const CLAIM_LOCK_MS = 2 * 60 * 1000;
+/** 每轮最多处理的投递数 */
+const BATCH_SIZE = 20;
+
+const APP_URL = process.env.VITE_APP_URL || "https://www.datareach.co";
+
+/** 各数据源任务详情页路径 */
+const TASK_PAGE_PATHS: Record<WebhookTaskSource, string> = {
+  tps: "/tps/task/",
+  spf: "/spf/task/",
+  anywho: "/anywho/task/",
+  linkedin: "/results/",
+};
+
+let dispatching = false;
+
+/**
+ * 计算请求签名
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function eventForStatus(status: WebhookTaskOutcome["status"]): WebhookEvent {
+  if (status === "failed") return "task.failed";
+  if (status === "insufficient_credits") return "task.insufficient_credits";
+  return "task.completed";
+}
+
+/**
+ * 任务结束时通知用户的 Webhook（旁路设计：失败只记录日志，不影响任务）
+ */
+export async function notifyTaskWebhooks(userId: number, outcome: WebhookTaskOutcome): Promise<void> {
+  try {
+    const targets = await getActiveWebhooks(userId);
+    if (targets.length === 0) return;
+
+    const event = eventForStatus(outcome.status);
+    const payload = {
+      event,
+      createdAt: new Date().toISOString(),
+      data: {
+        source: outcome.source,
+        taskId: outcome.taskId,
+        status: outcome.status,
+        totalResults: outcome.totalResults,
+        creditsUsed: Math.round(outcome.creditsUsed * 100) / 100,
+        errorMessage: outcome.errorMessage ?? null,
+        taskUrl: `${APP_URL}${TASK_PAGE_PATHS[outcome.source]}${outcome.taskId}`,
+        // LinkedIn 任务不在开放 API 范围内，只能在网页端导出
+        resultsUrl: outcome.source === "linkedin" ? null : `${APP_URL}/api/v1/tasks/${outcome.taskId}/results`,
+      },
+    };
+
+    await createWebhookDeliveries(targets.map(webhook => ({
+      webhookId: webhook.id,
+      userId,
+      event,
+      source: outcome.source,
+      taskId: outcome.taskId,
+      payload,
+    })));
+
+    dispatchDueWebhooks().catch(console.error);
+  } catch (error) {
+    console.error(`[Webhook] 创建任务 ${outcome.taskId} 的投递记录失败:`, error);
+  }
+}
+
+/**
+ * 发送测试事件
+ */
+export async function sendTestWebhook(userId: number, webhook: Webhook): Promise<void> {
+  await createWebhookDeliveries([{
+    webhookId: webhook.id,
+    userId,
+    event: "webhook.test",
+    source: "test",
+    taskId: null,
+    payload: {
+      event: "webhook.test",
+      createdAt: new Date().toISOString(),
+      data: { message: "这是一条测试消息" },
+    },
+  }]);
+
+  dispatchDueWebhooks().catch(console.error);
+}
+
+/**
+ * 发送 POST 请求并返回状态码（不跟随重定向）
+ *
+ * 不使用 fetch：连接时的 DNS 解析需要经过 lookupPublicAddress 校验
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, response => {
+      response.on("error", reject);
+      response.on("end", () => resolve(response.statusCode ?? 0));
+      response.resume();
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * 投递一条记录
+ */
+async function deliver(delivery: WebhookDelivery): Promise<void> {
+  const webhook = await getUserWebhook(delivery.userId, delivery.webhookId);
+  if (!webhook || !webhook.isActive) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      lastError: webhook ? "Webhook 已停用" : "Webhook 已删除",
+    });
+    return;
+  }
+
+  const attempt = delivery.attempts + 1;
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    // 注册后 DNS 记录可能被改为内网地址，投递前再次校验（解析失败按网络错误重试）
+    const blocked = await checkWebhookUrl(webhook.url);
+    if (blocked) {
+      await updateWebhookDelivery(delivery.id, { status: "failed", lastError: blocked });
+      console.warn(`[Webhook] 投递 ${delivery.id} 已拒绝: ${blocked}`);
+      return;
+    }
+
+    responseStatus = await postWebhook(webhook.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "DataReach-Webhook/1.0",
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Delivery": String(delivery.id),
+      "X-Webhook-Signature": `t=${timestamp},v1=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+    }, body);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (e: any) {
+    // 校验通过后 DNS 记录又指向内网（DNS 重绑定），同样直接标记失败
+    if (e instanceof PrivateWebhookAddressError) {
+      await updateWebhookDelivery(delivery.id, { status: "failed", lastError: e.message });
+      console.warn(`[Webhook] 投递 ${delivery.id} 已拒绝: ${e.message}`);
+      return;
+    }
+    const timedOut = e?.name === "TimeoutError" || e?.cause?.name === "TimeoutError";
+    error = timedOut ? "请求超时" : (e?.message || "请求失败").slice(0, 500);
+  }
+
+  if (!error) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "success",
+      responseStatus,
+      lastError: null,
+      deliveredAt: new Date(),
+    });
+    return;
+  }
+
+  if (attempt >= MAX_ATTEMPTS) {
+    await updateWebhookDelivery(delivery.id, { status: "failed", responseStatus, lastError: error });
+    console.warn(`[Webhook] 投递 ${delivery.id} 已失败 ${attempt} 次，不再重试: ${error}`);
+    return;
+  }
+
+  await updateWebhookDelivery(delivery.id, {
+    responseStatus,
+    lastError: error,
+    nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[attempt - 1]),
+  });
+}
+
+/**
+ * 处理到期的投递记录
+ */
+export async function dispatchDueWebhooks(): Promise<void> {
+  if (dispatching) return;
+  dispatching = true;
+
+  try {
+    const due = await getDueWebhookDeliveries(BATCH_SIZE);
+    for (const delivery of due) {
+      if (!await claimWebhookDelivery(delivery, new Date(Date.now() + CLAIM_LOCK_MS))) continue;
+      try {
+        await deliver(delivery);
+      } catch (error) {
+        console.error(`[Webhook] 投递 ${delivery.id} 处理失败:`, error);
+      }
+    }
+  } finally {
+    dispatching = false;
+  }
+}
+
+/**
+ * 启动 Webhook 投递服务
+ * @param intervalMs 检查间隔（毫秒），默认30秒
+ */
+export function startWebhookDispatcher(intervalMs: number = 30 * 1000): NodeJS.Timeout {
+  console.log(`[Webhook] Starting dispatcher with interval: ${intervalMs}ms`);
+
+  // 启动时立即执行一次
+  dispatchDueWebhooks().catch(console.error);
+
+  // 定期执行
+  return setInterval(() => {
+    dispatchDueWebhooks().catch(console.error);
+  }, intervalMs);
+}
+
+/**
+ * 停止 Webhook 投递服务
+ */
+export function stopWebhookDispatcher(timer: NodeJS.Timeout): void {
+  clearInterval(timer);
+  console.log("[Webhook] Stopped");
+}
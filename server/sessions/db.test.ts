@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { fake, getConfig } = await vi.hoisted(async () => ({
+  fake: (await import("../testing/fakeDb")).createFakeDb(),
+  getConfig: vi.fn<(key: string) => Promise<string | null>>(),
+}));
+
+vi.mock("../db", () => ({
+  getDb: async () => fake.database,
+  getConfig,
+}));
+
+import {
+  DEFAULT_MAX_SESSIONS_PER_USER,
+  getMaxSessionsPerUser,
+  planLoginSessions,
+  revokeSessions,
+  validateUserSession,
+} from "./db";
+
+const HOUR = 60 * 60 * 1000;
+
+function session(sessionId: string, deviceId: string, lastSeenHoursAgo: number) {
+  return { sessionId, deviceId, deviceName: deviceId, lastSeenAt: new Date(Date.now() - lastSeenHoursAgo * HOUR) };
+}
+
+function sessionRow(userId: number, overrides: { revokedAt?: Date | null; expiresAt?: Date } = {}) {
+  return {
+    userId,
+    revokedAt: overrides.revokedAt ?? null,
+    expiresAt: overrides.expiresAt ?? new Date(Date.now() + 24 * HOUR),
+    lastSeenAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  fake.reset();
+  getConfig.mockReset();
+});
+
+describe("planLoginSessions", () => {
+  it("keeps every session while under the limit", () => {
+    const active = [session("a", "laptop", 1), session("b", "phone", 2)];
+
+    expect(planLoginSessions(active, "tablet", 3)).toEqual({ replaced: [], evicted: [] });
+  });
+
+  it("replaces the same device without using a slot", () => {
+    const active = [session("a", "laptop", 1), session("b", "phone", 2), session("c", "tablet", 3)];
+
+    const plan = planLoginSessions(active, "tablet", 3);
+
+    expect(plan.replaced).toEqual(["c"]);
+    expect(plan.evicted).toEqual([]);
+  });
+
+  it("evicts the least recently active session when the limit is reached", () => {
+    const active = [session("recent", "laptop", 1), session("oldest", "phone", 10), session("middle", "desktop", 5)];
+
+    const plan = planLoginSessions(active, "tablet", 3);
+
+    expect(plan.evicted.map(s => s.sessionId)).toEqual(["oldest"]);
+  });
+
+  it("evicts enough sessions after the limit is lowered", () => {
+    const active = [session("a", "laptop", 1), session("b", "phone", 2), session("c", "desktop", 3)];
+
+    const plan = planLoginSessions(active, "tablet", 2);
+
+    expect(plan.evicted.map(s => s.sessionId)).toEqual(["c", "b"]);
+  });
+});
+
+describe("getMaxSessionsPerUser", () => {
+  it("reads the configured limit", async () => {
+    getConfig.mockResolvedValue("5");
+    expect(await getMaxSessionsPerUser()).toBe(5);
+  });
+
+  it.each([null, "", "0", "-2", "abc"])("falls back to the default for %j", async (value) => {
+    getConfig.mockResolvedValue(value);
+    expect(await getMaxSessionsPerUser()).toBe(DEFAULT_MAX_SESSIONS_PER_USER);
+  });
+});
+
+describe("session revocation", () => {
+  it("rejects a session immediately after it is revoked, despite the validation cache", async () => {
+    fake.state.queued.push([sessionRow(7)]);
+    expect(await validateUserSession("sess-revoke", 7)).toBe(true);
+
+    // 缓存期内不再查询数据库
+    expect(await validateUserSession("sess-revoke", 7)).toBe(true);
+    expect(fake.state.selects).toBe(1);
+
+    fake.state.queued.push([{ sessionId: "sess-revoke" }]);
+    expect(await revokeSessions(7, ["sess-revoke"])).toEqual(["sess-revoke"]);
+    expect(fake.state.updates[0].values.revokedAt).toBeInstanceOf(Date);
+
+    fake.state.queued.push([sessionRow(7, { revokedAt: new Date() })]);
+    expect(await validateUserSession("sess-revoke", 7)).toBe(false);
+    expect(fake.state.selects).toBe(3);
+  });
+
+  it("only revokes sessions that are still active for that user", async () => {
+    fake.state.queued.push([]);
+
+    expect(await revokeSessions(7, ["someone-else", "already-revoked"])).toEqual([]);
+    expect(fake.state.updates).toEqual([]);
+  });
+
+  it("does not query when there is nothing to revoke", async () => {
+    expect(await revokeSessions(7, [])).toEqual([]);
+    expect(fake.state.selects).toBe(0);
+  });
+
+  it("rejects sessions owned by another user or already expired", async () => {
+    fake.state.queued.push([sessionRow(8)]);
+    expect(await validateUserSession("sess-other-user", 7)).toBe(false);
+
+    fake.state.queued.push([sessionRow(7, { expiresAt: new Date(Date.now() - 1000) })]);
+    expect(await validateUserSession("sess-expired", 7)).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * 登录会话数据库操作
+ *
+ * 每次登录创建一条会话，会话ID写入登录 Cookie（JWT 的 sid）。请求鉴权时校验会话未撤销、未过期，
+ * 同一账号可同时保持多个会话，上限由 system_configs.MAX_SESSIONS_PER_USER 配置
+ */
+
+import { getDb, getConfig } from "../db";
+import { userSessions } from "../../drizzle/schema";
+import { eq, and, desc, gt, isNull, inArray } from "drizzle-orm";
+import crypto from "crypto";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 未配置 MAX_SESSIONS_PER_USER 时每个账号的最大同时在线会话数 */
+export const DEFAULT_MAX_SESSIONS_PER_USER = 3;
+
+// 最后活跃时间的写入间隔，避免每个请求都更新数据库
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+// 会话有效性的本地缓存时间；本进程内撤销会立即清除缓存
+const VALIDATION_CACHE_MS = 30 * 1000;
+
+const validationCache = new Map<string, { userId: number; valid: boolean; checkedAt: number; touchedAt: number }>();
+
+/**
+ * 读取每个账号的最大会话数
+ */
+export async function getMaxSessionsPerUser(): Promise<number> {
+  const value = parseInt((await getConfig("MAX_SESSIONS_PER_USER")) || "", 10);
+  return value > 0 ? value : DEFAULT_MAX_SESSIONS_PER_USER;
+}
+
+/**
+ * 由 User-Agent 生成默认设备名称，例如 "Chrome · Windows"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  const ua = userAgent || "";
+  const browser =
+    /Edg\//.test(ua) ? "Edge" :
+    /OPR\/|Opera/.test(ua) ? "Opera" :
+    /Firefox\//.test(ua) ? "Firefox" :
+    /Chrome\//.test(ua) ? "Chrome" :
+    /Safari\//.test(ua) ? "Safari" : null;
+  const os =
+    /iPhone|iPad|iPod/.test(ua) ? "iOS" :
+    /Android/.test(ua) ? "Android" :
+    /Windows/.test(ua) ? "Windows" :
+    /Mac OS X|Macintosh/.test(ua) ? "macOS" :
+    /Linux/.test(ua) ? "Linux" : null;
+  return [browser, os].filter(Boolean).join(" · ") || "未知设备";
+}
+
+// ==================== 会话 ====================
+
+/**
+ * 创建会话，返回会话ID
+ */
+export async function createUserSession(data: {
+  userId: number;
+  deviceId: string | null;
+  deviceName: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  expiresAt: Date;
+}): Promise<string> {
+  const database = await db();
+  const sessionId = crypto.randomBytes(24).toString("hex");
+  await database.insert(userSessions).values({ sessionId, ...data });
+  return sessionId;
+}
+
+/**
+ * 获取用户的有效会话（最近活跃在前）
+ */
+export async function getActiveUserSessions(userId: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(userSessions)
+    .where(and(
+      eq(userSessions.userId, userId),
+      isNull(userSessions.revokedAt),
+      gt(userSessions.expiresAt, new Date())
+    ))
+    .orderBy(desc(userSessions.lastSeenAt));
+}
+
+/**
+ * 校验会话是否属于该用户且仍然有效，并按间隔更新最后活跃时间
+ */
+export async function validateUserSession(sessionId: string, userId: number): Promise<boolean> {
+  const now = Date.now();
+  const cached = validationCache.get(sessionId);
+  if (cached && now - cached.checkedAt < VALIDATION_CACHE_MS) {
+    return cached.valid && cached.userId === userId;
+  }
+
+  const database = await db();
+  const rows = await database
+    .select({ userId: userSessions.userId, revokedAt: userSessions.revokedAt, expiresAt: userSessions.expiresAt, lastSeenAt: userSessions.lastSeenAt })
+    .from(userSessions)
+    .where(eq(userSessions.sessionId, sessionId))
+    .limit(1);
+  const session = rows[0];
+  const valid = !!session && !session.revokedAt && session.expiresAt.getTime() > now;
+
+  let touchedAt = cached?.touchedAt ?? session?.lastSeenAt.getTime() ?? now;
+  if (valid && now - touchedAt > TOUCH_INTERVAL_MS) {
+    touchedAt = now;
+    await database.update(userSessions).set({ lastSeenAt: new Date(now) }).where(eq(userSessions.sessionId, sessionId));
+  }
+
+  validationCache.set(sessionId, { userId: session?.userId ?? 0, valid, checkedAt: now, touchedAt });
+  return valid && session.userId === userId;
+}
+
+/**
+ * 重命名会话
+ */
+export async function renameUserSession(userId: number, sessionId: string, deviceName: string): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(userSessions)
+    .set({ deviceName })
+    .where(and(eq(userSessions.sessionId, sessionId), eq(userSessions.userId, userId), isNull(userSessions.revokedAt)));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 撤销指定会话，返回实际撤销的会话ID
+ */
+export async function revokeSessions(userId: number, sessionIds: string[]): Promise<string[]> {
+  if (sessionIds.length === 0) return [];
+  const database = await db();
+  const active = await database
+    .select({ sessionId: userSessions.sessionId })
+    .from(userSessions)
+    .where(and(
+      eq(userSessions.userId, userId),
+      inArray(userSessions.sessionId, sessionIds),
+      isNull(userSessions.revokedAt)
+    ));
+  const revoked = active.map(s => s.sessionId);
+  if (revoked.length === 0) return [];
+
+  await database
+    .update(userSessions)
+    .set({ revokedAt: new Date() })
+    .where(inArray(userSessions.sessionId, revoked));
+  for (const sessionId of revoked) {
+    validationCache.delete(sessionId);
+  }
+  return revoked;
+}
+
+/**
+ * 撤销用户的全部会话（可保留当前会话），返回实际撤销的会话ID
+ */
+export async function revokeAllUserSessions(userId: number, exceptSessionId?: string): Promise<string[]> {
+  const sessions = await getActiveUserSessions(userId);
+  return revokeSessions(
+    userId,
+    sessions.map(s => s.sessionId).filter(id => id !== exceptSessionId)
+  );
+}
+
+/**
+ * 计算登录时需要下线的会话
+ *
+ * 同一设备的旧会话直接替换，不占用名额；其余会话加上本次登录超过上限时，最早活跃的会话被挤下线
+ *
+ * @param activeSessions 当前有效会话（见 getActiveUserSessions）
+ * @returns replaced 为同一设备的会话ID，evicted 为需要挤下线的会话（最早活跃在前）
+ */
+export function planLoginSessions<T extends { sessionId: string; deviceId: string | null; lastSeenAt: Date }>(
+  activeSessions: T[],
+  deviceId: string,
+  maxSessions: number
+): { replaced: string[]; evicted: T[] } {
+  const replaced = activeSessions.filter(s => s.deviceId === deviceId).map(s => s.sessionId);
+  const remaining = activeSessions
+    .filter(s => s.deviceId !== deviceId)
+    .sort((a, b) => a.lastSeenAt.getTime() - b.lastSeenAt.getTime());
+  const overflow = remaining.length - maxSessions + 1;
+  return { replaced, evicted: overflow > 0 ? remaining.slice(0, overflow) : [] };
+}
@@ -0,0 +1,76 @@
+/**
+ * 登录会话 tRPC 路由
+ *
+ * 用户在设置页查看当前账号的在线会话（设备、IP、最后活跃时间），可重命名或逐个下线；
+ * 被撤销会话的 WebSocket 连接会立即关闭
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { wsManager } from "../_core/wsManager";
+import {
+  getActiveUserSessions,
+  getMaxSessionsPerUser,
+  renameUserSession,
+  revokeSessions,
+  revokeAllUserSessions,
+} from "./db";
+
+export const sessionsRouter = router({
+  // 当前账号的在线会话（最近活跃在前）
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const [sessions, maxSessions] = await Promise.all([
+      getActiveUserSessions(ctx.user!.id),
+      getMaxSessionsPerUser(),
+    ]);
+    return {
+      maxSessions,
+      sessions: sessions.map(s => ({
+        sessionId: s.sessionId,
+        deviceName: s.deviceName,
+        ipAddress: s.ipAddress,
+        userAgent: s.userAgent,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        current: s.sessionId === ctx.sessionId,
+      })),
+    };
+  }),
+
+  // 重命名会话
+  rename: protectedProcedure
+    .input(z.object({
+      sessionId: z.string().max(64),
+      deviceName: z.string().trim().min(1, "请输入设备名称").max(100),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const renamed = await renameUserSession(ctx.user!.id, input.sessionId, input.deviceName);
+      if (!renamed) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "会话不存在或已下线" });
+      }
+      return { success: true };
+    }),
+
+  // 下线指定会话
+  revoke: protectedProcedure
+    .input(z.object({ sessionId: z.string().max(64) }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.sessionId === ctx.sessionId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "不能下线当前会话，请使用退出登录" });
+      }
+      const revoked = await revokeSessions(ctx.user!.id, [input.sessionId]);
+      if (revoked.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "会话不存在或已下线" });
+      }
+      wsManager.closeSessions(revoked);
+      return { success: true };
+    }),
+
+  // 下线除当前会话外的所有会话
+  revokeOthers: protectedProcedure.mutation(async ({ ctx }) => {
+    const revoked = await revokeAllUserSessions(ctx.user!.id, ctx.sessionId ?? undefined);
+    wsManager.closeSessions(revoked);
+    return { count: revoked.length };
+  }),
+});
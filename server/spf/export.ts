@@ -0,0 +1,119 @@
+/**
+ * SPF 搜索结果导出（流式，见 exports/stream.ts）
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergeEmails, mergePhones, splitName } from "../exports/templates";
+import { spfTaskStore, spfResultStore } from "./db";
+
+type SpfSearchTask = NonNullable<Awaited<ReturnType<typeof spfTaskStore.getByTaskId>>>;
+type SpfSearchResult = Awaited<ReturnType<typeof spfResultStore.loadAfter>>[number];
+
+// 格式化日期时间
+const formatDateTime = (date: Date | string | null | undefined): string => {
+  if (!date) return "";
+  return new Date(date).toLocaleString("zh-CN", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+};
+
+// 格式化关联企业（JSON数组转字符串）
+const formatBusinesses = (businesses: any): string => {
+  if (!businesses) return "";
+  if (Array.isArray(businesses)) {
+    return businesses.filter(b => b).join(" | ");
+  }
+  return String(businesses);
+};
+
+// 可选列 - 默认为完整字段
+const COLUMNS: ExportColumn<SpfSearchResult>[] = [
+  { key: "name", zh: "姓名", en: "Name", value: r => r.name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => r.age?.toString() || "" },
+  { key: "birthYear", zh: "出生年份", en: "Birth Year", value: r => r.birthYear || "" },
+  { key: "location", zh: "地点", en: "Location", value: r => r.city && r.state ? `${r.city}, ${r.state}` : (r.city || r.state || "") },
+  { key: "phone", zh: "电话", en: "Phone", value: (r, ctx) => ctx.phone(r.phone) },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => r.phoneType || "" },
+  { key: "phoneYear", zh: "电话年份", en: "Phone Year", value: r => r.phoneYear?.toString() || "" },
+  { key: "maritalStatus", zh: "婚姻状态", en: "Marital Status", value: r => r.maritalStatus || "" },
+  { key: "spouseName", zh: "配偶姓名", en: "Spouse Name", value: r => r.spouseName || "" },
+  { key: "email", zh: "邮箱", en: "Email", value: r => r.email || "" },
+  { key: "employment", zh: "就业状态", en: "Employment", value: r => (r.employment || "").replace(/[\r\n]+/g, " | ") },
+  { key: "businesses", zh: "关联企业", en: "Businesses", value: r => formatBusinesses(r.businesses) },
+  { key: "detailLink", zh: "详情链接", en: "Detail Link", value: r => r.detailLink || "" },
+  { key: "source", zh: "数据来源", en: "Source", value: () => "实时获取" },
+  { key: "createdAt", zh: "获取时间", en: "Retrieved At", value: r => formatDateTime(r.createdAt) },
+  { key: "carrier", zh: "运营商", en: "Carrier", default: false, value: r => r.carrier || "" },
+  { key: "searchName", zh: "搜索姓名", en: "Search Name", default: false, value: r => r.searchName || "" },
+  { key: "searchLocation", zh: "搜索地点", en: "Search Location", default: false, value: r => r.searchLocation || "" },
+];
+
+export const spfExporter: TaskExporter<SpfSearchTask, SpfSearchResult> = {
+  columns: COLUMNS,
+
+  getTask: spfTaskStore.getByTaskId,
+
+  isExportable: task =>
+    task.status === "completed" || task.status === "insufficient_credits" || task.status === "cancelled",
+
+  createSource: task => {
+    // 应用任务的过滤条件
+    const filters = task.filters as {
+      excludeTMobile?: boolean;
+      excludeComcast?: boolean;
+      excludeLandline?: boolean;
+      excludeWireless?: boolean;
+    } | null;
+
+    // 生成文件名
+    const firstNames = (task.names || []).slice(0, 3).join("_").replace(/[^a-zA-Z0-9_]/g, "");
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+    return {
+      filename: `DataReach_SPF_${firstNames}_${date}`,
+      fetchBatch: (afterId, limit) => spfResultStore.loadAfter(task.id, afterId, limit),
+      include: r => {
+        // 电话类型过滤
+        if (r.phoneType) {
+          if (filters?.excludeLandline && r.phoneType === "Landline") return false;
+          if (filters?.excludeWireless && r.phoneType === "Wireless") return false;
+        }
+
+        // 运营商过滤
+        if (r.carrier) {
+          const carrierLower = r.carrier.toLowerCase();
+          if (filters?.excludeTMobile && carrierLower.includes("t-mobile")) return false;
+          if (filters?.excludeComcast && (carrierLower.includes("comcast") || carrierLower.includes("spectrum"))) return false;
+        }
+
+        return true;
+      },
+    };
+  },
+
+  toLead: r => ({
+    firstName: r.firstName || splitName(r.name).firstName,
+    lastName: r.lastName || splitName(r.name).lastName,
+    fullName: r.name || "",
+    age: r.age,
+    address: r.location || "",
+    city: r.city || "",
+    state: r.state || "",
+    company: "",
+    jobTitle: "",
+    linkedinUrl: "",
+    phones: mergePhones(
+      r.phone ? { number: r.phone, type: r.phoneType } : null,
+      ...(r.allPhones || []).map(p => ({ number: p.number, type: p.type }))
+    ),
+    emails: mergeEmails(r.email, ...(r.allEmails || [])),
+    source: "SearchPeopleFree",
+  }),
+};
@@ -0,0 +1,290 @@
+/**
+ * SearchPeopleFree 适配器
+ *
+ * 将 SPF 的解析、过滤、详情获取和存储接入统一的人员搜索执行器
+ */
+
+import {
+  searchOnly,
+  fetchDetailsInBatch,
+  buildSearchUrl,
+  parseSearchPageFull,
+  parseDetailPage,
+  applyFilters,
+  SpfFilters,
+  SpfDetailResult,
+  DetailTask,
+  SPF_CONFIG,
+} from "./scraper";
+import { THREAD_POOL_CONFIG } from "./config";
+import {
+  getSpfConfig,
+  spfTaskStore,
+  spfResultStore,
+  spfCacheStore,
+  logApi,
+} from "./db";
+import { truncateText } from "../peopleSearch/store";
+import { buildSubTasks } from "../peopleSearch/runner";
+import type {
+  PeopleSearchProvider,
+  PeopleSearchRuntimeConfig,
+  PeopleSearchSubTask,
+} from "../peopleSearch/types";
+
+// 详情并发 (基于 Scrape.do 官方最佳实践)
+const TOTAL_CONCURRENCY = THREAD_POOL_CONFIG.GLOBAL_MAX_CONCURRENCY;
+
+/**
+ * 将 getSpfConfig() 的结果转换为统一运行时配置
+ */
+export function toSpfRuntimeConfig(config: Awaited<ReturnType<typeof getSpfConfig>>): PeopleSearchRuntimeConfig {
+  return {
+    enabled: !!config.enabled,
+    token: config.scrapeDoToken || "",
+    searchCost: parseFloat(config.searchCost),
+    detailCost: parseFloat(config.detailCost),
+    maxPages: SPF_CONFIG.MAX_SAFE_PAGES,
+    cacheDays: config.cacheDays || 180,
+    defaultMinAge: config.defaultMinAge || 50,
+    defaultMaxAge: config.defaultMaxAge || 79,
+  };
+}
+
+export const spfProvider: PeopleSearchProvider<SpfFilters, SpfDetailResult, SpfDetailResult> = {
+  source: "spf",
+  label: "SPF",
+  displayName: "SearchPeopleFree",
+  activityAction: "SPF搜索",
+  searchConcurrency: 1,  // 逐个搜索，便于实时扣费控制
+
+  buildSearchUrl: (name, location) => buildSearchUrl(name, location),
+  parseSearchPage: parseSearchPageFull,
+  parseDetailPage(html, item) {
+    const detail = parseDetailPage(html, item.detailLink || "");
+    return detail ? [detail] : [];
+  },
+  applyFilters,
+
+  async getRuntimeConfig() {
+    return toSpfRuntimeConfig(await getSpfConfig());
+  },
+
+  // 按最大消耗预估
+  estimateCost(input, config) {
+    const maxDetailsPerTask = SPF_CONFIG.MAX_DETAILS_PER_TASK;
+    const subTaskCount = buildSubTasks(input).length;
+
+    // 搜索页费用：任务数 × 最大页数 × 单价
+    const maxSearchPages = subTaskCount * config.maxPages;
+    const maxSearchCost = maxSearchPages * config.searchCost;
+
+    // 详情页费用：任务数 × 最大详情数 × 单价
+    const maxDetails = subTaskCount * maxDetailsPerTask;
+    const maxDetailCost = maxDetails * config.detailCost;
+
+    const maxEstimatedCost = Math.ceil((maxSearchCost + maxDetailCost) * 10) / 10;
+
+    return {
+      subTaskCount,
+      maxPages: config.maxPages,
+      maxSearchPages,
+      maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
+      maxDetailsPerTask,
+      maxDetails,
+      maxDetailCost: Math.ceil(maxDetailCost * 10) / 10,
+      maxEstimatedCost,
+      estimatedCost: maxEstimatedCost,
+      searchCost: config.searchCost,
+      detailCost: config.detailCost,
+      note: "实时扣费模式：用多少扣多少，积分不足时自动停止并返回已获取结果",
+    };
+  },
+
+  async search(subTask, ctx) {
+    const result = await searchOnly(
+      subTask.name,
+      subTask.location,
+      ctx.config.token,
+      ctx.config.maxPages,
+      ctx.filters,
+      (msg) => ctx.addLog(`[${subTask.index + 1}] ${msg}`)
+    );
+    return {
+      success: result.success,
+      items: result.searchResults.filter(r => !!r.detailLink),
+      searchPageRequests: result.stats.searchPageRequests,
+      filteredOut: result.stats.filteredOut,
+      error: result.error,
+    };
+  },
+
+  async fetchDetails(items, ctx) {
+    // 去重详情链接，同一链接只获取一次
+    const tasksByLink = new Map<string, DetailTask>();
+    const subTaskByIndex = new Map<number, PeopleSearchSubTask>();
+    for (const { item, subTask } of items) {
+      subTaskByIndex.set(subTask.index, subTask);
+      if (!tasksByLink.has(item.detailLink!)) {
+        tasksByLink.set(item.detailLink!, {
+          detailLink: item.detailLink!,
+          searchName: subTask.name,
+          searchLocation: subTask.location,
+          searchResult: item,
+          subTaskIndex: subTask.index,
+        });
+      }
+    }
+
+    let detailTasks = Array.from(tasksByLink.values());
+    let stoppedDueToCredits = false;
+
+    // 继续执行：之前已获取的详情直接读取缓存（不扣费），只对未缓存的详情检查积分
+    const cachedMap = new Map<string, SpfDetailResult>();
+    if (ctx.reuseDetailCache) {
+      for (const cached of await spfCacheStore.get(Array.from(tasksByLink.keys()))) {
+        cachedMap.set(cached.detailLink, cached.data as SpfDetailResult);
+      }
+    }
+    const cachedTasks = detailTasks.filter(t => cachedMap.has(t.detailLink));
+    const uncachedTasks = detailTasks.filter(t => !cachedMap.has(t.detailLink));
+
+    // 检查可以负担多少条详情
+    if (uncachedTasks.length > 0) {
+      const affordCheck = await ctx.creditTracker.canAffordDetailBatch(uncachedTasks.length);
+      if (!affordCheck.canAfford && cachedTasks.length === 0) {
+        ctx.addLog(`⚠️ 积分不足，无法获取详情`);
+        return { results: [], detailPageRequests: 0, filteredOut: 0, stoppedDueToCredits: true };
+      }
+      if (affordCheck.affordableCount < uncachedTasks.length) {
+        ctx.addLog(`⚠️ 积分仅够获取 ${affordCheck.affordableCount}/${uncachedTasks.length} 条详情`);
+        detailTasks = [...cachedTasks, ...uncachedTasks.slice(0, affordCheck.affordableCount)];
+        stoppedDueToCredits = true;
+      }
+    }
+
+    ctx.onDetailProgress({ completed: 0, total: detailTasks.length });
+
+    const detailResult = await fetchDetailsInBatch(
+      detailTasks,
+      ctx.config.token,
+      TOTAL_CONCURRENCY,
+      ctx.filters,
+      ctx.addLog,
+      async () => cachedMap, // 仅继续执行时读取缓存
+      async (cacheItems) => spfCacheStore.save(cacheItems, ctx.config.cacheDays), // 保存数据用于 CSV 导出
+      () => !ctx.creditTracker.canContinue() // 用户停止任务时不再派发新请求
+    );
+
+    // 实时扣除详情页费用
+    for (let i = 0; i < detailResult.stats.detailPageRequests; i++) {
+      const deductResult = await ctx.creditTracker.deductDetailPage();
+      if (!deductResult.success) {
+        ctx.addLog(`⚠️ 积分不足，停止获取详情`);
+        stoppedDueToCredits = true;
+        break;
+      }
+    }
+
+    ctx.onDetailProgress({ completed: detailTasks.length, total: detailTasks.length });
+
+    return {
+      results: detailResult.results
+        .filter(({ details }) => details !== null)
+        .map(({ task, details }) => ({
+          subTask: subTaskByIndex.get(task.subTaskIndex)!,
+          details: [{ ...details!, searchName: task.searchName, searchLocation: task.searchLocation }],
+        })),
+      detailPageRequests: detailResult.stats.detailPageRequests,
+      cacheHits: detailResult.stats.cacheHits,
+      filteredOut: detailResult.stats.filteredOut,
+      stoppedDueToCredits,
+    };
+  },
+
+  getPhone: (detail) => detail.phone,
+
+  store: spfTaskStore,
+
+  async createTask(userId, input) {
+    const task = await spfTaskStore.create({
+      userId,
+      mode: input.mode,
+      names: input.names,
+      locations: input.locations || [],
+      pairs: input.pairs,
+      filters: input.filters || {},
+    });
+    return { taskDbId: task.id, taskId: task.taskId };
+  },
+
+  async loadResults(task) {
+    const rows = await spfResultStore.loadAll(task.taskDbId);
+    return rows.map(r => ({
+      searchName: r.searchName,
+      searchLocation: r.searchLocation,
+      name: r.name,
+      age: r.age,
+      city: r.city,
+      state: r.state,
+      location: r.location,
+      phone: r.phone,
+      phoneType: r.phoneType,
+      carrier: r.carrier,
+      allPhones: (r.allPhones || []).map(p => p.number).filter(Boolean),
+      email: r.email,
+      allEmails: r.allEmails || (r.email ? [r.email] : []),
+      detailLink: r.detailLink,
+    }));
+  },
+
+  countResults: (task) => spfResultStore.count(task.taskDbId),
+
+  async saveResults(task, subTask, details) {
+    // 按 schema 定义截断，防止超出列长度限制
+    await spfResultStore.insert(details.map(r => ({
+      taskId: task.taskDbId,
+      subTaskIndex: subTask.index,
+      searchName: truncateText(subTask.name, 200),
+      searchLocation: truncateText(subTask.location, 200),
+      name: truncateText(r.name, 200),
+      firstName: truncateText(r.firstName, 100),
+      lastName: truncateText(r.lastName, 100),
+      age: r.age ?? null,
+      birthYear: truncateText(r.birthYear, 20),
+      city: truncateText(r.city, 100),
+      state: truncateText(r.state, 50),
+      location: truncateText(r.location, 200),
+      phone: truncateText(r.phone, 50),
+      phoneType: truncateText(r.phoneType, 50),
+      phoneYear: r.phoneYear ?? null,
+      carrier: truncateText(r.carrier, 100),
+      allPhones: r.allPhones || [],
+      reportYear: r.reportYear ?? null,
+      isPrimary: r.isPrimary ?? false,
+      // SPF 独特字段
+      email: truncateText(r.email, 200),
+      allEmails: r.allEmails || [],
+      maritalStatus: truncateText(r.maritalStatus, 50),
+      spouseName: truncateText(r.spouseName, 200),
+      spouseLink: truncateText(r.spouseLink, 500),
+      employment: truncateText(r.employment, 200),
+      confirmedDate: truncateText(r.confirmedDate, 50),
+      latitude: r.latitude?.toString() || null,
+      longitude: r.longitude?.toString() || null,
+      // 其他字段
+      familyMembers: r.familyMembers || [],
+      associates: r.associates || [],
+      businesses: r.businesses || [],
+      propertyValue: r.propertyValue ?? 0,
+      yearBuilt: r.yearBuilt ?? null,
+      isDeceased: r.isDeceased ?? false,
+      detailLink: truncateText(r.detailLink, 500),
+      fromCache: r.fromCache ?? false,
+    })));
+  },
+
+  async logApi(data) {
+    await logApi({ ...data, apiType: "scrape_spf", responseTime: 0 });
+  },
+};
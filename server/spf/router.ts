@@ -17,49 +17,44 @@
  * - 保留数据保存：用于历史任务 CSV 导出
  * - 简化费用明细：专业、简洁、透明
  * - 优雅停止机制：积分不足时返回已获取结果
+ * 
+ * v5.0 - 纯异步模式迁移到统一执行器 (peopleSearch/runner.ts)，SPF 逻辑见 provider.ts
+ * v5.1 - 新增 stopTask：用户可随时停止任务，已获取的结果保留并可导出
+ * v5.2 - 新增 resumeTask：失败或积分不足的任务充值后继续，跳过已完成的子任务
+ * v5.3 - CSV 导出改为流式下载 (GET /api/export/spf/:taskId)，格式见 export.ts
+ * v5.4 - 团队空间：团队成员共享积分池，任务历史和结果在团队内可见（见 organizations/）
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
-import { 
-  searchOnly,
-  fetchDetailsInBatch,
-  SpfFilters, 
-  SpfDetailResult,
-  DetailTask,
-  SPF_CONFIG,
-  isThreadPoolEnabled,
-} from "./scraper";
 import { executeSpfSearchWithThreadPool, shouldUseThreadPool } from "./threadPoolExecutor";
-import { THREAD_POOL_CONFIG } from "./config";
-import { emitTaskProgress, emitTaskCompleted, emitTaskFailed, emitCreditsUpdate } from "../_core/wsEmitter";
 import {
   getSpfConfig,
-  createSpfSearchTask,
-  updateSpfSearchTaskProgress,
-  completeSpfSearchTask,
-  failSpfSearchTask,
-  saveSpfSearchResults,
-  getSpfSearchTask,
-  getSpfSearchTaskById,
-  getUserSpfSearchTasks,
-  getSpfSearchResults,
-  getAllSpfSearchResults,
-  getCachedSpfDetails,
-  saveSpfDetailCache,
+  spfTaskStore,
+  spfResultStore,
+  spfCacheStore,
   logApi,
 } from "./db";
-import { getDb, logUserActivity } from "../db";
-import { users } from "../../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { logUserActivity } from "../db";
+import { spfProvider, toSpfRuntimeConfig } from "./provider";
+import { runPeopleSearchTask, signalPeopleSearchStop } from "../peopleSearch/runner";
 import {
-  createRealtimeCreditTracker,
-} from "./realtimeCredits";
-
-// 并发配置 (基于 Scrape.do 官方最佳实践)
-const TOTAL_CONCURRENCY = THREAD_POOL_CONFIG.GLOBAL_MAX_CONCURRENCY;  // 15 全局并发
-const SEARCH_CONCURRENCY = THREAD_POOL_CONFIG.WORKER_THREAD_COUNT;    // 3 Worker Thread
+  peopleSearchModeSchema,
+  peopleSearchPairsSchema,
+  refinePeopleSearchInput,
+  fillPairNames,
+  MAX_SEARCH_NAMES,
+} from "../peopleSearch/input";
+import { resumePeopleSearchTask } from "../peopleSearch/resume";
+import { runTaskJob, TaskJobSpec } from "../services/taskQueue";
+import { getAvailableCredits } from "../organizations/credits";
+import {
+  getTeamUserIds,
+  canViewUserResource,
+  canManageUserResource,
+  searchProcedure,
+} from "../organizations/access";
 
 // 输入验证 schema
 const spfFiltersSchema = z.object({
@@ -74,11 +69,12 @@ const spfFiltersSchema = z.object({
 }).optional();
 
 const spfSearchInputSchema = z.object({
-  names: z.array(z.string().min(1)).min(1).max(100),
+  names: z.array(z.string().min(1)).max(MAX_SEARCH_NAMES).default([]),
   locations: z.array(z.string()).optional(),
-  mode: z.enum(["nameOnly", "nameLocation"]),
+  pairs: peopleSearchPairsSchema,
+  mode: peopleSearchModeSchema,
   filters: spfFiltersSchema,
-});
+}).superRefine(refinePeopleSearchInput).transform(fillPairNames);
 
 export const spfRouter = router({
   // 获取 SPF 配置（用户端）
@@ -99,48 +95,11 @@ export const spfRouter = router({
     .input(spfSearchInputSchema)
     .query(async ({ input }) => {
       const config = await getSpfConfig();
-      const searchCost = parseFloat(config.searchCost);
-      const detailCost = parseFloat(config.detailCost);
-      const maxPages = SPF_CONFIG.MAX_SAFE_PAGES;  // 25 页
-      const maxDetailsPerTask = SPF_CONFIG.MAX_DETAILS_PER_TASK;  // 250 条
-      
-      // 计算子任务数
-      let subTaskCount = 0;
-      if (input.mode === "nameOnly") {
-        subTaskCount = input.names.length;
-      } else {
-        const locations = input.locations || [""];
-        subTaskCount = input.names.length * locations.length;
-      }
-      
-      // 搜索页费用：任务数 × 最大页数 × 单价
-      const maxSearchPages = subTaskCount * maxPages;
-      const maxSearchCost = maxSearchPages * searchCost;
-      
-      // 详情页费用：任务数 × 最大详情数 × 单价
-      const maxDetails = subTaskCount * maxDetailsPerTask;
-      const maxDetailCost = maxDetails * detailCost;
-      
-      // 总费用（最大预估）
-      const maxEstimatedCost = maxSearchCost + maxDetailCost;
-      
-      return {
-        subTaskCount,
-        maxPages,
-        maxSearchPages,
-        maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
-        maxDetailsPerTask,
-        maxDetails,
-        maxDetailCost: Math.ceil(maxDetailCost * 10) / 10,
-        maxEstimatedCost: Math.ceil(maxEstimatedCost * 10) / 10,
-        searchCost,
-        detailCost,
-        note: "实时扣费模式：用多少扣多少，积分不足时自动停止并返回已获取结果",
-      };
+      return spfProvider.estimateCost(input, toSpfRuntimeConfig(config));
     }),
 
   // 提交搜索任务 (v4.0 - 实时扣除模式)
-  search: protectedProcedure
+  search: searchProcedure
     .input(spfSearchInputSchema)
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
@@ -162,23 +121,9 @@ export const spfRouter = router({
       }
       
       const searchCost = parseFloat(config.searchCost);
-      const detailCost = parseFloat(config.detailCost);
       
-      // 获取用户当前余额
-      const database = await getDb();
-      if (!database) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "数据库连接失败",
-        });
-      }
-      
-      const userResult = await database
-        .select({ credits: users.credits })
-        .from(users)
-        .where(eq(users.id, userId));
-      
-      const currentBalance = userResult[0]?.credits || 0;
+      // 获取用户当前可用积分（团队成员为团队积分池）
+      const currentBalance = await getAvailableCredits(userId);
       
       // 检查是否有足够积分启动任务（至少需要一次搜索的费用）
       const minRequiredCredits = searchCost;
@@ -190,20 +135,26 @@ export const spfRouter = router({
       }
       
       // 创建搜索任务
-      const task = await createSpfSearchTask({
+      const task = await spfTaskStore.create({
         userId,
         mode: input.mode,
         names: input.names,
         locations: input.locations || [],
+        pairs: input.pairs,
         filters: input.filters || {},
       });
       
       // v4.0: 不再预扣费，改为实时扣除
-      // 异步执行搜索任务
+      // 异步执行搜索任务（持有任务租约，服务重启后由统一执行器恢复）
+      const job: TaskJobSpec = { source: "spf", taskId: task.taskId, taskDbId: task.id, userId, payload: input };
+      const taskRef = { taskDbId: task.id, taskId: task.taskId };
       if (shouldUseThreadPool()) {
+        // 线程池执行器的日志为纯文本，写入任务表前转换为日志条目
+        const toLogEntries = (messages: string[]) =>
+          messages.map(message => ({ timestamp: new Date().toISOString(), message }));
         // 线程池模式 (实时扣除)
         console.log(`[SPF] 使用线程池模式执行任务 (实时扣除): ${task.taskId}`);
-        executeSpfSearchWithThreadPool(
+        runTaskJob(job, () => executeSpfSearchWithThreadPool(
           task.id,
           task.taskId,
           config,
@@ -211,30 +162,43 @@ export const spfRouter = router({
           userId,
           0, // 不再使用预扣费
           (msg) => console.log(`[SPF Task ${task.taskId}] ${msg}`),
-          getCachedSpfDetails, // 保留参数兼容性，但不再使用
+          spfCacheStore.get, // 保留参数兼容性，但不再使用
           async (items) => {
             const cacheDays = config.cacheDays || 180;
-            await saveSpfDetailCache(items, cacheDays);
+            await spfCacheStore.save(items, cacheDays);
           },
-          async (data) => await updateSpfSearchTaskProgress(task.id, data),
-          async (data) => await completeSpfSearchTask(task.id, data),
-          async (error, logs) => await failSpfSearchTask(task.id, error, logs.map(msg => ({ timestamp: new Date().toISOString(), message: msg }))),
+          async (data) => await spfTaskStore.updateProgress(taskRef, {
+            ...data,
+            logs: data.logs ? toLogEntries(data.logs) : undefined,
+          }),
+          async (data) => await spfTaskStore.finish(taskRef, "completed", {
+            totalResults: data.totalResults,
+            searchPageRequests: data.searchPageRequests,
+            detailPageRequests: data.detailPageRequests,
+            cacheHits: data.cacheHits || 0,
+            creditsUsed: data.creditsUsed,
+          }, toLogEntries(data.logs)),
+          async (error, logs) => await spfTaskStore.fail(taskRef, error, toLogEntries(logs)),
           async () => ({ refundAmount: 0, newBalance: 0 }), // 不再使用结算
           logApi,
           logUserActivity,
-          saveSpfSearchResults
-        ).catch(err => {
+          async (taskDbId, subTaskIndex, name, location, results) => await spfProvider.saveResults(
+            taskRef,
+            { index: subTaskIndex, name, location },
+            results
+          )
+        )).catch(err => {
           console.error(`[SPF] 线程池任务执行失败: ${task.taskId}`, err);
         });
       } else {
-        // 纯异步模式 (实时扣除)
-        executeSpfSearchRealtimeDeduction(
-          task.id,
-          task.taskId,
-          config,
+        // 纯异步模式 (实时扣除，统一执行器)
+        runTaskJob(job, () => runPeopleSearchTask(
+          spfProvider,
+          taskRef,
+          userId,
           input,
-          userId
-        ).catch(err => {
+          toSpfRuntimeConfig(config)
+        )).catch(err => {
           console.error(`[SPF] 任务执行失败: ${task.taskId}`, err);
         });
       }
@@ -251,9 +215,9 @@ export const spfRouter = router({
   getTaskStatus: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const task = await getSpfSearchTask(input.taskId);
+      const task = await spfTaskStore.getByTaskId(input.taskId);
       
-      if (!task || task.userId !== ctx.user!.id) {
+      if (!task || !(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "任务不存在",
@@ -286,16 +250,16 @@ export const spfRouter = router({
       pageSize: z.number().min(1).max(100).default(20),
     }))
     .query(async ({ ctx, input }) => {
-      const task = await getSpfSearchTask(input.taskId);
+      const task = await spfTaskStore.getByTaskId(input.taskId);
       
-      if (!task || task.userId !== ctx.user!.id) {
+      if (!task || !(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "任务不存在",
         });
       }
       
-      const resultsData = await getSpfSearchResults(task.id, input.page, input.pageSize);
+      const resultsData = await spfResultStore.list(task.id, input.page, input.pageSize);
       const totalPages = Math.ceil(resultsData.total / input.pageSize);
       
       return {
@@ -318,7 +282,7 @@ export const spfRouter = router({
     }))
     .query(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
-      const tasksData = await getUserSpfSearchTasks(userId, input.page, input.pageSize);
+      const tasksData = await spfTaskStore.listByUsers(await getTeamUserIds(userId), input.page, input.pageSize);
       
       return {
         tasks: tasksData.data.map((t: any) => ({
@@ -339,531 +303,106 @@ export const spfRouter = router({
       };
     }),
 
-  // 导出搜索结果为 CSV
-  exportCsv: protectedProcedure
+  // 停止任务：已获取的结果保留，已发生的请求照常计费
+  stopTask: protectedProcedure
     .input(z.object({ taskId: z.string() }))
-    .query(async ({ ctx, input }) => {
-      const task = await getSpfSearchTask(input.taskId);
+    .mutation(async ({ ctx, input }) => {
+      const task = await spfTaskStore.getByTaskId(input.taskId);
       
-      if (!task || task.userId !== ctx.user!.id) {
+      if (!task) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "任务不存在",
         });
       }
       
-      if (task.status !== "completed" && task.status !== "insufficient_credits") {
+      if (!(await canManageUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "任务尚未完成",
+          code: "FORBIDDEN",
+          message: "无权访问此任务",
         });
       }
       
-      const allResults = await getAllSpfSearchResults(task.id);
+      if (task.status !== "running" && task.status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能停止运行中的任务",
+        });
+      }
       
-      // 应用任务的过滤条件
-      const filters = task.filters as {
-        excludeTMobile?: boolean;
-        excludeComcast?: boolean;
-        excludeLandline?: boolean;
-        excludeWireless?: boolean;
-      } | null;
+      // 标记任务为取消状态，并通知执行器停止派发新请求
+      await spfProvider.store.cancel({ taskDbId: task.id, taskId: task.taskId });
+      signalPeopleSearchStop("spf", task.taskId);
       
-      const results = allResults.filter((r: any) => {
-        // 电话类型过滤
-        if (r.phoneType) {
-          if (filters?.excludeLandline && r.phoneType === 'Landline') {
-            return false;
-          }
-          if (filters?.excludeWireless && r.phoneType === 'Wireless') {
-            return false;
-          }
-        }
-        
-        // 运营商过滤
-        if (r.carrier) {
-          const carrierLower = r.carrier.toLowerCase();
-          if (filters?.excludeTMobile && carrierLower.includes('t-mobile')) {
-            return false;
-          }
-          if (filters?.excludeComcast && (carrierLower.includes('comcast') || carrierLower.includes('spectrum'))) {
-            return false;
-          }
-        }
-        
-        return true;
-      });
+      return { success: true, message: "任务已停止，已获取的结果可正常导出" };
+    }),
+  // 继续执行失败或积分不足的任务：只执行未完成的子任务，只对新增请求扣费
+  resumeTask: searchProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+      const task = await spfTaskStore.getByTaskId(input.taskId);
       
-      if (results.length === 0) {
+      if (!task) {
         throw new TRPCError({
           code: "NOT_FOUND",
-          message: "没有可导出的结果",
+          message: "任务不存在",
         });
       }
       
-      // CSV 表头 - 完整字段
-      const headers = [
-        "姓名",
-        "年龄",
-        "出生年份",
-        "地点",
-        "电话",
-        "电话类型",
-        "电话年份",
-        "婚姻状态",
-        "配偶姓名",
-        "邮箱",
-        "就业状态",
-        "关联企业",
-        "详情链接",
-        "数据来源",
-        "获取时间",
-      ];
-      
-      // 格式化电话号码 - 纯数字格式，前缀加 1
-      const formatPhone = (phone: string | null | undefined): string => {
-        if (!phone) return "";
-        const digits = phone.replace(/\D/g, "");
-        if (digits.length === 0) return "";
-        // 确保前缀有 1
-        if (digits.startsWith("1") && digits.length === 11) {
-          return digits;
-        }
-        if (digits.length === 10) {
-          return "1" + digits;
-        }
-        return digits;
-      };
-      
-      // 格式化日期时间
-      const formatDateTime = (date: Date | string | null | undefined): string => {
-        if (!date) return "";
-        const d = new Date(date);
-        return d.toLocaleString('zh-CN', { 
-          year: 'numeric', 
-          month: '2-digit', 
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-          hour12: false
-        }).replace(/\//g, '/');
-      };
-      
-      // 格式化关联企业（JSON数组转字符串）
-      const formatBusinesses = (businesses: any): string => {
-        if (!businesses) return "";
-        if (Array.isArray(businesses)) {
-          return businesses.filter(b => b).join(" | ");
-        }
-        return String(businesses);
-      };
-      
-      const csvRows = results.map((r: any) => [
-        r.name || "",
-        r.age?.toString() || "",
-        r.birthYear || "",
-        r.city && r.state ? `${r.city}, ${r.state}` : (r.city || r.state || ""),
-        formatPhone(r.phone),
-        r.phoneType || "",
-        r.phoneYear?.toString() || "",
-        r.maritalStatus || "",
-        r.spouseName || "",
-        r.email || r.primaryEmail || "",
-        (r.employment || "").replace(/[\r\n]+/g, " | "),
-        formatBusinesses(r.businesses),
-        r.detailLink || "",
-        "实时获取",
-        formatDateTime(r.createdAt),
-      ]);
-      
-      // 生成 CSV 内容
-      const csvContent = [
-        headers.join(","),
-        ...csvRows.map((row: string[]) => row.map((cell: string) => `"${cell.replace(/"/g, '""')}"`).join(","))
-      ].join("\n");
-      
-      // 添加 UTF-8 BOM 头
-      const BOM = "\uFEFF";
-      const csvContentWithBom = BOM + csvContent;
-      
-      // 生成文件名
-      const searchParams = task.names as string[] || [];
-      const firstNames = searchParams.slice(0, 3).join("_").replace(/[^a-zA-Z0-9_]/g, "");
-      const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
-      const fileName = `DataReach_SPF_${firstNames}_${date}.csv`;
-      
-      return {
-        fileName,
-        content: csvContentWithBom,
-        totalRecords: results.length,
-      };
-    }),
-});
-
-// ==================== 实时扣除模式搜索执行逻辑 ====================
-
-/**
- * 实时扣除模式执行搜索 (v4.0)
- * 
- * 核心特性：
- * 1. 实时积分扣除：每完成一个 API 请求，立即扣除对应积分
- * 2. 移除缓存读取：每次都请求最新数据
- * 3. 保留数据保存：用于历史任务 CSV 导出
- * 4. 优雅停止机制：积分不足时返回已获取结果
- * 5. 简化费用明细：专业、简洁、透明
- */
-async function executeSpfSearchRealtimeDeduction(
-  taskDbId: number,
-  taskId: string,
-  config: any,
-  input: z.infer<typeof spfSearchInputSchema>,
-  userId: number
-) {
-  const searchCost = parseFloat(config.searchCost);
-  const detailCost = parseFloat(config.detailCost);
-  const token = config.scrapeDoToken;
-  const maxPages = SPF_CONFIG.MAX_SAFE_PAGES;
-  
-  const logs: Array<{ timestamp: string; message: string }> = [];
-  const MAX_LOG_ENTRIES = 100;
-  const MAX_MESSAGE_LENGTH = 200;
-  
-  const addLog = (message: string) => {
-    const truncatedMessage = message.length > MAX_MESSAGE_LENGTH 
-      ? message.substring(0, MAX_MESSAGE_LENGTH) + '...' 
-      : message;
-    
-    if (logs.length >= MAX_LOG_ENTRIES) {
-      logs.shift();
-    }
-    
-    logs.push({ timestamp: new Date().toISOString(), message: truncatedMessage });
-    console.log(`[SPF Task ${taskId}] ${truncatedMessage}`);
-  };
-  
-  // 构建子任务列表
-  const subTasks: Array<{ name: string; location: string; index: number }> = [];
-  
-  if (input.mode === "nameOnly") {
-    for (let i = 0; i < input.names.length; i++) {
-      subTasks.push({ name: input.names[i], location: "", index: i });
-    }
-  } else {
-    const locations = input.locations && input.locations.length > 0 
-      ? input.locations 
-      : [""];
-    let index = 0;
-    for (const name of input.names) {
-      for (const location of locations) {
-        subTasks.push({ name, location, index: index++ });
-      }
-    }
-  }
-  
-  // 初始化实时积分跟踪器
-  const creditTracker = await createRealtimeCreditTracker(userId, taskId, searchCost, detailCost);
-  const initialBalance = creditTracker.getCurrentBalance();
-  
-  // 启动日志（简洁专业版）
-  addLog(`🚀 SPF 搜索任务启动`);
-  addLog(`📋 搜索组合: ${subTasks.length} 个任务`);
-  
-  // 显示过滤条件
-  const filters = input.filters || {};
-  addLog(`📋 过滤条件: 年龄 ${filters.minAge || 50}-${filters.maxAge || 79} 岁`);
-  
-  // 更新任务状态
-  await updateSpfSearchTaskProgress(taskDbId, {
-    status: "running",
-    totalSubTasks: subTasks.length,
-    logs,
-  });
-  emitTaskProgress(userId, taskId, "spf", { status: "running", totalSubTasks: subTasks.length, logs });
-  
-  // 统计
-  let totalSearchPages = 0;
-  let totalDetailPages = 0;
-  let totalResults = 0;
-  let totalFilteredOut = 0;
-  let totalSkippedDeceased = 0;
-  let stoppedDueToCredits = false;
-  
-  // 用于跨任务电话号码去重
-  const seenPhones = new Set<string>();
-  
-  // 缓存保存函数（用于 CSV 导出）
-  const setCachedDetails = async (items: Array<{ link: string; data: SpfDetailResult }>) => {
-    const cacheDays = config.cacheDays || 180;
-    await saveSpfDetailCache(items, cacheDays);
-  };
-  
-  try {
-    // ==================== 阶段一：逐个搜索（实时扣费） ====================
-    
-    // 收集所有详情任务
-    const allDetailTasks: DetailTask[] = [];
-    const subTaskResults: Map<number, { searchResults: SpfDetailResult[]; searchPages: number }> = new Map();
-    
-    let completedSearches = 0;
-    
-    for (const subTask of subTasks) {
-      // 检查积分是否足够
-      if (!await creditTracker.canAffordSearchPage()) {
-        addLog(`⚠️ 积分不足，停止搜索`);
-        stoppedDueToCredits = true;
-        break;
+      if (!(await canManageUserResource(userId, task.userId))) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "无权访问此任务",
+        });
       }
       
-      const result = await searchOnly(
-        subTask.name,
-        subTask.location,
-        token,
-        maxPages,
-        input.filters || {},
-        (msg) => addLog(`[${subTask.index + 1}/${subTasks.length}] ${msg}`)
-      );
-      
-      completedSearches++;
-      
-      if (result.success) {
-        const pagesUsed = result.stats.searchPageRequests;
-        
-        // 实时扣除搜索页费用
-        for (let i = 0; i < pagesUsed; i++) {
-          const deductResult = await creditTracker.deductSearchPage();
-          if (!deductResult.success) {
-            addLog(`⚠️ 积分不足，停止搜索`);
-            stoppedDueToCredits = true;
-            break;
-          }
-        }
-        
-        if (stoppedDueToCredits) break;
-        
-        totalSearchPages += pagesUsed;
-        totalFilteredOut += result.stats.filteredOut;
-        totalSkippedDeceased += result.stats.skippedDeceased || 0;
-        
-        // 保存搜索结果
-        subTaskResults.set(subTask.index, {
-          searchResults: result.searchResults,
-          searchPages: pagesUsed,
+      if (task.status !== "failed" && task.status !== "insufficient_credits") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能继续失败或积分不足的任务",
         });
-        
-        // 收集详情任务
-        for (const searchResult of result.searchResults) {
-          if (searchResult.detailLink) {
-            allDetailTasks.push({
-              detailLink: searchResult.detailLink,
-              searchName: subTask.name,
-              searchLocation: subTask.location,
-              searchResult,
-              subTaskIndex: subTask.index,
-            });
-          }
-        }
-        
-        const taskName = subTask.location ? `${subTask.name} @ ${subTask.location}` : subTask.name;
-        addLog(`✅ [${subTask.index + 1}/${subTasks.length}] ${taskName} - ${result.searchResults.length} 条, ${pagesUsed} 页`);
-      } else {
-        addLog(`❌ [${subTask.index + 1}/${subTasks.length}] 搜索失败: ${result.error}`);
       }
       
-      // 更新进度
-      const searchProgress = Math.round((completedSearches / subTasks.length) * 30);
-      await updateSpfSearchTaskProgress(taskDbId, {
-        completedSubTasks: completedSearches,
-        progress: searchProgress,
-        searchPageRequests: totalSearchPages,
-        logs,
-      });
-      emitTaskProgress(userId, taskId, "spf", { progress: searchProgress, completedSubTasks: completedSearches, totalSubTasks: subTasks.length, logs });
-      emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getCostBreakdown().totalCost, source: "spf", taskId });
-    }
-    
-    // 搜索完成，静默处理
-    
-    // ==================== 阶段二：获取详情（实时扣费，无缓存读取） ====================
-    if (allDetailTasks.length > 0 && !stoppedDueToCredits) {
-      // 阶段二：详情获取
-      
-      // 去重详情链接
-      const uniqueLinks = Array.from(new Set(allDetailTasks.map(t => t.detailLink)));
-      const tasksByLink = new Map<string, DetailTask[]>();
-      
-      for (const task of allDetailTasks) {
-        const link = task.detailLink;
-        if (!tasksByLink.has(link)) {
-          tasksByLink.set(link, []);
-        }
-        tasksByLink.get(link)!.push(task);
+      const config = await getSpfConfig();
+      if (!config.enabled) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "SearchPeopleFree 功能暂未开放",
+        });
       }
       
-      // 唯一详情链接数量，静默处理
-      
-      // 检查可以负担多少条详情
-      const affordCheck = await creditTracker.canAffordDetailBatch(uniqueLinks.length);
-      let linksToFetch = uniqueLinks;
-      
-      if (!affordCheck.canAfford) {
-        addLog(`⚠️ 积分不足，无法获取详情`);
-        stoppedDueToCredits = true;
-      } else if (affordCheck.affordableCount < uniqueLinks.length) {
-        addLog(`⚠️ 积分仅够获取 ${affordCheck.affordableCount}/${uniqueLinks.length} 条详情`);
-        linksToFetch = uniqueLinks.slice(0, affordCheck.affordableCount);
-        stoppedDueToCredits = true;
+      if (!config.scrapeDoToken) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "系统配置错误，请联系管理员",
+        });
       }
       
-      // 构建详情任务（不读取缓存）
-      const detailTasksToFetch: DetailTask[] = [];
-      for (const link of linksToFetch) {
-        const linkTasks = tasksByLink.get(link);
-        if (linkTasks && linkTasks.length > 0) {
-          detailTasksToFetch.push(linkTasks[0]);
-        }
+      const runtimeConfig = toSpfRuntimeConfig(config);
+      // 团队管理员继续成员的任务时，仍按任务发起人扣费
+      const userCredits = await getAvailableCredits(task.userId);
+      if (userCredits < runtimeConfig.searchCost) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `积分不足，至少需要 ${runtimeConfig.searchCost.toFixed(1)} 积分才能继续任务，当前余额 ${userCredits.toFixed(1)} 积分`,
+        });
       }
       
-      // 获取详情（不使用缓存读取）
-      if (detailTasksToFetch.length > 0) {
-        // 获取详情，静默处理
-        
-        const detailResult = await fetchDetailsInBatch(
-          detailTasksToFetch,
-          token,
-          TOTAL_CONCURRENCY,
-          input.filters || {},
-          addLog,
-          async () => new Map(), // 不读取缓存
-          setCachedDetails // 保存数据用于 CSV 导出
-        );
-        
-        // 实时扣除详情页费用
-        for (let i = 0; i < detailResult.stats.detailPageRequests; i++) {
-          const deductResult = await creditTracker.deductDetailPage();
-          if (!deductResult.success) {
-            addLog(`⚠️ 积分不足，停止获取详情`);
-            stoppedDueToCredits = true;
-            break;
-          }
-        }
-        
-        totalDetailPages += detailResult.stats.detailPageRequests;
-        totalFilteredOut += detailResult.stats.filteredOut;
-        
-        // 按子任务分组保存结果
-        const resultsBySubTask = new Map<number, SpfDetailResult[]>();
-        
-        for (const { task, details } of detailResult.results) {
-          if (!details) continue;
-          
-          if (!resultsBySubTask.has(task.subTaskIndex)) {
-            resultsBySubTask.set(task.subTaskIndex, []);
-          }
-          
-          // 跨任务电话号码去重
-          if (details.phone && seenPhones.has(details.phone)) {
-            continue;
-          }
-          if (details.phone) {
-            seenPhones.add(details.phone);
-          }
-          
-          // 添加搜索信息
-          const resultWithSearchInfo = {
-            ...details,
-            searchName: task.searchName,
-            searchLocation: task.searchLocation,
-          };
-          
-          resultsBySubTask.get(task.subTaskIndex)!.push(resultWithSearchInfo);
-        }
-        
-        // 保存结果到数据库
-        for (const [subTaskIndex, results] of Array.from(resultsBySubTask.entries())) {
-          const subTask = subTasks.find(t => t.index === subTaskIndex);
-          if (subTask && results.length > 0) {
-            await saveSpfSearchResults(taskDbId, subTaskIndex, subTask.name, subTask.location, results);
-            totalResults += results.length;
-          }
-        }
-      }
+      const { remainingSubTasks } = await resumePeopleSearchTask(
+        spfProvider,
+        { taskDbId: task.id, taskId: task.taskId },
+        task.userId,
+        {
+          names: task.names,
+          locations: task.locations || [],
+          pairs: task.pairs ?? undefined,
+          mode: task.mode,
+          filters: task.filters || {},
+        },
+        runtimeConfig
+      );
       
-      // 详情完成，静默处理
-    }
-    
-    // 更新最终进度
-    await updateSpfSearchTaskProgress(taskDbId, {
-      progress: 100,
-      totalResults,
-      searchPageRequests: totalSearchPages,
-      detailPageRequests: totalDetailPages,
-      logs,
-    });
-    emitTaskProgress(userId, taskId, "spf", { progress: 100, totalResults, logs });
-    emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getCostBreakdown().totalCost, source: "spf", taskId });
-    
-    // ==================== 任务完成日志（简洁专业版） ====================
-    const breakdown = creditTracker.getCostBreakdown();
-    const currentBalance = creditTracker.getCurrentBalance();
-    
-    if (stoppedDueToCredits) {
-      addLog(`⚠️ 任务因积分不足提前结束`);
-    } else {
-      addLog(`✅ 任务完成`);
-    }
-    addLog(`📊 结果: ${totalResults} 条 | 消耗: ${breakdown.totalCost.toFixed(1)} 积分 | 余额: ${currentBalance.toFixed(1)} 积分`);
-    
-    // 记录 API 日志
-    await logApi({
-      userId,
-      apiType: "scrape_spf",
-      endpoint: "fullSearch",
-      requestParams: { names: input.names.length, mode: input.mode },
-      responseStatus: 200,
-      responseTime: 0,
-      success: true,
-      creditsUsed: breakdown.totalCost,
-    });
-    
-    await completeSpfSearchTask(taskDbId, {
-      totalResults,
-      searchPageRequests: totalSearchPages,
-      detailPageRequests: totalDetailPages,
-      cacheHits: 0, // 不再使用缓存命中
-      creditsUsed: breakdown.totalCost,
-      logs,
-    });
-    emitTaskCompleted(userId, taskId, "spf", { totalResults, creditsUsed: breakdown.totalCost, status: stoppedDueToCredits ? "insufficient_credits" : "completed" });
-    
-    // 记录用户活动日志
-    await logUserActivity({
-      userId,
-      action: 'SPF搜索',
-      details: `搜索完成: ${input.names.length}个姓名, ${totalResults}条结果, 消耗${breakdown.totalCost.toFixed(1)}积分${stoppedDueToCredits ? ' (积分不足提前结束)' : ''}`,
-      ipAddress: undefined,
-      userAgent: undefined
-    });
-    
-  } catch (error: any) {
-    addLog(`❌ 任务失败: ${error.message}`);
-    
-    // 获取已消耗的费用
-    const breakdown = creditTracker.getCostBreakdown();
-    
-    await failSpfSearchTask(taskDbId, error.message, logs);
-    emitTaskFailed(userId, taskId, "spf", { error: error.message, creditsUsed: breakdown.totalCost });
-    
-    await logApi({
-      userId,
-      apiType: "scrape_spf",
-      endpoint: "fullSearch",
-      requestParams: { names: input.names.length, mode: input.mode },
-      responseStatus: 500,
-      responseTime: 0,
-      success: false,
-      errorMessage: error.message,
-      creditsUsed: breakdown.totalCost,
-    });
-  }
-}
+      return { success: true, message: "任务已继续执行，只对新增请求扣费", remainingSubTasks };
+    }),
+});
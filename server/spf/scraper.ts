@@ -345,7 +345,7 @@ export interface DetailTask {
  * - 路径格式 /find/john-smith/texas 会返回 502 错误
  * - 查询参数格式 /results?name=john+smith&citystatezip=texas 成功
  */
-function buildSearchUrl(name: string, location: string): string {
+export function buildSearchUrl(name: string, location: string): string {
   const baseUrl = 'https://www.searchpeoplefree.com/results';
   const params = new URLSearchParams();
   
@@ -446,7 +446,7 @@ function decodeCloudflareEmail(encoded: string): string {
 /**
  * 应用过滤器检查详情是否符合条件
  */
-function applyFilters(detail: SpfDetailResult, filters: SpfFilters): boolean {
+export function applyFilters(detail: SpfDetailResult, filters: SpfFilters): boolean {
   if (filters.minAge && detail.age && detail.age < filters.minAge) {
     return false;
   }
@@ -1207,6 +1207,7 @@ export interface FetchDetailsResult {
  * @param onProgress 进度回调
  * @param getCachedDetails 获取缓存函数
  * @param setCachedDetails 设置缓存函数
+ * @param shouldStop 返回 true 时不再派发新请求（用户停止任务），已发出的请求照常完成
  */
 export async function fetchDetailsInBatch(
   tasks: DetailTask[],
@@ -1215,7 +1216,8 @@ export async function fetchDetailsInBatch(
   filters: SpfFilters,
   onProgress: (message: string) => void,
   getCachedDetails: (links: string[]) => Promise<Map<string, SpfDetailResult>>,
-  setCachedDetails: (items: Array<{ link: string; data: SpfDetailResult }>) => Promise<void>
+  setCachedDetails: (items: Array<{ link: string; data: SpfDetailResult }>) => Promise<void>,
+  shouldStop?: () => boolean
 ): Promise<FetchDetailsResult> {
   const results: Array<{ task: DetailTask; details: SpfDetailResult | null }> = [];
   let detailPageRequests = 0;
@@ -1273,6 +1275,10 @@ export async function fetchDetailsInBatch(
       if (concurrencyPool.size >= concurrency) {
         await Promise.race(concurrencyPool);
       }
+      if (shouldStop?.()) {
+        onProgress(`⏹️ 任务已停止，不再获取剩余详情`);
+        break;
+      }
       
       let promiseRef: Promise<any> = null as any;
       const promise = (async () => {
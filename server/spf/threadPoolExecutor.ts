@@ -25,13 +25,16 @@ import {
   createRealtimeCreditTracker,
   formatCostBreakdown,
 } from './realtimeCredits';
+import { buildSubTasks } from '../peopleSearch/runner';
+import type { PeopleSearchMode, PeopleSearchPair } from '../peopleSearch/types';
 
 // ==================== 类型定义 ====================
 
 export interface ThreadPoolSearchInput {
   names: string[];
   locations?: string[];
-  mode: 'nameOnly' | 'nameLocation';
+  pairs?: PeopleSearchPair[];
+  mode: PeopleSearchMode;
   filters?: SpfFilters;
 }
 
@@ -84,22 +87,7 @@ export async function executeSpfSearchWithThreadPool(
   const maxPages = SPF_SEARCH_CONFIG.MAX_SAFE_PAGES;
   
   // 构建子任务列表
-  const subTasks: Array<{ name: string; location: string; index: number }> = [];
-  
-  if (input.mode === 'nameOnly') {
-    for (let i = 0; i < input.names.length; i++) {
-      subTasks.push({ name: input.names[i], location: '', index: i });
-    }
-  } else {
-    const locations = input.locations || [''];
-    let index = 0;
-    for (const name of input.names) {
-      for (const location of locations) {
-        subTasks.push({ name, location, index });
-        index++;
-      }
-    }
-  }
+  const subTasks = buildSubTasks(input);
   
   // 日志辅助函数
   const logMessage = (msg: string) => {
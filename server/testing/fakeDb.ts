@@ -0,0 +1,107 @@
+/**
+ * 单元测试用的数据库替身
+ *
+ * 只模拟 drizzle 查询的调用链，不解析 where 条件：
+ * - select 优先依次取出 queued 中的结果，否则返回 rows 中该表的预置数据
+ * - insert / update 记录写入的表和字段，update 依次取出 affectedRows 中的结果（默认 1）
+ *
+ * vi.mock 工厂先于静态 import 执行，需在 vi.hoisted 中创建：
+ *   const fake = await vi.hoisted(async () => (await import("../testing/fakeDb")).createFakeDb());
+ *   vi.mock("../db", () => ({ getDb: async () => fake.database }));
+ */
+
+export interface FakeWrite {
+  table: unknown;
+  values: Record<string, any>;
+}
+
+export interface FakeDbState {
+  /** 按表预置的查询结果 */
+  rows: Map<unknown, unknown[]>;
+  /** 按调用顺序返回的查询结果，优先于 rows */
+  queued: unknown[][];
+  /** 按调用顺序返回的 update 影响行数 */
+  affectedRows: number[];
+  /** 已执行的 select 次数 */
+  selects: number;
+  inserts: FakeWrite[];
+  updates: FakeWrite[];
+}
+
+/** 可链式调用、await 后得到 result 的查询 */
+class FakeQuery<T> implements PromiseLike<T> {
+  private table: unknown;
+
+  constructor(private readonly result: (table: unknown) => T) {}
+
+  from(table: unknown): this {
+    this.table = table;
+    return this;
+  }
+  innerJoin(..._args: unknown[]): this { return this; }
+  leftJoin(..._args: unknown[]): this { return this; }
+  where(..._args: unknown[]): this { return this; }
+  groupBy(..._args: unknown[]): this { return this; }
+  orderBy(..._args: unknown[]): this { return this; }
+  limit(_count: number): this { return this; }
+  for(_strength: string): this { return this; }
+
+  then<R1 = T, R2 = never>(
+    onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return Promise.resolve(this.table).then(this.result).then(onfulfilled, onrejected);
+  }
+}
+
+export function createFakeDb() {
+  const state: FakeDbState = {
+    rows: new Map(),
+    queued: [],
+    affectedRows: [],
+    selects: 0,
+    inserts: [],
+    updates: [],
+  };
+
+  const queries = {
+    select: (_fields?: unknown) => {
+      state.selects++;
+      return new FakeQuery(table => state.queued.shift() ?? state.rows.get(table) ?? []);
+    },
+    insert: (table: unknown) => ({
+      values: (values: Record<string, any>) => new FakeQuery(() => {
+        state.inserts.push({ table, values });
+        return [{ insertId: state.inserts.length, affectedRows: 1 }];
+      }),
+    }),
+    update: (table: unknown) => ({
+      set: (values: Record<string, any>) => new FakeQuery(() => {
+        state.updates.push({ table, values });
+        return [{ affectedRows: state.affectedRows.shift() ?? 1 }];
+      }),
+    }),
+  };
+  const database = {
+    ...queries,
+    transaction: async <T>(run: (tx: typeof queries) => Promise<T>): Promise<T> => run(queries),
+  };
+
+  function reset(): void {
+    state.rows = new Map();
+    state.queued = [];
+    state.affectedRows = [];
+    state.selects = 0;
+    state.inserts = [];
+    state.updates = [];
+  }
+
+  /** 写入某个表的字段（按写入顺序） */
+  function updatesOf(table: unknown): Array<Record<string, any>> {
+    return state.updates.filter(update => update.table === table).map(update => update.values);
+  }
+
+  return { state, database, reset, updatesOf };
+}
+
+export type FakeDb = ReturnType<typeof createFakeDb>;
@@ -0,0 +1,77 @@
+/**
+ * TPS 搜索结果导出（流式，见 exports/stream.ts）
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergeEmails, mergePhones, splitName } from "../exports/templates";
+import { tpsTaskStore, tpsResultStore } from "./db";
+
+type TpsSearchTask = NonNullable<Awaited<ReturnType<typeof tpsTaskStore.getByTaskId>>>;
+type TpsSearchResult = Awaited<ReturnType<typeof tpsResultStore.loadAfter>>[number];
+
+// 从其他邮箱中剔除主邮箱
+const otherEmails = (r: TpsSearchResult): string => {
+  const primaryEmail = r.primaryEmail || "";
+  const emails = r.email || "";
+  if (!primaryEmail || !emails) return emails;
+  return emails
+    .split(",")
+    .map((e: string) => e.trim())
+    .filter((e: string) => e.toLowerCase() !== primaryEmail.toLowerCase())
+    .join(", ");
+};
+
+// 可选列 - 默认为精简版，删除重复冗余列
+const COLUMNS: ExportColumn<TpsSearchResult>[] = [
+  { key: "name", zh: "姓名", en: "Name", value: r => r.name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => r.age?.toString() || "" },
+  { key: "address", zh: "地址", en: "Address", value: r => r.location || (r.city && r.state ? `${r.city}, ${r.state}` : "") },
+  { key: "phone", zh: "电话", en: "Phone", value: (r, ctx) => ctx.phone(r.phone) },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => r.phoneType || "" },
+  { key: "carrier", zh: "运营商", en: "Carrier", value: r => r.carrier || "" },
+  { key: "reportYear", zh: "号码年份", en: "Phone Year", value: r => r.reportYear?.toString() || "" },
+  { key: "propertyValue", zh: "房产价值", en: "Property Value", value: r => r.propertyValue?.toString() || "" },
+  { key: "company", zh: "公司", en: "Company", value: r => r.company || "" },
+  { key: "jobTitle", zh: "职位", en: "Job Title", value: r => r.jobTitle || "" },
+  { key: "primaryEmail", zh: "主邮箱", en: "Primary Email", value: r => r.primaryEmail || "" },
+  { key: "otherEmails", zh: "其他邮箱", en: "Other Emails", value: otherEmails },
+  // 婚姻状态：有配偶显示配偶名字，无配偶显示"可能单身"
+  { key: "maritalStatus", zh: "婚姻状态", en: "Marital Status", value: r => r.spouse ? r.spouse : "可能单身" },
+  { key: "detailLink", zh: "详情链接", en: "Detail Link", value: r => r.detailLink ? `https://www.truepeoplesearch.com${r.detailLink}` : "" },
+  { key: "source", zh: "数据来源", en: "Source", value: () => "TruePeopleSearch" },
+  { key: "exportedAt", zh: "获取时间", en: "Retrieved At", value: (_r, ctx) => ctx.exportedAt.toISOString().split("T")[0] },
+  { key: "searchName", zh: "搜索姓名", en: "Search Name", default: false, value: r => r.searchName || "" },
+  { key: "searchLocation", zh: "搜索地点", en: "Search Location", default: false, value: r => r.searchLocation || "" },
+];
+
+export const tpsExporter: TaskExporter<TpsSearchTask, TpsSearchResult> = {
+  columns: COLUMNS,
+
+  getTask: tpsTaskStore.getByTaskId,
+
+  // 允许 completed、insufficient_credits 和 cancelled 状态导出
+  isExportable: task =>
+    task.status === "completed" || task.status === "insufficient_credits" || task.status === "cancelled",
+
+  createSource: task => ({
+    filename: `DataReach_TPS_${task.taskId}_${new Date().toISOString().split("T")[0]}`,
+    fetchBatch: (afterId, limit) => tpsResultStore.loadAfter(task.id, afterId, limit),
+  }),
+
+  // TPS 每行一个号码
+  toLead: r => ({
+    ...splitName(r.name),
+    fullName: r.name || "",
+    age: r.age,
+    address: r.location || "",
+    city: r.city || "",
+    state: r.state || "",
+    company: r.company || "",
+    jobTitle: r.jobTitle || "",
+    linkedinUrl: "",
+    phones: mergePhones(r.phone ? { number: r.phone, type: r.phoneType } : null),
+    emails: mergeEmails(r.primaryEmail, ...(r.email || "").split(",")),
+    source: "TruePeopleSearch",
+  }),
+};
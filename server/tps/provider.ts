@@ -0,0 +1,250 @@
+/**
+ * TruePeopleSearch 适配器
+ *
+ * 将 TPS 的解析、过滤、详情获取和存储接入统一的人员搜索执行器
+ */
+
+import {
+  searchOnly,
+  buildSearchUrl,
+  parseSearchPage,
+  parseDetailPage,
+  shouldIncludeResult,
+  TpsFilters,
+  TpsSearchResult,
+  TpsDetailResult,
+  DetailTaskWithIndex,
+  TPS_CONFIG,
+} from "./scraper";
+import { fetchDetailsWithSmartPool } from "./smartPoolExecutor";
+import {
+  getTpsConfig,
+  tpsTaskStore,
+  tpsResultStore,
+  tpsCacheStore,
+  logApi,
+} from "./db";
+import { truncateText } from "../peopleSearch/store";
+import { buildSubTasks } from "../peopleSearch/runner";
+import type {
+  PeopleSearchProvider,
+  PeopleSearchRuntimeConfig,
+  PeopleSearchSubTask,
+} from "../peopleSearch/types";
+
+/** 预估时每个子任务的平均详情数 */
+const AVG_DETAILS_PER_TASK = 50;
+
+/**
+ * 将 getTpsConfig() 的结果转换为统一运行时配置
+ */
+export function toTpsRuntimeConfig(config: Awaited<ReturnType<typeof getTpsConfig>>): PeopleSearchRuntimeConfig {
+  return {
+    enabled: !!config.enabled,
+    token: config.scrapeDoToken || "",
+    searchCost: parseFloat(config.searchCost),
+    detailCost: parseFloat(config.detailCost),
+    maxPages: TPS_CONFIG.MAX_SAFE_PAGES,
+    cacheDays: config.cacheDays || 180,
+    defaultMinAge: config.defaultMinAge || 50,
+    defaultMaxAge: config.defaultMaxAge || 79,
+  };
+}
+
+export const tpsProvider: PeopleSearchProvider<TpsFilters, TpsSearchResult, TpsDetailResult> = {
+  source: "tps",
+  label: "TPS",
+  displayName: "TruePeopleSearch",
+  activityAction: "TPS搜索",
+  searchConcurrency: 3,  // 固定3个名字同时搜索
+
+  buildSearchUrl,
+  parseSearchPage,
+  parseDetailPage,
+  applyFilters: shouldIncludeResult,
+
+  async getRuntimeConfig() {
+    return toTpsRuntimeConfig(await getTpsConfig());
+  },
+
+  estimateCost(input, config) {
+    const subTaskCount = buildSubTasks(input).length;
+    const maxSearchPages = subTaskCount * config.maxPages;
+    const maxSearchCost = maxSearchPages * config.searchCost;
+    const estimatedDetails = subTaskCount * AVG_DETAILS_PER_TASK;
+    const estimatedDetailCost = estimatedDetails * config.detailCost;
+    const estimatedCost = maxSearchCost + estimatedDetailCost;
+
+    return {
+      subTaskCount,
+      maxPages: config.maxPages,
+      maxSearchPages,
+      maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
+      avgDetailsPerTask: AVG_DETAILS_PER_TASK,
+      estimatedDetails,
+      estimatedDetailCost: Math.ceil(estimatedDetailCost * 10) / 10,
+      estimatedCost: Math.ceil(estimatedCost * 10) / 10,
+      searchCost: config.searchCost,
+      detailCost: config.detailCost,
+    };
+  },
+
+  async search(subTask, ctx) {
+    const result = await searchOnly(
+      subTask.name,
+      subTask.location,
+      ctx.config.token,
+      ctx.config.maxPages,
+      ctx.filters,
+      (msg) => ctx.addLog(`[${subTask.index + 1}] ${msg}`)
+    );
+    return {
+      success: result.success,
+      items: result.searchResults,
+      searchPageRequests: result.stats.searchPageRequests,
+      filteredOut: result.stats.filteredOut,
+      error: result.error,
+    };
+  },
+
+  async fetchDetails(items, ctx) {
+    // 继续执行：之前已获取的详情直接读取缓存，不再重复请求和扣费
+    const cachedResults: Array<{ subTask: PeopleSearchSubTask; details: TpsDetailResult[] }> = [];
+    let cacheHits = 0;
+    let cachedFilteredOut = 0;
+    if (ctx.reuseDetailCache) {
+      const cached = await tpsCacheStore.get(Array.from(new Set(items.map(({ item }) => item.detailLink))));
+      const cachedByLink = new Map(cached.map(c => [c.detailLink, c.data as TpsDetailResult]));
+      cacheHits = cachedByLink.size;
+      items = items.filter(({ item, subTask }) => {
+        const data = cachedByLink.get(item.detailLink);
+        if (!data) return true;
+        const detail = { ...data, fromCache: true };
+        if (shouldIncludeResult(detail, ctx.filters)) {
+          cachedResults.push({ subTask, details: [detail] });
+        } else {
+          cachedFilteredOut++;
+        }
+        return false;
+      });
+      if (items.length === 0) {
+        return { results: cachedResults, detailPageRequests: 0, cacheHits, filteredOut: cachedFilteredOut, stoppedDueToCredits: false };
+      }
+    }
+
+    const subTaskByIndex = new Map<number, PeopleSearchSubTask>();
+    const detailTasks: DetailTaskWithIndex[] = items.map(({ item, subTask }) => {
+      subTaskByIndex.set(subTask.index, subTask);
+      return {
+        searchResult: item,
+        subTaskIndex: subTask.index,
+        name: subTask.name,
+        location: subTask.location,
+      };
+    });
+
+    const detailResult = await fetchDetailsWithSmartPool(
+      detailTasks,
+      ctx.config.token,
+      ctx.filters,
+      ctx.addLog,
+      async (cacheItems) => tpsCacheStore.save(cacheItems, ctx.config.cacheDays),
+      ctx.creditTracker,
+      ctx.userId,
+      (info) => ctx.onDetailProgress({
+        completed: info.completedDetails,
+        total: info.totalDetails,
+        phase: info.phase,
+      })
+    );
+
+    return {
+      results: [
+        ...cachedResults,
+        ...detailResult.results.map(({ task, details }) => ({
+          subTask: subTaskByIndex.get(task.subTaskIndex)!,
+          details,
+        })),
+      ],
+      detailPageRequests: detailResult.stats.detailPageRequests,
+      cacheHits,
+      filteredOut: cachedFilteredOut + detailResult.stats.filteredOut,
+      stoppedDueToCredits: detailResult.stats.stoppedDueToCredits,
+    };
+  },
+
+  getPhone: (detail) => detail.phone,
+
+  store: tpsTaskStore,
+
+  async createTask(userId, input) {
+    const task = await tpsTaskStore.create({
+      userId,
+      mode: input.mode,
+      names: input.names,
+      locations: input.locations || [],
+      pairs: input.pairs,
+      filters: input.filters || {},
+    });
+    return { taskDbId: task.id, taskId: task.taskId };
+  },
+
+  async loadResults(task) {
+    const rows = await tpsResultStore.loadAll(task.taskDbId);
+    return rows.map(r => {
+      // email 字段可能包含多个邮箱，用逗号分隔
+      const allEmails = (r.email || "").split(",").map(e => e.trim()).filter(Boolean);
+      return {
+        searchName: r.searchName,
+        searchLocation: r.searchLocation,
+        name: r.name,
+        age: r.age,
+        city: r.city,
+        state: r.state,
+        location: r.location,
+        phone: r.phone,
+        phoneType: r.phoneType,
+        carrier: r.carrier,
+        allPhones: r.phone ? [r.phone] : [],
+        email: r.primaryEmail || allEmails[0] || null,
+        allEmails,
+        detailLink: r.detailLink,
+      };
+    });
+  },
+
+  countResults: (task) => tpsResultStore.count(task.taskDbId),
+
+  async saveResults(task, subTask, details) {
+    // 按 schema 定义截断，防止超出列长度限制
+    await tpsResultStore.insert(details.map(r => ({
+      taskId: task.taskDbId,
+      subTaskIndex: subTask.index,
+      searchName: truncateText(subTask.name, 200),
+      searchLocation: truncateText(subTask.location, 200),
+      name: truncateText(r.name, 200),
+      age: r.age ?? null,
+      city: truncateText(r.city, 100),
+      state: truncateText(r.state, 50),
+      location: truncateText(r.location, 200),
+      phone: truncateText(r.phone, 50),
+      phoneType: truncateText(r.phoneType, 50),
+      carrier: truncateText(r.carrier, 100),
+      reportYear: r.reportYear ?? null,
+      isPrimary: r.isPrimary ?? false,
+      propertyValue: r.propertyValue ?? 0,
+      yearBuilt: r.yearBuilt ?? null,
+      company: truncateText(r.company, 200),
+      jobTitle: truncateText(r.jobTitle, 200),
+      email: truncateText(r.email, 500),
+      primaryEmail: truncateText(r.primaryEmail, 200),
+      spouse: truncateText(r.spouse, 200),
+      detailLink: truncateText(r.detailLink, 500),
+      fromCache: r.fromCache ?? false,
+    })));
+  },
+
+  async logApi(data) {
+    await logApi({ ...data, apiType: "scrape_tps" });
+  },
+};
@@ -9,59 +9,45 @@
  * - 取消缓存命中：每次都获取最新数据
  * - 保留数据保存：用于历史 CSV 导出
  * - 简化费用明细：更专业透明的展示
+ * 
+ * v5.0 更新:
+ * - 搜索执行迁移到统一执行器 (peopleSearch/runner.ts)，TPS 逻辑见 provider.ts
+ * - 新增 stopTask：用户可随时停止任务，已获取的结果保留并可导出
+ * - 新增 resumeTask：失败或积分不足的任务充值后继续，跳过已完成的子任务
+ * - CSV 导出改为流式下载 (GET /api/export/tps/:taskId)，格式见 export.ts
+ * - 团队空间：团队成员共享积分池，任务历史和结果在团队内可见（见 organizations/）
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
-import { 
-  searchOnly,
-  TpsFilters, 
-  TpsDetailResult,
-  TpsSearchResult,
-  DetailTask,
-  DetailTaskWithIndex,
-  TPS_CONFIG,
-} from "./scraper";
-import { 
-  fetchDetailsWithSmartPool,
-  DetailProgressInfo,
-  BATCH_CONFIG,
-} from "./smartPoolExecutor";
-// v8.0: smartConcurrencyPool 已废弃，分批配置从 smartPoolExecutor 导入
 import {
   getTpsConfig,
-  createTpsSearchTask,
-  updateTpsSearchTaskProgress,
-  completeTpsSearchTask,
-  failTpsSearchTask,
-  saveTpsSearchResults,
-  getTpsSearchTask,
-  getUserTpsSearchTasks,
-  getTpsSearchResults,
-  saveTpsDetailCache,
-  logApi,
-  getUserCredits,
+  tpsTaskStore,
+  tpsResultStore,
 } from "./db";
-import { getDb, logUserActivity } from "../db";
-import { tpsSearchTasks } from "../../drizzle/schema";
-import { eq } from "drizzle-orm";
-import { 
-  createTpsRealtimeCreditTracker, 
-  TpsRealtimeCreditTracker,
-  formatTpsCostBreakdown,
-} from "./realtimeCredits";
 import {
   getConcurrencyStats,
   getActiveTasks,
-  recordTaskStart,
-  recordTaskComplete,
-  recordTaskProgress,
 } from "./concurrencyMonitor";
-import { emitTaskProgress, emitTaskCompleted, emitTaskFailed, emitCreditsUpdate } from "../_core/wsEmitter";
-
-// v8.0: 搜索并发配置（详情并发由 BATCH_CONFIG 控制）
-const SEARCH_CONCURRENCY = 3;  // 搜索并发：固定3个名字同时搜索
+import { tpsProvider, toTpsRuntimeConfig } from "./provider";
+import { runPeopleSearchTask, signalPeopleSearchStop } from "../peopleSearch/runner";
+import {
+  peopleSearchModeSchema,
+  peopleSearchPairsSchema,
+  refinePeopleSearchInput,
+  fillPairNames,
+  MAX_SEARCH_NAMES,
+} from "../peopleSearch/input";
+import { resumePeopleSearchTask } from "../peopleSearch/resume";
+import { runTaskJob } from "../services/taskQueue";
+import { getAvailableCredits } from "../organizations/credits";
+import {
+  getTeamUserIds,
+  canViewUserResource,
+  canManageUserResource,
+  searchProcedure,
+} from "../organizations/access";
 
 // 输入验证 schema
 const tpsFiltersSchema = z.object({
@@ -75,11 +61,12 @@ const tpsFiltersSchema = z.object({
 }).optional();
 
 const tpsSearchInputSchema = z.object({
-  names: z.array(z.string().min(1)).min(1).max(100),
+  names: z.array(z.string().min(1)).max(MAX_SEARCH_NAMES).default([]),
   locations: z.array(z.string()).optional(),
-  mode: z.enum(["nameOnly", "nameLocation"]),
+  pairs: peopleSearchPairsSchema,
+  mode: peopleSearchModeSchema,
   filters: tpsFiltersSchema,
-});
+}).superRefine(refinePeopleSearchInput).transform(fillPairNames);
 
 export const tpsRouter = router({
   // 获取 TPS 配置（用户端）
@@ -100,49 +87,11 @@ export const tpsRouter = router({
     .input(tpsSearchInputSchema)
     .query(async ({ input }) => {
       const config = await getTpsConfig();
-      const searchCost = parseFloat(config.searchCost);
-      const detailCost = parseFloat(config.detailCost);
-      const maxPages = config.maxPages || 25;
-      
-      // 计算子任务数
-      let subTaskCount = 0;
-      if (input.mode === "nameOnly") {
-        subTaskCount = input.names.length;
-      } else {
-        const locations = input.locations || [""];
-        subTaskCount = input.names.length * locations.length;
-      }
-      
-      // 预估参数
-      const avgDetailsPerTask = 50;
-      
-      // 搜索页费用
-      const maxSearchPages = subTaskCount * maxPages;
-      const maxSearchCost = maxSearchPages * searchCost;
-      
-      // 详情页费用
-      const estimatedDetails = subTaskCount * avgDetailsPerTask;
-      const estimatedDetailCost = estimatedDetails * detailCost;
-      
-      // 总费用
-      const estimatedCost = maxSearchCost + estimatedDetailCost;
-      
-      return {
-        subTaskCount,
-        maxPages,
-        maxSearchPages,
-        maxSearchCost: Math.ceil(maxSearchCost * 10) / 10,
-        avgDetailsPerTask,
-        estimatedDetails,
-        estimatedDetailCost: Math.ceil(estimatedDetailCost * 10) / 10,
-        estimatedCost: Math.ceil(estimatedCost * 10) / 10,
-        searchCost,
-        detailCost,
-      };
+      return tpsProvider.estimateCost(input, toTpsRuntimeConfig(config));
     }),
 
   // 提交搜索任务 (v4.0 实时扣分版)
-  search: protectedProcedure
+  search: searchProcedure
     .input(tpsSearchInputSchema)
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
@@ -164,10 +113,9 @@ export const tpsRouter = router({
       }
       
       const searchCost = parseFloat(config.searchCost);
-      const detailCost = parseFloat(config.detailCost);
       
       // ==================== 实时扣分模式：只检查最低余额 ====================
-      const userCredits = await getUserCredits(userId);
+      const userCredits = await getAvailableCredits(userId);
       const minRequiredCredits = searchCost; // 至少能执行一次搜索页请求
       
       if (userCredits < minRequiredCredits) {
@@ -178,17 +126,26 @@ export const tpsRouter = router({
       }
       
       // 创建搜索任务
-      const task = await createTpsSearchTask({
+      const task = await tpsTaskStore.create({
         userId,
         mode: input.mode,
         names: input.names,
         locations: input.locations || [],
+        pairs: input.pairs,
         filters: input.filters || {},
-        maxPages: config.maxPages,
       });
       
-      // 异步执行搜索（实时扣分模式）
-      executeTpsSearchRealtimeDeduction(task.id, task.taskId, config, input, userId).catch(err => {
+      // 异步执行搜索（实时扣分模式，统一执行器，持有任务租约以便服务重启后恢复）
+      runTaskJob(
+        { source: "tps", taskId: task.taskId, taskDbId: task.id, userId, payload: input },
+        () => runPeopleSearchTask(
+          tpsProvider,
+          { taskDbId: task.id, taskId: task.taskId },
+          userId,
+          input,
+          toTpsRuntimeConfig(config)
+        )
+      ).catch(err => {
         console.error(`TPS 搜索任务 ${task.taskId} 执行失败:`, err);
       });
       
@@ -203,7 +160,7 @@ export const tpsRouter = router({
   getTaskStatus: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const task = await getTpsSearchTask(input.taskId);
+      const task = await tpsTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -212,7 +169,7 @@ export const tpsRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
@@ -245,7 +202,7 @@ export const tpsRouter = router({
       pageSize: z.number().min(10).max(100).default(50),
     }))
     .query(async ({ ctx, input }) => {
-      const task = await getTpsSearchTask(input.taskId);
+      const task = await tpsTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -254,14 +211,14 @@ export const tpsRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canViewUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
         });
       }
       
-      const results = await getTpsSearchResults(task.id, input.page, input.pageSize);
+      const results = await tpsResultStore.list(task.id, input.page, input.pageSize);
       
       return {
         results: results.data,
@@ -280,7 +237,7 @@ export const tpsRouter = router({
     }))
     .query(async ({ ctx, input }) => {
       const userId = ctx.user!.id;
-      const history = await getUserTpsSearchTasks(userId, input.page, input.pageSize);
+      const history = await tpsTaskStore.listByUsers(await getTeamUserIds(userId), input.page, input.pageSize);
       
       const tasksWithParsedCredits = history.data.map(task => ({
         ...task,
@@ -296,11 +253,11 @@ export const tpsRouter = router({
       };
     }),
 
-  // 导出结果为 CSV
-  exportResults: protectedProcedure
+  // 停止任务：已获取的结果保留，已发生的请求照常计费
+  stopTask: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const task = await getTpsSearchTask(input.taskId);
+      const task = await tpsTaskStore.getByTaskId(input.taskId);
       
       if (!task) {
         throw new TRPCError({
@@ -309,535 +266,106 @@ export const tpsRouter = router({
         });
       }
       
-      if (task.userId !== ctx.user!.id) {
+      if (!(await canManageUserResource(ctx.user!.id, task.userId))) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "无权访问此任务",
         });
       }
       
-      // 允许 completed 和 insufficient_credits 状态导出
-      if (task.status !== "completed" && task.status !== "insufficient_credits") {
+      if (task.status !== "running" && task.status !== "pending") {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "任务尚未完成，无法导出",
+          message: "只能停止运行中的任务",
         });
       }
       
-      const results = await getTpsSearchResults(task.id, 1, 10000);
+      // 标记任务为取消状态，并通知执行器停止派发新请求
+      await tpsProvider.store.cancel({ taskDbId: task.id, taskId: task.taskId });
+      signalPeopleSearchStop("tps", task.taskId);
       
-      // 电话号码格式化函数：转换为纯数字+前缀1格式
-      const formatPhone = (phone: string): string => {
-        if (!phone) return "";
-        // 移除所有非数字字符
-        const digits = phone.replace(/\D/g, "");
-        // 如果是10位数字，添加1前缀
-        if (digits.length === 10) {
-          return `1${digits}`;
-        }
-        // 如果是11位且以1开头，直接返回
-        if (digits.length === 11 && digits.startsWith("1")) {
-          return digits;
-        }
-        // 其他情况直接返回数字
-        return digits;
-      };
-      
-      // 从全名解析 firstName 和 lastName
-      const parseName = (fullName: string): { firstName: string; lastName: string } => {
-        if (!fullName) return { firstName: "", lastName: "" };
-        const parts = fullName.trim().split(/\s+/);
-        if (parts.length === 1) {
-          return { firstName: parts[0], lastName: "" };
-        }
-        // 第一个词是 firstName，最后一个词是 lastName
-        return { firstName: parts[0], lastName: parts[parts.length - 1] };
-      };
-      
-      // CSV 表头 - 精简版，删除重复冗余列
-      const headers = [
-        "姓名",
-        "年龄",
-        "地址",
-        "电话",
-        "电话类型",
-        "运营商",
-        "号码年份",
-        "房产价值",
-        "公司",
-        "职位",
-        "主邮箱",
-        "其他邮箱",
-        "婚姻状态",
-        "详情链接",
-        "数据来源",
-        "获取时间",
-      ];
-      
-      // CSV 数据行
-      const rows = results.data.map((r: any) => {
-        // 婚姻状态：有配偶显示配偶名字，无配偶显示"可能单身"
-        const maritalStatus = r.spouse ? r.spouse : "可能单身";
-        
-        // 从其他邮箱中剔除主邮箱
-        const primaryEmail = r.primaryEmail || "";
-        let otherEmails = r.email || "";
-        if (primaryEmail && otherEmails) {
-          // 将邮箱字符串分割成数组，过滤掉主邮箱，再重新组合
-          const emailList = otherEmails.split(",").map((e: string) => e.trim());
-          const filteredEmails = emailList.filter((e: string) => e.toLowerCase() !== primaryEmail.toLowerCase());
-          otherEmails = filteredEmails.join(", ");
-        }
-        
-        return [
-          r.name || "",
-          r.age?.toString() || "",
-          r.location || (r.city && r.state ? `${r.city}, ${r.state}` : ""),
-          formatPhone(r.phone || ""),
-          r.phoneType || "",
-          r.carrier || "",
-          r.reportYear?.toString() || "",
-          r.propertyValue?.toString() || "",
-          r.company || "",
-          r.jobTitle || "",
-          primaryEmail,
-          otherEmails,
-          maritalStatus,
-          r.detailLink ? `https://www.truepeoplesearch.com${r.detailLink}` : "",
-          "TruePeopleSearch",
-          new Date().toISOString().split("T")[0],
-        ];
-      });
-      
-      // 生成 CSV 内容
-      const BOM = "\uFEFF";
-      const csv = BOM + [
-        headers.join(","),
-        ...rows.map((row: string[]) => row.map((cell: string) => `"${cell.replace(/"/g, '""')}"`).join(","))
-      ].join("\n");
-      
-      return {
-        csv,
-        filename: `DataReach_TPS_${task.taskId}_${new Date().toISOString().split("T")[0]}.csv`,
-      };
+      return { success: true, message: "任务已停止，已获取的结果可正常导出" };
     }),
 
-  // ==================== 并发监控 API ====================
-  
-  // 获取并发统计信息
-  getConcurrencyStats: protectedProcedure.query(async () => {
-    return getConcurrencyStats();
-  }),
-
-  // 获取活跃任务列表
-  getActiveTasks: protectedProcedure.query(async () => {
-    return getActiveTasks();
-  }),
-});
-
-// ==================== 实时扣分模式搜索执行逻辑 (v4.0) ====================
-
-/**
- * 实时扣分模式执行搜索
- * 
- * 核心理念：用多少扣多少，扣完即停，有始有终
- * 
- * 特点：
- * 1. 每个 API 请求成功后立即扣除积分
- * 2. 积分不足时立即停止，返回已获取结果
- * 3. 不使用缓存命中，每次都获取最新数据
- * 4. 保存数据用于历史 CSV 导出
- */
-async function executeTpsSearchRealtimeDeduction(
-  taskDbId: number,
-  taskId: string,
-  config: any,
-  input: z.infer<typeof tpsSearchInputSchema>,
-  userId: number
-) {
-  // v8.0: 全局信号量已移除，并发由分批模式控制
-  console.log(`[TPS v8.0] 用户 ${userId} 开始任务`);
-  
-  const searchCost = parseFloat(config.searchCost);
-  const detailCost = parseFloat(config.detailCost);
-  const token = config.scrapeDoToken;
-  const maxPages = TPS_CONFIG.MAX_SAFE_PAGES;
-  
-  const logs: Array<{ timestamp: string; message: string }> = [];
-  const addLog = (message: string) => {
-    logs.push({ timestamp: new Date().toISOString(), message });
-  };
-  
-  // 创建实时积分跟踪器
-  const creditTracker = await createTpsRealtimeCreditTracker(
-    userId,
-    taskId,
-    searchCost,
-    detailCost
-  );
-  
-  // 构建子任务列表
-  const subTasks: Array<{ name: string; location: string; index: number }> = [];
-  
-  if (input.mode === "nameOnly") {
-    for (let i = 0; i < input.names.length; i++) {
-      subTasks.push({ name: input.names[i], location: "", index: i });
-    }
-  } else {
-    const locations = input.locations && input.locations.length > 0 
-      ? input.locations 
-      : [""];
-    let index = 0;
-    for (const name of input.names) {
-      for (const location of locations) {
-        subTasks.push({ name, location, index: index++ });
-      }
-    }
-  }
-  
-  // 启动日志（简洁专业版，参考 SPF 风格）
-  addLog(`🚀 TPS 搜索任务启动`);
-  addLog(`📋 搜索组合: ${subTasks.length} 个任务`);
-  if (input.mode === 'nameLocation' && input.locations) {
-    addLog(`📋 搜索: ${input.names.join(', ')} @ ${input.locations.join(', ')}`);
-  } else {
-    addLog(`📋 搜索: ${input.names.join(', ')}`);
-  }
-  
-  // 显示过滤条件
-  const filters = input.filters || {};
-  addLog(`📋 过滤条件: 年龄 ${filters.minAge || 50}-${filters.maxAge || 79} 岁`);
-  
-  // 更新任务状态
-  await updateTpsSearchTaskProgress(taskDbId, {
-    status: "running",
-    totalSubTasks: subTasks.length,
-    logs,
-  });
-  emitTaskProgress(userId, taskId, "tps", { status: "running", totalSubTasks: subTasks.length, logs });
-  
-  // 统计
-  let totalSearchPages = 0;
-  let totalDetailPages = 0;
-  let totalResults = 0;
-  let totalFilteredOut = 0;
-  let totalSkippedDeceased = 0;
-  let stoppedDueToCredits = false;
-  
-  // 缓存保存函数（只保存，不读取）
-  const setCachedDetails = async (items: Array<{ link: string; data: TpsDetailResult }>) => {
-    const cacheDays = config.cacheDays || 180;
-    await saveTpsDetailCache(items, cacheDays);
-  };
-  
-  // 用于跨任务电话号码去重
-  const seenPhones = new Set<string>();
-  
-  try {
-    // ==================== 阶段一：并发搜索（实时扣费） ====================
-    addLog(`📋 阶段一：开始搜索...`);
-    
-    // 收集所有详情任务
-    const allDetailTasks: DetailTaskWithIndex[] = [];
-    const subTaskResults: Map<number, { searchResults: TpsSearchResult[]; searchPages: number }> = new Map();
-    
-    let completedSearches = 0;
-    
-    // 并发执行搜索
-    const searchQueue = [...subTasks];
-    
-    const processSearch = async (subTask: { name: string; location: string; index: number }) => {
-      // 检查是否因积分不足而停止
-      if (stoppedDueToCredits) {
-        return;
-      }
+  // 继续执行失败或积分不足的任务：只执行未完成的子任务，只对新增请求扣费
+  resumeTask: searchProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+      const task = await tpsTaskStore.getByTaskId(input.taskId);
       
-      // 检查是否有足够积分执行搜索
-      const canAfford = await creditTracker.canAffordSearchPage();
-      if (!canAfford) {
-        stoppedDueToCredits = true;
-        addLog(`⚠️ 积分不足，停止搜索阶段`);
-        return;
+      if (!task) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "任务不存在",
+        });
       }
       
-      const result = await searchOnly(
-        subTask.name,
-        subTask.location,
-        token,
-        maxPages,
-        input.filters || {},
-        (msg) => addLog(`[${subTask.index + 1}/${subTasks.length}] ${msg}`)
-      );
-      
-      completedSearches++;
-      
-      if (result.success) {
-        // 实时扣除搜索页费用
-        for (let i = 0; i < result.stats.searchPageRequests; i++) {
-          const deductResult = await creditTracker.deductSearchPage();
-          if (!deductResult.success) {
-            stoppedDueToCredits = true;
-            addLog(`⚠️ 积分不足，停止搜索`);
-            break;
-          }
-        }
-        
-        totalSearchPages += result.stats.searchPageRequests;
-        totalFilteredOut += result.stats.filteredOut;
-        totalSkippedDeceased += result.stats.skippedDeceased || 0;
-        
-        // 保存搜索结果
-        subTaskResults.set(subTask.index, {
-          searchResults: result.searchResults,
-          searchPages: result.stats.searchPageRequests,
+      if (!(await canManageUserResource(userId, task.userId))) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "无权访问此任务",
         });
-        
-        // 收集详情任务
-        for (const searchResult of result.searchResults) {
-          allDetailTasks.push({
-            searchResult,
-            subTaskIndex: subTask.index,
-            name: subTask.name,
-            location: subTask.location,
-          });
-        }
-        
-        const taskName = subTask.location ? `${subTask.name} @ ${subTask.location}` : subTask.name;
-        addLog(`✅ [${subTask.index + 1}/${subTasks.length}] ${taskName} - ${result.searchResults.length} 条结果, ${result.stats.searchPageRequests} 页`);
-      } else {
-        addLog(`❌ [${subTask.index + 1}/${subTasks.length}] 搜索失败: ${result.error}`);
       }
       
-      // 更新进度
-      const searchProgress = Math.round((completedSearches / subTasks.length) * 30);
-      await updateTpsSearchTaskProgress(taskDbId, {
-        completedSubTasks: completedSearches,
-        progress: searchProgress,
-        searchPageRequests: totalSearchPages,
-        creditsUsed: creditTracker.getTotalDeducted(),
-        logs,
-      });
-      emitTaskProgress(userId, taskId, "tps", { progress: searchProgress, completedSubTasks: completedSearches, totalSubTasks: subTasks.length, creditsUsed: creditTracker.getTotalDeducted(), logs });
-      emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getTotalDeducted(), source: "tps", taskId });
-    };
-    
-    // 并发执行搜索
-    const runConcurrentSearches = async () => {
-      let currentIndex = 0;
-      
-      const runNext = async (): Promise<void> => {
-        while (currentIndex < searchQueue.length && !stoppedDueToCredits) {
-          const task = searchQueue[currentIndex++];
-          await processSearch(task);
-        }
-      };
-      
-      const workers = Math.min(SEARCH_CONCURRENCY, searchQueue.length);
-      const workerPromises: Promise<void>[] = [];
-      for (let i = 0; i < workers; i++) {
-        workerPromises.push(runNext());
+      if (task.status !== "failed" && task.status !== "insufficient_credits") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能继续失败或积分不足的任务",
+        });
       }
       
-      await Promise.all(workerPromises);
-    };
-    
-    await runConcurrentSearches();
-    
-    // 搜索阶段完成日志（简洁版）
-    addLog(`✅ 搜索完成: ${totalSearchPages} 页, 找到 ${allDetailTasks.length} 条待获取`);
-    
-    if (stoppedDueToCredits) {
-      addLog(`⚠️ 积分不足，停止搜索`);
-    }
-    
-    // ==================== 阶段二：智能并发池获取详情（v7.0 全局弹性并发 + 实时进度推送） ====================
-    if (allDetailTasks.length > 0 && !stoppedDueToCredits) {
-      addLog(`\ud83d\udccb 开始获取详情...`);
-      
-      // v7.0: 详情进度回调 — 每完成一批就更新数据库和推送WS
-      let lastDetailProgressPush = 0; // 防止推送过于频繁
-      const onDetailProgress = (info: DetailProgressInfo) => {
-        const now = Date.now();
-        // 每2秒最多推送一次，或者是最后一条
-        if (now - lastDetailProgressPush < 2000 && info.completedDetails < info.totalDetails) return;
-        lastDetailProgressPush = now;
-        
-        // 详情阶段进度占 30%-95%
-        const detailProgress = 30 + Math.round(info.percent * 0.65);
-        const phase = info.phase === 'retrying' ? '重试中' : '获取详情';
-        
-        // v7.2: 使用 fire-and-forget 模式，避免阻塞并发池的 onStats 回调
-        // 数据库更新和WS推送异步执行，失败不影响主流程
-        updateTpsSearchTaskProgress(taskDbId, {
-          progress: detailProgress,
-          searchPageRequests: totalSearchPages,
-          creditsUsed: creditTracker.getTotalDeducted(),
-          logs,
-        }).catch(err => console.error('[TPS] 详情进度更新DB失败:', err));
-        
-        // WS推送是同步的，不会抛异常
-        emitTaskProgress(userId, taskId, "tps", {
-          progress: detailProgress,
-          phase,
-          completedDetails: info.completedDetails,
-          totalDetails: info.totalDetails,
-          creditsUsed: creditTracker.getTotalDeducted(),
-          logs,
+      const config = await getTpsConfig();
+      if (!config.enabled) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "TruePeopleSearch 功能暂未开放",
         });
-        emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getTotalDeducted(), source: "tps", taskId });
-      };
-      
-      // 使用智能并发池获取详情
-      const detailResult = await fetchDetailsWithSmartPool(
-        allDetailTasks,
-        token,
-        input.filters || {},
-        addLog,
-        setCachedDetails,
-        creditTracker,
-        userId,
-        onDetailProgress
-      );
-      
-      totalDetailPages += detailResult.stats.detailPageRequests;
-      totalFilteredOut += detailResult.stats.filteredOut;
-      
-      // 检查是否因积分不足停止
-      if (detailResult.stats.stoppedDueToCredits || creditTracker.isStopped()) {
-        stoppedDueToCredits = true;
       }
       
-      // 按子任务分组保存结果
-      const resultsBySubTask = new Map<number, TpsDetailResult[]>();
-      
-      for (const { task, details } of detailResult.results) {
-        if (!resultsBySubTask.has(task.subTaskIndex)) {
-          resultsBySubTask.set(task.subTaskIndex, []);
-        }
-        
-        // 跨任务电话号码去重
-        for (const detail of details) {
-          if (detail.phone && seenPhones.has(detail.phone)) {
-            continue;
-          }
-          if (detail.phone) {
-            seenPhones.add(detail.phone);
-          }
-          resultsBySubTask.get(task.subTaskIndex)!.push(detail);
-        }
+      if (!config.scrapeDoToken) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "系统配置错误，请联系管理员",
+        });
       }
       
-      // 保存结果到数据库
-      for (const [subTaskIndex, results] of Array.from(resultsBySubTask.entries())) {
-        const subTask = subTasks.find(t => t.index === subTaskIndex);
-        if (subTask && results.length > 0) {
-          await saveTpsSearchResults(taskDbId, subTaskIndex, subTask.name, subTask.location, results);
-          totalResults += results.length;
-        }
+      const runtimeConfig = toTpsRuntimeConfig(config);
+      // 团队管理员继续成员的任务时，仍按任务发起人扣费
+      const userCredits = await getAvailableCredits(task.userId);
+      if (userCredits < runtimeConfig.searchCost) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `积分不足，至少需要 ${runtimeConfig.searchCost.toFixed(1)} 积分才能继续任务，当前余额 ${userCredits.toFixed(1)} 积分`,
+        });
       }
-    }
-    
-    // 更新最终进度
-    await updateTpsSearchTaskProgress(taskDbId, {
-      progress: 100,
-      totalResults,
-      searchPageRequests: totalSearchPages,
-      detailPageRequests: totalDetailPages,
-      cacheHits: 0, // 不再使用缓存命中
-      creditsUsed: creditTracker.getTotalDeducted(),
-      logs,
-    });
-    emitTaskProgress(userId, taskId, "tps", { progress: 100, totalResults, creditsUsed: creditTracker.getTotalDeducted(), logs });
-    emitCreditsUpdate(userId, { newBalance: creditTracker.getCurrentBalance(), deductedAmount: creditTracker.getTotalDeducted(), source: "tps", taskId });
-    
-    // 记录 API 日志
-    await logApi({
-      userId,
-      apiType: "scrape_tps",
-      endpoint: "fullSearch",
-      requestParams: { names: input.names.length, mode: input.mode },
-      responseStatus: 200,
-      success: true,
-      creditsUsed: creditTracker.getTotalDeducted(),
-    });
-    
-    // 生成费用明细
-    const costBreakdown = creditTracker.getCostBreakdown();
-    const costLines = formatTpsCostBreakdown(
-      costBreakdown,
-      creditTracker.getCurrentBalance(),
-      totalResults,
-      searchCost,
-      detailCost
-    );
-    
-    for (const line of costLines) {
-      addLog(line);
-    }
-    
-    // 完成任务
-    const finalStatus = stoppedDueToCredits ? "insufficient_credits" : "completed";
-    
-    if (stoppedDueToCredits) {
-      addLog(`⚠️ 任务因积分不足提前结束`);
       
-      // 更新任务状态为 insufficient_credits
-      const database = await getDb();
-      if (database) {
-        await database.update(tpsSearchTasks).set({
-          status: "insufficient_credits",
-          totalResults,
-          searchPageRequests: totalSearchPages,
-          detailPageRequests: totalDetailPages,
-          cacheHits: 0,
-          creditsUsed: creditTracker.getTotalDeducted().toFixed(2),
-          logs,
-          completedAt: new Date(),
-        }).where(eq(tpsSearchTasks.id, taskDbId));
-      }
-    } else {
-      await completeTpsSearchTask(taskDbId, {
-        totalResults,
-        searchPageRequests: totalSearchPages,
-        detailPageRequests: totalDetailPages,
-        cacheHits: 0,
-        creditsUsed: creditTracker.getTotalDeducted(),
-        logs,
-      });
-    }
-    emitTaskCompleted(userId, taskId, "tps", { totalResults, creditsUsed: creditTracker.getTotalDeducted(), status: stoppedDueToCredits ? "insufficient_credits" : "completed" });
+      const { remainingSubTasks } = await resumePeopleSearchTask(
+        tpsProvider,
+        { taskDbId: task.id, taskId: task.taskId },
+        task.userId,
+        {
+          names: task.names,
+          locations: task.locations || [],
+          pairs: task.pairs ?? undefined,
+          mode: task.mode,
+          filters: task.filters || {},
+        },
+        runtimeConfig
+      );
+      
+      return { success: true, message: "任务已继续执行，只对新增请求扣费", remainingSubTasks };
+    }),
 
-    console.log(`[TPS v8.0] 用户 ${userId} 任务完成`);
+  // ==================== 并发监控 API ====================
+  
+  // 获取并发统计信息
+  getConcurrencyStats: protectedProcedure.query(async () => {
+    return getConcurrencyStats();
+  }),
 
-    // 记录用户活动日志
-    await logUserActivity({
-      userId,
-      action: 'TPS搜索',
-      details: `搜索${stoppedDueToCredits ? '(积分不足停止)' : '完成'}: ${input.names.length}个姓名, ${totalResults}条结果, 消耗${creditTracker.getTotalDeducted().toFixed(1)}积分`,
-      ipAddress: undefined,
-      userAgent: undefined
-    });
-    
-  } catch (error: any) {
-    addLog(`\u274c 任务失败: ${error.message}`);
-    
-    // 获取已消耗的费用
-    const costBreakdown = creditTracker.getCostBreakdown();
-    
-    await failTpsSearchTask(taskDbId, error.message, logs);
-    emitTaskFailed(userId, taskId, "tps", { error: error.message, creditsUsed: creditTracker.getTotalDeducted() });
-    
-    console.log(`[TPS v8.0] 用户 ${userId} 任务失败`);
-    
-    await logApi({
-      userId,
-      apiType: "scrape_tps",
-      endpoint: "fullSearch",
-      requestParams: { names: input.names.length, mode: input.mode },
-      responseStatus: 500,
-      success: false,
-      errorMessage: error.message,
-      creditsUsed: creditTracker.getTotalDeducted(),
-    });
-  }
-}
+  // 获取活跃任务列表
+  getActiveTasks: protectedProcedure.query(async () => {
+    return getActiveTasks();
+  }),
+});
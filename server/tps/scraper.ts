@@ -103,7 +103,7 @@ export interface DetailTask {
 /**
  * 构建搜索 URL
  */
-function buildSearchUrl(name: string, location: string, page: number): string {
+export function buildSearchUrl(name: string, location: string, page: number = 1): string {
   const baseUrl = 'https://www.truepeoplesearch.com/results';
   const params = new URLSearchParams();
   params.set('name', name);
@@ -681,7 +681,7 @@ export interface SearchOnlyResult {
  * [OPTIMIZED] 仅执行搜索，并发获取所有页面
  * 
  * v8.0: 移除 userId 参数（不再需要全局信号量）
- * 搜索阶段的并发由 router.ts 中的 SEARCH_CONCURRENCY 控制
+ * 搜索阶段的并发由 provider.ts 中的 searchConcurrency 控制
  */
 export async function searchOnly(
   name: string,
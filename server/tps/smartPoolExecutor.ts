@@ -24,7 +24,7 @@ import {
   shouldIncludeResult,
   fetchWithScrapedo,
 } from './scraper';
-import { TpsRealtimeCreditTracker } from './realtimeCredits';
+import { PeopleSearchCreditTracker } from '../peopleSearch/realtimeCredits';
 
 // ============================================================================
 // v8.0 分批配置
@@ -88,6 +88,7 @@ export interface DetailProgressInfo {
  * - 单个请求失败不影响同批次其他请求
  * - 所有批次完成后统一进行延后重试
  * - onDetailProgress 回调在每个请求完成后触发，保持前端实时更新
+ * - 积分追踪器停止（用户停止任务）后不再派发新批次和重试
  */
 export async function fetchDetailsWithSmartPool(
   tasks: DetailTaskWithIndex[],
@@ -95,7 +96,7 @@ export async function fetchDetailsWithSmartPool(
   filters: TpsFilters,
   onProgress: (message: string) => void,
   setCachedDetails: (items: Array<{ link: string; data: TpsDetailResult }>) => Promise<void>,
-  creditTracker: TpsRealtimeCreditTracker,
+  creditTracker: PeopleSearchCreditTracker,
   userId: number,
   onDetailProgress?: (info: DetailProgressInfo) => void
 ): Promise<SmartPoolFetchResult> {
@@ -158,6 +159,11 @@ export async function fetchDetailsWithSmartPool(
   
   for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
     if (stoppedDueToCredits) break;
+    // 用户停止任务：不再派发新批次，已返回的结果照常扣费和保存
+    if (!creditTracker.canContinue()) {
+      onProgress(`⏹️ 任务已停止，不再获取剩余详情`);
+      break;
+    }
     
     const batchStart = batchIndex * BATCH_CONFIG.BATCH_SIZE;
     const batchLinks = linksToFetch.slice(batchStart, batchStart + BATCH_CONFIG.BATCH_SIZE);
@@ -241,7 +247,7 @@ export async function fetchDetailsWithSmartPool(
     }
     
     // 批间延迟（最后一批不需要延迟）
-    if (batchIndex < totalBatches - 1 && !stoppedDueToCredits) {
+    if (batchIndex < totalBatches - 1 && !stoppedDueToCredits && creditTracker.canContinue()) {
       await new Promise(resolve => setTimeout(resolve, BATCH_CONFIG.BATCH_DELAY_MS));
     }
   }
@@ -251,7 +257,7 @@ export async function fetchDetailsWithSmartPool(
   let retrySuccess = 0;
   const retryTotal = failedLinks.length;
   
-  if (failedLinks.length > 0 && !stoppedDueToCredits) {
+  if (failedLinks.length > 0 && !stoppedDueToCredits && creditTracker.canContinue()) {
     onProgress(`🔄 开始延后重试 ${failedLinks.length} 个失败链接 (等待 ${BATCH_CONFIG.RETRY_DELAY_MS}ms)...`);
     console.log(`[TPS v8.0] 延后重试: ${failedLinks.length} 个失败链接`);
     
@@ -262,7 +268,7 @@ export async function fetchDetailsWithSmartPool(
     const retryBatches = Math.ceil(failedLinks.length / BATCH_CONFIG.RETRY_BATCH_SIZE);
     
     for (let ri = 0; ri < retryBatches; ri++) {
-      if (stoppedDueToCredits) break;
+      if (stoppedDueToCredits || !creditTracker.canContinue()) break;
       
       const retryBatchStart = ri * BATCH_CONFIG.RETRY_BATCH_SIZE;
       const retryBatchLinks = failedLinks.slice(retryBatchStart, retryBatchStart + BATCH_CONFIG.RETRY_BATCH_SIZE);
@@ -0,0 +1,206 @@
+/**
+ * 两步验证数据库操作
+ *
+ * 用户（可选开启）与管理员（强制开启）共用 two_factor_credentials 表，按 subject 区分：
+ * 用户为 user:<userId>，管理员为 admin:<username>
+ */
+
+import { getDb } from "../db";
+import { twoFactorCredentials, loginLogs, adminLogs } from "../../drizzle/schema";
+import { eq, and, gte, sql } from "drizzle-orm";
+import {
+  generateTotpSecret,
+  matchTotpCode,
+  generateBackupCodes,
+  hashBackupCode,
+  looksLikeBackupCode,
+} from "./totp";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 失败次数统计窗口 */
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+/** 窗口内允许的验证码错误次数，超出后暂时锁定 */
+export const MAX_TWO_FACTOR_FAILURES = 5;
+
+/** 登录日志与管理员日志中记录验证码错误所用的标记 */
+export const TWO_FACTOR_FAIL_REASON = "两步验证码错误";
+export const ADMIN_TWO_FACTOR_FAILED_ACTION = "admin_2fa_failed";
+
+export const userSubject = (userId: number) => `user:${userId}`;
+export const adminSubject = (username: string) => `admin:${username}`;
+
+export type TwoFactorMatch = "totp" | "backup";
+
+async function getCredential(subject: string) {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(twoFactorCredentials)
+    .where(eq(twoFactorCredentials.subject, subject))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * 两步验证状态
+ */
+export async function getTwoFactorStatus(subject: string) {
+  const credential = await getCredential(subject);
+  return {
+    enabled: !!credential?.secret,
+    enabledAt: credential?.enabledAt ?? null,
+    backupCodesRemaining: credential?.secret ? (credential.backupCodes ?? []).length : 0,
+  };
+}
+
+/**
+ * 是否已开启两步验证
+ */
+export async function isTwoFactorEnabled(subject: string): Promise<boolean> {
+  const credential = await getCredential(subject);
+  return !!credential?.secret;
+}
+
+/**
+ * 开始绑定：生成待验证的密钥（已开启时不影响现有密钥）
+ */
+export async function beginTwoFactorSetup(subject: string): Promise<string> {
+  const database = await db();
+  const pendingSecret = generateTotpSecret();
+  await database
+    .insert(twoFactorCredentials)
+    .values({ subject, pendingSecret })
+    .onDuplicateKeyUpdate({ set: { pendingSecret } });
+  return pendingSecret;
+}
+
+/**
+ * 完成绑定：用待验证密钥校验验证码，成功后启用并返回明文备用恢复码（仅此一次）
+ */
+export async function confirmTwoFactorSetup(subject: string, code: string): Promise<string[] | null> {
+  const credential = await getCredential(subject);
+  if (!credential?.pendingSecret) return null;
+
+  const step = matchTotpCode(credential.pendingSecret, code, null);
+  if (step === null) return null;
+
+  const backupCodes = generateBackupCodes();
+  const database = await db();
+  await database
+    .update(twoFactorCredentials)
+    .set({
+      secret: credential.pendingSecret,
+      pendingSecret: null,
+      backupCodes: backupCodes.map(hashBackupCode),
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    })
+    .where(eq(twoFactorCredentials.id, credential.id));
+  return backupCodes;
+}
+
+/**
+ * 校验验证码或备用恢复码；备用恢复码使用后作废，验证码的时间步记录下来防止重放
+ */
+export async function verifyTwoFactorCode(subject: string, code: string): Promise<TwoFactorMatch | null> {
+  const credential = await getCredential(subject);
+  if (!credential?.secret) return null;
+  const database = await db();
+
+  if (looksLikeBackupCode(code)) {
+    const hashed = hashBackupCode(code);
+    if (!(credential.backupCodes ?? []).includes(hashed)) return null;
+
+    // 在数据库中移除该码并以其仍存在为条件，并发提交同一备用恢复码时只有一个成功
+    const result = await database
+      .update(twoFactorCredentials)
+      .set({
+        backupCodes: sql`JSON_REMOVE(${twoFactorCredentials.backupCodes}, JSON_UNQUOTE(JSON_SEARCH(${twoFactorCredentials.backupCodes}, 'one', ${hashed})))`,
+      })
+      .where(and(
+        eq(twoFactorCredentials.id, credential.id),
+        sql`JSON_CONTAINS(${twoFactorCredentials.backupCodes}, JSON_QUOTE(${hashed}))`
+      ));
+    return result[0].affectedRows > 0 ? "backup" : null;
+  }
+
+  const step = matchTotpCode(credential.secret, code, credential.lastUsedStep);
+  if (step === null) return null;
+
+  // 条件更新，并发提交同一验证码时只有一个成功
+  const result = await database
+    .update(twoFactorCredentials)
+    .set({ lastUsedStep: step })
+    .where(and(
+      eq(twoFactorCredentials.id, credential.id),
+      sql`(${twoFactorCredentials.lastUsedStep} IS NULL OR ${twoFactorCredentials.lastUsedStep} < ${step})`
+    ));
+  return result[0].affectedRows > 0 ? "totp" : null;
+}
+
+/**
+ * 重新生成备用恢复码，旧码全部作废
+ */
+export async function regenerateBackupCodes(subject: string): Promise<string[] | null> {
+  const credential = await getCredential(subject);
+  if (!credential?.secret) return null;
+  const backupCodes = generateBackupCodes();
+  const database = await db();
+  await database
+    .update(twoFactorCredentials)
+    .set({ backupCodes: backupCodes.map(hashBackupCode) })
+    .where(eq(twoFactorCredentials.id, credential.id));
+  return backupCodes;
+}
+
+/**
+ * 关闭两步验证（删除密钥和备用恢复码）
+ */
+export async function disableTwoFactor(subject: string): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .delete(twoFactorCredentials)
+    .where(eq(twoFactorCredentials.subject, subject));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 用户最近的验证码错误次数（来自 login_logs）
+ */
+export async function countRecentUserTwoFactorFailures(userId: number): Promise<number> {
+  const database = await db();
+  const rows = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(loginLogs)
+    .where(and(
+      eq(loginLogs.userId, userId),
+      eq(loginLogs.success, false),
+      eq(loginLogs.failReason, TWO_FACTOR_FAIL_REASON),
+      gte(loginLogs.createdAt, new Date(Date.now() - FAILURE_WINDOW_MS))
+    ));
+  return Number(rows[0]?.count) || 0;
+}
+
+/**
+ * 管理员最近的验证码错误次数（来自 admin_logs）
+ */
+export async function countRecentAdminTwoFactorFailures(username: string): Promise<number> {
+  const database = await db();
+  const rows = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(adminLogs)
+    .where(and(
+      eq(adminLogs.adminUsername, username),
+      eq(adminLogs.action, ADMIN_TWO_FACTOR_FAILED_ACTION),
+      gte(adminLogs.createdAt, new Date(Date.now() - FAILURE_WINDOW_MS))
+    ));
+  return Number(rows[0]?.count) || 0;
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Request } from "express";
+import { TWO_FACTOR_REQUIRED_ERR_MSG } from "@shared/const";
+
+vi.mock("../db", () => ({
+  logLogin: vi.fn(),
+  logUserActivity: vi.fn(),
+}));
+
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  isTwoFactorEnabled: vi.fn(),
+  verifyTwoFactorCode: vi.fn(),
+  countRecentUserTwoFactorFailures: vi.fn(),
+}));
+
+import * as appDb from "../db";
+import * as twoFactorDb from "./db";
+import { requireUserTwoFactor } from "./guard";
+
+const { logLogin, logUserActivity } = vi.mocked(appDb);
+const { isTwoFactorEnabled, verifyTwoFactorCode, countRecentUserTwoFactorFailures } = vi.mocked(twoFactorDb);
+
+const USER_ID = 42;
+const req = { headers: { "user-agent": "vitest" }, socket: { remoteAddress: "203.0.113.5" } } as unknown as Request;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  isTwoFactorEnabled.mockResolvedValue(true);
+  countRecentUserTwoFactorFailures.mockResolvedValue(0);
+});
+
+describe("requireUserTwoFactor", () => {
+  it("passes without a code when two-factor is off", async () => {
+    isTwoFactorEnabled.mockResolvedValue(false);
+
+    expect(await requireUserTwoFactor(USER_ID, undefined, req)).toBeNull();
+    expect(isTwoFactorEnabled).toHaveBeenCalledWith(`user:${USER_ID}`);
+  });
+
+  it("asks for a code when two-factor is on", async () => {
+    await expect(requireUserTwoFactor(USER_ID, undefined, req)).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+      message: TWO_FACTOR_REQUIRED_ERR_MSG,
+    });
+    expect(verifyTwoFactorCode).not.toHaveBeenCalled();
+  });
+
+  it("accepts a code the credential store verifies", async () => {
+    verifyTwoFactorCode.mockResolvedValue("totp");
+
+    expect(await requireUserTwoFactor(USER_ID, "123456", req)).toBe("totp");
+    expect(verifyTwoFactorCode).toHaveBeenCalledWith(`user:${USER_ID}`, "123456");
+    expect(logLogin).not.toHaveBeenCalled();
+  });
+
+  it("rejects a replayed or wrong code and logs the failure", async () => {
+    verifyTwoFactorCode.mockResolvedValueOnce("totp").mockResolvedValueOnce(null);
+
+    await requireUserTwoFactor(USER_ID, "123456", req);
+    await expect(requireUserTwoFactor(USER_ID, "123456", req, "device-1")).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+      message: "两步验证码错误",
+    });
+    expect(logLogin).toHaveBeenCalledWith(USER_ID, "device-1", "203.0.113.5", "vitest", false, twoFactorDb.TWO_FACTOR_FAIL_REASON);
+  });
+
+  it("records the use of a backup code", async () => {
+    verifyTwoFactorCode.mockResolvedValue("backup");
+
+    expect(await requireUserTwoFactor(USER_ID, "aaaaa-bbbbb", req)).toBe("backup");
+    expect(logUserActivity).toHaveBeenCalledWith(expect.objectContaining({ userId: USER_ID, action: "使用备用恢复码" }));
+  });
+
+  it("locks out after too many recent failures without checking the code", async () => {
+    countRecentUserTwoFactorFailures.mockResolvedValue(twoFactorDb.MAX_TWO_FACTOR_FAILURES);
+
+    await expect(requireUserTwoFactor(USER_ID, "123456", req)).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+    });
+    expect(verifyTwoFactorCode).not.toHaveBeenCalled();
+  });
+});
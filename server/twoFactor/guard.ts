@@ -0,0 +1,71 @@
+/**
+ * 敏感操作的两步验证校验
+ *
+ * 用户开启两步验证后，登录、修改密码、关闭两步验证等操作都需要验证码或备用恢复码；
+ * 每次错误记入 login_logs，15 分钟内错误过多时暂时锁定
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { Request } from "express";
+import { TWO_FACTOR_REQUIRED_ERR_MSG } from "@shared/const";
+import { logLogin, logUserActivity } from "../db";
+import {
+  userSubject,
+  isTwoFactorEnabled,
+  verifyTwoFactorCode,
+  countRecentUserTwoFactorFailures,
+  MAX_TWO_FACTOR_FAILURES,
+  TWO_FACTOR_FAIL_REASON,
+  TwoFactorMatch,
+} from "./db";
+
+/**
+ * 请求来源（IP、User-Agent）
+ */
+export function getRequestOrigin(req: Request) {
+  return {
+    ipAddress: req.headers["x-forwarded-for"] as string || req.socket?.remoteAddress || null,
+    userAgent: req.headers["user-agent"] || null,
+  };
+}
+
+/**
+ * 校验用户的两步验证码；未开启两步验证时直接通过
+ *
+ * 未提供验证码时抛出 TWO_FACTOR_REQUIRED_ERR_MSG，前端据此显示验证码输入框
+ *
+ * @returns 未开启时为 null，否则为匹配方式（验证码或备用恢复码）
+ */
+export async function requireUserTwoFactor(
+  userId: number,
+  code: string | undefined,
+  req: Request,
+  deviceId: string | null = null
+): Promise<TwoFactorMatch | null> {
+  if (!(await isTwoFactorEnabled(userSubject(userId)))) return null;
+
+  if (!code) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: TWO_FACTOR_REQUIRED_ERR_MSG });
+  }
+
+  if (await countRecentUserTwoFactorFailures(userId) >= MAX_TWO_FACTOR_FAILURES) {
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "验证码错误次数过多，请 15 分钟后再试" });
+  }
+
+  const { ipAddress, userAgent } = getRequestOrigin(req);
+  const match = await verifyTwoFactorCode(userSubject(userId), code);
+  if (!match) {
+    await logLogin(userId, deviceId, ipAddress, userAgent, false, TWO_FACTOR_FAIL_REASON);
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "两步验证码错误" });
+  }
+
+  if (match === "backup") {
+    await logUserActivity({
+      userId,
+      action: '使用备用恢复码',
+      ipAddress: ipAddress ?? undefined,
+      userAgent: userAgent ?? undefined,
+    });
+  }
+  return match;
+}
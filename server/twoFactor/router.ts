@@ -0,0 +1,105 @@
+/**
+ * 用户两步验证 tRPC 路由
+ *
+ * 绑定流程：beginSetup 生成密钥（前端显示二维码）→ confirmSetup 校验第一个验证码后启用，
+ * 同时返回一次性的备用恢复码。丢失验证器时可用备用恢复码登录，或联系管理员重置
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import bcrypt from "bcryptjs";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getUserById, logUserActivity } from "../db";
+import {
+  userSubject,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  regenerateBackupCodes,
+  disableTwoFactor,
+} from "./db";
+import { buildOtpauthUrl } from "./totp";
+import { requireUserTwoFactor, getRequestOrigin } from "./guard";
+
+const codeSchema = z.string().trim().min(6, "请输入验证码").max(20);
+
+export const twoFactorRouter = router({
+  // 当前账号的两步验证状态
+  status: protectedProcedure.query(async ({ ctx }) => {
+    return getTwoFactorStatus(userSubject(ctx.user!.id));
+  }),
+
+  // 开始绑定验证器
+  beginSetup: protectedProcedure.mutation(async ({ ctx }) => {
+    const subject = userSubject(ctx.user!.id);
+    if (await isTwoFactorEnabled(subject)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "两步验证已开启" });
+    }
+    const secret = await beginTwoFactorSetup(subject);
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, ctx.user!.email),
+    };
+  }),
+
+  // 输入验证器上的第一个验证码完成绑定
+  confirmSetup: protectedProcedure
+    .input(z.object({ code: codeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const subject = userSubject(ctx.user!.id);
+      if (await isTwoFactorEnabled(subject)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "两步验证已开启" });
+      }
+      const backupCodes = await confirmTwoFactorSetup(subject, input.code);
+      if (!backupCodes) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "验证码错误，请确认手机时间准确后重试" });
+      }
+
+      const { ipAddress, userAgent } = getRequestOrigin(ctx.req);
+      await logUserActivity({
+        userId: ctx.user!.id,
+        action: '开启两步验证',
+        ipAddress: ipAddress ?? undefined,
+        userAgent: userAgent ?? undefined,
+      });
+      return { backupCodes };
+    }),
+
+  // 重新生成备用恢复码
+  regenerateBackupCodes: protectedProcedure
+    .input(z.object({ code: codeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await requireUserTwoFactor(ctx.user!.id, input.code, ctx.req))) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "尚未开启两步验证" });
+      }
+      const backupCodes = await regenerateBackupCodes(userSubject(ctx.user!.id));
+      return { backupCodes: backupCodes ?? [] };
+    }),
+
+  // 关闭两步验证（需要密码和验证码）
+  disable: protectedProcedure
+    .input(z.object({
+      password: z.string().min(1, "请输入密码"),
+      code: codeSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await getUserById(ctx.user!.id);
+      if (!user?.passwordHash || !(await bcrypt.compare(input.password, user.passwordHash))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "密码错误" });
+      }
+      if (!(await requireUserTwoFactor(user.id, input.code, ctx.req))) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "尚未开启两步验证" });
+      }
+
+      await disableTwoFactor(userSubject(user.id));
+      const { ipAddress, userAgent } = getRequestOrigin(ctx.req);
+      await logUserActivity({
+        userId: user.id,
+        action: '关闭两步验证',
+        ipAddress: ipAddress ?? undefined,
+        userAgent: userAgent ?? undefined,
+      });
+      return { success: true };
+    }),
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  currentTotpStep,
+  generateBackupCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  hashBackupCode,
+  looksLikeBackupCode,
+  matchTotpCode,
+} from "./totp";
+
+// RFC 6238 附录 B 的 SHA1 密钥 "12345678901234567890"（ASCII）的 Base32 形式
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("generateTotpCode", () => {
+  // RFC 给出 8 位验证码，6 位验证码取其末 6 位
+  it.each([
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"],
+  ])("matches the RFC 6238 vector at T=%i", (seconds, rfcCode) => {
+    const step = currentTotpStep(seconds * 1000);
+    expect(generateTotpCode(RFC_SECRET, step)).toBe(rfcCode.slice(-6));
+  });
+
+  it("accepts secrets with lowercase letters, spaces and padding", () => {
+    const formatted = "gezd gnbv gy3t qojq gezd gnbv gy3t qojq====";
+    expect(generateTotpCode(formatted, 1)).toBe(generateTotpCode(RFC_SECRET, 1));
+  });
+
+  it("generates 160-bit Base32 secrets", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe("matchTotpCode", () => {
+  // T=1111111111 位于时间步 37037037 内的第 1 秒
+  const NOW = 1111111111 * 1000;
+  const STEP = 37037037;
+  const codeAt = (step: number) => generateTotpCode(RFC_SECRET, step);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts the current step and one step of drift either way", () => {
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP), null)).toBe(STEP);
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP - 1), null)).toBe(STEP - 1);
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP + 1), null)).toBe(STEP + 1);
+  });
+
+  it("rejects codes two steps away", () => {
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP - 2), null)).toBeNull();
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP + 2), null)).toBeNull();
+  });
+
+  it("moves the window exactly at the step boundary", () => {
+    const previousCode = codeAt(STEP - 1);
+
+    vi.setSystemTime((STEP + 1) * 30 * 1000 - 1);
+    expect(matchTotpCode(RFC_SECRET, previousCode, null)).toBe(STEP - 1);
+
+    vi.setSystemTime((STEP + 1) * 30 * 1000);
+    expect(matchTotpCode(RFC_SECRET, previousCode, null)).toBeNull();
+  });
+
+  it("rejects a code whose step was already used", () => {
+    const code = codeAt(STEP);
+    const used = matchTotpCode(RFC_SECRET, code, null);
+
+    expect(matchTotpCode(RFC_SECRET, code, used)).toBeNull();
+  });
+
+  it("rejects older codes once a later step was used, but accepts newer ones", () => {
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP - 1), STEP)).toBeNull();
+    expect(matchTotpCode(RFC_SECRET, codeAt(STEP + 1), STEP)).toBe(STEP + 1);
+  });
+
+  it("ignores spaces and rejects malformed codes", () => {
+    const code = codeAt(STEP);
+
+    expect(matchTotpCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, null)).toBe(STEP);
+    expect(matchTotpCode(RFC_SECRET, code.slice(1), null)).toBeNull();
+    expect(matchTotpCode(RFC_SECRET, `${code}0`, null)).toBeNull();
+    expect(matchTotpCode(RFC_SECRET, "abcdef", null)).toBeNull();
+  });
+});
+
+describe("backup codes", () => {
+  it("generates distinct codes in the xxxxx-xxxxx format", () => {
+    const codes = generateBackupCodes();
+
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const code of codes) {
+      expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(looksLikeBackupCode(code)).toBe(true);
+    }
+  });
+
+  it("hashes codes regardless of case, spaces and hyphens", () => {
+    expect(hashBackupCode("AB12C-34DEF")).toBe(hashBackupCode("ab12c34def"));
+    expect(hashBackupCode(" ab12c 34def ")).toBe(hashBackupCode("ab12c-34def"));
+  });
+
+  it("does not mistake a 6-digit code for a backup code", () => {
+    expect(looksLikeBackupCode("123456")).toBe(false);
+  });
+});
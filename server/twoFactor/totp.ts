@@ -0,0 +1,144 @@
+/**
+ * TOTP 算法（RFC 6238，HMAC-SHA1，6 位，30 秒步长）与备用恢复码
+ *
+ * 与 Google Authenticator、Microsoft Authenticator、1Password 等验证器应用兼容
+ */
+
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// 允许前后各一个时间步的时钟偏差
+const ALLOWED_DRIFT_STEPS = 1;
+
+/** 备用恢复码数量 */
+export const BACKUP_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * 生成新的 Base32 密钥（160 位）
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * 当前时间步
+ */
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * 计算指定时间步的验证码
+ */
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return binary.toString().padStart(DIGITS, "0");
+}
+
+/**
+ * 校验验证码，返回匹配的时间步；不匹配或时间步不晚于 lastUsedStep（重放）时返回 null
+ */
+export function matchTotpCode(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentTotpStep();
+  for (let step = now - ALLOWED_DRIFT_STEPS; step <= now + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = generateTotpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * 生成验证器应用扫码用的 otpauth:// 链接
+ */
+export function buildOtpauthUrl(secret: string, accountName: string, issuer: string = "DataReach"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * 规范化备用恢复码（忽略大小写、空格和连字符）
+ */
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toLowerCase();
+}
+
+/**
+ * 备用恢复码的存储哈希
+ */
+export function hashBackupCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+/**
+ * 生成一组备用恢复码，格式 xxxxx-xxxxx
+ */
+export function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * 是否形如备用恢复码（而非 6 位验证码）
+ */
+export function looksLikeBackupCode(code: string): boolean {
+  return /^[0-9a-f]{10}$/.test(normalizeBackupCode(code));
+}
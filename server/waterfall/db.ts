@@ -0,0 +1,271 @@
+/**
+ * 瀑布式搜索数据库操作
+ */
+
+import { getDb } from "../db";
+import {
+  waterfallSearchTasks,
+  waterfallSearchResults,
+  InsertWaterfallSearchResult,
+  WaterfallSearchTask,
+} from "../../drizzle/schema";
+import { eq, desc, sql, and, or, inArray, isNull, gt } from "drizzle-orm";
+import crypto from "crypto";
+import type { PeopleSearchSource, TaskLogEntry } from "../peopleSearch/types";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+export type WaterfallStage = NonNullable<WaterfallSearchTask["stages"]>[number];
+
+// ==================== 任务相关 ====================
+
+/**
+ * 创建瀑布式搜索任务
+ */
+export async function createWaterfallSearchTask(data: {
+  userId: number;
+  mode: "nameOnly" | "nameLocation";
+  names: string[];
+  locations: string[];
+  filters: any;
+  sourceOrder: PeopleSearchSource[];
+  fallthroughOn: "phone" | "email";
+}) {
+  const database = await db();
+  const taskId = crypto.randomBytes(16).toString("hex");
+
+  const result = await database.insert(waterfallSearchTasks).values({
+    taskId,
+    userId: data.userId,
+    mode: data.mode,
+    names: data.names,
+    locations: data.locations,
+    filters: data.filters,
+    sourceOrder: data.sourceOrder,
+    fallthroughOn: data.fallthroughOn,
+    stages: [],
+    pendingNames: data.names,
+    status: "pending",
+    logs: [],
+  });
+
+  return {
+    id: Number(result[0].insertId),
+    taskId,
+  };
+}
+
+/**
+ * 获取瀑布式搜索任务
+ */
+export async function getWaterfallSearchTask(taskId: string) {
+  const database = await db();
+  const tasks = await database
+    .select()
+    .from(waterfallSearchTasks)
+    .where(eq(waterfallSearchTasks.taskId, taskId));
+
+  return tasks[0] || null;
+}
+
+/**
+ * 更新任务进度
+ */
+export async function updateWaterfallSearchTask(
+  taskDbId: number,
+  data: {
+    status?: "running" | "completed" | "failed" | "cancelled" | "insufficient_credits";
+    progress?: number;
+    stages?: WaterfallStage[];
+    pendingNames?: string[];
+    totalResults?: number;
+    resolvedNames?: number;
+    creditsUsed?: number;
+    logs?: TaskLogEntry[];
+    errorMessage?: string;
+  }
+) {
+  const database = await db();
+  const updateData: any = { ...data };
+
+  if (data.creditsUsed !== undefined) {
+    updateData.creditsUsed = data.creditsUsed.toFixed(2);
+  }
+  if (data.status === "running") {
+    updateData.startedAt = new Date();
+  }
+  if (data.status && data.status !== "running") {
+    updateData.completedAt = new Date();
+  }
+  if (data.errorMessage) {
+    updateData.errorMessage = data.errorMessage.substring(0, 500);
+  }
+
+  await database
+    .update(waterfallSearchTasks)
+    .set(updateData)
+    .where(eq(waterfallSearchTasks.id, taskDbId));
+}
+
+/**
+ * 获取任务当前状态（执行器检查是否被用户停止）
+ */
+export async function getWaterfallTaskStatus(taskDbId: number) {
+  const database = await db();
+  const rows = await database
+    .select({ status: waterfallSearchTasks.status })
+    .from(waterfallSearchTasks)
+    .where(eq(waterfallSearchTasks.id, taskDbId));
+  return rows[0]?.status ?? null;
+}
+
+/**
+ * 标记任务为取消状态
+ */
+export async function cancelWaterfallSearchTask(taskDbId: number) {
+  const database = await db();
+  await database
+    .update(waterfallSearchTasks)
+    .set({ status: "cancelled" })
+    .where(eq(waterfallSearchTasks.id, taskDbId));
+}
+
+/**
+ * 将未正常结束的任务（服务重启时仍在执行）标记为失败，写入对账后的阶段明细和积分
+ * 任务已结束或已被其他进程处理时返回 false
+ */
+export async function interruptWaterfallSearchTask(
+  taskDbId: number,
+  errorMessage: string,
+  data: { stages: WaterfallStage[]; creditsUsed: number; logs: TaskLogEntry[] }
+) {
+  const database = await db();
+  const result = await database
+    .update(waterfallSearchTasks)
+    .set({
+      status: "failed",
+      errorMessage,
+      stages: data.stages,
+      creditsUsed: data.creditsUsed.toFixed(2),
+      logs: data.logs.slice(-100),
+      completedAt: new Date(),
+    })
+    .where(and(
+      eq(waterfallSearchTasks.id, taskDbId),
+      or(
+        inArray(waterfallSearchTasks.status, ["pending", "running"]),
+        and(eq(waterfallSearchTasks.status, "cancelled"), isNull(waterfallSearchTasks.completedAt))
+      )
+    ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 获取瀑布式搜索历史（userIds 为本人或团队成员）
+ */
+export async function getUserWaterfallSearchTasks(
+  userIds: number[],
+  page: number = 1,
+  pageSize: number = 20
+) {
+  const database = await db();
+  const offset = (page - 1) * pageSize;
+
+  const [tasks, countResult] = await Promise.all([
+    database
+      .select()
+      .from(waterfallSearchTasks)
+      .where(inArray(waterfallSearchTasks.userId, userIds))
+      .orderBy(desc(waterfallSearchTasks.createdAt))
+      .limit(pageSize)
+      .offset(offset),
+    database
+      .select({ count: sql<number>`count(*)` })
+      .from(waterfallSearchTasks)
+      .where(inArray(waterfallSearchTasks.userId, userIds)),
+  ]);
+
+  return {
+    data: tasks,
+    total: countResult[0]?.count || 0,
+  };
+}
+
+// ==================== 结果相关 ====================
+
+/**
+ * 保存合并结果
+ */
+export async function saveWaterfallSearchResults(
+  taskDbId: number,
+  rows: Omit<InsertWaterfallSearchResult, "taskId">[]
+) {
+  if (rows.length === 0) return;
+  const database = await db();
+  await database.insert(waterfallSearchResults).values(
+    rows.map(row => ({ ...row, taskId: taskDbId }))
+  );
+}
+
+/**
+ * 分页获取合并结果
+ */
+export async function getWaterfallSearchResults(
+  taskDbId: number,
+  page: number = 1,
+  pageSize: number = 50
+) {
+  const database = await db();
+  const offset = (page - 1) * pageSize;
+
+  const [results, countResult] = await Promise.all([
+    database
+      .select()
+      .from(waterfallSearchResults)
+      .where(eq(waterfallSearchResults.taskId, taskDbId))
+      .orderBy(waterfallSearchResults.id)
+      .limit(pageSize)
+      .offset(offset),
+    database
+      .select({ count: sql<number>`count(*)` })
+      .from(waterfallSearchResults)
+      .where(eq(waterfallSearchResults.taskId, taskDbId)),
+  ]);
+
+  return {
+    data: results,
+    total: countResult[0]?.count || 0,
+  };
+}
+
+/**
+ * 获取全部合并结果（用于导出）
+ */
+export async function getAllWaterfallSearchResults(taskDbId: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(waterfallSearchResults)
+    .where(eq(waterfallSearchResults.taskId, taskDbId))
+    .orderBy(waterfallSearchResults.id);
+}
+
+/**
+ * 按 id 顺序分批读取结果（流式导出用，避免一次性加载全部结果）
+ */
+export async function getWaterfallSearchResultsAfter(taskDbId: number, afterId: number, limit: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(waterfallSearchResults)
+    .where(and(eq(waterfallSearchResults.taskId, taskDbId), gt(waterfallSearchResults.id, afterId)))
+    .orderBy(waterfallSearchResults.id)
+    .limit(limit);
+}
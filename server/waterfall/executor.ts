@@ -0,0 +1,275 @@
+/**
+ * 瀑布式搜索执行器
+ *
+ * 同一份名单按用户指定的优先级依次查询多个数据源：
+ * 1. 第一个数据源搜索全部姓名
+ * 2. 结果中没有电话（或邮箱，取决于 fallthroughOn）的姓名进入下一个数据源
+ * 3. 每个数据源都在自己的任务表中创建子任务，由统一执行器 (peopleSearch/runner.ts) 实时扣费
+ * 4. 子任务结果归一化后合并到 waterfall_search_results，每行标注来源，跨数据源按电话去重
+ *
+ * 积分不足或用户停止时立即结束，已获取的结果照常保存；
+ * 某个数据源失败或未启用时记录日志并继续下一个数据源。
+ * 服务重启导致中断时不恢复执行，由任务队列 (services/taskQueue.ts) 标记失败并按子任务对账
+ */
+
+import { logUserActivity } from "../db";
+import { emitTaskProgress, emitTaskCompleted, emitTaskFailed } from "../_core/wsEmitter";
+import { getPeopleSearchProvider } from "../peopleSearch/registry";
+import { runPeopleSearchTask, signalPeopleSearchStop } from "../peopleSearch/runner";
+import { runTaskJob } from "../services/taskQueue";
+import type {
+  AnyPeopleSearchProvider,
+  PeopleSearchInput,
+  PeopleSearchResultRow,
+  PeopleSearchSource,
+  PeopleSearchTaskRef,
+  TaskLogEntry,
+} from "../peopleSearch/types";
+import {
+  updateWaterfallSearchTask,
+  getWaterfallTaskStatus,
+  saveWaterfallSearchResults,
+  WaterfallStage,
+} from "./db";
+
+const MAX_LOG_ENTRIES = 100;
+const MAX_MESSAGE_LENGTH = 200;
+
+export interface WaterfallSearchInput extends PeopleSearchInput {
+  sourceOrder: PeopleSearchSource[];
+  fallthroughOn: "phone" | "email";
+}
+
+/** 正在执行的子任务（用于停止瀑布式任务时同时停止当前数据源） */
+const activeStages = new Map<string, { provider: AnyPeopleSearchProvider; task: PeopleSearchTaskRef }>();
+
+/**
+ * 停止瀑布式任务当前正在执行的子任务
+ */
+export async function cancelActiveWaterfallStage(taskId: string): Promise<void> {
+  const active = activeStages.get(taskId);
+  if (active) {
+    await active.provider.store.cancel(active.task);
+    signalPeopleSearchStop(active.provider.source, active.task.taskId);
+  }
+}
+
+/** 电话号码归一化（去重用） */
+function normalizePhone(phone: string | null): string {
+  return (phone || "").replace(/\D/g, "").replace(/^1(?=\d{10}$)/, "");
+}
+
+/** 判断结果行是否命中（有电话或有邮箱） */
+function isResolved(row: PeopleSearchResultRow, fallthroughOn: "phone" | "email"): boolean {
+  if (fallthroughOn === "email") {
+    return !!row.email || row.allEmails.length > 0;
+  }
+  return !!row.phone && row.phone.trim() !== "";
+}
+
+/**
+ * 执行瀑布式搜索任务
+ */
+export async function executeWaterfallSearch(
+  task: PeopleSearchTaskRef,
+  userId: number,
+  input: WaterfallSearchInput
+): Promise<void> {
+  const { taskDbId, taskId } = task;
+
+  console.log(`[Waterfall] 用户 ${userId} 开始任务 ${taskId}`);
+
+  const logs: TaskLogEntry[] = [];
+  const addLog = (message: string) => {
+    const truncatedMessage = message.length > MAX_MESSAGE_LENGTH
+      ? message.substring(0, MAX_MESSAGE_LENGTH) + "..."
+      : message;
+    if (logs.length >= MAX_LOG_ENTRIES) {
+      logs.shift();
+    }
+    logs.push({ timestamp: new Date().toISOString(), message: truncatedMessage });
+  };
+
+  const stages: WaterfallStage[] = [];
+  const seenPhones = new Set<string>();
+  let pendingNames = Array.from(new Set(input.names));
+  let totalResults = 0;
+  let creditsUsed = 0;
+  let finalStatus: "completed" | "cancelled" | "insufficient_credits" = "completed";
+
+  const fieldLabel = input.fallthroughOn === "email" ? "邮箱" : "电话";
+  addLog(`🚀 瀑布式搜索任务启动`);
+  addLog(`📋 数据源顺序: ${input.sourceOrder.map(s => getPeopleSearchProvider(s).label).join(" → ")}`);
+  addLog(`📋 ${pendingNames.length} 个姓名，缺少${fieldLabel}的姓名进入下一个数据源`);
+
+  const pushProgress = async (progress: number) => {
+    await updateWaterfallSearchTask(taskDbId, {
+      progress,
+      stages,
+      pendingNames,
+      totalResults,
+      resolvedNames: input.names.length - pendingNames.length,
+      creditsUsed,
+      logs,
+    });
+    emitTaskProgress(userId, taskId, "waterfall", {
+      progress,
+      stages,
+      totalResults,
+      creditsUsed,
+      logs,
+    });
+  };
+
+  try {
+    // 任务在启动前已被停止时保持 cancelled，由下方循环直接结束
+    if ((await getWaterfallTaskStatus(taskDbId)) !== "cancelled") {
+      await updateWaterfallSearchTask(taskDbId, { status: "running", logs });
+      emitTaskProgress(userId, taskId, "waterfall", { status: "running", logs });
+    }
+
+    for (let i = 0; i < input.sourceOrder.length; i++) {
+      if (pendingNames.length === 0) break;
+      if ((await getWaterfallTaskStatus(taskDbId)) === "cancelled") {
+        finalStatus = "cancelled";
+        break;
+      }
+
+      const provider = getPeopleSearchProvider(input.sourceOrder[i]);
+      const config = await provider.getRuntimeConfig();
+      const stage: WaterfallStage = {
+        source: provider.source,
+        childTaskId: null,
+        names: pendingNames.length,
+        resolvedNames: 0,
+        totalResults: 0,
+        creditsUsed: 0,
+        status: "pending",
+      };
+      stages.push(stage);
+
+      if (!config.enabled || !config.token) {
+        stage.status = "skipped";
+        addLog(`⏭️ ${provider.displayName} 未启用，跳过`);
+        await pushProgress(Math.round(((i + 1) / input.sourceOrder.length) * 100));
+        continue;
+      }
+
+      addLog(`📋 [${i + 1}/${input.sourceOrder.length}] ${provider.displayName}: 搜索 ${pendingNames.length} 个姓名`);
+
+      const stageInput: PeopleSearchInput = {
+        names: pendingNames,
+        locations: input.locations,
+        mode: input.mode,
+        filters: input.filters,
+      };
+      const childTask = await provider.createTask(userId, stageInput, config);
+      stage.childTaskId = childTask.taskId;
+      stage.status = "running";
+      await pushProgress(Math.round((i / input.sourceOrder.length) * 100));
+
+      activeStages.set(taskId, { provider, task: childTask });
+      let summary;
+      try {
+        // 子任务持有自己的租约；服务重启后由瀑布式任务统一对账，不单独恢复
+        summary = await runTaskJob(
+          {
+            source: provider.source,
+            taskId: childTask.taskId,
+            taskDbId: childTask.taskDbId,
+            userId,
+            payload: { ...stageInput, parentTaskId: taskId },
+          },
+          () => runPeopleSearchTask(provider, childTask, userId, stageInput, config)
+        );
+      } finally {
+        activeStages.delete(taskId);
+      }
+
+      stage.status = summary.status;
+      stage.creditsUsed = summary.creditsUsed;
+      creditsUsed += summary.creditsUsed;
+
+      // 合并结果：跨数据源按电话去重，标注来源
+      const rows = await provider.loadResults(childTask);
+      const resolved = new Set<string>();
+      const merged = rows.filter(row => {
+        if (row.searchName && isResolved(row, input.fallthroughOn)) {
+          resolved.add(row.searchName);
+        }
+        const phone = normalizePhone(row.phone);
+        if (phone && seenPhones.has(phone)) return false;
+        if (phone) seenPhones.add(phone);
+        return true;
+      });
+      await saveWaterfallSearchResults(taskDbId, merged.map(row => ({ ...row, source: provider.source })));
+
+      stage.totalResults = merged.length;
+      stage.resolvedNames = pendingNames.filter(name => resolved.has(name)).length;
+      totalResults += merged.length;
+      pendingNames = pendingNames.filter(name => !resolved.has(name));
+
+      addLog(`✅ ${provider.displayName}: ${stage.resolvedNames} 个姓名命中, ${merged.length} 条结果, 消耗 ${summary.creditsUsed.toFixed(1)} 积分`);
+      await pushProgress(Math.round(((i + 1) / input.sourceOrder.length) * 100));
+
+      if (summary.status === "cancelled") {
+        finalStatus = "cancelled";
+        break;
+      }
+      if (summary.status === "insufficient_credits") {
+        finalStatus = "insufficient_credits";
+        break;
+      }
+      if (summary.status === "failed") {
+        addLog(`⚠️ ${provider.displayName} 执行失败，继续下一个数据源`);
+      }
+    }
+
+    // 用户在最后一个数据源结束后停止
+    if (finalStatus === "completed" && (await getWaterfallTaskStatus(taskDbId)) === "cancelled") {
+      finalStatus = "cancelled";
+    }
+
+    if (finalStatus === "cancelled") {
+      addLog(`⏹️ 任务已被用户停止，已保存已获取的结果`);
+    } else if (finalStatus === "insufficient_credits") {
+      addLog(`⚠️ 任务因积分不足提前结束`);
+    } else {
+      addLog(`✅ 任务完成`);
+    }
+    const bill = stages
+      .filter(s => s.creditsUsed > 0)
+      .map(s => `${getPeopleSearchProvider(s.source).label} ${s.creditsUsed.toFixed(1)}`)
+      .join(" + ");
+    addLog(`💰 合计消耗 ${creditsUsed.toFixed(1)} 积分${bill ? ` (${bill})` : ""}，${totalResults} 条结果，${pendingNames.length} 个姓名未命中`);
+
+    await pushProgress(100);
+    await updateWaterfallSearchTask(taskDbId, { status: finalStatus, logs });
+    emitTaskCompleted(userId, taskId, "waterfall", { totalResults, creditsUsed, status: finalStatus });
+
+    console.log(`[Waterfall] 用户 ${userId} 任务 ${taskId} 结束: ${finalStatus}`);
+
+    await logUserActivity({
+      userId,
+      action: "瀑布式搜索",
+      details: `搜索${finalStatus === "completed" ? "完成" : finalStatus === "cancelled" ? "(用户停止)" : "(积分不足停止)"}: ${input.names.length}个姓名, ${totalResults}条结果, 消耗${creditsUsed.toFixed(1)}积分`,
+      ipAddress: undefined,
+      userAgent: undefined,
+    });
+  } catch (error: any) {
+    const errorMessage = error?.message || "未知错误";
+    addLog(`❌ 任务失败: ${errorMessage}`);
+
+    await updateWaterfallSearchTask(taskDbId, {
+      status: "failed",
+      stages,
+      totalResults,
+      creditsUsed,
+      errorMessage,
+      logs,
+    });
+    emitTaskFailed(userId, taskId, "waterfall", { error: errorMessage, creditsUsed });
+
+    console.error(`[Waterfall] 用户 ${userId} 任务 ${taskId} 失败:`, error);
+  }
+}
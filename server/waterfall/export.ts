@@ -0,0 +1,59 @@
+/**
+ * 瀑布式搜索合并结果导出（流式，见 exports/stream.ts）
+ */
+
+import type { TaskExporter } from "../exports/stream";
+import type { ExportColumn } from "../exports/options";
+import { mergeEmails, mergePhones, splitName } from "../exports/templates";
+import { getPeopleSearchProvider } from "../peopleSearch/registry";
+import { getWaterfallSearchTask, getWaterfallSearchResultsAfter } from "./db";
+
+type WaterfallSearchTask = NonNullable<Awaited<ReturnType<typeof getWaterfallSearchTask>>>;
+type WaterfallSearchResult = Awaited<ReturnType<typeof getWaterfallSearchResultsAfter>>[number];
+
+const COLUMNS: ExportColumn<WaterfallSearchResult>[] = [
+  { key: "searchName", zh: "搜索姓名", en: "Search Name", value: r => r.searchName || "" },
+  { key: "searchLocation", zh: "搜索地点", en: "Search Location", value: r => r.searchLocation || "" },
+  { key: "name", zh: "姓名", en: "Name", value: r => r.name || "" },
+  { key: "age", zh: "年龄", en: "Age", value: r => r.age?.toString() || "" },
+  { key: "address", zh: "地址", en: "Address", value: r => r.location || (r.city && r.state ? `${r.city}, ${r.state}` : "") },
+  { key: "phone", zh: "电话", en: "Phone", value: (r, ctx) => ctx.phone(r.phone) },
+  { key: "phoneType", zh: "电话类型", en: "Phone Type", value: r => r.phoneType || "" },
+  { key: "carrier", zh: "运营商", en: "Carrier", value: r => r.carrier || "" },
+  {
+    key: "otherPhones", zh: "其他电话", en: "Other Phones",
+    value: (r, ctx) => (r.allPhones || []).filter((p: string) => p !== r.phone).map(p => ctx.phone(p)).join(", "),
+  },
+  { key: "email", zh: "邮箱", en: "Email", value: r => r.email || "" },
+  { key: "otherEmails", zh: "其他邮箱", en: "Other Emails", value: r => (r.allEmails || []).filter((e: string) => e !== r.email).join(", ") },
+  { key: "source", zh: "数据来源", en: "Source", value: r => getPeopleSearchProvider(r.source).displayName },
+  { key: "createdAt", zh: "获取时间", en: "Retrieved At", value: r => new Date(r.createdAt).toISOString().split("T")[0] },
+];
+
+export const waterfallExporter: TaskExporter<WaterfallSearchTask, WaterfallSearchResult> = {
+  columns: COLUMNS,
+
+  getTask: getWaterfallSearchTask,
+
+  isExportable: task => task.status !== "pending" && task.status !== "running",
+
+  createSource: task => ({
+    filename: `DataReach_Waterfall_${task.taskId}_${new Date().toISOString().split("T")[0]}`,
+    fetchBatch: (afterId, limit) => getWaterfallSearchResultsAfter(task.id, afterId, limit),
+  }),
+
+  toLead: r => ({
+    ...splitName(r.name),
+    fullName: r.name || "",
+    age: r.age,
+    address: r.location || "",
+    city: r.city || "",
+    state: r.state || "",
+    company: "",
+    jobTitle: "",
+    linkedinUrl: "",
+    phones: mergePhones(r.phone ? { number: r.phone, type: r.phoneType } : null, ...(r.allPhones || [])),
+    emails: mergeEmails(r.email, ...(r.allEmails || [])),
+    source: getPeopleSearchProvider(r.source).displayName,
+  }),
+};
@@ -0,0 +1,266 @@
+/**
+ * 瀑布式搜索 tRPC 路由
+ *
+ * 同一份名单按优先级依次查询 TPS / SPF / Anywho，
+ * 只有未命中（无电话或无邮箱）的姓名才进入下一个数据源，
+ * 结果合并为一个结果集，每行标注来源，积分按数据源汇总为一张账单
+ * CSV 导出为流式下载 (GET /api/export/waterfall/:taskId)，格式见 export.ts
+ * 团队成员共享积分池，任务历史和结果在团队内可见（见 organizations/）
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getAvailableCredits } from "../organizations/credits";
+import {
+  getTeamUserIds,
+  canViewUserResource,
+  canManageUserResource,
+  searchProcedure,
+} from "../organizations/access";
+import { getPeopleSearchProvider, listPeopleSearchProviders } from "../peopleSearch/registry";
+import {
+  createWaterfallSearchTask,
+  getWaterfallSearchTask,
+  getUserWaterfallSearchTasks,
+  getWaterfallSearchResults,
+  cancelWaterfallSearchTask,
+} from "./db";
+import { executeWaterfallSearch, cancelActiveWaterfallStage } from "./executor";
+import { runTaskJob } from "../services/taskQueue";
+
+const sourceSchema = z.enum(["tps", "spf", "anywho"]);
+
+// 三个数据源共同支持的过滤条件
+const waterfallFiltersSchema = z.object({
+  minAge: z.number().min(0).max(120).optional(),
+  maxAge: z.number().min(0).max(120).optional(),
+  minYear: z.number().min(2000).max(2030).optional(),
+  excludeTMobile: z.boolean().optional(),
+  excludeComcast: z.boolean().optional(),
+  excludeLandline: z.boolean().optional(),
+}).optional();
+
+const waterfallSearchInputSchema = z.object({
+  names: z.array(z.string().min(1)).min(1).max(100),
+  locations: z.array(z.string()).optional(),
+  mode: z.enum(["nameOnly", "nameLocation"]),
+  filters: waterfallFiltersSchema,
+  sourceOrder: z.array(sourceSchema).min(1).max(3)
+    .refine(order => new Set(order).size === order.length, { message: "数据源不能重复" }),
+  fallthroughOn: z.enum(["phone", "email"]).default("phone"),
+});
+
+/**
+ * 获取任务并校验访问权限
+ *
+ * view：同一团队可查看；manage：本人或团队所有者、管理员可停止
+ */
+async function getAccessibleTask(taskId: string, userId: number, access: "view" | "manage" = "view") {
+  const task = await getWaterfallSearchTask(taskId);
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "任务不存在",
+    });
+  }
+
+  const allowed = access === "view"
+    ? await canViewUserResource(userId, task.userId)
+    : await canManageUserResource(userId, task.userId);
+  if (!allowed) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "无权访问此任务",
+    });
+  }
+
+  return task;
+}
+
+export const waterfallRouter = router({
+  // 获取可用数据源
+  getSources: protectedProcedure.query(async () => {
+    return Promise.all(listPeopleSearchProviders().map(async provider => {
+      const config = await provider.getRuntimeConfig();
+      return {
+        source: provider.source,
+        label: provider.label,
+        displayName: provider.displayName,
+        enabled: config.enabled && !!config.token,
+        searchCost: config.searchCost,
+        detailCost: config.detailCost,
+      };
+    }));
+  }),
+
+  // 预估搜索消耗（上限：假设所有姓名都进入每一个数据源）
+  estimateCost: protectedProcedure
+    .input(waterfallSearchInputSchema)
+    .query(async ({ input }) => {
+      const sources = await Promise.all(input.sourceOrder.map(async source => {
+        const provider = getPeopleSearchProvider(source);
+        const config = await provider.getRuntimeConfig();
+        if (!config.enabled || !config.token) {
+          return { source, label: provider.label, enabled: false, estimatedCost: 0 };
+        }
+        const estimate = provider.estimateCost(input, config);
+        return { source, label: provider.label, enabled: true, estimatedCost: estimate.estimatedCost };
+      }));
+
+      const firstEstimate = sources.find(s => s.enabled)?.estimatedCost ?? 0;
+      const maxEstimatedCost = sources.reduce((sum, s) => sum + s.estimatedCost, 0);
+
+      return {
+        sources,
+        minEstimatedCost: Math.ceil(firstEstimate * 10) / 10,
+        maxEstimatedCost: Math.ceil(maxEstimatedCost * 10) / 10,
+        note: "实时扣费模式：首个数据源命中率越高，后续数据源消耗越少",
+      };
+    }),
+
+  // 提交瀑布式搜索任务
+  search: searchProcedure
+    .input(waterfallSearchInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+
+      // 至少一个数据源可用
+      let minSearchCost: number | null = null;
+      for (const source of input.sourceOrder) {
+        const config = await getPeopleSearchProvider(source).getRuntimeConfig();
+        if (config.enabled && config.token) {
+          minSearchCost = config.searchCost;
+          break;
+        }
+      }
+      if (minSearchCost === null) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "所选数据源均暂未开放",
+        });
+      }
+
+      // 实时扣分模式：只检查最低余额
+      const userCredits = await getAvailableCredits(userId);
+      if (userCredits < minSearchCost) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `积分不足，至少需要 ${minSearchCost.toFixed(1)} 积分才能开始搜索，当前余额 ${userCredits.toFixed(1)} 积分`,
+        });
+      }
+
+      const task = await createWaterfallSearchTask({
+        userId,
+        mode: input.mode,
+        names: input.names,
+        locations: input.locations || [],
+        filters: input.filters || {},
+        sourceOrder: input.sourceOrder,
+        fallthroughOn: input.fallthroughOn,
+      });
+
+      runTaskJob(
+        { source: "waterfall", taskId: task.taskId, taskDbId: task.id, userId, payload: input },
+        () => executeWaterfallSearch(
+          { taskDbId: task.id, taskId: task.taskId },
+          userId,
+          input
+        )
+      ).catch(err => {
+        console.error(`瀑布式搜索任务 ${task.taskId} 执行失败:`, err);
+      });
+
+      return {
+        taskId: task.taskId,
+        message: "瀑布式搜索任务已提交（实时扣分模式）",
+        currentBalance: userCredits,
+      };
+    }),
+
+  // 获取任务状态
+  getTaskStatus: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id);
+
+      return {
+        taskId: task.taskId,
+        status: task.status,
+        progress: task.progress,
+        sourceOrder: task.sourceOrder,
+        fallthroughOn: task.fallthroughOn,
+        stages: task.stages || [],
+        totalNames: task.names.length,
+        resolvedNames: task.resolvedNames,
+        pendingNames: task.pendingNames || [],
+        totalResults: task.totalResults,
+        creditsUsed: parseFloat(task.creditsUsed),
+        logs: task.logs || [],
+        errorMessage: task.errorMessage,
+        createdAt: task.createdAt,
+        completedAt: task.completedAt,
+      };
+    }),
+
+  // 获取合并结果
+  getTaskResults: protectedProcedure
+    .input(z.object({
+      taskId: z.string(),
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(10).max(100).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id);
+      const results = await getWaterfallSearchResults(task.id, input.page, input.pageSize);
+
+      return {
+        results: results.data,
+        total: results.total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(results.total / input.pageSize),
+      };
+    }),
+
+  // 获取用户搜索历史
+  getHistory: protectedProcedure
+    .input(z.object({
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(10).max(50).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      const history = await getUserWaterfallSearchTasks(await getTeamUserIds(ctx.user!.id), input.page, input.pageSize);
+
+      return {
+        tasks: history.data.map(task => ({
+          ...task,
+          creditsUsed: parseFloat(task.creditsUsed) || 0,
+        })),
+        total: history.total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(history.total / input.pageSize),
+      };
+    }),
+
+  // 停止任务（同时停止当前正在执行的数据源）
+  stopTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const task = await getAccessibleTask(input.taskId, ctx.user!.id, "manage");
+
+      if (task.status !== "running" && task.status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能停止运行中的任务",
+        });
+      }
+
+      await cancelWaterfallSearchTask(task.id);
+      await cancelActiveWaterfallStage(task.taskId);
+
+      return { success: true, message: "任务已停止" };
+    }),
+});
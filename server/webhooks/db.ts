@@ -0,0 +1,231 @@
+/**
+ * Webhook 数据库操作
+ */
+
+import { getDb } from "../db";
+import {
+  webhooks,
+  webhookDeliveries,
+  InsertWebhookDelivery,
+  WebhookDelivery,
+} from "../../drizzle/schema";
+import { eq, and, desc, lte, sql } from "drizzle-orm";
+import crypto from "crypto";
+
+// 获取数据库实例的辅助函数
+async function db() {
+  const database = await getDb();
+  if (!database) {
+    throw new Error("数据库连接失败");
+  }
+  return database;
+}
+
+/** 每个用户最多注册的 Webhook 数 */
+export const MAX_WEBHOOKS_PER_USER = 5;
+
+/**
+ * 生成签名密钥
+ */
+export function generateWebhookSecret(): string {
+  return "whsec_" + crypto.randomBytes(24).toString("hex");
+}
+
+// ==================== Webhook ====================
+
+/**
+ * 注册 Webhook
+ */
+export async function createWebhook(data: { userId: number; url: string; description?: string }) {
+  const database = await db();
+  const secret = generateWebhookSecret();
+
+  const result = await database.insert(webhooks).values({
+    userId: data.userId,
+    url: data.url,
+    description: data.description || null,
+    secret,
+  });
+
+  return {
+    id: Number(result[0].insertId),
+    secret,
+  };
+}
+
+/**
+ * 获取用户的 Webhook 列表
+ */
+export async function getUserWebhooks(userId: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(webhooks)
+    .where(eq(webhooks.userId, userId))
+    .orderBy(desc(webhooks.createdAt));
+}
+
+/**
+ * 获取用户的某个 Webhook
+ */
+export async function getUserWebhook(userId: number, webhookId: number) {
+  const database = await db();
+  const rows = await database
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, webhookId), eq(webhooks.userId, userId)));
+  return rows[0] || null;
+}
+
+/**
+ * 获取用户所有启用的 Webhook
+ */
+export async function getActiveWebhooks(userId: number) {
+  const database = await db();
+  return database
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.userId, userId), eq(webhooks.isActive, true)));
+}
+
+/**
+ * 统计用户的 Webhook 数
+ */
+export async function countUserWebhooks(userId: number): Promise<number> {
+  const database = await db();
+  const result = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(webhooks)
+    .where(eq(webhooks.userId, userId));
+  return Number(result[0]?.count || 0);
+}
+
+/**
+ * 更新 Webhook
+ *
+ * @returns 是否更新成功（不存在或不属于该用户时返回 false）
+ */
+export async function updateWebhook(
+  userId: number,
+  webhookId: number,
+  data: { url?: string; description?: string | null; isActive?: boolean; secret?: string }
+): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(webhooks)
+    .set(data)
+    .where(and(eq(webhooks.id, webhookId), eq(webhooks.userId, userId)));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 删除 Webhook 及其投递记录
+ */
+export async function deleteWebhook(userId: number, webhookId: number): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .delete(webhooks)
+    .where(and(eq(webhooks.id, webhookId), eq(webhooks.userId, userId)));
+  if (result[0].affectedRows === 0) return false;
+
+  await database.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, webhookId));
+  return true;
+}
+
+// ==================== 投递记录 ====================
+
+/**
+ * 创建待投递记录
+ */
+export async function createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<void> {
+  if (deliveries.length === 0) return;
+  const database = await db();
+  await database.insert(webhookDeliveries).values(deliveries);
+}
+
+/**
+ * 获取到期待投递的记录
+ */
+export async function getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  const database = await db();
+  return database
+    .select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(limit);
+}
+
+/**
+ * 抢占一条投递记录：尝试次数未被其他进程修改时加一，并把下次尝试时间推到锁定窗口之后
+ *
+ * @returns 是否抢占成功
+ */
+export async function claimWebhookDelivery(delivery: WebhookDelivery, lockUntil: Date): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(webhookDeliveries)
+    .set({ attempts: delivery.attempts + 1, nextAttemptAt: lockUntil })
+    .where(and(
+      eq(webhookDeliveries.id, delivery.id),
+      eq(webhookDeliveries.status, "pending"),
+      eq(webhookDeliveries.attempts, delivery.attempts)
+    ));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * 记录投递结果
+ */
+export async function updateWebhookDelivery(
+  deliveryId: number,
+  data: Partial<Pick<WebhookDelivery, "status" | "nextAttemptAt" | "responseStatus" | "lastError" | "deliveredAt">>
+): Promise<void> {
+  const database = await db();
+  await database
+    .update(webhookDeliveries)
+    .set(data)
+    .where(eq(webhookDeliveries.id, deliveryId));
+}
+
+/**
+ * 获取用户最近的投递记录（设置页投递日志）
+ */
+export async function getUserWebhookDeliveries(userId: number, limit: number) {
+  const database = await db();
+  return database
+    .select({
+      id: webhookDeliveries.id,
+      webhookId: webhookDeliveries.webhookId,
+      event: webhookDeliveries.event,
+      source: webhookDeliveries.source,
+      taskId: webhookDeliveries.taskId,
+      status: webhookDeliveries.status,
+      attempts: webhookDeliveries.attempts,
+      nextAttemptAt: webhookDeliveries.nextAttemptAt,
+      responseStatus: webhookDeliveries.responseStatus,
+      lastError: webhookDeliveries.lastError,
+      deliveredAt: webhookDeliveries.deliveredAt,
+      createdAt: webhookDeliveries.createdAt,
+    })
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.userId, userId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+}
+
+/**
+ * 重新投递：把失败的记录改回待投递并立即执行
+ */
+export async function retryWebhookDelivery(userId: number, deliveryId: number): Promise<boolean> {
+  const database = await db();
+  const result = await database
+    .update(webhookDeliveries)
+    .set({ status: "pending", nextAttemptAt: new Date(), attempts: 0, lastError: null })
+    .where(and(
+      eq(webhookDeliveries.id, deliveryId),
+      eq(webhookDeliveries.userId, userId),
+      eq(webhookDeliveries.status, "failed")
+    ));
+  return result[0].affectedRows > 0;
+}
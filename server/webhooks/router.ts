@@ -0,0 +1,178 @@
+/**
+ * Webhook tRPC 路由
+ *
+ * 用户在设置页注册 Webhook URL，任务完成、失败或积分不足时收到签名的 JSON POST，
+ * 投递逻辑见 services/webhookDispatcher.ts
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import {
+  createWebhook,
+  getUserWebhooks,
+  getUserWebhook,
+  countUserWebhooks,
+  updateWebhook,
+  deleteWebhook,
+  generateWebhookSecret,
+  getUserWebhookDeliveries,
+  retryWebhookDelivery,
+  MAX_WEBHOOKS_PER_USER,
+} from "./db";
+import { checkWebhookUrl } from "./urlGuard";
+import { dispatchDueWebhooks, sendTestWebhook } from "../services/webhookDispatcher";
+
+const webhookUrlSchema = z.string().trim().url().max(500).refine(value => {
+  const protocol = new URL(value).protocol;
+  return protocol === "https:" || protocol === "http:";
+}, { message: "请填写可公开访问的 http(s) 地址" });
+
+/**
+ * 校验地址解析到公网（注册和修改 URL 时调用，每次投递前还会再次校验）
+ */
+async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let blocked: string | null;
+  try {
+    blocked = await checkWebhookUrl(url);
+  } catch {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Webhook 地址的域名无法解析",
+    });
+  }
+  if (blocked) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: blocked,
+    });
+  }
+}
+
+const descriptionSchema = z.string().trim().max(100).optional();
+
+/** 隐藏签名密钥，只保留末 4 位 */
+function maskSecret(secret: string): string {
+  return `whsec_****${secret.slice(-4)}`;
+}
+
+export const webhooksRouter = router({
+  // 获取 Webhook 列表
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await getUserWebhooks(ctx.user!.id);
+    return rows.map(({ secret, ...webhook }) => ({ ...webhook, secretHint: maskSecret(secret) }));
+  }),
+
+  // 注册 Webhook（签名密钥只在创建和重置时返回）
+  create: protectedProcedure
+    .input(z.object({ url: webhookUrlSchema, description: descriptionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user!.id;
+
+      if (await countUserWebhooks(userId) >= MAX_WEBHOOKS_PER_USER) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `最多只能注册 ${MAX_WEBHOOKS_PER_USER} 个 Webhook`,
+        });
+      }
+      await assertPublicWebhookUrl(input.url);
+
+      return createWebhook({ userId, url: input.url, description: input.description });
+    }),
+
+  // 修改 Webhook（URL、备注、启用状态）
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      url: webhookUrlSchema.optional(),
+      description: descriptionSchema,
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      if (data.url !== undefined) {
+        await assertPublicWebhookUrl(data.url);
+      }
+      const updated = await updateWebhook(ctx.user!.id, id, data);
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook 不存在",
+        });
+      }
+      return { success: true };
+    }),
+
+  // 重置签名密钥
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = generateWebhookSecret();
+      const updated = await updateWebhook(ctx.user!.id, input.id, { secret });
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook 不存在",
+        });
+      }
+      return { secret };
+    }),
+
+  // 删除 Webhook
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await deleteWebhook(ctx.user!.id, input.id);
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook 不存在",
+        });
+      }
+      return { success: true };
+    }),
+
+  // 发送测试事件
+  test: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await getUserWebhook(ctx.user!.id, input.id);
+      if (!webhook) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook 不存在",
+        });
+      }
+      if (!webhook.isActive) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Webhook 已停用",
+        });
+      }
+
+      await sendTestWebhook(ctx.user!.id, webhook);
+      return { success: true, message: "测试事件已发送，请在投递日志中查看结果" };
+    }),
+
+  // 投递日志
+  getDeliveries: protectedProcedure
+    .input(z.object({ limit: z.number().min(1).max(100).default(50) }).optional())
+    .query(async ({ ctx, input }) => {
+      return getUserWebhookDeliveries(ctx.user!.id, input?.limit ?? 50);
+    }),
+
+  // 重新投递失败的记录
+  retryDelivery: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const retried = await retryWebhookDelivery(ctx.user!.id, input.id);
+      if (!retried) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "只能重新投递失败的记录",
+        });
+      }
+      dispatchDueWebhooks().catch(console.error);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { checkWebhookUrl, isPrivateAddress, lookupPublicAddress, PRIVATE_WEBHOOK_HOST_MESSAGE, PrivateWebhookAddressError } from "./urlGuard";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    // IPv4 内网、本机、链路本地
+    ["0.0.0.0", true],
+    ["10.1.2.3", true],
+    ["127.0.0.1", true],
+    ["100.64.0.1", true],
+    ["169.254.169.254", true],
+    ["172.16.0.1", true],
+    ["172.31.255.255", true],
+    ["192.168.1.1", true],
+    // IPv4 保留、文档和基准测试网段
+    ["192.0.0.8", true],
+    ["192.0.2.10", true],
+    ["192.88.99.1", true],
+    ["198.18.0.1", true],
+    ["198.51.100.7", true],
+    ["203.0.113.9", true],
+    ["224.0.0.1", true],
+    ["255.255.255.255", true],
+    // IPv4 公网
+    ["8.8.8.8", false],
+    ["100.63.255.255", false],
+    ["172.32.0.1", false],
+    ["192.0.3.1", false],
+    ["203.0.114.1", false],
+    // IPv6 本机、链路本地、唯一本地、组播
+    ["::", true],
+    ["::1", true],
+    ["[::1]", true],
+    ["fe80::1", true],
+    ["fe80::1%eth0", true],
+    ["fc00::1", true],
+    ["fd12:3456::1", true],
+    ["ff02::1", true],
+    // 内嵌 IPv4 的 IPv6 地址
+    ["::ffff:127.0.0.1", true],
+    ["::ffff:7f00:1", true],
+    ["::ffff:8.8.8.8", false],
+    ["::10.0.0.1", true],
+    ["64:ff9b::a9fe:a9fe", true],
+    ["64:ff9b::10.0.0.1", true],
+    ["64:ff9b::8.8.8.8", false],
+    ["2002:a9fe:a9fe::1", true],
+    ["2002:c0a8:0101::", true],
+    ["2002:0808:0808::1", false],
+    // IETF 协议分配（Teredo 等）、文档地址与 2000::/3 之外的地址
+    ["2001:0:4136:e378:8000:63bf:3fff:fdd2", true],
+    ["2001:db8::1", true],
+    ["3fff::1", true],
+    ["100::1", true],
+    ["4000::1", true],
+    // IPv6 全球单播
+    ["2001:4860:4860::8888", false],
+    ["2606:4700::1111", false],
+    ["2a00:1450:4001::200e", false],
+  ])("%s → %s", (address, expected) => {
+    expect(isPrivateAddress(address)).toBe(expected);
+  });
+
+  it("treats host names as not an address", () => {
+    expect(isPrivateAddress("example.com")).toBe(false);
+  });
+});
+
+describe("checkWebhookUrl", () => {
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS;
+  });
+
+  it.each([
+    "http://localhost:3000/hook",
+    "https://api.internal/hook",
+    "https://10.0.0.5/hook",
+    "https://[64:ff9b::a9fe:a9fe]/latest/meta-data",
+  ])("rejects %s without resolving", async (url) => {
+    expect(await checkWebhookUrl(url)).toBe(PRIVATE_WEBHOOK_HOST_MESSAGE);
+  });
+
+  it("accepts a public IP address", async () => {
+    expect(await checkWebhookUrl("https://8.8.8.8/hook")).toBeNull();
+  });
+
+  it("can be disabled for local development", async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+    expect(await checkWebhookUrl("http://localhost:3000/hook")).toBeNull();
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  const lookup = (hostname: string) => new Promise<unknown>((resolve, reject) => {
+    lookupPublicAddress(hostname, { all: true }, (err, addresses) => err ? reject(err) : resolve(addresses));
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS;
+  });
+
+  it("fails the connection when the name resolves to a private address", async () => {
+    await expect(lookup("localhost")).rejects.toBeInstanceOf(PrivateWebhookAddressError);
+  });
+
+  it("passes resolved addresses through when private hosts are allowed", async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+    expect(await lookup("localhost")).toEqual(expect.arrayContaining([expect.objectContaining({ address: expect.any(String) })]));
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Webhook 地址校验（防止把 Webhook 指向服务器内网）
+ *
+ * 只看主机名字面量不够：公网域名可以解析到内网地址，DNS 记录也可能在注册后被改掉。
+ * 因此注册时和每次投递前都解析域名的全部地址，任一地址为内网、本机或链路本地即拒绝；
+ * 投递请求建立连接时的解析同样经过校验（lookupPublicAddress），防止 DNS 重绑定。
+ * 本地开发需要向本机投递时可设置 WEBHOOK_ALLOW_PRIVATE_HOSTS=true
+ */
+
+import dns from "dns";
+import net from "net";
+
+export const PRIVATE_WEBHOOK_HOST_MESSAGE = "Webhook 地址指向内网或本机，已拒绝";
+
+/**
+ * 建立连接时解析到内网地址
+ */
+export class PrivateWebhookAddressError extends Error {
+  constructor() {
+    super(PRIVATE_WEBHOOK_HOST_MESSAGE);
+    this.name = "PrivateWebhookAddressError";
+  }
+}
+
+function allowPrivateHosts(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+/** 内部保留的主机名后缀 */
+const PRIVATE_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b, c] = ip.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||   // 运营商级 NAT
+    (a === 169 && b === 254) ||             // 链路本地（含云厂商元数据地址）
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||  // IETF 协议分配、TEST-NET-1
+    (a === 192 && b === 88 && c === 99) ||  // 6to4 中继
+    (a === 198 && (b === 18 || b === 19)) ||  // 基准测试网段
+    (a === 198 && b === 51 && c === 100) || // TEST-NET-2
+    (a === 203 && b === 0 && c === 113) ||  // TEST-NET-3
+    a >= 224;                               // 组播和保留地址
+}
+
+/**
+ * 把 IPv6 地址展开为 16 个字节（支持 :: 缩写和结尾的点分 IPv4）
+ */
+function parseIPv6(ip: string): number[] | null {
+  let host = ip.toLowerCase().split("%")[0];
+  const dotted = host.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    host = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = host.split("::");
+  const headGroups = head ? head.split(":") : [];
+  let groups = headGroups;
+  if (tail !== undefined) {
+    const tailGroups = tail ? tail.split(":") : [];
+    groups = [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups];
+  }
+  if (groups.length !== 8) return null;
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const bytes = parseIPv6(ip);
+  if (!bytes) return true;
+  const embeddedIPv4 = (offset: number) => bytes.slice(offset, offset + 4).join(".");
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+
+  // 内嵌 IPv4 的地址按内嵌的 IPv4 判断：IPv4 映射 ::ffff:0:0/96、IPv4 兼容 ::/96（含 :: 和 ::1）、
+  // NAT64 64:ff9b::/96、6to4 2002::/16
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return isPrivateIPv4(embeddedIPv4(12));
+  if (isZero(0, 12)) return isPrivateIPv4(embeddedIPv4(12));
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && isZero(4, 12)) {
+    return isPrivateIPv4(embeddedIPv4(12));
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return isPrivateIPv4(embeddedIPv4(2));
+
+  // 其余只允许全球单播 2000::/3，排除 IETF 协议分配 2001::/23（含 Teredo）和文档地址
+  if ((bytes[0] & 0xe0) !== 0x20) return true;
+  if (bytes[0] === 0x20 && bytes[1] === 0x01 && (bytes[2] < 0x02 || (bytes[2] === 0x0d && bytes[3] === 0xb8))) {
+    return true;
+  }
+  return bytes[0] === 0x3f && bytes[1] === 0xff && bytes[2] < 0x10;  // 文档地址 3fff::/20
+}
+
+/**
+ * 是否为内网、本机、链路本地或保留地址
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "");
+  if (net.isIPv4(ip)) return isPrivateIPv4(ip);
+  if (net.isIPv6(ip)) return isPrivateIPv6(ip);
+  return false;
+}
+
+/**
+ * 校验 Webhook 地址是否指向公网
+ *
+ * @returns 被拒绝时返回原因，可以投递时返回 null
+ * @throws 域名解析失败（由调用方决定提示或重试）
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  if (allowPrivateHosts()) return null;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || PRIVATE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    return PRIVATE_WEBHOOK_HOST_MESSAGE;
+  }
+  if (net.isIP(host)) {
+    return isPrivateAddress(host) ? PRIVATE_WEBHOOK_HOST_MESSAGE : null;
+  }
+
+  const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return PRIVATE_WEBHOOK_HOST_MESSAGE;
+  }
+  return null;
+}
+
+/**
+ * 投递请求建立连接时使用的 DNS 解析（http.request 的 lookup 选项）
+ *
+ * 投递前的 checkWebhookUrl 与连接各自解析一次，TTL 为 0 的记录可以先返回公网地址、再返回内网地址；
+ * 这里校验的正是连接使用的地址，任一地址为内网时以 PrivateWebhookAddressError 失败
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, []);
+      return;
+    }
+    if (!allowPrivateHosts() && (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address)))) {
+      callback(new PrivateWebhookAddressError(), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
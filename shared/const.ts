@@ -3,3 +3,16 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const TWO_FACTOR_REQUIRED_ERR_MSG = 'Two-factor code required (10003)';
+
+/** LinkedIn 公司规模区间（员工人数），LinkedIn 搜索的公司规模筛选 */
+export const LINKEDIN_COMPANY_SIZES = [
+  "1-10",
+  "11-50",
+  "51-200",
+  "201-500",
+  "501-1000",
+  "1001-5000",
+  "5001-10000",
+  "10001+",
+] as const;